@@ -7,16 +7,26 @@ import type { Command } from 'commander';
 
 import { AuthCommand } from './commands/auth.command.js';
 import { AutopilotCommand } from './commands/autopilot/index.js';
+import { BackupCommand } from './commands/backup.command.js';
 import { BriefsCommand } from './commands/briefs.command.js';
 import { ContextCommand } from './commands/context.command.js';
+import { ConvertCommand } from './commands/convert.command.js';
 import { ExportCommand } from './commands/export.command.js';
+import { GraphCommand } from './commands/graph.command.js';
+import { HistoryCommand } from './commands/history.command.js';
+import { ImportFileCommand } from './commands/import-file.command.js';
+import { ImportCommand } from './commands/import.command.js';
 // Import all commands
 import { ListTasksCommand } from './commands/list.command.js';
+import { MigrateStorageCommand } from './commands/migrate-storage.command.js';
 import { NextCommand } from './commands/next.command.js';
+import { SearchCommand } from './commands/search.command.js';
 import { SetStatusCommand } from './commands/set-status.command.js';
 import { ShowCommand } from './commands/show.command.js';
 import { StartCommand } from './commands/start.command.js';
+import { SyncCommand } from './commands/sync.command.js';
 import { TagsCommand } from './commands/tags.command.js';
+import { UndoCommand } from './commands/undo.command.js';
 
 /**
  * Command metadata for registration
@@ -55,6 +65,12 @@ export class CommandRegistry {
 			commandClass: NextCommand as any,
 			category: 'task'
 		},
+		{
+			name: 'search',
+			description: 'Search tasks by text with ranked fuzzy matching',
+			commandClass: SearchCommand as any,
+			category: 'task'
+		},
 		{
 			name: 'start',
 			description: 'Start working on a task with claude-code',
@@ -67,12 +83,67 @@ export class CommandRegistry {
 			commandClass: SetStatusCommand as any,
 			category: 'task'
 		},
+		{
+			name: 'graph',
+			description: 'Render the task dependency graph as Mermaid, DOT or JSON',
+			commandClass: GraphCommand as any,
+			category: 'task'
+		},
+		{
+			name: 'history',
+			description: 'Show the change history of a task or of the whole tag',
+			commandClass: HistoryCommand as any,
+			category: 'task'
+		},
+		{
+			name: 'undo',
+			description: 'Undo the most recent task changes',
+			commandClass: UndoCommand as any,
+			category: 'task'
+		},
+		{
+			name: 'convert',
+			description: 'Convert the tasks file between JSON and Markdown',
+			commandClass: ConvertCommand as any,
+			category: 'utility'
+		},
+		{
+			name: 'backup',
+			description: 'List tasks file backups and restore one of them',
+			commandClass: BackupCommand as any,
+			category: 'utility'
+		},
+		{
+			name: 'migrate-storage',
+			description: 'Migrate tasks between tasks.json and the SQLite database',
+			commandClass: MigrateStorageCommand as any,
+			category: 'utility'
+		},
 		{
 			name: 'export',
 			description: 'Export tasks to external systems',
 			commandClass: ExportCommand as any,
 			category: 'task'
 		},
+		{
+			name: 'import',
+			description: 'Import the tasks of a Hamster brief into a local tag',
+			commandClass: ImportCommand as any,
+			category: 'task'
+		},
+		{
+			name: 'import-file',
+			description:
+				'Append tasks from a CSV, GitHub issues or Jira file to a tag',
+			commandClass: ImportFileCommand as any,
+			category: 'task'
+		},
+		{
+			name: 'sync',
+			description: 'Sync a local tag with a Hamster brief in both directions',
+			commandClass: SyncCommand as any,
+			category: 'task'
+		},
 		{
 			name: 'autopilot',
 			description:
@@ -14,6 +14,10 @@ import inquirer from 'inquirer';
 import open from 'open';
 import ora, { type Ora } from 'ora';
 import { displayError } from '../utils/error-handler.js';
+import {
+	displayPendingOperations,
+	getPendingOperations
+} from '../utils/pending-operations.js';
 import * as ui from '../utils/ui.js';
 import { ContextCommand } from './context.command.js';
 
@@ -258,6 +262,9 @@ Examples:
 				if (context.briefName) {
 					console.log(chalk.gray(`    Brief: ${context.briefName}`));
 				}
+				if (context.briefId) {
+					displayPendingOperations(await getPendingOperations(context.briefId));
+				}
 			}
 
 			// Build credentials for backward compatibility
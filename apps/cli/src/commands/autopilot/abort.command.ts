@@ -59,14 +59,20 @@ export class AbortCommand extends Command {
 				projectRoot
 			};
 			// Check for workflow state
-			const hasState = await hasWorkflowState(mergedOptions.projectRoot!);
+			const hasState = await hasWorkflowState(
+				mergedOptions.projectRoot!,
+				mergedOptions.task
+			);
 			if (!hasState) {
 				formatter.warning('No active workflow to abort');
 				return;
 			}
 
 			// Load state
-			const state = await loadWorkflowState(mergedOptions.projectRoot!);
+			const state = await loadWorkflowState(
+				mergedOptions.projectRoot!,
+				mergedOptions.task
+			);
 			if (!state) {
 				formatter.error('Failed to load workflow state');
 				process.exit(1);
@@ -104,12 +110,18 @@ export class AbortCommand extends Command {
 			orchestrator.transition({ type: 'ABORT' });
 
 			// Delete workflow state
-			await deleteWorkflowState(mergedOptions.projectRoot!);
+			await deleteWorkflowState(
+				mergedOptions.projectRoot!,
+				state.context.taskId
+			);
 
 			// Output result
 			formatter.success('Workflow aborted', {
 				taskId: state.context.taskId,
 				branchName: state.context.branchName,
+				...(state.context.worktreePath && {
+					worktreePath: state.context.worktreePath
+				}),
 				progress: {
 					completed: progress.completed,
 					total: progress.total
@@ -120,7 +132,9 @@ export class AbortCommand extends Command {
 							title: currentSubtask.title
 						}
 					: null,
-				note: 'Branch and commits remain. Clean up manually if needed.'
+				note: state.context.worktreePath
+					? 'Branch, commits and worktree remain. Remove the worktree with: git worktree remove <path>'
+					: 'Branch and commits remain. Clean up manually if needed.'
 			});
 		} catch (error) {
 			formatter.error((error as Error).message);
@@ -40,7 +40,9 @@ export class CommitCommand extends Command {
 			const projectRoot = mergedOptions.projectRoot!;
 
 			// Create workflow service (manages WorkflowStateManager internally)
-			const workflowService = new WorkflowService(projectRoot);
+			const workflowService = new WorkflowService(projectRoot, {
+				taskId: mergedOptions.task
+			});
 
 			// Check if workflow exists
 			if (!(await workflowService.hasWorkflow())) {
@@ -59,7 +61,8 @@ export class CommitCommand extends Command {
 			if (status.tddPhase !== 'COMMIT') {
 				formatter.error('Not in COMMIT phase', {
 					currentPhase: status.tddPhase || status.phase,
-					suggestion: 'Complete RED and GREEN phases first'
+					suggestion:
+						'Complete RED and GREEN (and REFACTOR, if enabled) phases first'
 				});
 				process.exit(1);
 			}
@@ -70,8 +73,8 @@ export class CommitCommand extends Command {
 				process.exit(1);
 			}
 
-			// Initialize git adapter
-			const gitAdapter = new GitAdapter(projectRoot);
+			// Initialize git adapter in the session's worktree (or project root)
+			const gitAdapter = new GitAdapter(workflowService.getWorkingDirectory());
 			await gitAdapter.ensureGitRepository();
 
 			// Check for staged changes
@@ -117,7 +120,10 @@ export class CommitCommand extends Command {
 
 			// Complete COMMIT phase and advance workflow
 			// This handles all transitions internally with a single WorkflowStateManager
-			const newStatus = await workflowService.commit();
+			const newStatus = await workflowService.commit({
+				hash: lastCommit.hash,
+				message: commitMessage
+			});
 
 			const isComplete = newStatus.phase === 'COMPLETE';
 
@@ -8,6 +8,8 @@ import { Command } from 'commander';
 import { AbortCommand } from './abort.command.js';
 import { CommitCommand } from './commit.command.js';
 import { CompleteCommand } from './complete.command.js';
+import { ListCommand } from './list.command.js';
+import { LogCommand } from './log.command.js';
 import { NextCommand } from './next.command.js';
 import { ResumeCommand } from './resume.command.js';
 import { StartCommand } from './start.command.js';
@@ -20,6 +22,7 @@ export interface AutopilotBaseOptions {
 	json?: boolean;
 	verbose?: boolean;
 	projectRoot?: string;
+	task?: string;
 }
 
 /**
@@ -38,6 +41,10 @@ export class AutopilotCommand extends Command {
 			.option(
 				'-p, --project-root <path>',
 				'Project root directory (auto-detected if not specified)'
+			)
+			.option(
+				'--task <id>',
+				'Task whose session to use when several run in parallel (auto-detected inside a worktree)'
 			);
 
 		// Register subcommands
@@ -66,8 +73,14 @@ export class AutopilotCommand extends Command {
 		// Show status
 		this.addCommand(new StatusCommand());
 
+		// List sessions in the main checkout and worktrees
+		this.addCommand(new ListCommand());
+
 		// Abort workflow
 		this.addCommand(new AbortCommand());
+
+		// Query the session event journal
+		this.addCommand(new LogCommand());
 	}
 
 	/**
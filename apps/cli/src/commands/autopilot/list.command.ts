@@ -0,0 +1,88 @@
+/**
+ * @fileoverview List Command - Show all autopilot sessions of the project
+ */
+
+import { WorkflowSessionsService } from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { getProjectRoot } from '../../utils/project-root.js';
+import { type AutopilotBaseOptions, OutputFormatter } from './shared.js';
+
+type ListOptions = AutopilotBaseOptions;
+
+/**
+ * List Command - Show sessions in the main checkout and in worktrees
+ */
+export class ListCommand extends Command {
+	constructor() {
+		super('list');
+
+		this.description(
+			'List active autopilot sessions (main checkout and worktrees)'
+		)
+			.alias('ls')
+			.action(async (options: ListOptions) => {
+				await this.execute(options);
+			});
+	}
+
+	private async execute(options: ListOptions): Promise<void> {
+		// Inherit parent options
+		const parentOpts = this.parent?.opts() as AutopilotBaseOptions;
+		const mergedOptions: ListOptions = {
+			...parentOpts,
+			...options,
+			projectRoot: getProjectRoot(
+				options.projectRoot || parentOpts?.projectRoot
+			)
+		};
+
+		const formatter = new OutputFormatter(mergedOptions.json || false);
+
+		try {
+			const sessions = await new WorkflowSessionsService(
+				mergedOptions.projectRoot!
+			).list();
+
+			if (mergedOptions.json) {
+				formatter.output({ sessions });
+				return;
+			}
+
+			if (sessions.length === 0) {
+				formatter.info(
+					'No active autopilot sessions. Start one with: autopilot start <taskId> [--worktree]'
+				);
+				return;
+			}
+
+			for (const session of sessions) {
+				const phase = [session.phase, session.tddPhase]
+					.filter(Boolean)
+					.join('/');
+				console.log(
+					`${chalk.cyan(`Task ${session.taskId}`)}  ${chalk.yellow(phase)}  ${session.progress.completed}/${session.progress.total} subtasks`
+				);
+				if (session.currentSubtask) {
+					console.log(
+						chalk.gray(
+							`  subtask:  ${session.currentSubtask.id} ${session.currentSubtask.title}`
+						)
+					);
+				}
+				if (session.branchName) {
+					console.log(chalk.gray(`  branch:   ${session.branchName}`));
+				}
+				console.log(
+					chalk.gray(`  location: ${session.worktreePath ?? 'main checkout'}`)
+				);
+			}
+		} catch (error) {
+			formatter.error((error as Error).message);
+			if (mergedOptions.verbose) {
+				console.error((error as Error).stack);
+			}
+			process.exit(1);
+		}
+	}
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Log Command - Query the workflow event journal
+ */
+
+import { type WorkflowJournalEntry, WorkflowJournalService } from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { getProjectRoot } from '../../utils/project-root.js';
+import { type AutopilotBaseOptions, OutputFormatter } from './shared.js';
+
+interface LogOptions extends AutopilotBaseOptions {
+	session?: string;
+	sessions?: boolean;
+	subtask?: string;
+	phase?: string;
+	type?: string;
+	since?: string;
+	until?: string;
+	limit?: string;
+}
+
+/**
+ * Fields shown in the header of a text log line rather than as details
+ */
+const HEADER_FIELDS = new Set([
+	'timestamp',
+	'eventTimestamp',
+	'type',
+	'phase',
+	'tddPhase',
+	'subtaskId'
+]);
+
+/**
+ * Log Command - Show recorded workflow events for a session
+ */
+export class LogCommand extends Command {
+	constructor() {
+		super('log');
+
+		this.description(
+			'Show the event journal of a workflow session (current session by default)'
+		)
+			.alias('replay')
+			.option('-s, --session <id>', 'Session to show (see --sessions)')
+			.option('--sessions', 'List recorded workflow sessions')
+			.option('--subtask <id>', 'Only events for this subtask (e.g. 1.2)')
+			.option(
+				'--phase <phase>',
+				'Only events in this workflow or TDD phase (e.g. SUBTASK_LOOP, GREEN)'
+			)
+			.option(
+				'-t, --type <types>',
+				'Comma-separated event types; * matches any suffix (e.g. "tdd:*,test:failed")'
+			)
+			.option(
+				'--since <time>',
+				'Only events after an ISO timestamp or duration ago (e.g. 30m, 2h, 1d)'
+			)
+			.option(
+				'--until <time>',
+				'Only events before an ISO timestamp or duration ago'
+			)
+			.option('-n, --limit <count>', 'Show only the last N matching events')
+			.action(async (options: LogOptions) => {
+				await this.execute(options);
+			});
+	}
+
+	private async execute(options: LogOptions): Promise<void> {
+		// Inherit parent options
+		const parentOpts = this.parent?.opts() as AutopilotBaseOptions;
+		const mergedOptions: LogOptions = {
+			...parentOpts,
+			...options,
+			projectRoot: getProjectRoot(
+				options.projectRoot || parentOpts?.projectRoot
+			)
+		};
+
+		const formatter = new OutputFormatter(mergedOptions.json || false);
+
+		try {
+			const journal = new WorkflowJournalService(mergedOptions.projectRoot!);
+
+			if (mergedOptions.sessions) {
+				const sessions = await journal.listSessions();
+				if (mergedOptions.json) {
+					formatter.output({ sessions });
+					return;
+				}
+
+				if (sessions.length === 0) {
+					formatter.info('No workflow sessions recorded');
+					return;
+				}
+
+				for (const session of sessions) {
+					const marker = session.active ? chalk.green('*') : ' ';
+					console.log(
+						`${marker} ${chalk.cyan(session.sessionId)}  task ${session.taskId ?? '-'}  ${session.eventCount} events  ${chalk.gray(session.lastEventAt ?? '')}`
+					);
+				}
+				return;
+			}
+
+			let limit: number | undefined;
+			if (mergedOptions.limit !== undefined) {
+				limit = parseInt(mergedOptions.limit, 10);
+				if (Number.isNaN(limit) || limit < 0) {
+					formatter.error('Invalid limit', { limit: mergedOptions.limit });
+					process.exit(1);
+				}
+			}
+
+			const result = await journal.query({
+				sessionId: mergedOptions.session,
+				subtaskId: mergedOptions.subtask,
+				phase: mergedOptions.phase,
+				types: mergedOptions.type
+					?.split(',')
+					.map((type) => type.trim())
+					.filter(Boolean),
+				since: mergedOptions.since,
+				until: mergedOptions.until,
+				limit
+			});
+
+			if (mergedOptions.json) {
+				formatter.output({ ...result });
+				return;
+			}
+
+			if (!result.sessionId) {
+				formatter.info(
+					'No workflow sessions recorded. Start one with: autopilot start <taskId>'
+				);
+				return;
+			}
+
+			formatter.info(
+				`Session ${result.sessionId}: ${result.events.length} of ${result.totalEvents} events`
+			);
+			for (const event of result.events) {
+				console.log(this.formatEvent(event));
+			}
+		} catch (error) {
+			formatter.error((error as Error).message);
+			if (mergedOptions.verbose) {
+				console.error((error as Error).stack);
+			}
+			process.exit(1);
+		}
+	}
+
+	/**
+	 * Render an event as a single line: time, type, phase, subtask and details
+	 */
+	private formatEvent(event: WorkflowJournalEntry): string {
+		const phase = [event.phase, event.tddPhase].filter(Boolean).join('/');
+		const details = Object.entries(event)
+			.filter(([key, value]) => !HEADER_FIELDS.has(key) && value !== undefined)
+			.map(
+				([key, value]) =>
+					`${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`
+			)
+			.join(' ');
+
+		return [
+			chalk.gray(event.eventTimestamp ?? event.timestamp),
+			chalk.cyan(event.type.padEnd(22)),
+			phase ? chalk.yellow(phase) : '',
+			event.subtaskId ? chalk.magenta(`[${event.subtaskId}]`) : '',
+			details ? chalk.gray(details) : ''
+		]
+			.filter(Boolean)
+			.join(' ');
+	}
+}
@@ -55,7 +55,10 @@ export class NextCommand extends Command {
 				projectRoot
 			};
 			// Check for workflow state
-			const hasState = await hasWorkflowState(mergedOptions.projectRoot!);
+			const hasState = await hasWorkflowState(
+				mergedOptions.projectRoot!,
+				mergedOptions.task
+			);
 			if (!hasState) {
 				formatter.error('No active workflow', {
 					suggestion: 'Start a workflow with: autopilot start <taskId>'
@@ -64,7 +67,10 @@ export class NextCommand extends Command {
 			}
 
 			// Load state
-			const state = await loadWorkflowState(mergedOptions.projectRoot!);
+			const state = await loadWorkflowState(
+				mergedOptions.projectRoot!,
+				mergedOptions.task
+			);
 			if (!state) {
 				formatter.error('Failed to load workflow state');
 				process.exit(1);
@@ -127,6 +133,26 @@ export class NextCommand extends Command {
 						};
 						break;
 
+					case 'REFACTOR':
+						actionType = 'refactor_code';
+						actionDescription =
+							'Refactor the implementation while keeping tests green';
+						actionDetails = {
+							subtask: currentSubtask
+								? {
+										id: currentSubtask.id,
+										title: currentSubtask.title,
+										attempts: currentSubtask.attempts
+									}
+								: null,
+							testCommand: 'npm test',
+							expectedOutcome: 'All tests should still pass',
+							lastTestResults: state.context.lastTestResults,
+							suggestion:
+								'Use: autopilot complete --run, or autopilot complete --skip-refactor'
+						};
+						break;
+
 					case 'COMMIT':
 						actionType = 'commit_changes';
 						actionDescription = 'Commit the changes';
@@ -159,6 +185,9 @@ export class NextCommand extends Command {
 				tddPhase,
 				taskId: state.context.taskId,
 				branchName: state.context.branchName,
+				...(state.context.worktreePath && {
+					worktreePath: state.context.worktreePath
+				}),
 				...actionDetails
 			};
 
@@ -43,7 +43,10 @@ export class ResumeCommand extends Command {
 
 		try {
 			// Check for workflow state
-			const hasState = await hasWorkflowState(mergedOptions.projectRoot!);
+			const hasState = await hasWorkflowState(
+				mergedOptions.projectRoot!,
+				mergedOptions.task
+			);
 			if (!hasState) {
 				formatter.error('No workflow state found', {
 					suggestion: 'Start a new workflow with: autopilot start <taskId>'
@@ -53,7 +56,10 @@ export class ResumeCommand extends Command {
 
 			// Load state
 			formatter.info('Loading workflow state...');
-			const state = await loadWorkflowState(mergedOptions.projectRoot!);
+			const state = await loadWorkflowState(
+				mergedOptions.projectRoot!,
+				mergedOptions.task
+			);
 
 			if (!state) {
 				formatter.error('Failed to load workflow state');
@@ -89,6 +95,9 @@ export class ResumeCommand extends Command {
 				phase: orchestrator.getCurrentPhase(),
 				tddPhase: orchestrator.getCurrentTDDPhase(),
 				branchName: state.context.branchName,
+				...(state.context.worktreePath && {
+					worktreePath: state.context.worktreePath
+				}),
 				progress: {
 					completed: progress.completed,
 					total: progress.total,
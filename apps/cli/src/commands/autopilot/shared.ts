@@ -5,7 +5,9 @@
 import {
 	CommitMessageGenerator,
 	GitAdapter,
+	WorkflowActivityLogger,
 	WorkflowOrchestrator,
+	WorkflowSessionsService,
 	WorkflowStateManager
 } from '@tm/core';
 import type { SubtaskInfo, WorkflowContext, WorkflowState } from '@tm/core';
@@ -18,15 +20,28 @@ export interface AutopilotBaseOptions {
 	projectRoot?: string;
 	json?: boolean;
 	verbose?: boolean;
+	task?: string;
+}
+
+/**
+ * Resolve the state manager of the session a command refers to
+ * (see WorkflowSessionsService.getStateManager)
+ */
+export async function getWorkflowStateManager(
+	projectRoot: string,
+	taskId?: string
+): Promise<WorkflowStateManager> {
+	return new WorkflowSessionsService(projectRoot).getStateManager(taskId);
 }
 
 /**
  * Load workflow state from disk using WorkflowStateManager
  */
 export async function loadWorkflowState(
-	projectRoot: string
+	projectRoot: string,
+	taskId?: string
 ): Promise<WorkflowState | null> {
-	const stateManager = new WorkflowStateManager(projectRoot);
+	const stateManager = await getWorkflowStateManager(projectRoot, taskId);
 
 	if (!(await stateManager.exists())) {
 		return null;
@@ -48,7 +63,9 @@ export async function saveWorkflowState(
 	projectRoot: string,
 	state: WorkflowState
 ): Promise<void> {
-	const stateManager = new WorkflowStateManager(projectRoot);
+	const stateManager = new WorkflowSessionsService(
+		projectRoot
+	).getStateManagerForContext(state.context);
 
 	try {
 		await stateManager.save(state);
@@ -62,16 +79,22 @@ export async function saveWorkflowState(
 /**
  * Delete workflow state from disk using WorkflowStateManager
  */
-export async function deleteWorkflowState(projectRoot: string): Promise<void> {
-	const stateManager = new WorkflowStateManager(projectRoot);
+export async function deleteWorkflowState(
+	projectRoot: string,
+	taskId?: string
+): Promise<void> {
+	const stateManager = await getWorkflowStateManager(projectRoot, taskId);
 	await stateManager.delete();
 }
 
 /**
  * Check if workflow state exists using WorkflowStateManager
  */
-export async function hasWorkflowState(projectRoot: string): Promise<boolean> {
-	const stateManager = new WorkflowStateManager(projectRoot);
+export async function hasWorkflowState(
+	projectRoot: string,
+	taskId?: string
+): Promise<boolean> {
+	const stateManager = await getWorkflowStateManager(projectRoot, taskId);
 	return await stateManager.exists();
 }
 
@@ -83,16 +106,42 @@ export function createOrchestrator(
 	projectRoot: string
 ): WorkflowOrchestrator {
 	const orchestrator = new WorkflowOrchestrator(context);
-	const stateManager = new WorkflowStateManager(projectRoot);
+	const stateManager = new WorkflowSessionsService(
+		projectRoot
+	).getStateManagerForContext(context);
 
 	// Enable auto-persistence
 	orchestrator.enableAutoPersist(async (state: WorkflowState) => {
 		await stateManager.save(state);
 	});
 
+	startActivityLogger(orchestrator, context, projectRoot);
+
 	return orchestrator;
 }
 
+/**
+ * Log orchestrator events to activity.jsonl and the session journal
+ */
+export function startActivityLogger(
+	orchestrator: WorkflowOrchestrator,
+	context: WorkflowContext,
+	projectRoot: string
+): WorkflowActivityLogger {
+	const stateManager = new WorkflowSessionsService(
+		projectRoot
+	).getStateManagerForContext(context);
+	const activityLogger = new WorkflowActivityLogger(
+		orchestrator,
+		stateManager.getActivityLogPath(),
+		context.sessionId
+			? stateManager.getJournalPath(context.sessionId)
+			: undefined
+	);
+	activityLogger.start();
+	return activityLogger;
+}
+
 /**
  * Initialize GitAdapter for project
  */
@@ -2,22 +2,30 @@
  * @fileoverview Start Command - Initialize and start TDD workflow
  */
 
-import { type WorkflowContext, createTmCore } from '@tm/core';
+import {
+	type WorkflowContext,
+	WorkflowJournalService,
+	WorkflowSessionsService,
+	WorkflowStateManager,
+	createTmCore
+} from '@tm/core';
 import { Command } from 'commander';
+import { getProjectRoot } from '../../utils/project-root.js';
 import {
 	AutopilotBaseOptions,
 	OutputFormatter,
 	createGitAdapter,
 	createOrchestrator,
-	hasWorkflowState,
 	parseSubtasks,
 	validateTaskId
 } from './shared.js';
-import { getProjectRoot } from '../../utils/project-root.js';
 
 interface StartOptions extends AutopilotBaseOptions {
 	force?: boolean;
 	maxAttempts?: string;
+	refactor?: boolean;
+	worktree?: boolean;
+	worktreePath?: string;
 }
 
 /**
@@ -31,6 +39,19 @@ export class StartCommand extends Command {
 			.argument('<taskId>', 'Task ID to start workflow for')
 			.option('-f, --force', 'Force start even if workflow state exists')
 			.option('--max-attempts <number>', 'Maximum attempts per subtask', '3')
+			.option(
+				'--refactor',
+				'Add a REFACTOR phase after GREEN (default: workflow.enableRefactorPhase)'
+			)
+			.option('--no-refactor', 'Go straight from GREEN to COMMIT')
+			.option(
+				'-w, --worktree',
+				'Run in a dedicated git worktree so several tasks can run in parallel'
+			)
+			.option(
+				'--worktree-path <path>',
+				'Worktree location (implies --worktree, default: ../<repo>-worktrees/task-<id>)'
+			)
 			.action(async (taskId: string, options: StartOptions) => {
 				await this.execute(taskId, options);
 			});
@@ -59,8 +80,17 @@ export class StartCommand extends Command {
 				process.exit(1);
 			}
 
+			// Worktree sessions are keyed by task ID; the main checkout has one session
+			const useWorktree = Boolean(
+				mergedOptions.worktree || mergedOptions.worktreePath
+			);
+			const sessions = new WorkflowSessionsService(mergedOptions.projectRoot!);
+			const stateManager = useWorktree
+				? sessions.createTaskStateManager(taskId)
+				: new WorkflowStateManager(mergedOptions.projectRoot!);
+
 			// Check for existing workflow state
-			const hasState = await hasWorkflowState(mergedOptions.projectRoot!);
+			const hasState = await stateManager.exists();
 			if (hasState && !mergedOptions.force) {
 				formatter.error(
 					'Workflow state already exists. Use --force to overwrite or resume with "autopilot resume"'
@@ -94,49 +124,95 @@ export class StartCommand extends Command {
 				process.exit(1);
 			}
 
-			// Initialize Git adapter
-			const gitAdapter = createGitAdapter(mergedOptions.projectRoot!);
-			await gitAdapter.ensureGitRepository();
-			await gitAdapter.ensureCleanWorkingTree();
-
-			// Parse subtasks
-			const maxAttempts = parseInt(mergedOptions.maxAttempts || '3', 10);
-			const subtasks = parseSubtasks(task, maxAttempts);
-
-			// Create workflow context
-			const context: WorkflowContext = {
-				taskId: task.id,
+			// Refuse tasks related to another active session; the checks hold
+			// until the state is saved, so parallel starts see each other
+			const { tasks } = await tmCore.tasks.list();
+			const {
+				gitAdapter,
 				subtasks,
-				currentSubtaskIndex: 0,
-				errors: [],
-				metadata: {
-					startedAt: new Date().toISOString(),
-					tags: task.tags || []
-				}
-			};
-
-			// Create orchestrator with persistence
-			const orchestrator = createOrchestrator(
+				branchName,
+				worktreePath,
 				context,
-				mergedOptions.projectRoot!
+				orchestrator
+			} = await sessions.startSession(
+				task.id,
+				{ worktree: useWorktree, force: mergedOptions.force, tasks },
+				async () => {
+					// Initialize Git adapter; a worktree leaves the main checkout untouched
+					const gitAdapter = createGitAdapter(mergedOptions.projectRoot!);
+					await gitAdapter.ensureGitRepository();
+					if (!useWorktree) {
+						await gitAdapter.ensureCleanWorkingTree();
+					}
+
+					// Parse subtasks
+					const maxAttempts = parseInt(mergedOptions.maxAttempts || '3', 10);
+					const subtasks = parseSubtasks(task, maxAttempts);
+
+					// Generate descriptive branch name
+					const sanitizedTitle = task.title
+						.toLowerCase()
+						.replace(/[^a-z0-9]+/g, '-')
+						.replace(/^-+|-+$/g, '')
+						.substring(0, 50);
+					const formattedTaskId = taskId.replace(/\./g, '-');
+					const tagPrefix = currentTag ? `${currentTag}/` : '';
+					const branchName = `${tagPrefix}task-${formattedTaskId}-${sanitizedTitle}`;
+
+					// Create the worktree with its branch checked out
+					let worktreePath: string | undefined;
+					if (useWorktree) {
+						formatter.info(`Creating worktree for branch: ${branchName}`);
+						worktreePath = await sessions.ensureWorktree(
+							task.id,
+							branchName,
+							mergedOptions.worktreePath
+						);
+					}
+
+					// Create workflow context
+					const context: WorkflowContext = {
+						taskId: task.id,
+						sessionId: WorkflowJournalService.createSessionId(task.id),
+						subtasks,
+						currentSubtaskIndex: 0,
+						enableRefactorPhase:
+							mergedOptions.refactor ??
+							tmCore.config.getConfig().workflow?.enableRefactorPhase ??
+							false,
+						worktreePath,
+						errors: [],
+						metadata: {
+							startedAt: new Date().toISOString(),
+							tags: task.tags || []
+						}
+					};
+
+					// Create orchestrator with persistence
+					const orchestrator = createOrchestrator(
+						context,
+						mergedOptions.projectRoot!
+					);
+
+					// Complete PREFLIGHT phase, saving the session's state
+					await orchestrator.transition({ type: 'PREFLIGHT_COMPLETE' });
+
+					return {
+						gitAdapter,
+						subtasks,
+						branchName,
+						worktreePath,
+						context,
+						orchestrator
+					};
+				}
 			);
 
-			// Complete PREFLIGHT phase
-			orchestrator.transition({ type: 'PREFLIGHT_COMPLETE' });
-
-			// Generate descriptive branch name
-			const sanitizedTitle = task.title
-				.toLowerCase()
-				.replace(/[^a-z0-9]+/g, '-')
-				.replace(/^-+|-+$/g, '')
-				.substring(0, 50);
-			const formattedTaskId = taskId.replace(/\./g, '-');
-			const tagPrefix = currentTag ? `${currentTag}/` : '';
-			const branchName = `${tagPrefix}task-${formattedTaskId}-${sanitizedTitle}`;
-
 			// Create and checkout branch
-			formatter.info(`Creating branch: ${branchName}`);
-			await gitAdapter.createAndCheckoutBranch(branchName);
+			if (!useWorktree) {
+				formatter.info(`Creating branch: ${branchName}`);
+				await gitAdapter.createAndCheckoutBranch(branchName);
+			}
 
 			// Transition to SUBTASK_LOOP
 			orchestrator.transition({
@@ -150,7 +226,12 @@ export class StartCommand extends Command {
 				title: task.title,
 				phase: orchestrator.getCurrentPhase(),
 				tddPhase: orchestrator.getCurrentTDDPhase(),
+				refactorPhase: context.enableRefactorPhase,
 				branchName,
+				...(worktreePath && {
+					worktreePath,
+					suggestion: `Work inside the worktree: cd ${worktreePath}`
+				}),
 				subtasks: subtasks.length,
 				currentSubtask: subtasks[0]?.title
 			});
@@ -43,7 +43,10 @@ export class StatusCommand extends Command {
 
 		try {
 			// Check for workflow state
-			const hasState = await hasWorkflowState(mergedOptions.projectRoot!);
+			const hasState = await hasWorkflowState(
+				mergedOptions.projectRoot!,
+				mergedOptions.task
+			);
 			if (!hasState) {
 				formatter.error('No active workflow', {
 					suggestion: 'Start a workflow with: autopilot start <taskId>'
@@ -52,7 +55,10 @@ export class StatusCommand extends Command {
 			}
 
 			// Load state
-			const state = await loadWorkflowState(mergedOptions.projectRoot!);
+			const state = await loadWorkflowState(
+				mergedOptions.projectRoot!,
+				mergedOptions.task
+			);
 			if (!state) {
 				formatter.error('Failed to load workflow state');
 				process.exit(1);
@@ -75,6 +81,9 @@ export class StatusCommand extends Command {
 				phase,
 				tddPhase,
 				branchName: state.context.branchName,
+				...(state.context.worktreePath && {
+					worktreePath: state.context.worktreePath
+				}),
 				progress: {
 					completed: progress.completed,
 					total: progress.total,
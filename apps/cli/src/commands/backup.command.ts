@@ -0,0 +1,168 @@
+/**
+ * @fileoverview BackupCommand using Commander's native class pattern
+ * Lists tasks file backups and restores the tasks file from one of them
+ */
+
+import path from 'node:path';
+import { type TaskFileBackup, type TmCore, createTmCore } from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+/**
+ * Options interface for the backup subcommands
+ */
+export interface BackupCommandOptions {
+	json?: boolean;
+	project?: string;
+}
+
+/**
+ * BackupCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class BackupCommand extends Command {
+	private tmCore?: TmCore;
+
+	constructor(name?: string) {
+		super(name || 'backup');
+
+		// Configure the command
+		this.description(
+			'List tasks file backups and roll back to one of them (enable with storage.enableBackup)'
+		);
+
+		this.command('list')
+			.description('List backups of the tasks file, newest first (default)')
+			.option('--json', 'Output backups as JSON')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.action(async (options: BackupCommandOptions) => {
+				await this.run(options, () => this.executeList(options));
+			});
+
+		this.command('restore')
+			.description('Restore the tasks file from a backup')
+			.argument('<id>', 'Backup id as shown by "tm backup list"')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.addHelpText(
+				'after',
+				`
+Examples:
+  $ tm backup list
+  $ tm backup restore 2026-01-31T09-15-00-000Z
+
+The current tasks file is backed up before it is replaced, so a restore can be undone.
+`
+			)
+			.action(async (id: string, options: BackupCommandOptions) => {
+				await this.run(options, () => this.executeRestore(id));
+			});
+
+		// Default action: list backups
+		this.option(
+			'-p, --project <path>',
+			'Project root directory (auto-detected if not provided)'
+		).action(async (options: BackupCommandOptions) => {
+			await this.run(options, () => this.executeList(options));
+		});
+	}
+
+	/**
+	 * Initialize tm-core and run a subcommand, exiting on errors
+	 */
+	private async run(
+		options: BackupCommandOptions,
+		execute: () => Promise<void>
+	): Promise<void> {
+		let hasError = false;
+		try {
+			// Commander hands --project to this command, which defines it too, even
+			// when it follows a subcommand
+			const projectRoot = getProjectRoot(
+				options.project ?? this.opts().project
+			);
+			this.tmCore = await createTmCore({
+				projectPath: path.resolve(projectRoot)
+			});
+			await execute();
+		} catch (error: any) {
+			hasError = true;
+			displayError(error, { skipExit: true });
+		} finally {
+			this.tmCore = undefined;
+		}
+
+		// Exit after cleanup completes
+		if (hasError) {
+			process.exit(1);
+		}
+	}
+
+	/**
+	 * List backups
+	 */
+	private async executeList(options: BackupCommandOptions): Promise<void> {
+		const backups = await this.tmCore!.tasks.listBackups();
+
+		if (options.json) {
+			console.log(JSON.stringify(backups, null, 2));
+			return;
+		}
+
+		if (backups.length === 0) {
+			console.log(
+				chalk.yellow(
+					'No backups found. Set "storage": { "enableBackup": true } in .taskmaster/config.json to back up the tasks file on every save.'
+				)
+			);
+			return;
+		}
+
+		console.log(chalk.bold(`${backups.length} backup(s), newest first:\n`));
+		for (const backup of backups) {
+			console.log(`  ${chalk.cyan(backup.id)}  ${this.describe(backup)}`);
+		}
+		console.log(chalk.gray('\nRestore one with: tm backup restore <id>'));
+	}
+
+	/**
+	 * Restore a backup
+	 */
+	private async executeRestore(id: string): Promise<void> {
+		const { restored, previous } = await this.tmCore!.tasks.restoreBackup(id);
+
+		console.log(
+			chalk.green(`✓ Restored the tasks file from backup ${restored.id}`)
+		);
+		if (previous) {
+			console.log(
+				chalk.gray(
+					`  The replaced tasks file was saved as backup ${previous.id} (tm backup restore ${previous.id} to undo)`
+				)
+			);
+		}
+	}
+
+	private describe(backup: TaskFileBackup): string {
+		const createdAt = new Date(backup.createdAt).toLocaleString();
+		const kilobytes = (backup.size / 1024).toFixed(1);
+		const format = backup.compressed ? `${backup.format}, gzip` : backup.format;
+		return chalk.gray(`${createdAt}  ${format}  ${kilobytes} KB`);
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): BackupCommand {
+		const backupCommand = new BackupCommand(name);
+		program.addCommand(backupCommand);
+		return backupCommand;
+	}
+}
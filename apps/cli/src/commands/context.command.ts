@@ -20,13 +20,24 @@ import {
 	selectBriefInteractive,
 	selectBriefFromInput
 } from '../utils/brief-selection.js';
+import {
+	discardFailedOperations,
+	displayPendingOperations,
+	getPendingOperations
+} from '../utils/pending-operations.js';
 
 /**
  * Result type from context command
  */
 export interface ContextResult {
 	success: boolean;
-	action: 'show' | 'select-org' | 'select-brief' | 'clear' | 'set';
+	action:
+		| 'show'
+		| 'select-org'
+		| 'select-brief'
+		| 'clear'
+		| 'set'
+		| 'discard-failed';
 	context?: UserContext;
 	message?: string;
 }
@@ -56,6 +67,7 @@ export class ContextCommand extends Command {
 		this.addBriefCommand();
 		this.addClearCommand();
 		this.addSetCommand();
+		this.addDiscardFailedCommand();
 
 		// Accept optional positional argument for brief ID or Hamster URL
 		this.argument('[briefOrUrl]', 'Brief ID or Hamster brief URL');
@@ -120,6 +132,17 @@ export class ContextCommand extends Command {
 			});
 	}
 
+	/**
+	 * Add subcommand to remove the offline changes Hamster rejected
+	 */
+	private addDiscardFailedCommand(): void {
+		this.command('discard-failed')
+			.description('Remove the changes made offline that Hamster rejected')
+			.action(async () => {
+				await this.executeDiscardFailed();
+			});
+	}
+
 	/**
 	 * Execute show current context
 	 */
@@ -208,6 +231,10 @@ export class ContextCommand extends Command {
 				);
 			}
 
+			if (context.briefId) {
+				displayPendingOperations(await getPendingOperations(context.briefId));
+			}
+
 			return {
 				success: true,
 				action: 'show',
@@ -442,6 +469,29 @@ export class ContextCommand extends Command {
 		}
 	}
 
+	/**
+	 * Execute discard of the rejected offline changes
+	 */
+	private async executeDiscardFailed(): Promise<void> {
+		try {
+			const briefId = this.authManager.getContext()?.briefId;
+			if (!briefId) {
+				ui.displayError('No brief selected');
+				process.exit(1);
+			}
+
+			const count = await discardFailedOperations(briefId);
+			const message = `Removed ${count} rejected change(s)`;
+			ui.displaySuccess(message);
+			this.setLastResult({ success: true, action: 'discard-failed', message });
+		} catch (error: any) {
+			ui.displayError(
+				`Failed to discard rejected changes: ${(error as Error).message}`
+			);
+			process.exit(1);
+		}
+	}
+
 	/**
 	 * Execute set context with options
 	 */
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview ConvertCommand using Commander's native class pattern
+ * Converts the tasks file between JSON (tasks.json) and Markdown (tasks.md)
+ */
+
+import path from 'node:path';
+import { TaskFileConverter, type TaskFileFormat } from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+const TASK_FILE_FORMATS: TaskFileFormat[] = ['json', 'markdown'];
+
+/**
+ * Options interface for the convert command
+ */
+export interface ConvertCommandOptions {
+	to?: TaskFileFormat;
+	force?: boolean;
+	project?: string;
+}
+
+/**
+ * ConvertCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class ConvertCommand extends Command {
+	constructor(name?: string) {
+		super(name || 'convert');
+
+		// Configure the command
+		this.description(
+			'Convert the tasks file between JSON (tasks.json) and Markdown (tasks.md)'
+		)
+			.requiredOption(
+				'--to <format>',
+				`Format to convert to (${TASK_FILE_FORMATS.join(', ')})`
+			)
+			.option('-f, --force', 'Overwrite the target file if it exists')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.action(async (options: ConvertCommandOptions) => {
+				await this.executeCommand(options);
+			});
+	}
+
+	/**
+	 * Execute the convert command
+	 */
+	private async executeCommand(options: ConvertCommandOptions): Promise<void> {
+		try {
+			// Validate options (throws on invalid options)
+			this.validateOptions(options);
+
+			const projectRoot = path.resolve(getProjectRoot(options.project));
+			const result = await new TaskFileConverter(projectRoot).convert({
+				to: options.to!,
+				force: options.force
+			});
+
+			console.log(
+				chalk.green(
+					`✓ Converted ${path.relative(projectRoot, result.sourcePath)} to ${path.relative(projectRoot, result.targetPath)}`
+				)
+			);
+			console.log(
+				chalk.gray(`  ${result.taskCount} task(s) in ${result.tagCount} tag(s)`)
+			);
+			console.log(
+				chalk.gray(
+					`  Set "storage": { "format": "${result.to}" } in .taskmaster/config.json to use it`
+				)
+			);
+		} catch (error: any) {
+			displayError(error);
+		}
+	}
+
+	/**
+	 * Validate command options
+	 */
+	private validateOptions(options: ConvertCommandOptions): void {
+		if (!options.to || !TASK_FILE_FORMATS.includes(options.to)) {
+			throw new Error(
+				`Invalid format: ${options.to}. Valid formats are: ${TASK_FILE_FORMATS.join(', ')}`
+			);
+		}
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): ConvertCommand {
+		const convertCommand = new ConvertCommand(name);
+		program.addCommand(convertCommand);
+		return convertCommand;
+	}
+}
@@ -1,10 +1,12 @@
 /**
  * @fileoverview Export command for exporting tasks to external systems
- * Provides functionality to export tasks to Hamster briefs
+ * Provides functionality to export tasks to Hamster briefs or to files
  */
 
+import path from 'node:path';
 import {
 	AuthManager,
+	type ExportFileResult,
 	type ExportResult,
 	type TmCore,
 	type UserContext,
@@ -23,8 +25,9 @@ import { getProjectRoot } from '../utils/project-root.js';
  */
 export interface ExportCommandResult {
 	success: boolean;
-	action: 'export' | 'validate' | 'cancelled';
+	action: 'export' | 'file' | 'validate' | 'cancelled';
 	result?: ExportResult;
+	file?: ExportFileResult;
 	message?: string;
 }
 
@@ -44,7 +47,9 @@ export class ExportCommand extends Command {
 		this.authManager = AuthManager.getInstance();
 
 		// Configure the command
-		this.description('Export tasks to external systems (e.g., Hamster briefs)');
+		this.description(
+			'Export tasks to external systems (e.g., Hamster briefs) or to a file'
+		);
 
 		// Add options
 		this.option('--org <id>', 'Organization ID to export to');
@@ -56,6 +61,24 @@ export class ExportCommand extends Command {
 		);
 		this.option('--exclude-subtasks', 'Exclude subtasks from export');
 		this.option('-y, --yes', 'Skip confirmation prompt');
+		this.option(
+			'--format <format>',
+			'Write a file instead of exporting to Hamster: csv, markdown, html, github-issues or jira-csv'
+		);
+		this.option(
+			'--out <path>',
+			'File to write with --format (defaults to <tag>-tasks.<ext> in the project root)'
+		);
+		this.addHelpText(
+			'after',
+			`
+Examples:
+  $ tm export                                      # Export to the selected brief
+  $ tm export --format csv --out tasks.csv         # Spreadsheet of the active tag
+  $ tm export --format markdown --status pending   # Report of pending tasks
+  $ tm export --format jira-csv --tag release      # File for the Jira CSV importer
+`
+		);
 
 		// Accept optional positional argument for brief ID or Hamster URL
 		this.argument('[briefOrUrl]', 'Brief ID or Hamster brief URL');
@@ -95,6 +118,11 @@ export class ExportCommand extends Command {
 	): Promise<void> {
 		let spinner: Ora | undefined;
 
+		if (options?.format) {
+			await this.executeFileExport(briefOrUrl, options);
+			return;
+		}
+
 		try {
 			// Check authentication
 			const hasSession = await this.authManager.hasValidSession();
@@ -206,6 +234,51 @@ export class ExportCommand extends Command {
 		}
 	}
 
+	/**
+	 * Write the tasks to a file with one of the core exporters
+	 */
+	private async executeFileExport(
+		briefOrUrl: string | undefined,
+		options: any
+	): Promise<void> {
+		let hasError = false;
+		try {
+			if (briefOrUrl || options.brief || options.org) {
+				throw new Error(
+					'--format writes a file and cannot be combined with a brief or organization'
+				);
+			}
+
+			await this.initializeServices();
+			const file = await this.taskMasterCore!.integration.exportToFile({
+				format: options.format,
+				outputPath: options.out ? path.resolve(options.out) : undefined,
+				tag: options.tag,
+				status: options.status,
+				excludeSubtasks: options.excludeSubtasks || false
+			});
+
+			console.log(
+				chalk.green(
+					`✓ Exported ${file.taskCount} task(s) from tag "${file.tag}" as ${file.format}`
+				)
+			);
+			console.log(chalk.gray(`  ${file.outputPath}`));
+			if (file.taskCount === 0) {
+				ui.displayWarning('No tasks matched the filters');
+			}
+
+			this.lastResult = { success: true, action: 'file', file };
+		} catch (error: any) {
+			hasError = true;
+			displayError(error, { skipExit: true });
+		}
+
+		if (hasError) {
+			process.exit(1);
+		}
+	}
+
 	/**
 	 * Resolve brief input to get brief and org IDs
 	 */
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview GraphCommand using Commander's native class pattern
+ * Renders the task dependency graph as Mermaid, Graphviz DOT or JSON
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+	type DependencyDirection,
+	type DependencyGraphFormat,
+	type TmCore,
+	createTmCore
+} from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+const GRAPH_FORMATS: DependencyGraphFormat[] = ['mermaid', 'dot', 'json'];
+const GRAPH_DIRECTIONS: DependencyDirection[] = [
+	'dependencies',
+	'dependents',
+	'both'
+];
+
+/**
+ * Options interface for the graph command
+ */
+export interface GraphCommandOptions {
+	tag?: string;
+	format?: DependencyGraphFormat;
+	from?: string;
+	direction?: DependencyDirection;
+	subtasks?: boolean;
+	output?: string;
+	project?: string;
+}
+
+/**
+ * GraphCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class GraphCommand extends Command {
+	private tmCore?: TmCore;
+
+	constructor(name?: string) {
+		super(name || 'graph');
+
+		// Configure the command
+		this.description(
+			'Render the task dependency graph (Mermaid, Graphviz DOT or JSON)'
+		)
+			.option('-t, --tag <tag>', 'Tag to render (defaults to the active tag)')
+			.option(
+				'-f, --format <format>',
+				`Output format (${GRAPH_FORMATS.join(', ')})`,
+				'mermaid'
+			)
+			.option(
+				'--from <id>',
+				'Only render tasks reachable from this task or subtask'
+			)
+			.option(
+				'--direction <direction>',
+				`Edges to follow from --from (${GRAPH_DIRECTIONS.join(', ')})`,
+				'both'
+			)
+			.option('-s, --subtasks', 'Include subtasks as nodes')
+			.option('-o, --output <file>', 'Write the graph to a file')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.action(async (options: GraphCommandOptions) => {
+				await this.executeCommand(options);
+			});
+	}
+
+	/**
+	 * Execute the graph command
+	 */
+	private async executeCommand(options: GraphCommandOptions): Promise<void> {
+		let hasError = false;
+		try {
+			// Validate options (throws on invalid options)
+			this.validateOptions(options);
+
+			const projectRoot = getProjectRoot(options.project);
+			this.tmCore = await createTmCore({
+				projectPath: path.resolve(projectRoot)
+			});
+
+			const graph = await this.tmCore.dependencies.renderGraph(
+				{
+					format: options.format ?? 'mermaid',
+					rootId: options.from,
+					direction: options.direction,
+					includeSubtasks: options.subtasks ?? false
+				},
+				options.tag
+			);
+
+			if (options.output) {
+				const outputPath = path.resolve(options.output);
+				await fs.writeFile(outputPath, `${graph}\n`, 'utf-8');
+				console.log(chalk.green(`✓ Dependency graph written to ${outputPath}`));
+			} else {
+				console.log(graph);
+			}
+		} catch (error: any) {
+			hasError = true;
+			displayError(error, { skipExit: true });
+		} finally {
+			this.tmCore = undefined;
+		}
+
+		// Exit after cleanup completes
+		if (hasError) {
+			process.exit(1);
+		}
+	}
+
+	/**
+	 * Validate command options
+	 */
+	private validateOptions(options: GraphCommandOptions): void {
+		if (options.format && !GRAPH_FORMATS.includes(options.format)) {
+			throw new Error(
+				`Invalid format: ${options.format}. Valid formats are: ${GRAPH_FORMATS.join(', ')}`
+			);
+		}
+		if (options.direction && !GRAPH_DIRECTIONS.includes(options.direction)) {
+			throw new Error(
+				`Invalid direction: ${options.direction}. Valid directions are: ${GRAPH_DIRECTIONS.join(', ')}`
+			);
+		}
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): GraphCommand {
+		const graphCommand = new GraphCommand(name);
+		program.addCommand(graphCommand);
+		return graphCommand;
+	}
+}
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview HistoryCommand using Commander's native class pattern
+ * Shows the journaled changes of a task, or of the whole tag
+ */
+
+import path from 'node:path';
+import {
+	type TaskChange,
+	type TaskHistoryEntry,
+	type TmCore,
+	createTmCore
+} from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+/**
+ * Options interface for the history command
+ */
+export interface HistoryCommandOptions {
+	tag?: string;
+	limit?: string;
+	json?: boolean;
+	project?: string;
+}
+
+/**
+ * HistoryCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class HistoryCommand extends Command {
+	private tmCore?: TmCore;
+
+	constructor(name?: string) {
+		super(name || 'history');
+
+		// Configure the command
+		this.description(
+			'Show the change history of a task or subtask (or of the whole tag)'
+		)
+			.argument('[id]', 'Task or subtask ID (e.g. 5 or 5.2)')
+			.option('-t, --tag <tag>', 'Tag to read (defaults to the active tag)')
+			.option('-n, --limit <count>', 'Show only the last N changes', '20')
+			.option('--json', 'Output the journal entries as JSON')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.addHelpText(
+				'after',
+				`
+Examples:
+  $ tm history          # Recent changes in the active tag
+  $ tm history 5        # Changes to task 5
+  $ tm history 5.2 -n 5 # Last 5 changes to subtask 5.2
+
+Undo the most recent changes with: tm undo [count]
+`
+			)
+			.action(
+				async (id: string | undefined, options: HistoryCommandOptions) => {
+					await this.executeCommand(id, options);
+				}
+			);
+	}
+
+	/**
+	 * Execute the history command
+	 */
+	private async executeCommand(
+		id: string | undefined,
+		options: HistoryCommandOptions
+	): Promise<void> {
+		let hasError = false;
+		try {
+			const limit = Number(options.limit ?? 20);
+			if (!Number.isInteger(limit) || limit < 1) {
+				throw new Error(
+					`Invalid limit: ${options.limit}. Must be a positive integer`
+				);
+			}
+
+			const projectRoot = getProjectRoot(options.project);
+			this.tmCore = await createTmCore({
+				projectPath: path.resolve(projectRoot)
+			});
+
+			const entries = await this.tmCore.history.getHistory(
+				{ taskId: id, limit },
+				options.tag
+			);
+
+			if (options.json) {
+				console.log(JSON.stringify(entries, null, 2));
+				return;
+			}
+
+			if (entries.length === 0) {
+				console.log(
+					chalk.yellow(
+						id ? `No recorded changes for task ${id}` : 'No recorded changes'
+					)
+				);
+				return;
+			}
+
+			for (const entry of entries) {
+				this.displayEntry(entry);
+			}
+		} catch (error: any) {
+			hasError = true;
+			displayError(error, { skipExit: true });
+		} finally {
+			this.tmCore = undefined;
+		}
+
+		// Exit after cleanup completes
+		if (hasError) {
+			process.exit(1);
+		}
+	}
+
+	private displayEntry(entry: TaskHistoryEntry): void {
+		const when = new Date(entry.timestamp).toLocaleString();
+		const who = [entry.user, entry.source, entry.command]
+			.filter(Boolean)
+			.join(' · ');
+		const undone = entry.undoneBy
+			? chalk.yellow(` (undone by ${entry.undoneBy})`)
+			: '';
+
+		console.log(
+			`${chalk.cyan(entry.id)}  ${chalk.gray(when)}  ${chalk.bold(entry.operation)}${who ? chalk.gray(`  ${who}`) : ''}${undone}`
+		);
+		for (const change of entry.changes) {
+			console.log(`    ${this.describeChange(change)}`);
+		}
+	}
+
+	private describeChange(change: TaskChange): string {
+		switch (change.type) {
+			case 'created':
+				return chalk.green(`+ task ${change.taskId}: ${change.after?.title}`);
+			case 'deleted':
+				return chalk.red(`- task ${change.taskId}: ${change.before?.title}`);
+			default: {
+				const details = change.fields.map((field) => {
+					const before = this.readField(change.before, field);
+					const after = this.readField(change.after, field);
+					return typeof before === 'string' &&
+						typeof after === 'string' &&
+						before.length + after.length < 60
+						? `${field} ${before} → ${after}`
+						: field;
+				});
+				return `~ task ${change.taskId}: ${details.join(', ')}`;
+			}
+		}
+	}
+
+	/**
+	 * Read `field` or `subtasks[id].field` from a task snapshot
+	 */
+	private readField(task: any, field: string): unknown {
+		const match = /^subtasks\[([^\]]+)\]\.(.+)$/.exec(field);
+		if (!match) {
+			return task?.[field];
+		}
+		const subtask = (task?.subtasks ?? []).find(
+			(s: any) => String(s.id) === match[1]
+		);
+		return subtask?.[match[2]];
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): HistoryCommand {
+		const historyCommand = new HistoryCommand(name);
+		program.addCommand(historyCommand);
+		return historyCommand;
+	}
+}
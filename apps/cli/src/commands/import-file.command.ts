@@ -0,0 +1,196 @@
+/**
+ * @fileoverview ImportFileCommand using Commander's native class pattern
+ * Appends the tasks of a CSV, GitHub issues, Jira or PRD file to a tag
+ */
+
+import path from 'node:path';
+import {
+	type FieldMapping,
+	type ImportFileResult,
+	type TmCore,
+	createTmCore
+} from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { getStatusWithColor, truncate } from '../ui/index.js';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+/**
+ * Options interface for the import-file command
+ */
+export interface ImportFileCommandOptions {
+	format?: string;
+	tag?: string;
+	map?: string[];
+	dryRun?: boolean;
+	json?: boolean;
+	project?: string;
+}
+
+/**
+ * ImportFileCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class ImportFileCommand extends Command {
+	private tmCore?: TmCore;
+
+	constructor(name?: string) {
+		super(name || 'import-file');
+
+		// Configure the command
+		this.description(
+			'Append tasks from a CSV, GitHub issues JSON, Jira CSV or PRD file to a tag'
+		)
+			.argument('<path>', 'File to import')
+			.option(
+				'-f, --format <format>',
+				'csv, github-issues, jira-csv or prd (detected from the file if not provided)'
+			)
+			.option(
+				'-t, --tag <tag>',
+				'Tag to add the tasks to (defaults to the active tag)'
+			)
+			.option(
+				'-m, --map <field=column...>',
+				'Read a task field from another column or key, e.g. title=Summary'
+			)
+			.option('--dry-run', 'Show the tasks that would be added')
+			.option('--json', 'Output the import result as JSON')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.addHelpText(
+				'after',
+				`
+Fields: id, parentId, title, description, details, testStrategy, status,
+priority, dependencies
+
+Examples:
+  $ tm import-file backlog.csv --dry-run                 # Preview new tasks
+  $ tm import-file issues.json --tag github              # gh issue list --json ...
+  $ tm import-file jira.csv --format jira-csv
+  $ tm import-file docs/prd.md                           # Headings become tasks
+  $ tm import-file sheet.csv --map title=Name priority=Severity
+`
+			)
+			.action(async (file: string, options: ImportFileCommandOptions) => {
+				await this.executeCommand(file, options);
+			});
+	}
+
+	/**
+	 * Execute the import-file command
+	 */
+	private async executeCommand(
+		file: string,
+		options: ImportFileCommandOptions
+	): Promise<void> {
+		let hasError = false;
+		try {
+			const fieldMapping = this.parseMapping(options.map ?? []);
+			const projectRoot = getProjectRoot(options.project);
+			this.tmCore = await createTmCore({
+				projectPath: path.resolve(projectRoot)
+			});
+
+			const result = await this.tmCore.tasks.importFile({
+				path: path.resolve(file),
+				format: options.format,
+				tag: options.tag,
+				fieldMapping,
+				dryRun: options.dryRun
+			});
+
+			if (options.json) {
+				console.log(JSON.stringify(result, null, 2));
+				return;
+			}
+
+			this.displayResult(result, file);
+		} catch (error: any) {
+			hasError = true;
+			displayError(error, { skipExit: true });
+		} finally {
+			this.tmCore = undefined;
+		}
+
+		// Exit after cleanup completes
+		if (hasError) {
+			process.exit(1);
+		}
+	}
+
+	/**
+	 * Parse `field=column` pairs
+	 */
+	private parseMapping(pairs: string[]): FieldMapping | undefined {
+		if (pairs.length === 0) {
+			return undefined;
+		}
+		return Object.fromEntries(
+			pairs.map((pair) => {
+				const separator = pair.indexOf('=');
+				if (separator <= 0 || separator === pair.length - 1) {
+					throw new Error(
+						`Invalid --map value: ${pair}. Use field=column, e.g. title=Summary`
+					);
+				}
+				return [pair.slice(0, separator).trim(), pair.slice(separator + 1)];
+			})
+		);
+	}
+
+	private displayResult(result: ImportFileResult, file: string): void {
+		const subtaskCount = result.tasks.reduce(
+			(count, task) => count + task.subtasks.length,
+			0
+		);
+		const counts = `${result.tasks.length} task(s) and ${subtaskCount} subtask(s)`;
+
+		if (result.dryRun) {
+			console.log(
+				chalk.cyan(
+					`Would add ${counts} from ${file} (${result.format}) to tag "${result.tag}":`
+				)
+			);
+			for (const task of result.tasks) {
+				console.log(
+					`  ${chalk.cyan(task.id.padEnd(4))} ${getStatusWithColor(task.status)}  ${truncate(task.title, 60)}${task.subtasks.length > 0 ? chalk.gray(` (${task.subtasks.length} subtasks)`) : ''}`
+				);
+			}
+		} else {
+			console.log(
+				chalk.green(
+					`✓ Added ${counts} from ${file} (${result.format}) to tag "${result.tag}"`
+				)
+			);
+		}
+
+		if (result.duplicates.length > 0) {
+			console.log(
+				chalk.gray(
+					`  Skipped ${result.duplicates.length} with a title already taken: ${result.duplicates
+						.map(
+							(duplicate) =>
+								`${truncate(duplicate.title, 40)} (= ${duplicate.matchedId})`
+						)
+						.join(', ')}`
+				)
+			);
+		}
+		for (const warning of result.warnings) {
+			console.log(chalk.yellow(`⚠ ${warning}`));
+		}
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): ImportFileCommand {
+		const importFileCommand = new ImportFileCommand(name);
+		program.addCommand(importFileCommand);
+		return importFileCommand;
+	}
+}
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview ImportCommand using Commander's native class pattern
+ * Pulls the tasks of a Hamster brief into a local tag
+ */
+
+import path from 'node:path';
+import { type ImportBriefResult, type TmCore, createTmCore } from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { getStatusWithColor, truncate } from '../ui/index.js';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+/**
+ * Options interface for the import command
+ */
+export interface ImportCommandOptions {
+	tag?: string;
+	replace?: boolean;
+	dryRun?: boolean;
+	json?: boolean;
+	project?: string;
+}
+
+/**
+ * ImportCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class ImportCommand extends Command {
+	private tmCore?: TmCore;
+
+	constructor(name?: string) {
+		super(name || 'import');
+
+		// Configure the command
+		this.description(
+			'Import the tasks of a Hamster brief into a local tag for offline work'
+		)
+			.argument(
+				'[brief]',
+				'Brief ID or Hamster brief URL (defaults to the selected brief)'
+			)
+			.option(
+				'-t, --tag <tag>',
+				'Local tag to import into (defaults to the active tag)'
+			)
+			.option('--replace', 'Replace the tasks already in the tag')
+			.option('--dry-run', 'Show the tasks that would be imported')
+			.option('--json', 'Output the import result as JSON')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.addHelpText(
+				'after',
+				`
+Examples:
+  $ tm import --tag checkout              # Selected brief into the "checkout" tag
+  $ tm import <brief-url> --dry-run       # Preview the local IDs
+  $ tm import <brief-id> --replace        # Overwrite the active tag
+
+Send local tasks to a brief with: tm export
+`
+			)
+			.action(
+				async (brief: string | undefined, options: ImportCommandOptions) => {
+					await this.executeCommand(brief, options);
+				}
+			);
+	}
+
+	/**
+	 * Execute the import command
+	 */
+	private async executeCommand(
+		brief: string | undefined,
+		options: ImportCommandOptions
+	): Promise<void> {
+		let hasError = false;
+		try {
+			const projectRoot = getProjectRoot(options.project);
+			this.tmCore = await createTmCore({
+				projectPath: path.resolve(projectRoot)
+			});
+
+			const result = await this.tmCore.integration.importBrief({
+				brief,
+				tag: options.tag,
+				replace: options.replace,
+				dryRun: options.dryRun
+			});
+
+			if (options.json) {
+				console.log(JSON.stringify(result, null, 2));
+				return;
+			}
+
+			this.displayResult(result);
+		} catch (error: any) {
+			hasError = true;
+			displayError(error, { skipExit: true });
+		} finally {
+			this.tmCore = undefined;
+		}
+
+		// Exit after cleanup completes
+		if (hasError) {
+			process.exit(1);
+		}
+	}
+
+	private displayResult(result: ImportBriefResult): void {
+		const brief = result.briefName ?? result.briefId;
+		const subtaskCount = result.tasks.reduce(
+			(count, task) => count + task.subtasks.length,
+			0
+		);
+		const counts = `${result.tasks.length} task(s) and ${subtaskCount} subtask(s)`;
+
+		if (result.dryRun) {
+			console.log(
+				chalk.cyan(
+					`Would import ${counts} from ${brief} into tag "${result.tag}"${result.replacedCount > 0 ? `, replacing ${result.replacedCount} task(s)` : ''}:`
+				)
+			);
+			const remoteIds = Object.fromEntries(
+				Object.entries(result.idMap).map(([remote, local]) => [local, remote])
+			);
+			for (const task of result.tasks) {
+				console.log(
+					`  ${chalk.cyan(task.id.padEnd(4))} ${chalk.gray(`← ${remoteIds[task.id]}`)}  ${getStatusWithColor(task.status)}  ${truncate(task.title, 60)}`
+				);
+			}
+		} else {
+			console.log(
+				chalk.green(
+					`✓ Imported ${counts} from ${brief} into tag "${result.tag}"${result.replacedCount > 0 ? `, replacing ${result.replacedCount} task(s)` : ''}`
+				)
+			);
+		}
+
+		for (const warning of result.warnings) {
+			console.log(chalk.yellow(`⚠ ${warning}`));
+		}
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): ImportCommand {
+		const importCommand = new ImportCommand(name);
+		program.addCommand(importCommand);
+		return importCommand;
+	}
+}
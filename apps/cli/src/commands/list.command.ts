@@ -9,9 +9,12 @@ import {
 	STATUS_ICONS,
 	TASK_STATUSES,
 	type Task,
+	type TaskFilter,
 	type TaskStatus,
 	type TmCore,
-	createTmCore
+	createTmCore,
+	parseTaskFields,
+	parseTaskSort
 } from '@tm/core';
 import type { StorageType } from '@tm/core';
 import chalk from 'chalk';
@@ -38,8 +41,14 @@ import * as ui from '../utils/ui.js';
  */
 export interface ListCommandOptions {
 	status?: string;
+	query?: string;
 	tag?: string;
 	withSubtasks?: boolean;
+	sort?: string;
+	limit?: string;
+	offset?: string;
+	cursor?: string;
+	fields?: string;
 	format?: OutputFormat;
 	json?: boolean;
 	silent?: boolean;
@@ -55,6 +64,7 @@ export interface ListTasksResult {
 	filtered: number;
 	tag?: string;
 	storageType: Exclude<StorageType, 'auto'>;
+	nextCursor?: string;
 }
 
 /**
@@ -72,8 +82,23 @@ export class ListTasksCommand extends Command {
 		this.description('List tasks with optional filtering')
 			.alias('ls')
 			.option('-s, --status <status>', 'Filter by status (comma-separated)')
+			.option(
+				'-q, --query <query>',
+				'Filter with a query, e.g. "status:pending priority>=high dep:none" or @saved-name'
+			)
 			.option('-t, --tag <tag>', 'Filter by tag')
 			.option('--with-subtasks', 'Include subtasks in the output')
+			.option(
+				'--sort <keys>',
+				'Sort by comma-separated fields, each optionally :asc or :desc (e.g. priority:desc,id)'
+			)
+			.option('--limit <n>', 'Show at most n tasks')
+			.option('--offset <n>', 'Skip the first n tasks')
+			.option('--cursor <cursor>', 'Show the page after a previous page')
+			.option(
+				'--fields <fields>',
+				'Only include these comma-separated fields in JSON output (e.g. id,title,status)'
+			)
 			.option(
 				'-f, --format <format>',
 				'Output format (text, json, compact)',
@@ -132,6 +157,14 @@ export class ListTasksCommand extends Command {
 			return false;
 		}
 
+		// Field selection would leave the tables without their columns
+		const format = options.json ? 'json' : options.format || 'text';
+		if (options.fields && format !== 'json') {
+			console.error(chalk.red('--fields is only supported with JSON output'));
+			console.error(chalk.gray('Add --json or --format json'));
+			return false;
+		}
+
 		// Validate status
 		if (options.status) {
 			const statuses = options.status.split(',').map((s: string) => s.trim());
@@ -170,20 +203,26 @@ export class ListTasksCommand extends Command {
 		}
 
 		// Build filter
-		const filter =
-			options.status && options.status !== 'all'
-				? {
-						status: options.status
-							.split(',')
-							.map((s: string) => s.trim() as TaskStatus)
-					}
-				: undefined;
+		const filter: TaskFilter = {};
+		if (options.status && options.status !== 'all') {
+			filter.status = options.status
+				.split(',')
+				.map((s: string) => s.trim() as TaskStatus);
+		}
+		if (options.query) {
+			filter.query = options.query;
+		}
 
 		// Call tm-core
 		const result = await this.tmCore.tasks.list({
 			tag: options.tag,
-			filter,
-			includeSubtasks: options.withSubtasks
+			filter: Object.keys(filter).length > 0 ? filter : undefined,
+			includeSubtasks: options.withSubtasks,
+			sort: options.sort ? parseTaskSort(options.sort) : undefined,
+			limit: options.limit !== undefined ? Number(options.limit) : undefined,
+			offset: options.offset !== undefined ? Number(options.offset) : undefined,
+			cursor: options.cursor,
+			fields: options.fields ? parseTaskFields(options.fields) : undefined
 		});
 
 		return result as ListTasksResult;
@@ -208,6 +247,7 @@ export class ListTasksCommand extends Command {
 
 			case 'compact':
 				this.displayCompact(result.tasks, options.withSubtasks);
+				this.displayNextPageHint(result);
 				break;
 
 			case 'text':
@@ -229,7 +269,8 @@ export class ListTasksCommand extends Command {
 						total: data.total,
 						filtered: data.filtered,
 						tag: data.tag,
-						storageType: data.storageType
+						storageType: data.storageType,
+						...(data.nextCursor && { nextCursor: data.nextCursor })
 					}
 				},
 				null,
@@ -306,6 +347,7 @@ export class ListTasksCommand extends Command {
 				showComplexity: true // Enable complexity column
 			})
 		);
+		this.displayNextPageHint(data);
 
 		// Display recommended next task section immediately after table
 		if (nextTask) {
@@ -328,6 +370,19 @@ export class ListTasksCommand extends Command {
 		displaySuggestedNextSteps();
 	}
 
+	/**
+	 * Tell how to get the next page when the list was cut short
+	 */
+	private displayNextPageHint(result: ListTasksResult): void {
+		if (result.nextCursor) {
+			console.log(
+				chalk.gray(
+					`\nShowing ${result.tasks.length} of ${result.filtered} tasks. Next page: --cursor ${result.nextCursor}`
+				)
+			);
+		}
+	}
+
 	/**
 	 * Set the last result for programmatic access
 	 */
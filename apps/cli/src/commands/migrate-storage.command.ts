@@ -0,0 +1,110 @@
+/**
+ * @fileoverview MigrateStorageCommand using Commander's native class pattern
+ * Migrates tasks between the JSON tasks file and the SQLite database
+ */
+
+import path from 'node:path';
+import { type LocalStorageType, StorageMigrator } from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+const LOCAL_STORAGE_TYPES: LocalStorageType[] = ['sqlite', 'file'];
+
+/**
+ * Options interface for the migrate-storage command
+ */
+export interface MigrateStorageCommandOptions {
+	to?: LocalStorageType;
+	force?: boolean;
+	project?: string;
+}
+
+/**
+ * MigrateStorageCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class MigrateStorageCommand extends Command {
+	constructor(name?: string) {
+		super(name || 'migrate-storage');
+
+		// Configure the command
+		this.description(
+			'Migrate all tags between the tasks file (tasks.json) and the SQLite database (tasks.db)'
+		)
+			.requiredOption(
+				'--to <storage>',
+				`Storage to migrate to (${LOCAL_STORAGE_TYPES.join(', ')})`
+			)
+			.option('-f, --force', 'Overwrite the target if it exists')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.action(async (options: MigrateStorageCommandOptions) => {
+				await this.executeCommand(options);
+			});
+	}
+
+	/**
+	 * Execute the migrate-storage command
+	 */
+	private async executeCommand(
+		options: MigrateStorageCommandOptions
+	): Promise<void> {
+		try {
+			// Validate options (throws on invalid options)
+			this.validateOptions(options);
+
+			const projectRoot = path.resolve(getProjectRoot(options.project));
+			const result = await new StorageMigrator(projectRoot).migrate({
+				to: options.to!,
+				force: options.force
+			});
+
+			console.log(
+				chalk.green(
+					`✓ Migrated ${path.relative(projectRoot, result.sourcePath)} to ${path.relative(projectRoot, result.targetPath)}`
+				)
+			);
+			console.log(
+				chalk.gray(`  ${result.taskCount} task(s) in ${result.tagCount} tag(s)`)
+			);
+			console.log(
+				chalk.gray(
+					`  Set "storage": { "type": "${result.to}" } in .taskmaster/config.json to use it`
+				)
+			);
+			if (result.to === 'sqlite') {
+				console.log(
+					chalk.yellow(
+						'  tasks.json stays as a copy. Commands that edit tasks.json directly, such as parse-prd, expand and update, stop with an error while storage.type is sqlite'
+					)
+				);
+			}
+		} catch (error: any) {
+			displayError(error);
+		}
+	}
+
+	/**
+	 * Validate command options
+	 */
+	private validateOptions(options: MigrateStorageCommandOptions): void {
+		if (!options.to || !LOCAL_STORAGE_TYPES.includes(options.to)) {
+			throw new Error(
+				`Invalid storage: ${options.to}. Valid values are: ${LOCAL_STORAGE_TYPES.join(', ')}`
+			);
+		}
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): MigrateStorageCommand {
+		const migrateStorageCommand = new MigrateStorageCommand(name);
+		program.addCommand(migrateStorageCommand);
+		return migrateStorageCommand;
+	}
+}
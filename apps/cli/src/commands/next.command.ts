@@ -19,6 +19,7 @@ import { getProjectRoot } from '../utils/project-root.js';
  */
 export interface NextCommandOptions {
 	tag?: string;
+	query?: string;
 	format?: 'text' | 'json';
 	silent?: boolean;
 	project?: string;
@@ -48,6 +49,10 @@ export class NextCommand extends Command {
 		// Configure the command
 		this.description('Find the next available task to work on')
 			.option('-t, --tag <tag>', 'Filter by tag')
+			.option(
+				'-q, --query <query>',
+				'Only consider tasks matching a query, e.g. "priority>=high" or @saved-name'
+			)
 			.option('-f, --format <format>', 'Output format (text, json)', 'text')
 			.option('--silent', 'Suppress output (useful for programmatic usage)')
 			.option(
@@ -128,7 +133,9 @@ export class NextCommand extends Command {
 		}
 
 		// Call tm-core to get next task
-		const task = await this.tmCore.tasks.getNext(options.tag);
+		const task = await this.tmCore.tasks.getNext(options.tag, {
+			query: options.query
+		});
 
 		// Get storage type and active tag
 		const storageType = this.tmCore.tasks.getStorageType();
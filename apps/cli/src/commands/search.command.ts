@@ -0,0 +1,163 @@
+/**
+ * @fileoverview SearchCommand using Commander's native class pattern
+ * Finds tasks by free text with ranked fuzzy (and optionally semantic) matching
+ */
+
+import path from 'node:path';
+import {
+	type TaskSearchMatch,
+	type TaskSearchResult,
+	type TmCore,
+	createTmCore
+} from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { getStatusWithColor, truncate } from '../ui/index.js';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+/**
+ * Options interface for the search command
+ */
+export interface SearchCommandOptions {
+	tag?: string;
+	limit?: string;
+	minScore?: string;
+	semantic?: boolean;
+	json?: boolean;
+	project?: string;
+}
+
+/**
+ * SearchCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class SearchCommand extends Command {
+	private tmCore?: TmCore;
+
+	constructor(name?: string) {
+		super(name || 'search');
+
+		// Configure the command
+		this.description(
+			'Search tasks and subtasks by text, best matches first (tolerates typos)'
+		)
+			.argument('<text...>', 'Text to search for')
+			.option('-t, --tag <tag>', 'Tag to search (defaults to the active tag)')
+			.option('-n, --limit <count>', 'Maximum number of results', '20')
+			.option(
+				'--min-score <score>',
+				'Only show results scoring at least this much (0-1)',
+				'0.3'
+			)
+			.option(
+				'--semantic',
+				'Also rank by meaning using the embedding provider from search.embeddings'
+			)
+			.option('--no-semantic', 'Only use fuzzy text matching')
+			.option('--json', 'Output the scored results as JSON')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.addHelpText(
+				'after',
+				`
+Examples:
+  $ tm search auth login        # Tasks about authentication and login
+  $ tm search databse -n 5      # Typos are fine
+  $ tm search "rate limiting" --json
+`
+			)
+			.action(async (text: string[], options: SearchCommandOptions) => {
+				await this.executeCommand(text.join(' '), options);
+			});
+	}
+
+	/**
+	 * Execute the search command
+	 */
+	private async executeCommand(
+		text: string,
+		options: SearchCommandOptions
+	): Promise<void> {
+		let hasError = false;
+		try {
+			const limit = Number(options.limit ?? 20);
+			if (!Number.isInteger(limit) || limit < 1) {
+				throw new Error(
+					`Invalid limit: ${options.limit}. Must be a positive integer`
+				);
+			}
+			const minScore = Number(options.minScore ?? 0.3);
+			if (!(minScore >= 0 && minScore <= 1)) {
+				throw new Error(
+					`Invalid minimum score: ${options.minScore}. Must be between 0 and 1`
+				);
+			}
+
+			const projectRoot = getProjectRoot(options.project);
+			this.tmCore = await createTmCore({
+				projectPath: path.resolve(projectRoot)
+			});
+
+			const results = await this.tmCore.tasks.search(text, {
+				tag: options.tag,
+				limit,
+				minScore,
+				semantic: options.semantic
+			});
+
+			if (options.json) {
+				console.log(JSON.stringify(results, null, 2));
+				return;
+			}
+
+			if (results.length === 0) {
+				console.log(chalk.yellow(`No tasks match "${text}"`));
+				return;
+			}
+
+			for (const result of results) {
+				this.displayResult(result);
+			}
+		} catch (error: any) {
+			hasError = true;
+			displayError(error, { skipExit: true });
+		} finally {
+			this.tmCore = undefined;
+		}
+
+		// Exit after cleanup completes
+		if (hasError) {
+			process.exit(1);
+		}
+	}
+
+	private displayResult(result: TaskSearchResult): void {
+		const { task, score, matches } = result;
+		const where = matches
+			.slice(0, 3)
+			.map((match) => this.describeMatch(task.id, match))
+			.join(', ');
+
+		console.log(
+			`${chalk.gray(score.toFixed(2))}  ${chalk.cyan(task.id)}  ${getStatusWithColor(task.status)}  ${truncate(task.title, 60)}${where ? chalk.gray(`  (${where})`) : ''}`
+		);
+	}
+
+	private describeMatch(taskId: string, match: TaskSearchMatch): string {
+		return match.field === 'subtask'
+			? `subtask ${taskId}.${match.subtaskId}`
+			: match.field;
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): SearchCommand {
+		const searchCommand = new SearchCommand(name);
+		program.addCommand(searchCommand);
+		return searchCommand;
+	}
+}
@@ -44,6 +44,8 @@ export interface SetStatusResult {
 		taskId: string;
 		oldStatus: TaskStatus;
 		newStatus: TaskStatus;
+		/** Saved offline until Hamster is reachable */
+		queued?: boolean;
 	}>;
 	storageType: Exclude<StorageType, 'auto'>;
 }
@@ -113,7 +115,8 @@ export class SetStatusCommand extends Command {
 
 			// Initialize TaskMaster core
 			this.tmCore = await createTmCore({
-				projectPath: getProjectRoot(options.project)
+				projectPath: getProjectRoot(options.project),
+				changeContext: { source: 'cli', command: 'set-status' }
 			});
 
 			// Parse task IDs (handle comma-separated values)
@@ -124,6 +127,7 @@ export class SetStatusCommand extends Command {
 				taskId: string;
 				oldStatus: TaskStatus;
 				newStatus: TaskStatus;
+				queued?: boolean;
 			}> = [];
 
 			for (const taskId of taskIds) {
@@ -135,7 +139,8 @@ export class SetStatusCommand extends Command {
 					updatedTasks.push({
 						taskId: result.taskId,
 						oldStatus: result.oldStatus,
-						newStatus: result.newStatus
+						newStatus: result.newStatus,
+						...(result.queued && { queued: true })
 					});
 				} catch (error: any) {
 					hasError = true;
@@ -261,6 +266,15 @@ export class SetStatusCommand extends Command {
 				)
 			);
 		}
+
+		const queued = result.updatedTasks.filter((update) => update.queued);
+		if (queued.length > 0) {
+			console.log(
+				chalk.yellow(
+					`⏳ Hamster is unreachable: ${queued.length} change(s) saved offline, sent once it is back`
+				)
+			);
+		}
 	}
 
 	/**
@@ -7,6 +7,7 @@
 import { spawn } from 'child_process';
 import {
 	type StartTaskResult as CoreStartTaskResult,
+	type ExecutionResult,
 	type StorageType,
 	type TmCore,
 	createTmCore
@@ -30,6 +31,7 @@ export interface StartCommandOptions {
 	dryRun?: boolean;
 	force?: boolean;
 	noStatusUpdate?: boolean;
+	executor?: string;
 }
 
 /**
@@ -38,6 +40,8 @@ export interface StartCommandOptions {
  */
 export interface StartCommandResult extends CoreStartTaskResult {
 	storageType?: Exclude<StorageType, 'auto'>;
+	/** Result of running the task through a non-Claude executor */
+	execution?: ExecutionResult;
 }
 
 /**
@@ -74,6 +78,10 @@ export class StartCommand extends Command {
 				'--no-status-update',
 				'Do not automatically update task status to in-progress'
 			)
+			.option(
+				'-e, --executor <name>',
+				'Executor to run the task with (claude or an executor from config)'
+			)
 			.action(
 				async (taskId: string | undefined, options: StartCommandOptions) => {
 					await this.executeCommand(taskId, options);
@@ -101,6 +109,13 @@ export class StartCommand extends Command {
 			await this.initializeCore(getProjectRoot(options.project));
 			spinner.succeed('Task Master initialized');
 
+			if (
+				options.executor &&
+				!(await this.validateExecutor(options.executor))
+			) {
+				process.exit(1);
+			}
+
 			// Get the task ID from argument or option, or find next available task
 			const idArg = taskId || options.id || null;
 			let targetTaskId = idArg;
@@ -122,7 +137,7 @@ export class StartCommand extends Command {
 
 			// Show pre-launch message (no spinner needed, it's just display)
 			if (!options.dryRun) {
-				await this.showPreLaunchMessage(targetTaskId);
+				await this.showPreLaunchMessage(targetTaskId, options);
 			}
 
 			// Use tm-core's startTask method with spinner
@@ -133,14 +148,24 @@ export class StartCommand extends Command {
 				spinner.succeed(
 					options.dryRun
 						? 'Dry run completed'
-						: 'Task prepared - launching Claude...'
+						: `Task prepared - launching ${this.getExecutorLabel(options)}...`
 				);
 			} else {
 				spinner.fail('Task execution failed');
 			}
 
-			// Execute command if we have one and it's not a dry run
-			if (!options.dryRun && coreResult.command) {
+			let execution: ExecutionResult | undefined;
+			if (
+				!options.dryRun &&
+				coreResult.started &&
+				this.usesCustomExecutor(options)
+			) {
+				// Non-Claude executors run (and stream output) through tm-core
+				execution = await this.tmCore!.tasks.execute(targetTaskId, {
+					executor: options.executor
+				});
+			} else if (!options.dryRun && coreResult.command) {
+				// Execute command if we have one and it's not a dry run
 				// Stop any remaining spinners before launching Claude
 				if (spinner && !spinner.isSpinning) {
 					// Clear the line to make room for Claude
@@ -152,6 +177,11 @@ export class StartCommand extends Command {
 			// Convert core result to CLI result with storage type (resolved, not config value)
 			const result: StartCommandResult = {
 				...coreResult,
+				...(execution && {
+					execution,
+					started: execution.success,
+					error: execution.error
+				}),
 				storageType: this.tmCore?.tasks.getStorageType()
 			};
 
@@ -159,7 +189,7 @@ export class StartCommand extends Command {
 			this.setLastResult(result);
 
 			// Display results (only for dry run or if execution failed)
-			if (options.dryRun || !coreResult.started) {
+			if (options.dryRun || !result.started) {
 				this.displayResults(result, options);
 			}
 		} catch (error: any) {
@@ -184,12 +214,42 @@ export class StartCommand extends Command {
 		return true;
 	}
 
+	/**
+	 * Validate the executor name against built-in and configured executors
+	 */
+	private async validateExecutor(executor: string): Promise<boolean> {
+		const available = await this.tmCore!.tasks.getExecutorNames();
+		if (!available.includes(executor)) {
+			console.error(chalk.red(`Unknown executor: ${executor}`));
+			console.error(chalk.gray(`Available executors: ${available.join(', ')}`));
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Whether the task runs through an executor other than Claude Code
+	 */
+	private usesCustomExecutor(options: StartCommandOptions): boolean {
+		return !!options.executor && options.executor !== 'claude';
+	}
+
+	private getExecutorLabel(options: StartCommandOptions): string {
+		return this.usesCustomExecutor(options)
+			? `executor "${options.executor}"`
+			: 'Claude Code';
+	}
+
 	/**
 	 * Initialize TmCore
 	 */
 	private async initializeCore(projectRoot: string): Promise<void> {
 		if (!this.tmCore) {
-			this.tmCore = await createTmCore({ projectPath: projectRoot });
+			this.tmCore = await createTmCore({
+				projectPath: projectRoot,
+				changeContext: { source: 'cli', command: 'start' }
+			});
 		}
 	}
 
@@ -206,7 +266,10 @@ export class StartCommand extends Command {
 	/**
 	 * Show pre-launch message using tm-core data
 	 */
-	private async showPreLaunchMessage(targetTaskId: string): Promise<void> {
+	private async showPreLaunchMessage(
+		targetTaskId: string,
+		options: StartCommandOptions
+	): Promise<void> {
 		if (!this.tmCore) return;
 
 		const { task, isSubtask } = await this.tmCore.tasks.get(targetTaskId);
@@ -218,7 +281,7 @@ export class StartCommand extends Command {
 			console.log(
 				chalk.green('🚀 Starting: ') + chalk.white.bold(workItemText)
 			);
-			console.log(chalk.gray('Launching Claude Code...'));
+			console.log(chalk.gray(`Launching ${this.getExecutorLabel(options)}...`));
 			console.log(); // Empty line
 		}
 	}
@@ -393,7 +456,9 @@ export class StartCommand extends Command {
 			console.log(
 				boxen(
 					chalk.yellow(
-						'🔍 Dry run - claude-code would be launched with the above prompt'
+						this.usesCustomExecutor(options)
+							? `🔍 Dry run - executor "${options.executor}" would be run for this task`
+							: '🔍 Dry run - claude-code would be launched with the above prompt'
 					),
 					{
 						padding: { top: 0, bottom: 0, left: 1, right: 1 },
@@ -441,7 +506,7 @@ export class StartCommand extends Command {
 				console.log(
 					boxen(
 						chalk.red(
-							'❌ Failed to launch claude-code' +
+							`❌ Failed to ${this.usesCustomExecutor(options) ? `run executor "${options.executor}"` : 'launch claude-code'}` +
 								(result.error ? `\nError: ${result.error}` : '')
 						),
 						{
@@ -0,0 +1,249 @@
+/**
+ * @fileoverview SyncCommand using Commander's native class pattern
+ * Keeps a local tag and a Hamster brief aligned in both directions
+ */
+
+import path from 'node:path';
+import {
+	type SyncBriefResult,
+	type SyncChange,
+	type SyncConflict,
+	type SyncResolution,
+	type TmCore,
+	createTmCore
+} from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { truncate } from '../ui/index.js';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+/**
+ * Options interface for the sync command
+ */
+export interface SyncCommandOptions {
+	tag?: string;
+	dryRun?: boolean;
+	resolve?: boolean | string;
+	json?: boolean;
+	project?: string;
+}
+
+/**
+ * SyncCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class SyncCommand extends Command {
+	private tmCore?: TmCore;
+
+	constructor(name?: string) {
+		super(name || 'sync');
+
+		// Configure the command
+		this.description(
+			'Sync a local tag with a Hamster brief, merging edits made on either side'
+		)
+			.argument(
+				'[brief]',
+				'Brief ID or Hamster brief URL (defaults to the brief the tag was synced with, then the selected brief)'
+			)
+			.option(
+				'-t, --tag <tag>',
+				'Local tag to sync (defaults to the active tag)'
+			)
+			.option('--dry-run', 'Show what would change without writing anything')
+			.option(
+				'--resolve [side]',
+				'Resolve conflicts, keeping the "local" or "remote" value (prompts for each conflict if no side is given)'
+			)
+			.option('--json', 'Output the sync result as JSON')
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.addHelpText(
+				'after',
+				`
+Examples:
+  $ tm import <brief-id> --tag checkout   # Start from the brief's tasks
+  $ tm sync --tag checkout                # Pull and push edits
+  $ tm sync --dry-run                     # Preview changes and conflicts
+  $ tm sync --resolve                     # Choose a side for each conflict
+  $ tm sync --resolve remote              # Keep the brief's values
+`
+			)
+			.action(
+				async (brief: string | undefined, options: SyncCommandOptions) => {
+					await this.executeCommand(brief, options);
+				}
+			);
+	}
+
+	/**
+	 * Execute the sync command
+	 */
+	private async executeCommand(
+		brief: string | undefined,
+		options: SyncCommandOptions
+	): Promise<void> {
+		let hasError = false;
+		try {
+			if (
+				typeof options.resolve === 'string' &&
+				!['local', 'remote'].includes(options.resolve)
+			) {
+				throw new Error(
+					`Invalid --resolve value: ${options.resolve}. Use "local" or "remote".`
+				);
+			}
+
+			const projectRoot = getProjectRoot(options.project);
+			this.tmCore = await createTmCore({
+				projectPath: path.resolve(projectRoot)
+			});
+
+			let resolutions: SyncResolution[] | undefined;
+			if (typeof options.resolve === 'string') {
+				resolutions = [{ use: options.resolve as SyncResolution['use'] }];
+			} else if (options.resolve) {
+				const preview = await this.tmCore.integration.syncBrief({
+					brief,
+					tag: options.tag,
+					dryRun: true
+				});
+				resolutions = await this.promptResolutions(preview.conflicts);
+			}
+
+			const result = await this.tmCore.integration.syncBrief({
+				brief,
+				tag: options.tag,
+				dryRun: options.dryRun,
+				resolutions
+			});
+
+			if (options.json) {
+				console.log(JSON.stringify(result, null, 2));
+				return;
+			}
+
+			this.displayResult(result);
+		} catch (error: any) {
+			hasError = true;
+			displayError(error, { skipExit: true });
+		} finally {
+			this.tmCore = undefined;
+		}
+
+		// Exit after cleanup completes
+		if (hasError) {
+			process.exit(1);
+		}
+	}
+
+	/**
+	 * Ask which side to keep for each conflict
+	 */
+	private async promptResolutions(
+		conflicts: SyncConflict[]
+	): Promise<SyncResolution[]> {
+		const resolutions: SyncResolution[] = [];
+		for (const conflict of conflicts) {
+			const { use } = await inquirer.prompt([
+				{
+					type: 'list',
+					name: 'use',
+					message: `${conflict.taskId} (${conflict.remoteId}) ${conflict.field}:`,
+					choices: [
+						{
+							name: `Keep local:  ${truncate(conflict.local, 60)}`,
+							value: 'local'
+						},
+						{
+							name: `Keep Hamster: ${truncate(conflict.remote, 60)}`,
+							value: 'remote'
+						},
+						{ name: 'Skip', value: 'skip' }
+					]
+				}
+			]);
+			if (use !== 'skip') {
+				resolutions.push({
+					taskId: conflict.taskId,
+					field: conflict.field,
+					use
+				});
+			}
+		}
+		return resolutions;
+	}
+
+	private displayResult(result: SyncBriefResult): void {
+		const brief = result.briefName ?? result.briefId;
+		console.log(
+			result.dryRun
+				? chalk.cyan(`Would sync tag "${result.tag}" with ${brief}:`)
+				: chalk.green(`✓ Synced tag "${result.tag}" with ${brief}`)
+		);
+
+		const formatChange = (change: SyncChange) =>
+			`    ${chalk.cyan(change.taskId)} ${chalk.gray(`(${change.remoteId})`)} ${change.field}: ${truncate(change.value, 60)}`;
+		if (result.pulled.length > 0) {
+			console.log(`  ↓ ${result.pulled.length} change(s) from the brief`);
+			result.pulled.forEach((change) => console.log(formatChange(change)));
+		}
+		if (result.pushed.length > 0) {
+			console.log(`  ↑ ${result.pushed.length} change(s) to the brief`);
+			result.pushed.forEach((change) => console.log(formatChange(change)));
+		}
+		if (result.created.length > 0) {
+			console.log(
+				`  + ${result.created.length} task(s) added from the brief: ${result.created.join(', ')}`
+			);
+		}
+		if (
+			result.pulled.length + result.pushed.length + result.created.length ===
+			0
+		) {
+			console.log(chalk.gray('  No changes'));
+		}
+
+		if (result.conflicts.length > 0) {
+			console.log(
+				chalk.yellow(
+					`\n⚠ ${result.conflicts.length} conflict(s), changed on both sides:`
+				)
+			);
+			for (const conflict of result.conflicts) {
+				console.log(
+					`    ${chalk.cyan(conflict.taskId)} ${chalk.gray(`(${conflict.remoteId})`)} ${conflict.field}`
+				);
+				console.log(`      local:   ${truncate(conflict.local, 60)}`);
+				console.log(`      Hamster: ${truncate(conflict.remote, 60)}`);
+			}
+			console.log(
+				chalk.gray('  Resolve with: tm sync --resolve [local|remote]')
+			);
+		}
+
+		if (result.localOnly.length > 0) {
+			console.log(
+				chalk.gray(
+					`\n${result.localOnly.length} local task(s) not in the brief: ${result.localOnly.join(', ')} (send them with tm export)`
+				)
+			);
+		}
+		for (const warning of result.warnings) {
+			console.log(chalk.yellow(`⚠ ${warning}`));
+		}
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): SyncCommand {
+		const syncCommand = new SyncCommand(name);
+		program.addCommand(syncCommand);
+		return syncCommand;
+	}
+}
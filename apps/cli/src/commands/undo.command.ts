@@ -0,0 +1,97 @@
+/**
+ * @fileoverview UndoCommand using Commander's native class pattern
+ * Reverts the most recent journaled task changes
+ */
+
+import path from 'node:path';
+import { type TmCore, createTmCore } from '@tm/core';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { displayError } from '../utils/error-handler.js';
+import { getProjectRoot } from '../utils/project-root.js';
+
+/**
+ * Options interface for the undo command
+ */
+export interface UndoCommandOptions {
+	tag?: string;
+	force?: boolean;
+	project?: string;
+}
+
+/**
+ * UndoCommand extending Commander's Command class
+ * This is a thin presentation layer over @tm/core
+ */
+export class UndoCommand extends Command {
+	private tmCore?: TmCore;
+
+	constructor(name?: string) {
+		super(name || 'undo');
+
+		// Configure the command
+		this.description('Undo the most recent task changes (see tm history)')
+			.argument('[count]', 'Number of changes to undo', '1')
+			.option('-t, --tag <tag>', 'Tag to undo in (defaults to the active tag)')
+			.option(
+				'-f, --force',
+				'Undo even if the tasks were changed again outside the history'
+			)
+			.option(
+				'-p, --project <path>',
+				'Project root directory (auto-detected if not provided)'
+			)
+			.action(async (count: string, options: UndoCommandOptions) => {
+				await this.executeCommand(count, options);
+			});
+	}
+
+	/**
+	 * Execute the undo command
+	 */
+	private async executeCommand(
+		count: string,
+		options: UndoCommandOptions
+	): Promise<void> {
+		let hasError = false;
+		try {
+			const projectRoot = getProjectRoot(options.project);
+			this.tmCore = await createTmCore({
+				projectPath: path.resolve(projectRoot),
+				changeContext: { source: 'cli', command: 'undo' }
+			});
+
+			const { undone } = await this.tmCore.history.undo(
+				{ count: Number(count), force: options.force },
+				options.tag
+			);
+
+			console.log(chalk.green(`✓ Undid ${undone.length} change(s)`));
+			for (const entry of undone) {
+				const taskIds = entry.changes.map((c) => c.taskId).join(', ');
+				console.log(
+					chalk.gray(`  ${entry.id}  ${entry.operation}  task(s) ${taskIds}`)
+				);
+			}
+		} catch (error: any) {
+			hasError = true;
+			displayError(error, { skipExit: true });
+		} finally {
+			this.tmCore = undefined;
+		}
+
+		// Exit after cleanup completes
+		if (hasError) {
+			process.exit(1);
+		}
+	}
+
+	/**
+	 * Register this command on an existing program
+	 */
+	static register(program: Command, name?: string): UndoCommand {
+		const undoCommand = new UndoCommand(name);
+		program.addCommand(undoCommand);
+		return undoCommand;
+	}
+}
@@ -12,6 +12,16 @@ export { ContextCommand } from './commands/context.command.js';
 export { StartCommand } from './commands/start.command.js';
 export { SetStatusCommand } from './commands/set-status.command.js';
 export { ExportCommand } from './commands/export.command.js';
+export { ImportCommand } from './commands/import.command.js';
+export { ImportFileCommand } from './commands/import-file.command.js';
+export { SyncCommand } from './commands/sync.command.js';
+export { GraphCommand } from './commands/graph.command.js';
+export { SearchCommand } from './commands/search.command.js';
+export { ConvertCommand } from './commands/convert.command.js';
+export { BackupCommand } from './commands/backup.command.js';
+export { MigrateStorageCommand } from './commands/migrate-storage.command.js';
+export { HistoryCommand } from './commands/history.command.js';
+export { UndoCommand } from './commands/undo.command.js';
 export { TagsCommand } from './commands/tags.command.js';
 export { BriefsCommand } from './commands/briefs.command.js';
 
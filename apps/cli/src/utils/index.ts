@@ -30,5 +30,12 @@ export {
 	restartWithNewVersion
 } from './auto-update.js';
 
+// Changes queued while Hamster was unreachable
+export {
+	getPendingOperations,
+	displayPendingOperations,
+	discardFailedOperations
+} from './pending-operations.js';
+
 // Display helpers (command-specific helpers)
 export { displayCommandHeader } from './display-helpers.js';
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Tests for the report of Hamster changes queued offline
+ */
+
+import type { OutboxEntry } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { displayPendingOperations } from './pending-operations.js';
+
+const entry = (overrides: Partial<OutboxEntry> = {}): OutboxEntry =>
+	({
+		id: 'entry-1',
+		type: 'updateTaskStatus',
+		taskId: 'HAM-1',
+		status: 'done',
+		queuedAt: '2026-01-31T09:15:00.000Z',
+		error: 'TypeError: fetch failed',
+		...overrides
+	}) as OutboxEntry;
+
+describe('displayPendingOperations', () => {
+	let output: string;
+
+	beforeEach(() => {
+		output = '';
+		vi.spyOn(console, 'log').mockImplementation((line: string) => {
+			output += `${line}\n`;
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should print nothing when no changes are queued', () => {
+		displayPendingOperations([]);
+
+		expect(output).toBe('');
+	});
+
+	it('should list the changes waiting to be sent', () => {
+		displayPendingOperations([entry()]);
+
+		expect(output).toContain(
+			'1 change(s) made offline, not sent to Hamster yet'
+		);
+		expect(output).toContain('HAM-1: status → done');
+		expect(output).not.toContain('rejected');
+	});
+
+	it('should list the rejected changes with the reason', () => {
+		displayPendingOperations([
+			entry(),
+			entry({
+				id: 'entry-2',
+				taskId: 'HAM-2',
+				status: 'review',
+				error: 'Invalid task status: review',
+				failedAt: '2026-01-31T10:00:00.000Z'
+			})
+		]);
+
+		expect(output).toContain('1 change(s) made offline, not sent');
+		expect(output).toContain('1 change(s) made offline were rejected');
+		expect(output).toContain('HAM-2: status → review: Invalid task status');
+		expect(output).toContain('tm context discard-failed');
+	});
+});
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Report Hamster changes queued while the API was unreachable
+ */
+
+import { ApiOutbox, type OutboxEntry } from '@tm/core';
+import chalk from 'chalk';
+import { getProjectRoot } from './project-root.js';
+
+/**
+ * Changes to a brief made in this project that are not sent yet
+ */
+export async function getPendingOperations(
+	briefId: string
+): Promise<OutboxEntry[]> {
+	try {
+		return await new ApiOutbox(getProjectRoot(), briefId).list();
+	} catch {
+		// An unreadable outbox is reported when the storage next uses it
+		return [];
+	}
+}
+
+/**
+ * Remove the changes Hamster rejected
+ * @returns Number of removed changes
+ */
+export async function discardFailedOperations(
+	briefId: string
+): Promise<number> {
+	return (await new ApiOutbox(getProjectRoot(), briefId).discardFailed())
+		.length;
+}
+
+/**
+ * Print the pending and rejected changes, if any
+ */
+export function displayPendingOperations(entries: OutboxEntry[]): void {
+	const pending = entries.filter((entry) => !entry.failedAt);
+	const failed = entries.filter((entry) => entry.failedAt);
+
+	if (pending.length > 0) {
+		console.log(
+			chalk.yellow(
+				`\n⏳ ${pending.length} change(s) made offline, not sent to Hamster yet`
+			)
+		);
+		for (const entry of pending) {
+			console.log(
+				chalk.gray(
+					`    ${describeOperation(entry)} (${new Date(entry.queuedAt).toLocaleString()})`
+				)
+			);
+		}
+		console.log(
+			chalk.gray('  They are sent the next time Hamster is reachable')
+		);
+	}
+
+	if (failed.length > 0) {
+		console.log(
+			chalk.red(
+				`\n✗ ${failed.length} change(s) made offline were rejected by Hamster`
+			)
+		);
+		for (const entry of failed) {
+			console.log(
+				chalk.gray(`    ${describeOperation(entry)}: ${entry.error}`)
+			);
+		}
+		console.log(
+			chalk.gray(
+				'  Make them again if still needed, then remove them with: tm context discard-failed'
+			)
+		);
+	}
+}
+
+function describeOperation(entry: OutboxEntry): string {
+	switch (entry.type) {
+		case 'updateTaskStatus':
+			return `${entry.taskId}: status → ${entry.status}`;
+		case 'updateTask':
+			return `${entry.taskId}: ${Object.keys(entry.updates).join(', ')} updated`;
+		case 'appendTasks':
+			return `${entry.tasks.length} task(s) added`;
+	}
+}
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Unit tests for the autopilot list command
+ */
+
+import { WorkflowSessionsService } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', async (importOriginal) => ({
+	...(await importOriginal<typeof import('@tm/core')>()),
+	WorkflowSessionsService: vi.fn()
+}));
+
+vi.mock('../../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+import { AutopilotCommand } from '../../../../src/commands/autopilot/index.js';
+
+const sessions = [
+	{
+		taskId: '1',
+		phase: 'SUBTASK_LOOP',
+		tddPhase: 'GREEN',
+		branchName: 'task-1',
+		currentSubtask: { id: '1.2', title: 'Validate input' },
+		progress: { completed: 1, total: 3 },
+		statePath: '/test/project/.taskmaster/workflow-state.json'
+	},
+	{
+		taskId: '4',
+		phase: 'SUBTASK_LOOP',
+		tddPhase: 'RED',
+		branchName: 'task-4',
+		worktreePath: '/test/project-worktrees/task-4',
+		progress: { completed: 0, total: 2 },
+		statePath: '/test/project/.taskmaster/sessions/4/workflow-state.json'
+	}
+];
+
+describe('autopilot list', () => {
+	let consoleLogSpy: any;
+	let consoleErrorSpy: any;
+	let processExitSpy: any;
+	let list: ReturnType<typeof vi.fn>;
+
+	const run = (args: string[]) =>
+		new AutopilotCommand().parseAsync(args, { from: 'user' });
+
+	const output = () =>
+		consoleLogSpy.mock.calls.map((call: unknown[]) => call[0]).join('\n');
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		processExitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+			code?: number
+		) => {
+			throw new Error(`process.exit(${code})`);
+		}) as any);
+
+		list = vi.fn().mockResolvedValue(sessions);
+		vi.mocked(WorkflowSessionsService).mockImplementation(function () {
+			return { list } as any;
+		});
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		consoleErrorSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	describe('option parsing', () => {
+		it('should list the sessions of the detected project', async () => {
+			await run(['list']);
+
+			expect(WorkflowSessionsService).toHaveBeenCalledWith('/test/project');
+			expect(list).toHaveBeenCalled();
+		});
+
+		it('should accept the ls alias and the project root given to autopilot', async () => {
+			await run(['--project-root', '/other/project', 'ls']);
+
+			expect(WorkflowSessionsService).toHaveBeenCalledWith('/other/project');
+		});
+	});
+
+	describe('output', () => {
+		it('should print the phase, progress and location of each session', async () => {
+			await run(['list']);
+
+			expect(output()).toContain('Task 1');
+			expect(output()).toContain('SUBTASK_LOOP/GREEN');
+			expect(output()).toContain('1/3 subtasks');
+			expect(output()).toContain('subtask:  1.2 Validate input');
+			expect(output()).toContain('location: main checkout');
+			expect(output()).toContain('branch:   task-4');
+			expect(output()).toContain('location: /test/project-worktrees/task-4');
+		});
+
+		it('should print the sessions as JSON with --json', async () => {
+			await run(['--json', 'list']);
+
+			expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual({
+				sessions
+			});
+		});
+
+		it('should say how to start a session when none is active', async () => {
+			list.mockResolvedValue([]);
+
+			await run(['list']);
+
+			expect(output()).toContain(
+				'No active autopilot sessions. Start one with: autopilot start <taskId> [--worktree]'
+			);
+		});
+
+		it('should report errors and exit with code 1', async () => {
+			list.mockRejectedValue(new Error('Cannot read the git worktrees'));
+
+			await expect(run(['list'])).rejects.toThrow('process.exit(1)');
+
+			expect(consoleErrorSpy).toHaveBeenCalledWith(
+				expect.stringContaining('Cannot read the git worktrees')
+			);
+		});
+	});
+});
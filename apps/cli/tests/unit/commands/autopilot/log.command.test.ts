@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Unit tests for the autopilot log command
+ */
+
+import { WorkflowJournalService } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', async (importOriginal) => ({
+	...(await importOriginal<typeof import('@tm/core')>()),
+	WorkflowJournalService: vi.fn()
+}));
+
+vi.mock('../../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+import { AutopilotCommand } from '../../../../src/commands/autopilot/index.js';
+
+const events = [
+	{
+		timestamp: '2026-03-02T10:00:00.000Z',
+		type: 'phase:entered',
+		phase: 'SUBTASK_LOOP',
+		tddPhase: 'RED',
+		subtaskId: '1.1'
+	},
+	{
+		timestamp: '2026-03-02T10:05:00.000Z',
+		type: 'test:failed',
+		phase: 'SUBTASK_LOOP',
+		tddPhase: 'RED',
+		subtaskId: '1.1',
+		failed: 2
+	}
+];
+
+describe('autopilot log', () => {
+	let consoleLogSpy: any;
+	let consoleErrorSpy: any;
+	let processExitSpy: any;
+	let query: ReturnType<typeof vi.fn>;
+	let listSessions: ReturnType<typeof vi.fn>;
+
+	const run = (args: string[]) =>
+		new AutopilotCommand().parseAsync(args, { from: 'user' });
+
+	const output = () =>
+		consoleLogSpy.mock.calls.map((call: unknown[]) => call[0]).join('\n');
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		processExitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+			code?: number
+		) => {
+			throw new Error(`process.exit(${code})`);
+		}) as any);
+
+		query = vi.fn().mockResolvedValue({
+			sessionId: 'task-1-20260302',
+			events,
+			totalEvents: 5
+		});
+		listSessions = vi.fn().mockResolvedValue([
+			{
+				sessionId: 'task-1-20260302',
+				taskId: '1',
+				eventCount: 5,
+				lastEventAt: '2026-03-02T10:05:00.000Z',
+				active: true
+			}
+		]);
+		vi.mocked(WorkflowJournalService).mockImplementation(function () {
+			return { query, listSessions } as any;
+		});
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		consoleErrorSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	describe('option parsing', () => {
+		it('should query the current session of the project without filters', async () => {
+			await run(['log']);
+
+			expect(WorkflowJournalService).toHaveBeenCalledWith('/test/project');
+			expect(query).toHaveBeenCalledWith({
+				sessionId: undefined,
+				subtaskId: undefined,
+				phase: undefined,
+				types: undefined,
+				since: undefined,
+				until: undefined,
+				limit: undefined
+			});
+		});
+
+		it('should pass the session, subtask, phase, types, time range and limit', async () => {
+			await run([
+				'log',
+				'--session',
+				'task-1-20260302',
+				'--subtask',
+				'1.1',
+				'--phase',
+				'RED',
+				'--type',
+				'tdd:*, test:failed',
+				'--since',
+				'2h',
+				'--until',
+				'2026-03-02T12:00:00Z',
+				'-n',
+				'10'
+			]);
+
+			expect(query).toHaveBeenCalledWith({
+				sessionId: 'task-1-20260302',
+				subtaskId: '1.1',
+				phase: 'RED',
+				types: ['tdd:*', 'test:failed'],
+				since: '2h',
+				until: '2026-03-02T12:00:00Z',
+				limit: 10
+			});
+		});
+
+		it('should use the project root given to autopilot', async () => {
+			await run(['--project-root', '/other/project', 'log']);
+
+			expect(WorkflowJournalService).toHaveBeenCalledWith('/other/project');
+		});
+
+		it('should reject a negative limit', async () => {
+			await expect(run(['log', '--limit', '-1'])).rejects.toThrow(
+				'process.exit(1)'
+			);
+
+			expect(query).not.toHaveBeenCalled();
+			expect(consoleErrorSpy).toHaveBeenCalledWith(
+				expect.stringContaining('Invalid limit')
+			);
+		});
+	});
+
+	describe('output', () => {
+		it('should print one line per event with its phase, subtask and details', async () => {
+			await run(['log']);
+
+			expect(output()).toContain('Session task-1-20260302: 2 of 5 events');
+			const line = consoleLogSpy.mock.calls.at(-1)[0];
+			expect(line).toContain('test:failed');
+			expect(line).toContain('SUBTASK_LOOP/RED');
+			expect(line).toContain('[1.1]');
+			expect(line).toContain('failed=2');
+		});
+
+		it('should print the query result as JSON with --json', async () => {
+			await run(['--json', 'log']);
+
+			expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual({
+				sessionId: 'task-1-20260302',
+				events,
+				totalEvents: 5
+			});
+		});
+
+		it('should say how to start a session when none is recorded', async () => {
+			query.mockResolvedValue({ sessionId: null, events: [], totalEvents: 0 });
+
+			await run(['log']);
+
+			expect(output()).toContain('No workflow sessions recorded');
+		});
+
+		it('should list the recorded sessions with --sessions', async () => {
+			await run(['log', '--sessions']);
+
+			expect(query).not.toHaveBeenCalled();
+			expect(output()).toContain('task-1-20260302');
+			expect(output()).toContain('5 events');
+		});
+
+		it('should report journal errors and exit with code 1', async () => {
+			query.mockRejectedValue(
+				new Error('Invalid session ID: ../state. Use a name from --sessions')
+			);
+
+			await expect(run(['log', '--session', '../state'])).rejects.toThrow(
+				'process.exit(1)'
+			);
+
+			expect(consoleErrorSpy).toHaveBeenCalledWith(
+				expect.stringContaining('Invalid session ID: ../state')
+			);
+		});
+	});
+});
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Unit tests for BackupCommand
+ */
+
+import { createTmCore } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	createTmCore: vi.fn()
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+import { BackupCommand } from '../../../src/commands/backup.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+const backup = (id: string) => ({
+	id,
+	createdAt: '2026-01-31T09:15:00.000Z',
+	path: `/test/project/.taskmaster/backups/tasks-${id}.json`,
+	format: 'json',
+	compressed: false,
+	size: 2048
+});
+
+describe('BackupCommand', () => {
+	let consoleLogSpy: any;
+	let processExitSpy: any;
+	let listBackups: ReturnType<typeof vi.fn>;
+	let restoreBackup: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		processExitSpy = vi
+			.spyOn(process, 'exit')
+			.mockImplementation((() => {}) as any);
+
+		listBackups = vi
+			.fn()
+			.mockResolvedValue([backup('2026-01-31T09-15-00-000Z')]);
+		restoreBackup = vi.fn().mockResolvedValue({
+			restored: backup('2026-01-31T09-15-00-000Z'),
+			previous: backup('2026-02-01T10-00-00-000Z')
+		});
+		vi.mocked(createTmCore).mockResolvedValue({
+			tasks: { listBackups, restoreBackup }
+		} as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	describe('option parsing', () => {
+		it('should list backups when no subcommand is given', async () => {
+			const command = new BackupCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(createTmCore).toHaveBeenCalledWith({
+				projectPath: '/test/project'
+			});
+			expect(listBackups).toHaveBeenCalled();
+		});
+
+		it('should load the project given with --project', async () => {
+			const command = new BackupCommand();
+
+			await command.parseAsync(['list', '--project', '/other/project'], {
+				from: 'user'
+			});
+
+			expect(createTmCore).toHaveBeenCalledWith({
+				projectPath: '/other/project'
+			});
+		});
+
+		it('should restore the backup id given to restore', async () => {
+			const command = new BackupCommand();
+
+			await command.parseAsync(['restore', '2026-01-31T09-15-00-000Z'], {
+				from: 'user'
+			});
+
+			expect(restoreBackup).toHaveBeenCalledWith('2026-01-31T09-15-00-000Z');
+		});
+	});
+
+	describe('output', () => {
+		it('should print the backups newest first', async () => {
+			const command = new BackupCommand();
+
+			await command.parseAsync(['list'], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('1 backup(s), newest first')
+			);
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('2026-01-31T09-15-00-000Z')
+			);
+		});
+
+		it('should print the backups as JSON with --json', async () => {
+			const command = new BackupCommand();
+
+			await command.parseAsync(['list', '--json'], { from: 'user' });
+
+			const output = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+			expect(output).toEqual([backup('2026-01-31T09-15-00-000Z')]);
+		});
+
+		it('should explain how to enable backups when there are none', async () => {
+			listBackups.mockResolvedValue([]);
+			const command = new BackupCommand();
+
+			await command.parseAsync(['list'], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('"enableBackup": true')
+			);
+		});
+
+		it('should print the backup that undoes a restore', async () => {
+			const command = new BackupCommand();
+
+			await command.parseAsync(['restore', '2026-01-31T09-15-00-000Z'], {
+				from: 'user'
+			});
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('tm backup restore 2026-02-01T10-00-00-000Z')
+			);
+		});
+
+		it('should report tm-core errors and exit with code 1', async () => {
+			restoreBackup.mockRejectedValue(new Error('Backup nope not found'));
+			const command = new BackupCommand();
+
+			await command.parseAsync(['restore', 'nope'], { from: 'user' });
+
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({ message: 'Backup nope not found' }),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+});
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Unit tests for GraphCommand
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createTmCore } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	createTmCore: vi.fn()
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+import { GraphCommand } from '../../../src/commands/graph.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+describe('GraphCommand', () => {
+	let consoleLogSpy: any;
+	let processExitSpy: any;
+	let renderGraph: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		processExitSpy = vi
+			.spyOn(process, 'exit')
+			.mockImplementation((() => {}) as any);
+
+		renderGraph = vi.fn().mockResolvedValue('graph TD\n  1 --> 2');
+		vi.mocked(createTmCore).mockResolvedValue({
+			dependencies: { renderGraph }
+		} as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	describe('option parsing', () => {
+		it('should render a Mermaid graph of every task by default', async () => {
+			const command = new GraphCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(renderGraph).toHaveBeenCalledWith(
+				{
+					format: 'mermaid',
+					rootId: undefined,
+					direction: 'both',
+					includeSubtasks: false
+				},
+				undefined
+			);
+		});
+
+		it('should pass the format, root, direction, subtasks and tag to tm-core', async () => {
+			const command = new GraphCommand();
+
+			await command.parseAsync(
+				[
+					'--format',
+					'dot',
+					'--from',
+					'3.1',
+					'--direction',
+					'dependents',
+					'--subtasks',
+					'--tag',
+					'feature'
+				],
+				{ from: 'user' }
+			);
+
+			expect(renderGraph).toHaveBeenCalledWith(
+				{
+					format: 'dot',
+					rootId: '3.1',
+					direction: 'dependents',
+					includeSubtasks: true
+				},
+				'feature'
+			);
+		});
+
+		it('should reject an invalid format without loading the project', async () => {
+			const command = new GraphCommand();
+
+			await command.parseAsync(['--format', 'svg'], { from: 'user' });
+
+			expect(createTmCore).not.toHaveBeenCalled();
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: expect.stringContaining('Invalid format: svg')
+				}),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+
+		it('should reject an invalid direction', async () => {
+			const command = new GraphCommand();
+
+			await command.parseAsync(['--direction', 'up'], { from: 'user' });
+
+			expect(renderGraph).not.toHaveBeenCalled();
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: expect.stringContaining('Invalid direction: up')
+				}),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+
+	describe('output', () => {
+		it('should print the graph to stdout', async () => {
+			const command = new GraphCommand();
+
+			await (command as any).executeCommand({ format: 'mermaid' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith('graph TD\n  1 --> 2');
+			expect(processExitSpy).not.toHaveBeenCalled();
+		});
+
+		it('should write the graph to the --output file', async () => {
+			const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tm-graph-'));
+			const outputPath = path.join(tempDir, 'graph.mmd');
+
+			try {
+				const command = new GraphCommand();
+
+				await (command as any).executeCommand({
+					format: 'mermaid',
+					output: outputPath
+				});
+
+				expect(fs.readFileSync(outputPath, 'utf-8')).toBe(
+					'graph TD\n  1 --> 2\n'
+				);
+				expect(consoleLogSpy).toHaveBeenCalledWith(
+					expect.stringContaining(outputPath)
+				);
+			} finally {
+				fs.rmSync(tempDir, { recursive: true, force: true });
+			}
+		});
+
+		it('should report tm-core errors and exit with code 1', async () => {
+			renderGraph.mockRejectedValue(new Error('Task 42 not found'));
+			const command = new GraphCommand();
+
+			await (command as any).executeCommand({ from: '42' });
+
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({ message: 'Task 42 not found' }),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+});
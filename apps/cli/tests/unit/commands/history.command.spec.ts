@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Unit tests for HistoryCommand
+ */
+
+import { createTmCore } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	createTmCore: vi.fn()
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+import { HistoryCommand } from '../../../src/commands/history.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+const entry = {
+	id: 'a1b2c3d4',
+	type: 'task-change',
+	timestamp: '2026-01-31T09:15:00.000Z',
+	user: 'dev',
+	source: 'cli',
+	command: 'set-status',
+	tag: 'master',
+	operation: 'updateTaskStatus',
+	changes: [
+		{
+			taskId: '5',
+			type: 'updated',
+			fields: ['status'],
+			before: { id: '5', title: 'Ship it', status: 'pending' },
+			after: { id: '5', title: 'Ship it', status: 'done' }
+		}
+	]
+};
+
+describe('HistoryCommand', () => {
+	let consoleLogSpy: any;
+	let processExitSpy: any;
+	let getHistory: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		processExitSpy = vi
+			.spyOn(process, 'exit')
+			.mockImplementation((() => {}) as any);
+
+		getHistory = vi.fn().mockResolvedValue([entry]);
+		vi.mocked(createTmCore).mockResolvedValue({
+			history: { getHistory }
+		} as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	describe('option parsing', () => {
+		it('should read the last 20 changes of the active tag by default', async () => {
+			const command = new HistoryCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(createTmCore).toHaveBeenCalledWith({
+				projectPath: '/test/project'
+			});
+			expect(getHistory).toHaveBeenCalledWith(
+				{ taskId: undefined, limit: 20 },
+				undefined
+			);
+		});
+
+		it('should pass the task id, --limit and --tag', async () => {
+			const command = new HistoryCommand();
+
+			await command.parseAsync(['5.2', '-n', '5', '--tag', 'feature'], {
+				from: 'user'
+			});
+
+			expect(getHistory).toHaveBeenCalledWith(
+				{ taskId: '5.2', limit: 5 },
+				'feature'
+			);
+		});
+
+		it('should reject a limit that is not a positive integer', async () => {
+			const command = new HistoryCommand();
+
+			await command.parseAsync(['--limit', '0'], { from: 'user' });
+
+			expect(getHistory).not.toHaveBeenCalled();
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: 'Invalid limit: 0. Must be a positive integer'
+				}),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+
+	describe('output', () => {
+		it('should print each entry with who made it and what changed', async () => {
+			const command = new HistoryCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('dev · cli · set-status')
+			);
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('~ task 5: status pending → done')
+			);
+		});
+
+		it('should print the entries as JSON with --json', async () => {
+			const command = new HistoryCommand();
+
+			await command.parseAsync(['--json'], { from: 'user' });
+
+			expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual([entry]);
+		});
+
+		it('should say when a task has no recorded changes', async () => {
+			getHistory.mockResolvedValue([]);
+			const command = new HistoryCommand();
+
+			await command.parseAsync(['7'], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('No recorded changes for task 7')
+			);
+		});
+	});
+});
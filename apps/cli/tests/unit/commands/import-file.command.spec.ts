@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Unit tests for ImportFileCommand
+ */
+
+import path from 'node:path';
+import { createTmCore } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	createTmCore: vi.fn()
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+vi.mock('../../../src/ui/index.js', () => ({
+	getStatusWithColor: vi.fn((status: string) => status),
+	truncate: vi.fn((text: string) => text)
+}));
+
+import { ImportFileCommand } from '../../../src/commands/import-file.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+const importResult = (overrides: Record<string, unknown> = {}) => ({
+	format: 'csv',
+	tag: 'master',
+	tasks: [
+		{
+			id: '8',
+			title: 'Export invoices',
+			status: 'pending',
+			subtasks: [{ id: 1 }]
+		}
+	],
+	duplicates: [],
+	dryRun: false,
+	warnings: [],
+	...overrides
+});
+
+describe('ImportFileCommand', () => {
+	let consoleLogSpy: any;
+	let processExitSpy: any;
+	let importFile: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		processExitSpy = vi
+			.spyOn(process, 'exit')
+			.mockImplementation((() => {}) as any);
+
+		importFile = vi.fn().mockResolvedValue(importResult());
+		vi.mocked(createTmCore).mockResolvedValue({
+			tasks: { importFile }
+		} as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	const output = () =>
+		consoleLogSpy.mock.calls.map((call: unknown[]) => call[0]).join('\n');
+
+	describe('option parsing', () => {
+		it('should import the resolved file path and detect the format', async () => {
+			const command = new ImportFileCommand();
+
+			await command.parseAsync(['backlog.csv'], { from: 'user' });
+
+			expect(createTmCore).toHaveBeenCalledWith({
+				projectPath: '/test/project'
+			});
+			expect(importFile).toHaveBeenCalledWith({
+				path: path.resolve('backlog.csv'),
+				format: undefined,
+				tag: undefined,
+				fieldMapping: undefined,
+				dryRun: undefined
+			});
+		});
+
+		it('should pass --format, --tag and --dry-run', async () => {
+			const command = new ImportFileCommand();
+
+			await command.parseAsync(
+				['jira.csv', '--format', 'jira-csv', '--tag', 'jira', '--dry-run'],
+				{ from: 'user' }
+			);
+
+			expect(importFile).toHaveBeenCalledWith(
+				expect.objectContaining({
+					format: 'jira-csv',
+					tag: 'jira',
+					dryRun: true
+				})
+			);
+		});
+
+		it('should turn --map pairs into a field mapping', async () => {
+			const command = new ImportFileCommand();
+
+			await command.parseAsync(
+				['sheet.csv', '--map', 'title=Name', 'priority=Severity Level'],
+				{ from: 'user' }
+			);
+
+			expect(importFile).toHaveBeenCalledWith(
+				expect.objectContaining({
+					fieldMapping: { title: 'Name', priority: 'Severity Level' }
+				})
+			);
+		});
+
+		it('should reject a --map value without a field and column', async () => {
+			const command = new ImportFileCommand();
+
+			await command.parseAsync(['sheet.csv', '--map', 'title='], {
+				from: 'user'
+			});
+
+			expect(importFile).not.toHaveBeenCalled();
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message:
+						'Invalid --map value: title=. Use field=column, e.g. title=Summary'
+				}),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+
+	describe('output', () => {
+		it('should print the task and subtask counts it added', async () => {
+			const command = new ImportFileCommand();
+
+			await command.parseAsync(['backlog.csv'], { from: 'user' });
+
+			expect(output()).toContain(
+				'Added 1 task(s) and 1 subtask(s) from backlog.csv (csv) to tag "master"'
+			);
+		});
+
+		it('should list the tasks it would add with --dry-run', async () => {
+			importFile.mockResolvedValue(importResult({ dryRun: true }));
+			const command = new ImportFileCommand();
+
+			await command.parseAsync(['backlog.csv', '--dry-run'], { from: 'user' });
+
+			expect(output()).toContain('Would add 1 task(s) and 1 subtask(s)');
+			expect(output()).toContain('Export invoices (1 subtasks)');
+		});
+
+		it('should print the duplicates it skipped and the warnings', async () => {
+			importFile.mockResolvedValue(
+				importResult({
+					duplicates: [{ title: 'Set up CI', matchedId: '2' }],
+					warnings: ['Row 4 has no title and was skipped']
+				})
+			);
+			const command = new ImportFileCommand();
+
+			await command.parseAsync(['backlog.csv'], { from: 'user' });
+
+			expect(output()).toContain(
+				'Skipped 1 with a title already taken: Set up CI (= 2)'
+			);
+			expect(output()).toContain('Row 4 has no title and was skipped');
+		});
+
+		it('should print the import result as JSON with --json', async () => {
+			const command = new ImportFileCommand();
+
+			await command.parseAsync(['backlog.csv', '--json'], { from: 'user' });
+
+			expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual(
+				importResult()
+			);
+		});
+
+		it('should report tm-core errors and exit with code 1', async () => {
+			importFile.mockRejectedValue(
+				new Error('Cannot detect the format of notes.txt')
+			);
+			const command = new ImportFileCommand();
+
+			await command.parseAsync(['notes.txt'], { from: 'user' });
+
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: 'Cannot detect the format of notes.txt'
+				}),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+});
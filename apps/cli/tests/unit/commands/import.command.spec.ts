@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Unit tests for ImportCommand
+ */
+
+import { createTmCore } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	createTmCore: vi.fn()
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+vi.mock('../../../src/ui/index.js', () => ({
+	getStatusWithColor: vi.fn((status: string) => status),
+	truncate: vi.fn((text: string) => text)
+}));
+
+import { ImportCommand } from '../../../src/commands/import.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+const importResult = (overrides: Record<string, unknown> = {}) => ({
+	briefId: 'brief-123',
+	briefName: 'Checkout revamp',
+	tag: 'checkout',
+	tasks: [
+		{
+			id: '1',
+			title: 'Cart page',
+			status: 'pending',
+			subtasks: [{ id: 1 }, { id: 2 }]
+		},
+		{ id: '2', title: 'Payment step', status: 'in-progress', subtasks: [] }
+	],
+	idMap: { 'HAM-7': '1', 'HAM-9': '2' },
+	replacedCount: 0,
+	dryRun: false,
+	warnings: [],
+	...overrides
+});
+
+describe('ImportCommand', () => {
+	let consoleLogSpy: any;
+	let processExitSpy: any;
+	let importBrief: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		processExitSpy = vi
+			.spyOn(process, 'exit')
+			.mockImplementation((() => {}) as any);
+
+		importBrief = vi.fn().mockResolvedValue(importResult());
+		vi.mocked(createTmCore).mockResolvedValue({
+			integration: { importBrief }
+		} as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	describe('option parsing', () => {
+		it('should import the selected brief into the active tag by default', async () => {
+			const command = new ImportCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(createTmCore).toHaveBeenCalledWith({
+				projectPath: '/test/project'
+			});
+			expect(importBrief).toHaveBeenCalledWith({
+				brief: undefined,
+				tag: undefined,
+				replace: undefined,
+				dryRun: undefined
+			});
+		});
+
+		it('should pass the brief, --tag, --replace and --dry-run', async () => {
+			const command = new ImportCommand();
+
+			await command.parseAsync(
+				['brief-123', '--tag', 'checkout', '--replace', '--dry-run'],
+				{ from: 'user' }
+			);
+
+			expect(importBrief).toHaveBeenCalledWith({
+				brief: 'brief-123',
+				tag: 'checkout',
+				replace: true,
+				dryRun: true
+			});
+		});
+
+		it('should load the project given with --project', async () => {
+			const command = new ImportCommand();
+
+			await command.parseAsync(['--project', '/other/project'], {
+				from: 'user'
+			});
+
+			expect(createTmCore).toHaveBeenCalledWith({
+				projectPath: '/other/project'
+			});
+		});
+	});
+
+	describe('output', () => {
+		it('should print the task and subtask counts it imported', async () => {
+			const command = new ImportCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining(
+					'Imported 2 task(s) and 2 subtask(s) from Checkout revamp into tag "checkout"'
+				)
+			);
+		});
+
+		it('should print the local and remote IDs with --dry-run', async () => {
+			importBrief.mockResolvedValue(
+				importResult({ dryRun: true, replacedCount: 3 })
+			);
+			const command = new ImportCommand();
+
+			await command.parseAsync(['--dry-run', '--replace'], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('replacing 3 task(s)')
+			);
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('← HAM-9')
+			);
+		});
+
+		it('should print the warnings of the import', async () => {
+			importBrief.mockResolvedValue(
+				importResult({
+					warnings: ['Task HAM-9 depends on HAM-4, which is not in the brief']
+				})
+			);
+			const command = new ImportCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('HAM-4, which is not in the brief')
+			);
+		});
+
+		it('should print the import result as JSON with --json', async () => {
+			const command = new ImportCommand();
+
+			await command.parseAsync(['--json'], { from: 'user' });
+
+			const output = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+			expect(output).toEqual(importResult());
+		});
+
+		it('should report tm-core errors and exit with code 1', async () => {
+			importBrief.mockRejectedValue(
+				new Error('Tag "checkout" already has tasks')
+			);
+			const command = new ImportCommand();
+
+			await command.parseAsync(['--tag', 'checkout'], { from: 'user' });
+
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: 'Tag "checkout" already has tasks'
+				}),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+});
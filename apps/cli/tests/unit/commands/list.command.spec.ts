@@ -56,6 +56,7 @@ vi.mock('../../../src/utils/ui.js', () => ({
 }));
 
 import { ListTasksCommand } from '../../../src/commands/list.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
 
 describe('ListTasksCommand', () => {
 	let consoleLogSpy: any;
@@ -165,6 +166,69 @@ describe('ListTasksCommand', () => {
 		});
 	});
 
+	describe('--query option', () => {
+		it('should pass --query to tm-core as a query filter', async () => {
+			const command = new ListTasksCommand();
+			(command as any).tmCore = mockTmCore;
+
+			await command.parseAsync(
+				['--query', 'status:pending priority>=high', '--json'],
+				{ from: 'user' }
+			);
+
+			expect(mockTmCore.tasks!.list).toHaveBeenCalledWith(
+				expect.objectContaining({
+					filter: { query: 'status:pending priority>=high' }
+				})
+			);
+		});
+
+		it('should accept -q with a saved query name and combine it with --status', async () => {
+			const command = new ListTasksCommand();
+			(command as any).tmCore = mockTmCore;
+
+			await command.parseAsync(
+				['-q', '@urgent', '--status', 'pending,review', '--json'],
+				{ from: 'user' }
+			);
+
+			expect(mockTmCore.tasks!.list).toHaveBeenCalledWith(
+				expect.objectContaining({
+					filter: { status: ['pending', 'review'], query: '@urgent' }
+				})
+			);
+		});
+
+		it('should print the tasks matching the query', async () => {
+			const command = new ListTasksCommand();
+			(command as any).tmCore = mockTmCore;
+
+			await command.parseAsync(['--query', 'priority>=high', '--json'], {
+				from: 'user'
+			});
+
+			const parsed = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+			expect(parsed.tasks).toEqual([
+				{ id: '1', title: 'Test Task', status: 'pending' }
+			]);
+			expect(parsed.metadata).toMatchObject({ total: 1, filtered: 1 });
+		});
+
+		it('should report a query tm-core cannot parse', async () => {
+			vi.mocked(mockTmCore.tasks!.list).mockRejectedValue(
+				new Error('Unknown query field "colour"')
+			);
+			const command = new ListTasksCommand();
+			(command as any).tmCore = mockTmCore;
+
+			await command.parseAsync(['--query', 'colour:red'], { from: 'user' });
+
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({ message: 'Unknown query field "colour"' })
+			);
+		});
+	});
+
 	describe('format validation', () => {
 		it('should accept valid formats', () => {
 			const command = new ListTasksCommand();
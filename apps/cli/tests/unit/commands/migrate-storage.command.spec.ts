@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Unit tests for MigrateStorageCommand
+ */
+
+import { StorageMigrator } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	StorageMigrator: vi.fn()
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+import { MigrateStorageCommand } from '../../../src/commands/migrate-storage.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+describe('MigrateStorageCommand', () => {
+	let consoleLogSpy: any;
+	let migrate: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		migrate = vi.fn().mockResolvedValue({
+			to: 'sqlite',
+			sourcePath: '/test/project/.taskmaster/tasks/tasks.json',
+			targetPath: '/test/project/.taskmaster/tasks/tasks.db',
+			taskCount: 12,
+			tagCount: 2
+		});
+		vi.mocked(StorageMigrator).mockImplementation(function () {
+			return { migrate };
+		} as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+	});
+
+	describe('option parsing', () => {
+		it('should migrate the project to the storage given with --to', async () => {
+			const command = new MigrateStorageCommand();
+
+			await command.parseAsync(['--to', 'sqlite'], { from: 'user' });
+
+			expect(StorageMigrator).toHaveBeenCalledWith('/test/project');
+			expect(migrate).toHaveBeenCalledWith({ to: 'sqlite', force: undefined });
+		});
+
+		it('should pass --force and --project', async () => {
+			const command = new MigrateStorageCommand();
+
+			await command.parseAsync(
+				['--to', 'file', '--force', '--project', '/other/project'],
+				{ from: 'user' }
+			);
+
+			expect(StorageMigrator).toHaveBeenCalledWith('/other/project');
+			expect(migrate).toHaveBeenCalledWith({ to: 'file', force: true });
+		});
+
+		it('should reject an unknown storage type', async () => {
+			const command = new MigrateStorageCommand();
+
+			await command.parseAsync(['--to', 'api'], { from: 'user' });
+
+			expect(migrate).not.toHaveBeenCalled();
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: 'Invalid storage: api. Valid values are: sqlite, file'
+				})
+			);
+		});
+	});
+
+	describe('output', () => {
+		it('should print what was migrated and how to switch to it', async () => {
+			const command = new MigrateStorageCommand();
+
+			await command.parseAsync(['--to', 'sqlite'], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining(
+					'Migrated .taskmaster/tasks/tasks.json to .taskmaster/tasks/tasks.db'
+				)
+			);
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('12 task(s) in 2 tag(s)')
+			);
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('"storage": { "type": "sqlite" }')
+			);
+		});
+
+		it('should warn that the tasks.json commands stop working under SQLite', async () => {
+			const command = new MigrateStorageCommand();
+
+			await command.parseAsync(['--to', 'sqlite'], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining(
+					'stop with an error while storage.type is sqlite'
+				)
+			);
+		});
+	});
+});
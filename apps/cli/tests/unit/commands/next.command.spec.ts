@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Unit tests for NextCommand
+ */
+
+import { createTmCore } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	createTmCore: vi.fn()
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+vi.mock('../../../src/utils/display-helpers.js', () => ({
+	displayCommandHeader: vi.fn()
+}));
+
+vi.mock('../../../src/ui/components/task-detail.component.js', () => ({
+	displayTaskDetails: vi.fn()
+}));
+
+import { NextCommand } from '../../../src/commands/next.command.js';
+import { displayTaskDetails } from '../../../src/ui/components/task-detail.component.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+const nextTask = {
+	id: '3',
+	title: 'Add login',
+	status: 'pending',
+	priority: 'high',
+	dependencies: [],
+	subtasks: []
+};
+
+describe('NextCommand', () => {
+	let consoleLogSpy: any;
+	let processExitSpy: any;
+	let getNext: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		processExitSpy = vi
+			.spyOn(process, 'exit')
+			.mockImplementation((() => {}) as any);
+
+		getNext = vi.fn().mockResolvedValue(nextTask);
+		vi.mocked(createTmCore).mockResolvedValue({
+			tasks: { getNext, getStorageType: vi.fn().mockReturnValue('file') },
+			config: { getActiveTag: vi.fn().mockReturnValue('master') }
+		} as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	describe('--query option', () => {
+		it('should only consider tasks matching --query', async () => {
+			const command = new NextCommand();
+
+			await command.parseAsync(['--query', 'priority>=high'], {
+				from: 'user'
+			});
+
+			expect(getNext).toHaveBeenCalledWith(undefined, {
+				query: 'priority>=high'
+			});
+		});
+
+		it('should accept -q with a saved query name and --tag', async () => {
+			const command = new NextCommand();
+
+			await command.parseAsync(['-q', '@urgent', '--tag', 'feature'], {
+				from: 'user'
+			});
+
+			expect(getNext).toHaveBeenCalledWith('feature', { query: '@urgent' });
+		});
+
+		it('should leave the query unset without --query', async () => {
+			const command = new NextCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(getNext).toHaveBeenCalledWith(undefined, { query: undefined });
+		});
+	});
+
+	describe('output', () => {
+		it('should print the matching task as JSON', async () => {
+			const command = new NextCommand();
+
+			await command.parseAsync(['-q', 'priority>=high', '--format', 'json'], {
+				from: 'user'
+			});
+
+			const output = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+			expect(output).toEqual({
+				task: nextTask,
+				found: true,
+				tag: 'master',
+				storageType: 'file'
+			});
+		});
+
+		it('should show the details of the matching task', async () => {
+			const command = new NextCommand();
+
+			await command.parseAsync(['-q', 'priority>=high'], { from: 'user' });
+
+			expect(displayTaskDetails).toHaveBeenCalledWith(
+				nextTask,
+				expect.anything()
+			);
+		});
+
+		it('should say so when no task matches the query', async () => {
+			getNext.mockResolvedValue(null);
+			const command = new NextCommand();
+
+			await command.parseAsync(['-q', 'priority>=critical'], {
+				from: 'user'
+			});
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('No tasks available to work on')
+			);
+		});
+
+		it('should report a query tm-core cannot parse and exit with code 1', async () => {
+			getNext.mockRejectedValue(new Error('Unknown query field "colour"'));
+			const command = new NextCommand();
+
+			await command.parseAsync(['-q', 'colour:red'], { from: 'user' });
+
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({ message: 'Unknown query field "colour"' }),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+});
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Unit tests for SearchCommand
+ */
+
+import { createTmCore } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	createTmCore: vi.fn()
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+vi.mock('../../../src/ui/index.js', () => ({
+	getStatusWithColor: vi.fn((status: string) => status),
+	truncate: vi.fn((text: string) => text)
+}));
+
+import { SearchCommand } from '../../../src/commands/search.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+const result = {
+	task: { id: '4', title: 'Add login form', status: 'pending' },
+	score: 0.87,
+	matches: [
+		{ field: 'title', score: 0.87 },
+		{ field: 'subtask', subtaskId: 2, score: 0.6 }
+	]
+};
+
+describe('SearchCommand', () => {
+	let consoleLogSpy: any;
+	let processExitSpy: any;
+	let search: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		processExitSpy = vi
+			.spyOn(process, 'exit')
+			.mockImplementation((() => {}) as any);
+
+		search = vi.fn().mockResolvedValue([result]);
+		vi.mocked(createTmCore).mockResolvedValue({ tasks: { search } } as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	describe('option parsing', () => {
+		it('should join the words into one search text with the defaults', async () => {
+			const command = new SearchCommand();
+
+			await command.parseAsync(['auth', 'login'], { from: 'user' });
+
+			expect(createTmCore).toHaveBeenCalledWith({
+				projectPath: '/test/project'
+			});
+			expect(search).toHaveBeenCalledWith('auth login', {
+				tag: undefined,
+				limit: 20,
+				minScore: 0.3,
+				semantic: undefined
+			});
+		});
+
+		it('should pass --tag, --limit, --min-score and --semantic', async () => {
+			const command = new SearchCommand();
+
+			await command.parseAsync(
+				[
+					'rate limiting',
+					'--tag',
+					'feature',
+					'-n',
+					'5',
+					'--min-score',
+					'0.5',
+					'--semantic'
+				],
+				{ from: 'user' }
+			);
+
+			expect(search).toHaveBeenCalledWith('rate limiting', {
+				tag: 'feature',
+				limit: 5,
+				minScore: 0.5,
+				semantic: true
+			});
+		});
+
+		it('should turn semantic ranking off with --no-semantic', async () => {
+			const command = new SearchCommand();
+
+			await command.parseAsync(['login', '--no-semantic'], { from: 'user' });
+
+			expect(search).toHaveBeenCalledWith(
+				'login',
+				expect.objectContaining({ semantic: false })
+			);
+		});
+
+		it('should reject a limit that is not a positive integer', async () => {
+			const command = new SearchCommand();
+
+			await command.parseAsync(['login', '--limit', '0'], { from: 'user' });
+
+			expect(search).not.toHaveBeenCalled();
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: 'Invalid limit: 0. Must be a positive integer'
+				}),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+
+		it('should reject a minimum score outside 0-1', async () => {
+			const command = new SearchCommand();
+
+			await command.parseAsync(['login', '--min-score', '2'], {
+				from: 'user'
+			});
+
+			expect(search).not.toHaveBeenCalled();
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: 'Invalid minimum score: 2. Must be between 0 and 1'
+				}),
+				{ skipExit: true }
+			);
+		});
+	});
+
+	describe('output', () => {
+		it('should print each result with its score and where it matched', async () => {
+			const command = new SearchCommand();
+
+			await command.parseAsync(['login'], { from: 'user' });
+
+			const line = consoleLogSpy.mock.calls[0][0];
+			expect(line).toContain('0.87');
+			expect(line).toContain('Add login form');
+			expect(line).toContain('title, subtask 4.2');
+		});
+
+		it('should print the scored results as JSON with --json', async () => {
+			const command = new SearchCommand();
+
+			await command.parseAsync(['login', '--json'], { from: 'user' });
+
+			const output = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+			expect(output).toEqual([result]);
+		});
+
+		it('should say so when nothing matches', async () => {
+			search.mockResolvedValue([]);
+			const command = new SearchCommand();
+
+			await command.parseAsync(['kubernetes'], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('No tasks match "kubernetes"')
+			);
+		});
+
+		it('should report tm-core errors and exit with code 1', async () => {
+			search.mockRejectedValue(
+				new Error('Semantic search needs search.embeddings in config.json')
+			);
+			const command = new SearchCommand();
+
+			await command.parseAsync(['login', '--semantic'], { from: 'user' });
+
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: 'Semantic search needs search.embeddings in config.json'
+				}),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+});
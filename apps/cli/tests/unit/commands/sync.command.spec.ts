@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Unit tests for SyncCommand
+ */
+
+import { createTmCore } from '@tm/core';
+import inquirer from 'inquirer';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	createTmCore: vi.fn()
+}));
+
+vi.mock('inquirer', () => ({
+	default: { prompt: vi.fn() }
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+vi.mock('../../../src/ui/index.js', () => ({
+	truncate: vi.fn((text: string) => text)
+}));
+
+import { SyncCommand } from '../../../src/commands/sync.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+const conflict = {
+	taskId: '2',
+	remoteId: 'HAM-9',
+	field: 'title',
+	local: 'Payment step',
+	remote: 'Payment and receipt step'
+};
+
+const syncResult = (overrides: Record<string, unknown> = {}) => ({
+	briefId: 'brief-123',
+	briefName: 'Checkout revamp',
+	tag: 'checkout',
+	dryRun: false,
+	pulled: [{ taskId: '1', remoteId: 'HAM-7', field: 'status', value: 'done' }],
+	pushed: [],
+	created: [],
+	conflicts: [],
+	localOnly: [],
+	warnings: [],
+	...overrides
+});
+
+describe('SyncCommand', () => {
+	let consoleLogSpy: any;
+	let processExitSpy: any;
+	let syncBrief: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		processExitSpy = vi
+			.spyOn(process, 'exit')
+			.mockImplementation((() => {}) as any);
+
+		syncBrief = vi.fn().mockResolvedValue(syncResult());
+		vi.mocked(createTmCore).mockResolvedValue({
+			integration: { syncBrief }
+		} as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	const output = () =>
+		consoleLogSpy.mock.calls.map((call: unknown[]) => call[0]).join('\n');
+
+	describe('option parsing', () => {
+		it('should sync the active tag without resolutions by default', async () => {
+			const command = new SyncCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(createTmCore).toHaveBeenCalledWith({
+				projectPath: '/test/project'
+			});
+			expect(syncBrief).toHaveBeenCalledWith({
+				brief: undefined,
+				tag: undefined,
+				dryRun: undefined,
+				resolutions: undefined
+			});
+		});
+
+		it('should pass the brief, --tag and --dry-run', async () => {
+			const command = new SyncCommand();
+
+			await command.parseAsync(
+				['brief-123', '--tag', 'checkout', '--dry-run'],
+				{ from: 'user' }
+			);
+
+			expect(syncBrief).toHaveBeenCalledWith({
+				brief: 'brief-123',
+				tag: 'checkout',
+				dryRun: true,
+				resolutions: undefined
+			});
+		});
+
+		it('should resolve every conflict to the side given to --resolve', async () => {
+			const command = new SyncCommand();
+
+			await command.parseAsync(['--resolve', 'remote'], { from: 'user' });
+
+			expect(syncBrief).toHaveBeenCalledTimes(1);
+			expect(syncBrief).toHaveBeenCalledWith(
+				expect.objectContaining({ resolutions: [{ use: 'remote' }] })
+			);
+		});
+
+		it('should prompt for each conflict when --resolve has no side', async () => {
+			syncBrief.mockResolvedValueOnce(
+				syncResult({ dryRun: true, conflicts: [conflict] })
+			);
+			vi.mocked(inquirer.prompt).mockResolvedValue({ use: 'local' });
+			const command = new SyncCommand();
+
+			await command.parseAsync(['--resolve'], { from: 'user' });
+
+			expect(syncBrief).toHaveBeenNthCalledWith(1, {
+				brief: undefined,
+				tag: undefined,
+				dryRun: true
+			});
+			expect(syncBrief).toHaveBeenNthCalledWith(
+				2,
+				expect.objectContaining({
+					resolutions: [{ taskId: '2', field: 'title', use: 'local' }]
+				})
+			);
+		});
+
+		it('should leave skipped conflicts unresolved', async () => {
+			syncBrief.mockResolvedValueOnce(
+				syncResult({ dryRun: true, conflicts: [conflict] })
+			);
+			vi.mocked(inquirer.prompt).mockResolvedValue({ use: 'skip' });
+			const command = new SyncCommand();
+
+			await command.parseAsync(['--resolve'], { from: 'user' });
+
+			expect(syncBrief).toHaveBeenLastCalledWith(
+				expect.objectContaining({ resolutions: [] })
+			);
+		});
+
+		it('should reject a --resolve side other than local or remote', async () => {
+			const command = new SyncCommand();
+
+			await command.parseAsync(['--resolve', 'mine'], { from: 'user' });
+
+			expect(syncBrief).not.toHaveBeenCalled();
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					message: 'Invalid --resolve value: mine. Use "local" or "remote".'
+				}),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+
+	describe('output', () => {
+		it('should print the changes pulled from the brief', async () => {
+			const command = new SyncCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(output()).toContain('Synced tag "checkout" with Checkout revamp');
+			expect(output()).toContain('1 change(s) from the brief');
+			expect(output()).toContain('status: done');
+		});
+
+		it('should print the conflicts and how to resolve them', async () => {
+			syncBrief.mockResolvedValue(
+				syncResult({ pulled: [], conflicts: [conflict], localOnly: ['5'] })
+			);
+			const command = new SyncCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(output()).toContain('No changes');
+			expect(output()).toContain('1 conflict(s), changed on both sides');
+			expect(output()).toContain('Hamster: Payment and receipt step');
+			expect(output()).toContain('tm sync --resolve [local|remote]');
+			expect(output()).toContain('1 local task(s) not in the brief: 5');
+		});
+
+		it('should print the sync result as JSON with --json', async () => {
+			const command = new SyncCommand();
+
+			await command.parseAsync(['--json'], { from: 'user' });
+
+			expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual(syncResult());
+		});
+
+		it('should report tm-core errors and exit with code 1', async () => {
+			syncBrief.mockRejectedValue(new Error('No brief selected'));
+			const command = new SyncCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({ message: 'No brief selected' }),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+});
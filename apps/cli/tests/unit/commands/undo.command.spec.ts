@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Unit tests for UndoCommand
+ */
+
+import { createTmCore } from '@tm/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock dependencies
+vi.mock('@tm/core', () => ({
+	createTmCore: vi.fn()
+}));
+
+vi.mock('../../../src/utils/project-root.js', () => ({
+	getProjectRoot: vi.fn((path?: string) => path || '/test/project')
+}));
+
+vi.mock('../../../src/utils/error-handler.js', () => ({
+	displayError: vi.fn()
+}));
+
+import { UndoCommand } from '../../../src/commands/undo.command.js';
+import { displayError } from '../../../src/utils/error-handler.js';
+
+describe('UndoCommand', () => {
+	let consoleLogSpy: any;
+	let processExitSpy: any;
+	let undo: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		processExitSpy = vi
+			.spyOn(process, 'exit')
+			.mockImplementation((() => {}) as any);
+
+		undo = vi.fn().mockResolvedValue({
+			undone: [
+				{
+					id: 'a1b2c3d4',
+					operation: 'deleteTask',
+					changes: [{ taskId: '5' }, { taskId: '6' }]
+				}
+			],
+			entry: { id: 'e5f6a7b8' }
+		});
+		vi.mocked(createTmCore).mockResolvedValue({
+			history: { undo }
+		} as any);
+	});
+
+	afterEach(() => {
+		consoleLogSpy.mockRestore();
+		processExitSpy.mockRestore();
+	});
+
+	describe('option parsing', () => {
+		it('should undo the latest change of the active tag by default', async () => {
+			const command = new UndoCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(createTmCore).toHaveBeenCalledWith({
+				projectPath: '/test/project',
+				changeContext: { source: 'cli', command: 'undo' }
+			});
+			expect(undo).toHaveBeenCalledWith(
+				{ count: 1, force: undefined },
+				undefined
+			);
+		});
+
+		it('should pass the count, --force and --tag', async () => {
+			const command = new UndoCommand();
+
+			await command.parseAsync(['3', '--force', '-t', 'feature'], {
+				from: 'user'
+			});
+
+			expect(undo).toHaveBeenCalledWith({ count: 3, force: true }, 'feature');
+		});
+	});
+
+	describe('output', () => {
+		it('should print the undone changes and their tasks', async () => {
+			const command = new UndoCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('Undid 1 change(s)')
+			);
+			expect(consoleLogSpy).toHaveBeenCalledWith(
+				expect.stringContaining('a1b2c3d4  deleteTask  task(s) 5, 6')
+			);
+		});
+
+		it('should report tm-core errors and exit with code 1', async () => {
+			undo.mockRejectedValue(new Error('Nothing to undo in tag "master"'));
+			const command = new UndoCommand();
+
+			await command.parseAsync([], { from: 'user' });
+
+			expect(displayError).toHaveBeenCalledWith(
+				expect.objectContaining({ message: 'Nothing to undo in tag "master"' }),
+				{ skipExit: true }
+			);
+			expect(processExitSpy).toHaveBeenCalledWith(1);
+		});
+	});
+});
@@ -25,10 +25,12 @@ export class TaskRepository extends EventEmitter {
 	async getAll(options?: {
 		tag?: string;
 		withSubtasks?: boolean;
+		query?: string;
 	}): Promise<Task[]> {
-		// If a tag is specified, always fetch fresh data
+		// If a tag or query is specified, always fetch fresh data
 		const shouldUseCache =
 			!options?.tag &&
+			!options?.query &&
 			this.cache &&
 			Date.now() - this.cacheTimestamp < this.CACHE_DURATION;
 
@@ -39,13 +41,17 @@ export class TaskRepository extends EventEmitter {
 		try {
 			const result = await this.api.getTasks({
 				withSubtasks: options?.withSubtasks ?? true,
-				tag: options?.tag
+				tag: options?.tag,
+				query: options?.query
 			});
 
 			if (result.success && result.data) {
-				this.cache = result.data;
-				this.cacheTimestamp = Date.now();
-				this.emit('tasks:updated', result.data);
+				// Query results are partial, so they never replace the cache
+				if (!options?.query) {
+					this.cache = result.data;
+					this.cacheTimestamp = Date.now();
+					this.emit('tasks:updated', result.data);
+				}
 				return result.data;
 			}
 
@@ -141,7 +141,8 @@ export class WebviewManager {
 					// Pass options to getAll including tag if specified
 					response = await this.repository.getAll({
 						tag: data?.tag,
-						withSubtasks: data?.withSubtasks ?? true
+						withSubtasks: data?.withSubtasks ?? true,
+						query: data?.query
 					});
 					break;
 
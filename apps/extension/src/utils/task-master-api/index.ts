@@ -136,12 +136,22 @@ export class TaskMasterApi {
 			if (options?.tag) {
 				mcpArgs.tag = options.tag;
 			}
+			if (options?.query) {
+				mcpArgs.query = options.query;
+			}
 
 			this.logger.log('Calling get_tasks with args:', mcpArgs);
 
 			// Call MCP tool
 			const mcpResponse = await this.mcpWrapper.callTool('get_tasks', mcpArgs);
 
+			// Tool errors, such as an invalid query, come back as plain text
+			if (mcpResponse?.isError) {
+				throw new Error(
+					mcpResponse.content?.[0]?.text || 'Failed to get tasks'
+				);
+			}
+
 			// Transform response
 			const transformedTasks =
 				this.transformer.transformMCPTasksResponse(mcpResponse);
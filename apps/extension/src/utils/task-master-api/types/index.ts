@@ -116,6 +116,7 @@ export interface CacheAnalytics {
 // Method Options
 export interface GetTasksOptions {
 	status?: string;
+	query?: string;
 	withSubtasks?: boolean;
 	tag?: string;
 	projectRoot?: string;
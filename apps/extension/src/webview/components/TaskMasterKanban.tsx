@@ -16,6 +16,7 @@ import { TaskCard } from './TaskCard';
 import { TaskEditModal } from './TaskEditModal';
 import { PollingStatus } from './PollingStatus';
 import { TagDropdown } from './TagDropdown';
+import { TaskSearchBox } from './TaskSearchBox';
 import { EmptyState } from './EmptyState';
 import { useVSCodeContext } from '../contexts/VSCodeContext';
 import {
@@ -39,6 +40,7 @@ export const TaskMasterKanban: React.FC = () => {
 	} = state;
 	const [activeTask, setActiveTask] = useState<TaskMasterTask | null>(null);
 	const [isRefreshing, setIsRefreshing] = useState(false);
+	const [query, setQuery] = useState('');
 
 	// Use React Query to fetch tasks
 	const {
@@ -47,7 +49,7 @@ export const TaskMasterKanban: React.FC = () => {
 		error,
 		isFetching,
 		isSuccess
-	} = useTasks({ tag: currentTag });
+	} = useTasks({ tag: currentTag, query: query || undefined });
 	const updateTaskStatus = useUpdateTaskStatus();
 	const updateTask = useUpdateTask();
 
@@ -218,12 +220,15 @@ export const TaskMasterKanban: React.FC = () => {
 		[sendMessage, dispatch, availableTags]
 	);
 
-	// Use React Query loading state
-	const displayError = error
+	// Query errors are shown next to the search box instead of the board
+	const errorMessage = error
 		? error instanceof Error
 			? error.message
 			: String(error)
-		: legacyError;
+		: null;
+	const queryError =
+		query && errorMessage ? errorMessage.replace(/^Error:\s*/, '') : null;
+	const displayError = queryError ? legacyError : errorMessage || legacyError;
 
 	if (isLoading) {
 		return (
@@ -262,6 +267,11 @@ export const TaskMasterKanban: React.FC = () => {
 							TaskMaster Kanban
 						</h1>
 						<div className="flex items-center gap-4">
+							<TaskSearchBox
+								query={query}
+								onQueryChange={setQuery}
+								error={queryError}
+							/>
 							<TagDropdown
 								currentTag={currentTag}
 								availableTags={availableTags}
@@ -321,7 +331,11 @@ export const TaskMasterKanban: React.FC = () => {
 					className="flex-1 px-4 py-4 overflow-hidden"
 					style={{ height: `${kanbanHeight}px` }}
 				>
-					{tasks.length === 0 ? (
+					{tasks.length === 0 && query ? (
+						<p className="text-sm text-vscode-foreground/70">
+							No tasks match "{query}".
+						</p>
+					) : tasks.length === 0 ? (
 						<EmptyState currentTag={currentTag} />
 					) : (
 						<KanbanProvider
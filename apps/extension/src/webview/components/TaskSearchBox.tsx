@@ -0,0 +1,68 @@
+/**
+ * Task Search Box Component
+ * Filters the board with a Task Master query, applied on Enter
+ */
+
+import { Search, X } from 'lucide-react';
+import React, { useState } from 'react';
+
+interface TaskSearchBoxProps {
+	query: string;
+	onQueryChange: (query: string) => void;
+	error?: string | null;
+}
+
+export const TaskSearchBox: React.FC<TaskSearchBoxProps> = ({
+	query,
+	onQueryChange,
+	error
+}) => {
+	const [value, setValue] = useState(query);
+
+	const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		if (event.key === 'Enter') {
+			onQueryChange(value.trim());
+		} else if (event.key === 'Escape') {
+			setValue('');
+			onQueryChange('');
+		}
+	};
+
+	const handleClear = () => {
+		setValue('');
+		onQueryChange('');
+	};
+
+	return (
+		<div className="relative flex flex-col">
+			<div
+				className={`flex items-center gap-1 px-2 py-1 rounded border bg-vscode-input-background ${error ? 'border-red-400' : 'border-vscode-border'}`}
+			>
+				<Search className="w-3.5 h-3.5 text-vscode-foreground/50" />
+				<input
+					type="text"
+					value={value}
+					onChange={(event) => setValue(event.target.value)}
+					onKeyDown={handleKeyDown}
+					placeholder="status:pending priority>=high dep:none"
+					className="w-64 bg-transparent text-xs text-vscode-foreground outline-none placeholder:text-vscode-foreground/40"
+					title="Filter tasks with a query, e.g. status:pending priority>=high dep:none updated<7d title~auth or @saved-name. Press Enter to apply."
+				/>
+				{(value || query) && (
+					<button
+						onClick={handleClear}
+						className="p-0.5 rounded hover:bg-vscode-button-hoverBackground"
+						title="Clear query"
+					>
+						<X className="w-3 h-3 text-vscode-foreground/70" />
+					</button>
+				)}
+			</div>
+			{error && (
+				<p className="absolute top-full mt-1 w-full text-xs text-red-400">
+					{error}
+				</p>
+			)}
+		</div>
+	);
+};
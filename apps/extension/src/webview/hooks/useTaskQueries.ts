@@ -1,4 +1,9 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+	keepPreviousData,
+	useQuery,
+	useMutation,
+	useQueryClient
+} from '@tanstack/react-query';
 import { useVSCodeContext } from '../contexts/VSCodeContext';
 import type { TaskMasterTask, TaskUpdates } from '../types';
 
@@ -6,14 +11,18 @@ import type { TaskMasterTask, TaskUpdates } from '../types';
 export const taskKeys = {
 	all: ['tasks'] as const,
 	lists: () => [...taskKeys.all, 'list'] as const,
-	list: (filters: { tag?: string; status?: string }) =>
+	list: (filters: { tag?: string; status?: string; query?: string }) =>
 		[...taskKeys.lists(), filters] as const,
 	details: () => [...taskKeys.all, 'detail'] as const,
 	detail: (id: string) => [...taskKeys.details(), id] as const
 };
 
 // Hook to fetch all tasks
-export function useTasks(options?: { tag?: string; status?: string }) {
+export function useTasks(options?: {
+	tag?: string;
+	status?: string;
+	query?: string;
+}) {
 	const { sendMessage } = useVSCodeContext();
 
 	return useQuery({
@@ -24,13 +33,16 @@ export function useTasks(options?: { tag?: string; status?: string }) {
 				type: 'getTasks',
 				data: {
 					tag: options?.tag,
+					query: options?.query,
 					withSubtasks: true
 				}
 			});
 			console.log('📋 Tasks fetched:', response);
 			return response as TaskMasterTask[];
 		},
-		staleTime: 0 // Consider data stale immediately
+		staleTime: 0, // Consider data stale immediately
+		// Keep showing the board while a new query runs
+		placeholderData: keepPreviousData
 	});
 }
 
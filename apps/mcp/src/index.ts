@@ -1,11 +1,15 @@
 /**
  * @fileoverview Main entry point for @tm/mcp package
- * Exports all MCP tool registration functions
+ * Exports all MCP tool, resource and prompt registration functions
  */
 
 export * from './tools/autopilot/index.js';
 export * from './tools/tasks/index.js';
-// TODO: Re-enable when TypeScript dependency tools are implemented
-// export * from './tools/dependencies/index.js';
+export * from './tools/dependencies/index.js';
+export * from './tools/history/index.js';
+export * from './tools/tags/index.js';
+export * from './resources/index.js';
+export * from './prompts/index.js';
 export * from './shared/utils.js';
+export * from './shared/http-auth.js';
 export * from './shared/types.js';
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Markdown rendering of tasks for MCP prompts
+ */
+
+import type { Subtask, Task } from '@tm/core';
+
+/**
+ * Render the fields of a task or subtask an agent needs to work on it
+ */
+export function formatTask(task: Task | Subtask, displayId: string): string {
+	const lines = [
+		`## Task ${displayId}: ${task.title}`,
+		'',
+		`Status: ${task.status}`
+	];
+
+	// Subtasks often have no priority of their own
+	if (task.priority) {
+		lines.push(`Priority: ${task.priority}`);
+	}
+
+	if (task.dependencies.length > 0) {
+		lines.push(`Dependencies: ${task.dependencies.join(', ')}`);
+	}
+	if (task.description) {
+		lines.push('', '### Description', '', task.description);
+	}
+	if (task.details) {
+		lines.push('', '### Implementation Details', '', task.details);
+	}
+	if (task.testStrategy) {
+		lines.push('', '### Test Strategy', '', task.testStrategy);
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * Render the subtasks of a task as a checklist
+ */
+export function formatSubtaskList(task: Task): string {
+	return task.subtasks
+		.map(
+			(subtask) =>
+				`- [${subtask.status === 'done' ? 'x' : ' '}] ${task.id}.${subtask.id} ${subtask.title} (${subtask.status})`
+		)
+		.join('\n');
+}
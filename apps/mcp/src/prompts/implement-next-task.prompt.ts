@@ -0,0 +1,62 @@
+/**
+ * @fileoverview implement-next-task MCP prompt
+ * Ask the agent to implement the next available task
+ */
+
+import type { FastMCP } from 'fastmcp';
+import type { SessionAuth } from '../shared/types.js';
+import { createServerTmCore } from '../shared/utils.js';
+import { formatSubtaskList, formatTask } from './format-task.js';
+
+/**
+ * Register the implement-next-task prompt with the MCP server
+ */
+export function registerImplementNextTaskPrompt(server: FastMCP) {
+	server.addPrompt({
+		name: 'implement-next-task',
+		description:
+			'Implement the next available task: the highest priority pending task whose dependencies are done, with its details, test strategy and subtasks.',
+		arguments: [
+			{
+				name: 'tag',
+				description: 'Tag to pick the task from (defaults to the active tag)',
+				required: false
+			}
+		],
+		async load(args, auth) {
+			// Clients may leave out the arguments when none are required
+			const tag = args?.tag;
+			const tmCore = await createServerTmCore(server, auth as SessionAuth);
+			const task = await tmCore.tasks.getNext(tag);
+			const tagName = tag || tmCore.config.getActiveTag();
+
+			if (!task) {
+				return `There is no task ready to work on in tag "${tagName}": all tasks are done or waiting on dependencies. Use get_tasks to review the remaining tasks.`;
+			}
+
+			const sections = [
+				`Implement the next Task Master task from tag "${tagName}".`,
+				'',
+				formatTask(task, String(task.id))
+			];
+
+			if (task.subtasks.length > 0) {
+				sections.push(
+					'',
+					'### Subtasks',
+					'',
+					formatSubtaskList(task),
+					'',
+					'Work through the open subtasks in order. Log what you learn on each one with update_subtask and mark it done with set_task_status before moving on.'
+				);
+			}
+
+			sections.push(
+				'',
+				`Before starting, set task ${task.id} to in-progress with set_task_status. Follow the test strategy to verify your work, then set the task to done.`
+			);
+
+			return sections.join('\n');
+		}
+	});
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Prompts index
+ * Exports all MCP prompt registration functions
+ */
+
+export { registerImplementNextTaskPrompt } from './implement-next-task.prompt.js';
+export { registerReviewSubtaskPrompt } from './review-subtask.prompt.js';
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview review-subtask MCP prompt
+ * Ask the agent to review the implementation of a subtask
+ */
+
+import type { FastMCP } from 'fastmcp';
+import type { SessionAuth } from '../shared/types.js';
+import { createServerTmCore } from '../shared/utils.js';
+import { formatTask } from './format-task.js';
+
+/**
+ * Register the review-subtask prompt with the MCP server
+ */
+export function registerReviewSubtaskPrompt(server: FastMCP) {
+	server.addPrompt({
+		name: 'review-subtask',
+		description:
+			'Review the implementation of a subtask against its details and test strategy, in the context of its parent task.',
+		arguments: [
+			{
+				name: 'id',
+				description: 'Subtask ID in parent.subtask form (e.g. "5.2")',
+				required: true,
+				async complete(value: string, auth) {
+					const tmCore = await createServerTmCore(server, auth as SessionAuth);
+					const { tasks } = await tmCore.tasks.list({ includeSubtasks: true });
+					const ids = tasks.flatMap((task) =>
+						(task.subtasks ?? []).map((subtask) => `${task.id}.${subtask.id}`)
+					);
+					return { values: ids.filter((id) => id.startsWith(value)) };
+				}
+			},
+			{
+				name: 'tag',
+				description: 'Tag the subtask belongs to (defaults to the active tag)',
+				required: false
+			}
+		],
+		async load({ id, tag }, auth) {
+			const [parentId, subtaskId] = String(id ?? '').split('.');
+			if (!subtaskId) {
+				throw new Error(
+					`Invalid subtask ID "${id}". Use the parent.subtask form, e.g. "5.2".`
+				);
+			}
+
+			const tmCore = await createServerTmCore(server, auth as SessionAuth);
+			const { task: parent } = await tmCore.tasks.get(parentId, tag);
+			const subtask = parent?.subtasks?.find(
+				(candidate) => String(candidate.id) === subtaskId
+			);
+			if (!parent || !subtask) {
+				throw new Error(`Subtask ${id} not found`);
+			}
+			const displayId = `${parent.id}.${subtask.id}`;
+
+			return [
+				`Review the implementation of subtask ${displayId}.`,
+				'',
+				formatTask(subtask, displayId),
+				'',
+				'## Parent Task',
+				'',
+				`${parent.id}: ${parent.title}`,
+				'',
+				parent.description,
+				'',
+				'## Review Checklist',
+				'',
+				'- Does the code do everything the implementation details ask for, and nothing unrelated?',
+				'- Is it covered by tests that follow the test strategy, and do they pass?',
+				'- Does it fit the parent task, and does it leave the remaining subtasks unblocked?',
+				'',
+				`Report the issues you find. Record the outcome on the subtask with update_subtask, and set it back to in-progress with set_task_status if changes are needed.`
+			].join('\n');
+		}
+	});
+}
@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Autopilot state MCP resource
+ * Expose the autopilot workflow sessions of the project as a readable resource
+ */
+
+import { WorkflowService } from '@tm/core';
+import type { FastMCP } from 'fastmcp';
+import type { SessionAuth } from '../shared/types.js';
+import { createServerTmCore, getServerProjectRoot } from '../shared/utils.js';
+
+export const AUTOPILOT_STATE_RESOURCE_URI = 'taskmaster://autopilot/state';
+
+/**
+ * Register the taskmaster://autopilot/state resource with the MCP server
+ */
+export function registerAutopilotStateResource(server: FastMCP) {
+	server.addResource({
+		uri: AUTOPILOT_STATE_RESOURCE_URI,
+		name: 'Autopilot State',
+		description:
+			'Status of the autopilot TDD workflow: the current phase, subtask and progress of the main checkout, and every session running in the project and its worktrees.',
+		mimeType: 'application/json',
+		async load(auth) {
+			const session = auth as SessionAuth;
+			const tmCore = await createServerTmCore(server, session);
+			const workflowService = new WorkflowService(
+				getServerProjectRoot(server, session)
+			);
+			const active = await workflowService.hasWorkflow();
+
+			let status;
+			if (active) {
+				await workflowService.resumeWorkflow();
+				status = workflowService.getStatus();
+			}
+
+			const sessions = await tmCore.workflow.listActive();
+
+			return {
+				text: JSON.stringify({ active, status, sessions }, null, 2)
+			};
+		}
+	});
+}
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Complexity report MCP resource
+ * Expose the complexity analysis of the active tag as a readable resource
+ */
+
+import { ComplexityReportManager } from '@tm/core';
+import type { FastMCP } from 'fastmcp';
+import type { SessionAuth } from '../shared/types.js';
+import { createServerTmCore, getServerProjectRoot } from '../shared/utils.js';
+
+export const COMPLEXITY_REPORT_RESOURCE_URI = 'taskmaster://complexity-report';
+
+/**
+ * Register the taskmaster://complexity-report resource with the MCP server
+ */
+export function registerComplexityReportResource(server: FastMCP) {
+	server.addResource({
+		uri: COMPLEXITY_REPORT_RESOURCE_URI,
+		name: 'Complexity Report',
+		description:
+			'The task complexity analysis of the active tag, with a complexity score and recommended subtask count per task.',
+		mimeType: 'application/json',
+		async load(auth) {
+			const session = auth as SessionAuth;
+			const tmCore = await createServerTmCore(server, session);
+			const tag = tmCore.config.getActiveTag();
+			const report = await new ComplexityReportManager(
+				getServerProjectRoot(server, session)
+			).loadReport(tag);
+
+			if (!report) {
+				throw new Error(
+					`No complexity report found for tag ${tag}. Run analyze_project_complexity first.`
+				);
+			}
+
+			return { text: JSON.stringify({ tag, report }, null, 2) };
+		}
+	});
+}
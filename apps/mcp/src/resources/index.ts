@@ -0,0 +1,21 @@
+/**
+ * @fileoverview Resources index
+ * Exports all MCP resource registration functions and change notifications
+ */
+
+export {
+	registerTasksResources,
+	TASKS_RESOURCE_PREFIX
+} from './tasks.resource.js';
+export {
+	registerComplexityReportResource,
+	COMPLEXITY_REPORT_RESOURCE_URI
+} from './complexity-report.resource.js';
+export {
+	registerAutopilotStateResource,
+	AUTOPILOT_STATE_RESOURCE_URI
+} from './autopilot-state.resource.js';
+export {
+	ResourceWatcher,
+	type ResourceWatcherOptions
+} from './resource-watcher.js';
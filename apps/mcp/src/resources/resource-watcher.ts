@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Resource change notifications
+ * Watches the files behind the Task Master resources and sends
+ * notifications/resources/updated to sessions subscribed to them
+ */
+
+import fs, { type FSWatcher } from 'node:fs';
+import type { IncomingHttpHeaders } from 'node:http';
+import path from 'node:path';
+import {
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { WorkflowStateManager } from '@tm/core';
+import { FastMCPSession } from 'fastmcp';
+import { AUTOPILOT_STATE_RESOURCE_URI } from './autopilot-state.resource.js';
+import { COMPLEXITY_REPORT_RESOURCE_URI } from './complexity-report.resource.js';
+import { TASKS_RESOURCE_PREFIX } from './tasks.resource.js';
+
+export interface ResourceWatcherOptions {
+	/**
+	 * Project root a subscription is for
+	 * @param headers - HTTP headers of the subscribe request (HTTP transport only)
+	 */
+	resolveProjectRoot: (headers?: IncomingHttpHeaders) => string;
+	/** Delay before notifying, so bursts of writes send one notification (default: 200) */
+	debounceMs?: number;
+	/** Called when a directory cannot be watched or a notification fails */
+	onError?: (message: string) => void;
+}
+
+/**
+ * Sends resource update notifications when tasks, complexity reports or
+ * autopilot state change on disk, whichever process changed them.
+ * Each project root is watched from its first subscription until its last
+ * one ends.
+ */
+export class ResourceWatcher {
+	/** Subscribed URIs of each session, with the project root they belong to */
+	private readonly subscriptions = new Map<
+		FastMCPSession<any>,
+		Map<string, string>
+	>();
+	private readonly watchers = new Map<string, FSWatcher[]>();
+	/** Changed URI prefixes per project root since the last notification */
+	private readonly changes = new Map<string, Set<string>>();
+	private timer?: NodeJS.Timeout;
+
+	constructor(private readonly options: ResourceWatcherOptions) {
+		advertiseSubscriptions();
+	}
+
+	/**
+	 * Handle resources/subscribe and resources/unsubscribe requests of a session
+	 */
+	addSession(session: FastMCPSession<any>): void {
+		const uris = new Map<string, string>();
+		this.subscriptions.set(session, uris);
+
+		session.server.setRequestHandler(
+			SubscribeRequestSchema,
+			(request, extra) => {
+				const projectRoot = this.options.resolveProjectRoot(
+					extra.requestInfo?.headers
+				);
+				this.watchProject(projectRoot);
+				uris.set(request.params.uri, projectRoot);
+				return {};
+			}
+		);
+		session.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+			uris.delete(request.params.uri);
+			this.unwatchUnsubscribedProjects();
+			return {};
+		});
+	}
+
+	removeSession(session: FastMCPSession<any>): void {
+		this.subscriptions.delete(session);
+		this.unwatchUnsubscribedProjects();
+	}
+
+	stop(): void {
+		for (const watchers of this.watchers.values()) {
+			for (const watcher of watchers) {
+				watcher.close();
+			}
+		}
+		this.watchers.clear();
+		clearTimeout(this.timer);
+		this.timer = undefined;
+		this.changes.clear();
+	}
+
+	/**
+	 * Watch .taskmaster and the autopilot session directory of a project
+	 */
+	private watchProject(projectRoot: string): void {
+		if (this.watchers.has(projectRoot)) {
+			return;
+		}
+		const watchers: FSWatcher[] = [];
+		this.watchers.set(projectRoot, watchers);
+
+		const taskmasterDir = path.join(projectRoot, '.taskmaster');
+		this.watch(watchers, taskmasterDir, projectRoot, (filename) => {
+			const [dir] = filename.split(path.sep);
+			if (dir === 'tasks' || dir === 'history') {
+				return TASKS_RESOURCE_PREFIX;
+			}
+			// The complexity report follows the active tag from state.json
+			if (dir === 'reports' || filename === 'state.json') {
+				return COMPLEXITY_REPORT_RESOURCE_URI;
+			}
+			return null;
+		});
+
+		// Created up front so sessions started later are picked up
+		const sessionsDir = new WorkflowStateManager(projectRoot).getSessionDir();
+		try {
+			fs.mkdirSync(sessionsDir, { recursive: true });
+		} catch {
+			// Reported by watch() below
+		}
+		this.watch(
+			watchers,
+			sessionsDir,
+			projectRoot,
+			() => AUTOPILOT_STATE_RESOURCE_URI
+		);
+	}
+
+	/**
+	 * Stop watching the project roots no session is subscribed to anymore
+	 */
+	private unwatchUnsubscribedProjects(): void {
+		const subscribedRoots = new Set<string>();
+		for (const uris of this.subscriptions.values()) {
+			for (const projectRoot of uris.values()) {
+				subscribedRoots.add(projectRoot);
+			}
+		}
+
+		for (const [projectRoot, watchers] of this.watchers) {
+			if (!subscribedRoots.has(projectRoot)) {
+				for (const watcher of watchers) {
+					watcher.close();
+				}
+				this.watchers.delete(projectRoot);
+				this.changes.delete(projectRoot);
+			}
+		}
+	}
+
+	/**
+	 * Watch a directory tree, mapping changed files to the resource URI
+	 * prefix they affect
+	 */
+	private watch(
+		watchers: FSWatcher[],
+		dir: string,
+		projectRoot: string,
+		toPrefix: (filename: string) => string | null
+	): void {
+		try {
+			const watcher = fs.watch(
+				dir,
+				{ recursive: true, persistent: false },
+				(_event, filename) => {
+					const prefix = filename ? toPrefix(filename.toString()) : null;
+					if (prefix) {
+						const changed = this.changes.get(projectRoot) ?? new Set();
+						this.changes.set(projectRoot, changed.add(prefix));
+						this.schedule();
+					}
+				}
+			);
+			watcher.on('error', (error) =>
+				this.options.onError?.(`Stopped watching ${dir}: ${error.message}`)
+			);
+			watchers.push(watcher);
+		} catch (error: any) {
+			this.options.onError?.(`Cannot watch ${dir}: ${error.message}`);
+		}
+	}
+
+	private schedule(): void {
+		clearTimeout(this.timer);
+		this.timer = setTimeout(
+			() => this.notify(),
+			this.options.debounceMs ?? 200
+		);
+	}
+
+	private notify(): void {
+		const changes = new Map(this.changes);
+		this.changes.clear();
+
+		for (const [session, uris] of this.subscriptions) {
+			for (const [uri, projectRoot] of uris) {
+				const prefixes = [...(changes.get(projectRoot) ?? [])];
+				if (prefixes.some((prefix) => uri.startsWith(prefix))) {
+					session.server.sendResourceUpdated({ uri }).catch((error) => {
+						this.options.onError?.(
+							`Failed to notify ${uri} update: ${error.message}`
+						);
+					});
+				}
+			}
+		}
+	}
+}
+
+let subscriptionsAdvertised = false;
+
+/**
+ * Add `resources.subscribe` to the capabilities every session advertises.
+ * FastMCP does not declare it, and only hands sessions out once connected,
+ * when the SDK no longer accepts new capabilities, so it is registered just
+ * before each session connects.
+ */
+function advertiseSubscriptions(): void {
+	if (subscriptionsAdvertised) {
+		return;
+	}
+	subscriptionsAdvertised = true;
+
+	const connect = FastMCPSession.prototype.connect;
+	FastMCPSession.prototype.connect = function (
+		this: FastMCPSession<any>,
+		transport
+	) {
+		this.server.registerCapabilities({ resources: { subscribe: true } });
+		return connect.call(this, transport);
+	};
+}
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Task MCP resources
+ * Expose a tag's task list and single tasks as readable resources
+ */
+
+import type { FastMCP } from 'fastmcp';
+import type { SessionAuth } from '../shared/types.js';
+import { createServerTmCore } from '../shared/utils.js';
+
+/**
+ * URI prefix shared by all task resources
+ */
+export const TASKS_RESOURCE_PREFIX = 'taskmaster://tasks/';
+
+/**
+ * Complete tag names for the {tag} template argument
+ */
+async function completeTag(
+	server: FastMCP,
+	value: string,
+	session?: SessionAuth
+) {
+	const tmCore = await createServerTmCore(server, session);
+	const { tags } = await tmCore.tasks.getTagsWithStats();
+	return {
+		values: tags.map((tag) => tag.name).filter((name) => name.startsWith(value))
+	};
+}
+
+/**
+ * Complete task and subtask IDs of the active tag for the {id} template argument
+ */
+async function completeTaskId(
+	server: FastMCP,
+	value: string,
+	session?: SessionAuth
+) {
+	const tmCore = await createServerTmCore(server, session);
+	const { tasks } = await tmCore.tasks.list({ includeSubtasks: true });
+	const ids = tasks.flatMap((task) => [
+		String(task.id),
+		...(task.subtasks ?? []).map((subtask) => `${task.id}.${subtask.id}`)
+	]);
+	return { values: ids.filter((id) => id.startsWith(value)) };
+}
+
+/**
+ * Register the taskmaster://tasks/{tag}/{id} and taskmaster://tasks/{tag}
+ * resource templates with the MCP server
+ */
+export function registerTasksResources(server: FastMCP) {
+	// Registered first so that task URIs are not matched as tag names
+	server.addResourceTemplate({
+		uriTemplate: `${TASKS_RESOURCE_PREFIX}{tag}/{id}`,
+		name: 'Task',
+		description:
+			'A single task or subtask (e.g. "5" or "5.2") of a tag, with its details, test strategy, dependencies and subtasks.',
+		mimeType: 'application/json',
+		arguments: [
+			{
+				name: 'tag',
+				description: 'Tag the task belongs to',
+				required: true,
+				complete: (value: string, auth) =>
+					completeTag(server, value, auth as SessionAuth)
+			},
+			{
+				name: 'id',
+				description: 'Task or subtask ID',
+				required: true,
+				complete: (value: string, auth) =>
+					completeTaskId(server, value, auth as SessionAuth)
+			}
+		],
+		async load({ tag, id }, auth) {
+			const tmCore = await createServerTmCore(server, auth as SessionAuth);
+			const result = await tmCore.tasks.get(id, tag);
+			if (!result.task) {
+				throw new Error(`Task ${id} not found in tag ${tag}`);
+			}
+			return {
+				text: JSON.stringify(
+					{ tag, isSubtask: result.isSubtask, task: result.task },
+					null,
+					2
+				)
+			};
+		}
+	});
+
+	server.addResourceTemplate({
+		uriTemplate: `${TASKS_RESOURCE_PREFIX}{tag}`,
+		name: 'Tasks',
+		description:
+			'All tasks of a tag with their subtasks, in the order they are stored.',
+		mimeType: 'application/json',
+		arguments: [
+			{
+				name: 'tag',
+				description: 'Tag whose tasks to read',
+				required: true,
+				complete: (value: string, auth) =>
+					completeTag(server, value, auth as SessionAuth)
+			}
+		],
+		async load({ tag }, auth) {
+			const tmCore = await createServerTmCore(server, auth as SessionAuth);
+			const result = await tmCore.tasks.list({ tag, includeSubtasks: true });
+			return {
+				text: JSON.stringify(
+					{ tag, total: result.total, tasks: result.tasks },
+					null,
+					2
+				)
+			};
+		}
+	});
+}
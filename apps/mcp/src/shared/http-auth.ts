@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Authentication and per-session project roots for the HTTP transport
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import fs from 'node:fs';
+import type { IncomingHttpHeaders, IncomingMessage } from 'node:http';
+import path from 'node:path';
+import type { SessionAuth } from './types.js';
+import { normalizeProjectRoot } from './utils.js';
+
+/**
+ * Header an HTTP client sets to choose the project its session works on
+ */
+export const PROJECT_ROOT_HEADER = 'x-task-master-project-root';
+
+/**
+ * Host names the server always answers to
+ */
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+export interface HttpAuthOptions {
+	/** Bearer token clients must send (all requests are accepted when unset) */
+	authToken?: string;
+	/** Host names clients may reach the server by, besides localhost */
+	allowedHosts?: string[];
+	/**
+	 * Directories sessions may choose projects in with the project root header.
+	 * When unset, the header is only accepted from clients with the token.
+	 */
+	projectRoots?: string[];
+}
+
+/**
+ * Session data for an HTTP request: the project root header becomes the
+ * session's TASK_MASTER_PROJECT_ROOT
+ */
+export function getSessionAuthFromHeaders(
+	headers: IncomingHttpHeaders | undefined
+): SessionAuth {
+	const value = headers?.[PROJECT_ROOT_HEADER];
+	const rawRoot = Array.isArray(value) ? value[0] : value;
+	return rawRoot
+		? { env: { TASK_MASTER_PROJECT_ROOT: normalizeProjectRoot(rawRoot) } }
+		: {};
+}
+
+/**
+ * Create the FastMCP `authenticate` hook for the HTTP transport
+ *
+ * Rejects requests without the configured bearer token, and requests whose
+ * Host or Origin is not localhost or an allowed host, so web pages can't
+ * reach the server through DNS rebinding. The project root header is read
+ * when a session starts, so each session can work on its own project, but
+ * only within the configured project roots, or with the token.
+ */
+export function createHttpAuthenticator(options: HttpAuthOptions = {}) {
+	const allowedHosts = [
+		...LOCAL_HOSTS,
+		...(options.allowedHosts ?? []).map((host) => host.toLowerCase())
+	];
+
+	return async (request: IncomingMessage): Promise<SessionAuth> => {
+		if (options.authToken && !hasBearerToken(request, options.authToken)) {
+			throw new Response(null, {
+				status: 401,
+				statusText: 'Unauthorized',
+				headers: { 'WWW-Authenticate': 'Bearer' }
+			});
+		}
+
+		const { host, origin } = request.headers;
+		if (!allowedHosts.includes(getHostname(host ? `http://${host}` : ''))) {
+			throw forbidden(`Host ${host ?? '(none)'} is not allowed`);
+		}
+		if (origin && !allowedHosts.includes(getHostname(origin))) {
+			throw forbidden(`Origin ${origin} is not allowed`);
+		}
+
+		const auth = getSessionAuthFromHeaders(request.headers);
+		const projectRoot = auth.env?.TASK_MASTER_PROJECT_ROOT;
+		if (projectRoot && !isAllowedProjectRoot(projectRoot, options)) {
+			throw forbidden(
+				options.projectRoots?.length
+					? `Project root ${projectRoot} is outside the allowed project roots`
+					: 'The project root header requires TASK_MASTER_MCP_AUTH_TOKEN or TASK_MASTER_MCP_PROJECT_ROOTS'
+			);
+		}
+		return auth;
+	};
+}
+
+/**
+ * A 403 response with a JSON-RPC error, like the transport's own auth errors
+ */
+function forbidden(message: string): Response {
+	return new Response(
+		JSON.stringify({
+			error: { code: -32000, message },
+			id: null,
+			jsonrpc: '2.0'
+		}),
+		{
+			status: 403,
+			statusText: 'Forbidden',
+			headers: { 'Content-Type': 'application/json' }
+		}
+	);
+}
+
+/**
+ * Host name of a URL, without the brackets of IPv6 addresses ('' if invalid)
+ */
+function getHostname(url: string): string {
+	try {
+		return new URL(url).hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+	} catch {
+		return '';
+	}
+}
+
+function isAllowedProjectRoot(
+	projectRoot: string,
+	options: HttpAuthOptions
+): boolean {
+	if (!options.projectRoots?.length) {
+		return Boolean(options.authToken);
+	}
+
+	const root = realPath(projectRoot);
+	return options.projectRoots.some((dir) => {
+		const relative = path.relative(realPath(dir), root);
+		return (
+			relative !== '..' &&
+			!relative.startsWith(`..${path.sep}`) &&
+			!path.isAbsolute(relative)
+		);
+	});
+}
+
+/**
+ * Resolve symlinks, so a link can't lead out of an allowed directory
+ */
+function realPath(target: string): string {
+	try {
+		return fs.realpathSync(target);
+	} catch {
+		return path.resolve(target);
+	}
+}
+
+function hasBearerToken(request: IncomingMessage, token: string): boolean {
+	const [scheme, credentials] = (request.headers.authorization ?? '').split(
+		' '
+	);
+	if (scheme?.toLowerCase() !== 'bearer' || !credentials) {
+		return false;
+	}
+
+	const expected = Buffer.from(token);
+	const actual = Buffer.from(credentials);
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
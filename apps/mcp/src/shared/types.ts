@@ -33,6 +33,15 @@ export interface MCPContext {
 	session: any;
 }
 
+/**
+ * Session data returned by the HTTP transport's authenticate hook
+ * FastMCP passes it to tools as `session` and to resources and prompts as `auth`
+ */
+export interface SessionAuth {
+	/** Environment overrides for the session, e.g. TASK_MASTER_PROJECT_ROOT */
+	env?: Record<string, string>;
+}
+
 /**
  * Enhanced MCP context with tmCore instance
  */
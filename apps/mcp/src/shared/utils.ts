@@ -7,11 +7,12 @@ import path from 'node:path';
 import {
 	LOCAL_ONLY_COMMANDS,
 	createTmCore,
-	type LocalOnlyCommand
+	type LocalOnlyCommand,
+	type TmCore
 } from '@tm/core';
-import type { ContentResult, Context } from 'fastmcp';
+import type { ContentResult, Context, FastMCP } from 'fastmcp';
 import packageJson from '../../../../package.json' with { type: 'json' };
-import type { ToolContext } from './types.js';
+import type { SessionAuth, ToolContext } from './types.js';
 
 /**
  * Get version information
@@ -253,6 +254,52 @@ function getProjectRootFromSession(session: any): string | null {
 	}
 }
 
+/**
+ * Resolve the project root for MCP resources and prompts, which receive no
+ * projectRoot argument
+ *
+ * PRECEDENCE ORDER:
+ * 1. TASK_MASTER_PROJECT_ROOT environment variable (from process.env or session)
+ * 2. Roots of the first connected session
+ * 3. Current directory fallback
+ */
+export function getServerProjectRoot(
+	server: FastMCP<any>,
+	session?: SessionAuth
+): string {
+	const envRoot =
+		process.env.TASK_MASTER_PROJECT_ROOT ||
+		session?.env?.TASK_MASTER_PROJECT_ROOT;
+	if (envRoot) {
+		return path.isAbsolute(envRoot)
+			? envRoot
+			: path.resolve(process.cwd(), envRoot);
+	}
+
+	for (const connected of server.sessions) {
+		const sessionRoot = getProjectRootFromSession(connected);
+		if (sessionRoot) {
+			return sessionRoot;
+		}
+	}
+
+	return process.cwd();
+}
+
+/**
+ * Create a TmCore instance for the project root of a session
+ * Used by resources and prompts, which are not wrapped in withToolContext
+ */
+export async function createServerTmCore(
+	server: FastMCP<any>,
+	session?: SessionAuth
+): Promise<TmCore> {
+	return createTmCore({
+		projectPath: getServerProjectRoot(server, session),
+		loggerConfig: { mcpMode: true }
+	});
+}
+
 /**
  * Wrapper to normalize project root in args with proper precedence order
  *
@@ -398,7 +445,8 @@ export function withToolContext<TArgs extends { projectRoot?: string }>(
 			// Create tmCore instance
 			const tmCore = await createTmCore({
 				projectPath: args.projectRoot,
-				loggerConfig: { mcpMode: true, logCallback: context.log }
+				loggerConfig: { mcpMode: true, logCallback: context.log },
+				changeContext: { source: 'mcp', command: commandName }
 			});
 
 			// Check if this is a local-only command that needs auth guard
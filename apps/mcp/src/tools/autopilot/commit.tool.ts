@@ -13,6 +13,12 @@ const CommitSchema = z.object({
 	projectRoot: z
 		.string()
 		.describe('Absolute path to the project root directory'),
+	taskId: z
+		.string()
+		.optional()
+		.describe(
+			'Task whose workflow session to use when several run in parallel worktrees (auto-detected when projectRoot is a session worktree)'
+		),
 	files: z
 		.array(z.string())
 		.optional()
@@ -39,12 +45,12 @@ export function registerAutopilotCommitTool(server: FastMCP) {
 		execute: withToolContext(
 			'autopilot-commit',
 			async (args: CommitArgs, { log }: ToolContext) => {
-				const { projectRoot, files, customMessage } = args;
+				const { projectRoot, taskId, files, customMessage } = args;
 
 				try {
 					log.info(`Creating commit for workflow in ${projectRoot}`);
 
-					const workflowService = new WorkflowService(projectRoot);
+					const workflowService = new WorkflowService(projectRoot, { taskId });
 
 					// Check if workflow exists
 					if (!(await workflowService.hasWorkflow())) {
@@ -94,7 +100,9 @@ export function registerAutopilotCommitTool(server: FastMCP) {
 					}
 
 					// Initialize git adapter
-					const gitAdapter = new GitAdapter(projectRoot);
+					const gitAdapter = new GitAdapter(
+						workflowService.getWorkingDirectory()
+					);
 
 					// Stage files
 					try {
@@ -187,7 +195,10 @@ export function registerAutopilotCommitTool(server: FastMCP) {
 					const lastCommit = await gitAdapter.getLastCommit();
 
 					// Complete COMMIT phase and advance workflow
-					const newStatus = await workflowService.commit();
+					const newStatus = await workflowService.commit({
+						hash: lastCommit.hash,
+						message: commitMessage
+					});
 
 					log.info(
 						`Commit completed. Current phase: ${newStatus.tddPhase || newStatus.phase}`
@@ -3,7 +3,8 @@
  * Complete the current TDD phase with test result validation
  */
 
-import { WorkflowService } from '@tm/core';
+import path from 'node:path';
+import { WorkflowService, createTmCore } from '@tm/core';
 import type { FastMCP } from 'fastmcp';
 import { z } from 'zod';
 import type { ToolContext } from '../../shared/types.js';
@@ -13,6 +14,12 @@ const CompletePhaseSchema = z.object({
 	projectRoot: z
 		.string()
 		.describe('Absolute path to the project root directory'),
+	taskId: z
+		.string()
+		.optional()
+		.describe(
+			'Task whose workflow session to use when several run in parallel worktrees (auto-detected when projectRoot is a session worktree)'
+		),
 	testResults: z
 		.object({
 			total: z.number().describe('Total number of tests'),
@@ -20,7 +27,46 @@ const CompletePhaseSchema = z.object({
 			failed: z.number().describe('Number of failing tests'),
 			skipped: z.number().optional().describe('Number of skipped tests')
 		})
-		.describe('Test results from running the test suite')
+		.optional()
+		.describe(
+			'Test results from running the test suite (omit when providing reportPath)'
+		),
+	reportPath: z
+		.string()
+		.optional()
+		.describe(
+			'Path to a test report file (JUnit XML, Jest/Vitest JSON or TAP) to derive test results from'
+		),
+	reportFormat: z
+		.enum(['junit', 'jest-json', 'tap'])
+		.optional()
+		.describe('Test report format (auto-detected if omitted)'),
+	coverageSummaryPath: z
+		.string()
+		.optional()
+		.describe('Path to an istanbul coverage-summary.json file'),
+	runTests: z
+		.boolean()
+		.optional()
+		.describe(
+			"Run the project's test command and complete the phase with the observed results (recommended)"
+		),
+	testCommand: z
+		.string()
+		.optional()
+		.describe(
+			'Test command to run when runTests is true (defaults to the detected test command)'
+		),
+	skipRefactor: z
+		.boolean()
+		.optional()
+		.describe(
+			'Skip the REFACTOR phase and move straight to COMMIT (only valid in REFACTOR phase)'
+		),
+	skipReason: z
+		.string()
+		.optional()
+		.describe('Why the REFACTOR phase is being skipped')
 });
 
 type CompletePhaseArgs = z.infer<typeof CompletePhaseSchema>;
@@ -32,17 +78,28 @@ export function registerAutopilotCompleteTool(server: FastMCP) {
 	server.addTool({
 		name: 'autopilot_complete_phase',
 		description:
-			'Complete the current TDD phase (RED or GREEN) with test result validation. RED phase: expects failures (if 0 failures, feature is already implemented and subtask auto-completes). GREEN phase: expects all tests passing. For COMMIT phase, use autopilot_commit instead.',
+			'Complete the current TDD phase (RED, GREEN or REFACTOR) with test result validation. Provide runTests=true to let autopilot run the test suite itself (preferred), reportPath (a JUnit XML, Jest/Vitest JSON or TAP report file) or testResults. RED phase: expects failures (with testResults or reportPath, 0 failures means the feature is already implemented and the subtask auto-completes; with runTests, a run without failures is rejected). GREEN and REFACTOR phases: expect all tests passing. Use skipRefactor=true to skip an optional REFACTOR phase. For COMMIT phase, use autopilot_commit instead.',
 		parameters: CompletePhaseSchema,
 		execute: withToolContext(
 			'autopilot-complete-phase',
 			async (args: CompletePhaseArgs, { log }: ToolContext) => {
-				const { projectRoot, testResults } = args;
+				const {
+					projectRoot,
+					taskId,
+					testResults,
+					reportPath,
+					reportFormat,
+					coverageSummaryPath,
+					runTests,
+					testCommand,
+					skipRefactor,
+					skipReason
+				} = args;
 
 				try {
 					log.info(`Completing current phase in workflow for ${projectRoot}`);
 
-					const workflowService = new WorkflowService(projectRoot);
+					const workflowService = new WorkflowService(projectRoot, { taskId });
 
 					// Check if workflow exists
 					if (!(await workflowService.hasWorkflow())) {
@@ -92,20 +149,72 @@ export function registerAutopilotCompleteTool(server: FastMCP) {
 						});
 					}
 
-					// Map TDD phase to TestResult phase (only RED or GREEN allowed)
-					const phase = currentStatus.tddPhase as 'RED' | 'GREEN';
+					if (!testResults && !reportPath && !runTests && !skipRefactor) {
+						return handleApiResult({
+							result: {
+								success: false,
+								error: {
+									message:
+										'One of runTests, reportPath, testResults or skipRefactor must be provided'
+								}
+							},
+							log,
+							projectRoot
+						});
+					}
+
+					let status;
+					let testRun;
+					if (skipRefactor) {
+						status = await workflowService.skipRefactor(skipReason);
+					} else if (runTests) {
+						// Run the suite ourselves; timeout comes from workflow.operationTimeout
+						const tmCore = await createTmCore({ projectPath: projectRoot });
+						const { run } = await workflowService.runTestsAndCompletePhase({
+							command: testCommand,
+							timeout: tmCore.config.getConfig().workflow?.operationTimeout,
+							reportPath,
+							reportFormat,
+							coveragePath: coverageSummaryPath
+						});
+						status = workflowService.getStatus();
+						testRun = {
+							command: run.command,
+							exitCode: run.exitCode,
+							durationMs: run.durationMs,
+							resultSource: run.resultSource,
+							total: run.testResults.total,
+							passed: run.testResults.passed,
+							failed: run.testResults.failed,
+							skipped: run.testResults.skipped
+						};
+					} else if (reportPath) {
+						// Derive test results from the test runner's report
+						const workingDirectory = workflowService.getWorkingDirectory();
+						const resolvedReportPath = path.isAbsolute(reportPath)
+							? reportPath
+							: path.join(workingDirectory, reportPath);
+						const resolvedCoveragePath =
+							coverageSummaryPath && !path.isAbsolute(coverageSummaryPath)
+								? path.join(workingDirectory, coverageSummaryPath)
+								: coverageSummaryPath;
 
-					// Construct full TestResult with phase
-					const fullTestResults = {
-						total: testResults.total,
-						passed: testResults.passed,
-						failed: testResults.failed,
-						skipped: testResults.skipped ?? 0,
-						phase
-					};
+						status = await workflowService.completePhaseFromReport(
+							resolvedReportPath,
+							{ format: reportFormat, coveragePath: resolvedCoveragePath }
+						);
+					} else {
+						// Map TDD phase to TestResult phase (COMMIT was rejected above)
+						const phase = currentStatus.tddPhase;
 
-					// Complete phase with test results
-					const status = await workflowService.completePhase(fullTestResults);
+						status = await workflowService.completePhase({
+							total: testResults!.total,
+							passed: testResults!.passed,
+							failed: testResults!.failed,
+							skipped: testResults!.skipped ?? 0,
+							phase
+						});
+					}
 					const nextAction = workflowService.getNextAction();
 
 					log.info(
@@ -118,6 +227,7 @@ export function registerAutopilotCompleteTool(server: FastMCP) {
 							data: {
 								message: `Phase completed. Transitioned to ${status.tddPhase || status.phase}`,
 								...status,
+								...(testRun ? { testRun } : {}),
 								nextAction: nextAction.action,
 								actionDescription: nextAction.description,
 								nextSteps: nextAction.nextSteps
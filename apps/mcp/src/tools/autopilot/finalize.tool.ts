@@ -12,7 +12,13 @@ import { handleApiResult, withToolContext } from '../../shared/utils.js';
 const FinalizeSchema = z.object({
 	projectRoot: z
 		.string()
-		.describe('Absolute path to the project root directory')
+		.describe('Absolute path to the project root directory'),
+	taskId: z
+		.string()
+		.optional()
+		.describe(
+			'Task whose workflow session to use when several run in parallel worktrees (auto-detected when projectRoot is a session worktree)'
+		)
 });
 
 type FinalizeArgs = z.infer<typeof FinalizeSchema>;
@@ -29,12 +35,12 @@ export function registerAutopilotFinalizeTool(server: FastMCP) {
 		execute: withToolContext(
 			'autopilot-finalize',
 			async (args: FinalizeArgs, { log }: ToolContext) => {
-				const { projectRoot } = args;
+				const { projectRoot, taskId } = args;
 
 				try {
 					log.info(`Finalizing workflow in ${projectRoot}`);
 
-					const workflowService = new WorkflowService(projectRoot);
+					const workflowService = new WorkflowService(projectRoot, { taskId });
 
 					// Check if workflow exists
 					if (!(await workflowService.hasWorkflow())) {
@@ -11,3 +11,5 @@ export { registerAutopilotCompleteTool } from './complete.tool.js';
 export { registerAutopilotCommitTool } from './commit.tool.js';
 export { registerAutopilotFinalizeTool } from './finalize.tool.js';
 export { registerAutopilotAbortTool } from './abort.tool.js';
+export { registerAutopilotLogTool } from './log.tool.js';
+export { registerAutopilotListTool } from './list.tool.js';
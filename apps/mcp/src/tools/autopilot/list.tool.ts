@@ -0,0 +1,68 @@
+/**
+ * @fileoverview autopilot-list MCP tool
+ * List active workflow sessions in the main checkout and in worktrees
+ */
+
+import { WorkflowSessionsService } from '@tm/core';
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const ListSessionsSchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('Absolute path to the project root directory')
+});
+
+type ListSessionsArgs = z.infer<typeof ListSessionsSchema>;
+
+/**
+ * Register the autopilot_list tool with the MCP server
+ */
+export function registerAutopilotListTool(server: FastMCP) {
+	server.addTool({
+		name: 'autopilot_list',
+		description:
+			'List active TDD workflow sessions, including sessions running in parallel git worktrees, with their task, phase, progress, branch and worktree path.',
+		parameters: ListSessionsSchema,
+		execute: withToolContext(
+			'autopilot-list',
+			async (args: ListSessionsArgs, { log }: ToolContext) => {
+				const { projectRoot } = args;
+
+				try {
+					log.info(`Listing autopilot sessions in ${projectRoot}`);
+
+					const sessions = await new WorkflowSessionsService(
+						projectRoot
+					).list();
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: { sessions }
+						},
+						log,
+						projectRoot
+					});
+				} catch (error: any) {
+					log.error(`Error in autopilot-list: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to list workflow sessions: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
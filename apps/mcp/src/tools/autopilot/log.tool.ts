@@ -0,0 +1,127 @@
+/**
+ * @fileoverview autopilot-log MCP tool
+ * Query the event journal of a workflow session
+ */
+
+import { WorkflowJournalService } from '@tm/core';
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const LogSchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('Absolute path to the project root directory'),
+	sessionId: z
+		.string()
+		.optional()
+		.describe(
+			'Session to query. Defaults to the current workflow session, then the most recent one'
+		),
+	listSessions: z
+		.boolean()
+		.optional()
+		.describe('List recorded workflow sessions instead of events'),
+	subtaskId: z
+		.string()
+		.optional()
+		.describe('Only events for this subtask (e.g. "1.2")'),
+	phase: z
+		.string()
+		.optional()
+		.describe(
+			'Only events in this workflow phase (e.g. SUBTASK_LOOP) or TDD phase (e.g. GREEN)'
+		),
+	types: z
+		.array(z.string())
+		.optional()
+		.describe(
+			'Event types to include; * matches any suffix (e.g. ["tdd:*", "test:failed"])'
+		),
+	since: z
+		.string()
+		.optional()
+		.describe(
+			'Only events after an ISO timestamp or a duration ago (e.g. "30m", "2h", "1d")'
+		),
+	until: z
+		.string()
+		.optional()
+		.describe('Only events before an ISO timestamp or a duration ago'),
+	limit: z
+		.number()
+		.int()
+		.min(0)
+		.optional()
+		.describe('Return only the last N matching events')
+});
+
+type LogArgs = z.infer<typeof LogSchema>;
+
+/**
+ * Register the autopilot_log tool with the MCP server
+ */
+export function registerAutopilotLogTool(server: FastMCP) {
+	server.addTool({
+		name: 'autopilot_log',
+		description:
+			'Query the recorded event journal of a TDD workflow session (phase transitions, test runs, commits, errors). Filter by subtask, phase, event type and time, or list past sessions.',
+		parameters: LogSchema,
+		execute: withToolContext(
+			'autopilot-log',
+			async (args: LogArgs, { log }: ToolContext) => {
+				const { projectRoot, listSessions, ...query } = args;
+
+				try {
+					const journal = new WorkflowJournalService(projectRoot);
+
+					if (listSessions) {
+						log.info(`Listing workflow sessions for ${projectRoot}`);
+						const sessions = await journal.listSessions();
+
+						return handleApiResult({
+							result: {
+								success: true,
+								data: { sessions }
+							},
+							log,
+							projectRoot
+						});
+					}
+
+					log.info(`Querying workflow event journal for ${projectRoot}`);
+					const result = await journal.query(query);
+
+					log.info(
+						`Returned ${result.events.length} of ${result.totalEvents} events from session ${result.sessionId ?? '(none)'}`
+					);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: result
+						},
+						log,
+						projectRoot
+					});
+				} catch (error: any) {
+					log.error(`Error in autopilot-log: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to read workflow log: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -12,7 +12,13 @@ import { handleApiResult, withToolContext } from '../../shared/utils.js';
 const NextActionSchema = z.object({
 	projectRoot: z
 		.string()
-		.describe('Absolute path to the project root directory')
+		.describe('Absolute path to the project root directory'),
+	taskId: z
+		.string()
+		.optional()
+		.describe(
+			'Task whose workflow session to use when several run in parallel worktrees (auto-detected when projectRoot is a session worktree)'
+		)
 });
 
 type NextActionArgs = z.infer<typeof NextActionSchema>;
@@ -29,12 +35,12 @@ export function registerAutopilotNextTool(server: FastMCP) {
 		execute: withToolContext(
 			'autopilot-next',
 			async (args: NextActionArgs, { log }: ToolContext) => {
-				const { projectRoot } = args;
+				const { projectRoot, taskId } = args;
 
 				try {
 					log.info(`Getting next action for workflow in ${projectRoot}`);
 
-					const workflowService = new WorkflowService(projectRoot);
+					const workflowService = new WorkflowService(projectRoot, { taskId });
 
 					// Check if workflow exists
 					if (!(await workflowService.hasWorkflow())) {
@@ -12,7 +12,13 @@ import type { FastMCP } from 'fastmcp';
 const ResumeWorkflowSchema = z.object({
 	projectRoot: z
 		.string()
-		.describe('Absolute path to the project root directory')
+		.describe('Absolute path to the project root directory'),
+	taskId: z
+		.string()
+		.optional()
+		.describe(
+			'Task whose workflow session to use when several run in parallel worktrees (auto-detected when projectRoot is a session worktree)'
+		)
 });
 
 type ResumeWorkflowArgs = z.infer<typeof ResumeWorkflowSchema>;
@@ -29,12 +35,12 @@ export function registerAutopilotResumeTool(server: FastMCP) {
 		execute: withToolContext(
 			'autopilot-resume',
 			async (args: ResumeWorkflowArgs, { log }: ToolContext) => {
-				const { projectRoot } = args;
+				const { projectRoot, taskId } = args;
 
 				try {
 					log.info(`Resuming autopilot workflow in ${projectRoot}`);
 
-					const workflowService = new WorkflowService(projectRoot);
+					const workflowService = new WorkflowService(projectRoot, { taskId });
 
 					// Check if workflow exists
 					if (!(await workflowService.hasWorkflow())) {
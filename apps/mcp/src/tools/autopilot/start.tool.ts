@@ -27,7 +27,26 @@ const StartWorkflowSchema = z.object({
 		.boolean()
 		.optional()
 		.default(false)
-		.describe('Force start even if workflow state exists')
+		.describe('Force start even if workflow state exists'),
+	enableRefactor: z
+		.boolean()
+		.optional()
+		.describe(
+			'Add a REFACTOR phase between GREEN and COMMIT (defaults to workflow.enableRefactorPhase in config)'
+		),
+	worktree: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe(
+			'Run the workflow in its own git worktree so several tasks can be worked on in parallel'
+		),
+	worktreePath: z
+		.string()
+		.optional()
+		.describe(
+			'Worktree location (implies worktree; defaults to ../<repo>-worktrees/task-<id>)'
+		)
 });
 
 type StartWorkflowArgs = z.infer<typeof StartWorkflowSchema>;
@@ -56,7 +75,15 @@ export function registerAutopilotStartTool(server: FastMCP) {
 		execute: withToolContext(
 			'autopilot-start',
 			async (args: StartWorkflowArgs, { log, tmCore }: ToolContext) => {
-				const { taskId, projectRoot, maxAttempts, force } = args;
+				const {
+					taskId,
+					projectRoot,
+					maxAttempts,
+					force,
+					enableRefactor,
+					worktreePath
+				} = args;
+				const worktree = args.worktree || !!worktreePath;
 
 				try {
 					log.info(
@@ -110,7 +137,9 @@ export function registerAutopilotStartTool(server: FastMCP) {
 					}
 
 					// Initialize workflow service
-					const workflowService = new WorkflowService(projectRoot);
+					const workflowService = new WorkflowService(projectRoot, {
+						taskId: worktree ? taskId : undefined
+					});
 
 					// Check for existing workflow
 					const hasWorkflow = await workflowService.hasWorkflow();
@@ -141,7 +170,14 @@ export function registerAutopilotStartTool(server: FastMCP) {
 						})),
 						maxAttempts,
 						force,
-						tag: currentTag // Pass current tag for branch naming
+						tag: currentTag, // Pass current tag for branch naming
+						worktree,
+						worktreePath,
+						// Refuse tasks related to other parallel sessions
+						tasks: (await tmCore.tasks.list()).tasks,
+						enableRefactorPhase:
+							enableRefactor ??
+							tmCore.config.getConfig().workflow?.enableRefactorPhase
 					});
 
 					log.info(`Workflow started successfully for task ${taskId}`);
@@ -156,6 +192,9 @@ export function registerAutopilotStartTool(server: FastMCP) {
 								message: `Workflow started for task ${taskId}`,
 								taskId,
 								branchName: status.branchName,
+								...(status.worktreePath && {
+									worktreePath: status.worktreePath
+								}),
 								phase: status.phase,
 								tddPhase: status.tddPhase,
 								progress: status.progress,
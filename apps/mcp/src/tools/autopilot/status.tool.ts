@@ -12,7 +12,13 @@ import type { FastMCP } from 'fastmcp';
 const StatusSchema = z.object({
 	projectRoot: z
 		.string()
-		.describe('Absolute path to the project root directory')
+		.describe('Absolute path to the project root directory'),
+	taskId: z
+		.string()
+		.optional()
+		.describe(
+			'Task whose workflow session to use when several run in parallel worktrees (auto-detected when projectRoot is a session worktree)'
+		)
 });
 
 type StatusArgs = z.infer<typeof StatusSchema>;
@@ -29,12 +35,12 @@ export function registerAutopilotStatusTool(server: FastMCP) {
 		execute: withToolContext(
 			'autopilot-status',
 			async (args: StatusArgs, { log }: ToolContext) => {
-				const { projectRoot } = args;
+				const { projectRoot, taskId } = args;
 
 				try {
 					log.info(`Getting workflow status for ${projectRoot}`);
 
-					const workflowService = new WorkflowService(projectRoot);
+					const workflowService = new WorkflowService(projectRoot, { taskId });
 
 					// Check if workflow exists
 					if (!(await workflowService.hasWorkflow())) {
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview add-dependency MCP tool
+ * Make a task or subtask depend on another one
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const AddDependencySchema = z.object({
+	id: z.string().describe('ID of task that will depend on another task'),
+	dependsOn: z.string().describe('ID of task that will become a dependency'),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type AddDependencyArgs = z.infer<typeof AddDependencySchema>;
+
+/**
+ * Register the add_dependency tool with the MCP server
+ */
+export function registerAddDependencyTool(server: FastMCP) {
+	server.addTool({
+		name: 'add_dependency',
+		description:
+			'Add a dependency relationship between two tasks. Self, duplicate and circular dependencies are rejected.',
+		parameters: AddDependencySchema,
+		execute: withToolContext(
+			'add-dependency',
+			async (args: AddDependencyArgs, { log, tmCore }: ToolContext) => {
+				const { id, dependsOn, projectRoot, tag } = args;
+
+				try {
+					log.info(`Adding dependency: task ${id} will depend on ${dependsOn}`);
+
+					const result = await tmCore.dependencies.add(id, dependsOn, tag);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								...result,
+								message: `Successfully added dependency: Task ${id} now depends on ${dependsOn}`
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in add-dependency: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to add dependency: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview fix-dependencies MCP tool
+ * Remove invalid task dependencies and break dependency cycles
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const FixDependenciesSchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type FixDependenciesArgs = z.infer<typeof FixDependenciesSchema>;
+
+/**
+ * Register the fix_dependencies tool with the MCP server
+ */
+export function registerFixDependenciesTool(server: FastMCP) {
+	server.addTool({
+		name: 'fix_dependencies',
+		description: 'Fix invalid dependencies in tasks automatically',
+		parameters: FixDependenciesSchema,
+		execute: withToolContext(
+			'fix-dependencies',
+			async (args: FixDependenciesArgs, { log, tmCore }: ToolContext) => {
+				const { projectRoot, tag } = args;
+
+				try {
+					log.info(`Fixing dependencies in root: ${projectRoot}`);
+
+					const result = await tmCore.dependencies.fix(tag);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								...result,
+								message:
+									result.fixed.length > 0
+										? `Fixed ${result.fixed.length} dependency issue(s) in ${result.tasksChanged} task(s)`
+										: 'No dependency issues found'
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in fix-dependencies: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to fix dependencies: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview get-dependency-graph MCP tool
+ * Render the task dependency graph as Mermaid, Graphviz DOT or JSON
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const GetDependencyGraphSchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	format: z
+		.enum(['mermaid', 'dot', 'json'])
+		.optional()
+		.default('json')
+		.describe(
+			'Output format: JSON node/edge list, Mermaid flowchart or Graphviz DOT (default: json)'
+		),
+	from: z
+		.string()
+		.optional()
+		.describe(
+			'Only include tasks reachable from this task or subtask ID (e.g. "5" or "5.2")'
+		),
+	direction: z
+		.enum(['dependencies', 'dependents', 'both'])
+		.optional()
+		.describe(
+			'Edges to follow from "from": what it depends on, what depends on it, or both (default: both)'
+		),
+	withSubtasks: z.boolean().optional().describe('Include subtasks as nodes'),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type GetDependencyGraphArgs = z.infer<typeof GetDependencyGraphSchema>;
+
+/**
+ * Register the get_dependency_graph tool with the MCP server
+ */
+export function registerGetDependencyGraphTool(server: FastMCP) {
+	server.addTool({
+		name: 'get_dependency_graph',
+		description:
+			'Get the task dependency graph as a JSON node/edge list, Mermaid or Graphviz DOT. Nodes carry their status color and cycles are highlighted. Optionally limit it to the tasks reachable from one task.',
+		parameters: GetDependencyGraphSchema,
+		execute: withToolContext(
+			'get-dependency-graph',
+			async (args: GetDependencyGraphArgs, { log, tmCore }: ToolContext) => {
+				const { projectRoot, format, from, direction, withSubtasks, tag } =
+					args;
+
+				try {
+					log.info(
+						`Rendering ${format} dependency graph for ${projectRoot}${from ? ` from task ${from}` : ''}`
+					);
+
+					const graph = await tmCore.dependencies.renderGraph(
+						{
+							format,
+							rootId: from,
+							direction,
+							includeSubtasks: withSubtasks ?? false
+						},
+						tag
+					);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: format === 'json' ? JSON.parse(graph) : { format, graph }
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in get-dependency-graph: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to render dependency graph: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -0,0 +1,10 @@
+/**
+ * @fileoverview Dependencies MCP tools index
+ * Exports all dependency-related tool registration functions
+ */
+
+export { registerGetDependencyGraphTool } from './get-dependency-graph.tool.js';
+export { registerAddDependencyTool } from './add-dependency.tool.js';
+export { registerRemoveDependencyTool } from './remove-dependency.tool.js';
+export { registerValidateDependenciesTool } from './validate-dependencies.tool.js';
+export { registerFixDependenciesTool } from './fix-dependencies.tool.js';
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview remove-dependency MCP tool
+ * Remove a dependency from a task or subtask
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const RemoveDependencySchema = z.object({
+	id: z.string().describe('Task ID to remove dependency from'),
+	dependsOn: z.string().describe('Task ID to remove as a dependency'),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type RemoveDependencyArgs = z.infer<typeof RemoveDependencySchema>;
+
+/**
+ * Register the remove_dependency tool with the MCP server
+ */
+export function registerRemoveDependencyTool(server: FastMCP) {
+	server.addTool({
+		name: 'remove_dependency',
+		description: 'Remove a dependency from a task',
+		parameters: RemoveDependencySchema,
+		execute: withToolContext(
+			'remove-dependency',
+			async (args: RemoveDependencyArgs, { log, tmCore }: ToolContext) => {
+				const { id, dependsOn, projectRoot, tag } = args;
+
+				try {
+					log.info(`Removing dependency ${dependsOn} from task ${id}`);
+
+					const result = await tmCore.dependencies.remove(id, dependsOn, tag);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								...result,
+								message: `Successfully removed dependency: Task ${id} no longer depends on ${dependsOn}`
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in remove-dependency: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to remove dependency: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview validate-dependencies MCP tool
+ * Report invalid and circular task dependencies without changing anything
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const ValidateDependenciesSchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type ValidateDependenciesArgs = z.infer<typeof ValidateDependenciesSchema>;
+
+/**
+ * Register the validate_dependencies tool with the MCP server
+ */
+export function registerValidateDependenciesTool(server: FastMCP) {
+	server.addTool({
+		name: 'validate_dependencies',
+		description:
+			'Check tasks for dependency issues (like circular references or links to non-existent tasks) without making changes.',
+		parameters: ValidateDependenciesSchema,
+		execute: withToolContext(
+			'validate-dependencies',
+			async (args: ValidateDependenciesArgs, { log, tmCore }: ToolContext) => {
+				const { projectRoot, tag } = args;
+
+				try {
+					log.info(`Validating dependencies in root: ${projectRoot}`);
+
+					const result = await tmCore.dependencies.validate(tag);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								...result,
+								message: result.valid
+									? 'Dependencies validated successfully'
+									: `Found ${result.issues.length} dependency issue(s)`
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in validate-dependencies: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to validate dependencies: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
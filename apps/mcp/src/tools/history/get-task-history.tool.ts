@@ -0,0 +1,84 @@
+/**
+ * @fileoverview get-task-history MCP tool
+ * Read the journaled changes of a task, or of the whole tag
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const GetTaskHistorySchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	id: z
+		.string()
+		.optional()
+		.describe(
+			'Only return changes to this task or subtask ID (e.g. "5" or "5.2")'
+		),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe('Return only the last N matching changes'),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type GetTaskHistoryArgs = z.infer<typeof GetTaskHistorySchema>;
+
+/**
+ * Register the get_task_history tool with the MCP server
+ */
+export function registerGetTaskHistoryTool(server: FastMCP) {
+	server.addTool({
+		name: 'get_task_history',
+		description:
+			'Get the change history of a task or subtask, or of the whole tag. Each entry records when, by whom and through which command tasks changed, with the changed fields and the task before and after the change.',
+		parameters: GetTaskHistorySchema,
+		execute: withToolContext(
+			'get-task-history',
+			async (args: GetTaskHistoryArgs, { log, tmCore }: ToolContext) => {
+				const { projectRoot, id, limit, tag } = args;
+
+				try {
+					log.info(
+						`Reading change history${id ? ` of task ${id}` : ''} in ${projectRoot}`
+					);
+
+					const entries = await tmCore.history.getHistory(
+						{ taskId: id, limit },
+						tag
+					);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: { entries, count: entries.length }
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in get-task-history: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to read task history: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview History MCP tools index
+ * Exports all change-history tool registration functions
+ */
+
+export { registerGetTaskHistoryTool } from './get-task-history.tool.js';
+export { registerUndoChangesTool } from './undo-changes.tool.js';
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview undo-changes MCP tool
+ * Revert the most recent journaled task changes
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const UndoChangesSchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	count: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.default(1)
+		.describe('Number of changes to undo, most recent first (default: 1)'),
+	force: z
+		.boolean()
+		.optional()
+		.describe(
+			'Undo even if the affected tasks were changed again outside the history'
+		),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type UndoChangesArgs = z.infer<typeof UndoChangesSchema>;
+
+/**
+ * Register the undo_changes tool with the MCP server
+ */
+export function registerUndoChangesTool(server: FastMCP) {
+	server.addTool({
+		name: 'undo_changes',
+		description:
+			'Undo the most recent task changes recorded in the change history (see get_task_history). Refuses when an affected task was changed again in the meantime unless force is set.',
+		parameters: UndoChangesSchema,
+		execute: withToolContext(
+			'undo-changes',
+			async (args: UndoChangesArgs, { log, tmCore }: ToolContext) => {
+				const { projectRoot, count, force, tag } = args;
+
+				try {
+					log.info(`Undoing ${count} change(s) in ${projectRoot}`);
+
+					const result = await tmCore.history.undo({ count, force }, tag);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								undone: result.undone.map((entry) => ({
+									id: entry.id,
+									operation: entry.operation,
+									taskIds: entry.changes.map((change) => change.taskId)
+								})),
+								entry: result.entry
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in undo-changes: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to undo changes: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview add-tag MCP tool
+ * Create a new tag, optionally copying tasks or naming it after the git branch
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const AddTagSchema = z.object({
+	name: z.string().describe('Name of the new tag to create'),
+	copyFromCurrent: z
+		.boolean()
+		.optional()
+		.describe('Whether to copy tasks from the current tag (default: false)'),
+	copyFromTag: z
+		.string()
+		.optional()
+		.describe('Specific tag to copy tasks from'),
+	fromBranch: z
+		.boolean()
+		.optional()
+		.describe(
+			'Create tag name from current git branch (ignores name parameter)'
+		),
+	description: z
+		.string()
+		.optional()
+		.describe('Optional description for the tag'),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.')
+});
+
+type AddTagArgs = z.infer<typeof AddTagSchema>;
+
+/**
+ * Register the add_tag tool with the MCP server
+ */
+export function registerAddTagTool(server: FastMCP) {
+	server.addTool({
+		name: 'add_tag',
+		description: 'Create a new tag for organizing tasks in different contexts',
+		parameters: AddTagSchema,
+		execute: withToolContext(
+			'add-tag',
+			async (args: AddTagArgs, { log, tmCore }: ToolContext) => {
+				const {
+					name,
+					copyFromCurrent,
+					copyFromTag,
+					fromBranch,
+					description,
+					projectRoot
+				} = args;
+
+				try {
+					log.info(
+						`Creating tag ${fromBranch ? 'from the current git branch' : `"${name}"`} in root: ${projectRoot}`
+					);
+
+					const tag = await tmCore.tasks.createTag(name, {
+						copyFromCurrent,
+						copyFromTag,
+						fromBranch,
+						description
+					});
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								tag,
+								message: `Successfully created tag "${tag.name}"`
+							}
+						},
+						log,
+						projectRoot
+					});
+				} catch (error: any) {
+					log.error(`Error in add-tag: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to create tag: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
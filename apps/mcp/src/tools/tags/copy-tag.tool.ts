@@ -0,0 +1,83 @@
+/**
+ * @fileoverview copy-tag MCP tool
+ * Copy a tag and its tasks to a new tag
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const CopyTagSchema = z.object({
+	sourceName: z.string().describe('Name of the source tag to copy from'),
+	targetName: z.string().describe('Name of the new tag to create'),
+	description: z
+		.string()
+		.optional()
+		.describe('Optional description for the new tag'),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.')
+});
+
+type CopyTagArgs = z.infer<typeof CopyTagSchema>;
+
+/**
+ * Register the copy_tag tool with the MCP server
+ */
+export function registerCopyTagTool(server: FastMCP) {
+	server.addTool({
+		name: 'copy_tag',
+		description:
+			'Copy an existing tag to create a new tag with all tasks and metadata',
+		parameters: CopyTagSchema,
+		execute: withToolContext(
+			'copy-tag',
+			async (args: CopyTagArgs, { log, tmCore }: ToolContext) => {
+				const { sourceName, targetName, description, projectRoot } = args;
+
+				try {
+					log.info(`Copying tag "${sourceName}" to "${targetName}"`);
+
+					// A description can only be set when the tag is created
+					if (description) {
+						await tmCore.tasks.createTag(targetName, {
+							copyFromTag: sourceName,
+							description
+						});
+					} else {
+						await tmCore.tasks.copyTag(sourceName, targetName);
+					}
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								sourceName,
+								targetName,
+								message: `Successfully copied tag "${sourceName}" to "${targetName}"`
+							}
+						},
+						log,
+						projectRoot
+					});
+				} catch (error: any) {
+					log.error(`Error in copy-tag: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to copy tag: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
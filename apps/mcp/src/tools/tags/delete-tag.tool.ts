@@ -0,0 +1,69 @@
+/**
+ * @fileoverview delete-tag MCP tool
+ * Delete a tag and all of its tasks
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const DeleteTagSchema = z.object({
+	name: z.string().describe('Name of the tag to delete'),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.')
+});
+
+type DeleteTagArgs = z.infer<typeof DeleteTagSchema>;
+
+/**
+ * Register the delete_tag tool with the MCP server
+ */
+export function registerDeleteTagTool(server: FastMCP) {
+	server.addTool({
+		name: 'delete_tag',
+		description: 'Delete an existing tag and all its tasks',
+		parameters: DeleteTagSchema,
+		execute: withToolContext(
+			'delete-tag',
+			async (args: DeleteTagArgs, { log, tmCore }: ToolContext) => {
+				const { name, projectRoot } = args;
+
+				try {
+					log.info(`Deleting tag "${name}" in root: ${projectRoot}`);
+
+					await tmCore.tasks.deleteTag(name);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								tagName: name,
+								deleted: true,
+								message: `Successfully deleted tag "${name}"`
+							}
+						},
+						log,
+						projectRoot
+					});
+				} catch (error: any) {
+					log.error(`Error in delete-tag: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to delete tag: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
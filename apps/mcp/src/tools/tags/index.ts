@@ -0,0 +1,11 @@
+/**
+ * @fileoverview Tags MCP tools index
+ * Exports all tag-related tool registration functions
+ */
+
+export { registerAddTagTool } from './add-tag.tool.js';
+export { registerDeleteTagTool } from './delete-tag.tool.js';
+export { registerListTagsTool } from './list-tags.tool.js';
+export { registerUseTagTool } from './use-tag.tool.js';
+export { registerRenameTagTool } from './rename-tag.tool.js';
+export { registerCopyTagTool } from './copy-tag.tool.js';
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview list-tags MCP tool
+ * List all tags with task counts
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const ListTagsSchema = z.object({
+	showMetadata: z
+		.boolean()
+		.optional()
+		.describe('Whether to include metadata in the output (default: false)'),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.')
+});
+
+type ListTagsArgs = z.infer<typeof ListTagsSchema>;
+
+/**
+ * Register the list_tags tool with the MCP server
+ */
+export function registerListTagsTool(server: FastMCP) {
+	server.addTool({
+		name: 'list_tags',
+		description: 'List all available tags with task counts and metadata',
+		parameters: ListTagsSchema,
+		execute: withToolContext(
+			'list-tags',
+			async (args: ListTagsArgs, { log, tmCore }: ToolContext) => {
+				const { showMetadata, projectRoot } = args;
+
+				try {
+					log.info(`Listing tags in root: ${projectRoot}`);
+
+					const result = await tmCore.tasks.getTagsWithStats();
+					const tags = showMetadata
+						? result.tags
+						: result.tags.map((tag) => ({
+								name: tag.name,
+								isCurrent: tag.isCurrent,
+								taskCount: tag.taskCount,
+								completedTasks: tag.completedTasks,
+								statusBreakdown: tag.statusBreakdown,
+								subtaskCounts: tag.subtaskCounts
+							}));
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								tags,
+								currentTag: result.currentTag,
+								totalTags: result.totalTags,
+								message: `Found ${result.totalTags} tag(s)`
+							}
+						},
+						log,
+						projectRoot
+					});
+				} catch (error: any) {
+					log.error(`Error in list-tags: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to list tags: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
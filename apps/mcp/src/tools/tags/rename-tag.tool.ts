@@ -0,0 +1,70 @@
+/**
+ * @fileoverview rename-tag MCP tool
+ * Rename an existing tag
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const RenameTagSchema = z.object({
+	oldName: z.string().describe('Current name of the tag to rename'),
+	newName: z.string().describe('New name for the tag'),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.')
+});
+
+type RenameTagArgs = z.infer<typeof RenameTagSchema>;
+
+/**
+ * Register the rename_tag tool with the MCP server
+ */
+export function registerRenameTagTool(server: FastMCP) {
+	server.addTool({
+		name: 'rename_tag',
+		description: 'Rename an existing tag',
+		parameters: RenameTagSchema,
+		execute: withToolContext(
+			'rename-tag',
+			async (args: RenameTagArgs, { log, tmCore }: ToolContext) => {
+				const { oldName, newName, projectRoot } = args;
+
+				try {
+					log.info(`Renaming tag "${oldName}" to "${newName}"`);
+
+					await tmCore.tasks.renameTag(oldName, newName);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								oldName,
+								newName,
+								message: `Successfully renamed tag "${oldName}" to "${newName}"`
+							}
+						},
+						log,
+						projectRoot
+					});
+				} catch (error: any) {
+					log.error(`Error in rename-tag: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to rename tag: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
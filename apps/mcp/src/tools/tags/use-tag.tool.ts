@@ -0,0 +1,69 @@
+/**
+ * @fileoverview use-tag MCP tool
+ * Switch the active tag
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const UseTagSchema = z.object({
+	name: z.string().describe('Name of the tag to switch to'),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.')
+});
+
+type UseTagArgs = z.infer<typeof UseTagSchema>;
+
+/**
+ * Register the use_tag tool with the MCP server
+ */
+export function registerUseTagTool(server: FastMCP) {
+	server.addTool({
+		name: 'use_tag',
+		description: 'Switch to a different tag context for task operations',
+		parameters: UseTagSchema,
+		execute: withToolContext(
+			'use-tag',
+			async (args: UseTagArgs, { log, tmCore }: ToolContext) => {
+				const { name, projectRoot } = args;
+
+				try {
+					log.info(`Switching to tag "${name}" in root: ${projectRoot}`);
+
+					await tmCore.tasks.switchTag(name);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								tagName: name,
+								message: `Successfully switched to tag "${name}"`
+							}
+						},
+						log,
+						projectRoot,
+						tag: name
+					});
+				} catch (error: any) {
+					log.error(`Error in use-tag: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to switch tag: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview add-subtask MCP tool
+ * Add a new subtask to a task, or convert an existing task into a subtask
+ */
+
+import { TASK_STATUSES, type TaskStatus } from '@tm/core';
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const AddSubtaskSchema = z.object({
+	id: z.string().describe('Parent task ID (required)'),
+	taskId: z
+		.string()
+		.optional()
+		.describe('Existing task ID to convert to subtask'),
+	title: z
+		.string()
+		.optional()
+		.describe('Title for the new subtask (when creating a new subtask)'),
+	description: z
+		.string()
+		.optional()
+		.describe('Description for the new subtask'),
+	details: z
+		.string()
+		.optional()
+		.describe('Implementation details for the new subtask'),
+	status: z
+		.enum(TASK_STATUSES as [TaskStatus, ...TaskStatus[]])
+		.optional()
+		.describe("Status for the new subtask (default: 'pending')"),
+	dependencies: z
+		.string()
+		.optional()
+		.describe(
+			'Comma-separated list of dependency IDs for the new subtask (IDs without a dot refer to sibling subtasks)'
+		),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type AddSubtaskArgs = z.infer<typeof AddSubtaskSchema>;
+
+/**
+ * Register the add_subtask tool with the MCP server
+ */
+export function registerAddSubtaskTool(server: FastMCP) {
+	server.addTool({
+		name: 'add_subtask',
+		description: 'Add a subtask to an existing task',
+		parameters: AddSubtaskSchema,
+		execute: withToolContext(
+			'add-subtask',
+			async (args: AddSubtaskArgs, { log, tmCore }: ToolContext) => {
+				const {
+					id,
+					taskId,
+					title,
+					description,
+					details,
+					status,
+					dependencies,
+					projectRoot,
+					tag
+				} = args;
+
+				try {
+					if (!taskId && !title) {
+						return handleApiResult({
+							result: {
+								success: false,
+								error: {
+									message:
+										'Either taskId or title must be provided to add a subtask'
+								}
+							},
+							log,
+							projectRoot
+						});
+					}
+
+					log.info(
+						taskId
+							? `Converting task ${taskId} to a subtask of ${id}`
+							: `Adding subtask "${title}" to task ${id}`
+					);
+
+					const subtask = await tmCore.tasks.addSubtask(
+						id,
+						taskId
+							? { taskId }
+							: {
+									title: title!,
+									description,
+									details,
+									status,
+									dependencies: dependencies
+										?.split(',')
+										.map((dep) => dep.trim())
+										.filter(Boolean)
+								},
+						tag
+					);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								subtask,
+								message: taskId
+									? `Task ${taskId} successfully converted to subtask ${id}.${subtask.id}`
+									: `New subtask ${id}.${subtask.id} successfully created`
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in add-subtask: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to add subtask: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
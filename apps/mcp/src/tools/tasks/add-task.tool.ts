@@ -0,0 +1,161 @@
+/**
+ * @fileoverview add-task MCP tool
+ * Add a new task from a title and description, or from a prompt with AI
+ */
+
+import { TASK_PRIORITIES, type TaskPriority } from '@tm/core';
+import type { ContentResult, FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const AddTaskSchema = z.object({
+	prompt: z
+		.string()
+		.optional()
+		.describe(
+			'Description of the task to add (required if not using manual fields)'
+		),
+	title: z
+		.string()
+		.optional()
+		.describe('Task title (for manual task creation)'),
+	description: z
+		.string()
+		.optional()
+		.describe('Task description (for manual task creation)'),
+	details: z
+		.string()
+		.optional()
+		.describe('Implementation details (for manual task creation)'),
+	testStrategy: z
+		.string()
+		.optional()
+		.describe('Test strategy (for manual task creation)'),
+	dependencies: z
+		.string()
+		.optional()
+		.describe('Comma-separated list of task IDs this task depends on'),
+	priority: z
+		.enum(TASK_PRIORITIES as [TaskPriority, ...TaskPriority[]])
+		.optional()
+		.describe("Task priority (default: 'medium')"),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	tag: z.string().optional().describe('Tag context to operate on'),
+	research: z
+		.boolean()
+		.optional()
+		.describe('Whether to use research capabilities for task creation')
+});
+
+export type AddTaskArgs = z.infer<typeof AddTaskSchema>;
+
+/**
+ * Creates a task from `prompt` with AI
+ * AI task generation is not part of tm-core, so the server supplies it
+ */
+export type AddTaskWithPrompt = (
+	args: AddTaskArgs & { projectRoot: string },
+	context: ToolContext
+) => Promise<ContentResult>;
+
+/**
+ * Register the add_task tool with the MCP server
+ * @param addTaskWithPrompt - Handles calls with a prompt instead of a title and description
+ */
+export function registerAddTaskTool(
+	server: FastMCP,
+	addTaskWithPrompt?: AddTaskWithPrompt
+) {
+	server.addTool({
+		name: 'add_task',
+		description:
+			'Add a new task, either from a title and description or generated with AI from a prompt',
+		parameters: AddTaskSchema,
+		execute: withToolContext(
+			'add-task',
+			async (args: AddTaskArgs, context: ToolContext) => {
+				const { log, tmCore } = context;
+				const {
+					prompt,
+					title,
+					description,
+					details,
+					testStrategy,
+					dependencies,
+					priority,
+					projectRoot,
+					tag
+				} = args;
+
+				try {
+					if (!title || !description) {
+						if (prompt && addTaskWithPrompt) {
+							return await addTaskWithPrompt({ ...args, projectRoot }, context);
+						}
+						return handleApiResult({
+							result: {
+								success: false,
+								error: {
+									message: addTaskWithPrompt
+										? 'Either the prompt parameter or both title and description parameters are required for adding a task'
+										: 'Both title and description are required for adding a task'
+								}
+							},
+							log,
+							projectRoot
+						});
+					}
+
+					log.info(`Adding task "${title}" in root: ${projectRoot}`);
+
+					const task = await tmCore.tasks.add(
+						{
+							title,
+							description,
+							details,
+							testStrategy,
+							priority,
+							dependencies: dependencies
+								?.split(',')
+								.map((dep) => dep.trim())
+								.filter(Boolean)
+						},
+						tag
+					);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								taskId: task.id,
+								task,
+								message: `Successfully added new task #${task.id}`
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in add-task: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to add task: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
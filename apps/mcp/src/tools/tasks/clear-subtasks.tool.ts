@@ -0,0 +1,91 @@
+/**
+ * @fileoverview clear-subtasks MCP tool
+ * Remove all subtasks of some or all tasks
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const ClearSubtasksSchema = z
+	.object({
+		id: z
+			.string()
+			.optional()
+			.describe('Task IDs (comma-separated) to clear subtasks from'),
+		all: z.boolean().optional().describe('Clear subtasks from all tasks'),
+		projectRoot: z
+			.string()
+			.describe('The directory of the project. Must be an absolute path.'),
+		tag: z.string().optional().describe('Tag context to operate on')
+	})
+	.refine((data) => data.id || data.all, {
+		message: "Either 'id' or 'all' parameter must be provided",
+		path: ['id', 'all']
+	});
+
+type ClearSubtasksArgs = z.infer<typeof ClearSubtasksSchema>;
+
+/**
+ * Register the clear_subtasks tool with the MCP server
+ */
+export function registerClearSubtasksTool(server: FastMCP) {
+	server.addTool({
+		name: 'clear_subtasks',
+		description: 'Clear subtasks from specified tasks',
+		parameters: ClearSubtasksSchema,
+		execute: withToolContext(
+			'clear-subtasks',
+			async (args: ClearSubtasksArgs, { log, tmCore }: ToolContext) => {
+				const { id, all, projectRoot, tag } = args;
+
+				try {
+					const ids = all
+						? 'all'
+						: id!
+								.split(',')
+								.map((taskId) => taskId.trim())
+								.filter(Boolean);
+					log.info(
+						`Clearing subtasks of ${ids === 'all' ? 'all tasks' : `task(s) ${ids.join(', ')}`}`
+					);
+
+					const result = await tmCore.tasks.clearSubtasks(ids, tag);
+					const total = Object.values(result.cleared).reduce(
+						(sum, count) => sum + count,
+						0
+					);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								...result,
+								message: `Cleared ${total} subtask(s) from ${Object.keys(result.cleared).length} task(s)`
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in clear-subtasks: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to clear subtasks: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
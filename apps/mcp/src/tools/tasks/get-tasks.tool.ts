@@ -9,7 +9,8 @@ import {
 	withToolContext
 } from '../../shared/utils.js';
 import type { ToolContext } from '../../shared/types.js';
-import type { TaskStatus, Task } from '@tm/core';
+import { parseTaskFields, parseTaskSort } from '@tm/core';
+import type { TaskFilter, TaskStatus, Task } from '@tm/core';
 import type { FastMCP } from 'fastmcp';
 
 const GetTasksSchema = z.object({
@@ -22,10 +23,46 @@ const GetTasksSchema = z.object({
 		.describe(
 			"Filter tasks by status (e.g., 'pending', 'done') or multiple statuses separated by commas (e.g., 'blocked,deferred')"
 		),
+	query: z
+		.string()
+		.optional()
+		.describe(
+			"Filter tasks with a query of space-separated terms that must all match, e.g. 'status:pending priority>=high dep:none complexity>6 updated<7d title~auth'. Fields: id, status, priority, complexity, dep (none, ready, blocked or a task ID), subtasks, created, updated, title, description, details, tags, assignee, effort. Bare words search the text, '-' negates a term and '@name' uses a saved query"
+		),
 	withSubtasks: z
 		.boolean()
 		.optional()
 		.describe('Include subtasks nested within their parent tasks in the response'),
+	sort: z
+		.string()
+		.optional()
+		.describe(
+			"Sort by one or more comma-separated fields, each optionally suffixed with ':asc' or ':desc' (e.g., 'priority:desc,id'). Status, priority and complexity sort by rank"
+		),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe('Maximum number of tasks to return'),
+	offset: z
+		.number()
+		.int()
+		.nonnegative()
+		.optional()
+		.describe('Number of tasks to skip before the first returned task'),
+	cursor: z
+		.string()
+		.optional()
+		.describe(
+			'Continue after a previous page, using the nextCursor it returned. Cannot be combined with offset'
+		),
+	fields: z
+		.string()
+		.optional()
+		.describe(
+			"Comma-separated task fields to return (e.g., 'id,title,status'). The ID is always included"
+		),
 	tag: z.string().optional().describe('Tag context to operate on')
 });
 
@@ -38,43 +75,75 @@ export function registerGetTasksTool(server: FastMCP) {
 	server.addTool({
 		name: 'get_tasks',
 		description:
-			'Get all tasks from Task Master, optionally filtering by status and including subtasks.',
+			'Get all tasks from Task Master, optionally filtering by status or a query, sorting, paginating, selecting fields and including subtasks. Stats always cover every matching task, not just the returned page.',
 		parameters: GetTasksSchema,
 		execute: withToolContext(
 			'get-tasks',
 			async (args: GetTasksArgs, { log, tmCore }: ToolContext) => {
-				const { projectRoot, status, withSubtasks, tag } = args;
+				const {
+					projectRoot,
+					status,
+					query,
+					withSubtasks,
+					sort,
+					limit,
+					offset,
+					cursor,
+					fields,
+					tag
+				} = args;
 
 				try {
 					log.info(
-						`Getting tasks from ${projectRoot}${status ? ` with status filter: ${status}` : ''}${tag ? ` for tag: ${tag}` : ''}`
+						`Getting tasks from ${projectRoot}${status ? ` with status filter: ${status}` : ''}${query ? ` matching query: ${query}` : ''}${tag ? ` for tag: ${tag}` : ''}`
 					);
 
 					// Build filter
-					const filter =
-						status && status !== 'all'
-							? {
-									status: status
-										.split(',')
-										.map((s: string) => s.trim() as TaskStatus)
-								}
-							: undefined;
+					const filter: TaskFilter = {};
+					if (status && status !== 'all') {
+						filter.status = status
+							.split(',')
+							.map((s: string) => s.trim() as TaskStatus);
+					}
+					if (query) {
+						filter.query = query;
+					}
 
-					// Call tm-core tasks.list()
-					const result = await tmCore.tasks.list({
+					const listOptions = {
 						tag,
-						filter,
+						filter: Object.keys(filter).length > 0 ? filter : undefined,
 						includeSubtasks: withSubtasks
+					};
+
+					// Call tm-core tasks.list()
+					const result = await tmCore.tasks.list({
+						...listOptions,
+						sort: sort ? parseTaskSort(sort) : undefined,
+						limit,
+						offset,
+						cursor,
+						fields: fields ? parseTaskFields(fields) : undefined
 					});
 
 					log.info(
 						`Retrieved ${result.tasks?.length || 0} tasks (${result.filtered} filtered, ${result.total} total)`
 					);
 
-					// Calculate stats using reduce for cleaner code
+					// Stats cover every matching task, so a page or a field selection
+					// needs the complete list
+					const paged =
+						limit !== undefined ||
+						offset !== undefined ||
+						cursor !== undefined ||
+						fields !== undefined;
 					const tasks = result.tasks ?? [];
+					const statsTasks = paged
+						? ((await tmCore.tasks.list(listOptions)).tasks ?? [])
+						: tasks;
+
+					// Calculate stats using reduce for cleaner code
 					const totalTasks = result.total;
-					const taskCounts = tasks.reduce(
+					const taskCounts = statsTasks.reduce(
 						(acc, task) => {
 							acc[task.status] = (acc[task.status] || 0) + 1;
 							return acc;
@@ -86,7 +155,7 @@ export function registerGetTasksTool(server: FastMCP) {
 						totalTasks > 0 ? ((taskCounts.done || 0) / totalTasks) * 100 : 0;
 
 					// Count subtasks using reduce
-					const subtaskCounts = tasks.reduce(
+					const subtaskCounts = statsTasks.reduce(
 						(acc, task) => {
 							task.subtasks?.forEach((st) => {
 								acc.total++;
@@ -108,6 +177,8 @@ export function registerGetTasksTool(server: FastMCP) {
 							data: {
 								tasks: tasks as Task[],
 								filter: status || 'all',
+								...(query && { query }),
+								...(result.nextCursor && { nextCursor: result.nextCursor }),
 								stats: {
 									total: totalTasks,
 									completed: taskCounts.done || 0,
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview import-brief MCP tool
+ * Pull the tasks of a Hamster brief into a local tag
+ */
+
+import { z } from 'zod';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+import type { ToolContext } from '../../shared/types.js';
+import type { FastMCP } from 'fastmcp';
+
+const ImportBriefSchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	brief: z
+		.string()
+		.optional()
+		.describe(
+			'Brief ID or Hamster brief URL to import (defaults to the selected brief)'
+		),
+	replace: z
+		.boolean()
+		.optional()
+		.describe(
+			'Replace the tasks already in the tag. Without it, importing into a tag that has tasks fails'
+		),
+	dryRun: z
+		.boolean()
+		.optional()
+		.describe('Return the tasks that would be imported without writing them'),
+	tag: z
+		.string()
+		.optional()
+		.describe('Local tag to import into (defaults to the active tag)')
+});
+
+type ImportBriefArgs = z.infer<typeof ImportBriefSchema>;
+
+/**
+ * Register the import_brief tool with the MCP server
+ */
+export function registerImportBriefTool(server: FastMCP) {
+	server.addTool({
+		name: 'import_brief',
+		description:
+			'Import the tasks of a Hamster brief into a local tag in tasks.json so they can be worked on offline. Tasks are renumbered from 1 (subtasks as 1.1, 1.2, ...), dependencies follow the new IDs, and idMap maps each brief display ID (e.g. HAM-12) to its local ID. Requires being logged in to Hamster.',
+		parameters: ImportBriefSchema,
+		execute: withToolContext(
+			'import-brief',
+			async (args: ImportBriefArgs, { log, tmCore }: ToolContext) => {
+				const { projectRoot, brief, replace, dryRun, tag } = args;
+
+				try {
+					log.info(
+						`Importing ${brief ? `brief ${brief}` : 'the selected brief'} into ${projectRoot}${tag ? ` tag ${tag}` : ''}${dryRun ? ' (dry run)' : ''}`
+					);
+
+					const result = await tmCore.integration.importBrief({
+						brief,
+						tag,
+						replace,
+						dryRun
+					});
+
+					log.info(
+						`${dryRun ? 'Would import' : 'Imported'} ${result.tasks.length} tasks into tag ${result.tag}`
+					);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: result
+						},
+						log,
+						projectRoot,
+						tag: result.tag
+					});
+				} catch (error: any) {
+					log.error(`Error in import-brief: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to import brief: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
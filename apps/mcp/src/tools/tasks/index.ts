@@ -5,3 +5,16 @@
 
 export { registerGetTasksTool } from './get-tasks.tool.js';
 export { registerGetTaskTool } from './get-task.tool.js';
+export { registerSearchTasksTool } from './search-tasks.tool.js';
+export {
+	registerAddTaskTool,
+	type AddTaskArgs,
+	type AddTaskWithPrompt
+} from './add-task.tool.js';
+export { registerRemoveTaskTool } from './remove-task.tool.js';
+export { registerMoveTaskTool } from './move-task.tool.js';
+export { registerAddSubtaskTool } from './add-subtask.tool.js';
+export { registerRemoveSubtaskTool } from './remove-subtask.tool.js';
+export { registerClearSubtasksTool } from './clear-subtasks.tool.js';
+export { registerImportBriefTool } from './import-brief.tool.js';
+export { registerSyncBriefTool } from './sync-brief.tool.js';
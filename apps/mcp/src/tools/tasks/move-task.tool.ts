@@ -0,0 +1,167 @@
+/**
+ * @fileoverview move-task MCP tool
+ * Move tasks and subtasks within a tag or to another tag
+ */
+
+import type { MoveTaskResult } from '@tm/core';
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const MoveTaskSchema = z.object({
+	from: z
+		.string()
+		.describe(
+			'ID of the task/subtask to move (e.g., "5" or "5.2"). Can be comma-separated to move multiple tasks (e.g., "5,6,7")'
+		),
+	to: z
+		.string()
+		.optional()
+		.describe(
+			'ID of the destination (e.g., "7" or "7.3"). Required for within-tag moves. For cross-tag moves, if omitted, task will be moved to the target tag maintaining its ID'
+		),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	tag: z.string().optional().describe('Tag context to operate on'),
+	fromTag: z.string().optional().describe('Source tag for cross-tag moves'),
+	toTag: z.string().optional().describe('Target tag for cross-tag moves'),
+	withDependencies: z
+		.boolean()
+		.optional()
+		.describe('Move dependent tasks along with main task'),
+	ignoreDependencies: z
+		.boolean()
+		.optional()
+		.describe('Break cross-tag dependencies during move')
+});
+
+type MoveTaskArgs = z.infer<typeof MoveTaskSchema>;
+
+const splitIds = (ids: string) =>
+	ids
+		.split(',')
+		.map((id) => id.trim())
+		.filter(Boolean);
+
+/**
+ * Register the move_task tool with the MCP server
+ */
+export function registerMoveTaskTool(server: FastMCP) {
+	server.addTool({
+		name: 'move_task',
+		description:
+			'Move a task or subtask to a new position, supporting moves within a tag and to another tag (fromTag/toTag)',
+		parameters: MoveTaskSchema,
+		execute: withToolContext(
+			'move-task',
+			async (args: MoveTaskArgs, { log, tmCore }: ToolContext) => {
+				const {
+					from,
+					to,
+					projectRoot,
+					tag,
+					fromTag,
+					toTag,
+					withDependencies,
+					ignoreDependencies
+				} = args;
+
+				try {
+					const fromIds = splitIds(from);
+
+					if (fromTag && toTag && fromTag !== toTag) {
+						log.info(
+							`Moving task(s) ${fromIds.join(', ')} from tag "${fromTag}" to "${toTag}"`
+						);
+						const result = await tmCore.tasks.moveToTag(
+							fromIds,
+							fromTag,
+							toTag,
+							{ withDependencies, ignoreDependencies }
+						);
+
+						return handleApiResult({
+							result: {
+								success: true,
+								data: {
+									...result,
+									message: `Successfully moved ${result.movedIds.length} task(s) from "${fromTag}" to "${toTag}"`
+								}
+							},
+							log,
+							projectRoot,
+							tag: toTag
+						});
+					}
+
+					if (!to) {
+						return handleApiResult({
+							result: {
+								success: false,
+								error: {
+									message:
+										'Destination ID (to) is required for moves within a tag'
+								}
+							},
+							log,
+							projectRoot
+						});
+					}
+
+					const toIds = splitIds(to);
+					if (fromIds.length !== toIds.length) {
+						return handleApiResult({
+							result: {
+								success: false,
+								error: {
+									message: `Number of source IDs (${fromIds.length}) must match number of destination IDs (${toIds.length})`
+								}
+							},
+							log,
+							projectRoot
+						});
+					}
+
+					const moveTag = tag ?? fromTag;
+					const moves: MoveTaskResult[] = [];
+					for (const [index, sourceId] of fromIds.entries()) {
+						log.info(`Moving ${sourceId} to ${toIds[index]}`);
+						moves.push(
+							await tmCore.tasks.move(sourceId, toIds[index], moveTag)
+						);
+					}
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								moves,
+								message: `Successfully moved ${moves.length} task(s)/subtask(s)`
+							}
+						},
+						log,
+						projectRoot,
+						tag: moveTag
+					});
+				} catch (error: any) {
+					log.error(`Error in move-task: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to move task: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
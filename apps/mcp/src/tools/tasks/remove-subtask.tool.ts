@@ -0,0 +1,82 @@
+/**
+ * @fileoverview remove-subtask MCP tool
+ * Remove a subtask, optionally converting it to a standalone task
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const RemoveSubtaskSchema = z.object({
+	id: z
+		.string()
+		.describe("Subtask ID to remove in format 'parentId.subtaskId' (required)"),
+	convert: z
+		.boolean()
+		.optional()
+		.describe(
+			'Convert the subtask to a standalone task instead of deleting it'
+		),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type RemoveSubtaskArgs = z.infer<typeof RemoveSubtaskSchema>;
+
+/**
+ * Register the remove_subtask tool with the MCP server
+ */
+export function registerRemoveSubtaskTool(server: FastMCP) {
+	server.addTool({
+		name: 'remove_subtask',
+		description: 'Remove a subtask from its parent task',
+		parameters: RemoveSubtaskSchema,
+		execute: withToolContext(
+			'remove-subtask',
+			async (args: RemoveSubtaskArgs, { log, tmCore }: ToolContext) => {
+				const { id, convert, projectRoot, tag } = args;
+
+				try {
+					log.info(
+						`${convert ? 'Converting' : 'Removing'} subtask ${id} in root: ${projectRoot}`
+					);
+
+					const result = await tmCore.tasks.removeSubtask(id, { convert }, tag);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								...result,
+								message: result.task
+									? `Subtask ${id} successfully converted to task ${result.task.id}`
+									: `Subtask ${id} successfully removed`
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in remove-subtask: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to remove subtask: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview remove-task MCP tool
+ * Remove tasks or subtasks and drop dependencies on them
+ */
+
+import type { FastMCP } from 'fastmcp';
+import { z } from 'zod';
+import type { ToolContext } from '../../shared/types.js';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+
+const RemoveTaskSchema = z.object({
+	id: z
+		.string()
+		.describe(
+			"ID of the task or subtask to remove (e.g., '5' or '5.2'). Can be comma-separated to remove multiple tasks/subtasks at once."
+		),
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	tag: z
+		.string()
+		.optional()
+		.describe(
+			'Specify which tag context to operate on. Defaults to the current active tag.'
+		)
+});
+
+type RemoveTaskArgs = z.infer<typeof RemoveTaskSchema>;
+
+/**
+ * Register the remove_task tool with the MCP server
+ */
+export function registerRemoveTaskTool(server: FastMCP) {
+	server.addTool({
+		name: 'remove_task',
+		description:
+			'Remove tasks or subtasks permanently. Dependencies on the removed items are removed from the remaining tasks.',
+		parameters: RemoveTaskSchema,
+		execute: withToolContext(
+			'remove-task',
+			async (args: RemoveTaskArgs, { log, tmCore }: ToolContext) => {
+				const { id, projectRoot, tag } = args;
+
+				try {
+					const ids = id
+						.split(',')
+						.map((taskId) => taskId.trim())
+						.filter(Boolean);
+					log.info(
+						`Removing task(s) ${ids.join(', ')} in root: ${projectRoot}`
+					);
+
+					const result = await tmCore.tasks.remove(ids, tag);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								removedTasks: result.removed,
+								dependentsUpdated: result.dependentsUpdated,
+								message: `Successfully removed ${result.removed.length} task(s)/subtask(s): ${ids.join(', ')}`
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in remove-task: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to remove task: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview search-tasks MCP tool
+ * Find tasks by free text with ranked fuzzy and semantic matching
+ */
+
+import { z } from 'zod';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+import type { ToolContext } from '../../shared/types.js';
+import type { FastMCP } from 'fastmcp';
+
+const SearchTasksSchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	query: z
+		.string()
+		.min(1)
+		.describe(
+			"Free text to search for in task titles, descriptions, details and subtasks (e.g., 'user auth login'). Typos and word prefixes still match"
+		),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe('Maximum number of results (default: 20)'),
+	minScore: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe(
+			'Only return results scoring at least this much, 0-1 (default: 0.3)'
+		),
+	semantic: z
+		.boolean()
+		.optional()
+		.describe(
+			'Also rank by meaning using the embedding provider configured under search.embeddings (default: on when configured)'
+		),
+	tag: z.string().optional().describe('Tag context to operate on')
+});
+
+type SearchTasksArgs = z.infer<typeof SearchTasksSchema>;
+
+/**
+ * Register the search_tasks tool with the MCP server
+ */
+export function registerSearchTasksTool(server: FastMCP) {
+	server.addTool({
+		name: 'search_tasks',
+		description:
+			'Search tasks by free text. Returns matching tasks best first with a score from 0 to 1 and the fields (title, description, details or a subtask) that matched.',
+		parameters: SearchTasksSchema,
+		execute: withToolContext(
+			'search-tasks',
+			async (args: SearchTasksArgs, { log, tmCore }: ToolContext) => {
+				const { projectRoot, query, limit, minScore, semantic, tag } = args;
+
+				try {
+					log.info(`Searching tasks in ${projectRoot} for: ${query}`);
+
+					const results = await tmCore.tasks.search(query, {
+						tag,
+						limit,
+						minScore,
+						semantic
+					});
+
+					log.info(`Found ${results.length} matching tasks`);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: {
+								query,
+								results: results.map((result) => ({
+									id: result.task.id,
+									title: result.task.title,
+									status: result.task.status,
+									priority: result.task.priority,
+									score: result.score,
+									fuzzyScore: result.fuzzyScore,
+									...(result.semanticScore !== undefined && {
+										semanticScore: result.semanticScore
+									}),
+									matches: result.matches
+								}))
+							}
+						},
+						log,
+						projectRoot,
+						tag
+					});
+				} catch (error: any) {
+					log.error(`Error in search-tasks: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to search tasks: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
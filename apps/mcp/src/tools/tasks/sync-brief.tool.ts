@@ -0,0 +1,110 @@
+/**
+ * @fileoverview sync-brief MCP tool
+ * Sync a local tag with a Hamster brief in both directions
+ */
+
+import { SYNC_FIELDS } from '@tm/core';
+import { z } from 'zod';
+import { handleApiResult, withToolContext } from '../../shared/utils.js';
+import type { ToolContext } from '../../shared/types.js';
+import type { FastMCP } from 'fastmcp';
+
+const SyncBriefSchema = z.object({
+	projectRoot: z
+		.string()
+		.describe('The directory of the project. Must be an absolute path.'),
+	brief: z
+		.string()
+		.optional()
+		.describe(
+			'Brief ID or Hamster brief URL (defaults to the brief the tag was synced with, then the selected brief)'
+		),
+	dryRun: z
+		.boolean()
+		.optional()
+		.describe('Report changes and conflicts without writing to either side'),
+	resolutions: z
+		.array(
+			z.object({
+				taskId: z
+					.string()
+					.optional()
+					.describe(
+						'Local (e.g. 3.1) or brief (e.g. HAM-12) task ID; all conflicts if omitted'
+					),
+				field: z
+					.enum(SYNC_FIELDS)
+					.optional()
+					.describe("Conflicting field; all of the task's if omitted"),
+				use: z.enum(['local', 'remote']).describe('Side whose value is kept')
+			})
+		)
+		.optional()
+		.describe('How to resolve conflicts reported by a previous sync'),
+	tag: z
+		.string()
+		.optional()
+		.describe('Local tag to sync (defaults to the active tag)')
+});
+
+type SyncBriefArgs = z.infer<typeof SyncBriefSchema>;
+
+/**
+ * Register the sync_brief tool with the MCP server
+ */
+export function registerSyncBriefTool(server: FastMCP) {
+	server.addTool({
+		name: 'sync_brief',
+		description:
+			'Sync a local tag with a Hamster brief. Fields (title, description, status, priority, details, testStrategy) changed on one side since the last sync are copied to the other, and tasks new in the brief are added to the tag. Fields changed differently on both sides are returned as conflicts and left untouched until resolved with resolutions. The tag must have been created with import_brief.',
+		parameters: SyncBriefSchema,
+		execute: withToolContext(
+			'sync-brief',
+			async (args: SyncBriefArgs, { log, tmCore }: ToolContext) => {
+				const { projectRoot, brief, dryRun, resolutions, tag } = args;
+
+				try {
+					log.info(
+						`Syncing ${tag ? `tag ${tag}` : 'the active tag'} in ${projectRoot}${dryRun ? ' (dry run)' : ''}`
+					);
+
+					const result = await tmCore.integration.syncBrief({
+						brief,
+						tag,
+						dryRun,
+						resolutions
+					});
+
+					log.info(
+						`Pulled ${result.pulled.length}, pushed ${result.pushed.length}, added ${result.created.length}, ${result.conflicts.length} conflicts`
+					);
+
+					return handleApiResult({
+						result: {
+							success: true,
+							data: result
+						},
+						log,
+						projectRoot,
+						tag: result.tag
+					});
+				} catch (error: any) {
+					log.error(`Error in sync-brief: ${error.message}`);
+					if (error.stack) {
+						log.debug(error.stack);
+					}
+					return handleApiResult({
+						result: {
+							success: false,
+							error: {
+								message: `Failed to sync brief: ${error.message}`
+							}
+						},
+						log,
+						projectRoot
+					});
+				}
+			}
+		)
+	});
+}
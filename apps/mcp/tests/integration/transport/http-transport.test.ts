@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Integration tests for the HTTP streamable transport
+ *
+ * Starts the MCP server in-process on a local port and drives it with a
+ * minimal JSON-RPC client over fetch.
+ *
+ * @integration
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+// @ts-expect-error - JavaScript module without type declarations
+import TaskMasterMCPServer from '../../../../../mcp-server/src/index.js';
+import { createTask, createTasksFile } from '../../fixtures/task-fixtures';
+
+const AUTH_TOKEN = 'test-token';
+
+const INITIALIZE_PARAMS = {
+	protocolVersion: '2025-03-26',
+	capabilities: {},
+	clientInfo: { name: 'http-transport-test', version: '1.0.0' }
+};
+
+describe('MCP server over HTTP', () => {
+	const port = 40000 + Math.floor(Math.random() * 20000);
+	const url = `http://127.0.0.1:${port}/mcp`;
+	let server: any;
+	let projectA: string;
+	let projectB: string;
+	let requestId = 0;
+
+	const createProject = (name: string, taskTitle: string) => {
+		const projectRoot = fs.mkdtempSync(
+			path.join(os.tmpdir(), `tm-mcp-${name}-`)
+		);
+		const tasksDir = path.join(projectRoot, '.taskmaster', 'tasks');
+		fs.mkdirSync(tasksDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tasksDir, 'tasks.json'),
+			JSON.stringify(
+				createTasksFile({ tasks: [createTask({ id: 1, title: taskTitle })] })
+			)
+		);
+		return projectRoot;
+	};
+
+	/**
+	 * Send a JSON-RPC message and return the response body, parsed from JSON
+	 * or from the server-sent event stream
+	 */
+	const post = async (
+		body: Record<string, unknown>,
+		headers: Record<string, string> = {}
+	) => {
+		const response = await fetch(url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				Accept: 'application/json, text/event-stream',
+				Authorization: `Bearer ${AUTH_TOKEN}`,
+				...headers
+			},
+			body: JSON.stringify({ jsonrpc: '2.0', ...body })
+		});
+		const text = await response.text();
+		const data = text
+			.split('\n')
+			.filter((line) => line.startsWith('data: '))
+			.map((line) => JSON.parse(line.slice(6)))
+			.find((message) => message.id === body.id);
+		return {
+			status: response.status,
+			sessionId: response.headers.get('mcp-session-id'),
+			message: data ?? (text ? JSON.parse(text) : undefined)
+		};
+	};
+
+	const connect = async (projectRoot?: string) => {
+		const headers: Record<string, string> = projectRoot
+			? { 'X-Task-Master-Project-Root': projectRoot }
+			: {};
+		const { status, sessionId, message } = await post(
+			{
+				id: ++requestId,
+				method: 'initialize',
+				params: INITIALIZE_PARAMS
+			},
+			headers
+		);
+		expect(status).toBe(200);
+		expect(message.result.serverInfo.name).toBe('Task Master MCP Server');
+
+		const session = { 'mcp-session-id': sessionId as string };
+		await post({ method: 'notifications/initialized' }, session);
+
+		return async (method: string, params: Record<string, unknown> = {}) => {
+			const id = ++requestId;
+			const { message } = await post({ id, method, params }, session);
+			return message;
+		};
+	};
+
+	beforeAll(async () => {
+		projectA = createProject('a', 'Task of project A');
+		projectB = createProject('b', 'Task of project B');
+		delete process.env.TASK_MASTER_PROJECT_ROOT;
+
+		server = new TaskMasterMCPServer({
+			transportType: 'httpStream',
+			host: '127.0.0.1',
+			port,
+			endpoint: '/mcp',
+			authToken: AUTH_TOKEN
+		});
+		await server.start();
+	}, 60000);
+
+	afterAll(async () => {
+		await server?.stop();
+		for (const projectRoot of [projectA, projectB]) {
+			fs.rmSync(projectRoot, { recursive: true, force: true });
+		}
+	});
+
+	it('should reject requests without the bearer token', async () => {
+		const { status } = await post(
+			{ id: ++requestId, method: 'initialize', params: INITIALIZE_PARAMS },
+			{ Authorization: 'Bearer wrong-token' }
+		);
+
+		expect(status).toBe(401);
+	});
+
+	it('should reject requests from web pages on other origins', async () => {
+		const { status, message } = await post(
+			{ id: ++requestId, method: 'initialize', params: INITIALIZE_PARAMS },
+			{ Origin: 'https://evil.example' }
+		);
+
+		expect(status).toBe(403);
+		expect(message.error.message).toBe(
+			'Origin https://evil.example is not allowed'
+		);
+	});
+
+	it('should list tools, resources and prompts', async () => {
+		const request = await connect(projectA);
+
+		const tools = await request('tools/list');
+		const templates = await request('resources/templates/list');
+		const prompts = await request('prompts/list');
+
+		expect(tools.result.tools.map((tool: any) => tool.name)).toContain(
+			'get_tasks'
+		);
+		expect(
+			templates.result.resourceTemplates.map((t: any) => t.uriTemplate)
+		).toContain('taskmaster://tasks/{tag}/{id}');
+		expect(prompts.result.prompts.map((p: any) => p.name)).toContain(
+			'implement-next-task'
+		);
+	}, 30000);
+
+	it('should give each session the project root from its header', async () => {
+		const [requestA, requestB] = await Promise.all([
+			connect(projectA),
+			connect(projectB)
+		]);
+
+		const [taskA, taskB] = await Promise.all([
+			requestA('resources/read', { uri: 'taskmaster://tasks/master/1' }),
+			requestB('resources/read', { uri: 'taskmaster://tasks/master/1' })
+		]);
+
+		expect(JSON.parse(taskA.result.contents[0].text).task.title).toBe(
+			'Task of project A'
+		);
+		expect(JSON.parse(taskB.result.contents[0].text).task.title).toBe(
+			'Task of project B'
+		);
+
+		const toolResult = await requestB('tools/call', {
+			name: 'get_tasks',
+			arguments: { projectRoot: projectB }
+		});
+		const { data } = JSON.parse(toolResult.result.content[0].text);
+		expect(data.tasks.map((task: any) => task.title)).toEqual([
+			'Task of project B'
+		]);
+	}, 30000);
+});
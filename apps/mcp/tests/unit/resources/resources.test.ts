@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Tests for the Task Master resources, prompts and resource
+ * change notifications, read by an MCP client over an in-memory transport
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+	type ResourceUpdatedNotification,
+	ResourceUpdatedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { type FastMCP, FastMCPSession } from 'fastmcp';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	registerImplementNextTaskPrompt,
+	registerReviewSubtaskPrompt
+} from '../../../src/prompts/index.js';
+import {
+	ResourceWatcher,
+	registerAutopilotStateResource,
+	registerComplexityReportResource,
+	registerTasksResources
+} from '../../../src/resources/index.js';
+import { createTask, createTasksFile } from '../../fixtures/task-fixtures';
+
+const silentLogger = {
+	debug: () => {},
+	error: () => {},
+	info: () => {},
+	log: () => {},
+	warn: () => {}
+};
+
+/**
+ * Collect what the register functions add to a FastMCP server
+ */
+function collectDefinitions() {
+	const definitions = {
+		resources: [] as any[],
+		resourcesTemplates: [] as any[],
+		prompts: [] as any[]
+	};
+	const server = {
+		sessions: [],
+		addResource: (resource: any) => definitions.resources.push(resource),
+		addResourceTemplate: (template: any) =>
+			definitions.resourcesTemplates.push(template),
+		addPrompt: (prompt: any) => definitions.prompts.push(prompt)
+	} as unknown as FastMCP;
+
+	registerTasksResources(server);
+	registerComplexityReportResource(server);
+	registerAutopilotStateResource(server);
+	registerImplementNextTaskPrompt(server);
+	registerReviewSubtaskPrompt(server);
+	return definitions;
+}
+
+describe('Task Master resources and prompts', () => {
+	let projectRoot: string;
+	let tasksPath: string;
+	let watcher: ResourceWatcher;
+	let session: FastMCPSession;
+	let client: Client;
+
+	const writeTasks = (tasks: ReturnType<typeof createTask>[]) =>
+		fs.writeFileSync(tasksPath, JSON.stringify(createTasksFile({ tasks })));
+
+	beforeEach(async () => {
+		projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'tm-mcp-resources-'));
+		tasksPath = path.join(projectRoot, '.taskmaster', 'tasks', 'tasks.json');
+		fs.mkdirSync(path.dirname(tasksPath), { recursive: true });
+		writeTasks([
+			createTask({ id: 1, title: 'Set up the database', status: 'done' }),
+			createTask({ id: 2, title: 'Add the login page', dependencies: ['1'] })
+		]);
+		vi.stubEnv('TASK_MASTER_PROJECT_ROOT', projectRoot);
+
+		watcher = new ResourceWatcher({
+			resolveProjectRoot: () => projectRoot,
+			debounceMs: 20
+		});
+		session = new FastMCPSession({
+			...collectDefinitions(),
+			logger: silentLogger,
+			name: 'test-server',
+			ping: { enabled: false },
+			tools: [],
+			transportType: 'stdio',
+			version: '1.0.0'
+		});
+		watcher.addSession(session);
+
+		client = new Client({ name: 'test-client', version: '1.0.0' });
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair();
+		await Promise.all([
+			client.connect(clientTransport),
+			session.connect(serverTransport)
+		]);
+	});
+
+	afterEach(async () => {
+		await client.close();
+		await session.close();
+		watcher.stop();
+		vi.unstubAllEnvs();
+		fs.rmSync(projectRoot, { recursive: true, force: true });
+	});
+
+	describe('resources', () => {
+		it('should advertise resource subscriptions', () => {
+			expect(client.getServerCapabilities()?.resources).toEqual(
+				expect.objectContaining({ subscribe: true })
+			);
+		});
+
+		it('should read the tasks of a tag', async () => {
+			const result = await client.readResource({
+				uri: 'taskmaster://tasks/master'
+			});
+
+			const { total, tasks } = JSON.parse(result.contents[0].text as string);
+			expect(total).toBe(2);
+			expect(tasks.map((task: any) => task.title)).toEqual([
+				'Set up the database',
+				'Add the login page'
+			]);
+		});
+
+		it('should read a single task', async () => {
+			const result = await client.readResource({
+				uri: 'taskmaster://tasks/master/2'
+			});
+
+			const { task } = JSON.parse(result.contents[0].text as string);
+			expect(task.title).toBe('Add the login page');
+		});
+	});
+
+	describe('prompts', () => {
+		it('should prompt to implement the next available task', async () => {
+			const result = await client.getPrompt({ name: 'implement-next-task' });
+
+			const text = (result.messages[0].content as { text: string }).text;
+			expect(text).toContain('Add the login page');
+			expect(text).toContain('set task 2 to in-progress');
+		});
+	});
+
+	describe('notifications', () => {
+		const waitForUpdate = () =>
+			new Promise<ResourceUpdatedNotification>((resolve) =>
+				client.setNotificationHandler(
+					ResourceUpdatedNotificationSchema,
+					resolve
+				)
+			);
+
+		it('should notify subscribers when the tasks file changes', async () => {
+			await client.subscribeResource({ uri: 'taskmaster://tasks/master' });
+			const updated = waitForUpdate();
+
+			writeTasks([createTask({ id: 1, title: 'Set up the database' })]);
+
+			await expect(updated).resolves.toMatchObject({
+				params: { uri: 'taskmaster://tasks/master' }
+			});
+		});
+
+		it('should stop watching the project once its last session disconnects', async () => {
+			const watchSpy = vi.spyOn(fs, 'watch');
+			await client.subscribeResource({ uri: 'taskmaster://tasks/master' });
+			const projectWatchers = watchSpy.mock.results.map(
+				(result) => result.value as fs.FSWatcher
+			);
+			expect(projectWatchers.length).toBeGreaterThan(0);
+			const closeSpies = projectWatchers.map((projectWatcher) =>
+				vi.spyOn(projectWatcher, 'close')
+			);
+
+			watcher.removeSession(session);
+
+			for (const closeSpy of closeSpies) {
+				expect(closeSpy).toHaveBeenCalled();
+			}
+		});
+
+		it('should stop watching the project once its last subscription ends', async () => {
+			const watchSpy = vi.spyOn(fs, 'watch');
+			await client.subscribeResource({ uri: 'taskmaster://tasks/master' });
+			const closeSpies = watchSpy.mock.results.map((result) =>
+				vi.spyOn(result.value as fs.FSWatcher, 'close')
+			);
+
+			await client.unsubscribeResource({ uri: 'taskmaster://tasks/master' });
+
+			expect(closeSpies.length).toBeGreaterThan(0);
+			for (const closeSpy of closeSpies) {
+				expect(closeSpy).toHaveBeenCalled();
+			}
+		});
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Tests for the authentication hook of the HTTP transport
+ */
+
+import fs from 'node:fs';
+import type { IncomingMessage } from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createHttpAuthenticator } from '../../../src/shared/http-auth.js';
+
+const request = (headers: Record<string, string>) =>
+	({ headers: { host: '127.0.0.1:3100', ...headers } }) as IncomingMessage;
+
+/**
+ * Status code the authenticator rejects a request with, or 200
+ */
+async function statusOf(
+	authenticate: ReturnType<typeof createHttpAuthenticator>,
+	headers: Record<string, string>
+): Promise<number> {
+	try {
+		await authenticate(request(headers));
+		return 200;
+	} catch (error) {
+		return (error as Response).status;
+	}
+}
+
+describe('createHttpAuthenticator', () => {
+	let projectsDir: string;
+	let outsideDir: string;
+
+	beforeAll(() => {
+		projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tm-http-projects-'));
+		outsideDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tm-http-outside-'));
+		fs.mkdirSync(path.join(projectsDir, 'app'));
+		fs.symlinkSync(outsideDir, path.join(projectsDir, 'link'));
+	});
+
+	afterAll(() => {
+		fs.rmSync(projectsDir, { recursive: true, force: true });
+		fs.rmSync(outsideDir, { recursive: true, force: true });
+	});
+
+	describe('bearer token', () => {
+		const authenticate = createHttpAuthenticator({ authToken: 'secret' });
+
+		it('should reject requests without the token', async () => {
+			expect(await statusOf(authenticate, {})).toBe(401);
+			expect(
+				await statusOf(authenticate, { authorization: 'Bearer wrong' })
+			).toBe(401);
+		});
+
+		it('should accept requests with the token', async () => {
+			expect(
+				await statusOf(authenticate, { authorization: 'Bearer secret' })
+			).toBe(200);
+		});
+	});
+
+	describe('host and origin', () => {
+		const authenticate = createHttpAuthenticator({
+			allowedHosts: ['tm.example.com']
+		});
+
+		it('should accept localhost and the allowed hosts', async () => {
+			for (const host of [
+				'localhost:3100',
+				'127.0.0.1',
+				'[::1]:3100',
+				'TM.example.com:3100'
+			]) {
+				expect(await statusOf(authenticate, { host })).toBe(200);
+			}
+		});
+
+		it('should reject other hosts, as sent after DNS rebinding', async () => {
+			expect(await statusOf(authenticate, { host: 'evil.example:3100' })).toBe(
+				403
+			);
+		});
+
+		it('should reject requests from other origins', async () => {
+			expect(
+				await statusOf(authenticate, { origin: 'http://localhost:5173' })
+			).toBe(200);
+			expect(
+				await statusOf(authenticate, { origin: 'https://evil.example' })
+			).toBe(403);
+			expect(await statusOf(authenticate, { origin: 'null' })).toBe(403);
+		});
+	});
+
+	describe('project root header', () => {
+		const header = (projectRoot: string) => ({
+			'x-task-master-project-root': projectRoot
+		});
+
+		it('should only accept the header with the token when no roots are configured', async () => {
+			const withoutToken = createHttpAuthenticator();
+			const withToken = createHttpAuthenticator({ authToken: 'secret' });
+
+			expect(await statusOf(withoutToken, header(outsideDir))).toBe(403);
+			expect(await statusOf(withoutToken, {})).toBe(200);
+			expect(
+				await statusOf(withToken, {
+					...header(outsideDir),
+					authorization: 'Bearer secret'
+				})
+			).toBe(200);
+		});
+
+		it('should only accept projects within the configured roots', async () => {
+			const authenticate = createHttpAuthenticator({
+				authToken: 'secret',
+				projectRoots: [projectsDir]
+			});
+			const auth = { authorization: 'Bearer secret' };
+
+			expect(
+				await authenticate(
+					request({ ...auth, ...header(path.join(projectsDir, 'app')) })
+				)
+			).toEqual({
+				env: { TASK_MASTER_PROJECT_ROOT: path.join(projectsDir, 'app') }
+			});
+			expect(
+				await statusOf(authenticate, { ...auth, ...header(outsideDir) })
+			).toBe(403);
+			expect(
+				await statusOf(authenticate, {
+					...auth,
+					...header(path.join(projectsDir, '..'))
+				})
+			).toBe(403);
+			expect(
+				await statusOf(authenticate, {
+					...auth,
+					...header(path.join(projectsDir, 'link'))
+				})
+			).toBe(403);
+		});
+	});
+});
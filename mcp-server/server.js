@@ -14,7 +14,13 @@ process.env.TASK_MASTER_MCP = 'true';
  * Start the MCP server
  */
 async function startServer() {
-	const server = new TaskMasterMCPServer();
+	let server;
+	try {
+		server = new TaskMasterMCPServer();
+	} catch (error) {
+		logger.error(`Invalid MCP server configuration: ${error.message}`);
+		process.exit(1);
+	}
 
 	// Handle graceful shutdown
 	process.on('SIGINT', async () => {
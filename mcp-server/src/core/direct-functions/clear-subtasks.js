@@ -6,9 +6,9 @@ import { clearSubtasks } from '../../../../scripts/modules/task-manager.js';
 import {
 	enableSilentMode,
 	disableSilentMode,
-	readJSON
+	readJSON,
+	tasksFileExists
 } from '../../../../scripts/modules/utils.js';
-import fs from 'fs';
 import path from 'path';
 
 /**
@@ -56,7 +56,7 @@ export async function clearSubtasksDirect(args, log) {
 		const tasksPath = tasksJsonPath;
 
 		// Check if tasks.json exists
-		if (!fs.existsSync(tasksPath)) {
+		if (!tasksFileExists(tasksPath)) {
 			return {
 				success: false,
 				error: {
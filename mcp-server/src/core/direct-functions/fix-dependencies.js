@@ -5,9 +5,9 @@
 import { fixDependenciesCommand } from '../../../../scripts/modules/dependency-manager.js';
 import {
 	enableSilentMode,
-	disableSilentMode
+	disableSilentMode,
+	tasksFileExists
 } from '../../../../scripts/modules/utils.js';
-import fs from 'fs';
 
 /**
  * Fix invalid dependencies in tasks.json automatically
@@ -40,7 +40,7 @@ export async function fixDependenciesDirect(args, log) {
 		const tasksPath = tasksJsonPath;
 
 		// Verify the file exists
-		if (!fs.existsSync(tasksPath)) {
+		if (!tasksFileExists(tasksPath)) {
 			return {
 				success: false,
 				error: {
@@ -5,9 +5,9 @@
 import { validateDependenciesCommand } from '../../../../scripts/modules/dependency-manager.js';
 import {
 	enableSilentMode,
-	disableSilentMode
+	disableSilentMode,
+	tasksFileExists
 } from '../../../../scripts/modules/utils.js';
-import fs from 'fs';
 
 /**
  * Validate dependencies in tasks.json
@@ -40,7 +40,7 @@ export async function validateDependenciesDirect(args, log) {
 		const tasksPath = tasksJsonPath;
 
 		// Verify the file exists
-		if (!fs.existsSync(tasksPath)) {
+		if (!tasksFileExists(tasksPath)) {
 			return {
 				success: false,
 				error: {
@@ -8,8 +8,20 @@ import {
 	registerTaskMasterTools,
 	getToolsConfiguration
 } from './tools/index.js';
+import {
+	ResourceWatcher,
+	createHttpAuthenticator,
+	getServerProjectRoot,
+	getSessionAuthFromHeaders,
+	registerAutopilotStateResource,
+	registerComplexityReportResource,
+	registerImplementNextTaskPrompt,
+	registerReviewSubtaskPrompt,
+	registerTasksResources
+} from '@tm/mcp';
 import ProviderRegistry from '../../src/provider-registry/index.js';
 import { MCPProvider } from './providers/mcp-provider.js';
+import { getTransportConfiguration } from './transport.js';
 import packageJson from '../../package.json' with { type: 'json' };
 
 dotenv.config();
@@ -22,14 +34,37 @@ const __dirname = path.dirname(__filename);
  * Main MCP server class that integrates with Task Master
  */
 class TaskMasterMCPServer {
-	constructor() {
+	/**
+	 * @param {Object} [transport] - Transport configuration (defaults to flags and environment variables)
+	 */
+	constructor(transport = getTransportConfiguration()) {
+		this.transport = transport;
 		this.options = {
 			name: 'Task Master MCP Server',
-			version: packageJson.version
+			version: packageJson.version,
+			// HTTP sessions authenticate and pick their project root per request
+			...(transport.transportType === 'httpStream' && {
+				authenticate: createHttpAuthenticator({
+					authToken: transport.authToken,
+					allowedHosts: [
+						// Clients reach a server bound to one interface by its address
+						...(['0.0.0.0', '::'].includes(transport.host)
+							? []
+							: [transport.host]),
+						...(transport.allowedHosts ?? [])
+					],
+					projectRoots: transport.projectRoots
+				})
+			})
 		};
 
 		this.server = new FastMCP(this.options);
 		this.initialized = false;
+		this.resourceWatcher = new ResourceWatcher({
+			resolveProjectRoot: (headers) =>
+				getServerProjectRoot(this.server, getSessionAuthFromHeaders(headers)),
+			onError: (message) => this.logger.warn(message)
+		});
 
 		this.init = this.init.bind(this);
 		this.start = this.start.bind(this);
@@ -73,6 +108,13 @@ class TaskMasterMCPServer {
 			);
 		}
 
+		registerTasksResources(this.server);
+		registerComplexityReportResource(this.server);
+		registerAutopilotStateResource(this.server);
+		registerImplementNextTaskPrompt(this.server);
+		registerReviewSubtaskPrompt(this.server);
+		this.logger.info('Registered Task Master resources and prompts');
+
 		this.initialized = true;
 
 		return this;
@@ -86,7 +128,21 @@ class TaskMasterMCPServer {
 			await this.init();
 		}
 
-		this.server.on('connect', (event) => {
+		this.server.on('connect', async (event) => {
+			this.resourceWatcher.addSession(event.session);
+
+			// HTTP sessions connect before the client has initialized them
+			try {
+				await event.session.waitForReady();
+			} catch (error) {
+				this.logger.warn(`MCP session not ready: ${error.message}`);
+				return;
+			}
+			// The client may have disconnected while the session was initializing
+			if (!event.session.server.transport) {
+				return;
+			}
+
 			event.session.server.sendLoggingMessage({
 				data: {
 					context: event.session.context,
@@ -97,12 +153,33 @@ class TaskMasterMCPServer {
 			this.registerRemoteProvider(event.session);
 		});
 
-		// Start the FastMCP server with increased timeout
-		await this.server.start({
-			transportType: 'stdio',
-			timeout: 120000 // 2 minutes timeout (in milliseconds)
+		this.server.on('disconnect', (event) => {
+			this.resourceWatcher.removeSession(event.session);
 		});
 
+		if (this.transport.transportType === 'httpStream') {
+			const { host, port, endpoint, authToken } = this.transport;
+			if (!authToken && !['127.0.0.1', 'localhost', '::1'].includes(host)) {
+				this.logger.warn(
+					`MCP server is listening on ${host} without TASK_MASTER_MCP_AUTH_TOKEN; anyone who can reach it can change your tasks`
+				);
+			}
+
+			await this.server.start({
+				transportType: 'httpStream',
+				httpStream: { host, port, endpoint }
+			});
+			this.logger.info(
+				`Task Master MCP Server listening on http://${host}:${port}${endpoint}`
+			);
+		} else {
+			// Start the FastMCP server with increased timeout
+			await this.server.start({
+				transportType: 'stdio',
+				timeout: 120000 // 2 minutes timeout (in milliseconds)
+			});
+		}
+
 		return this;
 	}
 
@@ -156,6 +233,7 @@ class TaskMasterMCPServer {
 	 * Stop the MCP server
 	 */
 	async stop() {
+		this.resourceWatcher.stop();
 		if (this.server) {
 			await this.server.stop();
 		}
@@ -1,122 +1,60 @@
 /**
  * tools/add-task.js
- * Tool to add a new task using AI
+ * AI task creation for the add_task tool
  */
 
-import { z } from 'zod';
-import {
-	createErrorResponse,
-	handleApiResult,
-	withNormalizedProjectRoot
-} from '@tm/mcp';
+import { createErrorResponse, handleApiResult } from '@tm/mcp';
 import { addTaskDirect } from '../core/task-master-core.js';
 import { findTasksPath } from '../core/utils/path-utils.js';
 import { resolveTag } from '../../../scripts/modules/utils.js';
 
 /**
- * Register the addTask tool with the MCP server
- * @param {Object} server - FastMCP server instance
+ * Create a task from a prompt with AI
+ * Called by the typed add_task tool from @tm/mcp, which adds tasks from a
+ * title and description through tm-core itself
+ * @param {Object} args - Tool arguments, with the normalized projectRoot
+ * @param {Object} context - Tool context with log and session
  */
-export function registerAddTaskTool(server) {
-	server.addTool({
-		name: 'add_task',
-		description: 'Add a new task using AI',
-		parameters: z.object({
-			prompt: z
-				.string()
-				.optional()
-				.describe(
-					'Description of the task to add (required if not using manual fields)'
-				),
-			title: z
-				.string()
-				.optional()
-				.describe('Task title (for manual task creation)'),
-			description: z
-				.string()
-				.optional()
-				.describe('Task description (for manual task creation)'),
-			details: z
-				.string()
-				.optional()
-				.describe('Implementation details (for manual task creation)'),
-			testStrategy: z
-				.string()
-				.optional()
-				.describe('Test strategy (for manual task creation)'),
-			dependencies: z
-				.string()
-				.optional()
-				.describe('Comma-separated list of task IDs this task depends on'),
-			priority: z
-				.string()
-				.optional()
-				.describe('Task priority (high, medium, low)'),
-			file: z
-				.string()
-				.optional()
-				.describe('Path to the tasks file (default: tasks/tasks.json)'),
-			projectRoot: z
-				.string()
-				.describe('The directory of the project. Must be an absolute path.'),
-			tag: z.string().optional().describe('Tag context to operate on'),
-			research: z
-				.boolean()
-				.optional()
-				.describe('Whether to use research capabilities for task creation')
-		}),
-		execute: withNormalizedProjectRoot(async (args, { log, session }) => {
-			try {
-				log.info(`Starting add-task with args: ${JSON.stringify(args)}`);
+export async function addTaskWithPrompt(args, { log, session }) {
+	try {
+		log.info(`Starting add-task with args: ${JSON.stringify(args)}`);
 
-				const resolvedTag = resolveTag({
-					projectRoot: args.projectRoot,
-					tag: args.tag
-				});
+		const resolvedTag = resolveTag({
+			projectRoot: args.projectRoot,
+			tag: args.tag
+		});
 
-				// Use args.projectRoot directly (guaranteed by withNormalizedProjectRoot)
-				let tasksJsonPath;
-				try {
-					tasksJsonPath = findTasksPath(
-						{ projectRoot: args.projectRoot, file: args.file },
-						log
-					);
-				} catch (error) {
-					log.error(`Error finding tasks.json: ${error.message}`);
-					return createErrorResponse(
-						`Failed to find tasks.json: ${error.message}`
-					);
-				}
+		let tasksJsonPath;
+		try {
+			tasksJsonPath = findTasksPath({ projectRoot: args.projectRoot }, log);
+		} catch (error) {
+			log.error(`Error finding tasks.json: ${error.message}`);
+			return createErrorResponse(`Failed to find tasks.json: ${error.message}`);
+		}
 
-				// Call the direct function
-				const result = await addTaskDirect(
-					{
-						tasksJsonPath: tasksJsonPath,
-						prompt: args.prompt,
-						title: args.title,
-						description: args.description,
-						details: args.details,
-						testStrategy: args.testStrategy,
-						dependencies: args.dependencies,
-						priority: args.priority,
-						research: args.research,
-						projectRoot: args.projectRoot,
-						tag: resolvedTag
-					},
-					log,
-					{ session }
-				);
+		// Call the direct function
+		const result = await addTaskDirect(
+			{
+				tasksJsonPath: tasksJsonPath,
+				prompt: args.prompt,
+				dependencies: args.dependencies,
+				priority: args.priority,
+				research: args.research,
+				projectRoot: args.projectRoot,
+				tag: resolvedTag
+			},
+			log,
+			{ session }
+		);
 
-				return handleApiResult({
-					result,
-					log: log,
-					errorPrefix: 'Error adding task',
-					projectRoot: args.projectRoot
-				});
-			} catch (error) {
-				log.error(`Error in add-task tool: ${error.message}`);
-				return createErrorResponse(error.message);
-			}
-		})
-	});
+		return handleApiResult({
+			result,
+			log: log,
+			errorPrefix: 'Error adding task',
+			projectRoot: args.projectRoot
+		});
+	} catch (error) {
+		log.error(`Error in add-task tool: ${error.message}`);
+		return createErrorResponse(error.message);
+	}
 }
@@ -4,6 +4,7 @@
  */
 
 import logger from '../logger.js';
+import { runWithChangeContext } from '../../../scripts/modules/utils.js';
 import {
 	toolRegistry,
 	coreTools,
@@ -30,6 +31,25 @@ export function getToolsConfiguration() {
 	return normalizedValue;
 }
 
+/**
+ * Wraps the server so the tasks file writes of the legacy commands a tool
+ * runs are attributed to the tool in the change journal
+ * @param {Object} server - FastMCP server instance
+ * @returns {Object} An object with the server's addTool
+ */
+function withToolChangeContext(server) {
+	return {
+		addTool: (tool) =>
+			server.addTool({
+				...tool,
+				execute: (args, context) =>
+					runWithChangeContext({ source: 'mcp', command: tool.name }, () =>
+						tool.execute(args, context)
+					)
+			})
+	};
+}
+
 /**
  * Register Task Master tools with the MCP server
  * Supports selective tool loading via TASK_MASTER_TOOLS environment variable
@@ -38,6 +58,7 @@ export function getToolsConfiguration() {
  * @returns {Object} Object containing registered tools, failed tools, and normalized mode
  */
 export function registerTaskMasterTools(server, toolMode = 'all') {
+	const toolServer = withToolChangeContext(server);
 	const registeredTools = [];
 	const failedTools = [];
 
@@ -153,7 +174,7 @@ export function registerTaskMasterTools(server, toolMode = 'all') {
 			try {
 				const registerFunction = getToolRegistration(toolName);
 				if (registerFunction) {
-					registerFunction(server);
+					registerFunction(toolServer);
 					logger.debug(`Registered tool: ${toolName}`);
 					registeredTools.push(toolName);
 				} else {
@@ -194,7 +215,7 @@ export function registerTaskMasterTools(server, toolMode = 'all') {
 			const registerFunction = getToolRegistration(toolName);
 			if (registerFunction) {
 				try {
-					registerFunction(server);
+					registerFunction(toolServer);
 					registeredTools.push(toolName);
 				} catch (err) {
 					if (err.message && err.message.includes('already registered')) {
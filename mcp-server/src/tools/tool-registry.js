@@ -10,28 +10,13 @@ import { registerUpdateTaskTool } from './update-task.js';
 import { registerUpdateSubtaskTool } from './update-subtask.js';
 import { registerNextTaskTool } from './next-task.js';
 import { registerExpandTaskTool } from './expand-task.js';
-import { registerAddTaskTool } from './add-task.js';
-import { registerAddSubtaskTool } from './add-subtask.js';
-import { registerRemoveSubtaskTool } from './remove-subtask.js';
+import { addTaskWithPrompt } from './add-task.js';
 import { registerAnalyzeProjectComplexityTool } from './analyze.js';
-import { registerClearSubtasksTool } from './clear-subtasks.js';
 import { registerExpandAllTool } from './expand-all.js';
-import { registerRemoveDependencyTool } from './remove-dependency.js';
-import { registerValidateDependenciesTool } from './validate-dependencies.js';
-import { registerFixDependenciesTool } from './fix-dependencies.js';
 import { registerComplexityReportTool } from './complexity-report.js';
-import { registerAddDependencyTool } from './add-dependency.js';
-import { registerRemoveTaskTool } from './remove-task.js';
 import { registerInitializeProjectTool } from './initialize-project.js';
 import { registerModelsTool } from './models.js';
-import { registerMoveTaskTool } from './move-task.js';
 import { registerResponseLanguageTool } from './response-language.js';
-import { registerAddTagTool } from './add-tag.js';
-import { registerDeleteTagTool } from './delete-tag.js';
-import { registerListTagsTool } from './list-tags.js';
-import { registerUseTagTool } from './use-tag.js';
-import { registerRenameTagTool } from './rename-tag.js';
-import { registerCopyTagTool } from './copy-tag.js';
 import { registerResearchTool } from './research.js';
 import { registerRulesTool } from './rules.js';
 import { registerScopeUpTool } from './scope-up.js';
@@ -47,12 +32,36 @@ import {
 	registerAutopilotCommitTool,
 	registerAutopilotFinalizeTool,
 	registerAutopilotAbortTool,
+	registerAutopilotLogTool,
+	registerAutopilotListTool,
 	registerGetTasksTool,
-	registerGetTaskTool
+	registerGetTaskTool,
+	registerSearchTasksTool,
+	registerGetDependencyGraphTool,
+	registerGetTaskHistoryTool,
+	registerUndoChangesTool,
+	registerAddTaskTool,
+	registerRemoveTaskTool,
+	registerMoveTaskTool,
+	registerAddSubtaskTool,
+	registerRemoveSubtaskTool,
+	registerClearSubtasksTool,
+	registerImportBriefTool,
+	registerSyncBriefTool,
+	registerAddDependencyTool,
+	registerRemoveDependencyTool,
+	registerValidateDependenciesTool,
+	registerFixDependenciesTool,
+	registerAddTagTool,
+	registerDeleteTagTool,
+	registerListTagsTool,
+	registerUseTagTool,
+	registerRenameTagTool,
+	registerCopyTagTool
 } from '@tm/mcp';
 
 /**
- * Comprehensive tool registry mapping all 44 tool names to their registration functions
+ * Comprehensive tool registry mapping all 51 tool names to their registration functions
  * Used for dynamic tool registration and validation
  */
 export const toolRegistry = {
@@ -68,10 +77,12 @@ export const toolRegistry = {
 	scope_down_task: registerScopeDownTool,
 	get_tasks: registerGetTasksTool,
 	get_task: registerGetTaskTool,
+	search_tasks: registerSearchTasksTool,
 	next_task: registerNextTaskTool,
 	complexity_report: registerComplexityReportTool,
 	set_task_status: registerSetTaskStatusTool,
-	add_task: registerAddTaskTool,
+	// Tasks from a prompt are still generated by the legacy AI task manager
+	add_task: (server) => registerAddTaskTool(server, addTaskWithPrompt),
 	add_subtask: registerAddSubtaskTool,
 	update: registerUpdateTool,
 	update_task: registerUpdateTaskTool,
@@ -80,10 +91,15 @@ export const toolRegistry = {
 	remove_subtask: registerRemoveSubtaskTool,
 	clear_subtasks: registerClearSubtasksTool,
 	move_task: registerMoveTaskTool,
+	import_brief: registerImportBriefTool,
+	sync_brief: registerSyncBriefTool,
 	add_dependency: registerAddDependencyTool,
 	remove_dependency: registerRemoveDependencyTool,
 	validate_dependencies: registerValidateDependenciesTool,
 	fix_dependencies: registerFixDependenciesTool,
+	get_dependency_graph: registerGetDependencyGraphTool,
+	get_task_history: registerGetTaskHistoryTool,
+	undo_changes: registerUndoChangesTool,
 	list_tags: registerListTagsTool,
 	add_tag: registerAddTagTool,
 	delete_tag: registerDeleteTagTool,
@@ -98,7 +114,9 @@ export const toolRegistry = {
 	autopilot_complete: registerAutopilotCompleteTool,
 	autopilot_commit: registerAutopilotCommitTool,
 	autopilot_finalize: registerAutopilotFinalizeTool,
-	autopilot_abort: registerAutopilotAbortTool
+	autopilot_abort: registerAutopilotAbortTool,
+	autopilot_log: registerAutopilotLogTool,
+	autopilot_list: registerAutopilotListTool
 };
 
 /**
@@ -9,7 +9,11 @@ import fs from 'fs';
 import { contextManager } from '../core/context-manager.js'; // Import the singleton
 import { fileURLToPath } from 'url';
 import packageJson from '../../../package.json' with { type: 'json' };
-import { getCurrentTag } from '../../../scripts/modules/utils.js';
+import {
+	getCurrentTag,
+	readTasksFile,
+	tasksFileExists
+} from '../../../scripts/modules/utils.js';
 
 // Import path utilities to ensure consistent path resolution
 import {
@@ -64,8 +68,8 @@ function getTagInfo(projectRoot, log) {
 				'tasks',
 				'tasks.json'
 			);
-			if (fs.existsSync(tasksJsonPath)) {
-				const tasksData = JSON.parse(fs.readFileSync(tasksJsonPath, 'utf-8'));
+			if (tasksFileExists(tasksJsonPath)) {
+				const tasksData = readTasksFile(tasksJsonPath);
 
 				// If it's the new tagged format, extract tag keys
 				if (
@@ -0,0 +1,99 @@
+/**
+ * transport.js
+ * Transport configuration for the MCP server
+ */
+
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3100;
+const DEFAULT_HTTP_ENDPOINT = '/mcp';
+
+/**
+ * Read the transport configuration from command line flags, falling back to
+ * environment variables:
+ * --transport / TASK_MASTER_MCP_TRANSPORT ('stdio' or 'http', default 'stdio')
+ * --host / TASK_MASTER_MCP_HOST (default 127.0.0.1)
+ * --port / TASK_MASTER_MCP_PORT (default 3100)
+ * --endpoint / TASK_MASTER_MCP_ENDPOINT (default /mcp)
+ * --allowed-hosts / TASK_MASTER_MCP_ALLOWED_HOSTS (comma-separated host names
+ *   clients may reach the server by, besides localhost)
+ * --project-roots / TASK_MASTER_MCP_PROJECT_ROOTS (directories, separated like
+ *   PATH, that sessions may choose projects in)
+ * TASK_MASTER_MCP_AUTH_TOKEN (bearer token HTTP clients must send)
+ * @param {string[]} [argv] - Command line arguments
+ * @returns {Object} Transport configuration
+ * @throws {Error} When a value is invalid
+ */
+export function getTransportConfiguration(argv = process.argv.slice(2)) {
+	const { values } = parseArgs({
+		args: argv,
+		options: {
+			transport: { type: 'string' },
+			host: { type: 'string' },
+			port: { type: 'string' },
+			endpoint: { type: 'string' },
+			'allowed-hosts': { type: 'string' },
+			'project-roots': { type: 'string' }
+		},
+		strict: false
+	});
+	const env = process.env;
+
+	const transport = (
+		values.transport ||
+		env.TASK_MASTER_MCP_TRANSPORT ||
+		'stdio'
+	)
+		.trim()
+		.toLowerCase();
+
+	if (transport === 'stdio') {
+		return { transportType: 'stdio' };
+	}
+	if (transport !== 'http') {
+		throw new Error(
+			`Invalid MCP transport "${transport}". Use "stdio" or "http".`
+		);
+	}
+
+	const rawPort = values.port || env.TASK_MASTER_MCP_PORT;
+	const port = rawPort ? Number(rawPort) : DEFAULT_HTTP_PORT;
+	if (!Number.isInteger(port) || port < 1 || port > 65535) {
+		throw new Error(`Invalid MCP HTTP port "${rawPort}"`);
+	}
+
+	const endpoint =
+		values.endpoint || env.TASK_MASTER_MCP_ENDPOINT || DEFAULT_HTTP_ENDPOINT;
+	if (!endpoint.startsWith('/')) {
+		throw new Error(`MCP HTTP endpoint "${endpoint}" must start with "/"`);
+	}
+
+	const allowedHosts = (
+		values['allowed-hosts'] ||
+		env.TASK_MASTER_MCP_ALLOWED_HOSTS ||
+		''
+	)
+		.split(',')
+		.map((host) => host.trim())
+		.filter(Boolean);
+	const projectRoots = (
+		values['project-roots'] ||
+		env.TASK_MASTER_MCP_PROJECT_ROOTS ||
+		''
+	)
+		.split(path.delimiter)
+		.filter(Boolean)
+		.map((dir) => path.resolve(dir));
+
+	return {
+		transportType: 'httpStream',
+		host: values.host || env.TASK_MASTER_MCP_HOST || DEFAULT_HTTP_HOST,
+		port,
+		endpoint,
+		authToken: env.TASK_MASTER_MCP_AUTH_TOKEN || undefined,
+		allowedHosts,
+		projectRoots
+	};
+}
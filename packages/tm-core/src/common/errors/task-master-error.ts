@@ -36,6 +36,8 @@ export const ERROR_CODES = {
 	// Storage errors
 	STORAGE_ERROR: 'STORAGE_ERROR',
 	DATABASE_ERROR: 'DATABASE_ERROR',
+	FILE_LOCK_TIMEOUT: 'FILE_LOCK_TIMEOUT',
+	CONCURRENT_MODIFICATION: 'CONCURRENT_MODIFICATION',
 
 	// Configuration errors
 	CONFIG_ERROR: 'CONFIG_ERROR',
@@ -3,9 +3,13 @@
  * This file defines the contract for configuration management
  */
 
+import type { CustomExecutorDefinition } from '../../modules/execution/types.js';
+import type { TaskImportSettings } from '../../modules/integration/importers/types.js';
+import type { TaskSearchSettings } from '../../modules/tasks/search/types.js';
 import type {
 	StorageType,
 	TaskComplexity,
+	TaskFileFormat,
 	TaskPriority
 } from '../types/index.js';
 
@@ -106,6 +110,16 @@ export interface RuntimeStorageConfig {
 	type: StorageType;
 	/** Base path for file storage (if configured) */
 	basePath?: string;
+	/** Format of the local tasks file (default: json) */
+	format?: TaskFileFormat;
+	/** Back up the tasks file before every save (file storage) */
+	enableBackup?: boolean;
+	/** Maximum number of tasks file backups to retain (file storage) */
+	maxBackups?: number;
+	/** Store the tasks file gzip-compressed (file storage) */
+	enableCompression?: boolean;
+	/** Write the tasks file through a temporary file and rename (file storage) */
+	atomicOperations?: boolean;
 	/** API endpoint for API storage (Hamster integration) */
 	apiEndpoint?: string;
 	/** Access token for API authentication */
@@ -273,6 +287,8 @@ export interface WorkflowSettings {
 		 */
 		maxFailuresInGreen: number;
 	};
+	/** Add a REFACTOR phase (tests must stay green) between GREEN and COMMIT */
+	enableRefactorPhase: boolean;
 	/** Commit message template pattern */
 	commitMessageTemplate: string;
 	/** Conventional commit types allowed */
@@ -342,6 +358,18 @@ export interface IConfiguration {
 	/** Security settings */
 	security: SecuritySettings;
 
+	/** Custom executors selectable with `tm start --executor <name>` */
+	executors?: Record<string, CustomExecutorDefinition>;
+
+	/** Saved task queries, used as `@name` in queries such as `tm list --query` */
+	queries?: Record<string, string>;
+
+	/** Task search settings, such as the embedding provider for `tm search` */
+	search?: TaskSearchSettings;
+
+	/** Field mappings for `tm import-file`, per file format */
+	import?: TaskImportSettings;
+
 	/** Custom user-defined settings */
 	custom?: Record<string, unknown>;
 
@@ -544,6 +572,7 @@ export const DEFAULT_CONFIG_VALUES = {
 		CO_AUTHOR_EMAIL: 'taskmaster@tryhamster.com',
 		MIN_TESTS: 1,
 		MAX_FAILURES_IN_GREEN: 0,
+		ENABLE_REFACTOR_PHASE: false,
 		COMMIT_MESSAGE_TEMPLATE:
 			'{type}({scope}): {description} (Task {taskId}.{subtaskIndex})',
 		ALLOWED_COMMIT_TYPES: [
@@ -4,7 +4,12 @@
  */
 
 import type { ExpandTaskResult } from '../../modules/integration/services/task-expansion.service.js';
-import type { Task, TaskMetadata, TaskStatus } from '../types/index.js';
+import type {
+	StorageType,
+	Task,
+	TaskMetadata,
+	TaskStatus
+} from '../types/index.js';
 
 /**
  * Options for loading tasks from storage
@@ -14,6 +19,11 @@ export interface LoadTasksOptions {
 	status?: TaskStatus;
 	/** Exclude subtasks from loaded tasks (default: false) */
 	excludeSubtasks?: boolean;
+	/**
+	 * The tasks will not be saved back, so the load is not used as the base
+	 * version for concurrent modification checks (default: false)
+	 */
+	readOnly?: boolean;
 }
 
 /**
@@ -24,6 +34,8 @@ export interface UpdateStatusResult {
 	oldStatus: TaskStatus;
 	newStatus: TaskStatus;
 	taskId: string;
+	/** The API was unreachable and the change waits in the offline outbox */
+	queued?: boolean;
 }
 
 /**
@@ -220,9 +232,9 @@ export interface IStorage {
 
 	/**
 	 * Get the storage type identifier
-	 * @returns The type of storage implementation ('file' or 'api')
+	 * @returns The type of storage implementation ('file', 'api' or 'sqlite')
 	 */
-	getStorageType(): 'file' | 'api';
+	getStorageType(): Exclude<StorageType, 'auto'>;
 
 	/**
 	 * Get the current brief name (only applicable for API storage)
@@ -235,6 +247,14 @@ export interface IStorage {
 	 * @returns Promise that resolves to tags with statistics
 	 */
 	getTagsWithStats(): Promise<TagsWithStatsResult>;
+
+	/**
+	 * Run several calls while holding the tasks lock, so writers in other
+	 * processes wait until they are done (optional)
+	 * @param fn - Calls to run under the lock
+	 * @returns Promise that resolves to the result of fn
+	 */
+	withTasksLock?<T>(fn: () => Promise<T>): Promise<T>;
 }
 
 /**
@@ -377,7 +397,7 @@ export abstract class BaseStorage implements IStorage {
 	abstract initialize(): Promise<void>;
 	abstract close(): Promise<void>;
 	abstract getStats(): Promise<StorageStats>;
-	abstract getStorageType(): 'file' | 'api';
+	abstract getStorageType(): Exclude<StorageType, 'auto'>;
 	abstract getCurrentBriefName(): string | null;
 	abstract getTagsWithStats(): Promise<TagsWithStatsResult>;
 	/**
@@ -6,9 +6,17 @@
  * Storage type options
  * - 'file': Local file system storage
  * - 'api': Remote API storage (Hamster integration)
+ * - 'sqlite': Local SQLite database (.taskmaster/tasks/tasks.db)
  * - 'auto': Automatically detect based on auth status
  */
-export type StorageType = 'file' | 'api' | 'auto';
+export type StorageType = 'file' | 'api' | 'sqlite' | 'auto';
+
+/**
+ * Task file format options for file storage
+ * - 'json': .taskmaster/tasks/tasks.json
+ * - 'markdown': .taskmaster/tasks/tasks.md, human-editable
+ */
+export type TaskFileFormat = 'json' | 'markdown';
 
 // ============================================================================
 // Type Literals
@@ -157,6 +165,8 @@ export interface TaskFilter {
 	hasSubtasks?: boolean;
 	search?: string;
 	assignee?: string;
+	/** Query in the task query language, e.g. `status:pending priority>=high` */
+	query?: string;
 }
 
 /**
@@ -41,6 +41,29 @@ export type {
 	TagInfo,
 	TagsWithStatsResult
 } from './common/interfaces/storage.interface.js';
+export type {
+	ConvertTasksFileOptions,
+	ConvertTasksFileResult
+} from './modules/storage/adapters/file-storage/task-file-converter.js';
+export type { FileLockOptions } from './modules/storage/adapters/file-storage/file-lock.js';
+export type { FileStorageOptions } from './modules/storage/adapters/file-storage/file-storage.js';
+export type {
+	RestoreBackupResult,
+	TaskFileBackup
+} from './modules/storage/adapters/file-storage/backup-manager.js';
+export type {
+	SqliteStorageOptions,
+	TaggedTasksData
+} from './modules/storage/adapters/sqlite-storage/sqlite-storage.js';
+export type {
+	LocalStorageType,
+	MigrateStorageOptions,
+	MigrateStorageResult
+} from './modules/storage/adapters/sqlite-storage/storage-migrator.js';
+export type {
+	OutboxEntry,
+	OutboxOperation
+} from './modules/storage/adapters/api-outbox.js';
 
 // Constants
 export * from './common/constants/index.js';
@@ -57,7 +80,8 @@ export * from './utils/time.utils.js';
 // Task types
 export type {
 	TaskListResult,
-	GetTaskListOptions
+	GetTaskListOptions,
+	NextTaskOptions
 } from './modules/tasks/services/task-service.js';
 
 export type {
@@ -71,6 +95,41 @@ export type {
 	CheckResult
 } from './modules/tasks/services/preflight-checker.service.js';
 
+export type {
+	ClearSubtasksResult,
+	MoveTaskResult,
+	MoveTasksToTagOptions,
+	MoveTasksToTagResult,
+	NewSubtaskData,
+	NewTaskData,
+	RemoveSubtaskResult,
+	RemoveTasksResult
+} from './modules/tasks/services/task-structure.service.js';
+
+export type {
+	PrdParserOptions,
+	TaskParser
+} from './modules/tasks/parser/index.js';
+
+export type {
+	TaskQueryOperator,
+	TaskQueryOptions,
+	TaskQueryTerm
+} from './modules/tasks/query/task-query.js';
+export type {
+	EmbeddingProvider,
+	EmbeddingProviderFactory,
+	TaskSearchMatch,
+	TaskSearchOptions,
+	TaskSearchResult,
+	TaskSearchSettings
+} from './modules/tasks/search/types.js';
+export type {
+	AIOptions,
+	AIResponse,
+	IAIProvider
+} from './modules/ai/interfaces/ai-provider.interface.js';
+
 // Task domain result types
 export type TaskWithSubtaskResult = Awaited<ReturnType<TasksDomain['get']>>;
 
@@ -95,26 +154,131 @@ export type { TagWithStats } from './modules/briefs/services/brief-service.js';
 // Workflow types
 export type {
 	StartWorkflowOptions,
+	WorkflowServiceOptions,
 	WorkflowStatus,
-	NextAction
+	NextAction,
+	RunPhaseTestsResult
 } from './modules/workflow/services/workflow.service.js';
 
+export type {
+	RunTestsOptions,
+	TestRunResult
+} from './modules/workflow/services/test-runner.service.js';
+
 export type {
 	WorkflowPhase,
 	TDDPhase,
 	WorkflowContext,
 	WorkflowState,
-	TestResult
+	TestResult,
+	TestCaseResult,
+	TestCoverage,
+	TestReportFormat,
+	TestReportSource
 } from './modules/workflow/types.js';
 
+export type { ParseTestReportOptions } from './modules/workflow/services/test-report-parser.js';
+
+export type {
+	WorkflowJournalQuery,
+	WorkflowJournalEntry,
+	WorkflowJournalResult,
+	WorkflowSessionSummary
+} from './modules/workflow/services/workflow-journal.service.js';
+
+export type {
+	WorkflowSessionInfo,
+	WorkflowDependencyConflict,
+	WorkflowTaskDependencies
+} from './modules/workflow/services/workflow-sessions.service.js';
+
+// Execution types
+export type {
+	ExecutorType,
+	ExecutionResult,
+	ShellExecutorConfig,
+	CustomExecutorDefinition,
+	ExecutorFactoryFunction,
+	ExecutorPluginModule,
+	ITaskExecutor
+} from './modules/execution/types.js';
+export type { ExecuteTaskOptions } from './modules/tasks/tasks-domain.js';
+
 // Git types
 export type { CommitMessageOptions } from './modules/git/services/commit-message-generator.js';
+export type { GitWorktree } from './modules/git/adapters/git-adapter.js';
+
+// Dependency types
+export type {
+	BlockedByResult,
+	CriticalPathResult,
+	DependencyChangeResult,
+	DependencyDirection,
+	DependencyEdge,
+	DependencyFixResult,
+	DependencyGraphFormat,
+	DependencyGraphJson,
+	DependencyGraphOptions,
+	DependencyIssue,
+	DependencyIssueType,
+	DependencyNode,
+	DependencyValidationResult,
+	RenderDependencyGraphOptions
+} from './modules/dependencies/types.js';
+export type { FixDependenciesOptions } from './modules/dependencies/services/dependency.service.js';
+
+// History types
+export type {
+	ChangeContext,
+	ChangeJournalEntry,
+	ChangeOperation,
+	TaskChange,
+	TaskHistoryEntry,
+	TaskHistoryQuery,
+	UndoOptions,
+	UndoResult
+} from './modules/history/types.js';
+export type { JournaledStorageOptions } from './modules/history/adapters/journaled-storage.js';
 
 // Integration types
 export type {
 	ExportTasksOptions,
-	ExportResult
+	ExportResult,
+	ExportTaskFilters,
+	ExportToFileOptions,
+	ExportFileResult
 } from './modules/integration/services/export.service.js';
+export type {
+	ExportContext,
+	GitHubIssueExport,
+	TaskExporter
+} from './modules/integration/exporters/index.js';
+export type {
+	ImportFileDuplicate,
+	ImportFileOptions,
+	ImportFileResult
+} from './modules/integration/services/file-import.service.js';
+export type {
+	FieldMapping,
+	ImportField,
+	ImportedTask,
+	TaskImporter,
+	TaskImportSettings
+} from './modules/integration/importers/index.js';
+export type {
+	BriefStorageFactory,
+	ImportBriefOptions,
+	ImportBriefResult,
+	LocalStorageProvider
+} from './modules/integration/services/import.service.js';
+export type {
+	SyncBriefOptions,
+	SyncBriefResult,
+	SyncChange,
+	SyncConflict,
+	SyncField,
+	SyncResolution
+} from './modules/integration/services/sync.service.js';
 
 // Reports types
 export type {
@@ -137,6 +301,11 @@ export { BriefService } from './modules/briefs/services/brief-service.js';
 export { WorkflowOrchestrator } from './modules/workflow/orchestrators/workflow-orchestrator.js';
 export { WorkflowStateManager } from './modules/workflow/managers/workflow-state-manager.js';
 export { WorkflowService } from './modules/workflow/services/workflow.service.js';
+export { TestReportParser } from './modules/workflow/services/test-report-parser.js';
+export { TestRunnerService } from './modules/workflow/services/test-runner.service.js';
+export { WorkflowJournalService } from './modules/workflow/services/workflow-journal.service.js';
+export { WorkflowSessionsService } from './modules/workflow/services/workflow-sessions.service.js';
+export { WorkflowActivityLogger } from './modules/workflow/services/workflow-activity-logger.js';
 export type { SubtaskInfo } from './modules/workflow/types.js';
 
 // Git - Advanced
@@ -146,6 +315,71 @@ export { CommitMessageGenerator } from './modules/git/services/commit-message-ge
 // Tasks - Advanced
 export { PreflightChecker } from './modules/tasks/services/preflight-checker.service.js';
 export { TaskLoaderService } from './modules/tasks/services/task-loader.service.js';
+export { PrdParser } from './modules/tasks/parser/prd-parser.js';
+export { TaskQuery } from './modules/tasks/query/task-query.js';
+export {
+	TASK_FIELDS,
+	parseTaskFields,
+	parseTaskSort,
+	pickTaskFields,
+	sortTasks
+} from './modules/tasks/query/task-list-options.js';
+export { TaskSearchService } from './modules/tasks/services/task-search.service.js';
+export { HashingEmbeddingProvider } from './modules/tasks/search/embedding-providers.js';
+export { EmbeddingIndex } from './modules/tasks/search/embedding-index.js';
+
+// Reports - Advanced
+export { ComplexityReportManager } from './modules/reports/managers/complexity-report-manager.js';
+
+// Dependencies - Advanced
+export { DependenciesDomain } from './modules/dependencies/dependencies-domain.js';
+export { DependencyGraph } from './modules/dependencies/entities/dependency-graph.entity.js';
+export { DependencyGraphRenderer } from './modules/dependencies/services/dependency-graph-renderer.js';
+export { DependencyService } from './modules/dependencies/services/dependency.service.js';
+
+// History - Advanced
+export { HistoryDomain } from './modules/history/history-domain.js';
+export { JournaledStorage } from './modules/history/adapters/journaled-storage.js';
+export { ChangeJournal } from './modules/history/services/change-journal.service.js';
+export { HistoryService } from './modules/history/services/history.service.js';
+export { diffTasks } from './modules/history/services/task-diff.js';
+
+// Storage - Advanced
+export { MarkdownTaskFormat } from './modules/storage/adapters/file-storage/markdown-format.js';
+export { TaskFileConverter } from './modules/storage/adapters/file-storage/task-file-converter.js';
+export { FileLock } from './modules/storage/adapters/file-storage/file-lock.js';
+export { BackupManager } from './modules/storage/adapters/file-storage/backup-manager.js';
+export { SqliteStorage } from './modules/storage/adapters/sqlite-storage/sqlite-storage.js';
+export { StorageMigrator } from './modules/storage/adapters/sqlite-storage/storage-migrator.js';
+export { ApiOutbox } from './modules/storage/adapters/api-outbox.js';
+
+// Execution - Advanced
+export { ExecutorFactory } from './modules/execution/executors/executor-factory.js';
+export { ExecutorRegistry } from './modules/execution/executors/executor-registry.js';
+export { ShellExecutor } from './modules/execution/executors/shell-executor.js';
+export { ExecutorService } from './modules/execution/services/executor-service.js';
 
 // Integration - Advanced
 export { ExportService } from './modules/integration/services/export.service.js';
+export {
+	ExporterRegistry,
+	CsvExporter,
+	MarkdownExporter,
+	HtmlExporter,
+	GitHubIssuesExporter,
+	JiraCsvExporter
+} from './modules/integration/exporters/index.js';
+export { FileImportService } from './modules/integration/services/file-import.service.js';
+export {
+	IMPORT_FIELDS,
+	ImporterRegistry,
+	CsvImporter,
+	GitHubIssuesImporter,
+	JiraCsvImporter,
+	PrdImporter
+} from './modules/integration/importers/index.js';
+export { ImportService } from './modules/integration/services/import.service.js';
+export {
+	SYNC_FIELDS,
+	SyncService
+} from './modules/integration/services/sync.service.js';
@@ -198,7 +198,7 @@ export class AuthDomain {
 	 *                              Get this from tmCore.tasks.getStorageType()
 	 */
 	getStorageDisplayInfo(
-		resolvedStorageType: 'file' | 'api'
+		resolvedStorageType: Exclude<StorageType, 'auto'>
 	): StorageDisplayInfo {
 		if (resolvedStorageType === 'api') {
 			const context = this.getContext();
@@ -215,6 +215,13 @@ export class AuthDomain {
 			}
 		}
 
+		if (resolvedStorageType === 'sqlite') {
+			return {
+				storageType: 'sqlite',
+				filePath: path.join('.taskmaster', 'tasks', 'tasks.db')
+			};
+		}
+
 		// Default to file storage display
 		return {
 			storageType: 'file',
@@ -149,6 +149,11 @@ export class ConfigManager {
 			return {
 				type: storageType,
 				basePath,
+				format: storage?.format,
+				enableBackup: storage?.enableBackup,
+				maxBackups: storage?.maxBackups,
+				enableCompression: storage?.enableCompression,
+				atomicOperations: storage?.atomicOperations,
 				apiEndpoint: storage?.apiEndpoint,
 				apiAccessToken: storage?.apiAccessToken,
 				apiConfigured: Boolean(storage?.apiEndpoint || storage?.apiAccessToken)
@@ -158,6 +163,11 @@ export class ConfigManager {
 		return {
 			type: storageType,
 			basePath,
+			format: storage?.format,
+			enableBackup: storage?.enableBackup,
+			maxBackups: storage?.maxBackups,
+			enableCompression: storage?.enableCompression,
+			atomicOperations: storage?.atomicOperations,
 			apiConfigured: false
 		};
 	}
@@ -53,6 +53,8 @@ export class ConfigLoader {
 					maxFailuresInGreen:
 						DEFAULT_CONFIG_VALUES.WORKFLOW.MAX_FAILURES_IN_GREEN
 				},
+				enableRefactorPhase:
+					DEFAULT_CONFIG_VALUES.WORKFLOW.ENABLE_REFACTOR_PHASE,
 				commitMessageTemplate:
 					DEFAULT_CONFIG_VALUES.WORKFLOW.COMMIT_MESSAGE_TEMPLATE,
 				allowedCommitTypes: [
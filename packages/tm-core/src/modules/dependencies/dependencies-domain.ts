@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Dependencies Domain Facade
+ * Public API for dependency graph analysis and validation
+ */
+
+import type { IStorage } from '../../common/interfaces/storage.interface.js';
+import type { ConfigManager } from '../config/managers/config-manager.js';
+import type { DependencyGraph } from './entities/dependency-graph.entity.js';
+import {
+	DependencyService,
+	type FixDependenciesOptions
+} from './services/dependency.service.js';
+import type {
+	BlockedByResult,
+	CriticalPathResult,
+	DependencyChangeResult,
+	DependencyFixResult,
+	DependencyGraphOptions,
+	DependencyValidationResult,
+	RenderDependencyGraphOptions
+} from './types.js';
+
+/**
+ * Dependencies Domain - Unified API for task dependency operations
+ * All methods default to the active tag
+ */
+export class DependenciesDomain {
+	private dependencyService: DependencyService;
+
+	constructor(
+		private readonly configManager: ConfigManager,
+		storage: IStorage
+	) {
+		this.dependencyService = new DependencyService(storage);
+	}
+
+	// ========== Graph ==========
+
+	/**
+	 * Build the task/subtask dependency graph
+	 */
+	async getGraph(
+		tag?: string,
+		options?: DependencyGraphOptions
+	): Promise<DependencyGraph> {
+		return this.dependencyService.buildGraph(this.resolveTag(tag), options);
+	}
+
+	/**
+	 * Render the graph as Mermaid, DOT or JSON
+	 */
+	async renderGraph(
+		options: RenderDependencyGraphOptions,
+		tag?: string
+	): Promise<string> {
+		return this.dependencyService.renderGraph(options, this.resolveTag(tag));
+	}
+
+	// ========== Editing ==========
+
+	/**
+	 * Make a task or subtask depend on another one
+	 * Rejects self, duplicate and circular dependencies
+	 */
+	async add(
+		taskId: string,
+		dependsOn: string,
+		tag?: string
+	): Promise<DependencyChangeResult> {
+		return this.dependencyService.addDependency(
+			taskId,
+			dependsOn,
+			this.resolveTag(tag)
+		);
+	}
+
+	/**
+	 * Remove a dependency from a task or subtask
+	 */
+	async remove(
+		taskId: string,
+		dependsOn: string,
+		tag?: string
+	): Promise<DependencyChangeResult> {
+		return this.dependencyService.removeDependency(
+			taskId,
+			dependsOn,
+			this.resolveTag(tag)
+		);
+	}
+
+	// ========== Validation ==========
+
+	/**
+	 * Find self, missing, duplicate and circular dependencies
+	 */
+	async validate(tag?: string): Promise<DependencyValidationResult> {
+		return this.dependencyService.validate(this.resolveTag(tag));
+	}
+
+	/**
+	 * Remove invalid references and break dependency cycles
+	 */
+	async fix(
+		tag?: string,
+		options?: FixDependenciesOptions
+	): Promise<DependencyFixResult> {
+		return this.dependencyService.fix(this.resolveTag(tag), options);
+	}
+
+	// ========== Analysis ==========
+
+	/**
+	 * Task IDs ordered so dependencies come first
+	 */
+	async getTopologicalOrder(
+		tag?: string,
+		options?: DependencyGraphOptions
+	): Promise<string[]> {
+		return this.dependencyService.getTopologicalOrder(
+			this.resolveTag(tag),
+			options
+		);
+	}
+
+	/**
+	 * Longest chain of unfinished work
+	 */
+	async getCriticalPath(
+		tag?: string,
+		options?: DependencyGraphOptions
+	): Promise<CriticalPathResult> {
+		return this.dependencyService.getCriticalPath(
+			this.resolveTag(tag),
+			options
+		);
+	}
+
+	/**
+	 * Unfinished dependencies keeping a task or subtask from being started
+	 */
+	async getBlockedBy(taskId: string, tag?: string): Promise<BlockedByResult> {
+		return this.dependencyService.getBlockedBy(taskId, this.resolveTag(tag));
+	}
+
+	private resolveTag(tag?: string): string {
+		return tag || this.configManager.getActiveTag();
+	}
+}
@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Unit tests for DependencyGraph analyses
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { Subtask, Task, TaskStatus } from '../../../common/types/index.js';
+import {
+	DependencyGraph,
+	compareDependencyIds
+} from './dependency-graph.entity.js';
+
+const createTask = (
+	id: string,
+	dependencies: string[] = [],
+	overrides: Partial<Task> = {}
+): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies,
+	details: '',
+	testStrategy: '',
+	subtasks: [],
+	...overrides
+});
+
+const createSubtask = (
+	id: number,
+	parentId: string,
+	dependencies: Array<string | number> = [],
+	status: TaskStatus = 'pending'
+): Subtask =>
+	({
+		...createTask(String(id)),
+		id,
+		parentId,
+		status,
+		dependencies,
+		subtasks: undefined
+	}) as unknown as Subtask;
+
+describe('DependencyGraph', () => {
+	describe('fromTasks', () => {
+		it('should resolve sibling subtask references to full IDs', () => {
+			const graph = DependencyGraph.fromTasks([
+				createTask('1', [], {
+					subtasks: [createSubtask(1, '1'), createSubtask(2, '1', [1, '2.1'])]
+				}),
+				createTask('2', [], { subtasks: [createSubtask(1, '2')] })
+			]);
+
+			expect(graph.getDependencies('1.2')).toEqual(['1.1', '2.1']);
+			expect(graph.getDependents('1.1')).toEqual(['1.2']);
+		});
+
+		it('should attribute subtask references to the parent without subtasks', () => {
+			const graph = DependencyGraph.fromTasks(
+				[
+					createTask('1', [], { subtasks: [createSubtask(1, '1')] }),
+					createTask('2', ['1.1'])
+				],
+				{ includeSubtasks: false }
+			);
+
+			expect(graph.getNodes().map((node) => node.id)).toEqual(['1', '2']);
+			expect(graph.getEdges()).toEqual([{ from: '2', to: '1' }]);
+		});
+	});
+
+	describe('findInvalidReferences', () => {
+		it('should report self, missing and duplicate references', () => {
+			const graph = DependencyGraph.fromTasks([
+				createTask('1', ['1']),
+				createTask('2', ['1', '1', '99'])
+			]);
+
+			expect(
+				graph
+					.findInvalidReferences()
+					.map((issue) => [issue.type, issue.taskId, issue.dependencyId])
+			).toEqual([
+				['self', '1', '1'],
+				['duplicate', '2', '1'],
+				['missing', '2', '99']
+			]);
+		});
+	});
+
+	describe('findCycles', () => {
+		it('should list each cycle in dependency order', () => {
+			const graph = DependencyGraph.fromTasks([
+				createTask('1', ['3']),
+				createTask('2', ['1']),
+				createTask('3', ['2']),
+				createTask('4', ['5']),
+				createTask('5', ['4']),
+				createTask('6', ['1'])
+			]);
+
+			expect(graph.findCycles()).toEqual([
+				['1', '3', '2'],
+				['4', '5']
+			]);
+		});
+
+		it('should return no cycles for a DAG', () => {
+			const graph = DependencyGraph.fromTasks([
+				createTask('1'),
+				createTask('2', ['1'])
+			]);
+
+			expect(graph.findCycles()).toEqual([]);
+		});
+	});
+
+	describe('subgraph', () => {
+		const graph = DependencyGraph.fromTasks([
+			createTask('1'),
+			createTask('2', ['1']),
+			createTask('3', ['2']),
+			createTask('4', ['1']),
+			createTask('5')
+		]);
+
+		it('should follow dependencies, dependents or both', () => {
+			const ids = (direction: 'dependencies' | 'dependents' | 'both') =>
+				graph
+					.subgraph('2', direction)
+					.getNodes()
+					.map((node) => node.id);
+
+			expect(ids('dependencies')).toEqual(['1', '2']);
+			expect(ids('dependents')).toEqual(['2', '3']);
+			expect(ids('both')).toEqual(['1', '2', '3']);
+		});
+
+		it('should throw for unknown roots', () => {
+			expect(() => graph.subgraph('9')).toThrow('Task 9 not found');
+		});
+	});
+
+	describe('topologicalOrder', () => {
+		it('should put dependencies first and break ties by ID', () => {
+			const graph = DependencyGraph.fromTasks([
+				createTask('10'),
+				createTask('2', ['10']),
+				createTask('3'),
+				createTask('1', ['3'])
+			]);
+
+			expect(graph.topologicalOrder()).toEqual(['3', '1', '10', '2']);
+		});
+
+		it('should throw a dependency error on cycles', () => {
+			const graph = DependencyGraph.fromTasks([
+				createTask('1', ['2']),
+				createTask('2', ['1'])
+			]);
+
+			expect(() => graph.topologicalOrder()).toThrow(TaskMasterError);
+			expect(() => graph.topologicalOrder()).toThrow(
+				expect.objectContaining({
+					code: ERROR_CODES.TASK_DEPENDENCY_ERROR,
+					message: expect.stringContaining('1 -> 2 -> 1')
+				})
+			);
+		});
+	});
+
+	describe('criticalPath', () => {
+		it('should follow the longest chain of unfinished work', () => {
+			const graph = DependencyGraph.fromTasks(
+				[
+					createTask('1', [], { status: 'done' }),
+					createTask('2', ['1']),
+					createTask('3', ['2'], { effort: 3 }),
+					createTask('4', ['1'], { effort: 2 }),
+					createTask('5', ['3', '4'])
+				],
+				{ includeSubtasks: false }
+			);
+
+			expect(graph.criticalPath()).toEqual({
+				path: ['2', '3', '5'],
+				length: 5
+			});
+		});
+
+		it('should return an empty path when everything is done', () => {
+			const graph = DependencyGraph.fromTasks([
+				createTask('1', [], { status: 'done' })
+			]);
+
+			expect(graph.criticalPath()).toEqual({ path: [], length: 0 });
+		});
+	});
+
+	describe('getBlockedBy', () => {
+		it('should list chains down to actionable tasks', () => {
+			const graph = DependencyGraph.fromTasks([
+				createTask('1'),
+				createTask('2', ['1']),
+				createTask('3', [], { status: 'done' }),
+				createTask('4'),
+				createTask('5', ['2', '3', '4'])
+			]);
+
+			expect(graph.getBlockedBy('5')).toEqual({
+				taskId: '5',
+				blockedBy: ['2', '4'],
+				chains: [['2', '1'], ['4']]
+			});
+		});
+
+		it('should throw for unknown tasks', () => {
+			const graph = DependencyGraph.fromTasks([createTask('1')]);
+
+			expect(() => graph.getBlockedBy('9')).toThrow('Task 9 not found');
+		});
+	});
+
+	it('should compare IDs numerically', () => {
+		expect(['10', '1.10', '2', '1.2'].sort(compareDependencyIds)).toEqual([
+			'1.2',
+			'1.10',
+			'2',
+			'10'
+		]);
+	});
+});
@@ -0,0 +1,491 @@
+/**
+ * @fileoverview DependencyGraph - Task/subtask dependency graph and analyses
+ * Pure data structure: building it never touches storage
+ */
+
+import { isTaskComplete } from '../../../common/constants/index.js';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { Task } from '../../../common/types/index.js';
+import type {
+	BlockedByResult,
+	CriticalPathResult,
+	DependencyDirection,
+	DependencyEdge,
+	DependencyGraphOptions,
+	DependencyIssue,
+	DependencyNode
+} from '../types.js';
+
+/**
+ * Compare IDs segment by segment, numerically where possible ("2" < "10", "1.2" < "1.10")
+ */
+export function compareDependencyIds(a: string, b: string): number {
+	const aParts = a.split('.');
+	const bParts = b.split('.');
+	for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+		if (aParts[i] === undefined) return -1;
+		if (bParts[i] === undefined) return 1;
+		const aNum = Number(aParts[i]);
+		const bNum = Number(bParts[i]);
+		const diff =
+			Number.isNaN(aNum) || Number.isNaN(bNum)
+				? aParts[i].localeCompare(bParts[i])
+				: aNum - bNum;
+		if (diff !== 0) return diff;
+	}
+	return 0;
+}
+
+/**
+ * Resolve a subtask dependency to a full ID; plain IDs refer to siblings
+ */
+export function toFullSubtaskDependencyId(
+	parentId: string,
+	dependency: string | number
+): string {
+	const depId = String(dependency);
+	return depId.includes('.') ? depId : `${parentId}.${depId}`;
+}
+
+/**
+ * Directed graph of "depends on" relations between tasks and subtasks
+ */
+export class DependencyGraph {
+	private readonly nodes = new Map<string, DependencyNode>();
+
+	private constructor(nodes: DependencyNode[]) {
+		for (const node of [...nodes].sort((a, b) =>
+			compareDependencyIds(a.id, b.id)
+		)) {
+			this.nodes.set(node.id, node);
+		}
+	}
+
+	/**
+	 * Build the graph of a tag's tasks
+	 *
+	 * Subtask dependencies without a dot refer to sibling subtasks. Without
+	 * subtasks, references to a subtask are attributed to its parent task.
+	 */
+	static fromTasks(
+		tasks: Task[],
+		options: DependencyGraphOptions = {}
+	): DependencyGraph {
+		const includeSubtasks = options.includeSubtasks ?? true;
+		const nodes: DependencyNode[] = [];
+
+		for (const task of tasks) {
+			const taskId = String(task.id);
+			nodes.push({
+				id: taskId,
+				title: task.title,
+				status: task.status,
+				dependencies: (task.dependencies ?? []).map(String),
+				effort: task.effort
+			});
+
+			if (!includeSubtasks) {
+				continue;
+			}
+
+			for (const subtask of task.subtasks ?? []) {
+				nodes.push({
+					id: `${taskId}.${subtask.id}`,
+					title: subtask.title,
+					status: subtask.status,
+					parentId: taskId,
+					dependencies: (subtask.dependencies ?? []).map((dep) =>
+						toFullSubtaskDependencyId(taskId, dep)
+					),
+					effort: subtask.effort
+				});
+			}
+		}
+
+		if (!includeSubtasks) {
+			const taskIds = new Set(nodes.map((node) => node.id));
+			for (const node of nodes) {
+				node.dependencies = node.dependencies.map((dep) => {
+					const parentId = dep.split('.')[0];
+					return !taskIds.has(dep) && taskIds.has(parentId) ? parentId : dep;
+				});
+			}
+		}
+
+		return new DependencyGraph(nodes);
+	}
+
+	// ========== Structure ==========
+
+	/**
+	 * All nodes, ordered by ID
+	 */
+	getNodes(): DependencyNode[] {
+		return [...this.nodes.values()];
+	}
+
+	getNode(id: string): DependencyNode | undefined {
+		return this.nodes.get(String(id));
+	}
+
+	has(id: string): boolean {
+		return this.nodes.has(String(id));
+	}
+
+	/**
+	 * Edges between existing nodes (dangling references are left out)
+	 */
+	getEdges(): DependencyEdge[] {
+		return this.getNodes().flatMap((node) =>
+			this.getDependencies(node.id).map((to) => ({ from: node.id, to }))
+		);
+	}
+
+	/**
+	 * Existing nodes a node directly depends on
+	 */
+	getDependencies(id: string): string[] {
+		const node = this.getNode(id);
+		if (!node) {
+			return [];
+		}
+		return [...new Set(node.dependencies)].filter(
+			(dep) => dep !== node.id && this.nodes.has(dep)
+		);
+	}
+
+	/**
+	 * Nodes that directly depend on a node
+	 */
+	getDependents(id: string): string[] {
+		const target = String(id);
+		return this.getNodes()
+			.filter((node) => this.getDependencies(node.id).includes(target))
+			.map((node) => node.id);
+	}
+
+	// ========== Validation ==========
+
+	/**
+	 * Self, missing and duplicate references, in node order
+	 */
+	findInvalidReferences(): DependencyIssue[] {
+		const issues: DependencyIssue[] = [];
+
+		for (const node of this.getNodes()) {
+			const kind = node.parentId ? 'Subtask' : 'Task';
+			const seen = new Set<string>();
+
+			for (const dep of node.dependencies) {
+				if (seen.has(dep)) {
+					issues.push({
+						type: 'duplicate',
+						taskId: node.id,
+						dependencyId: dep,
+						message: `${kind} ${node.id} lists dependency ${dep} more than once`
+					});
+					continue;
+				}
+				seen.add(dep);
+
+				if (dep === node.id) {
+					issues.push({
+						type: 'self',
+						taskId: node.id,
+						dependencyId: dep,
+						message: `${kind} ${node.id} depends on itself`
+					});
+				} else if (!this.nodes.has(dep)) {
+					issues.push({
+						type: 'missing',
+						taskId: node.id,
+						dependencyId: dep,
+						message: `${kind} ${node.id} depends on non-existent task ${dep}`
+					});
+				}
+			}
+		}
+
+		return issues;
+	}
+
+	/**
+	 * Find every dependency cycle (self-references excluded)
+	 *
+	 * Each cycle is listed in dependency order starting at its lowest ID:
+	 * ['1', '3', '2'] means 1 depends on 3, 3 on 2 and 2 on 1.
+	 */
+	findCycles(): string[][] {
+		return this.findCyclicGroups().map((group) => this.extractCycle(group));
+	}
+
+	/**
+	 * Groups of nodes that all (transitively) depend on each other
+	 * Every edge inside a group is part of some cycle.
+	 */
+	findCyclicGroups(): string[][] {
+		return this.getStronglyConnectedComponents()
+			.filter((component) => component.length > 1)
+			.map((component) => component.sort(compareDependencyIds))
+			.sort((a, b) => compareDependencyIds(a[0], b[0]));
+	}
+
+	// ========== Filtering ==========
+
+	/**
+	 * Graph of a node and the nodes reachable from it
+	 * @param direction - Follow what the node depends on, what depends on it, or both
+	 */
+	subgraph(
+		rootId: string,
+		direction: DependencyDirection = 'both'
+	): DependencyGraph {
+		const root = String(rootId);
+		if (!this.nodes.has(root)) {
+			throw new TaskMasterError(
+				`Task ${root} not found`,
+				ERROR_CODES.TASK_NOT_FOUND
+			);
+		}
+
+		const reachable = new Set<string>([root]);
+		const visit = (next: (id: string) => string[]) => {
+			const queue = [root];
+			while (queue.length > 0) {
+				for (const id of next(queue.shift()!)) {
+					if (!reachable.has(id)) {
+						reachable.add(id);
+						queue.push(id);
+					}
+				}
+			}
+		};
+
+		if (direction !== 'dependents') {
+			visit((id) => this.getDependencies(id));
+		}
+		if (direction !== 'dependencies') {
+			visit((id) => this.getDependents(id));
+		}
+
+		return new DependencyGraph(
+			this.getNodes().filter((node) => reachable.has(node.id))
+		);
+	}
+
+	// ========== Ordering ==========
+
+	/**
+	 * Order nodes so that every node comes after its dependencies
+	 * Ties are broken by ID. Throws if the graph has a cycle.
+	 */
+	topologicalOrder(): string[] {
+		const remaining = new Map<string, number>();
+		for (const node of this.getNodes()) {
+			remaining.set(node.id, this.getDependencies(node.id).length);
+		}
+
+		const ready = [...remaining.entries()]
+			.filter(([, count]) => count === 0)
+			.map(([id]) => id);
+		const order: string[] = [];
+
+		while (ready.length > 0) {
+			ready.sort(compareDependencyIds);
+			const id = ready.shift()!;
+			order.push(id);
+
+			for (const dependent of this.getDependents(id)) {
+				const count = remaining.get(dependent)! - 1;
+				remaining.set(dependent, count);
+				if (count === 0) {
+					ready.push(dependent);
+				}
+			}
+		}
+
+		if (order.length < this.nodes.size) {
+			this.throwCycleError();
+		}
+
+		return order;
+	}
+
+	/**
+	 * Longest chain of unfinished work, weighted by effort (1 when unset)
+	 * Completed and cancelled nodes are skipped. Throws if the graph has a cycle.
+	 */
+	criticalPath(): CriticalPathResult {
+		const length = new Map<string, number>();
+		const previous = new Map<string, string>();
+
+		for (const id of this.topologicalOrder()) {
+			const node = this.nodes.get(id)!;
+			if (isTaskComplete(node.status)) {
+				continue;
+			}
+
+			let best = 0;
+			for (const dep of this.getDependencies(id)) {
+				const depLength = length.get(dep);
+				if (depLength !== undefined && depLength > best) {
+					best = depLength;
+					previous.set(id, dep);
+				}
+			}
+			length.set(id, best + (node.effort ?? 1));
+		}
+
+		let end: string | undefined;
+		for (const [id, value] of length) {
+			if (end === undefined || value > length.get(end)!) {
+				end = id;
+			}
+		}
+
+		const path: string[] = [];
+		for (let id = end; id !== undefined; id = previous.get(id)) {
+			path.unshift(id);
+		}
+
+		return { path, length: end ? length.get(end)! : 0 };
+	}
+
+	/**
+	 * Unfinished dependencies keeping a node from being started, with the
+	 * chains that lead to the work that can be done now
+	 */
+	getBlockedBy(id: string): BlockedByResult {
+		const taskId = String(id);
+		if (!this.nodes.has(taskId)) {
+			throw new TaskMasterError(
+				`Task ${taskId} not found`,
+				ERROR_CODES.TASK_NOT_FOUND
+			);
+		}
+
+		const blockedBy = this.getOpenDependencies(taskId);
+		const chains: string[][] = [];
+
+		const walk = (current: string, chain: string[]) => {
+			const next = this.getOpenDependencies(current).filter(
+				(dep) => dep !== taskId && !chain.includes(dep)
+			);
+			if (next.length === 0) {
+				chains.push(chain);
+				return;
+			}
+			for (const dep of next) {
+				walk(dep, [...chain, dep]);
+			}
+		};
+
+		for (const dep of blockedBy) {
+			walk(dep, [dep]);
+		}
+
+		return { taskId, blockedBy, chains };
+	}
+
+	private getOpenDependencies(id: string): string[] {
+		return this.getDependencies(id).filter(
+			(dep) => !isTaskComplete(this.nodes.get(dep)!.status)
+		);
+	}
+
+	/**
+	 * Tarjan's algorithm over "depends on" edges
+	 */
+	private getStronglyConnectedComponents(): string[][] {
+		let index = 0;
+		const indices = new Map<string, number>();
+		const lowLinks = new Map<string, number>();
+		const stack: string[] = [];
+		const onStack = new Set<string>();
+		const components: string[][] = [];
+
+		const connect = (id: string) => {
+			indices.set(id, index);
+			lowLinks.set(id, index);
+			index++;
+			stack.push(id);
+			onStack.add(id);
+
+			for (const dep of this.getDependencies(id)) {
+				if (!indices.has(dep)) {
+					connect(dep);
+					lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(dep)!));
+				} else if (onStack.has(dep)) {
+					lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(dep)!));
+				}
+			}
+
+			if (lowLinks.get(id) === indices.get(id)) {
+				const component: string[] = [];
+				let member: string;
+				do {
+					member = stack.pop()!;
+					onStack.delete(member);
+					component.push(member);
+				} while (member !== id);
+				components.push(component);
+			}
+		};
+
+		for (const id of this.nodes.keys()) {
+			if (!indices.has(id)) {
+				connect(id);
+			}
+		}
+
+		return components;
+	}
+
+	/**
+	 * Shortest cycle through the first (lowest) ID of a sorted cyclic group
+	 */
+	private extractCycle(component: string[]): string[] {
+		const members = new Set(component);
+		const start = component[0];
+		const previous = new Map<string, string>();
+		const queue = [start];
+
+		while (queue.length > 0) {
+			const current = queue.shift()!;
+			for (const dep of this.getDependencies(current).sort(
+				compareDependencyIds
+			)) {
+				if (!members.has(dep)) {
+					continue;
+				}
+				if (dep === start) {
+					const cycle = [current];
+					while (cycle[0] !== start) {
+						cycle.unshift(previous.get(cycle[0])!);
+					}
+					return cycle;
+				}
+				if (!previous.has(dep)) {
+					previous.set(dep, current);
+					queue.push(dep);
+				}
+			}
+		}
+
+		return [start];
+	}
+
+	private throwCycleError(): never {
+		const cycles = this.findCycles();
+		throw new TaskMasterError(
+			`Dependency cycle detected: ${cycles
+				.map((cycle) => [...cycle, cycle[0]].join(' -> '))
+				.join('; ')}`,
+			ERROR_CODES.TASK_DEPENDENCY_ERROR,
+			{ details: { cycles } }
+		);
+	}
+}
@@ -1,8 +1,20 @@
 /**
- * @fileoverview Dependencies domain - Placeholder for future migration
- * This module will handle dependency management, graphs, and validation
- * when migrated from scripts/modules/dependency-manager.js
+ * @fileoverview Dependencies domain
+ * Dependency graphs, validation and repair shared by the CLI, MCP server and extension
  */
 
-// TODO: Migrate dependency-manager.js from scripts/modules/
-// export * from './services/dependency-manager.js';
+export { DependenciesDomain } from './dependencies-domain.js';
+export {
+	DependencyGraph,
+	compareDependencyIds,
+	toFullSubtaskDependencyId
+} from './entities/dependency-graph.entity.js';
+export {
+	DEPENDENCY_STATUS_COLORS,
+	DependencyGraphRenderer
+} from './services/dependency-graph-renderer.js';
+export {
+	DependencyService,
+	type FixDependenciesOptions
+} from './services/dependency.service.js';
+export type * from './types.js';
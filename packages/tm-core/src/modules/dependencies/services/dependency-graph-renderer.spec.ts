@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Unit tests for DependencyGraphRenderer
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../../../common/types/index.js';
+import { DependencyGraph } from '../entities/dependency-graph.entity.js';
+import { DependencyGraphRenderer } from './dependency-graph-renderer.js';
+
+const createTask = (
+	id: string,
+	dependencies: string[] = [],
+	overrides: Partial<Task> = {}
+): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies,
+	details: '',
+	testStrategy: '',
+	subtasks: [],
+	...overrides
+});
+
+describe('DependencyGraphRenderer', () => {
+	const renderer = new DependencyGraphRenderer();
+	const graph = DependencyGraph.fromTasks([
+		createTask('1', [], { status: 'done', title: 'Say "hello"' }),
+		createTask('2', ['1', '3']),
+		createTask('3', ['2'], { status: 'in-progress' })
+	]);
+
+	it('should render a JSON node/edge list with cycle markers', () => {
+		const json = JSON.parse(renderer.render(graph, 'json'));
+
+		expect(json.nodes[0]).toEqual({
+			id: '1',
+			title: 'Say "hello"',
+			status: 'done',
+			color: '#22c55e',
+			inCycle: false
+		});
+		expect(json.edges).toEqual([
+			{ from: '2', to: '1', inCycle: false },
+			{ from: '2', to: '3', inCycle: true },
+			{ from: '3', to: '2', inCycle: true }
+		]);
+		expect(json.cycles).toEqual([['2', '3']]);
+	});
+
+	it('should render a Mermaid flowchart with status classes', () => {
+		const mermaid = renderer.render(graph, 'mermaid');
+
+		expect(mermaid.split('\n')).toEqual(
+			expect.arrayContaining([
+				'flowchart TD',
+				'    t1["1: Say #quot;hello#quot;"]',
+				'    t2 --> t1',
+				'    classDef status_done fill:#22c55e,color:#000',
+				'    class t1 status_done',
+				'    class t2,t3 cycle',
+				'    linkStyle 1,2 stroke:#dc2626,stroke-width:3px'
+			])
+		);
+	});
+
+	it('should render a Graphviz DOT digraph', () => {
+		const dot = renderer.render(graph, 'dot');
+
+		expect(dot).toContain('digraph dependencies {');
+		expect(dot).toContain(
+			'"1" [label="1: Say \\"hello\\"\\n(done)", fillcolor="#22c55e"];'
+		);
+		expect(dot).toContain('"2" -> "1";');
+		expect(dot).toContain('"3" -> "2" [color="#dc2626", penwidth=3];');
+	});
+
+	it('should reject unknown formats', () => {
+		expect(() => renderer.render(graph, 'svg' as any)).toThrow(
+			'Unsupported graph format: svg'
+		);
+	});
+});
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview DependencyGraphRenderer - Render dependency graphs for humans and tools
+ * Supports Mermaid, Graphviz DOT and a JSON node/edge list
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { TaskStatus } from '../../../common/types/index.js';
+import type { DependencyGraph } from '../entities/dependency-graph.entity.js';
+import type {
+	DependencyGraphFormat,
+	DependencyGraphJson,
+	DependencyNode
+} from '../types.js';
+
+/**
+ * Fill color per status (matches the CLI status colors)
+ */
+export const DEPENDENCY_STATUS_COLORS: Record<TaskStatus, string> = {
+	done: '#22c55e',
+	completed: '#22c55e',
+	pending: '#eab308',
+	'in-progress': '#ffa500',
+	review: '#d946ef',
+	blocked: '#ef4444',
+	deferred: '#9ca3af',
+	cancelled: '#9ca3af'
+};
+
+/**
+ * Stroke color of nodes and edges that are part of a cycle
+ */
+const CYCLE_COLOR = '#dc2626';
+
+const MAX_TITLE_LENGTH = 40;
+
+/**
+ * Renders a DependencyGraph. Edges point from a task to what it depends on.
+ */
+export class DependencyGraphRenderer {
+	/**
+	 * Render a graph in the given format
+	 */
+	render(graph: DependencyGraph, format: DependencyGraphFormat): string {
+		switch (format) {
+			case 'mermaid':
+				return this.toMermaid(graph);
+			case 'dot':
+				return this.toDot(graph);
+			case 'json':
+				return JSON.stringify(this.toJson(graph), null, 2);
+			default:
+				throw new TaskMasterError(
+					`Unsupported graph format: ${format}`,
+					ERROR_CODES.INVALID_INPUT
+				);
+		}
+	}
+
+	/**
+	 * Node/edge list with status colors and cycle markers
+	 */
+	toJson(graph: DependencyGraph): DependencyGraphJson {
+		const { cycleNodes, isCycleEdge } = this.getCycleMembers(graph);
+
+		return {
+			nodes: graph.getNodes().map((node) => ({
+				id: node.id,
+				title: node.title,
+				status: node.status,
+				...(node.parentId && { parentId: node.parentId }),
+				color: this.getColor(node.status),
+				inCycle: cycleNodes.has(node.id)
+			})),
+			edges: graph.getEdges().map((edge) => ({
+				...edge,
+				inCycle: isCycleEdge(edge.from, edge.to)
+			})),
+			cycles: graph.findCycles()
+		};
+	}
+
+	/**
+	 * Mermaid flowchart, one class per status
+	 */
+	toMermaid(graph: DependencyGraph): string {
+		const { cycleNodes, isCycleEdge } = this.getCycleMembers(graph);
+		const nodeId = (id: string) => `t${id.replace(/[^a-zA-Z0-9_]/g, '_')}`;
+		const lines = ['flowchart TD'];
+
+		for (const node of graph.getNodes()) {
+			const label = this.getLabel(node).replace(/"/g, '#quot;');
+			lines.push(`    ${nodeId(node.id)}["${label}"]`);
+		}
+
+		const cycleLinks: number[] = [];
+		graph.getEdges().forEach((edge, index) => {
+			lines.push(`    ${nodeId(edge.from)} --> ${nodeId(edge.to)}`);
+			if (isCycleEdge(edge.from, edge.to)) {
+				cycleLinks.push(index);
+			}
+		});
+
+		const statuses = [...new Set(graph.getNodes().map((node) => node.status))];
+		for (const status of statuses) {
+			const className = this.getStatusClass(status);
+			const ids = graph
+				.getNodes()
+				.filter((node) => node.status === status)
+				.map((node) => nodeId(node.id));
+			lines.push(
+				`    classDef ${className} fill:${this.getColor(status)},color:#000`,
+				`    class ${ids.join(',')} ${className}`
+			);
+		}
+
+		if (cycleNodes.size > 0) {
+			lines.push(
+				`    classDef cycle stroke:${CYCLE_COLOR},stroke-width:3px`,
+				`    class ${[...cycleNodes].map(nodeId).join(',')} cycle`,
+				`    linkStyle ${cycleLinks.join(',')} stroke:${CYCLE_COLOR},stroke-width:3px`
+			);
+		}
+
+		return lines.join('\n');
+	}
+
+	/**
+	 * Graphviz DOT digraph with filled nodes
+	 */
+	toDot(graph: DependencyGraph): string {
+		const { cycleNodes, isCycleEdge } = this.getCycleMembers(graph);
+		const escape = (value: string) =>
+			value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+		const quote = (value: string) => `"${escape(value)}"`;
+		const lines = [
+			'digraph dependencies {',
+			'    rankdir=LR;',
+			'    node [shape=box, style="rounded,filled", fontname="Helvetica"];'
+		];
+
+		for (const node of graph.getNodes()) {
+			const attributes = [
+				`label="${escape(this.getLabel(node))}\\n(${node.status})"`,
+				`fillcolor=${quote(this.getColor(node.status))}`
+			];
+			if (cycleNodes.has(node.id)) {
+				attributes.push(`color=${quote(CYCLE_COLOR)}`, 'penwidth=3');
+			}
+			lines.push(`    ${quote(node.id)} [${attributes.join(', ')}];`);
+		}
+
+		for (const edge of graph.getEdges()) {
+			const attributes = isCycleEdge(edge.from, edge.to)
+				? ` [color=${quote(CYCLE_COLOR)}, penwidth=3]`
+				: '';
+			lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)}${attributes};`);
+		}
+
+		lines.push('}');
+		return lines.join('\n');
+	}
+
+	private getLabel(node: DependencyNode): string {
+		const title =
+			node.title.length > MAX_TITLE_LENGTH
+				? `${node.title.slice(0, MAX_TITLE_LENGTH - 3)}...`
+				: node.title;
+		return `${node.id}: ${title}`;
+	}
+
+	private getColor(status: TaskStatus): string {
+		return DEPENDENCY_STATUS_COLORS[status] ?? DEPENDENCY_STATUS_COLORS.pending;
+	}
+
+	private getStatusClass(status: TaskStatus): string {
+		return `status_${status.replace(/[^a-zA-Z0-9]/g, '_')}`;
+	}
+
+	/**
+	 * Nodes in a cycle, and a check for edges inside a cyclic group
+	 */
+	private getCycleMembers(graph: DependencyGraph): {
+		cycleNodes: Set<string>;
+		isCycleEdge: (from: string, to: string) => boolean;
+	} {
+		const groupOf = new Map<string, number>();
+		graph.findCyclicGroups().forEach((group, index) => {
+			for (const id of group) {
+				groupOf.set(id, index);
+			}
+		});
+
+		return {
+			cycleNodes: new Set(groupOf.keys()),
+			isCycleEdge: (from, to) =>
+				groupOf.has(from) && groupOf.get(from) === groupOf.get(to)
+		};
+	}
+}
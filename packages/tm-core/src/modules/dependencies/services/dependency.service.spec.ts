@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Unit tests for DependencyService
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IStorage } from '../../../common/interfaces/storage.interface.js';
+import type { Subtask, Task } from '../../../common/types/index.js';
+import { DependencyService } from './dependency.service.js';
+
+const createTask = (
+	id: string,
+	dependencies: string[] = [],
+	subtasks: Subtask[] = []
+): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies,
+	details: '',
+	testStrategy: '',
+	subtasks
+});
+
+describe('DependencyService', () => {
+	let tasks: Task[];
+	let storage: IStorage;
+	let service: DependencyService;
+
+	beforeEach(() => {
+		tasks = [];
+		storage = {
+			loadTasks: vi.fn(async () => structuredClone(tasks)),
+			saveTasks: vi.fn(async () => {}),
+			updateTask: vi.fn(async () => {})
+		} as unknown as IStorage;
+		service = new DependencyService(storage);
+	});
+
+	describe('validate', () => {
+		it('should be valid without issues', async () => {
+			tasks = [createTask('1'), createTask('2', ['1'])];
+
+			await expect(service.validate('master')).resolves.toEqual({
+				valid: true,
+				issues: [],
+				cycles: []
+			});
+			expect(storage.loadTasks).toHaveBeenCalledWith('master');
+		});
+
+		it('should report invalid references and cycles', async () => {
+			tasks = [createTask('1', ['2']), createTask('2', ['1', '42'])];
+
+			const result = await service.validate();
+
+			expect(result.valid).toBe(false);
+			expect(result.cycles).toEqual([['1', '2']]);
+			expect(result.issues.map((issue) => issue.type)).toEqual([
+				'missing',
+				'circular'
+			]);
+		});
+	});
+
+	describe('addDependency', () => {
+		it('should add task and subtask dependencies through the top-level task', async () => {
+			tasks = [
+				createTask(
+					'1',
+					['2'],
+					[
+						{ ...createTask('1'), id: 1, parentId: '1' } as unknown as Subtask,
+						{ ...createTask('2'), id: 2, parentId: '1' } as unknown as Subtask
+					]
+				),
+				createTask('2'),
+				createTask('3')
+			];
+
+			await expect(service.addDependency('1', '3', 'master')).resolves.toEqual({
+				taskId: '1',
+				dependencyId: '3',
+				dependencies: ['2', '3']
+			});
+			expect(storage.updateTask).toHaveBeenCalledWith(
+				'1',
+				{ dependencies: ['2', '3'] },
+				'master'
+			);
+
+			await service.addDependency('1.2', '1.1', 'master');
+			const [id, updates] = vi.mocked(storage.updateTask).mock.calls[1];
+			expect(id).toBe('1');
+			expect(updates.subtasks?.[1].dependencies).toEqual(['1.1']);
+		});
+
+		it('should reject unknown, self, duplicate and circular dependencies', async () => {
+			tasks = [createTask('1', ['2']), createTask('2', ['3']), createTask('3')];
+
+			await expect(service.addDependency('1', '9')).rejects.toMatchObject({
+				code: 'TASK_NOT_FOUND'
+			});
+			await expect(service.addDependency('1', '1')).rejects.toThrow(
+				'cannot depend on itself'
+			);
+			await expect(service.addDependency('1', '2')).rejects.toThrow(
+				'already depends on 2'
+			);
+			await expect(service.addDependency('3', '1')).rejects.toThrow(
+				'circular dependency'
+			);
+			expect(storage.updateTask).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('removeDependency', () => {
+		it('should remove sibling subtask dependencies stored by subtask ID', async () => {
+			tasks = [
+				createTask(
+					'1',
+					[],
+					[
+						{ ...createTask('1'), id: 1, parentId: '1' } as unknown as Subtask,
+						{
+							...createTask('2'),
+							id: 2,
+							parentId: '1',
+							dependencies: [1, '2.1']
+						} as unknown as Subtask
+					]
+				),
+				createTask('2')
+			];
+
+			await expect(service.removeDependency('1.2', '1.1')).resolves.toEqual({
+				taskId: '1.2',
+				dependencyId: '1.1',
+				dependencies: ['2.1']
+			});
+			await expect(service.removeDependency('1', '2')).rejects.toMatchObject({
+				code: 'TASK_DEPENDENCY_ERROR'
+			});
+		});
+	});
+
+	describe('fix', () => {
+		it('should remove invalid references and keep raw subtask IDs', async () => {
+			tasks = [
+				createTask(
+					'1',
+					['1', '7', '2', '2'],
+					[
+						{
+							...createTask('1'),
+							id: 1,
+							parentId: '1',
+							dependencies: [2, '1.2', 3]
+						} as unknown as Subtask,
+						{ ...createTask('2'), id: 2, parentId: '1' } as unknown as Subtask
+					]
+				),
+				createTask('2')
+			];
+
+			const result = await service.fix('master');
+
+			expect(result.fixed.map((issue) => issue.type)).toEqual([
+				'self',
+				'missing',
+				'duplicate',
+				'duplicate',
+				'missing'
+			]);
+			expect(result.tasksChanged).toBe(2);
+
+			const [saved, tag] = vi.mocked(storage.saveTasks).mock.calls[0];
+			expect(tag).toBe('master');
+			expect(saved[0].dependencies).toEqual(['2']);
+			expect(saved[0].subtasks[0].dependencies).toEqual([2]);
+		});
+
+		it('should break cycles by removing the closing dependency', async () => {
+			tasks = [
+				createTask('1', ['3']),
+				createTask('2', ['1']),
+				createTask('3', ['2'])
+			];
+
+			const result = await service.fix();
+
+			expect(result.fixed).toEqual([
+				expect.objectContaining({
+					type: 'circular',
+					taskId: '2',
+					dependencyId: '1',
+					cycle: ['1', '3', '2']
+				})
+			]);
+			const [saved] = vi.mocked(storage.saveTasks).mock.calls[0];
+			expect(saved.map((task) => task.dependencies)).toEqual([
+				['3'],
+				[],
+				['2']
+			]);
+		});
+
+		it('should break overlapping cycles', async () => {
+			tasks = [
+				createTask('1', ['2', '3']),
+				createTask('2', ['1', '3']),
+				createTask('3', ['1', '2'])
+			];
+
+			const result = await service.fix();
+
+			const [saved] = vi.mocked(storage.saveTasks).mock.calls[0];
+			expect(result.fixed.length).toBeGreaterThan(1);
+			expect(result.fixed.every((issue) => issue.type === 'circular')).toBe(
+				true
+			);
+			// An acyclic order remains: 3 <- 2 <- 1
+			expect(saved.map((task) => task.dependencies)).toEqual([
+				['2', '3'],
+				['3'],
+				[]
+			]);
+		});
+
+		it('should stop when a cycle cannot be broken', async () => {
+			tasks = [createTask('1', ['2']), createTask('2', ['1'])];
+			vi.spyOn(service as any, 'findOwner').mockReturnValue(undefined);
+
+			await expect(service.fix()).resolves.toEqual({
+				fixed: [],
+				tasksChanged: 0
+			});
+		});
+
+		it('should not save on a dry run or without issues', async () => {
+			tasks = [createTask('1', ['9'])];
+			await expect(service.fix(undefined, { dryRun: true })).resolves.toEqual(
+				expect.objectContaining({ tasksChanged: 1 })
+			);
+
+			tasks = [createTask('1')];
+			await expect(service.fix()).resolves.toEqual({
+				fixed: [],
+				tasksChanged: 0
+			});
+
+			expect(storage.saveTasks).not.toHaveBeenCalled();
+		});
+	});
+
+	it('should compute order, critical path and blockers from storage', async () => {
+		tasks = [createTask('1'), createTask('2', ['1']), createTask('3', ['2'])];
+
+		await expect(service.getTopologicalOrder()).resolves.toEqual([
+			'1',
+			'2',
+			'3'
+		]);
+		await expect(service.getCriticalPath()).resolves.toEqual({
+			path: ['1', '2', '3'],
+			length: 3
+		});
+		await expect(service.getBlockedBy('3')).resolves.toEqual({
+			taskId: '3',
+			blockedBy: ['2'],
+			chains: [['2', '1']]
+		});
+	});
+});
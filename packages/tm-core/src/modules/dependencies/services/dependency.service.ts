@@ -0,0 +1,391 @@
+/**
+ * @fileoverview DependencyService - Dependency analysis and repair for a tag
+ * Works with any IStorage so file and API storage share the same logic
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { IStorage } from '../../../common/interfaces/storage.interface.js';
+import { getLogger } from '../../../common/logger/index.js';
+import type { Subtask, Task } from '../../../common/types/index.js';
+import {
+	DependencyGraph,
+	toFullSubtaskDependencyId
+} from '../entities/dependency-graph.entity.js';
+import type {
+	BlockedByResult,
+	CriticalPathResult,
+	DependencyChangeResult,
+	DependencyFixResult,
+	DependencyGraphOptions,
+	DependencyIssue,
+	DependencyValidationResult,
+	RenderDependencyGraphOptions
+} from '../types.js';
+import { DependencyGraphRenderer } from './dependency-graph-renderer.js';
+
+/**
+ * Options for fixing dependencies
+ */
+export interface FixDependenciesOptions {
+	/** Report what would be fixed without saving */
+	dryRun?: boolean;
+}
+
+/**
+ * DependencyService builds dependency graphs from storage and validates,
+ * orders and repairs the dependencies of a tag
+ */
+export class DependencyService {
+	private readonly logger = getLogger('DependencyService');
+	private readonly renderer = new DependencyGraphRenderer();
+
+	constructor(private readonly storage: IStorage) {}
+
+	/**
+	 * Build the dependency graph of a tag
+	 */
+	async buildGraph(
+		tag?: string,
+		options?: DependencyGraphOptions
+	): Promise<DependencyGraph> {
+		const tasks = await this.storage.loadTasks(tag);
+		return DependencyGraph.fromTasks(tasks, options);
+	}
+
+	/**
+	 * Render the graph of a tag, optionally limited to the subgraph
+	 * reachable from one task
+	 */
+	async renderGraph(
+		options: RenderDependencyGraphOptions,
+		tag?: string
+	): Promise<string> {
+		let graph = await this.buildGraph(tag, {
+			includeSubtasks: options.includeSubtasks
+		});
+		if (options.rootId) {
+			graph = graph.subgraph(options.rootId, options.direction);
+		}
+		return this.renderer.render(graph, options.format);
+	}
+
+	/**
+	 * Find self, missing, duplicate and circular dependencies
+	 */
+	async validate(tag?: string): Promise<DependencyValidationResult> {
+		const graph = await this.buildGraph(tag);
+		const cycles = graph.findCycles();
+
+		const issues: DependencyIssue[] = [
+			...graph.findInvalidReferences(),
+			...cycles.map((cycle) => ({
+				type: 'circular' as const,
+				taskId: cycle[0],
+				dependencyId: cycle[1],
+				cycle,
+				message: `Circular dependency: ${[...cycle, cycle[0]].join(' -> ')}`
+			}))
+		];
+
+		return { valid: issues.length === 0, issues, cycles };
+	}
+
+	/**
+	 * Order tasks (and subtasks) so dependencies come first
+	 * @throws {TaskMasterError} TASK_DEPENDENCY_ERROR if there is a cycle
+	 */
+	async getTopologicalOrder(
+		tag?: string,
+		options?: DependencyGraphOptions
+	): Promise<string[]> {
+		return (await this.buildGraph(tag, options)).topologicalOrder();
+	}
+
+	/**
+	 * Longest chain of unfinished work
+	 * @throws {TaskMasterError} TASK_DEPENDENCY_ERROR if there is a cycle
+	 */
+	async getCriticalPath(
+		tag?: string,
+		options?: DependencyGraphOptions
+	): Promise<CriticalPathResult> {
+		return (await this.buildGraph(tag, options)).criticalPath();
+	}
+
+	/**
+	 * Unfinished dependencies blocking a task or subtask
+	 * @throws {TaskMasterError} TASK_NOT_FOUND if the task does not exist
+	 */
+	async getBlockedBy(taskId: string, tag?: string): Promise<BlockedByResult> {
+		return (await this.buildGraph(tag)).getBlockedBy(taskId);
+	}
+
+	/**
+	 * Make a task or subtask depend on another one
+	 * @throws {TaskMasterError} TASK_NOT_FOUND if either ID does not exist
+	 * @throws {TaskMasterError} TASK_DEPENDENCY_ERROR for self, duplicate or circular dependencies
+	 */
+	async addDependency(
+		taskId: string,
+		dependsOn: string,
+		tag?: string
+	): Promise<DependencyChangeResult> {
+		const tasks = await this.storage.loadTasks(tag);
+		const graph = DependencyGraph.fromTasks(tasks);
+		const id = String(taskId);
+		const depId = String(dependsOn);
+
+		for (const ref of [id, depId]) {
+			if (!graph.has(ref)) {
+				throw new TaskMasterError(
+					`Task ${ref} not found`,
+					ERROR_CODES.TASK_NOT_FOUND,
+					{ taskId: ref, tag }
+				);
+			}
+		}
+		if (id === depId) {
+			throw new TaskMasterError(
+				`Task ${id} cannot depend on itself`,
+				ERROR_CODES.TASK_DEPENDENCY_ERROR,
+				{ taskId: id }
+			);
+		}
+		if (graph.getDependencies(id).includes(depId)) {
+			throw new TaskMasterError(
+				`Task ${id} already depends on ${depId}`,
+				ERROR_CODES.TASK_DEPENDENCY_ERROR,
+				{ taskId: id, dependencyId: depId }
+			);
+		}
+		if (graph.subgraph(depId, 'dependencies').has(id)) {
+			throw new TaskMasterError(
+				`Making ${id} depend on ${depId} would create a circular dependency`,
+				ERROR_CODES.TASK_DEPENDENCY_ERROR,
+				{ taskId: id, dependencyId: depId }
+			);
+		}
+
+		const owner = this.findOwner(tasks, id)!;
+		owner.item.dependencies = [...(owner.item.dependencies ?? []), depId];
+		await this.saveOwner(tasks, id, owner, tag);
+
+		return {
+			taskId: id,
+			dependencyId: depId,
+			dependencies: this.toFullIds(owner)
+		};
+	}
+
+	/**
+	 * Remove a dependency from a task or subtask
+	 * @throws {TaskMasterError} TASK_NOT_FOUND if the task does not exist
+	 * @throws {TaskMasterError} TASK_DEPENDENCY_ERROR if it does not have the dependency
+	 */
+	async removeDependency(
+		taskId: string,
+		dependsOn: string,
+		tag?: string
+	): Promise<DependencyChangeResult> {
+		const tasks = await this.storage.loadTasks(tag);
+		const id = String(taskId);
+		const depId = String(dependsOn);
+
+		const owner = this.findOwner(tasks, id);
+		if (!owner) {
+			throw new TaskMasterError(
+				`Task ${id} not found`,
+				ERROR_CODES.TASK_NOT_FOUND,
+				{ taskId: id, tag }
+			);
+		}
+		if (!this.toFullIds(owner).includes(depId)) {
+			throw new TaskMasterError(
+				`Task ${id} does not depend on ${depId}`,
+				ERROR_CODES.TASK_DEPENDENCY_ERROR,
+				{ taskId: id, dependencyId: depId }
+			);
+		}
+
+		owner.item.dependencies = (owner.item.dependencies ?? []).filter(
+			(dep) => this.toFullId(owner, dep) !== depId
+		);
+		await this.saveOwner(tasks, id, owner, tag);
+
+		return {
+			taskId: id,
+			dependencyId: depId,
+			dependencies: this.toFullIds(owner)
+		};
+	}
+
+	/**
+	 * Remove self, missing and duplicate references, then break cycles by
+	 * removing the dependency that closes each one
+	 */
+	async fix(
+		tag?: string,
+		options: FixDependenciesOptions = {}
+	): Promise<DependencyFixResult> {
+		const tasks = await this.storage.loadTasks(tag);
+		const fixed: DependencyIssue[] = [];
+
+		const invalid = DependencyGraph.fromTasks(tasks).findInvalidReferences();
+		for (const task of tasks) {
+			this.removeReferences(task, String(task.id), undefined, invalid);
+			for (const subtask of task.subtasks ?? []) {
+				this.removeReferences(
+					subtask,
+					`${task.id}.${subtask.id}`,
+					String(task.id),
+					invalid
+				);
+			}
+		}
+		fixed.push(...invalid);
+
+		// Removing one edge per cycle may leave overlapping cycles behind
+		for (;;) {
+			const cycles = DependencyGraph.fromTasks(tasks).findCycles();
+			if (cycles.length === 0) {
+				break;
+			}
+
+			let removed = false;
+			for (const cycle of cycles) {
+				const taskId = cycle[cycle.length - 1];
+				const issue: DependencyIssue = {
+					type: 'circular',
+					taskId,
+					dependencyId: cycle[0],
+					cycle,
+					message: `Removed dependency ${taskId} -> ${cycle[0]} to break cycle ${[...cycle, cycle[0]].join(' -> ')}`
+				};
+				const owner = this.findOwner(tasks, taskId);
+				if (
+					owner &&
+					this.removeReferences(owner.item, taskId, owner.parentId, [issue])
+				) {
+					fixed.push(issue);
+					removed = true;
+				}
+			}
+
+			// Stop rather than loop forever on cycles whose edge cannot be found
+			if (!removed) {
+				this.logger.warn(
+					`Could not break ${cycles.length} dependency cycle(s): ${cycles
+						.map((cycle) => [...cycle, cycle[0]].join(' -> '))
+						.join(', ')}`
+				);
+				break;
+			}
+		}
+
+		const tasksChanged = new Set(fixed.map((issue) => issue.taskId)).size;
+
+		if (fixed.length > 0 && !options.dryRun) {
+			await this.storage.saveTasks(tasks, tag);
+			this.logger.info(
+				`Fixed ${fixed.length} dependency issue(s) in ${tasksChanged} task(s)`
+			);
+		}
+
+		return { fixed, tasksChanged };
+	}
+
+	/**
+	 * Drop the references of one task/subtask that match the given issues.
+	 * A duplicate issue drops every occurrence but the first.
+	 * Returns whether any reference was dropped.
+	 */
+	private removeReferences(
+		item: Task | Subtask,
+		itemId: string,
+		parentId: string | undefined,
+		issues: DependencyIssue[]
+	): boolean {
+		const own = issues.filter((issue) => issue.taskId === itemId);
+		if (own.length === 0 || !item.dependencies) {
+			return false;
+		}
+
+		const toFullId = (dep: string | number) =>
+			parentId ? toFullSubtaskDependencyId(parentId, dep) : String(dep);
+		const seen = new Set<string>();
+		const count = item.dependencies.length;
+
+		item.dependencies = item.dependencies.filter((dep) => {
+			const depId = toFullId(dep);
+			const firstOccurrence = !seen.has(depId);
+			seen.add(depId);
+
+			return !own.some(
+				(issue) =>
+					issue.dependencyId === depId &&
+					(issue.type !== 'duplicate' || !firstOccurrence)
+			);
+		});
+		return item.dependencies.length < count;
+	}
+
+	/**
+	 * Save the dependencies of one task/subtask through its top-level task,
+	 * so storages without subtask updates are supported
+	 */
+	private async saveOwner(
+		tasks: Task[],
+		id: string,
+		owner: { item: Task | Subtask; parentId?: string },
+		tag?: string
+	): Promise<void> {
+		if (owner.parentId) {
+			const parent = tasks.find((task) => String(task.id) === owner.parentId)!;
+			await this.storage.updateTask(
+				owner.parentId,
+				{ subtasks: parent.subtasks },
+				tag
+			);
+		} else {
+			await this.storage.updateTask(
+				id,
+				{ dependencies: owner.item.dependencies },
+				tag
+			);
+		}
+	}
+
+	private toFullId(owner: { parentId?: string }, dep: string | number): string {
+		return owner.parentId
+			? toFullSubtaskDependencyId(owner.parentId, dep)
+			: String(dep);
+	}
+
+	private toFullIds(owner: {
+		item: Task | Subtask;
+		parentId?: string;
+	}): string[] {
+		return (owner.item.dependencies ?? []).map((dep) =>
+			this.toFullId(owner, dep)
+		);
+	}
+
+	private findOwner(
+		tasks: Task[],
+		id: string
+	): { item: Task | Subtask; parentId?: string } | null {
+		for (const task of tasks) {
+			if (String(task.id) === id) {
+				return { item: task };
+			}
+			const subtask = task.subtasks?.find((st) => `${task.id}.${st.id}` === id);
+			if (subtask) {
+				return { item: subtask, parentId: String(task.id) };
+			}
+		}
+		return null;
+	}
+}
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Type definitions for the dependencies domain
+ */
+
+import type { TaskStatus } from '../../common/types/index.js';
+
+/**
+ * A task or subtask in the dependency graph
+ */
+export interface DependencyNode {
+	/** Full ID ("3" for a task, "3.2" for a subtask) */
+	id: string;
+	title: string;
+	status: TaskStatus;
+	/** Parent task ID (subtasks only) */
+	parentId?: string;
+	/** Full IDs this node depends on, as stored (may be dangling) */
+	dependencies: string[];
+	/** Estimated effort, used as weight for the critical path */
+	effort?: number;
+}
+
+/**
+ * A "depends on" edge: `from` cannot start before `to` is done
+ */
+export interface DependencyEdge {
+	from: string;
+	to: string;
+}
+
+/**
+ * Options for building a dependency graph
+ */
+export interface DependencyGraphOptions {
+	/** Include subtasks as nodes (default: true) */
+	includeSubtasks?: boolean;
+}
+
+/**
+ * Which way to follow edges when filtering a graph
+ * - dependencies: what a task needs (upstream)
+ * - dependents: what needs the task (downstream)
+ */
+export type DependencyDirection = 'dependencies' | 'dependents' | 'both';
+
+/**
+ * Output formats of a rendered dependency graph
+ */
+export type DependencyGraphFormat = 'mermaid' | 'dot' | 'json';
+
+/**
+ * Options for rendering the dependency graph of a tag
+ */
+export interface RenderDependencyGraphOptions extends DependencyGraphOptions {
+	format: DependencyGraphFormat;
+	/** Only render the subgraph reachable from this task or subtask */
+	rootId?: string;
+	/** Edges to follow from rootId (default: both) */
+	direction?: DependencyDirection;
+}
+
+/**
+ * JSON form of a dependency graph
+ */
+export interface DependencyGraphJson {
+	nodes: Array<{
+		id: string;
+		title: string;
+		status: TaskStatus;
+		parentId?: string;
+		/** Fill color for the node's status */
+		color: string;
+		inCycle: boolean;
+	}>;
+	/** `from` depends on `to` */
+	edges: Array<DependencyEdge & { inCycle: boolean }>;
+	cycles: string[][];
+}
+
+/**
+ * Kinds of dependency problems
+ * - self: a node depends on itself
+ * - missing: a dependency references a task that does not exist
+ * - duplicate: the same dependency is listed more than once
+ * - circular: the node is part of a dependency cycle
+ */
+export type DependencyIssueType = 'self' | 'missing' | 'duplicate' | 'circular';
+
+/**
+ * A dependency problem found during validation
+ */
+export interface DependencyIssue {
+	type: DependencyIssueType;
+	/** Task or subtask with the offending dependency */
+	taskId: string;
+	/** The offending dependency reference */
+	dependencyId?: string;
+	/** Nodes of the cycle in dependency order (circular issues only) */
+	cycle?: string[];
+	message: string;
+}
+
+/**
+ * Result of validating the dependencies of a tag
+ */
+export interface DependencyValidationResult {
+	valid: boolean;
+	issues: DependencyIssue[];
+	/** Every dependency cycle, each listed in dependency order */
+	cycles: string[][];
+}
+
+/**
+ * Longest chain of remaining work through the graph
+ */
+export interface CriticalPathResult {
+	/** Node IDs from the first to start to the last to finish */
+	path: string[];
+	/** Sum of the effort of the nodes on the path (1 per node without effort) */
+	length: number;
+}
+
+/**
+ * What keeps a task from being started
+ */
+export interface BlockedByResult {
+	taskId: string;
+	/** Unfinished direct dependencies */
+	blockedBy: string[];
+	/**
+	 * Chains of unfinished dependencies, each starting at a direct dependency
+	 * and ending at a task that can be worked on now
+	 */
+	chains: string[][];
+}
+
+/**
+ * Result of fixing invalid dependencies
+ */
+export interface DependencyFixResult {
+	/** Issues that were fixed by removing the offending reference */
+	fixed: DependencyIssue[];
+	/** Number of tasks and subtasks that were changed */
+	tasksChanged: number;
+}
+
+/**
+ * Result of adding or removing a single dependency
+ */
+export interface DependencyChangeResult {
+	/** Task or subtask whose dependencies changed */
+	taskId: string;
+	/** The dependency that was added or removed */
+	dependencyId: string;
+	/** Full IDs the task depends on after the change */
+	dependencies: string[];
+}
@@ -4,6 +4,8 @@
 
 import { getLogger } from '../../../common/logger/index.js';
 import { ClaudeExecutor } from '../executors/claude-executor.js';
+import type { ExecutorRegistry } from '../executors/executor-registry.js';
+import { ShellExecutor } from '../executors/shell-executor.js';
 import type { ExecutorOptions, ExecutorType, ITaskExecutor } from '../types.js';
 
 export class ExecutorFactory {
@@ -11,8 +13,12 @@ export class ExecutorFactory {
 
 	/**
 	 * Create an executor based on the provided options
+	 * 'custom' executors are resolved from the given registry
 	 */
-	static create(options: ExecutorOptions): ITaskExecutor {
+	static create(
+		options: ExecutorOptions,
+		registry?: ExecutorRegistry
+	): ITaskExecutor {
 		this.logger.debug(`Creating executor of type: ${options.type}`);
 
 		switch (options.type) {
@@ -20,12 +26,22 @@ export class ExecutorFactory {
 				return new ClaudeExecutor(options.projectRoot, options.config);
 
 			case 'shell':
-				// Placeholder for shell executor
-				throw new Error('Shell executor not yet implemented');
+				return new ShellExecutor(options.projectRoot, options.config);
 
 			case 'custom':
-				// Placeholder for custom executor
-				throw new Error('Custom executor not yet implemented');
+				if (!options.name) {
+					throw new Error('Custom executor name is required');
+				}
+				if (!registry) {
+					throw new Error(
+						`No executor registry to resolve custom executor: ${options.name}`
+					);
+				}
+				return registry.create(
+					options.name,
+					options.projectRoot,
+					options.config
+				);
 
 			default:
 				throw new Error(`Unknown executor type: ${options.type}`);
@@ -0,0 +1,140 @@
+/**
+ * Registry of named custom executors
+ * Executors are registered programmatically, from the `executors` section of
+ * config.json, or from plugin modules exporting a `createExecutor` factory.
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { getLogger } from '../../../common/logger/index.js';
+import { ShellExecutor } from '../executors/shell-executor.js';
+import type {
+	CustomExecutorDefinition,
+	ExecutorFactoryFunction,
+	ExecutorPluginModule,
+	ITaskExecutor
+} from '../types.js';
+
+export class ExecutorRegistry {
+	private logger = getLogger('ExecutorRegistry');
+	private factories = new Map<string, ExecutorFactoryFunction>();
+
+	/**
+	 * Register a factory under a name, replacing any previous registration
+	 */
+	register(name: string, factory: ExecutorFactoryFunction): void {
+		if (!name) {
+			throw new Error('Executor name is required');
+		}
+		this.logger.debug(`Registering executor: ${name}`);
+		this.factories.set(name, factory);
+	}
+
+	unregister(name: string): boolean {
+		return this.factories.delete(name);
+	}
+
+	has(name: string): boolean {
+		return this.factories.has(name);
+	}
+
+	/**
+	 * Names of all registered executors
+	 */
+	list(): string[] {
+		return [...this.factories.keys()];
+	}
+
+	/**
+	 * Create an instance of a registered executor
+	 */
+	create(
+		name: string,
+		projectRoot: string,
+		config: Record<string, any> = {}
+	): ITaskExecutor {
+		const factory = this.factories.get(name);
+		if (!factory) {
+			const available = this.list();
+			throw new Error(
+				`Unknown custom executor: ${name}${available.length > 0 ? ` (registered: ${available.join(', ')})` : ''}`
+			);
+		}
+		return factory(projectRoot, config);
+	}
+
+	/**
+	 * Register every executor declared in the `executors` config section
+	 */
+	async registerFromConfig(
+		definitions: Record<string, CustomExecutorDefinition>,
+		projectRoot: string
+	): Promise<void> {
+		for (const [name, definition] of Object.entries(definitions)) {
+			switch (definition.type) {
+				case 'shell': {
+					const { type: _type, ...shellConfig } = definition;
+					this.register(
+						name,
+						(root, config) =>
+							new ShellExecutor(root, { ...shellConfig, ...config })
+					);
+					break;
+				}
+
+				case 'module':
+					await this.registerFromModule(
+						name,
+						definition.module,
+						projectRoot,
+						definition.options
+					);
+					break;
+
+				default:
+					throw new Error(
+						`Invalid executor "${name}": type must be "shell" or "module"`
+					);
+			}
+		}
+	}
+
+	/**
+	 * Load a plugin module and register its `createExecutor` factory
+	 */
+	async registerFromModule(
+		name: string,
+		modulePath: string,
+		projectRoot: string,
+		options: Record<string, any> = {}
+	): Promise<void> {
+		const specifier =
+			modulePath.startsWith('.') || path.isAbsolute(modulePath)
+				? pathToFileURL(path.resolve(projectRoot, modulePath)).href
+				: modulePath;
+
+		let plugin: ExecutorPluginModule;
+		try {
+			plugin = await import(specifier);
+		} catch (error: any) {
+			throw new Error(
+				`Failed to load executor module "${modulePath}" for "${name}": ${error.message}`
+			);
+		}
+
+		const factory =
+			plugin.createExecutor ??
+			(typeof plugin.default === 'function'
+				? plugin.default
+				: plugin.default?.createExecutor);
+		if (typeof factory !== 'function') {
+			throw new Error(
+				`Executor module "${modulePath}" must export a createExecutor function`
+			);
+		}
+
+		this.register(name, (root, config) =>
+			factory(root, { ...options, ...config })
+		);
+	}
+}
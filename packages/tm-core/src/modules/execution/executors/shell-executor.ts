@@ -0,0 +1,372 @@
+/**
+ * Shell executor implementation for Task Master
+ * Runs an arbitrary local command (aider, codex, a bash script, ...) with the
+ * task templated into its command line and/or stdin.
+ */
+
+import { type ChildProcess, spawn } from 'child_process';
+import path from 'path';
+import type { Task } from '../../../common/types/index.js';
+import { BaseExecutor } from '../executors/base-executor.js';
+import type {
+	ExecutionResult,
+	ExecutorType,
+	ShellExecutorConfig
+} from '../types.js';
+
+/**
+ * Maximum characters of output kept in the execution result
+ */
+const MAX_CAPTURED_OUTPUT = 20000;
+
+/**
+ * Time given to the command to exit after SIGTERM before it is killed
+ */
+const KILL_GRACE_PERIOD_MS = 2000;
+
+/**
+ * Quote character a placeholder appears inside of in a shell command line
+ */
+type ShellQuote = '"' | "'" | null;
+
+/**
+ * Command line and stdin rendered for a task
+ */
+export interface ShellCommand {
+	command: string;
+	args?: string[];
+	stdin?: string;
+}
+
+export class ShellExecutor extends BaseExecutor {
+	private shellConfig: ShellExecutorConfig;
+	private currentProcess: ChildProcess | null = null;
+	private readonly useProcessGroup = process.platform !== 'win32';
+
+	constructor(projectRoot: string, config: ShellExecutorConfig = {}) {
+		super(projectRoot, config);
+		this.shellConfig = {
+			...config,
+			shell: config.shell ?? true,
+			streamOutput: config.streamOutput ?? true
+		};
+	}
+
+	getType(): ExecutorType {
+		return 'shell';
+	}
+
+	async isAvailable(): Promise<boolean> {
+		const executable = this.getExecutable();
+		if (!executable) {
+			return false;
+		}
+
+		return new Promise((resolve) => {
+			const checkProcess = spawn('which', [executable], {
+				shell: true,
+				cwd: this.getCwd()
+			});
+
+			checkProcess.on('close', (code) => {
+				resolve(code === 0);
+			});
+
+			checkProcess.on('error', () => {
+				resolve(false);
+			});
+		});
+	}
+
+	/**
+	 * Render the command line and stdin for a task without running it
+	 */
+	buildCommand(task: Task): ShellCommand {
+		if (!this.shellConfig.command) {
+			throw new Error('Shell executor requires a command');
+		}
+
+		const variables = this.getTemplateVariables(task);
+
+		// With explicit args the command is spawned directly, so values are
+		// passed verbatim; otherwise they are quoted for the shell
+		const shellCommand: ShellCommand = this.shellConfig.args
+			? {
+					command: this.render(this.shellConfig.command, variables),
+					args: this.shellConfig.args.map((arg) => this.render(arg, variables))
+				}
+			: {
+					command: this.renderForShell(this.shellConfig.command, variables)
+				};
+
+		if (this.shellConfig.stdin === true) {
+			shellCommand.stdin = variables.prompt;
+		} else if (typeof this.shellConfig.stdin === 'string') {
+			shellCommand.stdin = this.render(this.shellConfig.stdin, variables);
+		}
+
+		return shellCommand;
+	}
+
+	async execute(task: Task): Promise<ExecutionResult> {
+		const startTime = new Date().toISOString();
+
+		try {
+			const shellCommand = this.buildCommand(task);
+			const result = await this.runCommand(shellCommand, task);
+
+			return {
+				...result,
+				startTime,
+				endTime: new Date().toISOString()
+			};
+		} catch (error: any) {
+			this.logger.error(`Failed to execute task ${task.id}:`, error);
+			return this.createResult(
+				task.id,
+				false,
+				undefined,
+				error.message || 'Unknown error occurred'
+			);
+		}
+	}
+
+	private runCommand(
+		shellCommand: ShellCommand,
+		task: Task
+	): Promise<ExecutionResult> {
+		return new Promise((resolve) => {
+			let output = '';
+			let timedOut = false;
+			let timer: NodeJS.Timeout | undefined;
+
+			this.logger.info(`Executing shell command for task ${task.id}`);
+			this.logger.debug(
+				`Command: ${[shellCommand.command, ...(shellCommand.args ?? [])].join(' ')}`
+			);
+
+			const child = spawn(shellCommand.command, shellCommand.args ?? [], {
+				cwd: this.getCwd(),
+				shell: shellCommand.args ? false : this.shellConfig.shell,
+				detached: this.useProcessGroup,
+				stdio: [
+					shellCommand.stdin !== undefined ? 'pipe' : 'ignore',
+					'pipe',
+					'pipe'
+				],
+				env: {
+					...process.env,
+					...this.shellConfig.env,
+					TASKMASTER_TASK_ID: String(task.id),
+					TASKMASTER_TASK_TITLE: task.title,
+					TASKMASTER_PROJECT_ROOT: this.projectRoot
+				}
+			});
+			this.currentProcess = child;
+
+			const handleOutput = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+				const text = chunk.toString();
+				output += text;
+				if (output.length > MAX_CAPTURED_OUTPUT * 2) {
+					output = output.slice(-MAX_CAPTURED_OUTPUT);
+				}
+				if (this.shellConfig.streamOutput) {
+					process[stream].write(text);
+				}
+				this.shellConfig.onOutput?.(text, stream);
+			};
+			child.stdout?.on('data', handleOutput('stdout'));
+			child.stderr?.on('data', handleOutput('stderr'));
+
+			if (child.stdin && shellCommand.stdin !== undefined) {
+				// Commands that never read stdin close the pipe early
+				child.stdin.on('error', () => {});
+				child.stdin.end(shellCommand.stdin);
+			}
+
+			if (this.shellConfig.timeout) {
+				timer = setTimeout(() => {
+					timedOut = true;
+					this.killProcess(child);
+				}, this.shellConfig.timeout);
+			}
+
+			child.on('close', (code) => {
+				clearTimeout(timer);
+				this.currentProcess = null;
+
+				const result = this.createResult(
+					task.id,
+					code === 0,
+					this.truncate(output),
+					code === 0
+						? undefined
+						: timedOut
+							? `Command timed out after ${this.shellConfig.timeout}ms`
+							: `Command exited with code ${code}`
+				);
+				resolve({ ...result, processId: child.pid, exitCode: code });
+			});
+
+			child.on('error', (error) => {
+				clearTimeout(timer);
+				this.currentProcess = null;
+				this.logger.error(`Shell process error:`, error);
+				resolve(
+					this.createResult(
+						task.id,
+						false,
+						undefined,
+						`Failed to spawn command: ${error.message}`
+					)
+				);
+			});
+		});
+	}
+
+	async stop(): Promise<void> {
+		if (this.currentProcess) {
+			this.logger.info('Stopping shell process...');
+			const child = this.currentProcess;
+			this.currentProcess = null;
+			await this.killProcess(child);
+		}
+	}
+
+	/**
+	 * Terminate the process and, on POSIX, everything the shell spawned
+	 * Commands that ignore SIGTERM are killed after a grace period.
+	 * @returns Resolves once the process and its output have closed
+	 */
+	private killProcess(child: ChildProcess): Promise<void> {
+		return new Promise((resolve) => {
+			const killTimer = setTimeout(
+				() => this.signal(child, 'SIGKILL'),
+				KILL_GRACE_PERIOD_MS
+			);
+			// The shell may exit while a command it spawned still runs, so wait
+			// for the output pipes, which the whole tree holds, to close
+			child.once('close', () => {
+				clearTimeout(killTimer);
+				resolve();
+			});
+			this.signal(child, 'SIGTERM');
+		});
+	}
+
+	private signal(child: ChildProcess, name: NodeJS.Signals): void {
+		try {
+			if (this.useProcessGroup && child.pid) {
+				process.kill(-child.pid, name);
+				return;
+			}
+		} catch {
+			// Fall through to signalling the direct child
+		}
+		child.kill(name);
+	}
+
+	private getTemplateVariables(task: Task): Record<string, string> {
+		return {
+			id: String(task.id),
+			title: task.title ?? '',
+			description: task.description ?? '',
+			details: task.details ?? '',
+			testStrategy: task.testStrategy ?? '',
+			status: task.status ?? '',
+			priority: task.priority ?? '',
+			prompt: this.formatTaskPrompt(task),
+			projectRoot: this.projectRoot
+		};
+	}
+
+	/**
+	 * Replace {{variable}} placeholders, leaving unknown ones untouched
+	 */
+	private render(template: string, variables: Record<string, string>): string {
+		return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) =>
+			name in variables ? variables[name] : match
+		);
+	}
+
+	/**
+	 * Replace {{variable}} placeholders in a shell command line, quoting each
+	 * value for the quotes the placeholder appears in (none, '...' or "...")
+	 */
+	private renderForShell(
+		template: string,
+		variables: Record<string, string>
+	): string {
+		let quote: ShellQuote = null;
+		let result = '';
+		let index = 0;
+
+		while (index < template.length) {
+			const placeholder = template.slice(index).match(/^\{\{\s*(\w+)\s*\}\}/);
+			if (placeholder) {
+				const [match, name] = placeholder;
+				result +=
+					name in variables ? this.quote(variables[name], quote) : match;
+				index += match.length;
+				continue;
+			}
+
+			const char = template[index];
+			if (char === '\\' && quote !== "'") {
+				// Keep escaped characters as they are
+				result += template.slice(index, index + 2);
+				index += 2;
+				continue;
+			}
+			if (quote === null && (char === '"' || char === "'")) {
+				quote = char;
+			} else if (char === quote) {
+				quote = null;
+			}
+			result += char;
+			index++;
+		}
+
+		return result;
+	}
+
+	/**
+	 * Quote a value as a single shell word, or escape it for the quotes it is
+	 * already inside of
+	 */
+	private quote(value: string, inside: ShellQuote): string {
+		if (process.platform === 'win32') {
+			const escaped = value.replace(/"/g, '\\"');
+			return inside ? escaped : `"${escaped}"`;
+		}
+		switch (inside) {
+			case "'":
+				return value.replace(/'/g, `'\\''`);
+			case '"':
+				return value.replace(/[\\"$`]/g, '\\$&');
+			default:
+				return `'${value.replace(/'/g, `'\\''`)}'`;
+		}
+	}
+
+	private getExecutable(): string | undefined {
+		const command = this.shellConfig.command?.trim();
+		if (!command) {
+			return undefined;
+		}
+		return this.shellConfig.args ? command : command.split(/\s+/)[0];
+	}
+
+	private getCwd(): string {
+		return this.shellConfig.cwd
+			? path.resolve(this.projectRoot, this.shellConfig.cwd)
+			: this.projectRoot;
+	}
+
+	private truncate(output: string): string {
+		if (output.length <= MAX_CAPTURED_OUTPUT) {
+			return output;
+		}
+		return output.slice(-MAX_CAPTURED_OUTPUT);
+	}
+}
@@ -6,6 +6,11 @@ export * from './types.js';
 export { BaseExecutor } from './executors/base-executor.js';
 export { ClaudeExecutor } from './executors/claude-executor.js';
 export { ExecutorFactory } from './executors/executor-factory.js';
+export { ExecutorRegistry } from './executors/executor-registry.js';
+export {
+	ShellExecutor,
+	type ShellCommand
+} from './executors/shell-executor.js';
 export {
 	ExecutorService,
 	type ExecutorServiceOptions
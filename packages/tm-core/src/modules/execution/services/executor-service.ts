@@ -5,6 +5,7 @@
 import { getLogger } from '../../../common/logger/index.js';
 import type { Task } from '../../../common/types/index.js';
 import { ExecutorFactory } from '../executors/executor-factory.js';
+import { ExecutorRegistry } from '../executors/executor-registry.js';
 import type {
 	ExecutionResult,
 	ExecutorOptions,
@@ -16,6 +17,8 @@ export interface ExecutorServiceOptions {
 	projectRoot: string;
 	defaultExecutor?: ExecutorType;
 	executorConfig?: Record<string, any>;
+	/** Registry for custom executors (defaults to an empty registry) */
+	registry?: ExecutorRegistry;
 }
 
 export class ExecutorService {
@@ -23,22 +26,45 @@ export class ExecutorService {
 	private projectRoot: string;
 	private defaultExecutor?: ExecutorType;
 	private executorConfig: Record<string, any>;
+	private registry: ExecutorRegistry;
 	private currentExecutor?: ITaskExecutor;
 
 	constructor(options: ExecutorServiceOptions) {
 		this.projectRoot = options.projectRoot;
 		this.defaultExecutor = options.defaultExecutor;
 		this.executorConfig = options.executorConfig || {};
+		this.registry = options.registry || new ExecutorRegistry();
+	}
+
+	/**
+	 * Names of executors that can be selected: built-in types and registered
+	 * custom executors
+	 */
+	getExecutorNames(): string[] {
+		// The shell executor needs a command, so it is only selectable through
+		// an executor declared in config
+		const builtIn = ExecutorFactory.getAvailableTypes().filter(
+			(type) => type === 'claude'
+		);
+		return [
+			...builtIn.filter((type) => !this.registry.has(type)),
+			...this.registry.list()
+		];
 	}
 
 	/**
 	 * Execute a task
+	 * @param executor - Built-in executor type or name of a registered custom executor
 	 */
 	async executeTask(
 		task: Task,
-		executorType?: ExecutorType
+		executor?: ExecutorType | string
 	): Promise<ExecutionResult> {
+		let executorType: ExecutorType | undefined;
+
 		try {
+			executorType = executor ? this.resolveExecutorType(executor) : undefined;
+
 			// Determine executor type
 			const type =
 				executorType ||
@@ -55,14 +81,21 @@ export class ExecutorService {
 				};
 			}
 
-			// Create executor
-			const executorOptions: ExecutorOptions = {
-				type,
-				projectRoot: this.projectRoot,
-				config: this.executorConfig
-			};
-
-			this.currentExecutor = ExecutorFactory.create(executorOptions);
+			// Create executor (custom executors come from this service's registry)
+			if (type === 'custom' && executor) {
+				this.currentExecutor = this.registry.create(
+					executor,
+					this.projectRoot,
+					this.executorConfig
+				);
+			} else {
+				const executorOptions: ExecutorOptions = {
+					type,
+					projectRoot: this.projectRoot,
+					config: this.executorConfig
+				};
+				this.currentExecutor = ExecutorFactory.create(executorOptions);
+			}
 
 			// Check if executor is available
 			const isAvailable = await this.currentExecutor.isAvailable();
@@ -71,13 +104,15 @@ export class ExecutorService {
 					success: false,
 					taskId: task.id,
 					executorType: type,
-					error: `Executor ${type} is not available or not configured properly`,
+					error: `Executor ${executor || type} is not available or not configured properly`,
 					startTime: new Date().toISOString()
 				};
 			}
 
 			// Execute the task
-			this.logger.info(`Starting task ${task.id} with ${type} executor`);
+			this.logger.info(
+				`Starting task ${task.id} with ${executor || type} executor`
+			);
 			const result = await this.currentExecutor.execute(task);
 
 			return result;
@@ -93,6 +128,27 @@ export class ExecutorService {
 		}
 	}
 
+	/**
+	 * Map an executor name to its type; registered names take precedence
+	 * over built-in types
+	 */
+	private resolveExecutorType(executor: string): ExecutorType {
+		if (this.registry.has(executor)) {
+			return 'custom';
+		}
+		if (executor === 'claude') {
+			return executor;
+		}
+		if (executor === 'shell') {
+			throw new Error(
+				'The shell executor needs a command. Declare one under "executors" in .taskmaster/config.json, e.g. { "aider": { "type": "shell", "command": "aider --message {{prompt}}" } }'
+			);
+		}
+		throw new Error(
+			`Unknown executor: ${executor}. Available executors: ${this.getExecutorNames().join(', ')}`
+		);
+	}
+
 	/**
 	 * Stop the current task execution
 	 */
@@ -16,6 +16,8 @@ export interface ExecutorOptions {
 	type: ExecutorType;
 	projectRoot: string;
 	config?: Record<string, any>;
+	/** Registered name of the executor when type is 'custom' */
+	name?: string;
 }
 
 /**
@@ -30,6 +32,7 @@ export interface ExecutionResult {
 	startTime: string;
 	endTime?: string;
 	processId?: number;
+	exitCode?: number | null;
 }
 
 /**
@@ -68,9 +71,63 @@ export interface ClaudeExecutorConfig {
 
 /**
  * Configuration for Shell executor
+ *
+ * `command` and `args` support {{placeholders}}: id, title, description,
+ * details, testStrategy, status, priority, prompt and projectRoot.
  */
 export interface ShellExecutorConfig {
-	shell?: string; // Default: '/bin/bash'
+	/** Command line (run through the shell) or executable (when args is set) */
+	command?: string;
+	/** Arguments passed to `command` without a shell */
+	args?: string[];
+	/** Write the task prompt (true) or a rendered template (string) to stdin */
+	stdin?: boolean | string;
+	shell?: string | boolean; // Default: system shell
 	env?: Record<string, string>;
 	cwd?: string;
+	/** Kill the process after this many milliseconds */
+	timeout?: number;
+	/** Forward output to the parent process streams. Default: true */
+	streamOutput?: boolean;
+	/** Receives output chunks as they are produced */
+	onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
 }
+
+/**
+ * Creates an executor instance for a registered custom executor
+ */
+export type ExecutorFactoryFunction = (
+	projectRoot: string,
+	config: Record<string, any>
+) => ITaskExecutor;
+
+/**
+ * Shape of a plugin module providing a custom executor
+ */
+export interface ExecutorPluginModule {
+	createExecutor?: ExecutorFactoryFunction;
+	default?:
+		| ExecutorFactoryFunction
+		| { createExecutor?: ExecutorFactoryFunction };
+}
+
+/**
+ * Custom executor declared in the `executors` section of config.json
+ *
+ * @example
+ * {
+ *   "executors": {
+ *     "aider": { "type": "shell", "command": "aider --message {{prompt}}" },
+ *     "my-agent": { "type": "module", "module": "./tools/agent.mjs" }
+ *   }
+ * }
+ */
+export type CustomExecutorDefinition =
+	| ({ type: 'shell' } & Omit<ShellExecutorConfig, 'onOutput'>)
+	| {
+			type: 'module';
+			/** Module path (relative to the project root) or package name */
+			module: string;
+			/** Options passed to the module's factory */
+			options?: Record<string, any>;
+	  };
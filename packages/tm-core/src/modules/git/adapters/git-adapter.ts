@@ -9,6 +9,17 @@ import path from 'path';
 import fs from 'fs-extra';
 import { type SimpleGit, type StatusResult, simpleGit } from 'simple-git';
 
+/**
+ * A worktree attached to the repository, as reported by `git worktree list`
+ */
+export interface GitWorktree {
+	path: string;
+	head?: string;
+	branch?: string;
+	detached?: boolean;
+	bare?: boolean;
+}
+
 /**
  * GitAdapter class for safe git operations
  */
@@ -749,6 +760,106 @@ export class GitAdapter {
 		}
 	}
 
+	/**
+	 * Lists the worktrees attached to the repository, main worktree first.
+	 *
+	 * @returns {Promise<GitWorktree[]>} Worktree paths with their branch and HEAD
+	 *
+	 * @example
+	 * const worktrees = await git.listWorktrees();
+	 * worktrees.forEach((wt) => console.log(wt.path, wt.branch));
+	 */
+	async listWorktrees(): Promise<GitWorktree[]> {
+		const output = await this.git.raw(['worktree', 'list', '--porcelain']);
+		const worktrees: GitWorktree[] = [];
+		let current: GitWorktree | null = null;
+
+		for (const line of output.split('\n')) {
+			if (line.startsWith('worktree ')) {
+				current = { path: line.slice('worktree '.length) };
+				worktrees.push(current);
+			} else if (!current) {
+				continue;
+			} else if (line.startsWith('HEAD ')) {
+				current.head = line.slice('HEAD '.length);
+			} else if (line.startsWith('branch ')) {
+				current.branch = line
+					.slice('branch '.length)
+					.replace(/^refs\/heads\//, '');
+			} else if (line === 'detached') {
+				current.detached = true;
+			} else if (line === 'bare') {
+				current.bare = true;
+			}
+		}
+
+		return worktrees;
+	}
+
+	/**
+	 * Creates a linked worktree with its own branch checked out.
+	 * The branch is created from the current HEAD (or baseRef) unless it already exists.
+	 *
+	 * @param {string} worktreePath - Absolute path for the new worktree
+	 * @param {string} branchName - Branch to check out in the worktree
+	 * @param {Object} options - Worktree options
+	 * @param {string} options.baseRef - Commit or branch to start a new branch from
+	 * @returns {Promise<void>}
+	 * @throws {Error} If the path already exists or the branch is checked out elsewhere
+	 *
+	 * @example
+	 * await git.addWorktree('/repos/app-worktrees/task-3', 'task-3-add-auth');
+	 */
+	async addWorktree(
+		worktreePath: string,
+		branchName: string,
+		options: { baseRef?: string } = {}
+	): Promise<void> {
+		if (!path.isAbsolute(worktreePath)) {
+			throw new Error('Worktree path must be an absolute path');
+		}
+
+		if (await fs.pathExists(worktreePath)) {
+			throw new Error(`worktree path already exists: ${worktreePath}`);
+		}
+
+		const args = (await this.branchExists(branchName))
+			? ['worktree', 'add', worktreePath, branchName]
+			: [
+					'worktree',
+					'add',
+					'-b',
+					branchName,
+					worktreePath,
+					...(options.baseRef ? [options.baseRef] : [])
+				];
+
+		await this.git.raw(args);
+	}
+
+	/**
+	 * Removes a linked worktree. Its branch is kept.
+	 *
+	 * @param {string} worktreePath - Path of the worktree to remove
+	 * @param {Object} options - Remove options
+	 * @param {boolean} options.force - Remove even with uncommitted changes
+	 * @returns {Promise<void>}
+	 * @throws {Error} If the worktree has changes (unless force=true)
+	 *
+	 * @example
+	 * await git.removeWorktree('/repos/app-worktrees/task-3');
+	 */
+	async removeWorktree(
+		worktreePath: string,
+		options: { force?: boolean } = {}
+	): Promise<void> {
+		const args = ['worktree', 'remove', worktreePath];
+		if (options.force) {
+			args.push('--force');
+		}
+		await this.git.raw(args);
+	}
+
 	/**
 	 * Checks if the repository has any remotes configured.
 	 *
@@ -4,7 +4,7 @@
  */
 
 // Export GitAdapter
-export { GitAdapter } from './adapters/git-adapter.js';
+export { GitAdapter, type GitWorktree } from './adapters/git-adapter.js';
 
 // Export branch name utilities
 export {
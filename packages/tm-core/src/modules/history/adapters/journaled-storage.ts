@@ -0,0 +1,306 @@
+/**
+ * @fileoverview Storage decorator that journals every task mutation
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type {
+	IStorage,
+	LoadTasksOptions,
+	StorageStats,
+	TagsWithStatsResult,
+	UpdateStatusResult
+} from '../../../common/interfaces/storage.interface.js';
+import { getLogger } from '../../../common/logger/index.js';
+import type {
+	StorageType,
+	Task,
+	TaskMetadata,
+	TaskStatus
+} from '../../../common/types/index.js';
+import type { ExpandTaskResult } from '../../integration/services/task-expansion.service.js';
+import type { ChangeJournal } from '../services/change-journal.service.js';
+import { diffTasks } from '../services/task-diff.js';
+import type {
+	ChangeContext,
+	ChangeJournalEntry,
+	ChangeOperation
+} from '../types.js';
+
+/**
+ * Options for JournaledStorage
+ */
+export interface JournaledStorageOptions {
+	/** Who makes the changes, recorded with every entry */
+	context?: ChangeContext;
+	/** Tag used when a call does not name one (the active tag) */
+	resolveTag: () => string;
+}
+
+/**
+ * Wraps any IStorage and appends a journal entry with the before/after state
+ * of every task changed through its mutating methods. Reads and tag
+ * operations pass straight through.
+ */
+export class JournaledStorage implements IStorage {
+	private readonly logger = getLogger('JournaledStorage');
+	/** Set within group() calls, so the grouped mutations are not journaled one by one */
+	private readonly grouping = new AsyncLocalStorage<boolean>();
+
+	constructor(
+		private readonly storage: IStorage,
+		private readonly journal: ChangeJournal,
+		private readonly options: JournaledStorageOptions
+	) {}
+
+	/**
+	 * The wrapped storage
+	 */
+	getInnerStorage(): IStorage {
+		return this.storage;
+	}
+
+	/**
+	 * Who the journaled changes are attributed to
+	 */
+	getChangeContext(): ChangeContext {
+		return this.options.context ?? {};
+	}
+
+	/**
+	 * The journal entries are written to
+	 */
+	getJournal(): ChangeJournal {
+		return this.journal;
+	}
+
+	// ========== Journaled mutations ==========
+
+	async saveTasks(tasks: Task[], tag?: string): Promise<void> {
+		await this.record('saveTasks', tag, () =>
+			this.storage.saveTasks(tasks, tag)
+		);
+	}
+
+	async appendTasks(tasks: Task[], tag?: string): Promise<void> {
+		await this.record('appendTasks', tag, () =>
+			this.storage.appendTasks(tasks, tag)
+		);
+	}
+
+	async updateTask(
+		taskId: string,
+		updates: Partial<Task>,
+		tag?: string
+	): Promise<void> {
+		await this.record('updateTask', tag, () =>
+			this.storage.updateTask(taskId, updates, tag)
+		);
+	}
+
+	async updateTaskWithPrompt(
+		taskId: string,
+		prompt: string,
+		tag?: string,
+		options?: { useResearch?: boolean; mode?: 'append' | 'update' | 'rewrite' }
+	): Promise<void> {
+		await this.record('updateTaskWithPrompt', tag, () =>
+			this.storage.updateTaskWithPrompt(taskId, prompt, tag, options)
+		);
+	}
+
+	async expandTaskWithPrompt(
+		taskId: string,
+		tag?: string,
+		options?: {
+			numSubtasks?: number;
+			useResearch?: boolean;
+			additionalContext?: string;
+			force?: boolean;
+		}
+	): Promise<ExpandTaskResult | void> {
+		return this.record('expandTaskWithPrompt', tag, () =>
+			this.storage.expandTaskWithPrompt(taskId, tag, options)
+		);
+	}
+
+	async updateTaskStatus(
+		taskId: string,
+		newStatus: TaskStatus,
+		tag?: string
+	): Promise<UpdateStatusResult> {
+		return this.record('updateTaskStatus', tag, () =>
+			this.storage.updateTaskStatus(taskId, newStatus, tag)
+		);
+	}
+
+	async deleteTask(taskId: string, tag?: string): Promise<void> {
+		await this.record('deleteTask', tag, () =>
+			this.storage.deleteTask(taskId, tag)
+		);
+	}
+
+	/**
+	 * Save tasks without journaling them, for callers that write their own
+	 * entry (undo)
+	 */
+	async saveTasksUnjournaled(tasks: Task[], tag: string): Promise<void> {
+		await this.storage.saveTasks(tasks, tag);
+	}
+
+	async renameTag(oldTag: string, newTag: string): Promise<void> {
+		await this.storage.renameTag(oldTag, newTag);
+		await this.journal.renameTag(oldTag, newTag);
+	}
+
+	// ========== Pass-through ==========
+
+	loadTasks(tag?: string, options?: LoadTasksOptions): Promise<Task[]> {
+		return this.storage.loadTasks(tag, options);
+	}
+
+	loadTask(taskId: string, tag?: string): Promise<Task | null> {
+		return this.storage.loadTask(taskId, tag);
+	}
+
+	exists(tag?: string): Promise<boolean> {
+		return this.storage.exists(tag);
+	}
+
+	loadMetadata(tag?: string): Promise<TaskMetadata | null> {
+		return this.storage.loadMetadata(tag);
+	}
+
+	saveMetadata(metadata: TaskMetadata, tag?: string): Promise<void> {
+		return this.storage.saveMetadata(metadata, tag);
+	}
+
+	getAllTags(): Promise<string[]> {
+		return this.storage.getAllTags();
+	}
+
+	createTag(
+		tagName: string,
+		options?: { copyFrom?: string; description?: string }
+	): Promise<void> {
+		return this.storage.createTag(tagName, options);
+	}
+
+	deleteTag(tag: string): Promise<void> {
+		return this.storage.deleteTag(tag);
+	}
+
+	copyTag(sourceTag: string, targetTag: string): Promise<void> {
+		return this.storage.copyTag(sourceTag, targetTag);
+	}
+
+	initialize(): Promise<void> {
+		return this.storage.initialize();
+	}
+
+	close(): Promise<void> {
+		return this.storage.close();
+	}
+
+	getStats(): Promise<StorageStats> {
+		return this.storage.getStats();
+	}
+
+	getStorageType(): Exclude<StorageType, 'auto'> {
+		return this.storage.getStorageType();
+	}
+
+	getCurrentBriefName(): string | null {
+		return this.storage.getCurrentBriefName();
+	}
+
+	getTagsWithStats(): Promise<TagsWithStatsResult> {
+		return this.storage.getTagsWithStats();
+	}
+
+	withTasksLock<T>(fn: () => Promise<T>): Promise<T> {
+		return this.storage.withTasksLock ? this.storage.withTasksLock(fn) : fn();
+	}
+
+	// ========== Journal ==========
+
+	/**
+	 * Run several mutations of one tag and journal them as a single entry,
+	 * so they are undone together
+	 */
+	async group<T>(
+		operation: ChangeOperation,
+		tag: string | undefined,
+		mutate: () => Promise<T>
+	): Promise<T> {
+		if (this.grouping.getStore()) {
+			return mutate();
+		}
+		return this.record(operation, tag, () => this.grouping.run(true, mutate));
+	}
+
+	/**
+	 * Run a mutation and journal the tasks it changed. The snapshots and the
+	 * mutation share one hold of the tasks lock, so the entry never contains
+	 * another process's changes.
+	 * Journaling failures are logged, never failing the mutation itself.
+	 */
+	private async record<T>(
+		operation: ChangeOperation,
+		tag: string | undefined,
+		mutate: () => Promise<T>
+	): Promise<T> {
+		if (this.grouping.getStore()) {
+			return mutate();
+		}
+		const resolvedTag = tag || this.options.resolveTag();
+
+		return this.withTasksLock(async () => {
+			const before = await this.snapshot(resolvedTag);
+
+			const result = await mutate();
+
+			if (before) {
+				const after = await this.snapshot(resolvedTag);
+				if (after) {
+					await this.appendEntry(operation, resolvedTag, before, after);
+				}
+			}
+			return result;
+		});
+	}
+
+	private async snapshot(tag: string): Promise<Task[] | null> {
+		try {
+			return await this.storage.loadTasks(tag, { readOnly: true });
+		} catch (error: any) {
+			this.logger.warn(
+				`Could not read tasks for the change journal: ${error.message}`
+			);
+			return null;
+		}
+	}
+
+	private async appendEntry(
+		operation: ChangeOperation,
+		tag: string,
+		before: Task[],
+		after: Task[]
+	): Promise<ChangeJournalEntry | null> {
+		const changes = diffTasks(before, after);
+		if (changes.length === 0) {
+			return null;
+		}
+
+		try {
+			return await this.journal.append({
+				...this.options.context,
+				tag,
+				operation,
+				changes
+			});
+		} catch (error: any) {
+			this.logger.warn(`Could not write the change journal: ${error.message}`);
+			return null;
+		}
+	}
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview History Domain Facade
+ * Public API for the task change journal and undo
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../common/errors/task-master-error.js';
+import type { IStorage } from '../../common/interfaces/storage.interface.js';
+import type { ConfigManager } from '../config/managers/config-manager.js';
+import { JournaledStorage } from './adapters/journaled-storage.js';
+import { HistoryService } from './services/history.service.js';
+import type {
+	TaskHistoryEntry,
+	TaskHistoryQuery,
+	UndoOptions,
+	UndoResult
+} from './types.js';
+
+/**
+ * History Domain - Unified API for task change history
+ * All methods default to the active tag
+ */
+export class HistoryDomain {
+	private historyService?: HistoryService;
+
+	constructor(
+		private readonly configManager: ConfigManager,
+		storage: IStorage
+	) {
+		if (storage instanceof JournaledStorage) {
+			this.historyService = new HistoryService(storage);
+		}
+	}
+
+	/**
+	 * Journaled changes of a tag, oldest first
+	 */
+	async getHistory(
+		query?: TaskHistoryQuery,
+		tag?: string
+	): Promise<TaskHistoryEntry[]> {
+		return this.getService().getHistory(this.resolveTag(tag), query);
+	}
+
+	/**
+	 * Undo the most recent changes of a tag that have not been undone yet
+	 */
+	async undo(options?: UndoOptions, tag?: string): Promise<UndoResult> {
+		return this.getService().undo(this.resolveTag(tag), options);
+	}
+
+	private getService(): HistoryService {
+		if (!this.historyService) {
+			throw new TaskMasterError(
+				'Change history is not recorded for this storage',
+				ERROR_CODES.NOT_IMPLEMENTED,
+				{ operation: 'history' }
+			);
+		}
+		return this.historyService;
+	}
+
+	private resolveTag(tag?: string): string {
+		return tag || this.configManager.getActiveTag();
+	}
+}
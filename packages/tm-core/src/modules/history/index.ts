@@ -0,0 +1,14 @@
+/**
+ * @fileoverview History domain
+ * Append-only change journal per tag with history queries and undo
+ */
+
+export { HistoryDomain } from './history-domain.js';
+export {
+	JournaledStorage,
+	type JournaledStorageOptions
+} from './adapters/journaled-storage.js';
+export { ChangeJournal } from './services/change-journal.service.js';
+export { HistoryService } from './services/history.service.js';
+export { diffTasks } from './services/task-diff.js';
+export type * from './types.js';
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview ChangeJournal - Append-only JSONL journal of task changes per tag
+ *
+ * Entries are written to .taskmaster/history/{tag}.jsonl next to the project,
+ * whatever storage backend holds the tasks.
+ */
+
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { readActivityLog } from '../../storage/adapters/activity-logger.js';
+import type { ChangeJournalEntry } from '../types.js';
+
+/**
+ * Reads and appends task change journal entries
+ */
+export class ChangeJournal {
+	private readonly historyDir: string;
+
+	constructor(projectPath: string) {
+		this.historyDir = path.join(projectPath, '.taskmaster', 'history');
+	}
+
+	/**
+	 * Append an entry to the tag's journal
+	 * @returns The entry as written, with its id and timestamp
+	 */
+	async append(
+		entry: Omit<ChangeJournalEntry, 'id' | 'type' | 'timestamp'>
+	): Promise<ChangeJournalEntry> {
+		const written: ChangeJournalEntry = {
+			id: randomUUID().slice(0, 8),
+			type: 'task-change',
+			timestamp: new Date().toISOString(),
+			...entry,
+			user: entry.user ?? getCurrentUser()
+		};
+
+		// One JSON line per entry, in the activity log format
+		const journalPath = this.getJournalPath(entry.tag);
+		await fs.mkdir(path.dirname(journalPath), { recursive: true });
+		await fs.appendFile(journalPath, `${JSON.stringify(written)}\n`, 'utf-8');
+		return written;
+	}
+
+	/**
+	 * Read all entries of a tag's journal, oldest first
+	 */
+	async read(tag: string): Promise<ChangeJournalEntry[]> {
+		const events = await readActivityLog(this.getJournalPath(tag));
+		return events.filter(
+			(event): event is ChangeJournalEntry => event.type === 'task-change'
+		);
+	}
+
+	/**
+	 * Move a tag's journal along with the tag
+	 */
+	async renameTag(oldTag: string, newTag: string): Promise<void> {
+		try {
+			await fs.rename(this.getJournalPath(oldTag), this.getJournalPath(newTag));
+		} catch (error: any) {
+			if (error.code !== 'ENOENT') {
+				throw error;
+			}
+		}
+	}
+
+	/**
+	 * Path of a tag's journal file
+	 */
+	getJournalPath(tag: string): string {
+		return path.join(this.historyDir, `${encodeURIComponent(tag)}.jsonl`);
+	}
+}
+
+function getCurrentUser(): string | undefined {
+	try {
+		return os.userInfo().username;
+	} catch {
+		// No passwd entry, e.g. in some containers
+		return undefined;
+	}
+}
@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Tests for the change journal, history queries and undo
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ERROR_CODES } from '../../../common/errors/task-master-error.js';
+import type { Task } from '../../../common/types/index.js';
+import { FileStorage } from '../../storage/adapters/file-storage/file-storage.js';
+import { JournaledStorage } from '../adapters/journaled-storage.js';
+import { ChangeJournal } from './change-journal.service.js';
+import { HistoryService } from './history.service.js';
+
+const createTask = (id: string, title = `Task ${id}`): Task => ({
+	id,
+	title,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: [
+		{
+			id: 1,
+			parentId: id,
+			title: `Subtask ${id}.1`,
+			description: '',
+			status: 'pending',
+			priority: 'medium',
+			dependencies: [],
+			details: '',
+			testStrategy: ''
+		}
+	]
+});
+
+describe('HistoryService', () => {
+	let projectRoot: string;
+	let storage: JournaledStorage;
+	let history: HistoryService;
+
+	const titles = async () =>
+		(await storage.loadTasks('master')).map((task) => task.title);
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-history-'));
+		await new FileStorage(projectRoot).saveTasks(
+			[createTask('1'), createTask('2'), createTask('3')],
+			'master'
+		);
+		storage = new JournaledStorage(
+			new FileStorage(projectRoot),
+			new ChangeJournal(projectRoot),
+			{
+				context: { source: 'cli', command: 'set-status', user: 'dev' },
+				resolveTag: () => 'master'
+			}
+		);
+		history = new HistoryService(storage);
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should journal who changed which task fields', async () => {
+		await storage.updateTaskStatus('2', 'done', 'master');
+		await storage.updateTaskStatus('3.1', 'in-progress', 'master');
+
+		const entries = await history.getHistory('master');
+
+		expect(entries).toHaveLength(2);
+		expect(entries[0]).toMatchObject({
+			tag: 'master',
+			operation: 'updateTaskStatus',
+			source: 'cli',
+			command: 'set-status',
+			user: 'dev',
+			changes: [
+				expect.objectContaining({
+					taskId: '2',
+					type: 'updated',
+					fields: expect.arrayContaining(['status'])
+				})
+			]
+		});
+		expect(entries[0].changes[0].before?.status).toBe('pending');
+		expect(entries[0].changes[0].after?.status).toBe('done');
+		expect(entries[1].changes[0].fields).toContain('subtasks[1].status');
+		await expect(
+			fs.access(
+				path.join(projectRoot, '.taskmaster', 'history', 'master.jsonl')
+			)
+		).resolves.toBeUndefined();
+	});
+
+	it('should filter history by task and subtask id', async () => {
+		await storage.updateTask('1', { title: 'Renamed' }, 'master');
+		await storage.updateTaskStatus('2.1', 'in-progress', 'master');
+		await storage.updateTaskStatus('2', 'done', 'master');
+
+		await expect(
+			history.getHistory('master', { taskId: '1' })
+		).resolves.toHaveLength(1);
+		await expect(
+			history.getHistory('master', { taskId: '2' })
+		).resolves.toHaveLength(2);
+		await expect(
+			history.getHistory('master', { taskId: '2.1' })
+		).resolves.toHaveLength(1);
+		await expect(
+			history.getHistory('master', { taskId: '2', limit: 1 })
+		).resolves.toEqual([
+			expect.objectContaining({ operation: 'updateTaskStatus' })
+		]);
+	});
+
+	it('should not journal writes that change nothing', async () => {
+		await storage.saveTasks(await storage.loadTasks('master'), 'master');
+
+		await expect(history.getHistory('master')).resolves.toEqual([]);
+	});
+
+	it('should undo deletes and updates, most recent first', async () => {
+		await storage.updateTask('1', { title: 'Renamed' }, 'master');
+		await storage.deleteTask('2', 'master');
+
+		const result = await history.undo('master');
+
+		expect(result.undone.map((e) => e.operation)).toEqual(['deleteTask']);
+		await expect(titles()).resolves.toEqual(['Renamed', 'Task 2', 'Task 3']);
+
+		await history.undo('master');
+		await expect(titles()).resolves.toEqual(['Task 1', 'Task 2', 'Task 3']);
+
+		const entries = await history.getHistory('master');
+		expect(entries.map((e) => e.operation)).toEqual([
+			'updateTask',
+			'deleteTask',
+			'undo',
+			'undo'
+		]);
+		expect(entries[1].undoneBy).toBe(result.entry.id);
+		await expect(history.undo('master')).rejects.toMatchObject({
+			code: ERROR_CODES.VALIDATION_ERROR
+		});
+	});
+
+	it('should undo several changes at once', async () => {
+		await storage.appendTasks([createTask('4')], 'master');
+		await storage.updateTask('4', { title: 'Fourth' }, 'master');
+
+		const result = await history.undo('master', { count: 2 });
+
+		expect(result.undone).toHaveLength(2);
+		await expect(titles()).resolves.toEqual(['Task 1', 'Task 2', 'Task 3']);
+	});
+
+	it('should journal grouped changes as one entry', async () => {
+		await storage.group('restructureTasks', 'master', async () => {
+			await storage.deleteTask('1', 'master');
+			await storage.updateTask('2', { title: 'Second' }, 'master');
+		});
+
+		const entries = await history.getHistory('master');
+		expect(entries.map((e) => e.operation)).toEqual(['restructureTasks']);
+		expect(entries[0].changes).toHaveLength(2);
+
+		await history.undo('master');
+		await expect(titles()).resolves.toEqual(['Task 1', 'Task 2', 'Task 3']);
+	});
+
+	it('should journal a change made while a group runs on its own', async () => {
+		const grouped = storage.group('restructureTasks', 'master', async () => {
+			await storage.deleteTask('1', 'master');
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			await storage.updateTask('2', { title: 'Second' }, 'master');
+		});
+		const concurrent = storage.updateTaskStatus('3', 'done', 'master');
+		await Promise.all([grouped, concurrent]);
+
+		const entries = await history.getHistory('master');
+		expect(
+			entries.map((e) => [
+				e.operation,
+				e.changes.map((change) => change.taskId).sort()
+			])
+		).toEqual([
+			['restructureTasks', ['1', '2']],
+			['updateTaskStatus', ['3']]
+		]);
+	});
+
+	it('should refuse to undo over changes made outside the journal', async () => {
+		await storage.updateTask('1', { title: 'Renamed' }, 'master');
+		await new FileStorage(projectRoot).updateTask(
+			'1',
+			{ title: 'Edited elsewhere' },
+			'master'
+		);
+
+		await expect(history.undo('master')).rejects.toMatchObject({
+			code: ERROR_CODES.CONCURRENT_MODIFICATION
+		});
+
+		await history.undo('master', { force: true });
+		await expect(titles()).resolves.toEqual(['Task 1', 'Task 2', 'Task 3']);
+	});
+
+	it('should keep concurrent modification checks of the wrapped storage', async () => {
+		const tasks = await storage.loadTasks('master');
+		await new FileStorage(projectRoot).updateTask(
+			'3',
+			{ title: 'Changed elsewhere' },
+			'master'
+		);
+
+		await expect(storage.saveTasks(tasks, 'master')).rejects.toMatchObject({
+			code: ERROR_CODES.CONCURRENT_MODIFICATION
+		});
+	});
+});
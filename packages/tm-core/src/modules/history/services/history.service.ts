@@ -0,0 +1,171 @@
+/**
+ * @fileoverview HistoryService - Query the change journal and undo changes
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { Task } from '../../../common/types/index.js';
+import type { JournaledStorage } from '../adapters/journaled-storage.js';
+import type {
+	ChangeJournalEntry,
+	TaskChange,
+	TaskHistoryEntry,
+	TaskHistoryQuery,
+	UndoOptions,
+	UndoResult
+} from '../types.js';
+import { diffTasks, isSameValue } from './task-diff.js';
+
+/**
+ * Reads a tag's change history and reverts journaled changes
+ */
+export class HistoryService {
+	constructor(private readonly storage: JournaledStorage) {}
+
+	/**
+	 * Journal entries of a tag, oldest first
+	 * With a task id, only entries (and changes) touching that task or subtask
+	 */
+	async getHistory(
+		tag: string,
+		query: TaskHistoryQuery = {}
+	): Promise<TaskHistoryEntry[]> {
+		const entries = await this.storage.getJournal().read(tag);
+
+		const undoneBy = new Map<string, string>();
+		for (const entry of entries) {
+			for (const id of entry.undoes ?? []) {
+				undoneBy.set(id, entry.id);
+			}
+		}
+
+		const history: TaskHistoryEntry[] = [];
+		for (const entry of entries) {
+			const changes = query.taskId
+				? entry.changes.filter((change) =>
+						this.touchesTask(change, query.taskId!)
+					)
+				: entry.changes;
+			if (changes.length === 0) {
+				continue;
+			}
+			history.push({ ...entry, changes, undoneBy: undoneBy.get(entry.id) });
+		}
+
+		return query.limit ? history.slice(-query.limit) : history;
+	}
+
+	/**
+	 * Revert the most recent changes that have not been undone yet.
+	 * The undo itself is appended to the journal.
+	 * @throws TaskMasterError CONCURRENT_MODIFICATION when a task was changed
+	 * since, unless forced
+	 */
+	async undo(tag: string, options: UndoOptions = {}): Promise<UndoResult> {
+		const count = options.count ?? 1;
+		if (!Number.isInteger(count) || count < 1) {
+			throw new TaskMasterError(
+				'Number of changes to undo must be a positive integer',
+				ERROR_CODES.VALIDATION_ERROR,
+				{ details: { count } }
+			);
+		}
+
+		const history = await this.getHistory(tag);
+		const undone = history
+			.filter((entry) => entry.operation !== 'undo' && !entry.undoneBy)
+			.reverse()
+			.slice(0, count);
+		if (undone.length === 0) {
+			throw new TaskMasterError(
+				`Nothing to undo in tag "${tag}"`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ details: { tag } }
+			);
+		}
+
+		const current = await this.storage.loadTasks(tag);
+		let tasks = [...current];
+		for (const entry of undone) {
+			for (const change of [...entry.changes].reverse()) {
+				tasks = this.revertChange(tasks, change, entry, options.force);
+			}
+		}
+
+		await this.storage.saveTasksUnjournaled(tasks, tag);
+		const entry = await this.storage.getJournal().append({
+			...this.storage.getChangeContext(),
+			tag,
+			operation: 'undo',
+			changes: diffTasks(current, tasks),
+			undoes: undone.map((e) => e.id)
+		});
+
+		return { undone, entry };
+	}
+
+	/**
+	 * Put a changed task back into its state before the change
+	 */
+	private revertChange(
+		tasks: Task[],
+		change: TaskChange,
+		entry: ChangeJournalEntry,
+		force?: boolean
+	): Task[] {
+		const index = tasks.findIndex((t) => String(t.id) === change.taskId);
+		const current = index >= 0 ? tasks[index] : null;
+
+		if (!force && !isSameValue(current, change.after)) {
+			throw new TaskMasterError(
+				`Task ${change.taskId} was changed after change ${entry.id}, so undoing it would overwrite that. Undo the later changes first, or force the undo.`,
+				ERROR_CODES.CONCURRENT_MODIFICATION,
+				{
+					operation: 'undo',
+					details: { tag: entry.tag, entryId: entry.id, taskId: change.taskId }
+				}
+			);
+		}
+
+		const next = [...tasks];
+		if (!change.before) {
+			if (index >= 0) {
+				next.splice(index, 1);
+			}
+		} else if (index >= 0) {
+			next[index] = change.before;
+		} else {
+			// Put a deleted task back in id order
+			const position = next.findIndex(
+				(t) => Number(t.id) > Number(change.taskId)
+			);
+			next.splice(position >= 0 ? position : next.length, 0, change.before);
+		}
+		return next;
+	}
+
+	/**
+	 * Whether a change touched a task ("5") or subtask ("5.2")
+	 */
+	private touchesTask(change: TaskChange, taskId: string): boolean {
+		const [parentId, subtaskId] = taskId.split('.');
+		if (change.taskId !== parentId) {
+			return false;
+		}
+		if (!subtaskId || change.type !== 'updated') {
+			return !subtaskId || this.hasSubtask(change, subtaskId);
+		}
+		return change.fields.some(
+			(field) =>
+				field === `subtasks[${subtaskId}]` ||
+				field.startsWith(`subtasks[${subtaskId}].`)
+		);
+	}
+
+	private hasSubtask(change: TaskChange, subtaskId: string): boolean {
+		const task = change.after ?? change.before;
+		return (task?.subtasks ?? []).some((s) => String(s.id) === subtaskId);
+	}
+}
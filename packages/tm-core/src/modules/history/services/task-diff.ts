@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Per-task differences between two versions of a tag's tasks
+ */
+
+import type { Subtask, Task } from '../../../common/types/index.js';
+import type { TaskChange } from '../types.js';
+
+/**
+ * Compare two versions of a tag's task list
+ * @returns One change per created, updated or deleted task
+ */
+export function diffTasks(before: Task[], after: Task[]): TaskChange[] {
+	const beforeById = new Map(before.map((task) => [String(task.id), task]));
+	const afterById = new Map(after.map((task) => [String(task.id), task]));
+	const changes: TaskChange[] = [];
+
+	for (const [taskId, previous] of beforeById) {
+		const next = afterById.get(taskId);
+		if (!next) {
+			changes.push({
+				taskId,
+				type: 'deleted',
+				fields: [],
+				before: previous,
+				after: null
+			});
+			continue;
+		}
+
+		const fields = diffTaskFields(previous, next);
+		if (fields.length > 0) {
+			changes.push({
+				taskId,
+				type: 'updated',
+				fields,
+				before: previous,
+				after: next
+			});
+		}
+	}
+
+	for (const [taskId, next] of afterById) {
+		if (!beforeById.has(taskId)) {
+			changes.push({
+				taskId,
+				type: 'created',
+				fields: [],
+				before: null,
+				after: next
+			});
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Whether two values are equal, ignoring object key order
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+	return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Names of the fields that differ, with subtask fields as `subtasks[id].field`
+ * Ids are matched as strings already, so a numeric vs string id is no change
+ */
+function diffTaskFields(before: Task, after: Task): string[] {
+	const fields: string[] = [];
+
+	for (const key of unionKeys(before, after)) {
+		if (key === 'id') {
+			continue;
+		}
+		if (key === 'subtasks') {
+			fields.push(...diffSubtasks(before.subtasks ?? [], after.subtasks ?? []));
+		} else if (!isSameValue(before[key], after[key])) {
+			fields.push(key);
+		}
+	}
+
+	return fields;
+}
+
+function diffSubtasks(before: Subtask[], after: Subtask[]): string[] {
+	const beforeById = new Map(
+		before.map((subtask) => [String(subtask.id), subtask])
+	);
+	const afterById = new Map(
+		after.map((subtask) => [String(subtask.id), subtask])
+	);
+	const fields: string[] = [];
+
+	for (const id of new Set([...beforeById.keys(), ...afterById.keys()])) {
+		const previous = beforeById.get(id);
+		const next = afterById.get(id);
+		if (!previous || !next) {
+			fields.push(`subtasks[${id}]`);
+			continue;
+		}
+		for (const key of unionKeys(previous, next)) {
+			if (key !== 'id' && !isSameValue(previous[key], next[key])) {
+				fields.push(`subtasks[${id}].${key}`);
+			}
+		}
+	}
+
+	return fields;
+}
+
+function unionKeys<T extends object>(a: T, b: T): (keyof T)[] {
+	return [...new Set([...Object.keys(a), ...Object.keys(b)])] as (keyof T)[];
+}
+
+function stableStringify(value: unknown): string {
+	return JSON.stringify(value ?? null, (_key, nested) =>
+		nested && typeof nested === 'object' && !Array.isArray(nested)
+			? Object.fromEntries(
+					Object.keys(nested)
+						.sort()
+						.map((key) => [key, nested[key]])
+				)
+			: nested
+	);
+}
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Types for the task change journal
+ */
+
+import type { Task } from '../../common/types/index.js';
+
+/**
+ * Who made a change and through which command
+ */
+export interface ChangeContext {
+	/** Client that made the change (e.g. cli, mcp) */
+	source?: string;
+	/** Command or tool that made the change (e.g. set-status) */
+	command?: string;
+	/** OS user running the client (defaults to the current user) */
+	user?: string;
+}
+
+/**
+ * Storage operation that produced a journal entry
+ */
+export type ChangeOperation =
+	| 'saveTasks'
+	| 'appendTasks'
+	| 'updateTask'
+	| 'updateTaskWithPrompt'
+	| 'expandTaskWithPrompt'
+	| 'updateTaskStatus'
+	| 'deleteTask'
+	| 'restructureTasks'
+	| 'undo';
+
+/**
+ * How a single task changed
+ */
+export interface TaskChange {
+	taskId: string;
+	type: 'created' | 'updated' | 'deleted';
+	/** Changed fields, e.g. `status` or `subtasks[2].status` */
+	fields: string[];
+	/** The task before the change (null when created) */
+	before: Task | null;
+	/** The task after the change (null when deleted) */
+	after: Task | null;
+}
+
+/**
+ * One line of a tag's append-only change journal
+ */
+export interface ChangeJournalEntry extends ChangeContext {
+	/** Unique entry id */
+	id: string;
+	type: 'task-change';
+	timestamp: string;
+	tag: string;
+	operation: ChangeOperation;
+	changes: TaskChange[];
+	/** For undo entries: ids of the entries that were undone */
+	undoes?: string[];
+}
+
+/**
+ * A journal entry as returned by history queries
+ */
+export interface TaskHistoryEntry extends ChangeJournalEntry {
+	/** Id of the undo entry that reverted this entry, if any */
+	undoneBy?: string;
+}
+
+/**
+ * Filters for reading a tag's history
+ */
+export interface TaskHistoryQuery {
+	/** Only entries that changed this task or subtask (e.g. "5" or "5.2") */
+	taskId?: string;
+	/** Keep only the last N matching entries */
+	limit?: number;
+}
+
+/**
+ * Options for undoing changes
+ */
+export interface UndoOptions {
+	/** Number of changes to undo, most recent first (default: 1) */
+	count?: number;
+	/** Undo even when a task was changed again afterwards outside the journal */
+	force?: boolean;
+}
+
+/**
+ * Result of undoing changes
+ */
+export interface UndoResult {
+	/** Entries that were undone, most recent first */
+	undone: ChangeJournalEntry[];
+	/** The undo entry appended to the journal */
+	entry: ChangeJournalEntry;
+}
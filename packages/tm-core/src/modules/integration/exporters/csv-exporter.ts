@@ -0,0 +1,42 @@
+/**
+ * @fileoverview CSV exporter, one row per task and subtask
+ */
+
+import type { Task } from '../../../common/types/index.js';
+import { flattenTasks, formatComplexity, toCsv } from './export-rows.js';
+import type { TaskExporter } from './types.js';
+
+export class CsvExporter implements TaskExporter {
+	readonly format = 'csv';
+	readonly extension = 'csv';
+	readonly description = 'Spreadsheet with one row per task and subtask';
+
+	export(tasks: Task[]): string {
+		return toCsv([
+			[
+				'ID',
+				'Parent ID',
+				'Title',
+				'Description',
+				'Status',
+				'Priority',
+				'Complexity',
+				'Dependencies',
+				'Details',
+				'Test Strategy'
+			],
+			...flattenTasks(tasks).map(({ id, parentId, task, dependencies }) => [
+				id,
+				parentId ?? '',
+				task.title,
+				task.description ?? '',
+				task.status,
+				task.priority ?? '',
+				formatComplexity(task.complexity),
+				dependencies.join(', '),
+				task.details ?? '',
+				task.testStrategy ?? ''
+			])
+		]);
+	}
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Helpers shared by the file exporters
+ */
+
+import type { Subtask, Task } from '../../../common/types/index.js';
+
+/**
+ * A task or subtask with its full ID (e.g. `3.1`)
+ */
+export interface ExportRow {
+	id: string;
+	/** Full ID of the parent task, for subtasks */
+	parentId?: string;
+	task: Task | Subtask;
+	/** Full IDs of the tasks this one depends on */
+	dependencies: string[];
+}
+
+/**
+ * Tasks followed by their subtasks, in order
+ * Subtask dependencies without a dot refer to siblings and are expanded to
+ * full IDs, as in the Hamster bulk export.
+ */
+export function flattenTasks(tasks: Task[]): ExportRow[] {
+	return tasks.flatMap((task) => [
+		{
+			id: String(task.id),
+			task,
+			dependencies: (task.dependencies ?? []).map(String)
+		},
+		...(task.subtasks ?? []).map((subtask) => ({
+			id: `${task.id}.${subtask.id}`,
+			parentId: String(task.id),
+			task: subtask,
+			dependencies: (subtask.dependencies ?? []).map((dep) =>
+				String(dep).includes('.') ? String(dep) : `${task.id}.${dep}`
+			)
+		}))
+	]);
+}
+
+export function formatComplexity(complexity: Task['complexity']): string {
+	return complexity === undefined ? '' : String(complexity);
+}
+
+/**
+ * Number of items per key, in first-seen order
+ */
+export function countBy<T>(
+	items: T[],
+	key: (item: T) => string
+): Record<string, number> {
+	const counts: Record<string, number> = {};
+	for (const item of items) {
+		counts[key(item)] = (counts[key(item)] ?? 0) + 1;
+	}
+	return counts;
+}
+
+/**
+ * Share of top-level tasks that are done
+ */
+export function progressLine(tasks: Task[]): string {
+	const done = tasks.filter((task) =>
+		['done', 'completed'].includes(task.status)
+	).length;
+	const percent =
+		tasks.length > 0 ? Math.round((done / tasks.length) * 100) : 0;
+	return `${done} of ${tasks.length} tasks done (${percent}%)`;
+}
+
+/**
+ * RFC 4180 CSV: fields with commas, quotes or line breaks are quoted
+ */
+export function toCsv(rows: string[][]): string {
+	const escape = (field: string) =>
+		/[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+	return `${rows.map((row) => row.map(escape).join(',')).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Registry of file exporters by format name
+ * The built-in formats are always available; others can be registered by
+ * tools embedding @tm/core.
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import { CsvExporter } from './csv-exporter.js';
+import { GitHubIssuesExporter } from './github-issues-exporter.js';
+import { HtmlExporter } from './html-exporter.js';
+import { JiraCsvExporter } from './jira-csv-exporter.js';
+import { MarkdownExporter } from './markdown-exporter.js';
+import type { TaskExporter } from './types.js';
+
+export class ExporterRegistry {
+	private exporters = new Map<string, TaskExporter>();
+
+	constructor() {
+		for (const exporter of [
+			new CsvExporter(),
+			new MarkdownExporter(),
+			new HtmlExporter(),
+			new GitHubIssuesExporter(),
+			new JiraCsvExporter()
+		]) {
+			this.register(exporter);
+		}
+	}
+
+	/**
+	 * Register an exporter under its format, replacing any previous one
+	 */
+	register(exporter: TaskExporter): void {
+		if (!exporter.format) {
+			throw new TaskMasterError(
+				'Exporter format is required',
+				ERROR_CODES.VALIDATION_ERROR
+			);
+		}
+		this.exporters.set(exporter.format, exporter);
+	}
+
+	unregister(format: string): boolean {
+		return this.exporters.delete(format);
+	}
+
+	has(format: string): boolean {
+		return this.exporters.has(format);
+	}
+
+	list(): TaskExporter[] {
+		return [...this.exporters.values()];
+	}
+
+	get(format: string): TaskExporter {
+		const exporter = this.exporters.get(format);
+		if (!exporter) {
+			throw new TaskMasterError(
+				`Unknown export format: ${format}. Available formats: ${[...this.exporters.keys()].join(', ')}`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ format }
+			);
+		}
+		return exporter;
+	}
+}
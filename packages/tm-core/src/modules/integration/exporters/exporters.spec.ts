@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Tests for the file exporters
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Subtask, Task } from '../../../common/types/index.js';
+import { ExporterRegistry } from './exporter-registry.js';
+import type { ExportContext } from './types.js';
+
+const context: ExportContext = {
+	tag: 'release 2',
+	projectName: 'shop',
+	exportedAt: new Date('2026-03-01T12:00:00Z')
+};
+
+const subtask = (id: number, overrides: Partial<Subtask> = {}): Subtask => ({
+	id,
+	parentId: '1',
+	title: `Subtask ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	...overrides
+});
+
+const tasks: Task[] = [
+	{
+		id: '1',
+		title: 'Checkout, "one page"',
+		description: 'Single page checkout',
+		status: 'in-progress',
+		priority: 'high',
+		dependencies: [],
+		details: 'Line one\nLine two',
+		testStrategy: 'E2E <checkout> flow',
+		complexity: 7,
+		subtasks: [
+			subtask(1, { status: 'done' }),
+			subtask(2, { dependencies: ['1'] })
+		]
+	},
+	{
+		id: '2',
+		title: 'Receipts',
+		description: '',
+		status: 'done',
+		priority: 'critical',
+		dependencies: ['1'],
+		details: '',
+		testStrategy: '',
+		subtasks: []
+	}
+];
+
+const render = (format: string) =>
+	new ExporterRegistry().get(format).export(tasks, context);
+
+describe('file exporters', () => {
+	it('should write CSV rows for tasks and subtasks', () => {
+		const lines = render('csv').trimEnd().split('\r\n');
+
+		expect(lines[0]).toBe(
+			'ID,Parent ID,Title,Description,Status,Priority,Complexity,Dependencies,Details,Test Strategy'
+		);
+		expect(lines[1]).toBe(
+			'1,,"Checkout, ""one page""",Single page checkout,in-progress,high,7,,"Line one\nLine two",E2E <checkout> flow'
+		);
+		expect(lines.slice(2)).toEqual([
+			'1.1,1,Subtask 1,,done,medium,,,,',
+			'1.2,1,Subtask 2,,pending,medium,,1.1,,',
+			'2,,Receipts,,done,critical,,1,,'
+		]);
+	});
+
+	it('should write a Markdown report with a summary', () => {
+		const markdown = render('markdown');
+
+		expect(markdown).toContain('# shop: release 2');
+		expect(markdown).toContain('1 of 2 tasks done (50%)');
+		expect(markdown).toContain('| in-progress | 1 |');
+		expect(markdown).toContain('### 1. Checkout, "one page"');
+		expect(markdown).toContain('- **Complexity:** 7');
+		expect(markdown).toContain('- [x] 1.1 Subtask 1 (done)');
+		expect(markdown).toContain('- [ ] 1.2 Subtask 2 (pending, depends on 1.1)');
+		expect(markdown).toContain('- **Depends on:** 1');
+	});
+
+	it('should escape task text in the HTML report', () => {
+		const html = render('html');
+
+		expect(html).toMatch(/^<!DOCTYPE html>/);
+		expect(html).toContain('<h1>shop: release 2</h1>');
+		expect(html).toContain('Checkout, &quot;one page&quot;');
+		expect(html).toContain('<tr class="subtask">\n<td>1.2</td>');
+		expect(html).not.toContain('<checkout>');
+	});
+
+	it('should write one GitHub issue per task', () => {
+		const issues = JSON.parse(render('github-issues'));
+
+		expect(issues).toHaveLength(2);
+		expect(issues[0]).toMatchObject({
+			title: 'Checkout, "one page"',
+			labels: ['priority:high', 'status:in-progress', 'complexity:7'],
+			state: 'open'
+		});
+		expect(issues[0].body).toContain(
+			'## Subtasks\n\n- [x] 1.1 Subtask 1\n- [ ] 1.2 Subtask 2'
+		);
+		expect(issues[1]).toMatchObject({
+			labels: ['priority:critical'],
+			state: 'closed'
+		});
+		expect(issues[1].body).toContain('**Depends on:** task 1');
+	});
+
+	it('should link Jira sub-tasks and dependencies by issue ID', () => {
+		const lines = render('jira-csv').trimEnd().split('\r\n');
+
+		expect(lines[0]).toBe(
+			'Issue Id,Parent Id,Issue Type,Summary,Description,Priority,Status,Labels,Complexity,Inward issue link (Blocks)'
+		);
+		expect(lines.slice(-3)).toEqual([
+			'2,1,Sub-task,Subtask 1,,Medium,Done,release-2,,',
+			'3,1,Sub-task,Subtask 2,,Medium,To Do,release-2,,2',
+			'4,,Task,Receipts,,Highest,Done,release-2,,1'
+		]);
+	});
+
+	it('should reject unknown formats and accept custom exporters', () => {
+		const registry = new ExporterRegistry();
+		expect(() => registry.get('xlsx')).toThrow(
+			'Unknown export format: xlsx. Available formats: csv, markdown, html, github-issues, jira-csv'
+		);
+
+		registry.register({
+			format: 'titles',
+			extension: 'txt',
+			description: 'Task titles',
+			export: (list) => list.map((task) => task.title).join('\n')
+		});
+		expect(registry.get('titles').export(tasks, context)).toBe(
+			'Checkout, "one page"\nReceipts'
+		);
+	});
+});
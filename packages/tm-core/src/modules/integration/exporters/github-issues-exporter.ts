@@ -0,0 +1,77 @@
+/**
+ * @fileoverview GitHub issues exporter
+ * Writes a JSON array of issues shaped like the body of the REST API's
+ * "create an issue" request, one per task with its subtasks as a task list.
+ */
+
+import type { Task } from '../../../common/types/index.js';
+import { flattenTasks, formatComplexity } from './export-rows.js';
+import type { TaskExporter } from './types.js';
+
+/**
+ * An issue in the exported file
+ */
+export interface GitHubIssueExport {
+	title: string;
+	body: string;
+	labels: string[];
+	state: 'open' | 'closed';
+}
+
+const CLOSED_STATUSES = ['done', 'completed', 'cancelled'];
+
+export class GitHubIssuesExporter implements TaskExporter {
+	readonly format = 'github-issues';
+	readonly extension = 'json';
+	readonly description =
+		'JSON issues for the GitHub API, subtasks as task lists';
+
+	export(tasks: Task[]): string {
+		const rows = flattenTasks(tasks);
+		const issues: GitHubIssueExport[] = rows
+			.filter((row) => !row.parentId)
+			.map(({ id, task, dependencies }) => {
+				const sections = [task.description || 'No description provided'];
+				if (task.details) {
+					sections.push(`## Details\n\n${task.details}`);
+				}
+				if (task.testStrategy) {
+					sections.push(`## Test Strategy\n\n${task.testStrategy}`);
+				}
+				const subtasks = rows.filter((row) => row.parentId === id);
+				if (subtasks.length > 0) {
+					sections.push(
+						`## Subtasks\n\n${subtasks
+							.map(
+								(sub) =>
+									`- [${CLOSED_STATUSES.includes(sub.task.status) ? 'x' : ' '}] ${sub.id} ${sub.task.title}`
+							)
+							.join('\n')}`
+					);
+				}
+				if (dependencies.length > 0) {
+					sections.push(
+						`**Depends on:** ${dependencies.map((dep) => `task ${dep}`).join(', ')}`
+					);
+				}
+				sections.push(`<sub>Task Master task ${id}</sub>`);
+
+				const labels = [`priority:${task.priority ?? 'medium'}`];
+				if (!CLOSED_STATUSES.includes(task.status)) {
+					labels.push(`status:${task.status}`);
+				}
+				if (task.complexity !== undefined) {
+					labels.push(`complexity:${formatComplexity(task.complexity)}`);
+				}
+
+				return {
+					title: task.title,
+					body: sections.join('\n\n'),
+					labels,
+					state: CLOSED_STATUSES.includes(task.status) ? 'closed' : 'open'
+				};
+			});
+
+		return `${JSON.stringify(issues, null, 2)}\n`;
+	}
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview HTML report exporter
+ * A single self-contained page, so it can be mailed or attached as is.
+ */
+
+import type { Task } from '../../../common/types/index.js';
+import {
+	countBy,
+	flattenTasks,
+	formatComplexity,
+	progressLine
+} from './export-rows.js';
+import type { ExportContext, TaskExporter } from './types.js';
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 2rem; color: #1f2328; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border-bottom: 1px solid #d0d7de; padding: 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+tr.subtask td:first-child, tr.subtask td:nth-child(2) { padding-left: 1.5rem; }
+.description { color: #59636e; font-size: 0.9em; }
+.summary span { margin-right: 1rem; }
+`;
+
+export class HtmlExporter implements TaskExporter {
+	readonly format = 'html';
+	readonly extension = 'html';
+	readonly description = 'Standalone web page with a status summary';
+
+	export(tasks: Task[], context: ExportContext): string {
+		const title = `${context.projectName}: ${context.tag}`;
+		const summary = Object.entries(countBy(tasks, (task) => task.status))
+			.map(([status, count]) => `<span>${escapeHtml(status)}: ${count}</span>`)
+			.join('');
+		const rows = flattenTasks(tasks).map(
+			(row) => `<tr${row.parentId ? ' class="subtask"' : ''}>
+<td>${escapeHtml(row.id)}</td>
+<td>${escapeHtml(row.task.title)}${row.task.description ? `<div class="description">${escapeHtml(row.task.description)}</div>` : ''}</td>
+<td>${escapeHtml(row.task.status)}</td>
+<td>${escapeHtml(row.task.priority ?? '')}</td>
+<td>${escapeHtml(formatComplexity(row.task.complexity))}</td>
+<td>${escapeHtml(row.dependencies.join(', '))}</td>
+</tr>`
+		);
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(progressLine(tasks))}, exported ${context.exportedAt.toISOString().slice(0, 10)}</p>
+<p class="summary">${summary}</p>
+<table>
+<thead><tr><th>ID</th><th>Task</th><th>Status</th><th>Priority</th><th>Complexity</th><th>Depends on</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+	}
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
@@ -0,0 +1,14 @@
+/**
+ * File exporter exports
+ */
+
+export type { ExportContext, TaskExporter } from './types.js';
+export { ExporterRegistry } from './exporter-registry.js';
+export { CsvExporter } from './csv-exporter.js';
+export { MarkdownExporter } from './markdown-exporter.js';
+export { HtmlExporter } from './html-exporter.js';
+export {
+	GitHubIssuesExporter,
+	type GitHubIssueExport
+} from './github-issues-exporter.js';
+export { JiraCsvExporter } from './jira-csv-exporter.js';
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Jira CSV exporter
+ * Columns follow Jira's CSV importer: subtasks point at their parent through
+ * "Parent Id", and dependencies become "Blocks" links between issue IDs.
+ */
+
+import type { Task, TaskPriority } from '../../../common/types/index.js';
+import { flattenTasks, formatComplexity, toCsv } from './export-rows.js';
+import type { ExportContext, TaskExporter } from './types.js';
+
+const JIRA_PRIORITIES: Record<TaskPriority, string> = {
+	critical: 'Highest',
+	high: 'High',
+	medium: 'Medium',
+	low: 'Low'
+};
+
+export class JiraCsvExporter implements TaskExporter {
+	readonly format = 'jira-csv';
+	readonly extension = 'csv';
+	readonly description = 'CSV for the Jira importer, with sub-tasks and links';
+
+	export(tasks: Task[], context: ExportContext): string {
+		const rows = flattenTasks(tasks);
+		// Jira links issues by the IDs in this file, so number rows from 1
+		const issueIds = new Map(rows.map((row, index) => [row.id, index + 1]));
+		const blockedBy = rows.map((row) =>
+			row.dependencies
+				.filter((dep) => issueIds.has(dep))
+				.map((dep) => String(issueIds.get(dep)))
+		);
+		const linkColumns = Math.max(0, ...blockedBy.map((ids) => ids.length));
+		const label = context.tag.replace(/\s+/g, '-');
+
+		return toCsv([
+			[
+				'Issue Id',
+				'Parent Id',
+				'Issue Type',
+				'Summary',
+				'Description',
+				'Priority',
+				'Status',
+				'Labels',
+				'Complexity',
+				...Array<string>(linkColumns).fill('Inward issue link (Blocks)')
+			],
+			...rows.map((row, index) => [
+				String(issueIds.get(row.id)),
+				row.parentId ? String(issueIds.get(row.parentId)) : '',
+				row.parentId ? 'Sub-task' : 'Task',
+				row.task.title,
+				jiraDescription(row.task),
+				JIRA_PRIORITIES[row.task.priority] ?? 'Medium',
+				jiraStatus(row.task.status),
+				label,
+				formatComplexity(row.task.complexity),
+				...Array.from(
+					{ length: linkColumns },
+					(_, link) => blockedBy[index][link] ?? ''
+				)
+			])
+		]);
+	}
+}
+
+function jiraStatus(status: string): string {
+	switch (status) {
+		case 'done':
+		case 'completed':
+		case 'cancelled':
+			return 'Done';
+		case 'in-progress':
+		case 'review':
+			return 'In Progress';
+		default:
+			return 'To Do';
+	}
+}
+
+/**
+ * Description in Jira wiki markup
+ */
+function jiraDescription(
+	task: Pick<Task, 'description' | 'details' | 'testStrategy'>
+): string {
+	const sections = task.description ? [task.description] : [];
+	if (task.details) {
+		sections.push(`h3. Details\n${task.details}`);
+	}
+	if (task.testStrategy) {
+		sections.push(`h3. Test Strategy\n${task.testStrategy}`);
+	}
+	return sections.join('\n\n');
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Markdown report exporter
+ */
+
+import type { Task } from '../../../common/types/index.js';
+import {
+	countBy,
+	flattenTasks,
+	formatComplexity,
+	progressLine
+} from './export-rows.js';
+import type { ExportContext, TaskExporter } from './types.js';
+
+export class MarkdownExporter implements TaskExporter {
+	readonly format = 'markdown';
+	readonly extension = 'md';
+	readonly description = 'Report with a status summary and every task';
+
+	export(tasks: Task[], context: ExportContext): string {
+		const rows = flattenTasks(tasks);
+		const lines = [
+			`# ${context.projectName}: ${context.tag}`,
+			'',
+			`_Exported ${context.exportedAt.toISOString().slice(0, 10)}_`,
+			'',
+			'## Summary',
+			'',
+			progressLine(tasks),
+			'',
+			'| Status | Tasks |',
+			'| --- | --- |',
+			...Object.entries(countBy(tasks, (task) => task.status)).map(
+				([status, count]) => `| ${status} | ${count} |`
+			),
+			'',
+			'## Tasks'
+		];
+
+		for (const row of rows.filter((row) => !row.parentId)) {
+			const { task } = row;
+			lines.push('', `### ${row.id}. ${task.title}`, '');
+			lines.push(
+				`- **Status:** ${task.status}`,
+				`- **Priority:** ${task.priority ?? 'medium'}`
+			);
+			if (task.complexity !== undefined) {
+				lines.push(`- **Complexity:** ${formatComplexity(task.complexity)}`);
+			}
+			if (row.dependencies.length > 0) {
+				lines.push(`- **Depends on:** ${row.dependencies.join(', ')}`);
+			}
+			for (const text of [task.description, task.details]) {
+				if (text) {
+					lines.push('', text);
+				}
+			}
+			if (task.testStrategy) {
+				lines.push('', `**Test strategy:** ${task.testStrategy}`);
+			}
+
+			const subtasks = rows.filter((sub) => sub.parentId === row.id);
+			if (subtasks.length > 0) {
+				lines.push('', '**Subtasks:**', '');
+				for (const sub of subtasks) {
+					const done = ['done', 'completed'].includes(sub.task.status);
+					const dependsOn =
+						sub.dependencies.length > 0
+							? `, depends on ${sub.dependencies.join(', ')}`
+							: '';
+					lines.push(
+						`- [${done ? 'x' : ' '}] ${sub.id} ${sub.task.title} (${sub.task.status}${dependsOn})`
+					);
+				}
+			}
+		}
+
+		return `${lines.join('\n')}\n`;
+	}
+}
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Types for file exporters
+ */
+
+import type { Task } from '../../../common/types/index.js';
+
+/**
+ * What an exporter knows about the tasks it serializes
+ */
+export interface ExportContext {
+	/** Tag the tasks were read from */
+	tag: string;
+	/** Project name, for report titles */
+	projectName: string;
+	/** When the export was made */
+	exportedAt: Date;
+}
+
+/**
+ * Serializes tasks into a file format
+ */
+export interface TaskExporter {
+	/** Name used to select the exporter, e.g. `csv` */
+	readonly format: string;
+	/** File extension without the dot, used for default file names */
+	readonly extension: string;
+	readonly description: string;
+	/** Tasks arrive already filtered, with subtasks unless they were excluded */
+	export(tasks: Task[], context: ExportContext): string;
+}
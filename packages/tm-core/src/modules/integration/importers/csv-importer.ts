@@ -0,0 +1,67 @@
+/**
+ * @fileoverview CSV importer, one task or subtask per row
+ * The default columns are those written by the CSV exporter.
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import {
+	columnValues,
+	normalizePriority,
+	normalizeStatus,
+	parseCsv,
+	splitIds
+} from './import-records.js';
+import type { FieldMapping, ImportedTask, TaskImporter } from './types.js';
+
+export class CsvImporter implements TaskImporter {
+	readonly format: string = 'csv';
+	readonly description: string =
+		'Spreadsheet with a header row, subtasks linked by a parent ID column';
+	readonly defaultMapping: FieldMapping = {
+		id: 'ID',
+		parentId: 'Parent ID',
+		title: 'Title',
+		description: 'Description',
+		details: 'Details',
+		testStrategy: 'Test Strategy',
+		status: 'Status',
+		priority: 'Priority',
+		dependencies: 'Dependencies'
+	};
+
+	detect(fileName: string, _content: string): boolean {
+		return fileName.toLowerCase().endsWith('.csv');
+	}
+
+	parse(content: string, mapping: FieldMapping): ImportedTask[] {
+		const [headers = [], ...rows] = parseCsv(content);
+		if (columnValues(headers, headers, mapping.title).length === 0) {
+			throw new TaskMasterError(
+				`Column "${mapping.title}" for task titles not found in ${this.format} header (columns: ${headers.join(', ')}). Map the title field to another column.`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ format: this.format, columns: headers }
+			);
+		}
+
+		return rows.map((row) => {
+			const value = (column: string | undefined) =>
+				columnValues(headers, row, column)[0];
+			return {
+				sourceId: value(mapping.id),
+				parentSourceId: value(mapping.parentId),
+				title: value(mapping.title) ?? '',
+				description: value(mapping.description) ?? '',
+				details: value(mapping.details) ?? '',
+				testStrategy: value(mapping.testStrategy) ?? '',
+				status: normalizeStatus(value(mapping.status)),
+				priority: normalizePriority(value(mapping.priority)),
+				dependencies: columnValues(headers, row, mapping.dependencies).flatMap(
+					splitIds
+				)
+			};
+		});
+	}
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview GitHub issues importer
+ * Reads a JSON array of issues, as returned by the REST API or by
+ * `gh issue list --json number,title,body,labels,state`, and the files of the
+ * GitHub issues exporter. Pull requests are skipped.
+ *
+ * Issue bodies are split into description, "## Details" and "## Test Strategy";
+ * task list items under "## Subtasks" become subtasks, and "Depends on" lines
+ * referring to `#12` or `task 12` become dependencies.
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import {
+	normalizePriority,
+	normalizeStatus,
+	splitSections
+} from './import-records.js';
+import type { FieldMapping, ImportedTask, TaskImporter } from './types.js';
+
+const SECTION_PATTERN = /^##\s+(Details|Test Strategy|Subtasks)\s*$/im;
+const DEPENDS_ON_PATTERN = /^\s*(?:\*\*)?depends on:?(?:\*\*)?:?\s*(.+)$/gim;
+const SOURCE_ID_PATTERN = /^\s*<sub>Task Master task (\S+)<\/sub>\s*$/im;
+const TASK_LIST_PATTERN = /^\s*[-*]\s+\[([ xX])\]\s+(?:(\d+\.\d+)\s+)?(.+)$/gm;
+
+export class GitHubIssuesImporter implements TaskImporter {
+	readonly format = 'github-issues';
+	readonly description =
+		'JSON issues from the GitHub API or gh, task lists as subtasks';
+	readonly defaultMapping: FieldMapping = {
+		id: 'number',
+		title: 'title',
+		description: 'body',
+		status: 'state'
+	};
+
+	detect(fileName: string): boolean {
+		return fileName.toLowerCase().endsWith('.json');
+	}
+
+	parse(content: string, mapping: FieldMapping): ImportedTask[] {
+		let data: any;
+		try {
+			data = JSON.parse(content);
+		} catch (error: any) {
+			throw new TaskMasterError(
+				`Invalid GitHub issues JSON: ${error.message}`,
+				ERROR_CODES.JSON_PARSE_ERROR,
+				{ format: this.format },
+				error
+			);
+		}
+		// Search results wrap the issues in `items`
+		const issues = Array.isArray(data) ? data : data?.items;
+		if (!Array.isArray(issues)) {
+			throw new TaskMasterError(
+				'GitHub issues JSON must be an array of issues',
+				ERROR_CODES.VALIDATION_ERROR,
+				{ format: this.format }
+			);
+		}
+
+		return issues
+			.filter((issue) => issue && !issue.pull_request)
+			.flatMap((issue, index) => this.parseIssue(issue, index, mapping));
+	}
+
+	private parseIssue(
+		issue: any,
+		index: number,
+		mapping: FieldMapping
+	): ImportedTask[] {
+		const value = (key: string | undefined) => {
+			const found = key
+				?.split('.')
+				.reduce((current, part) => current?.[part], issue);
+			return found === undefined || found === null ? undefined : String(found);
+		};
+		const labels: string[] = (issue.labels ?? []).map((label: any) =>
+			typeof label === 'string' ? label : String(label?.name ?? '')
+		);
+		const labelValue = (prefix: string) =>
+			labels
+				.find((label) => new RegExp(`^${prefix}\\s*[:/]`, 'i').test(label))
+				?.replace(/^[^:/]+[:/]\s*/, '');
+
+		let body = value(mapping.description) ?? '';
+		const dependencies: string[] = [];
+		body = body.replace(DEPENDS_ON_PATTERN, (_line, refs: string) => {
+			dependencies.push(
+				...[...refs.matchAll(/(?:#|task\s+)(\d+(?:\.\d+)?)/gi)].map(
+					(match) => match[1]
+				)
+			);
+			return '';
+		});
+		const exportedId = body.match(SOURCE_ID_PATTERN)?.[1];
+		body = body.replace(SOURCE_ID_PATTERN, '');
+
+		const { intro, sections } = splitSections(body, SECTION_PATTERN);
+
+		const state = value(mapping.status);
+		const closed = normalizeStatus(state) === 'done';
+		// Subtasks need an ID to point at, even for issues that never had one
+		const sourceId = value(mapping.id) ?? exportedId ?? `issue-${index + 1}`;
+		const task: ImportedTask = {
+			sourceId,
+			parentSourceId: value(mapping.parentId),
+			title: value(mapping.title) ?? '',
+			description: intro,
+			details: value(mapping.details) ?? sections.details ?? '',
+			testStrategy:
+				value(mapping.testStrategy) ?? sections['test strategy'] ?? '',
+			status: closed ? 'done' : normalizeStatus(labelValue('status') ?? state),
+			priority: normalizePriority(
+				value(mapping.priority) ?? labelValue('priority')
+			),
+			dependencies
+		};
+
+		const subtasks = [
+			...(sections.subtasks ?? '').matchAll(TASK_LIST_PATTERN)
+		].map<ImportedTask>(([, checked, id, title]) => ({
+			sourceId: id,
+			parentSourceId: sourceId,
+			title: title.trim(),
+			description: '',
+			details: '',
+			testStrategy: '',
+			status: checked.trim() ? 'done' : 'pending',
+			priority: task.priority,
+			dependencies: []
+		}));
+
+		return [task, ...subtasks];
+	}
+}
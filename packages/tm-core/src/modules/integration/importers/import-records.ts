@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Helpers shared by the file importers
+ */
+
+import type { TaskPriority, TaskStatus } from '../../../common/types/index.js';
+
+/**
+ * Parse RFC 4180 CSV into rows of fields
+ * Quoted fields may contain commas, quotes ("") and line breaks.
+ */
+export function parseCsv(content: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+	const text = content.replace(/^\uFEFF/, '');
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else if (char === '\r' && text[i + 1] === '\n') {
+				// Line breaks inside fields are kept as \n
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') {
+				i++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Non-empty values of every column with the given name (case-insensitive),
+ * since formats such as Jira's repeat a column for multiple values
+ */
+export function columnValues(
+	headers: string[],
+	row: string[],
+	column: string | undefined
+): string[] {
+	if (!column) {
+		return [];
+	}
+	const name = column.trim().toLowerCase();
+	return headers.flatMap((header, index) =>
+		header.trim().toLowerCase() === name && row[index]?.trim()
+			? [row[index].trim()]
+			: []
+	);
+}
+
+/**
+ * Split a list of IDs written as `1, 2`, `1;2` or `#1 #2`
+ */
+export function splitIds(value: string): string[] {
+	return value
+		.split(/[\s,;]+/)
+		.map((id) => id.replace(/^#/, ''))
+		.filter(Boolean);
+}
+
+/**
+ * Split text at headings whose name is captured by the pattern's only group
+ * @returns The text before the first heading, and each heading's text by
+ * lower-cased name
+ */
+export function splitSections(
+	text: string,
+	headings: RegExp
+): { intro: string; sections: Record<string, string> } {
+	const [intro, ...parts] = text.split(headings);
+	const sections: Record<string, string> = {};
+	for (let i = 0; i < parts.length; i += 2) {
+		sections[parts[i].toLowerCase()] = parts[i + 1].trim();
+	}
+	return { intro: intro.trim(), sections };
+}
+
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+	pending: 'pending',
+	todo: 'pending',
+	'to do': 'pending',
+	open: 'pending',
+	backlog: 'pending',
+	new: 'pending',
+	'in progress': 'in-progress',
+	'in-progress': 'in-progress',
+	in_progress: 'in-progress',
+	doing: 'in-progress',
+	started: 'in-progress',
+	review: 'review',
+	'in review': 'review',
+	done: 'done',
+	closed: 'done',
+	resolved: 'done',
+	complete: 'done',
+	completed: 'done',
+	blocked: 'blocked',
+	deferred: 'deferred',
+	cancelled: 'cancelled',
+	canceled: 'cancelled',
+	"won't do": 'cancelled'
+};
+
+/**
+ * Task status for a status name from another tracker, pending if unknown
+ */
+export function normalizeStatus(value: string | undefined): TaskStatus {
+	return STATUS_ALIASES[value?.trim().toLowerCase() ?? ''] ?? 'pending';
+}
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+	critical: 'critical',
+	highest: 'critical',
+	blocker: 'critical',
+	urgent: 'critical',
+	p0: 'critical',
+	high: 'high',
+	major: 'high',
+	p1: 'high',
+	medium: 'medium',
+	normal: 'medium',
+	p2: 'medium',
+	low: 'low',
+	lowest: 'low',
+	minor: 'low',
+	trivial: 'low',
+	p3: 'low'
+};
+
+/**
+ * Task priority for a priority name from another tracker, medium if unknown
+ */
+export function normalizePriority(value: string | undefined): TaskPriority {
+	return PRIORITY_ALIASES[value?.trim().toLowerCase() ?? ''] ?? 'medium';
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Registry of file importers by format name
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import { CsvImporter } from './csv-importer.js';
+import { GitHubIssuesImporter } from './github-issues-importer.js';
+import { JiraCsvImporter } from './jira-csv-importer.js';
+import { PrdImporter } from './prd-importer.js';
+import type { TaskImporter } from './types.js';
+
+export class ImporterRegistry {
+	private importers = new Map<string, TaskImporter>();
+
+	constructor() {
+		for (const importer of [
+			new CsvImporter(),
+			new GitHubIssuesImporter(),
+			new JiraCsvImporter(),
+			new PrdImporter()
+		]) {
+			this.register(importer);
+		}
+	}
+
+	/**
+	 * Register an importer under its format, replacing any previous one
+	 */
+	register(importer: TaskImporter): void {
+		if (!importer.format) {
+			throw new TaskMasterError(
+				'Importer format is required',
+				ERROR_CODES.VALIDATION_ERROR
+			);
+		}
+		// Re-registering moves the importer last, where detect() looks first
+		this.importers.delete(importer.format);
+		this.importers.set(importer.format, importer);
+	}
+
+	unregister(format: string): boolean {
+		return this.importers.delete(format);
+	}
+
+	has(format: string): boolean {
+		return this.importers.has(format);
+	}
+
+	list(): TaskImporter[] {
+		return [...this.importers.values()];
+	}
+
+	get(format: string): TaskImporter {
+		const importer = this.importers.get(format);
+		if (!importer) {
+			throw new TaskMasterError(
+				`Unknown import format: ${format}. Available formats: ${[...this.importers.keys()].join(', ')}`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ format }
+			);
+		}
+		return importer;
+	}
+
+	/**
+	 * Find the importer for a file without an explicit format
+	 * The most recently registered importers are asked first, so specific
+	 * formats (Jira CSV) win over the generic ones (CSV) they build on.
+	 */
+	detect(fileName: string, content: string): TaskImporter {
+		const importer = this.list()
+			.reverse()
+			.find((candidate) => candidate.detect(fileName, content));
+		if (!importer) {
+			throw new TaskMasterError(
+				`Cannot tell the format of ${fileName}. Pass one of: ${[...this.importers.keys()].join(', ')}`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ fileName }
+			);
+		}
+		return importer;
+	}
+}
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Tests for the file importers
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../../../common/types/index.js';
+import { ExporterRegistry } from '../exporters/exporter-registry.js';
+import { ImporterRegistry } from './importer-registry.js';
+
+const parse = (format: string, content: string, mapping = {}) => {
+	const importer = new ImporterRegistry().get(format);
+	return importer.parse(content, { ...importer.defaultMapping, ...mapping });
+};
+
+const tasks: Task[] = [
+	{
+		id: '1',
+		title: 'Checkout, "one page"',
+		description: 'Single page checkout',
+		status: 'in-progress',
+		priority: 'high',
+		dependencies: [],
+		details: 'Line one\nLine two',
+		testStrategy: 'E2E flow',
+		subtasks: [
+			{
+				id: 1,
+				parentId: '1',
+				title: 'Cart summary',
+				description: '',
+				status: 'done',
+				priority: 'high',
+				dependencies: [],
+				details: '',
+				testStrategy: ''
+			}
+		]
+	},
+	{
+		id: '2',
+		title: 'Receipts',
+		description: '',
+		status: 'pending',
+		priority: 'critical',
+		dependencies: ['1'],
+		details: '',
+		testStrategy: '',
+		subtasks: []
+	}
+];
+
+const exported = (format: string) =>
+	new ExporterRegistry().get(format).export(tasks, {
+		tag: 'master',
+		projectName: 'shop',
+		exportedAt: new Date()
+	});
+
+describe('file importers', () => {
+	it('should read CSV with quoted fields and tracker vocabulary', () => {
+		const csv = [
+			'Title,Status,Priority,Notes',
+			'"Login, with ""SSO""",In Progress,Highest,"multi',
+			'line"',
+			',Done,Low,',
+			'Logout,closed,P3,'
+		].join('\r\n');
+
+		expect(
+			parse('csv', csv, { details: 'Notes' }).map(
+				({ title, status, priority, details }) => ({
+					title,
+					status,
+					priority,
+					details
+				})
+			)
+		).toEqual([
+			{
+				title: 'Login, with "SSO"',
+				status: 'in-progress',
+				priority: 'critical',
+				details: 'multi\nline'
+			},
+			{ title: '', status: 'done', priority: 'low', details: '' },
+			{ title: 'Logout', status: 'done', priority: 'low', details: '' }
+		]);
+	});
+
+	it('should fail when the title column is missing', () => {
+		expect(() => parse('csv', 'Name,Status\nLogin,open\n')).toThrow(
+			'Column "Title" for task titles not found in csv header (columns: Name, Status)'
+		);
+	});
+
+	it('should read back the CSV exporter output', () => {
+		expect(parse('csv', exported('csv'))).toMatchObject([
+			{
+				sourceId: '1',
+				title: 'Checkout, "one page"',
+				details: 'Line one\nLine two',
+				priority: 'high'
+			},
+			{ sourceId: '1.1', parentSourceId: '1', status: 'done' },
+			{ sourceId: '2', dependencies: ['1'], priority: 'critical' }
+		]);
+	});
+
+	it('should read Jira sub-tasks, Blocks links and description sections', () => {
+		expect(parse('jira-csv', exported('jira-csv'))).toMatchObject([
+			{
+				sourceId: '1',
+				title: 'Checkout, "one page"',
+				description: 'Single page checkout',
+				details: 'Line one\nLine two',
+				testStrategy: 'E2E flow',
+				status: 'in-progress'
+			},
+			{ sourceId: '2', parentSourceId: '1', status: 'done' },
+			{ sourceId: '3', dependencies: ['1'], priority: 'critical' }
+		]);
+	});
+
+	it('should read GitHub issues from the API and from the exporter', () => {
+		const fromApi = JSON.stringify([
+			{
+				number: 7,
+				title: 'Search',
+				body: 'Full text search\n\nDepends on #5, #6',
+				state: 'open',
+				labels: [{ name: 'priority: high' }, { name: 'status:review' }]
+			},
+			{ number: 8, title: 'A pull request', pull_request: {} }
+		]);
+		expect(parse('github-issues', fromApi)).toEqual([
+			{
+				sourceId: '7',
+				parentSourceId: undefined,
+				title: 'Search',
+				description: 'Full text search',
+				details: '',
+				testStrategy: '',
+				status: 'review',
+				priority: 'high',
+				dependencies: ['5', '6']
+			}
+		]);
+
+		expect(parse('github-issues', exported('github-issues'))).toMatchObject([
+			{
+				sourceId: '1',
+				description: 'Single page checkout',
+				details: 'Line one\nLine two',
+				testStrategy: 'E2E flow',
+				status: 'in-progress',
+				priority: 'high'
+			},
+			{
+				sourceId: '1.1',
+				parentSourceId: '1',
+				title: 'Cart summary',
+				status: 'done'
+			},
+			{ sourceId: '2', dependencies: ['1'], priority: 'critical' }
+		]);
+	});
+
+	it('should detect the format from the file', () => {
+		const registry = new ImporterRegistry();
+
+		expect(registry.detect('tasks.csv', exported('csv')).format).toBe('csv');
+		expect(registry.detect('jira.csv', exported('jira-csv')).format).toBe(
+			'jira-csv'
+		);
+		expect(registry.detect('issues.json', '[]').format).toBe('github-issues');
+		expect(registry.detect('PRD.md', '# Shop').format).toBe('prd');
+		expect(() => registry.detect('tasks.xlsx', '')).toThrow(
+			'Cannot tell the format of tasks.xlsx'
+		);
+	});
+});
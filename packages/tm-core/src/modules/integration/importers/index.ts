@@ -0,0 +1,17 @@
+/**
+ * File importer exports
+ */
+
+export {
+	IMPORT_FIELDS,
+	type FieldMapping,
+	type ImportField,
+	type ImportedTask,
+	type TaskImporter,
+	type TaskImportSettings
+} from './types.js';
+export { ImporterRegistry } from './importer-registry.js';
+export { CsvImporter } from './csv-importer.js';
+export { GitHubIssuesImporter } from './github-issues-importer.js';
+export { JiraCsvImporter } from './jira-csv-importer.js';
+export { PrdImporter } from './prd-importer.js';
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Jira CSV importer
+ * Reads Jira's CSV issue export and the files of the Jira CSV exporter.
+ * Sub-tasks find their parent through "Parent id", and "Blocks" links
+ * (one column per link) become dependencies. "h3. Details" and
+ * "h3. Test Strategy" sections of descriptions are read back into their
+ * own fields.
+ */
+
+import { CsvImporter } from './csv-importer.js';
+import { parseCsv, splitSections } from './import-records.js';
+import type { FieldMapping, ImportedTask } from './types.js';
+
+export class JiraCsvImporter extends CsvImporter {
+	readonly format = 'jira-csv';
+	readonly description = 'Jira CSV export, with sub-tasks and Blocks links';
+	readonly defaultMapping: FieldMapping = {
+		id: 'Issue id',
+		parentId: 'Parent id',
+		title: 'Summary',
+		description: 'Description',
+		status: 'Status',
+		priority: 'Priority',
+		dependencies: 'Inward issue link (Blocks)'
+	};
+
+	detect(fileName: string, content: string): boolean {
+		const headers = (parseCsv(content.split(/\r?\n/, 1)[0])[0] ?? []).map(
+			(header) => header.trim().toLowerCase()
+		);
+		return (
+			super.detect(fileName, content) &&
+			headers.includes('summary') &&
+			headers.includes('issue type')
+		);
+	}
+
+	parse(content: string, mapping: FieldMapping): ImportedTask[] {
+		return super.parse(content, mapping).map((task) => {
+			const { intro, sections } = splitSections(
+				task.description,
+				/^h3\.\s*(Details|Test Strategy)\s*$/im
+			);
+			return {
+				...task,
+				description: intro,
+				details: task.details || (sections.details ?? ''),
+				testStrategy: task.testStrategy || (sections['test strategy'] ?? '')
+			};
+		});
+	}
+}
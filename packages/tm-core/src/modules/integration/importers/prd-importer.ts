@@ -0,0 +1,48 @@
+/**
+ * @fileoverview PRD importer
+ * Turns a Markdown or plain text PRD into tasks with PrdParser's deterministic
+ * rules: headings or top-level list items become tasks, nested items
+ * subtasks, and "Depends on" lines dependencies.
+ */
+
+import { PrdParser } from '../../tasks/parser/prd-parser.js';
+import type { FieldMapping, ImportedTask, TaskImporter } from './types.js';
+
+export class PrdImporter implements TaskImporter {
+	readonly format = 'prd';
+	readonly description =
+		'Markdown or text PRD, headings as tasks and list items as subtasks';
+	readonly defaultMapping: FieldMapping = {};
+
+	detect(fileName: string): boolean {
+		return /\.(md|markdown|txt)$/i.test(fileName);
+	}
+
+	parse(content: string): ImportedTask[] {
+		return new PrdParser().parseDeterministic(content).flatMap((task) => [
+			{
+				sourceId: task.id,
+				title: task.title,
+				description: task.description,
+				details: task.details,
+				testStrategy: task.testStrategy,
+				status: task.status,
+				priority: task.priority,
+				dependencies: task.dependencies
+			},
+			...task.subtasks.map((subtask) => ({
+				sourceId: `${task.id}.${subtask.id}`,
+				parentSourceId: task.id,
+				title: subtask.title,
+				description: subtask.description,
+				details: subtask.details,
+				testStrategy: subtask.testStrategy,
+				status: subtask.status,
+				priority: subtask.priority,
+				dependencies: subtask.dependencies.map(
+					(dependency) => `${task.id}.${dependency}`
+				)
+			}))
+		]);
+	}
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Types for file importers
+ */
+
+import type { TaskPriority, TaskStatus } from '../../../common/types/index.js';
+
+/**
+ * Task fields an importer reads from a file
+ */
+export const IMPORT_FIELDS = [
+	'id',
+	'parentId',
+	'title',
+	'description',
+	'details',
+	'testStrategy',
+	'status',
+	'priority',
+	'dependencies'
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/**
+ * Column name (CSV) or key (JSON, dot-separated for nested keys) to read
+ * each field from
+ */
+export type FieldMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * A task read from a file, before it gets a local ID
+ */
+export interface ImportedTask {
+	/** ID in the file, which parents and dependencies refer to */
+	sourceId?: string;
+	/** Source ID of the parent, for subtasks */
+	parentSourceId?: string;
+	title: string;
+	description: string;
+	details: string;
+	testStrategy: string;
+	status: TaskStatus;
+	priority: TaskPriority;
+	/** Source IDs of the tasks this one depends on */
+	dependencies: string[];
+}
+
+/**
+ * Reads tasks from a file format
+ */
+export interface TaskImporter {
+	/** Name used to select the importer, e.g. `csv` */
+	readonly format: string;
+	readonly description: string;
+	/** Where fields are read from unless the mapping says otherwise */
+	readonly defaultMapping: FieldMapping;
+	/** Whether a file without an explicit format is in this one */
+	detect(fileName: string, content: string): boolean;
+	parse(content: string, mapping: FieldMapping): ImportedTask[];
+}
+
+/**
+ * Import settings in the `import` section of config.json
+ *
+ * @example
+ * {
+ *   "import": {
+ *     "fieldMappings": { "csv": { "title": "Summary", "priority": "Severity" } }
+ *   }
+ * }
+ */
+export interface TaskImportSettings {
+	/** Field mapping per format, merged over the importer's default mapping */
+	fieldMappings?: Record<string, FieldMapping>;
+}
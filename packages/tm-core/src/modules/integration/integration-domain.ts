@@ -3,24 +3,60 @@
  * Public API for integration with external systems
  */
 
+import type { IStorage } from '../../common/interfaces/storage.interface.js';
 import { AuthManager } from '../auth/managers/auth-manager.js';
 import type { ConfigManager } from '../config/managers/config-manager.js';
+import type { TaskExporter } from './exporters/types.js';
 import { ExportService } from './services/export.service.js';
 import type {
+	ExportFileResult,
 	ExportResult,
-	ExportTasksOptions
+	ExportTasksOptions,
+	ExportToFileOptions
 } from './services/export.service.js';
+import { ImportService } from './services/import.service.js';
+import type {
+	ImportBriefOptions,
+	ImportBriefResult,
+	LocalStorageProvider
+} from './services/import.service.js';
+import { SyncService } from './services/sync.service.js';
+import type {
+	SyncBriefOptions,
+	SyncBriefResult
+} from './services/sync.service.js';
 
 /**
  * Integration Domain - Unified API for external system integration
  */
 export class IntegrationDomain {
 	private exportService: ExportService;
+	private importService: ImportService;
+	private syncService: SyncService;
 
-	constructor(configManager: ConfigManager) {
+	/**
+	 * @param storage - The project's configured storage, exported to files
+	 * @param getLocalStorage - Resolves the local storage brief tasks are
+	 * imported into and synced with
+	 */
+	constructor(
+		configManager: ConfigManager,
+		storage: IStorage,
+		getLocalStorage: LocalStorageProvider
+	) {
 		// Get singleton AuthManager instance
 		const authManager = AuthManager.getInstance();
-		this.exportService = new ExportService(configManager, authManager);
+		this.exportService = new ExportService(configManager, authManager, storage);
+		this.importService = new ImportService(
+			configManager,
+			authManager,
+			getLocalStorage
+		);
+		this.syncService = new SyncService(
+			configManager,
+			authManager,
+			getLocalStorage
+		);
 	}
 
 	// ========== Export Operations ==========
@@ -31,4 +67,48 @@ export class IntegrationDomain {
 	async exportTasks(options: ExportTasksOptions): Promise<ExportResult> {
 		return this.exportService.exportTasks(options);
 	}
+
+	/**
+	 * Export the project's tasks to a file (CSV, Markdown, Jira CSV, ...)
+	 */
+	async exportToFile(options: ExportToFileOptions): Promise<ExportFileResult> {
+		return this.exportService.exportToFile(options);
+	}
+
+	/**
+	 * Exporters available to exportToFile
+	 */
+	getExporters(): TaskExporter[] {
+		return this.exportService.exporters.list();
+	}
+
+	/**
+	 * Add a file export format, replacing a registered one with the same name
+	 */
+	registerExporter(exporter: TaskExporter): void {
+		this.exportService.exporters.register(exporter);
+	}
+
+	// ========== Import Operations ==========
+
+	/**
+	 * Import the tasks of a Hamster brief into a local tag
+	 */
+	async importBrief(options: ImportBriefOptions): Promise<ImportBriefResult> {
+		const result = await this.importService.importBrief(options);
+		// The imported tasks are where syncing the tag with the brief starts from
+		if (!result.dryRun) {
+			await this.syncService.recordImport(result);
+		}
+		return result;
+	}
+
+	// ========== Sync Operations ==========
+
+	/**
+	 * Sync a local tag with a Hamster brief in both directions
+	 */
+	async syncBrief(options: SyncBriefOptions): Promise<SyncBriefResult> {
+		return this.syncService.syncBrief(options);
+	}
 }
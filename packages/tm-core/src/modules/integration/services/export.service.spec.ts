@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Tests for exporting tasks to files
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Task } from '../../../common/types/index.js';
+import type { AuthManager } from '../../auth/managers/auth-manager.js';
+import type { ConfigManager } from '../../config/managers/config-manager.js';
+import { FileStorage } from '../../storage/adapters/file-storage/index.js';
+import { ExportService } from './export.service.js';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: [],
+	...overrides
+});
+
+describe('ExportService.exportToFile', () => {
+	let projectRoot: string;
+	let service: ExportService;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-export-'));
+		const storage = new FileStorage(projectRoot);
+		await storage.saveTasks(
+			[
+				task('1', {
+					status: 'done',
+					subtasks: [
+						{ ...task('1'), id: 1, parentId: '1', title: 'Subtask 1.1' }
+					]
+				}),
+				task('2')
+			],
+			'feature'
+		);
+
+		const configManager = {
+			getProjectRoot: () => projectRoot,
+			getActiveTag: () => 'feature'
+		} as unknown as ConfigManager;
+		service = new ExportService(configManager, {} as AuthManager, storage);
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should write the active tag next to the project by default', async () => {
+		const result = await service.exportToFile({ format: 'csv' });
+
+		expect(result).toEqual({
+			format: 'csv',
+			outputPath: path.join(projectRoot, 'feature-tasks.csv'),
+			tag: 'feature',
+			taskCount: 2
+		});
+		const csv = await fs.readFile(result.outputPath, 'utf-8');
+		expect(
+			csv
+				.trimEnd()
+				.split('\r\n')
+				.map((line) => line.split(',')[0])
+		).toEqual(['ID', '1', '1.1', '2']);
+	});
+
+	it('should apply the status and subtask filters', async () => {
+		const result = await service.exportToFile({
+			format: 'markdown',
+			tag: 'feature',
+			status: 'done',
+			excludeSubtasks: true,
+			outputPath: 'reports/done.md'
+		});
+
+		expect(result.outputPath).toBe(path.join(projectRoot, 'reports/done.md'));
+		expect(result.taskCount).toBe(1);
+		const markdown = await fs.readFile(result.outputPath, 'utf-8');
+		expect(markdown).toContain('### 1. Task 1');
+		expect(markdown).not.toContain('Task 2');
+		expect(markdown).not.toContain('Subtask 1.1');
+	});
+
+	it('should export from the storage configured for the project', async () => {
+		const markdown = new FileStorage(projectRoot, { format: 'markdown' });
+		await markdown.saveTasks([task('7')], 'feature');
+		const configManager = {
+			getProjectRoot: () => projectRoot,
+			getActiveTag: () => 'feature'
+		} as unknown as ConfigManager;
+		service = new ExportService(configManager, {} as AuthManager, markdown);
+
+		const result = await service.exportToFile({ format: 'csv' });
+
+		expect(result.taskCount).toBe(1);
+		const csv = await fs.readFile(result.outputPath, 'utf-8');
+		expect(csv).toContain('Task 7');
+	});
+
+	it('should not write anything for an unknown format', async () => {
+		await expect(
+			service.exportToFile({ format: 'pdf', outputPath: 'tasks.pdf' })
+		).rejects.toThrow('Unknown export format: pdf');
+		await expect(
+			fs.access(path.join(projectRoot, 'tasks.pdf'))
+		).rejects.toThrow();
+	});
+});
@@ -1,17 +1,22 @@
 /**
  * @fileoverview Export Service
  * Core service for exporting tasks to external systems (e.g., Hamster briefs)
+ * and to files in the formats of the exporter registry
  */
 
+import fs from 'node:fs/promises';
+import path from 'node:path';
 import {
 	ERROR_CODES,
 	TaskMasterError
 } from '../../../common/errors/task-master-error.js';
+import type { IStorage } from '../../../common/interfaces/storage.interface.js';
 import type { Task, TaskStatus } from '../../../common/types/index.js';
 import { AuthManager } from '../../auth/managers/auth-manager.js';
 import type { UserContext } from '../../auth/types.js';
 import { ConfigManager } from '../../config/managers/config-manager.js';
 import { FileStorage } from '../../storage/adapters/file-storage/index.js';
+import { ExporterRegistry } from '../exporters/exporter-registry.js';
 
 // Type definitions for the bulk API response
 interface TaskImportResult {
@@ -37,21 +42,49 @@ interface BulkTasksResponse {
 }
 
 /**
- * Options for exporting tasks
+ * Which local tasks to export
  */
-export interface ExportTasksOptions {
+export interface ExportTaskFilters {
 	/** Optional tag to export tasks from (uses active tag if not provided) */
 	tag?: string;
-	/** Brief ID to export to */
-	briefId?: string;
-	/** Organization ID (required if briefId is provided) */
-	orgId?: string;
 	/** Filter by task status */
 	status?: TaskStatus;
 	/** Exclude subtasks from export (default: false, subtasks included by default) */
 	excludeSubtasks?: boolean;
 }
 
+/**
+ * Options for exporting tasks
+ */
+export interface ExportTasksOptions extends ExportTaskFilters {
+	/** Brief ID to export to */
+	briefId?: string;
+	/** Organization ID (required if briefId is provided) */
+	orgId?: string;
+}
+
+/**
+ * Options for exporting tasks to a file
+ */
+export interface ExportToFileOptions extends ExportTaskFilters {
+	/** Exporter format, e.g. `csv` or `jira-csv` */
+	format: string;
+	/** File to write, relative to the project root (defaults to `<tag>-tasks.<extension>`) */
+	outputPath?: string;
+}
+
+/**
+ * Result of exporting tasks to a file
+ */
+export interface ExportFileResult {
+	format: string;
+	/** Absolute path of the written file */
+	outputPath: string;
+	tag: string;
+	/** Number of top-level tasks written */
+	taskCount: number;
+}
+
 /**
  * Result of the export operation
  */
@@ -89,10 +122,23 @@ export interface Brief {
 export class ExportService {
 	private configManager: ConfigManager;
 	private authManager: AuthManager;
+	private storage: IStorage;
+	readonly exporters: ExporterRegistry;
 
-	constructor(configManager: ConfigManager, authManager: AuthManager) {
+	/**
+	 * @param storage - The project's configured storage, which files are
+	 * exported from
+	 */
+	constructor(
+		configManager: ConfigManager,
+		authManager: AuthManager,
+		storage: IStorage,
+		exporters: ExporterRegistry = new ExporterRegistry()
+	) {
 		this.configManager = configManager;
 		this.authManager = authManager;
+		this.storage = storage;
+		this.exporters = exporters;
 	}
 
 	/**
@@ -199,6 +245,40 @@ export class ExportService {
 		}
 	}
 
+	/**
+	 * Write the project's tasks to a file with a registered exporter
+	 */
+	async exportToFile(options: ExportToFileOptions): Promise<ExportFileResult> {
+		// Fail on an unknown format before reading any tasks
+		const exporter = this.exporters.get(options.format);
+		const projectRoot = this.configManager.getProjectRoot();
+		const tag = options.tag || this.configManager.getActiveTag();
+
+		const tasks = await this.storage.loadTasks(tag, {
+			status: options.status,
+			excludeSubtasks: options.excludeSubtasks
+		});
+
+		const outputPath = path.resolve(
+			projectRoot,
+			options.outputPath || `${tag}-tasks.${exporter.extension}`
+		);
+		const content = exporter.export(tasks, {
+			tag,
+			projectName: path.basename(projectRoot),
+			exportedAt: new Date()
+		});
+		await fs.mkdir(path.dirname(outputPath), { recursive: true });
+		await fs.writeFile(outputPath, content, 'utf-8');
+
+		return {
+			format: exporter.format,
+			outputPath,
+			tag,
+			taskCount: tasks.length
+		};
+	}
+
 	/**
 	 * Export tasks from a brief ID or URL
 	 */
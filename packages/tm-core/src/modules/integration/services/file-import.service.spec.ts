@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Tests for importing tasks from files
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Task } from '../../../common/types/index.js';
+import type { ConfigManager } from '../../config/managers/config-manager.js';
+import { FileStorage } from '../../storage/adapters/file-storage/index.js';
+import { FileImportService } from './file-import.service.js';
+
+const task = (id: string, title: string): Task => ({
+	id,
+	title,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: []
+});
+
+describe('FileImportService', () => {
+	let projectRoot: string;
+	let storage: FileStorage;
+	let config: Record<string, any>;
+	let service: FileImportService;
+
+	const writeFile = (name: string, lines: string[]) =>
+		fs.writeFile(path.join(projectRoot, name), lines.join('\n'));
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-import-file-'));
+		storage = new FileStorage(projectRoot);
+		await storage.saveTasks(
+			[task('1', 'Set up CI'), task('4', 'Payments API')],
+			'master'
+		);
+		config = {};
+
+		const configManager = {
+			getProjectRoot: () => projectRoot,
+			getActiveTag: () => 'master',
+			getConfig: () => config
+		} as unknown as ConfigManager;
+		service = new FileImportService(storage, configManager);
+
+		await writeFile('backlog.csv', [
+			'ID,Parent ID,Title,Status,Dependencies',
+			'a,,Checkout,todo,b',
+			'b,,payments  api,,',
+			'c,a,Cart summary,done,',
+			'd,a,Address form,,c a',
+			'e,,Receipts,,a x'
+		]);
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should append new tasks after the highest ID and skip duplicates', async () => {
+		const result = await service.importFile({ path: 'backlog.csv' });
+
+		expect(result.format).toBe('csv');
+		expect(result.duplicates).toEqual([
+			{ title: 'payments  api', sourceId: 'b', matchedId: '4' }
+		]);
+		expect(result.warnings).toEqual([
+			'e (Receipts): dropped dependency on x, which is not in the file',
+			'd (Address form): dropped dependency on task a, subtasks can only depend on subtasks'
+		]);
+
+		const tasks = await storage.loadTasks('master');
+		expect(tasks.map((t) => [t.id, t.title, t.dependencies])).toEqual([
+			['1', 'Set up CI', []],
+			['4', 'Payments API', []],
+			['5', 'Checkout', ['4']],
+			['6', 'Receipts', ['5']]
+		]);
+		expect(
+			tasks[2].subtasks.map((s) => [s.id, s.title, s.status, s.dependencies])
+		).toEqual([
+			[1, 'Cart summary', 'done', []],
+			[2, 'Address form', 'pending', ['1']]
+		]);
+	});
+
+	it('should preview without writing', async () => {
+		const result = await service.importFile({
+			path: 'backlog.csv',
+			tag: 'master',
+			dryRun: true
+		});
+
+		expect(result.dryRun).toBe(true);
+		expect(result.tasks.map((t) => t.id)).toEqual(['5', '6']);
+		expect(await storage.loadTasks('master')).toHaveLength(2);
+	});
+
+	it('should read fields from the configured and given columns', async () => {
+		await writeFile('jira.csv', [
+			'Summary,Severity,State',
+			'Refunds,Blocker,Open',
+			'Set up CI,Minor,Open'
+		]);
+		config.import = {
+			fieldMappings: { csv: { title: 'Summary', priority: 'Severity' } }
+		};
+
+		const result = await service.importFile({
+			path: 'jira.csv',
+			format: 'csv',
+			fieldMapping: { status: 'State' }
+		});
+
+		expect(result.tasks).toMatchObject([
+			{ id: '5', title: 'Refunds', priority: 'critical', status: 'pending' }
+		]);
+		expect(result.duplicates.map((d) => d.matchedId)).toEqual(['1']);
+	});
+
+	it('should turn a PRD into tasks numbered after the tag', async () => {
+		await writeFile('prd.md', [
+			'# Shop',
+			'',
+			'## Checkout',
+			'One page checkout.',
+			'',
+			'1. Cart summary',
+			'2. Address form',
+			'',
+			'## Receipts',
+			'Depends on: Checkout, Payments API'
+		]);
+
+		const result = await service.importFile({ path: 'prd.md' });
+
+		expect(result.format).toBe('prd');
+		expect(result.warnings).toEqual([]);
+		const tasks = await storage.loadTasks('master');
+		expect(tasks.map((t) => [t.id, t.title, t.dependencies])).toEqual([
+			['1', 'Set up CI', []],
+			['4', 'Payments API', []],
+			['5', 'Checkout', []],
+			['6', 'Receipts', ['5']]
+		]);
+		expect(tasks[2].description).toBe('One page checkout.');
+		expect(
+			tasks[2].subtasks.map((s) => [s.id, s.title, s.dependencies])
+		).toEqual([
+			[1, 'Cart summary', []],
+			[2, 'Address form', ['1']]
+		]);
+	});
+
+	it('should reject unknown fields and missing files', async () => {
+		await expect(
+			service.importFile({
+				path: 'backlog.csv',
+				fieldMapping: { owner: 'x' } as any
+			})
+		).rejects.toThrow('Unknown import field: owner');
+		await expect(service.importFile({ path: 'missing.csv' })).rejects.toThrow(
+			'Cannot read import file missing.csv'
+		);
+	});
+});
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview File Import Service
+ * Appends tasks read from CSV, GitHub issues, Jira or PRD files to a tag, the
+ * counterpart of the file exporters
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { IStorage } from '../../../common/interfaces/storage.interface.js';
+import type { Subtask, Task } from '../../../common/types/index.js';
+import type { ConfigManager } from '../../config/managers/config-manager.js';
+import { ImporterRegistry } from '../importers/importer-registry.js';
+import {
+	type FieldMapping,
+	IMPORT_FIELDS,
+	type ImportedTask
+} from '../importers/types.js';
+
+/**
+ * Options for importing tasks from a file
+ */
+export interface ImportFileOptions {
+	/** File to read, relative to the project root */
+	path: string;
+	/** Importer format (detected from the file name and content if not provided) */
+	format?: string;
+	/** Tag to append the tasks to (uses the active tag if not provided) */
+	tag?: string;
+	/** Where to read fields from, over the `import.fieldMappings` config */
+	fieldMapping?: FieldMapping;
+	/** Map the tasks without writing them */
+	dryRun?: boolean;
+}
+
+/**
+ * A task left out because one with the same title exists
+ */
+export interface ImportFileDuplicate {
+	title: string;
+	/** ID of the task in the file */
+	sourceId?: string;
+	/** The task or subtask with the same title, in the tag or earlier in the file */
+	matchedId: string;
+}
+
+/**
+ * Result of importing a file
+ */
+export interface ImportFileResult {
+	format: string;
+	tag: string;
+	dryRun: boolean;
+	/** The tasks appended (or that would be appended) to the tag */
+	tasks: Task[];
+	duplicates: ImportFileDuplicate[];
+	/** Rows that were skipped and dependencies that could not be kept */
+	warnings: string[];
+}
+
+/**
+ * FileImportService turns the tasks of a file into new tasks of a tag
+ * New tasks are numbered after the tag's highest ID and subtasks from 1 under
+ * their parent; dependencies follow the new IDs. Tasks whose title matches
+ * one in the tag are skipped, and dependencies on them point at the existing
+ * task instead.
+ */
+export class FileImportService {
+	private storage: IStorage;
+	private configManager: ConfigManager;
+	readonly importers: ImporterRegistry;
+
+	constructor(
+		storage: IStorage,
+		configManager: ConfigManager,
+		importers: ImporterRegistry = new ImporterRegistry()
+	) {
+		this.storage = storage;
+		this.configManager = configManager;
+		this.importers = importers;
+	}
+
+	/**
+	 * Read a file and append its tasks to a tag
+	 */
+	async importFile(options: ImportFileOptions): Promise<ImportFileResult> {
+		const unknownFields = Object.keys(options.fieldMapping ?? {}).filter(
+			(field) => !(IMPORT_FIELDS as readonly string[]).includes(field)
+		);
+		if (unknownFields.length > 0) {
+			throw new TaskMasterError(
+				`Unknown import field: ${unknownFields.join(', ')}. Fields: ${IMPORT_FIELDS.join(', ')}`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ fields: unknownFields }
+			);
+		}
+
+		const filePath = path.resolve(
+			this.configManager.getProjectRoot(),
+			options.path
+		);
+		let content: string;
+		try {
+			content = await fs.readFile(filePath, 'utf-8');
+		} catch (error: any) {
+			throw new TaskMasterError(
+				`Cannot read import file ${options.path}: ${error.message}`,
+				error.code === 'ENOENT'
+					? ERROR_CODES.FILE_NOT_FOUND
+					: ERROR_CODES.FILE_READ_ERROR,
+				{ path: filePath },
+				error
+			);
+		}
+
+		const importer = options.format
+			? this.importers.get(options.format)
+			: this.importers.detect(path.basename(filePath), content);
+		const mapping: FieldMapping = {
+			...importer.defaultMapping,
+			...this.configManager.getConfig().import?.fieldMappings?.[
+				importer.format
+			],
+			...options.fieldMapping
+		};
+
+		const tag = options.tag || this.configManager.getActiveTag();
+		const existing = await this.storage.loadTasks(tag);
+		const result = this.buildTasks(importer.parse(content, mapping), existing);
+
+		const dryRun = options.dryRun ?? false;
+		if (!dryRun && result.tasks.length > 0) {
+			await this.storage.appendTasks(result.tasks, tag);
+		}
+
+		return { format: importer.format, tag, dryRun, ...result };
+	}
+
+	private buildTasks(
+		drafts: ImportedTask[],
+		existing: Task[]
+	): Pick<ImportFileResult, 'tasks' | 'duplicates' | 'warnings'> {
+		const tasks: Task[] = [];
+		const duplicates: ImportFileDuplicate[] = [];
+		const warnings: string[] = [];
+		const created = new Map<Task | Subtask, ImportedTask>();
+		// Source ID to local task or subtask ID
+		const idMap = new Map<string, string>();
+		const titles = new Map(
+			existing.map((task) => [titleKey(task.title), String(task.id)])
+		);
+		let nextId =
+			Math.max(
+				0,
+				...existing
+					.map((task) => Number.parseInt(String(task.id), 10))
+					.filter(Number.isFinite)
+			) + 1;
+
+		const label = (draft: ImportedTask) =>
+			draft.sourceId ? `${draft.sourceId} (${draft.title})` : draft.title;
+		const withTitles = drafts.filter((draft, index) => {
+			if (!draft.title.trim()) {
+				warnings.push(
+					`Entry ${draft.sourceId ?? index + 1}: skipped, no title`
+				);
+			}
+			return draft.title.trim();
+		});
+		const isTopLevel = (draft: ImportedTask) =>
+			!draft.parentSourceId ||
+			!withTitles.some(
+				(parent) =>
+					parent.sourceId === draft.parentSourceId && !parent.parentSourceId
+			);
+
+		for (const draft of withTitles.filter(isTopLevel)) {
+			if (draft.parentSourceId) {
+				warnings.push(
+					`${label(draft)}: parent ${draft.parentSourceId} is not a task in the file, imported as a task`
+				);
+			}
+			const matchedId = titles.get(titleKey(draft.title));
+			if (matchedId) {
+				duplicates.push({
+					title: draft.title,
+					sourceId: draft.sourceId,
+					matchedId
+				});
+				if (draft.sourceId) {
+					idMap.set(draft.sourceId, matchedId);
+				}
+				continue;
+			}
+
+			const id = String(nextId++);
+			const task: Task = { id, ...copyFields(draft), subtasks: [] };
+			titles.set(titleKey(draft.title), id);
+			if (draft.sourceId) {
+				idMap.set(draft.sourceId, id);
+			}
+			tasks.push(task);
+			created.set(task, draft);
+		}
+
+		for (const draft of withTitles.filter((draft) => !isTopLevel(draft))) {
+			const parentId = idMap.get(draft.parentSourceId!);
+			const parent = tasks.find((task) => task.id === parentId);
+			if (!parent) {
+				warnings.push(
+					`${label(draft)}: skipped, its parent task is already in the tag`
+				);
+				continue;
+			}
+			const sibling = parent.subtasks.find(
+				(subtask) => titleKey(subtask.title) === titleKey(draft.title)
+			);
+			if (sibling) {
+				duplicates.push({
+					title: draft.title,
+					sourceId: draft.sourceId,
+					matchedId: `${parent.id}.${sibling.id}`
+				});
+				continue;
+			}
+
+			const subtask: Subtask = {
+				id: parent.subtasks.length + 1,
+				parentId: parent.id,
+				...copyFields(draft)
+			};
+			parent.subtasks.push(subtask);
+			if (draft.sourceId) {
+				idMap.set(draft.sourceId, `${parent.id}.${subtask.id}`);
+			}
+			created.set(subtask, draft);
+		}
+
+		for (const [task, draft] of created) {
+			const ownId =
+				'parentId' in task ? `${task.parentId}.${task.id}` : String(task.id);
+			task.dependencies = draft.dependencies.flatMap((dependency) => {
+				const localId = idMap.get(dependency);
+				if (!localId) {
+					warnings.push(
+						`${label(draft)}: dropped dependency on ${dependency}, which is not in the file`
+					);
+					return [];
+				}
+				if (localId === ownId) {
+					return [];
+				}
+				if (!('parentId' in task)) {
+					if (localId.includes('.')) {
+						warnings.push(
+							`${label(draft)}: dropped dependency on subtask ${dependency}, tasks can only depend on tasks`
+						);
+						return [];
+					}
+					return [localId];
+				}
+				// Subtasks refer to siblings by their plain ID and cannot depend on tasks
+				if (localId.startsWith(`${task.parentId}.`)) {
+					return [localId.slice(task.parentId.length + 1)];
+				}
+				if (!localId.includes('.')) {
+					warnings.push(
+						`${label(draft)}: dropped dependency on task ${dependency}, subtasks can only depend on subtasks`
+					);
+					return [];
+				}
+				return [localId];
+			});
+		}
+
+		return { tasks, duplicates, warnings };
+	}
+}
+
+/**
+ * Titles match regardless of case and spacing
+ */
+function titleKey(title: string): string {
+	return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function copyFields(draft: ImportedTask): Omit<Task, 'id' | 'subtasks'> {
+	return {
+		title: draft.title.trim(),
+		description: draft.description,
+		status: draft.status,
+		priority: draft.priority,
+		dependencies: [],
+		details: draft.details,
+		testStrategy: draft.testStrategy
+	};
+}
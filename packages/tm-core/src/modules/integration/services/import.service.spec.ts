@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Tests for importing brief tasks into local storage
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IStorage } from '../../../common/interfaces/storage.interface.js';
+import type { Subtask, Task } from '../../../common/types/index.js';
+import type { AuthManager } from '../../auth/managers/auth-manager.js';
+import type { ConfigManager } from '../../config/managers/config-manager.js';
+import { ApiStorage } from '../../storage/adapters/api-storage.js';
+import { FileStorage } from '../../storage/adapters/file-storage/index.js';
+import type { TaskRepository } from '../../tasks/repositories/task-repository.interface.js';
+import { ImportService } from './import.service.js';
+
+vi.mock('../../auth/managers/auth-manager.js', () => ({
+	AuthManager: { getInstance: () => ({ getContext: () => null }) }
+}));
+
+const BRIEF_ID = '5b2f1c8e-7a41-4c39-9d55-2f0e6a1b7c90';
+
+const remoteSubtask = (
+	id: string,
+	parentId: string,
+	dependencies: string[] = []
+): Subtask => ({
+	id,
+	parentId,
+	title: `Subtask ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies,
+	details: '',
+	testStrategy: '',
+	databaseId: `uuid-${id}`
+});
+
+const remoteTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: `Description of ${id}`,
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: [],
+	databaseId: `uuid-${id}`,
+	...overrides
+});
+
+// Brief tasks as returned by the bulk tasks API
+const briefTasks: Task[] = [
+	remoteTask('HAM-1', { status: 'done' }),
+	remoteTask('HAM-2', {
+		dependencies: ['HAM-1', 'HAM-99'],
+		subtasks: [
+			remoteSubtask('HAM-4', 'uuid-HAM-2'),
+			remoteSubtask('HAM-5', 'uuid-HAM-2', ['HAM-4', 'HAM-1'])
+		]
+	}),
+	remoteTask('HAM-3', {
+		priority: 'high',
+		dependencies: ['HAM-5'],
+		subtasks: [remoteSubtask('HAM-6', 'uuid-HAM-3', ['HAM-5'])]
+	})
+];
+
+describe('ImportService', () => {
+	let projectRoot: string;
+	let getTasks: ReturnType<typeof vi.fn>;
+	let storage: IStorage;
+	let service: ImportService;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-import-'));
+		getTasks = vi.fn(async () => structuredClone(briefTasks));
+		storage = new FileStorage(projectRoot);
+
+		const configManager = {
+			getProjectRoot: () => projectRoot,
+			getActiveTag: () => 'master'
+		} as unknown as ConfigManager;
+		const authManager = {
+			hasValidSession: async () => true,
+			getContext: () => null,
+			getBrief: async (id: string) =>
+				id === BRIEF_ID ? { id, document: { title: 'Checkout revamp' } } : null
+		} as unknown as AuthManager;
+
+		service = new ImportService(
+			configManager,
+			authManager,
+			async () => storage,
+			(briefId) =>
+				new ApiStorage({
+					repository: { getTasks } as unknown as TaskRepository,
+					projectId: projectRoot,
+					briefId
+				})
+		);
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should renumber tasks and subtasks and keep their dependencies', async () => {
+		const result = await service.importBrief({
+			brief: `https://tryhamster.com/home/acme/briefs/${BRIEF_ID}`,
+			tag: 'checkout'
+		});
+
+		expect(result).toMatchObject({
+			briefId: BRIEF_ID,
+			briefName: 'Checkout revamp',
+			tag: 'checkout',
+			dryRun: false,
+			replacedCount: 0
+		});
+		expect(result.idMap).toEqual({
+			'HAM-1': '1',
+			'HAM-2': '2',
+			'HAM-4': '2.1',
+			'HAM-5': '2.2',
+			'HAM-3': '3',
+			'HAM-6': '3.1'
+		});
+
+		const [first, second, third] = await new FileStorage(projectRoot).loadTasks(
+			'checkout'
+		);
+		expect(first).toMatchObject({
+			id: '1',
+			status: 'done',
+			databaseId: 'uuid-HAM-1'
+		});
+		expect(second.dependencies).toEqual(['1']);
+		expect(
+			second.subtasks.map((s) => [s.id, s.parentId, s.dependencies])
+		).toEqual([
+			[1, '2', []],
+			[2, '2', ['1']]
+		]);
+		expect(third.dependencies).toEqual(['2.2']);
+		expect(third.subtasks[0].dependencies).toEqual(['2.2']);
+	});
+
+	it('should report dependencies it cannot keep', async () => {
+		const { warnings } = await service.importBrief({ brief: BRIEF_ID });
+
+		expect(warnings).toEqual([
+			'HAM-2: dropped dependency on HAM-99, which is not in the brief',
+			'HAM-5: dropped dependency on task HAM-1, subtasks can only depend on subtasks'
+		]);
+	});
+
+	it('should not write anything in a dry run', async () => {
+		const result = await service.importBrief({
+			brief: BRIEF_ID,
+			dryRun: true
+		});
+
+		expect(result.tasks).toHaveLength(3);
+		expect(await new FileStorage(projectRoot).loadTasks('master')).toEqual([]);
+	});
+
+	it('should only overwrite a tag with tasks when asked to', async () => {
+		await service.importBrief({ brief: BRIEF_ID });
+		getTasks.mockResolvedValue([remoteTask('HAM-7')]);
+
+		await expect(service.importBrief({ brief: BRIEF_ID })).rejects.toThrow(
+			'Tag "master" already has 3 task(s)'
+		);
+
+		const result = await service.importBrief({
+			brief: BRIEF_ID,
+			replace: true
+		});
+		expect(result.replacedCount).toBe(3);
+		const tasks = await new FileStorage(projectRoot).loadTasks('master');
+		expect(tasks.map((task) => task.title)).toEqual(['Task HAM-7']);
+	});
+
+	it('should import into the storage configured for the project', async () => {
+		storage = new FileStorage(projectRoot, { format: 'markdown' });
+
+		await service.importBrief({ brief: BRIEF_ID });
+
+		expect(await storage.loadTasks('master')).toHaveLength(3);
+		expect(await new FileStorage(projectRoot).loadTasks('master')).toEqual([]);
+	});
+
+	it('should reject unknown briefs', async () => {
+		await expect(service.importBrief({ brief: 'not-a-brief' })).rejects.toThrow(
+			'Brief not found or you do not have access'
+		);
+		await expect(service.importBrief()).rejects.toThrow(
+			'Brief ID is required for import'
+		);
+	});
+});
@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Import Service
+ * Pulls the tasks of a Hamster brief into a local tag, the reverse of ExportService
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { IStorage } from '../../../common/interfaces/storage.interface.js';
+import type { Subtask, Task } from '../../../common/types/index.js';
+import type { AuthManager } from '../../auth/managers/auth-manager.js';
+import { BriefUrlParser } from '../../briefs/utils/url-parser.js';
+import type { ConfigManager } from '../../config/managers/config-manager.js';
+import { ApiStorage } from '../../storage/adapters/api-storage.js';
+import { SupabaseAuthClient } from '../clients/supabase-client.js';
+
+/**
+ * Creates the storage that reads a brief's tasks
+ */
+export type BriefStorageFactory = (briefId: string) => IStorage;
+
+/**
+ * Resolves the local storage brief tasks are imported into and synced with
+ */
+export type LocalStorageProvider = () => Promise<IStorage>;
+
+/**
+ * Options for importing a brief
+ */
+export interface ImportBriefOptions {
+	/** Brief ID or URL to import from (uses the selected brief if not provided) */
+	brief?: string;
+	/** Local tag to import into (uses the active tag if not provided) */
+	tag?: string;
+	/** Replace the tag's tasks; without it, importing into a tag with tasks fails */
+	replace?: boolean;
+	/** Map the tasks without writing them */
+	dryRun?: boolean;
+}
+
+/**
+ * Result of importing a brief
+ */
+export interface ImportBriefResult {
+	briefId: string;
+	briefName?: string;
+	/** The local tag the tasks were (or would be) written to */
+	tag: string;
+	dryRun: boolean;
+	/** The tasks as written to the tag */
+	tasks: Task[];
+	/** Remote display ID (e.g. HAM-12) to local task or subtask ID (e.g. 3.1) */
+	idMap: Record<string, string>;
+	/** Number of local tasks replaced */
+	replacedCount: number;
+	/** Dependencies that could not be kept locally */
+	warnings: string[];
+}
+
+/**
+ * ImportService copies brief tasks into the project's local storage
+ * Tasks are renumbered from 1 in brief order and subtasks from 1 under their
+ * parent; dependencies follow the new IDs and the remote UUID is kept as
+ * databaseId.
+ */
+export class ImportService {
+	private configManager: ConfigManager;
+	private authManager: AuthManager;
+	private getLocalStorage: LocalStorageProvider;
+	private createBriefStorage: BriefStorageFactory;
+
+	constructor(
+		configManager: ConfigManager,
+		authManager: AuthManager,
+		getLocalStorage: LocalStorageProvider,
+		createBriefStorage?: BriefStorageFactory
+	) {
+		this.configManager = configManager;
+		this.authManager = authManager;
+		this.getLocalStorage = getLocalStorage;
+		this.createBriefStorage =
+			createBriefStorage ??
+			((briefId) =>
+				new ApiStorage({
+					supabaseClient: new SupabaseAuthClient().getClient(),
+					projectId: configManager.getProjectRoot(),
+					briefId,
+					// Work from the live brief, not tasks cached while offline
+					offline: false
+				}));
+	}
+
+	/**
+	 * Import the tasks of a brief into a local tag
+	 */
+	async importBrief(
+		options: ImportBriefOptions = {}
+	): Promise<ImportBriefResult> {
+		if (!(await this.authManager.hasValidSession())) {
+			throw new TaskMasterError(
+				'Authentication required for import',
+				ERROR_CODES.AUTHENTICATION_ERROR
+			);
+		}
+
+		const { briefId, briefName } = await this.resolveBrief(options.brief);
+		const tag = options.tag || this.configManager.getActiveTag();
+
+		const localStorage = await this.getLocalStorage();
+		const existing = await localStorage.loadTasks(tag);
+		if (existing.length > 0 && !options.replace) {
+			throw new TaskMasterError(
+				`Tag "${tag}" already has ${existing.length} task(s). Use --replace to overwrite them or import into another tag.`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ tag, taskCount: existing.length }
+			);
+		}
+
+		const remoteStorage = this.createBriefStorage(briefId);
+		await remoteStorage.initialize();
+		const remoteTasks = await remoteStorage.loadTasks();
+		if (remoteTasks.length === 0) {
+			throw new TaskMasterError(
+				'The brief has no tasks to import',
+				ERROR_CODES.NOT_FOUND,
+				{ briefId }
+			);
+		}
+
+		const { tasks, idMap, warnings } = this.mapTasks(remoteTasks);
+		if (!options.dryRun) {
+			await localStorage.saveTasks(tasks, tag);
+		}
+
+		return {
+			briefId,
+			...(briefName && { briefName }),
+			tag,
+			dryRun: options.dryRun ?? false,
+			tasks,
+			idMap,
+			replacedCount: existing.length,
+			warnings
+		};
+	}
+
+	/**
+	 * Resolve the brief from an ID or URL, or fall back to the selected brief
+	 */
+	private async resolveBrief(
+		input?: string
+	): Promise<{ briefId: string; briefName?: string }> {
+		if (!input) {
+			const context = this.authManager.getContext();
+			if (!context?.briefId) {
+				throw new TaskMasterError(
+					'Brief ID is required for import. Use "tm context brief" or provide a brief ID or URL.',
+					ERROR_CODES.MISSING_CONFIGURATION
+				);
+			}
+			return {
+				briefId: context.briefId,
+				briefName: context.briefName
+			};
+		}
+
+		const briefId = BriefUrlParser.extractBriefId(input);
+		const brief = briefId ? await this.authManager.getBrief(briefId) : null;
+		if (!brief) {
+			throw new TaskMasterError(
+				'Brief not found or you do not have access',
+				ERROR_CODES.NOT_FOUND,
+				{ brief: input }
+			);
+		}
+		return { briefId: brief.id, briefName: brief.document?.title };
+	}
+
+	/**
+	 * Renumber brief tasks and rewrite their dependencies to the local IDs
+	 */
+	private mapTasks(remoteTasks: Task[]): {
+		tasks: Task[];
+		idMap: Record<string, string>;
+		warnings: string[];
+	} {
+		const idMap: Record<string, string> = {};
+		remoteTasks.forEach((task, index) => {
+			const localId = String(index + 1);
+			idMap[task.id] = localId;
+			task.subtasks.forEach((subtask, subIndex) => {
+				idMap[String(subtask.id)] = `${localId}.${subIndex + 1}`;
+			});
+		});
+
+		const warnings: string[] = [];
+		const tasks = remoteTasks.map((task): Task => {
+			const id = idMap[task.id];
+			return {
+				...copyBriefFields(task),
+				id,
+				dependencies: mapBriefDependencies(
+					task.id,
+					task.dependencies,
+					idMap,
+					warnings
+				),
+				subtasks: task.subtasks.map(
+					(subtask, subIndex): Subtask => ({
+						...copyBriefFields(subtask),
+						id: subIndex + 1,
+						parentId: id,
+						dependencies: mapBriefDependencies(
+							String(subtask.id),
+							subtask.dependencies,
+							idMap,
+							warnings,
+							id
+						)
+					})
+				)
+			};
+		});
+
+		return { tasks, idMap, warnings };
+	}
+}
+
+/**
+ * Rewrite the dependencies of a brief task or subtask to local IDs
+ * Dependencies that cannot be kept locally are dropped and reported in warnings.
+ * @param idMap - Remote display ID to local task or subtask ID
+ * @param parentId - Local ID of the parent when mapping a subtask
+ */
+export function mapBriefDependencies(
+	remoteId: string,
+	dependencies: string[],
+	idMap: Record<string, string>,
+	warnings: string[],
+	parentId?: string
+): string[] {
+	return dependencies.flatMap((dependency) => {
+		const localDependency = idMap[String(dependency)];
+		if (!localDependency) {
+			warnings.push(
+				`${remoteId}: dropped dependency on ${dependency}, which is not in the brief`
+			);
+			return [];
+		}
+		if (!parentId) {
+			return [localDependency];
+		}
+		// Subtasks refer to siblings by their plain ID and cannot depend on tasks
+		if (localDependency.startsWith(`${parentId}.`)) {
+			return [localDependency.slice(parentId.length + 1)];
+		}
+		if (!localDependency.includes('.')) {
+			warnings.push(
+				`${remoteId}: dropped dependency on task ${dependency}, subtasks can only depend on subtasks`
+			);
+			return [];
+		}
+		return [localDependency];
+	});
+}
+
+/**
+ * Fields kept from a brief task or subtask
+ */
+export function copyBriefFields(
+	task: Task | Subtask
+): Omit<Task, 'id' | 'dependencies' | 'subtasks'> {
+	return {
+		title: task.title,
+		description: task.description,
+		status: task.status,
+		priority: task.priority,
+		details: task.details,
+		testStrategy: task.testStrategy,
+		...(task.complexity !== undefined && { complexity: task.complexity }),
+		...(task.effort !== undefined && { effort: task.effort }),
+		...(task.actualEffort !== undefined && {
+			actualEffort: task.actualEffort
+		}),
+		...(task.createdAt && { createdAt: task.createdAt }),
+		...(task.updatedAt && { updatedAt: task.updatedAt }),
+		...(task.databaseId && { databaseId: task.databaseId })
+	};
+}
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Tests for syncing a local tag with a brief
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Subtask, Task } from '../../../common/types/index.js';
+import type { AuthManager } from '../../auth/managers/auth-manager.js';
+import type { ConfigManager } from '../../config/managers/config-manager.js';
+import { ApiStorage } from '../../storage/adapters/api-storage.js';
+import { FileStorage } from '../../storage/adapters/file-storage/index.js';
+import type { TaskRepository } from '../../tasks/repositories/task-repository.interface.js';
+import { ImportService } from './import.service.js';
+import { SyncService } from './sync.service.js';
+
+vi.mock('../../auth/managers/auth-manager.js', () => ({
+	AuthManager: { getInstance: () => ({ getContext: () => null }) }
+}));
+
+const BRIEF_ID = '5b2f1c8e-7a41-4c39-9d55-2f0e6a1b7c90';
+
+const remoteTask = (
+	id: string,
+	overrides: Partial<Task> = {},
+	subtasks: Subtask[] = []
+): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks,
+	databaseId: `uuid-${id}`,
+	...overrides
+});
+
+const remoteSubtask = (id: string, parentId: string): Subtask => ({
+	...remoteTask(id),
+	id,
+	parentId: `uuid-${parentId}`
+});
+
+describe('SyncService', () => {
+	let projectRoot: string;
+	let brief: Task[];
+	let updateTask: ReturnType<typeof vi.fn>;
+	let service: SyncService;
+	let storage: FileStorage;
+
+	const findRemote = (id: string) =>
+		brief.flatMap((task) => [task, ...task.subtasks]).find((t) => t.id === id);
+
+	const editLocal = async (edit: (tasks: Task[]) => void) => {
+		const tasks = await storage.loadTasks('master');
+		edit(tasks);
+		await storage.saveTasks(tasks, 'master');
+	};
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-sync-'));
+		storage = new FileStorage(projectRoot);
+		brief = [
+			remoteTask('HAM-1'),
+			remoteTask('HAM-2', {}, [remoteSubtask('HAM-3', 'HAM-2')])
+		];
+		updateTask = vi.fn(
+			async (_projectId: string, id: string, updates: Partial<Task>) => {
+				Object.assign(findRemote(id)!, updates);
+			}
+		);
+
+		const configManager = {
+			getProjectRoot: () => projectRoot,
+			getActiveTag: () => 'master'
+		} as unknown as ConfigManager;
+		const authManager = {
+			hasValidSession: async () => true,
+			getContext: () => null,
+			getBrief: async (id: string) =>
+				id === BRIEF_ID ? { id, document: { title: 'Checkout revamp' } } : null
+		} as unknown as AuthManager;
+		const createBriefStorage = (briefId: string) =>
+			new ApiStorage({
+				repository: {
+					getTasks: async () => structuredClone(brief),
+					updateTask
+				} as unknown as TaskRepository,
+				projectId: projectRoot,
+				briefId,
+				enableRetry: false
+			});
+
+		service = new SyncService(
+			configManager,
+			authManager,
+			async () => storage,
+			createBriefStorage
+		);
+		await service.recordImport(
+			await new ImportService(
+				configManager,
+				authManager,
+				async () => storage,
+				createBriefStorage
+			).importBrief({ brief: BRIEF_ID })
+		);
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should pull brief edits and push local edits', async () => {
+		findRemote('HAM-1')!.title = 'Renamed in Hamster';
+		await editLocal((tasks) => {
+			tasks[1].subtasks[0].status = 'done';
+		});
+
+		const result = await service.syncBrief();
+
+		expect(result.pulled).toEqual([
+			{
+				taskId: '1',
+				remoteId: 'HAM-1',
+				field: 'title',
+				value: 'Renamed in Hamster'
+			}
+		]);
+		expect(result.pushed).toEqual([
+			{ taskId: '2.1', remoteId: 'HAM-3', field: 'status', value: 'done' }
+		]);
+		expect(result.conflicts).toEqual([]);
+		expect(updateTask).toHaveBeenCalledWith(projectRoot, 'HAM-3', {
+			status: 'done'
+		});
+		const [first] = await storage.loadTasks('master');
+		expect(first.title).toBe('Renamed in Hamster');
+
+		// Both sides now agree
+		const again = await service.syncBrief();
+		expect([...again.pulled, ...again.pushed]).toEqual([]);
+	});
+
+	it('should merge edits to different fields of the same task', async () => {
+		findRemote('HAM-2')!.priority = 'high';
+		await editLocal((tasks) => {
+			tasks[1].details = 'Use the new payments API';
+		});
+
+		const result = await service.syncBrief();
+
+		expect(result.pulled.map((change) => change.field)).toEqual(['priority']);
+		expect(result.pushed.map((change) => change.field)).toEqual(['details']);
+		expect(findRemote('HAM-2')).toMatchObject({
+			priority: 'high',
+			details: 'Use the new payments API'
+		});
+	});
+
+	it('should leave conflicts untouched until they are resolved', async () => {
+		findRemote('HAM-1')!.title = 'Title from Hamster';
+		await editLocal((tasks) => {
+			tasks[0].title = 'Local title';
+		});
+
+		const result = await service.syncBrief();
+		expect(result.conflicts).toEqual([
+			{
+				taskId: '1',
+				remoteId: 'HAM-1',
+				field: 'title',
+				base: 'Task HAM-1',
+				local: 'Local title',
+				remote: 'Title from Hamster'
+			}
+		]);
+		expect(updateTask).not.toHaveBeenCalled();
+		expect((await service.syncBrief()).conflicts).toHaveLength(1);
+
+		const resolved = await service.syncBrief({
+			resolutions: [{ taskId: 'HAM-1', use: 'local' }]
+		});
+		expect(resolved.conflicts).toEqual([]);
+		expect(findRemote('HAM-1')!.title).toBe('Local title');
+	});
+
+	it('should add tasks and subtasks that are new in the brief', async () => {
+		brief.push(remoteTask('HAM-4', { dependencies: ['HAM-1'] }));
+		brief[1].subtasks.push(remoteSubtask('HAM-5', 'HAM-2'));
+
+		const result = await service.syncBrief({ dryRun: true });
+		expect(result.created).toEqual(['2.2', '3']);
+		expect(await storage.loadTasks('master')).toHaveLength(2);
+
+		await service.syncBrief();
+		const tasks = await storage.loadTasks('master');
+		expect(tasks[2]).toMatchObject({
+			id: '3',
+			dependencies: ['1'],
+			databaseId: 'uuid-HAM-4'
+		});
+		expect(tasks[1].subtasks.map((subtask) => subtask.title)).toEqual([
+			'Task HAM-3',
+			'Task HAM-5'
+		]);
+	});
+
+	it('should push a change again after a failed push', async () => {
+		await editLocal((tasks) => {
+			tasks[0].status = 'review';
+		});
+		updateTask.mockRejectedValueOnce(new Error('Invalid task status: review'));
+
+		const failed = await service.syncBrief();
+		expect(failed.pushed).toEqual([]);
+		expect(failed.warnings).toEqual([
+			'HAM-1: could not push status: Invalid task status: review'
+		]);
+
+		const retried = await service.syncBrief();
+		expect(retried.pushed.map((change) => change.value)).toEqual(['review']);
+		expect(findRemote('HAM-1')!.status).toBe('review');
+	});
+
+	it('should sync with the storage configured for the project', async () => {
+		const markdown = new FileStorage(projectRoot, { format: 'markdown' });
+		await markdown.saveTasks(await storage.loadTasks('master'), 'master');
+		storage = markdown;
+		findRemote('HAM-1')!.title = 'Renamed in Hamster';
+
+		const result = await service.syncBrief();
+
+		expect(result.pulled.map((change) => change.value)).toEqual([
+			'Renamed in Hamster'
+		]);
+		const [task] = await markdown.loadTasks('master');
+		expect(task.title).toBe('Renamed in Hamster');
+	});
+});
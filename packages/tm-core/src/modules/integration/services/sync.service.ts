@@ -0,0 +1,559 @@
+/**
+ * @fileoverview Sync Service
+ * Keeps a local tag and a Hamster brief aligned in both directions
+ *
+ * The field values both sides agreed on at the last sync are kept per task in
+ * .taskmaster/sync/{tag}.json. A field changed on one side only is copied to
+ * the other; a field changed differently on both sides is a conflict and stays
+ * untouched until it is resolved.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { Subtask, Task } from '../../../common/types/index.js';
+import type { AuthManager } from '../../auth/managers/auth-manager.js';
+import { BriefUrlParser } from '../../briefs/utils/url-parser.js';
+import type { ConfigManager } from '../../config/managers/config-manager.js';
+import { ApiStorage } from '../../storage/adapters/api-storage.js';
+import { SupabaseAuthClient } from '../clients/supabase-client.js';
+import {
+	type BriefStorageFactory,
+	type ImportBriefResult,
+	type LocalStorageProvider,
+	copyBriefFields,
+	mapBriefDependencies
+} from './import.service.js';
+
+/**
+ * Task fields kept in sync between a local tag and a brief
+ */
+export const SYNC_FIELDS = [
+	'title',
+	'description',
+	'status',
+	'priority',
+	'details',
+	'testStrategy'
+] as const;
+
+export type SyncField = (typeof SYNC_FIELDS)[number];
+
+/**
+ * How to resolve conflicts
+ */
+export interface SyncResolution {
+	/** Local (e.g. 3.1) or brief (e.g. HAM-12) task ID; all tasks if not provided */
+	taskId?: string;
+	/** Conflicting field; all of the task's conflicts if not provided */
+	field?: SyncField;
+	/** Side whose value is kept */
+	use: 'local' | 'remote';
+}
+
+/**
+ * Options for syncing a tag with a brief
+ */
+export interface SyncBriefOptions {
+	/** Brief ID or URL (uses the tag's brief from the last sync, then the selected brief) */
+	brief?: string;
+	/** Local tag to sync (uses the active tag if not provided) */
+	tag?: string;
+	/** Report the changes without writing them on either side */
+	dryRun?: boolean;
+	/** Resolutions for conflicting fields */
+	resolutions?: SyncResolution[];
+}
+
+/**
+ * A field value copied from one side to the other
+ */
+export interface SyncChange {
+	/** Local task or subtask ID */
+	taskId: string;
+	/** Brief display ID */
+	remoteId: string;
+	field: SyncField;
+	value: string;
+}
+
+/**
+ * A field changed differently on both sides since the last sync
+ */
+export interface SyncConflict {
+	taskId: string;
+	remoteId: string;
+	field: SyncField;
+	/** Value at the last sync (missing before the first sync) */
+	base?: string;
+	local: string;
+	remote: string;
+}
+
+/**
+ * Result of syncing a tag with a brief
+ */
+export interface SyncBriefResult {
+	briefId: string;
+	briefName?: string;
+	tag: string;
+	dryRun: boolean;
+	/** Brief changes written to the tag */
+	pulled: SyncChange[];
+	/** Local changes written to the brief */
+	pushed: SyncChange[];
+	/** Local IDs of the tasks and subtasks added from the brief */
+	created: string[];
+	/** Conflicts left unresolved */
+	conflicts: SyncConflict[];
+	/** Local tasks and subtasks that are not in the brief */
+	localOnly: string[];
+	warnings: string[];
+}
+
+type SyncFieldValues = Partial<Record<SyncField, string>>;
+
+interface SyncStateFile {
+	briefId: string;
+	briefName?: string;
+	syncedAt: string;
+	/** Field values at the last sync, by brief task UUID */
+	base: Record<string, SyncFieldValues>;
+}
+
+/**
+ * A task or subtask with its ID on one side
+ */
+interface SyncEntry {
+	id: string;
+	task: Task | Subtask;
+}
+
+/**
+ * SyncService merges a local tag and a brief field by field
+ * Tasks are matched by the brief UUID local tasks keep as databaseId, so a tag
+ * starts out with `tm import`. Tasks new in the brief are added to the tag;
+ * tasks created locally are left to `tm export`.
+ */
+export class SyncService {
+	private configManager: ConfigManager;
+	private authManager: AuthManager;
+	private getLocalStorage: LocalStorageProvider;
+	private createBriefStorage: BriefStorageFactory;
+
+	constructor(
+		configManager: ConfigManager,
+		authManager: AuthManager,
+		getLocalStorage: LocalStorageProvider,
+		createBriefStorage?: BriefStorageFactory
+	) {
+		this.configManager = configManager;
+		this.authManager = authManager;
+		this.getLocalStorage = getLocalStorage;
+		this.createBriefStorage =
+			createBriefStorage ??
+			((briefId) =>
+				new ApiStorage({
+					supabaseClient: new SupabaseAuthClient().getClient(),
+					projectId: configManager.getProjectRoot(),
+					briefId,
+					// Merging against tasks cached offline would undo newer brief edits
+					offline: false
+				}));
+	}
+
+	/**
+	 * Sync a local tag with a brief
+	 */
+	async syncBrief(options: SyncBriefOptions = {}): Promise<SyncBriefResult> {
+		if (!(await this.authManager.hasValidSession())) {
+			throw new TaskMasterError(
+				'Authentication required for sync',
+				ERROR_CODES.AUTHENTICATION_ERROR
+			);
+		}
+
+		const tag = options.tag || this.configManager.getActiveTag();
+		const state = await this.loadState(tag);
+		const { briefId, briefName } = await this.resolveBrief(
+			tag,
+			options.brief,
+			state
+		);
+
+		const localStorage = await this.getLocalStorage();
+		const localTasks = await localStorage.loadTasks(tag);
+
+		const remoteStorage = this.createBriefStorage(briefId);
+		await remoteStorage.initialize();
+		const remoteTasks = await remoteStorage.loadTasks();
+
+		const result: SyncBriefResult = {
+			briefId,
+			...(briefName && { briefName }),
+			tag,
+			dryRun: options.dryRun ?? false,
+			pulled: [],
+			pushed: [],
+			created: [],
+			conflicts: [],
+			localOnly: [],
+			warnings: []
+		};
+
+		const localEntries = new Map<string, SyncEntry>();
+		for (const entry of flattenTasks(localTasks, true)) {
+			if (entry.task.databaseId) {
+				localEntries.set(entry.task.databaseId, entry);
+			} else {
+				result.localOnly.push(entry.id);
+			}
+		}
+		const remoteEntries = flattenTasks(remoteTasks, false);
+		const remoteIds = new Set(
+			remoteEntries.map((entry) => entry.task.databaseId)
+		);
+
+		const base: Record<string, SyncFieldValues> = {};
+		const pushes = new Map<
+			string,
+			{ databaseId: string; updates: SyncFieldValues }
+		>();
+		for (const remote of remoteEntries) {
+			const databaseId = remote.task.databaseId;
+			const local = databaseId && localEntries.get(databaseId);
+			if (!databaseId || !local) {
+				continue;
+			}
+			base[databaseId] = this.mergeFields(
+				local,
+				remote,
+				state?.base[databaseId],
+				options.resolutions ?? [],
+				result,
+				(updates) =>
+					pushes.set(remote.id, {
+						databaseId,
+						updates: { ...pushes.get(remote.id)?.updates, ...updates }
+					})
+			);
+		}
+
+		Object.assign(
+			base,
+			this.addRemoteTasks(localTasks, remoteTasks, localEntries, result)
+		);
+
+		for (const [databaseId, entry] of localEntries) {
+			if (!remoteIds.has(databaseId)) {
+				result.warnings.push(
+					`${entry.id}: no longer in the brief, kept locally`
+				);
+			}
+		}
+
+		if (result.dryRun) {
+			return result;
+		}
+
+		for (const [remoteId, { databaseId, updates }] of pushes) {
+			try {
+				await remoteStorage.updateTask(remoteId, updates as Partial<Task>);
+			} catch (error) {
+				// Keep the previous base so the change is pushed again next time
+				const fields = Object.keys(updates) as SyncField[];
+				for (const field of fields) {
+					const previous = state?.base[databaseId]?.[field];
+					if (previous === undefined) {
+						delete base[databaseId][field];
+					} else {
+						base[databaseId][field] = previous;
+					}
+				}
+				result.pushed = result.pushed.filter(
+					(change) => change.remoteId !== remoteId
+				);
+				const cause = error instanceof TaskMasterError ? error.cause : error;
+				result.warnings.push(
+					`${remoteId}: could not push ${fields.join(', ')}: ${(cause as Error)?.message ?? String(cause)}`
+				);
+			}
+		}
+
+		if (result.pulled.length > 0 || result.created.length > 0) {
+			await localStorage.saveTasks(localTasks, tag);
+		}
+		await this.saveState(tag, {
+			briefId,
+			...(briefName && { briefName }),
+			syncedAt: new Date().toISOString(),
+			base
+		});
+
+		return result;
+	}
+
+	/**
+	 * Record the tasks of an import as the tag's last sync with the brief
+	 */
+	async recordImport(result: ImportBriefResult): Promise<void> {
+		const base: Record<string, SyncFieldValues> = {};
+		for (const { task } of flattenTasks(result.tasks, true)) {
+			if (task.databaseId) {
+				base[task.databaseId] = fieldValues(task);
+			}
+		}
+		await this.saveState(result.tag, {
+			briefId: result.briefId,
+			...(result.briefName && { briefName: result.briefName }),
+			syncedAt: new Date().toISOString(),
+			base
+		});
+	}
+
+	/**
+	 * Path of a tag's sync state file
+	 */
+	getStatePath(tag: string): string {
+		return path.join(
+			this.configManager.getProjectRoot(),
+			'.taskmaster',
+			'sync',
+			`${encodeURIComponent(tag)}.json`
+		);
+	}
+
+	/**
+	 * Three-way merge of the synced fields of a task linked on both sides
+	 * Pulled values are written to the local task in place.
+	 * @returns The field values to record as the new base
+	 */
+	private mergeFields(
+		local: SyncEntry,
+		remote: SyncEntry,
+		previous: SyncFieldValues | undefined,
+		resolutions: SyncResolution[],
+		result: SyncBriefResult,
+		push: (updates: SyncFieldValues) => void
+	): SyncFieldValues {
+		const next: SyncFieldValues = {};
+
+		for (const field of SYNC_FIELDS) {
+			const localValue = fieldValue(local.task, field);
+			const remoteValue = fieldValue(remote.task, field);
+			const baseValue = previous?.[field];
+			if (localValue === remoteValue) {
+				next[field] = localValue;
+				continue;
+			}
+
+			const change = { taskId: local.id, remoteId: remote.id, field };
+			const side =
+				localValue === baseValue
+					? 'remote'
+					: remoteValue === baseValue
+						? 'local'
+						: resolutions.find(
+								(resolution) =>
+									(!resolution.taskId ||
+										resolution.taskId === local.id ||
+										resolution.taskId.toUpperCase() === remote.id) &&
+									(!resolution.field || resolution.field === field)
+							)?.use;
+
+			if (side === 'remote') {
+				Object.assign(local.task, { [field]: remoteValue });
+				result.pulled.push({ ...change, value: remoteValue });
+				next[field] = remoteValue;
+			} else if (side === 'local') {
+				push({ [field]: localValue });
+				result.pushed.push({ ...change, value: localValue });
+				next[field] = localValue;
+			} else {
+				result.conflicts.push({
+					...change,
+					...(baseValue !== undefined && { base: baseValue }),
+					local: localValue,
+					remote: remoteValue
+				});
+				if (baseValue !== undefined) {
+					next[field] = baseValue;
+				}
+			}
+		}
+
+		return next;
+	}
+
+	/**
+	 * Add brief tasks and subtasks missing from the tag, numbered after the
+	 * local ones
+	 * @returns The base field values of the added tasks
+	 */
+	private addRemoteTasks(
+		localTasks: Task[],
+		remoteTasks: Task[],
+		localEntries: Map<string, SyncEntry>,
+		result: SyncBriefResult
+	): Record<string, SyncFieldValues> {
+		const idMap: Record<string, string> = {};
+		for (const remote of flattenTasks(remoteTasks, false)) {
+			const local =
+				remote.task.databaseId && localEntries.get(remote.task.databaseId);
+			if (local) {
+				idMap[remote.id] = local.id;
+			}
+		}
+
+		const added: Array<{
+			remote: Task | Subtask;
+			local: Task | Subtask;
+			localId: string;
+			parentId?: string;
+		}> = [];
+		const addSubtask = (parent: Task, subtask: Subtask) => {
+			const id = nextId(parent.subtasks.map((s) => s.id));
+			const created: Subtask = {
+				...copyBriefFields(subtask),
+				id,
+				parentId: parent.id,
+				dependencies: []
+			};
+			parent.subtasks.push(created);
+			idMap[String(subtask.id)] = `${parent.id}.${id}`;
+			added.push({
+				remote: subtask,
+				local: created,
+				localId: `${parent.id}.${id}`,
+				parentId: parent.id
+			});
+		};
+
+		for (const remoteTask of remoteTasks) {
+			const linked =
+				remoteTask.databaseId && localEntries.get(remoteTask.databaseId);
+			let parent = linked ? (linked.task as Task) : undefined;
+			if (!parent) {
+				parent = {
+					...copyBriefFields(remoteTask),
+					id: String(nextId(localTasks.map((task) => task.id))),
+					dependencies: [],
+					subtasks: []
+				};
+				localTasks.push(parent);
+				idMap[remoteTask.id] = parent.id;
+				added.push({ remote: remoteTask, local: parent, localId: parent.id });
+			}
+			for (const subtask of remoteTask.subtasks) {
+				if (!subtask.databaseId || !localEntries.has(subtask.databaseId)) {
+					addSubtask(parent, subtask);
+				}
+			}
+		}
+
+		// Dependencies are mapped once every added task has its local ID
+		const base: Record<string, SyncFieldValues> = {};
+		for (const { remote, local, localId, parentId } of added) {
+			local.dependencies = mapBriefDependencies(
+				String(remote.id),
+				remote.dependencies,
+				idMap,
+				result.warnings,
+				parentId
+			);
+			result.created.push(localId);
+			if (remote.databaseId) {
+				base[remote.databaseId] = fieldValues(remote);
+			}
+		}
+		return base;
+	}
+
+	/**
+	 * Resolve the brief from an ID or URL, or fall back to the tag's brief and
+	 * then the selected brief
+	 */
+	private async resolveBrief(
+		tag: string,
+		input: string | undefined,
+		state: SyncStateFile | null
+	): Promise<{ briefId: string; briefName?: string }> {
+		if (!input) {
+			if (state) {
+				return { briefId: state.briefId, briefName: state.briefName };
+			}
+			const context = this.authManager.getContext();
+			if (!context?.briefId) {
+				throw new TaskMasterError(
+					'Brief ID is required for sync. Use "tm context brief" or provide a brief ID or URL.',
+					ERROR_CODES.MISSING_CONFIGURATION
+				);
+			}
+			return { briefId: context.briefId, briefName: context.briefName };
+		}
+
+		const briefId = BriefUrlParser.extractBriefId(input);
+		const brief = briefId ? await this.authManager.getBrief(briefId) : null;
+		if (!brief) {
+			throw new TaskMasterError(
+				'Brief not found or you do not have access',
+				ERROR_CODES.NOT_FOUND,
+				{ brief: input }
+			);
+		}
+		if (state && state.briefId !== brief.id) {
+			throw new TaskMasterError(
+				`Tag "${tag}" is synced with brief ${state.briefId}. Sync brief ${brief.id} into another tag.`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ tag, briefId: state.briefId }
+			);
+		}
+		return { briefId: brief.id, briefName: brief.document?.title };
+	}
+
+	private async loadState(tag: string): Promise<SyncStateFile | null> {
+		try {
+			return JSON.parse(await fs.readFile(this.getStatePath(tag), 'utf-8'));
+		} catch {
+			// A tag without state has not been synced yet
+			return null;
+		}
+	}
+
+	private async saveState(tag: string, state: SyncStateFile): Promise<void> {
+		const statePath = this.getStatePath(tag);
+		await fs.mkdir(path.dirname(statePath), { recursive: true });
+		await fs.writeFile(statePath, JSON.stringify(state, null, 2), 'utf-8');
+	}
+}
+
+/**
+ * Tasks and subtasks with the IDs used on their side: "3" and "3.1" locally,
+ * display IDs (e.g. HAM-12) in a brief
+ */
+function flattenTasks(tasks: Task[], local: boolean): SyncEntry[] {
+	return tasks.flatMap((task) => [
+		{ id: String(task.id), task },
+		...task.subtasks.map((subtask) => ({
+			id: local ? `${task.id}.${subtask.id}` : String(subtask.id),
+			task: subtask
+		}))
+	]);
+}
+
+function fieldValue(task: Task | Subtask, field: SyncField): string {
+	return String(task[field] ?? '');
+}
+
+function fieldValues(task: Task | Subtask): SyncFieldValues {
+	return Object.fromEntries(
+		SYNC_FIELDS.map((field) => [field, fieldValue(task, field)])
+	);
+}
+
+function nextId(ids: Array<string | number>): number {
+	return Math.max(0, ...ids.map(Number).filter(Number.isFinite)) + 1;
+}
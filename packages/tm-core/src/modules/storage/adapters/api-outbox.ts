@@ -0,0 +1,275 @@
+/**
+ * @fileoverview ApiOutbox - Durable queue of API mutations and task cache
+ *
+ * Mutations ApiStorage cannot send while the API is unreachable are kept in
+ * .taskmaster/offline/{briefId}/outbox.json and replayed in order later. The
+ * ones the API rejects on replay stay there as failed until they are
+ * discarded. The last tasks loaded from the API are kept next to it to serve
+ * reads offline.
+ */
+
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { Task, TaskStatus } from '../../../common/types/index.js';
+import { FileOperations } from './file-storage/file-operations.js';
+
+/**
+ * A mutation waiting to be sent to the API
+ */
+export type OutboxOperation =
+	| { type: 'updateTaskStatus'; taskId: string; status: TaskStatus }
+	| { type: 'updateTask'; taskId: string; updates: Partial<Task> }
+	| { type: 'appendTasks'; tasks: Task[]; tag?: string };
+
+/**
+ * A queued mutation with the reason it was queued
+ */
+export type OutboxEntry = OutboxOperation & {
+	id: string;
+	queuedAt: string;
+	/** Error of the failed attempt */
+	error: string;
+	/** When a flush took the mutation to send it */
+	claimedAt?: string;
+	/** When the API rejected the mutation; it is not sent again */
+	failedAt?: string;
+};
+
+/**
+ * A claim older than this is left by a flush that died; longer than sending a
+ * mutation can take
+ */
+const CLAIM_STALE_AFTER_MS = 5 * 60_000;
+
+export class ApiOutbox {
+	private readonly dir: string;
+	private readonly fileOps = new FileOperations();
+
+	constructor(
+		projectPath: string,
+		readonly briefId: string
+	) {
+		this.dir = path.join(
+			projectPath,
+			'.taskmaster',
+			'offline',
+			encodeURIComponent(briefId)
+		);
+	}
+
+	get outboxPath(): string {
+		return path.join(this.dir, 'outbox.json');
+	}
+
+	get cachePath(): string {
+		return path.join(this.dir, 'tasks.json');
+	}
+
+	/**
+	 * Queued mutations, oldest first, including the ones the API rejected
+	 */
+	async list(): Promise<OutboxEntry[]> {
+		return (await this.read<OutboxEntry[]>(this.outboxPath)) ?? [];
+	}
+
+	/**
+	 * Queued mutations still waiting to be sent, oldest first
+	 */
+	async pending(): Promise<OutboxEntry[]> {
+		return (await this.list()).filter((entry) => !entry.failedAt);
+	}
+
+	/**
+	 * Queue a mutation after the ones already waiting
+	 */
+	async enqueue(
+		operation: OutboxOperation,
+		error: unknown
+	): Promise<OutboxEntry> {
+		const entry: OutboxEntry = {
+			...operation,
+			id: randomUUID(),
+			queuedAt: new Date().toISOString(),
+			error: error instanceof Error ? error.message : String(error)
+		};
+		await this.update((entries) => [...entries, entry]);
+		return entry;
+	}
+
+	/**
+	 * Take the oldest mutation waiting to be sent
+	 * The claim is written to the outbox, so concurrent flushes (in this or
+	 * another process) leave the mutation alone instead of sending it twice.
+	 * @returns The claimed entry, or null when the outbox is empty or another
+	 * flush is sending its oldest mutation
+	 */
+	async claimNext(): Promise<OutboxEntry | null> {
+		let claimed: OutboxEntry | null = null;
+		await this.update((entries) => {
+			const next = entries.find((entry) => !entry.failedAt);
+			if (
+				!next ||
+				(next.claimedAt &&
+					Date.now() - Date.parse(next.claimedAt) < CLAIM_STALE_AFTER_MS)
+			) {
+				return entries;
+			}
+			const entry = { ...next, claimedAt: new Date().toISOString() };
+			claimed = entry;
+			return entries.map((e) => (e.id === entry.id ? entry : e));
+		});
+		return claimed;
+	}
+
+	/**
+	 * Give back a claimed mutation that could not be sent yet
+	 */
+	async release(id: string): Promise<void> {
+		await this.update((entries) =>
+			entries.map((entry) =>
+				entry.id === id ? { ...entry, claimedAt: undefined } : entry
+			)
+		);
+	}
+
+	/**
+	 * Keep a claimed mutation the API rejected, with the reason, so it is
+	 * reported instead of lost
+	 */
+	async markFailed(id: string, error: unknown): Promise<void> {
+		await this.update((entries) =>
+			entries.map((entry) =>
+				entry.id === id
+					? {
+							...entry,
+							claimedAt: undefined,
+							failedAt: new Date().toISOString(),
+							error: error instanceof Error ? error.message : String(error)
+						}
+					: entry
+			)
+		);
+	}
+
+	/**
+	 * Remove a mutation once it was sent
+	 */
+	async remove(id: string): Promise<void> {
+		await this.update((entries) => entries.filter((entry) => entry.id !== id));
+	}
+
+	/**
+	 * Remove the mutations the API rejected
+	 * @returns The removed entries
+	 */
+	async discardFailed(): Promise<OutboxEntry[]> {
+		let discarded: OutboxEntry[] = [];
+		await this.update((entries) => {
+			discarded = entries.filter((entry) => entry.failedAt);
+			return entries.filter((entry) => !entry.failedAt);
+		});
+		return discarded;
+	}
+
+	/**
+	 * Tasks from the last successful load, or null if never loaded
+	 */
+	async loadCachedTasks(): Promise<Task[] | null> {
+		return this.read<Task[]>(this.cachePath);
+	}
+
+	async cacheTasks(tasks: Task[]): Promise<void> {
+		await this.fileOps.ensureDir(this.dir);
+		await this.fileOps.writeJson(this.cachePath, tasks);
+	}
+
+	private async update(
+		fn: (entries: OutboxEntry[]) => OutboxEntry[]
+	): Promise<void> {
+		await this.fileOps.ensureDir(this.dir);
+		await this.fileOps.withLock(this.outboxPath, async () => {
+			await this.fileOps.writeJson(this.outboxPath, fn(await this.list()));
+		});
+	}
+
+	private async read<T>(filePath: string): Promise<T | null> {
+		try {
+			return await this.fileOps.readJson(filePath);
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				return null;
+			}
+			throw error;
+		}
+	}
+}
+
+/**
+ * Apply queued mutations to tasks loaded before they were made
+ */
+export function applyOutbox(tasks: Task[], entries: OutboxEntry[]): Task[] {
+	const result = structuredClone(tasks);
+	const find = (taskId: string) =>
+		result
+			.flatMap((task) => [task, ...task.subtasks])
+			.find((task) => String(task.id).toUpperCase() === taskId.toUpperCase());
+
+	for (const entry of entries) {
+		if (entry.type === 'appendTasks') {
+			result.push(...entry.tasks.filter((task) => !find(task.id)));
+			continue;
+		}
+		const task = find(entry.taskId);
+		if (task) {
+			Object.assign(
+				task,
+				entry.type === 'updateTaskStatus'
+					? { status: entry.status }
+					: entry.updates
+			);
+		}
+	}
+	return result;
+}
+
+/**
+ * Whether an error means the API could not be reached, as opposed to the API
+ * rejecting the request
+ */
+export function isConnectivityError(error: unknown): boolean {
+	for (
+		let current = error;
+		current instanceof Error;
+		current = (current as Error & { cause?: unknown }).cause
+	) {
+		if (
+			current instanceof TaskMasterError &&
+			(current.is(ERROR_CODES.NETWORK_ERROR) ||
+				[502, 503, 504].includes(Number(current.context.statusCode)))
+		) {
+			return true;
+		}
+		const message = current.message.toLowerCase();
+		if (
+			[
+				'fetch failed',
+				'network',
+				'enotfound',
+				'econnrefused',
+				'econnreset',
+				'etimedout',
+				'timed out',
+				'service unavailable',
+				'bad gateway',
+				'gateway timeout'
+			].some((pattern) => message.includes(pattern))
+		) {
+			return true;
+		}
+	}
+	return false;
+}
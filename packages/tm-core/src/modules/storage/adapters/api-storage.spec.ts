@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Tests for ApiStorage while the API is unreachable
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Task } from '../../../common/types/index.js';
+import type { TaskRepository } from '../../tasks/repositories/task-repository.interface.js';
+import { ApiStorage } from './api-storage.js';
+
+vi.mock('../../auth/managers/auth-manager.js', () => {
+	const context = { briefId: 'brief-1' };
+	return {
+		AuthManager: {
+			getInstance: () => ({
+				getContext: () => context,
+				ensureBriefSelected: () => context
+			})
+		}
+	};
+});
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: [],
+	...overrides
+});
+
+const offline = () => Promise.reject(new Error('TypeError: fetch failed'));
+
+describe('ApiStorage offline outbox', () => {
+	let projectRoot: string;
+	let remote: Task[];
+	let repository: {
+		getTasks: ReturnType<typeof vi.fn>;
+		getTask: ReturnType<typeof vi.fn>;
+		updateTask: ReturnType<typeof vi.fn>;
+		bulkCreateTasks: ReturnType<typeof vi.fn>;
+	};
+	let storage: ApiStorage;
+
+	const online = () => {
+		for (const method of Object.values(repository)) {
+			method.mockReset();
+		}
+		repository.getTasks.mockImplementation(async () => structuredClone(remote));
+		repository.getTask.mockImplementation(
+			async (_projectId: string, id: string) =>
+				remote.find((t) => t.id === id) ?? null
+		);
+		repository.updateTask.mockImplementation(
+			async (_projectId: string, id: string, updates: Partial<Task>) => {
+				Object.assign(remote.find((t) => t.id === id)!, updates);
+			}
+		);
+		repository.bulkCreateTasks.mockImplementation(async (_p, tasks: Task[]) => {
+			remote.push(...tasks);
+		});
+	};
+
+	const goOffline = () => {
+		for (const method of Object.values(repository)) {
+			method.mockImplementation(offline);
+		}
+	};
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-api-outbox-'));
+		remote = [task('HAM-1'), task('HAM-2')];
+		repository = {
+			getTasks: vi.fn(),
+			getTask: vi.fn(),
+			updateTask: vi.fn(),
+			bulkCreateTasks: vi.fn()
+		};
+		online();
+		storage = new ApiStorage({
+			repository: repository as unknown as TaskRepository,
+			projectId: projectRoot,
+			enableRetry: false
+		});
+		// Fill the cache
+		await storage.loadTasks();
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should queue a status change and show it in cached reads', async () => {
+		goOffline();
+
+		const result = await storage.updateTaskStatus('HAM-1', 'done');
+
+		expect(result).toEqual({
+			success: true,
+			oldStatus: 'pending',
+			newStatus: 'done',
+			taskId: 'HAM-1',
+			queued: true
+		});
+		const pending = await storage.getPendingOperations();
+		expect(pending).toMatchObject([
+			{
+				type: 'updateTaskStatus',
+				taskId: 'HAM-1',
+				status: 'done',
+				error: 'TypeError: fetch failed'
+			}
+		]);
+
+		const tasks = await storage.loadTasks();
+		expect(tasks.map((t) => t.status)).toEqual(['done', 'pending']);
+		expect(await storage.loadTasks(undefined, { status: 'done' })).toHaveLength(
+			1
+		);
+
+		// Single tasks come from the REST API rather than the repository
+		vi.spyOn(storage as any, 'getRetrievalService').mockReturnValue({
+			getTask: offline
+		});
+		expect((await storage.loadTask('ham-1'))?.status).toBe('done');
+	});
+
+	it('should replay queued changes in order once the API is back', async () => {
+		goOffline();
+		await storage.updateTaskStatus('HAM-1', 'in-progress');
+		await storage.updateTask('HAM-1', { title: 'Renamed offline' });
+		await storage.appendTasks([task('HAM-3')]);
+		expect(await storage.getPendingOperations()).toHaveLength(3);
+
+		online();
+		const tasks = await storage.loadTasks();
+
+		expect(repository.updateTask.mock.calls.map((call) => call[2])).toEqual([
+			expect.objectContaining({ status: 'in-progress' }),
+			{ title: 'Renamed offline' }
+		]);
+		expect(tasks.map((t) => t.id)).toEqual(['HAM-1', 'HAM-2', 'HAM-3']);
+		expect(tasks[0]).toMatchObject({
+			status: 'in-progress',
+			title: 'Renamed offline'
+		});
+		expect(await storage.getPendingOperations()).toEqual([]);
+	});
+
+	it('should send a change after the ones still queued', async () => {
+		goOffline();
+		await storage.updateTask('HAM-1', { title: 'First' });
+
+		// The queued change still fails, so the next one waits behind it
+		repository.updateTask.mockReset();
+		repository.updateTask.mockImplementationOnce(offline);
+		repository.updateTask.mockResolvedValue(undefined);
+		await storage.updateTask('HAM-1', { title: 'Second' });
+
+		expect(repository.updateTask).toHaveBeenCalledTimes(1);
+		expect(
+			(await storage.getPendingOperations()).map((entry) => entry.type)
+		).toEqual(['updateTask', 'updateTask']);
+	});
+
+	it('should send a queued change once when flushes overlap', async () => {
+		goOffline();
+		await storage.appendTasks([task('HAM-3')]);
+		online();
+		const otherProcess = new ApiStorage({
+			repository: repository as unknown as TaskRepository,
+			projectId: projectRoot,
+			enableRetry: false
+		});
+
+		const sent = await Promise.all([
+			storage.flushOutbox(),
+			otherProcess.flushOutbox()
+		]);
+
+		expect(sent.sort()).toEqual([0, 1]);
+		expect(repository.bulkCreateTasks).toHaveBeenCalledTimes(1);
+		expect(await storage.getPendingOperations()).toEqual([]);
+	});
+
+	it('should keep queued changes the API rejects as failed', async () => {
+		goOffline();
+		await storage.updateTaskStatus('HAM-1', 'review');
+		await storage.updateTask('HAM-2', { title: 'Renamed offline' });
+
+		online();
+		repository.updateTask.mockImplementationOnce(async () => {
+			throw new Error('Invalid task status: review');
+		});
+		const tasks = await storage.loadTasks();
+
+		expect(tasks.map((t) => t.title)).toEqual([
+			'Task HAM-1',
+			'Renamed offline'
+		]);
+		const [failed, ...rest] = await storage.getPendingOperations();
+		expect(rest).toEqual([]);
+		expect(failed).toMatchObject({
+			type: 'updateTaskStatus',
+			taskId: 'HAM-1',
+			error: 'Invalid task status: review',
+			failedAt: expect.any(String)
+		});
+
+		// Failed changes are neither sent again nor hold back new ones
+		await storage.updateTask('HAM-1', { title: 'Sent' });
+		expect(repository.updateTask).toHaveBeenCalledTimes(3);
+		expect(remote[0].title).toBe('Sent');
+	});
+
+	it('should not queue changes the API rejects', async () => {
+		repository.updateTask.mockRejectedValue(
+			new Error('Invalid task status: review')
+		);
+
+		await expect(storage.updateTaskStatus('HAM-1', 'review')).rejects.toThrow(
+			'Failed to update task status via API'
+		);
+		expect(await storage.getPendingOperations()).toEqual([]);
+	});
+
+	it('should fail reads when nothing is cached', async () => {
+		await fs.rm(path.join(projectRoot, '.taskmaster'), { recursive: true });
+		goOffline();
+
+		await expect(storage.loadTasks()).rejects.toThrow(
+			'Failed to load tasks from API'
+		);
+	});
+});
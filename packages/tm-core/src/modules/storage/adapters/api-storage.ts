@@ -31,6 +31,13 @@ import { TaskRetrievalService } from '../../integration/services/task-retrieval.
 import { SupabaseRepository } from '../../tasks/repositories/supabase/index.js';
 import type { TaskRepository } from '../../tasks/repositories/task-repository.interface.js';
 import { ApiClient } from '../utils/api-client.js';
+import {
+	ApiOutbox,
+	type OutboxEntry,
+	type OutboxOperation,
+	applyOutbox,
+	isConnectivityError
+} from './api-outbox.js';
 
 /**
  * API storage configuration
@@ -42,10 +49,14 @@ export interface ApiStorageConfig {
 	repository?: TaskRepository;
 	/** Project ID for scoping */
 	projectId: string;
+	/** Brief to use instead of the brief selected in the auth context */
+	briefId?: string;
 	/** Enable request retries */
 	enableRetry?: boolean;
 	/** Maximum retry attempts */
 	maxRetries?: number;
+	/** Queue mutations and read cached tasks while the API is unreachable (default: true) */
+	offline?: boolean;
 }
 
 /**
@@ -71,8 +82,11 @@ interface UpdateTaskWithPromptResponse {
 export class ApiStorage implements IStorage {
 	private readonly repository: TaskRepository;
 	private readonly projectId: string;
+	private readonly briefId?: string;
 	private readonly enableRetry: boolean;
 	private readonly maxRetries: number;
+	private readonly offline: boolean;
+	private outbox?: ApiOutbox;
 	private initialized = false;
 	private tagsCache: Map<string, TaskTag> = new Map();
 	private apiClient?: ApiClient;
@@ -90,7 +104,8 @@ export class ApiStorage implements IStorage {
 			// TODO: SupabaseRepository doesn't implement all TaskRepository methods yet
 			// Cast for now until full implementation is complete
 			this.repository = new SupabaseRepository(
-				config.supabaseClient
+				config.supabaseClient,
+				config.briefId
 			) as unknown as TaskRepository;
 		} else {
 			throw new TaskMasterError(
@@ -100,8 +115,10 @@ export class ApiStorage implements IStorage {
 		}
 
 		this.projectId = config.projectId;
+		this.briefId = config.briefId;
 		this.enableRetry = config.enableRetry ?? true;
 		this.maxRetries = config.maxRetries ?? 3;
+		this.offline = config.offline ?? true;
 	}
 
 	/**
@@ -242,22 +259,33 @@ export class ApiStorage implements IStorage {
 		await this.ensureInitialized();
 
 		try {
-			const context =
-				AuthManager.getInstance().ensureBriefSelected('loadTasks');
+			const briefId =
+				this.briefId ??
+				AuthManager.getInstance().ensureBriefSelected('loadTasks').briefId;
+
+			// Send changes made offline first so the tasks include them
+			await this.flushOutbox();
 
-			// Load tasks from the current brief context with filters pushed to repository
+			// Load tasks from the brief with filters pushed to repository
 			const tasks = await this.retryOperation(() =>
 				this.repository.getTasks(this.projectId, options)
 			);
+			if (!options?.status && !options?.excludeSubtasks) {
+				await this.getOutbox()?.cacheTasks(tasks);
+			}
 
 			// Update the tag cache with the loaded task IDs
-			const briefTag = this.tagsCache.get(context.briefId);
+			const briefTag = this.tagsCache.get(briefId);
 			if (briefTag) {
 				briefTag.tasks = tasks.map((task) => task.id);
 			}
 
 			return tasks;
 		} catch (error) {
+			const offlineTasks = await this.loadOfflineTasks(error, options);
+			if (offlineTasks) {
+				return offlineTasks;
+			}
 			this.wrapError(error, 'Failed to load tasks from API', {
 				operation: 'loadTasks',
 				tag,
@@ -316,6 +344,16 @@ export class ApiStorage implements IStorage {
 			const retrievalService = this.getRetrievalService();
 			return await this.retryOperation(() => retrievalService.getTask(taskId));
 		} catch (error) {
+			const offlineTasks = await this.loadOfflineTasks(error);
+			if (offlineTasks) {
+				return (offlineTasks
+					.flatMap((task) => [task, ...task.subtasks])
+					.find(
+						(task) =>
+							String(task.id).toUpperCase() === taskId.toUpperCase() ||
+							task.databaseId === taskId
+					) ?? null) as Task | null;
+			}
 			this.wrapError(error, 'Failed to load task from API', {
 				operation: 'loadTask',
 				taskId,
@@ -515,30 +553,32 @@ export class ApiStorage implements IStorage {
 		await this.ensureInitialized();
 
 		try {
-			// Use bulk create - repository should handle duplicates
-			await this.retryOperation(() =>
-				this.repository.bulkCreateTasks(this.projectId, tasks)
-			);
-
-			// Update tag if specified
-			if (tag) {
-				const tagData = this.tagsCache.get(tag) || {
-					name: tag,
-					tasks: [],
-					metadata: {}
-				};
+			await this.sendOrQueue({ type: 'appendTasks', tasks, tag }, async () => {
+				// Use bulk create - repository should handle duplicates
+				await this.retryOperation(() =>
+					this.repository.bulkCreateTasks(this.projectId, tasks)
+				);
 
-				const newTaskIds = tasks.map((t) => t.id);
-				tagData.tasks = [...new Set([...tagData.tasks, ...newTaskIds])];
+				// Update tag if specified
+				if (tag) {
+					const tagData = this.tagsCache.get(tag) || {
+						name: tag,
+						tasks: [],
+						metadata: {}
+					};
+
+					const newTaskIds = tasks.map((t) => t.id);
+					tagData.tasks = [...new Set([...tagData.tasks, ...newTaskIds])];
+
+					if (this.tagsCache.has(tag)) {
+						await this.repository.updateTag(this.projectId, tag, tagData);
+					} else {
+						await this.repository.createTag(this.projectId, tagData);
+					}
 
-				if (this.tagsCache.has(tag)) {
-					await this.repository.updateTag(this.projectId, tag, tagData);
-				} else {
-					await this.repository.createTag(this.projectId, tagData);
+					this.tagsCache.set(tag, tagData);
 				}
-
-				this.tagsCache.set(tag, tagData);
-			}
+			});
 		} catch (error) {
 			throw new TaskMasterError(
 				'Failed to append tasks to API',
@@ -560,8 +600,10 @@ export class ApiStorage implements IStorage {
 		await this.ensureInitialized();
 
 		try {
-			await this.retryOperation(() =>
-				this.repository.updateTask(this.projectId, taskId, updates)
+			await this.sendOrQueue({ type: 'updateTask', taskId, updates }, () =>
+				this.retryOperation(() =>
+					this.repository.updateTask(this.projectId, taskId, updates)
+				)
 			);
 		} catch (error) {
 			throw new TaskMasterError(
@@ -676,40 +718,55 @@ export class ApiStorage implements IStorage {
 		try {
 			AuthManager.getInstance().ensureBriefSelected('updateTaskStatus');
 
-			const existingTask = await this.retryOperation(() =>
-				this.repository.getTask(this.projectId, taskId)
-			);
+			let oldStatus: TaskStatus | undefined;
+			const queued = await this.sendOrQueue(
+				{ type: 'updateTaskStatus', taskId, status: newStatus },
+				async () => {
+					const existingTask = await this.retryOperation(() =>
+						this.repository.getTask(this.projectId, taskId)
+					);
 
-			if (!existingTask) {
-				throw new Error(`Task ${taskId} not found`);
-			}
+					if (!existingTask) {
+						throw new Error(`Task ${taskId} not found`);
+					}
 
-			const oldStatus = existingTask.status;
-			if (oldStatus === newStatus) {
-				return {
-					success: true,
-					oldStatus,
-					newStatus,
-					taskId
-				};
-			}
+					oldStatus = existingTask.status;
+					if (oldStatus === newStatus) {
+						return;
+					}
 
-			// Update the task/subtask status
-			await this.retryOperation(() =>
-				this.repository.updateTask(this.projectId, taskId, {
-					status: newStatus,
-					updatedAt: new Date().toISOString()
-				})
+					// Update the task/subtask status
+					await this.retryOperation(() =>
+						this.repository.updateTask(this.projectId, taskId, {
+							status: newStatus,
+							updatedAt: new Date().toISOString()
+						})
+					);
+				}
 			);
 
 			// Note: Parent status auto-adjustment is handled by the backend API service
 			// which has its own business logic for managing task relationships
 
+			if (queued) {
+				// The status before the change, as far as the cache knows
+				const cached = await this.getOutbox()?.loadCachedTasks();
+				const pending = ((await this.getOutbox()?.pending()) ?? []).filter(
+					(entry) => entry.id !== queued.id
+				);
+				oldStatus = applyOutbox(cached ?? [], pending)
+					.flatMap((task) => [task, ...task.subtasks])
+					.find(
+						(task) => String(task.id).toUpperCase() === taskId.toUpperCase()
+					)?.status;
+			}
+
 			return {
 				success: true,
-				oldStatus,
+				oldStatus: oldStatus ?? newStatus,
 				newStatus,
-				taskId
+				taskId,
+				...(queued && { queued: true })
 			};
 		} catch (error) {
 			this.wrapError(error, 'Failed to update task status via API', {
@@ -941,6 +998,156 @@ export class ApiStorage implements IStorage {
 		this.tagsCache.clear();
 	}
 
+	/**
+	 * Mutations made while the API was unreachable that are not sent yet,
+	 * including the ones the API rejected (with `failedAt` set)
+	 */
+	async getPendingOperations(): Promise<OutboxEntry[]> {
+		return (await this.getOutbox()?.list()) ?? [];
+	}
+
+	/**
+	 * Send the mutations queued while the API was unreachable, in order
+	 * Stops at the first one that still cannot reach the API, or that another
+	 * flush is sending; mutations the API rejects stay in the outbox as failed.
+	 * @returns Number of mutations sent
+	 */
+	async flushOutbox(): Promise<number> {
+		const outbox = this.getOutbox();
+		if (!outbox) {
+			return 0;
+		}
+
+		let sent = 0;
+		for (
+			let entry = await outbox.claimNext();
+			entry;
+			entry = await outbox.claimNext()
+		) {
+			try {
+				await this.sendQueued(entry);
+			} catch (error) {
+				if (isConnectivityError(error)) {
+					await outbox.release(entry.id);
+					break;
+				}
+				this.logger.warn(
+					`Hamster rejected ${entry.type}${'taskId' in entry ? ` of ${entry.taskId}` : ''} queued at ${entry.queuedAt}: ${(error as Error).message}`
+				);
+				await outbox.markFailed(entry.id, error);
+				continue;
+			}
+			await outbox.remove(entry.id);
+			sent++;
+		}
+
+		if (sent > 0) {
+			this.logger.info(`Sent ${sent} change(s) made while offline`);
+		}
+		return sent;
+	}
+
+	/**
+	 * Run a mutation, or queue it when the API is unreachable or earlier
+	 * mutations are still waiting, so they reach the API in order
+	 * @returns The queued entry, or null when the mutation was sent
+	 */
+	private async sendOrQueue(
+		operation: OutboxOperation,
+		send: () => Promise<unknown>
+	): Promise<OutboxEntry | null> {
+		const outbox = this.getOutbox();
+		if (outbox && (await outbox.pending()).length > 0) {
+			await this.flushOutbox();
+			if ((await outbox.pending()).length > 0) {
+				return outbox.enqueue(
+					operation,
+					new Error('Earlier changes made offline are not sent yet')
+				);
+			}
+		}
+
+		try {
+			await send();
+			return null;
+		} catch (error) {
+			if (!outbox || !isConnectivityError(error)) {
+				throw error;
+			}
+			this.logger.warn(
+				`Hamster is unreachable, ${operation.type} will be sent when it is back`
+			);
+			return outbox.enqueue(operation, error);
+		}
+	}
+
+	/**
+	 * Send a queued mutation once, without retries
+	 */
+	private async sendQueued(entry: OutboxEntry): Promise<void> {
+		switch (entry.type) {
+			case 'updateTaskStatus':
+				await this.repository.updateTask(this.projectId, entry.taskId, {
+					status: entry.status,
+					updatedAt: entry.queuedAt
+				});
+				break;
+			case 'updateTask':
+				await this.repository.updateTask(
+					this.projectId,
+					entry.taskId,
+					entry.updates
+				);
+				break;
+			case 'appendTasks':
+				await this.repository.bulkCreateTasks(this.projectId, entry.tasks);
+				break;
+		}
+	}
+
+	/**
+	 * Tasks cached at the last load with the queued mutations applied, when
+	 * the error means the API is unreachable
+	 */
+	private async loadOfflineTasks(
+		error: unknown,
+		options?: LoadTasksOptions
+	): Promise<Task[] | null> {
+		const outbox = isConnectivityError(error) ? this.getOutbox() : null;
+		const cached = await outbox?.loadCachedTasks();
+		if (!outbox || !cached) {
+			return null;
+		}
+
+		this.logger.warn(
+			'Hamster is unreachable, using the tasks cached at the last load'
+		);
+		let tasks = applyOutbox(cached, await outbox.pending());
+		if (options?.status) {
+			tasks = tasks.filter((task) => task.status === options.status);
+		}
+		if (options?.excludeSubtasks) {
+			tasks = tasks.map((task) => ({ ...task, subtasks: [] }));
+		}
+		return tasks;
+	}
+
+	/**
+	 * Outbox of the brief in use, or null when offline support is disabled or
+	 * no brief is selected
+	 */
+	private getOutbox(): ApiOutbox | null {
+		const briefId =
+			this.briefId ?? AuthManager.getInstance().getContext()?.briefId;
+		if (!this.offline || !briefId) {
+			return null;
+		}
+		if (this.outbox?.briefId !== briefId) {
+			this.outbox = new ApiOutbox(this.projectId, briefId);
+		}
+		return this.outbox;
+	}
+
 	/**
 	 * Ensure storage is initialized
 	 */
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Unit tests for BackupManager
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ERROR_CODES } from '../../../../common/errors/task-master-error.js';
+import { BackupManager } from './backup-manager.js';
+
+describe('BackupManager', () => {
+	let dir: string;
+	let backupDir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-backups-'));
+		backupDir = path.join(dir, 'backups');
+		filePath = path.join(dir, 'tasks.json');
+		await fs.writeFile(filePath, '{"version":0}');
+	});
+
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it('should keep only the newest maxBackups backups', async () => {
+		const manager = new BackupManager(backupDir, 3);
+
+		for (let version = 1; version <= 5; version++) {
+			await manager.createBackup(filePath);
+			await fs.writeFile(filePath, `{"version":${version}}`);
+		}
+
+		const backups = await manager.listBackups();
+		expect(backups).toHaveLength(3);
+		expect(await fs.readdir(backupDir)).toHaveLength(3);
+		// Newest first: the snapshots taken before versions 5, 4 and 3
+		const contents = await Promise.all(
+			backups.map((backup) => fs.readFile(backup.path, 'utf-8'))
+		);
+		expect(contents).toEqual([
+			'{"version":4}',
+			'{"version":3}',
+			'{"version":2}'
+		]);
+	});
+
+	it('should describe backups by timestamp, format and compression', async () => {
+		const gzPath = path.join(dir, 'tasks.md.gz');
+		await fs.writeFile(gzPath, 'not really gzip');
+		const manager = new BackupManager(backupDir);
+
+		const first = await manager.createBackup(filePath);
+		const second = await manager.createBackup(gzPath);
+
+		expect(first).toMatchObject({ format: 'json', compressed: false });
+		expect(second).toMatchObject({ format: 'markdown', compressed: true });
+		expect(second!.id > first!.id).toBe(true);
+		expect(new Date(first!.createdAt).toISOString()).toBe(first!.createdAt);
+		await expect(manager.getBackup(first!.id)).resolves.toEqual(first);
+	});
+
+	it('should skip backups when there is no file or retention is zero', async () => {
+		await expect(
+			new BackupManager(backupDir).createBackup(path.join(dir, 'missing.json'))
+		).resolves.toBeNull();
+		await expect(
+			new BackupManager(backupDir, 0).createBackup(filePath)
+		).resolves.toBeNull();
+		await expect(new BackupManager(backupDir).listBackups()).resolves.toEqual(
+			[]
+		);
+	});
+
+	it('should fail for unknown backups', async () => {
+		await expect(
+			new BackupManager(backupDir).getBackup('2020-01-01T00-00-00-000Z')
+		).rejects.toMatchObject({ code: ERROR_CODES.FILE_NOT_FOUND });
+	});
+});
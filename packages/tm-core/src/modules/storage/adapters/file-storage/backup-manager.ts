@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Rotating timestamped backups of the tasks file
+ */
+
+import { constants } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../../common/errors/task-master-error.js';
+import { getLogger } from '../../../../common/logger/index.js';
+import type { TaskFileFormat } from '../../../../common/types/index.js';
+
+/**
+ * A snapshot of the tasks file in the backups directory
+ */
+export interface TaskFileBackup {
+	/** Backup identifier (its timestamp), used to restore it */
+	id: string;
+	/** ISO timestamp of when the backup was taken */
+	createdAt: string;
+	/** Absolute path of the backup file */
+	path: string;
+	/** Format of the backed up tasks file */
+	format: TaskFileFormat;
+	/** Whether the backup is gzip-compressed */
+	compressed: boolean;
+	/** Size of the backup file in bytes */
+	size: number;
+}
+
+/**
+ * Result of restoring a backup
+ */
+export interface RestoreBackupResult {
+	/** The backup the tasks file was restored from */
+	restored: TaskFileBackup;
+	/** Backup of the tasks file as it was before the restore, if there was one */
+	previous: TaskFileBackup | null;
+}
+
+/** tasks-<timestamp>.<json|md>[.gz] */
+const BACKUP_FILE_PATTERN =
+	/^tasks-(\d{4}-\d\d-\d\dT\d\d-\d\d-\d\d-\d{3}Z)\.(json|md)(\.gz)?$/;
+
+/**
+ * Copies the tasks file to `.taskmaster/backups` before it is overwritten
+ * and keeps only the newest `maxBackups` copies
+ */
+export class BackupManager {
+	private readonly logger = getLogger('BackupManager');
+
+	constructor(
+		private readonly backupDir: string,
+		private readonly maxBackups = 5
+	) {}
+
+	/**
+	 * Copy the file to a new backup and prune old backups
+	 * @returns The new backup, or null when there is no file to back up
+	 */
+	async createBackup(filePath: string): Promise<TaskFileBackup | null> {
+		if (this.maxBackups <= 0) {
+			return null;
+		}
+
+		const extension = path.basename(filePath).replace(/^[^.]*/, '');
+		await fs.mkdir(this.backupDir, { recursive: true });
+
+		// Backups taken within the same millisecond get the next free timestamp
+		const taken = new Set((await this.listBackups()).map((b) => b.id));
+		let time = Date.now();
+		while (taken.has(this.toId(time))) {
+			time++;
+		}
+
+		const backupPath = path.join(
+			this.backupDir,
+			`tasks-${this.toId(time)}${extension}`
+		);
+		try {
+			await fs.copyFile(filePath, backupPath, constants.COPYFILE_EXCL);
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				return null;
+			}
+			throw new TaskMasterError(
+				`Failed to back up ${filePath}: ${error.message}`,
+				ERROR_CODES.STORAGE_ERROR,
+				{ operation: 'createBackup', resource: filePath },
+				error
+			);
+		}
+
+		await this.pruneBackups();
+		return this.toBackup(path.basename(backupPath));
+	}
+
+	/**
+	 * List backups, newest first
+	 */
+	async listBackups(): Promise<TaskFileBackup[]> {
+		let files: string[];
+		try {
+			files = await fs.readdir(this.backupDir);
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				return [];
+			}
+			throw new TaskMasterError(
+				`Failed to list backups: ${error.message}`,
+				ERROR_CODES.STORAGE_ERROR,
+				{ operation: 'listBackups', resource: this.backupDir },
+				error
+			);
+		}
+
+		const backups = await Promise.all(
+			files
+				.filter((file) => BACKUP_FILE_PATTERN.test(file))
+				.map((file) => this.toBackup(file))
+		);
+		return backups
+			.filter((backup): backup is TaskFileBackup => backup !== null)
+			.sort((a, b) => b.id.localeCompare(a.id));
+	}
+
+	/**
+	 * Find a backup by id
+	 * @throws TaskMasterError FILE_NOT_FOUND when there is no such backup
+	 */
+	async getBackup(id: string): Promise<TaskFileBackup> {
+		const backup = (await this.listBackups()).find((b) => b.id === id);
+		if (!backup) {
+			throw new TaskMasterError(
+				`Backup ${id} not found`,
+				ERROR_CODES.FILE_NOT_FOUND,
+				{ operation: 'getBackup', resource: this.backupDir, details: { id } }
+			);
+		}
+		return backup;
+	}
+
+	/**
+	 * Delete backups beyond the retention limit, oldest first
+	 */
+	private async pruneBackups(): Promise<void> {
+		try {
+			const backups = await this.listBackups();
+			for (const backup of backups.slice(this.maxBackups)) {
+				await fs.rm(backup.path, { force: true });
+			}
+		} catch (error: any) {
+			// Non-critical error, log but don't throw
+			this.logger.warn(`Failed to prune backups: ${error.message}`);
+		}
+	}
+
+	private async toBackup(fileName: string): Promise<TaskFileBackup | null> {
+		const match = BACKUP_FILE_PATTERN.exec(fileName);
+		if (!match) {
+			return null;
+		}
+
+		const backupPath = path.join(this.backupDir, fileName);
+		try {
+			const stats = await fs.stat(backupPath);
+			const [, id, extension, gz] = match;
+			return {
+				id,
+				createdAt: id.replace(
+					/T(\d\d)-(\d\d)-(\d\d)-(\d{3})Z$/,
+					'T$1:$2:$3.$4Z'
+				),
+				path: backupPath,
+				format: extension === 'md' ? 'markdown' : 'json',
+				compressed: Boolean(gz),
+				size: stats.size
+			};
+		} catch {
+			// Pruned in the meantime
+			return null;
+		}
+	}
+
+	private toId(time: number): string {
+		return new Date(time).toISOString().replace(/[:.]/g, '-');
+	}
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Unit tests for FileLock
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ERROR_CODES } from '../../../../common/errors/task-master-error.js';
+import { FileLock } from './file-lock.js';
+
+describe('FileLock', () => {
+	let dir: string;
+	let filePath: string;
+
+	const writeLockFile = (owner: Record<string, unknown>) =>
+		fs.writeFile(
+			`${filePath}.lock`,
+			JSON.stringify({
+				hostname: os.hostname(),
+				token: 'other',
+				acquiredAt: new Date().toISOString(),
+				...owner
+			})
+		);
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-file-lock-'));
+		filePath = path.join(dir, 'tasks.json');
+	});
+
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it('should create and remove the lock file', async () => {
+		const lock = new FileLock(filePath);
+
+		await lock.acquire();
+		const owner = JSON.parse(await fs.readFile(lock.lockPath, 'utf-8'));
+		expect(owner.pid).toBe(process.pid);
+
+		await lock.release();
+		await expect(fs.access(lock.lockPath)).rejects.toThrow();
+	});
+
+	it('should time out while another live process holds the lock', async () => {
+		await writeLockFile({ pid: process.pid });
+		const lock = new FileLock(filePath, { timeout: 100, retryInterval: 10 });
+
+		await expect(lock.acquire()).rejects.toMatchObject({
+			code: ERROR_CODES.FILE_LOCK_TIMEOUT
+		});
+		// The other holder's lock is left alone
+		await lock.release();
+		await expect(fs.readFile(`${filePath}.lock`, 'utf-8')).resolves.toContain(
+			'"token":"other"'
+		);
+	});
+
+	it('should take over locks of dead processes', async () => {
+		await writeLockFile({ pid: 999_999_999 });
+		const lock = new FileLock(filePath, { timeout: 100 });
+
+		await expect(lock.acquire()).resolves.toBeUndefined();
+		await lock.release();
+	});
+
+	it('should not take over old locks of live processes on this host', async () => {
+		await writeLockFile({ pid: process.pid });
+		const past = new Date(Date.now() - 60_000);
+		await fs.utimes(`${filePath}.lock`, past, past);
+		const lock = new FileLock(filePath, {
+			timeout: 100,
+			staleAfter: 1_000,
+			retryInterval: 10
+		});
+
+		await expect(lock.acquire()).rejects.toMatchObject({
+			code: ERROR_CODES.FILE_LOCK_TIMEOUT
+		});
+	});
+
+	it('should touch the lock while it is held', async () => {
+		const lock = new FileLock(filePath, { staleAfter: 30 });
+		await lock.acquire();
+		const past = new Date(Date.now() - 60_000);
+		await fs.utimes(lock.lockPath, past, past);
+
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		const { mtimeMs } = await fs.stat(lock.lockPath);
+		await lock.release();
+
+		expect(Date.now() - mtimeMs).toBeLessThan(1_000);
+	});
+
+	it('should take over locks of other hosts older than staleAfter', async () => {
+		await writeLockFile({ pid: process.pid, hostname: 'other-host' });
+		const past = new Date(Date.now() - 60_000);
+		await fs.utimes(`${filePath}.lock`, past, past);
+		const lock = new FileLock(filePath, { timeout: 100, staleAfter: 1_000 });
+
+		await expect(lock.acquire()).resolves.toBeUndefined();
+		await lock.release();
+		expect(await fs.readdir(dir)).toEqual([]);
+	});
+});
@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Advisory lock files shared by every process writing a file
+ */
+
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../../common/errors/task-master-error.js';
+
+/**
+ * Options for acquiring a file lock
+ */
+export interface FileLockOptions {
+	/** Give up waiting for the lock after this many milliseconds (default: 10000) */
+	timeout?: number;
+	/**
+	 * Treat a lock of another host as abandoned once its holder has not
+	 * refreshed it for this many milliseconds (default: 30000)
+	 */
+	staleAfter?: number;
+	/** Delay between attempts to take the lock in milliseconds (default: 50) */
+	retryInterval?: number;
+}
+
+/**
+ * Contents of a lock file, identifying the process that holds it
+ */
+export interface FileLockOwner {
+	pid: number;
+	hostname: string;
+	token: string;
+	acquiredAt: string;
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<FileLockOptions> = {
+	timeout: 10_000,
+	staleAfter: 30_000,
+	retryInterval: 50
+};
+
+/**
+ * A `<file>.lock` file created exclusively, so only one process (the CLI, the
+ * MCP server, the extension) writes the file at a time.
+ *
+ * Holders touch the lock file while they hold it. A lock is stale, and taken
+ * over, when its process no longer runs on this host, or, for a lock of
+ * another host whose process cannot be checked, when it has not been touched
+ * for `staleAfter`.
+ */
+export class FileLock {
+	readonly lockPath: string;
+	private readonly options: Required<FileLockOptions>;
+	private token?: string;
+	private heartbeat?: NodeJS.Timeout;
+
+	constructor(
+		private readonly filePath: string,
+		options: FileLockOptions = {}
+	) {
+		this.lockPath = `${filePath}.lock`;
+		this.options = { ...DEFAULT_LOCK_OPTIONS, ...options };
+	}
+
+	/**
+	 * Wait until the lock is ours
+	 * @throws TaskMasterError FILE_LOCK_TIMEOUT when the lock stays taken
+	 */
+	async acquire(): Promise<void> {
+		const startedAt = Date.now();
+
+		while (true) {
+			if (await this.tryCreate()) {
+				this.startHeartbeat();
+				return;
+			}
+			if (await this.removeIfStale()) {
+				continue;
+			}
+			if (Date.now() - startedAt >= this.options.timeout) {
+				const owner = await this.readOwner();
+				throw new TaskMasterError(
+					`Timed out after ${this.options.timeout}ms waiting for the lock on ${this.filePath}${owner ? ` (held by process ${owner.pid} on ${owner.hostname})` : ''}`,
+					ERROR_CODES.FILE_LOCK_TIMEOUT,
+					{
+						resource: this.filePath,
+						details: { lockPath: this.lockPath, owner }
+					}
+				);
+			}
+			await new Promise((resolve) =>
+				setTimeout(resolve, this.options.retryInterval)
+			);
+		}
+	}
+
+	/**
+	 * Remove the lock file if it is still ours
+	 */
+	async release(): Promise<void> {
+		const token = this.token;
+		this.token = undefined;
+		clearInterval(this.heartbeat);
+		this.heartbeat = undefined;
+		if (!token) {
+			return;
+		}
+
+		const owner = await this.readOwner();
+		if (owner?.token === token) {
+			await fs.rm(this.lockPath, { force: true });
+		}
+	}
+
+	private async tryCreate(): Promise<boolean> {
+		const owner: FileLockOwner = {
+			pid: process.pid,
+			hostname: os.hostname(),
+			token: randomUUID(),
+			acquiredAt: new Date().toISOString()
+		};
+
+		try {
+			await fs.writeFile(this.lockPath, JSON.stringify(owner), {
+				flag: 'wx'
+			});
+			this.token = owner.token;
+			return true;
+		} catch (error: any) {
+			if (error.code === 'EEXIST') {
+				return false;
+			}
+			if (error.code === 'ENOENT') {
+				await fs.mkdir(path.dirname(this.lockPath), { recursive: true });
+				return this.tryCreate();
+			}
+			throw new TaskMasterError(
+				`Failed to create lock file ${this.lockPath}: ${error.message}`,
+				ERROR_CODES.STORAGE_ERROR,
+				{ resource: this.lockPath },
+				error
+			);
+		}
+	}
+
+	/**
+	 * Keep the lock fresh while it is held, so other hosts do not take it over
+	 */
+	private startHeartbeat(): void {
+		const token = this.token;
+		this.heartbeat = setInterval(
+			async () => {
+				if ((await this.readOwner())?.token !== token) {
+					return;
+				}
+				const now = new Date();
+				await fs.utimes(this.lockPath, now, now).catch(() => undefined);
+			},
+			Math.max(1, Math.floor(this.options.staleAfter / 3))
+		);
+		this.heartbeat.unref();
+	}
+
+	/**
+	 * Remove an abandoned lock so the next attempt can take it
+	 */
+	private async removeIfStale(): Promise<boolean> {
+		let modifiedAt: number;
+		try {
+			modifiedAt = (await fs.stat(this.lockPath)).mtimeMs;
+		} catch (error: any) {
+			// Released in the meantime
+			return error.code === 'ENOENT';
+		}
+
+		const owner = await this.readOwner();
+		const stale =
+			owner !== null && owner.hostname === os.hostname()
+				? !this.isProcessAlive(owner.pid)
+				: Date.now() - modifiedAt >= this.options.staleAfter;
+		if (!stale) {
+			return false;
+		}
+
+		// Move the lock aside before removing it, and put it back if it was
+		// taken over since it was judged stale
+		const stalePath = `${this.lockPath}.${randomUUID()}.stale`;
+		try {
+			await fs.rename(this.lockPath, stalePath);
+		} catch (error: any) {
+			return error.code === 'ENOENT';
+		}
+		const moved = await this.readOwner(stalePath);
+		if (moved?.token !== owner?.token) {
+			await fs.link(stalePath, this.lockPath).catch(() => undefined);
+			await fs.rm(stalePath, { force: true });
+			return false;
+		}
+		await fs.rm(stalePath, { force: true });
+		return true;
+	}
+
+	private async readOwner(
+		lockPath = this.lockPath
+	): Promise<FileLockOwner | null> {
+		try {
+			return JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+		} catch {
+			// Missing, or still being written
+			return null;
+		}
+	}
+
+	private isProcessAlive(pid: number): boolean {
+		try {
+			process.kill(pid, 0);
+			return true;
+		} catch (error: any) {
+			// EPERM: the process exists but belongs to another user
+			return error.code === 'EPERM';
+		}
+	}
+}
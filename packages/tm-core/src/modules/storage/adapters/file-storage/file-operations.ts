@@ -2,22 +2,45 @@
  * @fileoverview File operations with atomic writes and locking
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { constants } from 'node:fs';
 import fs from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+import { FileLock, type FileLockOptions } from './file-lock.js';
 import type { FileStorageData } from './format-handler.js';
 
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Options for FileOperations
+ */
+export interface FileOperationsOptions {
+	/** Lock file timeouts for writes shared with other processes */
+	lock?: FileLockOptions;
+	/** Write through a temporary file and rename (default: true) */
+	atomic?: boolean;
+}
+
 /**
- * Handles atomic file operations with locking mechanism
+ * Handles atomic file operations with locking mechanism.
+ * Files ending in `.gz` are transparently gzip-compressed.
  */
 export class FileOperations {
+	/** Tail of the queue of in-process lock holders per file */
 	private fileLocks: Map<string, Promise<void>> = new Map();
+	/** Files locked by the current async call chain (makes locks re-entrant) */
+	private heldLocks = new AsyncLocalStorage<Set<string>>();
+
+	constructor(private readonly options: FileOperationsOptions = {}) {}
 
 	/**
 	 * Read and parse JSON file
 	 */
 	async readJson(filePath: string): Promise<any> {
 		try {
-			const content = await fs.readFile(filePath, 'utf-8');
+			const content = await this.readContent(filePath);
 			return JSON.parse(content);
 		} catch (error: any) {
 			if (error.code === 'ENOENT') {
@@ -30,6 +53,20 @@ export class FileOperations {
 		}
 	}
 
+	/**
+	 * Read a text file
+	 */
+	async readText(filePath: string): Promise<string> {
+		try {
+			return await this.readContent(filePath);
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				throw error; // Re-throw ENOENT for caller to handle
+			}
+			throw new Error(`Failed to read file ${filePath}: ${error.message}`);
+		}
+	}
+
 	/**
 	 * Write JSON file with atomic operation and locking
 	 */
@@ -37,34 +74,94 @@ export class FileOperations {
 		filePath: string,
 		data: FileStorageData | any
 	): Promise<void> {
-		// Use file locking to prevent concurrent writes
-		const lockKey = filePath;
-		const existingLock = this.fileLocks.get(lockKey);
+		await this.writeText(filePath, JSON.stringify(data, null, 2));
+	}
+
+	/**
+	 * Write text file with atomic operation and locking
+	 */
+	async writeText(filePath: string, content: string): Promise<void> {
+		await this.withLock(filePath, () =>
+			this.performAtomicWrite(filePath, content)
+		);
+	}
 
-		if (existingLock) {
-			await existingLock;
+	/**
+	 * Run a read-modify-write of a file while holding its lock.
+	 * Callers in this process are queued; other processes are kept out by a
+	 * lock file. Nested calls for the same file reuse the held lock.
+	 * @throws TaskMasterError FILE_LOCK_TIMEOUT when the lock cannot be taken
+	 */
+	async withLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+		const held = this.heldLocks.getStore();
+		if (held?.has(filePath)) {
+			return fn();
 		}
 
-		const lockPromise = this.performAtomicWrite(filePath, data);
-		this.fileLocks.set(lockKey, lockPromise);
+		const previous = this.fileLocks.get(filePath) ?? Promise.resolve();
+		let releaseQueue!: () => void;
+		const released = new Promise<void>((resolve) => {
+			releaseQueue = resolve;
+		});
+		const tail = previous.then(() => released);
+		this.fileLocks.set(filePath, tail);
 
+		await previous;
 		try {
-			await lockPromise;
+			const lock = new FileLock(filePath, this.options.lock);
+			await lock.acquire();
+			try {
+				return await this.heldLocks.run(
+					new Set([...(held ?? []), filePath]),
+					fn
+				);
+			} finally {
+				await lock.release();
+			}
 		} finally {
-			this.fileLocks.delete(lockKey);
+			releaseQueue();
+			if (this.fileLocks.get(filePath) === tail) {
+				this.fileLocks.delete(filePath);
+			}
 		}
 	}
 
 	/**
-	 * Perform atomic write operation using temporary file
+	 * Read a file as text, decompressing `.gz` files
 	 */
-	private async performAtomicWrite(filePath: string, data: any): Promise<void> {
+	private async readContent(filePath: string): Promise<string> {
+		const buffer = await fs.readFile(filePath);
+		return filePath.endsWith('.gz')
+			? (await gunzipAsync(buffer)).toString('utf-8')
+			: buffer.toString('utf-8');
+	}
+
+	/**
+	 * Perform write operation, atomically using a temporary file unless
+	 * atomic writes are disabled
+	 */
+	private async performAtomicWrite(
+		filePath: string,
+		content: string
+	): Promise<void> {
+		const data = filePath.endsWith('.gz')
+			? await gzipAsync(content)
+			: Buffer.from(content, 'utf-8');
+
+		if (this.options.atomic === false) {
+			try {
+				await fs.writeFile(filePath, data);
+			} catch (error: any) {
+				throw new Error(`Failed to write file ${filePath}: ${error.message}`);
+			}
+			return;
+		}
+
 		const tempPath = `${filePath}.tmp`;
 
 		try {
 			// Write to temp file first
-			const content = JSON.stringify(data, null, 2);
-			await fs.writeFile(tempPath, content, 'utf-8');
+			await fs.writeFile(tempPath, data);
 
 			// Atomic rename
 			await fs.rename(tempPath, filePath);
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Tests for FileStorage concurrency, backups and compression
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ERROR_CODES } from '../../../../common/errors/task-master-error.js';
+import type { Task } from '../../../../common/types/index.js';
+import { FileStorage } from './file-storage.js';
+
+const createTask = (id: string, title = `Task ${id}`): Task => ({
+	id,
+	title,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: []
+});
+
+describe('FileStorage concurrency', () => {
+	let projectRoot: string;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-file-storage-'));
+		await new FileStorage(projectRoot).saveTasks([createTask('1')], 'master');
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should reject a save when the tag changed since it was loaded', async () => {
+		const cli = new FileStorage(projectRoot);
+		const mcp = new FileStorage(projectRoot);
+
+		const cliTasks = await cli.loadTasks('master');
+		const mcpTasks = await mcp.loadTasks('master');
+
+		await mcp.saveTasks([...mcpTasks, createTask('2')], 'master');
+
+		await expect(
+			cli.saveTasks([{ ...cliTasks[0], status: 'done' }], 'master')
+		).rejects.toMatchObject({ code: ERROR_CODES.CONCURRENT_MODIFICATION });
+		await expect(new FileStorage(projectRoot).loadTasks()).resolves.toEqual([
+			expect.objectContaining({ id: '1', status: 'pending' }),
+			expect.objectContaining({ id: '2' })
+		]);
+
+		// After reloading the save goes through
+		const reloaded = await cli.loadTasks('master');
+		await expect(
+			cli.saveTasks([{ ...reloaded[0], status: 'done' }, reloaded[1]], 'master')
+		).resolves.toBeUndefined();
+	});
+
+	it('should allow consecutive saves and saves to other tags', async () => {
+		const cli = new FileStorage(projectRoot);
+		const mcp = new FileStorage(projectRoot);
+
+		await cli.loadTasks('master');
+		await mcp.saveTasks([createTask('1')], 'feature');
+		await cli.saveTasks([createTask('1', 'First')], 'master');
+		await cli.saveTasks([createTask('1', 'Second')], 'master');
+
+		await expect(
+			new FileStorage(projectRoot, { format: 'json' }).getAllTags()
+		).resolves.toEqual(['master', 'feature']);
+	});
+
+	it('should serialize concurrent updates to different tasks', async () => {
+		await new FileStorage(projectRoot).saveTasks(
+			[createTask('1'), createTask('2'), createTask('3')],
+			'master'
+		);
+		const cli = new FileStorage(projectRoot);
+		const mcp = new FileStorage(projectRoot);
+		const extension = new FileStorage(projectRoot);
+
+		await Promise.all([
+			cli.updateTaskStatus('1', 'done', 'master'),
+			mcp.updateTask('2', { title: 'Renamed' }, 'master'),
+			extension.appendTasks([createTask('4')], 'master'),
+			cli.deleteTask('3', 'master')
+		]);
+
+		await expect(new FileStorage(projectRoot).loadTasks()).resolves.toEqual([
+			expect.objectContaining({ id: '1', status: 'done' }),
+			expect.objectContaining({ id: '2', title: 'Renamed' }),
+			expect.objectContaining({ id: '4' })
+		]);
+	});
+
+	it('should not lose updates from parallel writers', async () => {
+		const writers = ['a', 'b', 'c', 'd'].map(
+			() => new FileStorage(projectRoot)
+		);
+
+		await Promise.all(
+			writers.map((storage, index) =>
+				storage.saveTasks([createTask(String(index + 1))], `tag-${index}`)
+			)
+		);
+
+		const tags = await new FileStorage(projectRoot).getAllTags();
+		expect(tags.sort()).toEqual(['master', 'tag-0', 'tag-1', 'tag-2', 'tag-3']);
+		await expect(
+			fs.access(
+				path.join(projectRoot, '.taskmaster', 'tasks', 'tasks.json.lock')
+			)
+		).rejects.toThrow();
+	});
+});
+
+describe('FileStorage backups and compression', () => {
+	let projectRoot: string;
+	let tasksDir: string;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-file-storage-'));
+		tasksDir = path.join(projectRoot, '.taskmaster', 'tasks');
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should back up the tasks file on every save within the retention limit', async () => {
+		const storage = new FileStorage(projectRoot, {
+			enableBackup: true,
+			maxBackups: 2
+		});
+
+		for (const title of ['One', 'Two', 'Three', 'Four']) {
+			await storage.saveTasks([createTask('1', title)], 'master');
+		}
+
+		const backups = await storage.listBackups();
+		expect(backups).toHaveLength(2);
+		const titles = await Promise.all(
+			backups.map(async (backup) => {
+				const content = await fs.readFile(backup.path, 'utf-8');
+				return /"title": "(\w+)"/.exec(content)?.[1];
+			})
+		);
+		expect(titles).toEqual(['Three', 'Two']);
+	});
+
+	it('should not back up when backups are disabled', async () => {
+		const storage = new FileStorage(projectRoot);
+
+		await storage.saveTasks([createTask('1')], 'master');
+		await storage.saveTasks([createTask('1', 'Changed')], 'master');
+
+		await expect(storage.listBackups()).resolves.toEqual([]);
+	});
+
+	it('should store the tasks file gzip-compressed', async () => {
+		const storage = new FileStorage(projectRoot, { enableCompression: true });
+		const tasks = [createTask('1'), createTask('2')];
+
+		await storage.saveTasks(tasks, 'master');
+
+		const raw = await fs.readFile(path.join(tasksDir, 'tasks.json.gz'));
+		expect(gunzipSync(raw).toString('utf-8')).toContain('"Task 2"');
+		await expect(
+			fs.access(path.join(tasksDir, 'tasks.json'))
+		).rejects.toThrow();
+		await expect(storage.loadTasks('master')).resolves.toEqual(tasks);
+	});
+
+	it('should move the tasks file when compression is switched on', async () => {
+		await new FileStorage(projectRoot).saveTasks([createTask('1')], 'master');
+		const storage = new FileStorage(projectRoot, { enableCompression: true });
+
+		await expect(storage.exists()).resolves.toBe(true);
+		const tasks = await storage.loadTasks('master');
+		await storage.saveTasks([...tasks, createTask('2')], 'master');
+
+		expect(await fs.readdir(tasksDir)).toEqual(['tasks.json.gz']);
+		await expect(storage.loadTasks('master')).resolves.toHaveLength(2);
+	});
+
+	it('should restore a backup and back up the replaced file', async () => {
+		const storage = new FileStorage(projectRoot, { enableBackup: true });
+		await storage.saveTasks([createTask('1', 'Original')], 'master');
+		await storage.saveTasks([createTask('1', 'Changed')], 'master');
+		const [original] = await storage.listBackups();
+
+		const result = await storage.restoreBackup(original.id);
+
+		expect(result.restored.id).toBe(original.id);
+		expect(result.previous).not.toBeNull();
+		await expect(storage.loadTasks('master')).resolves.toEqual([
+			expect.objectContaining({ title: 'Original' })
+		]);
+
+		// The restore itself can be undone
+		await storage.restoreBackup(result.previous!.id);
+		await expect(storage.loadTasks('master')).resolves.toEqual([
+			expect.objectContaining({ title: 'Changed' })
+		]);
+	});
+});
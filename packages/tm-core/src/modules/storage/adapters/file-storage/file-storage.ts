@@ -2,6 +2,7 @@
  * @fileoverview Refactored file-based storage implementation for Task Master
  */
 
+import { createHash } from 'node:crypto';
 import path from 'node:path';
 import type {
 	IStorage,
@@ -11,6 +12,7 @@ import type {
 } from '../../../../common/interfaces/storage.interface.js';
 import type {
 	Task,
+	TaskFileFormat,
 	TaskMetadata,
 	TaskStatus
 } from '../../../../common/types/index.js';
@@ -18,25 +20,74 @@ import {
 	ERROR_CODES,
 	TaskMasterError
 } from '../../../../common/errors/task-master-error.js';
+import { getLogger } from '../../../../common/logger/index.js';
 import { ComplexityReportManager } from '../../../reports/managers/complexity-report-manager.js';
+import {
+	BackupManager,
+	type RestoreBackupResult,
+	type TaskFileBackup
+} from './backup-manager.js';
 import { FileOperations } from './file-operations.js';
+import type { FileLockOptions } from './file-lock.js';
 import { FormatHandler } from './format-handler.js';
+import { MarkdownTaskFormat } from './markdown-format.js';
 import { PathResolver } from './path-resolver.js';
 
 /**
- * File-based storage implementation using a single tasks.json file with separated concerns
+ * Options for FileStorage
+ */
+export interface FileStorageOptions {
+	/** Format of the tasks file (default: json) */
+	format?: TaskFileFormat;
+	/** Lock file timeouts for writes shared with other processes */
+	lock?: FileLockOptions;
+	/** Back up the tasks file before every save (default: false) */
+	enableBackup?: boolean;
+	/** Maximum number of backups to retain (default: 5) */
+	maxBackups?: number;
+	/** Store the tasks file gzip-compressed, e.g. tasks.json.gz (default: false) */
+	enableCompression?: boolean;
+	/** Write through a temporary file and rename (default: true) */
+	atomicOperations?: boolean;
+}
+
+/**
+ * File-based storage implementation using a single tasks file with separated concerns
  */
 export class FileStorage implements IStorage {
 	private formatHandler: FormatHandler;
 	private fileOps: FileOperations;
 	private pathResolver: PathResolver;
 	private complexityManager: ComplexityReportManager;
-
-	constructor(projectPath: string) {
+	private markdownFormat: MarkdownTaskFormat;
+	private backupManager: BackupManager;
+	private readonly fileFormat: TaskFileFormat;
+	private readonly compressed: boolean;
+	private readonly enableBackup: boolean;
+	private readonly logger = getLogger('FileStorage');
+	/** Hash of each tag's tasks as last loaded or saved by this instance */
+	private tagVersions = new Map<string, string>();
+
+	constructor(projectPath: string, options: FileStorageOptions = {}) {
+		this.fileFormat = options.format ?? 'json';
+		this.compressed = options.enableCompression ?? false;
+		this.enableBackup = options.enableBackup ?? false;
 		this.formatHandler = new FormatHandler();
-		this.fileOps = new FileOperations();
-		this.pathResolver = new PathResolver(projectPath);
+		this.fileOps = new FileOperations({
+			lock: options.lock,
+			atomic: options.atomicOperations
+		});
+		this.pathResolver = new PathResolver(
+			projectPath,
+			this.fileFormat,
+			this.compressed
+		);
 		this.complexityManager = new ComplexityReportManager(projectPath);
+		this.markdownFormat = new MarkdownTaskFormat();
+		this.backupManager = new BackupManager(
+			this.pathResolver.getBackupsDir(),
+			options.maxBackups
+		);
 	}
 
 	/**
@@ -72,11 +123,11 @@ export class FileStorage implements IStorage {
 	 * Get statistics about the storage
 	 */
 	async getStats(): Promise<StorageStats> {
-		const filePath = this.pathResolver.getTasksPath();
+		const filePath = await this.resolveTasksPath();
 
 		try {
 			const stats = await this.fileOps.getStats(filePath);
-			const data = await this.fileOps.readJson(filePath);
+			const data = await this.readTasksData(filePath);
 			const tags = this.formatHandler.extractTags(data);
 
 			let totalTasks = 0;
@@ -122,8 +173,14 @@ export class FileStorage implements IStorage {
 		const resolvedTag = tag || 'master';
 
 		try {
-			const rawData = await this.fileOps.readJson(filePath);
+			const rawData = await this.readTasksData(filePath);
 			let tasks = this.formatHandler.extractTasks(rawData, resolvedTag);
+			if (!options?.readOnly) {
+				this.tagVersions.set(
+					resolvedTag,
+					this.getTagVersion(rawData, resolvedTag)
+				);
+			}
 
 			// Apply filters if provided
 			if (options) {
@@ -144,6 +201,12 @@ export class FileStorage implements IStorage {
 			return await this.enrichTasksWithComplexity(tasks, resolvedTag);
 		} catch (error: any) {
 			if (error.code === 'ENOENT') {
+				if (!options?.readOnly) {
+					this.tagVersions.set(
+						resolvedTag,
+						this.getTagVersion({}, resolvedTag)
+					);
+				}
 				return []; // File doesn't exist, return empty array
 			}
 			throw new Error(`Failed to load tasks: ${error.message}`);
@@ -224,66 +287,75 @@ export class FileStorage implements IStorage {
 		// Ensure directory exists
 		await this.fileOps.ensureDir(this.pathResolver.getTasksDir());
 
-		// Get existing data from the file
-		let existingData: any = {};
-		try {
-			existingData = await this.fileOps.readJson(filePath);
-		} catch (error: any) {
-			if (error.code !== 'ENOENT') {
-				throw new Error(`Failed to read existing tasks: ${error.message}`);
+		await this.fileOps.withLock(filePath, async () => {
+			// Get existing data from the file
+			let existingData: any = {};
+			try {
+				existingData = await this.readTasksData(filePath);
+			} catch (error: any) {
+				if (error.code !== 'ENOENT') {
+					throw new Error(`Failed to read existing tasks: ${error.message}`);
+				}
+				// File doesn't exist, start with empty data
 			}
-			// File doesn't exist, start with empty data
-		}
 
-		// Create metadata for this tag
-		const metadata: TaskMetadata = {
-			version: '1.0.0',
-			lastModified: new Date().toISOString(),
-			taskCount: tasks.length,
-			completedCount: tasks.filter((t) => t.status === 'done').length,
-			tags: [resolvedTag]
-		};
+			// Reject the save if another process changed this tag since we loaded it
+			this.assertTagUnchanged(existingData, resolvedTag);
 
-		// Normalize tasks
-		const normalizedTasks = this.normalizeTaskIds(tasks);
-
-		// Update the specific tag in the existing data structure
-		if (
-			this.formatHandler.detectFormat(existingData) === 'legacy' ||
-			Object.keys(existingData).some(
-				(key) => key !== 'tasks' && key !== 'metadata'
-			)
-		) {
-			// Legacy format - update/add the tag
-			existingData[resolvedTag] = {
-				tasks: normalizedTasks,
-				metadata
-			};
-		} else if (resolvedTag === 'master') {
-			// Standard format for master tag
-			existingData = {
-				tasks: normalizedTasks,
-				metadata
+			// Create metadata for this tag
+			const metadata: TaskMetadata = {
+				version: '1.0.0',
+				lastModified: new Date().toISOString(),
+				taskCount: tasks.length,
+				completedCount: tasks.filter((t) => t.status === 'done').length,
+				tags: [resolvedTag]
 			};
-		} else {
-			// Convert to legacy format when adding non-master tags
-			const masterTasks = existingData.tasks || [];
-			const masterMetadata = existingData.metadata || metadata;
-
-			existingData = {
-				master: {
-					tasks: masterTasks,
-					metadata: masterMetadata
-				},
-				[resolvedTag]: {
+
+			// Normalize tasks
+			const normalizedTasks = this.normalizeTaskIds(tasks);
+
+			// Update the specific tag in the existing data structure
+			if (
+				this.formatHandler.detectFormat(existingData) === 'legacy' ||
+				Object.keys(existingData).some(
+					(key) => key !== 'tasks' && key !== 'metadata'
+				)
+			) {
+				// Legacy format - update/add the tag
+				existingData[resolvedTag] = {
 					tasks: normalizedTasks,
 					metadata
-				}
-			};
-		}
+				};
+			} else if (resolvedTag === 'master') {
+				// Standard format for master tag
+				existingData = {
+					tasks: normalizedTasks,
+					metadata
+				};
+			} else {
+				// Convert to legacy format when adding non-master tags
+				const masterTasks = existingData.tasks || [];
+				const masterMetadata = existingData.metadata || metadata;
 
-		// Write the updated file
-		await this.fileOps.writeJson(filePath, existingData);
+				existingData = {
+					master: {
+						tasks: masterTasks,
+						metadata: masterMetadata
+					},
+					[resolvedTag]: {
+						tasks: normalizedTasks,
+						metadata
+					}
+				};
+			}
+
+			// Write the updated file
+			await this.writeTasksData(filePath, existingData);
+			this.tagVersions.set(
+				resolvedTag,
+				this.getTagVersion(existingData, resolvedTag)
+			);
+		});
 	}
 
 	/**
@@ -307,7 +379,7 @@ export class FileStorage implements IStorage {
 	 * Check if the tasks file exists
 	 */
 	async exists(_tag?: string): Promise<boolean> {
-		const filePath = this.pathResolver.getTasksPath();
+		const filePath = await this.resolveTasksPath();
 		return this.fileOps.exists(filePath);
 	}
 
@@ -317,7 +389,7 @@ export class FileStorage implements IStorage {
 	async getAllTags(): Promise<string[]> {
 		try {
 			const filePath = this.pathResolver.getTasksPath();
-			const data = await this.fileOps.readJson(filePath);
+			const data = await this.readTasksData(filePath);
 			return this.formatHandler.extractTags(data);
 		} catch (error: any) {
 			if (error.code === 'ENOENT') {
@@ -335,7 +407,7 @@ export class FileStorage implements IStorage {
 		const resolvedTag = tag || 'master';
 
 		try {
-			const rawData = await this.fileOps.readJson(filePath);
+			const rawData = await this.readTasksData(filePath);
 			return this.formatHandler.extractMetadata(rawData, resolvedTag);
 		} catch (error: any) {
 			if (error.code === 'ENOENT') {
@@ -349,17 +421,21 @@ export class FileStorage implements IStorage {
 	 * Save metadata (stored with tasks)
 	 */
 	async saveMetadata(_metadata: TaskMetadata, tag?: string): Promise<void> {
-		const tasks = await this.loadTasks(tag);
-		await this.saveTasks(tasks, tag);
+		await this.withTasksLock(async () => {
+			const tasks = await this.loadTasks(tag);
+			await this.saveTasks(tasks, tag);
+		});
 	}
 
 	/**
 	 * Append tasks to existing storage
 	 */
 	async appendTasks(tasks: Task[], tag?: string): Promise<void> {
-		const existingTasks = await this.loadTasks(tag);
-		const allTasks = [...existingTasks, ...tasks];
-		await this.saveTasks(allTasks, tag);
+		await this.withTasksLock(async () => {
+			const existingTasks = await this.loadTasks(tag);
+			const allTasks = [...existingTasks, ...tasks];
+			await this.saveTasks(allTasks, tag);
+		});
 	}
 
 	/**
@@ -370,19 +446,21 @@ export class FileStorage implements IStorage {
 		updates: Partial<Task>,
 		tag?: string
 	): Promise<void> {
-		const tasks = await this.loadTasks(tag);
-		const taskIndex = tasks.findIndex((t) => String(t.id) === String(taskId));
+		await this.withTasksLock(async () => {
+			const tasks = await this.loadTasks(tag);
+			const taskIndex = tasks.findIndex((t) => String(t.id) === String(taskId));
 
-		if (taskIndex === -1) {
-			throw new Error(`Task ${taskId} not found`);
-		}
+			if (taskIndex === -1) {
+				throw new Error(`Task ${taskId} not found`);
+			}
 
-		tasks[taskIndex] = {
-			...tasks[taskIndex],
-			...updates,
-			id: String(taskId) // Keep consistent with normalizeTaskIds
-		};
-		await this.saveTasks(tasks, tag);
+			tasks[taskIndex] = {
+				...tasks[taskIndex],
+				...updates,
+				id: String(taskId) // Keep consistent with normalizeTaskIds
+			};
+			await this.saveTasks(tasks, tag);
+		});
 	}
 
 	/**
@@ -428,6 +506,19 @@ export class FileStorage implements IStorage {
 		taskId: string,
 		newStatus: TaskStatus,
 		tag?: string
+	): Promise<UpdateStatusResult> {
+		return this.withTasksLock(() =>
+			this.updateTaskStatusInFile(taskId, newStatus, tag)
+		);
+	}
+
+	/**
+	 * Update task or subtask status, called with the tasks file locked
+	 */
+	private async updateTaskStatusInFile(
+		taskId: string,
+		newStatus: TaskStatus,
+		tag?: string
 	): Promise<UpdateStatusResult> {
 		const tasks = await this.loadTasks(tag);
 
@@ -578,14 +669,18 @@ export class FileStorage implements IStorage {
 	 * Delete a task
 	 */
 	async deleteTask(taskId: string, tag?: string): Promise<void> {
-		const tasks = await this.loadTasks(tag);
-		const filteredTasks = tasks.filter((t) => String(t.id) !== String(taskId));
+		await this.withTasksLock(async () => {
+			const tasks = await this.loadTasks(tag);
+			const filteredTasks = tasks.filter(
+				(t) => String(t.id) !== String(taskId)
+			);
 
-		if (filteredTasks.length === tasks.length) {
-			throw new Error(`Task ${taskId} not found`);
-		}
+			if (filteredTasks.length === tasks.length) {
+				throw new Error(`Task ${taskId} not found`);
+			}
 
-		await this.saveTasks(filteredTasks, tag);
+			await this.saveTasks(filteredTasks, tag);
+		});
 	}
 
 	/**
@@ -597,63 +692,35 @@ export class FileStorage implements IStorage {
 	): Promise<void> {
 		const filePath = this.pathResolver.getTasksPath();
 
-		try {
-			const existingData = await this.fileOps.readJson(filePath);
-			const format = this.formatHandler.detectFormat(existingData);
-
-			if (format === 'legacy') {
-				// Legacy format - add new tag key
-				if (tagName in existingData) {
-					throw new TaskMasterError(
-						`Tag ${tagName} already exists`,
-						ERROR_CODES.VALIDATION_ERROR
-					);
-				}
-
-				// Get tasks to copy if specified
-				let tasksToCopy = [];
-				if (options?.copyFrom) {
-					if (
-						options.copyFrom in existingData &&
-						existingData[options.copyFrom].tasks
-					) {
-						tasksToCopy = JSON.parse(
-							JSON.stringify(existingData[options.copyFrom].tasks)
+		await this.fileOps.withLock(filePath, async () => {
+			try {
+				const existingData = await this.readTasksData(filePath);
+				const format = this.formatHandler.detectFormat(existingData);
+
+				if (format === 'legacy') {
+					// Legacy format - add new tag key
+					if (tagName in existingData) {
+						throw new TaskMasterError(
+							`Tag ${tagName} already exists`,
+							ERROR_CODES.VALIDATION_ERROR
 						);
 					}
-				}
 
-				// Create new tag structure
-				existingData[tagName] = {
-					tasks: tasksToCopy,
-					metadata: {
-						created: new Date().toISOString(),
-						updatedAt: new Date().toISOString(),
-						description:
-							options?.description ||
-							`Tag created on ${new Date().toLocaleDateString()}`,
-						tags: [tagName]
+					// Get tasks to copy if specified
+					let tasksToCopy = [];
+					if (options?.copyFrom) {
+						if (
+							options.copyFrom in existingData &&
+							existingData[options.copyFrom].tasks
+						) {
+							tasksToCopy = JSON.parse(
+								JSON.stringify(existingData[options.copyFrom].tasks)
+							);
+						}
 					}
-				};
-
-				await this.fileOps.writeJson(filePath, existingData);
-			} else {
-				// Standard format - need to convert to legacy format first
-				const masterTasks = existingData.tasks || [];
-				const masterMetadata = existingData.metadata || {};
-
-				// Get tasks to copy (from master in this case)
-				let tasksToCopy = [];
-				if (options?.copyFrom === 'master' || !options?.copyFrom) {
-					tasksToCopy = JSON.parse(JSON.stringify(masterTasks));
-				}
 
-				const newData = {
-					master: {
-						tasks: masterTasks,
-						metadata: { ...masterMetadata, tags: ['master'] }
-					},
-					[tagName]: {
+					// Create new tag structure
+					existingData[tagName] = {
 						tasks: tasksToCopy,
 						metadata: {
 							created: new Date().toISOString(),
@@ -663,17 +730,47 @@ export class FileStorage implements IStorage {
 								`Tag created on ${new Date().toLocaleDateString()}`,
 							tags: [tagName]
 						}
+					};
+
+					await this.writeTasksData(filePath, existingData);
+				} else {
+					// Standard format - need to convert to legacy format first
+					const masterTasks = existingData.tasks || [];
+					const masterMetadata = existingData.metadata || {};
+
+					// Get tasks to copy (from master in this case)
+					let tasksToCopy = [];
+					if (options?.copyFrom === 'master' || !options?.copyFrom) {
+						tasksToCopy = JSON.parse(JSON.stringify(masterTasks));
 					}
-				};
 
-				await this.fileOps.writeJson(filePath, newData);
-			}
-		} catch (error: any) {
-			if (error.code === 'ENOENT') {
-				throw new Error('Tasks file not found - initialize project first');
+					const newData = {
+						master: {
+							tasks: masterTasks,
+							metadata: { ...masterMetadata, tags: ['master'] }
+						},
+						[tagName]: {
+							tasks: tasksToCopy,
+							metadata: {
+								created: new Date().toISOString(),
+								updatedAt: new Date().toISOString(),
+								description:
+									options?.description ||
+									`Tag created on ${new Date().toLocaleDateString()}`,
+								tags: [tagName]
+							}
+						}
+					};
+
+					await this.writeTasksData(filePath, newData);
+				}
+			} catch (error: any) {
+				if (error.code === 'ENOENT') {
+					throw new Error('Tasks file not found - initialize project first');
+				}
+				throw error;
 			}
-			throw error;
-		}
+		});
 	}
 
 	/**
@@ -682,29 +779,33 @@ export class FileStorage implements IStorage {
 	async deleteTag(tag: string): Promise<void> {
 		const filePath = this.pathResolver.getTasksPath();
 
-		try {
-			const existingData = await this.fileOps.readJson(filePath);
-
-			if (this.formatHandler.detectFormat(existingData) === 'legacy') {
-				// Legacy format - remove the tag key
-				if (tag in existingData) {
-					delete existingData[tag];
-					await this.fileOps.writeJson(filePath, existingData);
+		await this.fileOps.withLock(filePath, async () => {
+			try {
+				const existingData = await this.readTasksData(filePath);
+
+				if (this.formatHandler.detectFormat(existingData) === 'legacy') {
+					// Legacy format - remove the tag key
+					if (tag in existingData) {
+						delete existingData[tag];
+						await this.writeTasksData(filePath, existingData);
+					} else {
+						throw new Error(`Tag ${tag} not found`);
+					}
+				} else if (tag === 'master') {
+					// Standard format - delete the entire file for master tag
+					await this.backupTasksFile();
+					await this.fileOps.deleteFile(filePath);
 				} else {
-					throw new Error(`Tag ${tag} not found`);
+					throw new Error(`Tag ${tag} not found in standard format`);
 				}
-			} else if (tag === 'master') {
-				// Standard format - delete the entire file for master tag
-				await this.fileOps.deleteFile(filePath);
-			} else {
-				throw new Error(`Tag ${tag} not found in standard format`);
-			}
-		} catch (error: any) {
-			if (error.code === 'ENOENT') {
-				throw new Error(`Tag ${tag} not found - file doesn't exist`);
+			} catch (error: any) {
+				if (error.code === 'ENOENT') {
+					throw new Error(`Tag ${tag} not found - file doesn't exist`);
+				}
+				throw error;
 			}
-			throw error;
-		}
+		});
+		this.tagVersions.delete(tag);
 	}
 
 	/**
@@ -713,59 +814,65 @@ export class FileStorage implements IStorage {
 	async renameTag(oldTag: string, newTag: string): Promise<void> {
 		const filePath = this.pathResolver.getTasksPath();
 
-		try {
-			const existingData = await this.fileOps.readJson(filePath);
+		await this.fileOps.withLock(filePath, async () => {
+			try {
+				const existingData = await this.readTasksData(filePath);
+
+				if (this.formatHandler.detectFormat(existingData) === 'legacy') {
+					// Legacy format - rename the tag key
+					if (oldTag in existingData) {
+						existingData[newTag] = existingData[oldTag];
+						delete existingData[oldTag];
 
-			if (this.formatHandler.detectFormat(existingData) === 'legacy') {
-				// Legacy format - rename the tag key
-				if (oldTag in existingData) {
-					existingData[newTag] = existingData[oldTag];
-					delete existingData[oldTag];
+						// Update metadata tags array
+						if (existingData[newTag].metadata) {
+							existingData[newTag].metadata.tags = [newTag];
+						}
 
-					// Update metadata tags array
-					if (existingData[newTag].metadata) {
-						existingData[newTag].metadata.tags = [newTag];
+						await this.writeTasksData(filePath, existingData);
+					} else {
+						throw new Error(`Tag ${oldTag} not found`);
 					}
+				} else if (oldTag === 'master') {
+					// Convert standard format to legacy when renaming master
+					const masterTasks = existingData.tasks || [];
+					const masterMetadata = existingData.metadata || {};
+
+					const newData = {
+						[newTag]: {
+							tasks: masterTasks,
+							metadata: { ...masterMetadata, tags: [newTag] }
+						}
+					};
 
-					await this.fileOps.writeJson(filePath, existingData);
+					await this.writeTasksData(filePath, newData);
 				} else {
-					throw new Error(`Tag ${oldTag} not found`);
+					throw new Error(`Tag ${oldTag} not found in standard format`);
 				}
-			} else if (oldTag === 'master') {
-				// Convert standard format to legacy when renaming master
-				const masterTasks = existingData.tasks || [];
-				const masterMetadata = existingData.metadata || {};
-
-				const newData = {
-					[newTag]: {
-						tasks: masterTasks,
-						metadata: { ...masterMetadata, tags: [newTag] }
-					}
-				};
-
-				await this.fileOps.writeJson(filePath, newData);
-			} else {
-				throw new Error(`Tag ${oldTag} not found in standard format`);
-			}
-		} catch (error: any) {
-			if (error.code === 'ENOENT') {
-				throw new Error(`Tag ${oldTag} not found - file doesn't exist`);
+			} catch (error: any) {
+				if (error.code === 'ENOENT') {
+					throw new Error(`Tag ${oldTag} not found - file doesn't exist`);
+				}
+				throw error;
 			}
-			throw error;
-		}
+		});
+		this.tagVersions.delete(oldTag);
+		this.tagVersions.delete(newTag);
 	}
 
 	/**
 	 * Copy a tag within the single tasks.json file
 	 */
 	async copyTag(sourceTag: string, targetTag: string): Promise<void> {
-		const tasks = await this.loadTasks(sourceTag);
+		await this.withTasksLock(async () => {
+			const tasks = await this.loadTasks(sourceTag);
 
-		if (tasks.length === 0) {
-			throw new Error(`Source tag ${sourceTag} not found or has no tasks`);
-		}
+			if (tasks.length === 0) {
+				throw new Error(`Source tag ${sourceTag} not found or has no tasks`);
+			}
 
-		await this.saveTasks(tasks, targetTag);
+			await this.saveTasks(tasks, targetTag);
+		});
 	}
 
 	/**
@@ -864,6 +971,172 @@ export class FileStorage implements IStorage {
 		};
 	}
 
+	/**
+	 * List backups of the tasks file, newest first
+	 */
+	async listBackups(): Promise<TaskFileBackup[]> {
+		return this.backupManager.listBackups();
+	}
+
+	/**
+	 * Replace the tasks file with a backup.
+	 * The current tasks file is backed up first so the restore can be undone.
+	 * @throws TaskMasterError FILE_NOT_FOUND when there is no such backup
+	 */
+	async restoreBackup(id: string): Promise<RestoreBackupResult> {
+		const restored = await this.backupManager.getBackup(id);
+		const filePath = this.pathResolver.getTasksPath();
+
+		await this.fileOps.ensureDir(this.pathResolver.getTasksDir());
+
+		return this.fileOps.withLock(filePath, async () => {
+			const data = await this.readTasksData(restored.path, restored.format);
+			const previous = await this.backupTasksFile();
+			await this.writeTasksData(filePath, data, false);
+
+			// Tasks loaded before the restore are stale now
+			this.tagVersions.clear();
+			return { restored, previous };
+		});
+	}
+
+	/**
+	 * Hash of a tag's tasks, independent of key order and file format
+	 */
+	private getTagVersion(data: any, tag: string): string {
+		const tasks = this.formatHandler.extractTasks(data, tag);
+		const json = JSON.stringify(tasks, (_key, value) =>
+			value && typeof value === 'object' && !Array.isArray(value)
+				? Object.fromEntries(
+						Object.entries(value).sort(([a], [b]) =>
+							a < b ? -1 : a > b ? 1 : 0
+						)
+					)
+				: value
+		);
+		return createHash('sha1').update(json).digest('hex');
+	}
+
+	/**
+	 * Run a load-modify-save of the tasks file while holding its lock, so
+	 * writers in other processes wait for it instead of failing the save
+	 */
+	async withTasksLock<T>(fn: () => Promise<T>): Promise<T> {
+		await this.fileOps.ensureDir(this.pathResolver.getTasksDir());
+		return this.fileOps.withLock(this.pathResolver.getTasksPath(), fn);
+	}
+
+	/**
+	 * Optimistic concurrency check for a save: the tag must still look the way
+	 * it did when this instance last loaded or saved it
+	 * @throws TaskMasterError CONCURRENT_MODIFICATION when it changed on disk
+	 */
+	private assertTagUnchanged(data: any, tag: string): void {
+		const expected = this.tagVersions.get(tag);
+		if (expected === undefined || expected === this.getTagVersion(data, tag)) {
+			return;
+		}
+
+		this.tagVersions.delete(tag);
+		throw new TaskMasterError(
+			`Tasks in tag "${tag}" were changed by another process since they were loaded. Reload and try again.`,
+			ERROR_CODES.CONCURRENT_MODIFICATION,
+			{
+				operation: 'saveTasks',
+				resource: this.pathResolver.getTasksPath(),
+				details: { tag }
+			}
+		);
+	}
+
+	/**
+	 * Read the raw tag-keyed data from the tasks file in the configured format
+	 */
+	private async readTasksData(
+		filePath: string,
+		format: TaskFileFormat = this.fileFormat
+	): Promise<any> {
+		try {
+			return format === 'markdown'
+				? this.markdownFormat.parse(await this.fileOps.readText(filePath))
+				: await this.fileOps.readJson(filePath);
+		} catch (error: any) {
+			// Compression was just switched on or off: read the file as it was
+			if (
+				error.code === 'ENOENT' &&
+				filePath === this.pathResolver.getTasksPath()
+			) {
+				return this.readTasksData(this.getOtherCompressionPath(), format);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Write the raw tag-keyed data to the tasks file in the configured format,
+	 * backing up the previous file first when backups are enabled
+	 */
+	private async writeTasksData(
+		filePath: string,
+		data: any,
+		backup = this.enableBackup
+	): Promise<void> {
+		if (backup) {
+			await this.backupTasksFile();
+		}
+
+		if (this.fileFormat === 'markdown') {
+			await this.fileOps.writeText(
+				filePath,
+				this.markdownFormat.serialize(data)
+			);
+		} else {
+			await this.fileOps.writeJson(filePath, data);
+		}
+
+		// The data now lives in this file, drop the copy from before a
+		// compression switch so it cannot be read again
+		if (filePath === this.pathResolver.getTasksPath()) {
+			const otherPath = this.getOtherCompressionPath();
+			if (this.compressed && (await this.fileOps.exists(otherPath))) {
+				this.logger.warn(
+					`Moved ${path.basename(otherPath)} to ${path.basename(filePath)} (storage.enableCompression)`
+				);
+			}
+			await this.fileOps.deleteFile(otherPath);
+		}
+	}
+
+	/**
+	 * Path of the tasks file with the opposite compression setting
+	 */
+	private getOtherCompressionPath(): string {
+		return this.pathResolver.getTasksPathForFormat(
+			this.fileFormat,
+			!this.compressed
+		);
+	}
+
+	/**
+	 * Path of the tasks file on disk, which still has the other compression
+	 * setting until the first save after switching
+	 */
+	private async resolveTasksPath(): Promise<string> {
+		const filePath = this.pathResolver.getTasksPath();
+		if (await this.fileOps.exists(filePath)) {
+			return filePath;
+		}
+		const otherPath = this.getOtherCompressionPath();
+		return (await this.fileOps.exists(otherPath)) ? otherPath : filePath;
+	}
+
+	/**
+	 * Copy the current tasks file to a new backup
+	 */
+	private async backupTasksFile(): Promise<TaskFileBackup | null> {
+		return this.backupManager.createBackup(await this.resolveTasksPath());
+	}
+
 	/**
 	 * Get the active tag from state.json
 	 * @returns The active tag name or 'master' as default
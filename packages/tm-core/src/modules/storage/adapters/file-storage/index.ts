@@ -7,8 +7,31 @@ export {
 	type FileStorageData,
 	type FileFormat
 } from './format-handler.js';
-export { FileOperations } from './file-operations.js';
-export { PathResolver } from './path-resolver.js';
+export { MarkdownTaskFormat } from './markdown-format.js';
+export {
+	FileOperations,
+	type FileOperationsOptions
+} from './file-operations.js';
+export {
+	BackupManager,
+	type TaskFileBackup,
+	type RestoreBackupResult
+} from './backup-manager.js';
+export {
+	FileLock,
+	type FileLockOptions,
+	type FileLockOwner
+} from './file-lock.js';
+export { PathResolver, TASK_FILE_NAMES } from './path-resolver.js';
+export {
+	TaskFileConverter,
+	type ConvertTasksFileOptions,
+	type ConvertTasksFileResult
+} from './task-file-converter.js';
 
 // Main FileStorage class - primary export
-export { FileStorage as default, FileStorage } from './file-storage.js';
+export {
+	FileStorage as default,
+	FileStorage,
+	type FileStorageOptions
+} from './file-storage.js';
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Unit tests for MarkdownTaskFormat
+ */
+
+import fs from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { MarkdownTaskFormat } from './markdown-format.js';
+
+const format = new MarkdownTaskFormat();
+
+const createData = () => ({
+	master: {
+		tasks: [
+			{
+				id: '1',
+				title: 'Set up project',
+				description: 'Create the repository',
+				status: 'done',
+				priority: 'high',
+				dependencies: [],
+				details: 'Steps:\n\n# not a heading\n\n```bash\n# install\npnpm i\n```',
+				testStrategy: 'CI is green',
+				subtasks: [
+					{
+						id: 1,
+						parentId: '1',
+						title: 'Init repo',
+						description: 'git init',
+						status: 'done',
+						priority: 'medium',
+						dependencies: [],
+						details: '',
+						testStrategy: ''
+					},
+					{
+						id: 2,
+						parentId: '1',
+						title: 'Add linting',
+						description: 'Biome',
+						status: 'pending',
+						priority: 'medium',
+						dependencies: ['1'],
+						details: '## Task 9: looks structural',
+						testStrategy: ''
+					}
+				],
+				effort: 3,
+				tags: ['infra'],
+				createdAt: '2025-01-01T00:00:00.000Z'
+			},
+			{
+				id: '2',
+				title: '  padded: title  ',
+				description: '  leading space\n',
+				status: 'pending',
+				priority: 'medium',
+				dependencies: ['1'],
+				details: 'true',
+				testStrategy: '42',
+				subtasks: []
+			}
+		],
+		metadata: {
+			version: '1.0.0',
+			taskCount: 2,
+			tags: ['master']
+		}
+	},
+	feature: {
+		tasks: [],
+		metadata: { description: 'Empty tag' }
+	}
+});
+
+describe('MarkdownTaskFormat', () => {
+	it('should round-trip tag-keyed data losslessly', () => {
+		const data = createData();
+
+		expect(format.parse(format.serialize(data))).toEqual(data);
+	});
+
+	it('should round-trip the standard format and numeric legacy IDs', () => {
+		const data = {
+			tasks: [
+				{
+					id: 7,
+					title: 'Legacy',
+					dependencies: [3],
+					subtasks: [{ id: 1, parentId: 7, title: 'Step', dependencies: [] }]
+				}
+			],
+			metadata: { version: '1.0.0' }
+		};
+
+		expect(format.parse(format.serialize(data))).toEqual(data);
+	});
+
+	it('should not add subtasks or parent IDs that were not written', () => {
+		const data = {
+			tasks: [
+				{ id: '1', title: 'No subtasks' },
+				{ id: '2', title: 'Empty subtasks', subtasks: [] },
+				{ id: '3', title: 'Parent', subtasks: [{ id: 1, title: 'Step' }] }
+			]
+		};
+
+		expect(format.parse(format.serialize(data))).toEqual(data);
+	});
+
+	it("should round-trip the repository's own tasks file", () => {
+		const data = JSON.parse(
+			fs.readFileSync(
+				new URL(
+					'../../../../../../../.taskmaster/tasks/tasks.json',
+					import.meta.url
+				),
+				'utf-8'
+			)
+		);
+
+		expect(format.parse(format.serialize(data))).toEqual(data);
+	});
+
+	it('should write readable headings, fields and sections', () => {
+		const markdown = format.serialize(createData());
+
+		expect(markdown).toContain('# Tag: master');
+		expect(markdown).toContain('## Task 1: Set up project');
+		expect(markdown).toContain('- **status:** done');
+		expect(markdown).toContain('- **effort:** 3');
+		expect(markdown).toContain('### Description\n\nCreate the repository');
+		expect(markdown).toContain('### Subtask 1.2: Add linting');
+		expect(markdown).toContain('#### Details\n\n\\## Task 9: looks structural');
+		expect(markdown).toContain('```bash\n# install');
+		expect(markdown).toContain('- **title:** "  padded: title  "');
+	});
+
+	it('should parse hand-edited files', () => {
+		const data = format.parse(
+			[
+				'## Task 3: Write docs',
+				'',
+				'- **status:** in-progress',
+				'- **dependencies:** ["1", "2"]',
+				'',
+				'### Details',
+				'',
+				'Cover the CLI.',
+				'',
+				'## Notes are kept as text',
+				'',
+				'### Subtask 3.1: Draft outline',
+				'- **status:**   review  '
+			].join('\n')
+		);
+
+		expect(data).toEqual({
+			tasks: [
+				{
+					id: '3',
+					title: 'Write docs',
+					status: 'in-progress',
+					dependencies: ['1', '2'],
+					details: 'Cover the CLI.\n\n## Notes are kept as text',
+					subtasks: [{ id: 1, title: 'Draft outline', status: 'review' }]
+				}
+			]
+		});
+	});
+});
@@ -0,0 +1,368 @@
+/**
+ * @fileoverview Markdown serialization for task storage files
+ * Reads and writes the same tag-keyed data as tasks.json, in a form that is
+ * easy to review and edit by hand
+ */
+
+const FILE_HEADER =
+	'<!-- Task Master tasks file. Headings and "- **field:** value" lines are parsed; edit text sections freely. -->';
+
+/**
+ * Text fields written as sections, with their heading names
+ */
+const TEXT_SECTIONS: Record<string, string> = {
+	description: 'Description',
+	details: 'Details',
+	testStrategy: 'Test Strategy'
+};
+
+const SECTION_KEYS: Record<string, string> = Object.fromEntries(
+	Object.entries(TEXT_SECTIONS).map(([key, name]) => [name, key])
+);
+
+const SECTION_NAMES = Object.values(TEXT_SECTIONS).join('|');
+const TAG_HEADING = /^# Tag: (.+)$/;
+const TASK_HEADING = /^## Task(?: ([^\s:]+))?(?:: (.*))?$/;
+const SUBTASK_HEADING = /^### Subtask(?: (\S+)\.(\d+))?(?:: (.*))?$/;
+const TASK_SECTION_HEADING = new RegExp(`^### (${SECTION_NAMES})$`);
+const SUBTASK_SECTION_HEADING = new RegExp(`^#### (${SECTION_NAMES})$`);
+const FIELD_LINE = /^- \*\*(.+?):\*\*(?: (.*))?$/;
+const FENCE_LINE = /^\s*(```|~~~)/;
+
+interface OpenSection {
+	target: Record<string, any>;
+	key: string;
+	lines: string[];
+	inFence: boolean;
+}
+
+/**
+ * Converts task file data (legacy tag-keyed or standard) to and from Markdown.
+ *
+ * Layout:
+ * - `# Tag: <name>` per tag (omitted for the standard single-tag format)
+ * - `## Task <id>: <title>` per task, `### Subtask <taskId>.<id>: <title>` per subtask
+ * - `- **field:** value` lines for other fields; strings are written as-is and
+ *   anything else as JSON
+ * - `### Description`, `### Details` and `### Test Strategy` sections
+ *   (`####` for subtasks) for multi-line text
+ *
+ * Values that cannot be written in the readable form fall back to JSON field
+ * lines, so every value survives a round trip.
+ */
+export class MarkdownTaskFormat {
+	/**
+	 * Serialize task file data to Markdown
+	 */
+	serialize(data: any): string {
+		const lines = [FILE_HEADER, ''];
+		const keys = data && typeof data === 'object' ? Object.keys(data) : [];
+		const isLegacy = keys.some((key) => key !== 'tasks' && key !== 'metadata');
+
+		if (isLegacy) {
+			for (const tag of keys) {
+				lines.push(`# Tag: ${tag}`, '');
+				this.writeContainer(lines, data[tag] ?? {});
+			}
+		} else {
+			this.writeContainer(lines, data ?? {});
+		}
+
+		return `${lines.join('\n').trimEnd()}\n`;
+	}
+
+	/**
+	 * Parse Markdown written by serialize (or edited by hand) back into data
+	 */
+	parse(content: string): any {
+		const lines = content.replace(/\r\n?/g, '\n').split('\n');
+		const standard: Record<string, any> = { tasks: [] };
+		const tags: Record<string, any> = {};
+		let isLegacy = false;
+
+		let container: Record<string, any> = standard;
+		let task: Record<string, any> | undefined;
+		let fieldTarget: Record<string, any> | undefined = standard;
+		let section: OpenSection | undefined;
+
+		const closeSection = () => {
+			if (section) {
+				section.target[section.key] = this.readSectionText(section.lines);
+				section = undefined;
+			}
+		};
+
+		for (const line of lines) {
+			if (section) {
+				if (FENCE_LINE.test(line)) {
+					section.inFence = !section.inFence;
+				} else if (!section.inFence && this.isStructuralHeading(line)) {
+					closeSection();
+				}
+				if (section) {
+					section.lines.push(line);
+					continue;
+				}
+			}
+
+			const tagHeading = line.match(TAG_HEADING);
+			if (tagHeading) {
+				isLegacy = true;
+				container = { tasks: [] };
+				tags[tagHeading[1]] = container;
+				fieldTarget = container;
+				task = undefined;
+				continue;
+			}
+
+			const taskHeading = line.match(TASK_HEADING);
+			if (taskHeading) {
+				task = {};
+				if (taskHeading[1] !== undefined) {
+					task.id = taskHeading[1];
+				}
+				if (taskHeading[2] !== undefined) {
+					task.title = taskHeading[2];
+				}
+				container.tasks.push(task);
+				fieldTarget = task;
+				continue;
+			}
+
+			const subtaskHeading = task && line.match(SUBTASK_HEADING);
+			if (task && subtaskHeading) {
+				const subtask: Record<string, any> = {};
+				if (subtaskHeading[2] !== undefined) {
+					subtask.id = Number(subtaskHeading[2]);
+				}
+				if (subtaskHeading[3] !== undefined) {
+					subtask.title = subtaskHeading[3];
+				}
+				task.subtasks ??= [];
+				task.subtasks.push(subtask);
+				fieldTarget = subtask;
+				continue;
+			}
+
+			const taskSection = task && line.match(TASK_SECTION_HEADING);
+			const subtaskSection = task && line.match(SUBTASK_SECTION_HEADING);
+			if (task && (taskSection || subtaskSection)) {
+				const target = taskSection ? task : task.subtasks?.at(-1);
+				const name = (taskSection ?? subtaskSection)![1];
+				if (target) {
+					section = {
+						target,
+						key: SECTION_KEYS[name],
+						lines: [],
+						inFence: false
+					};
+				}
+				fieldTarget = undefined;
+				continue;
+			}
+
+			const field = line.match(FIELD_LINE);
+			if (field && fieldTarget) {
+				fieldTarget[field[1]] = this.decodeValue(field[2] ?? '');
+			}
+		}
+		closeSection();
+
+		return isLegacy ? tags : standard;
+	}
+
+	/**
+	 * Write the fields and tasks of a tag (or of the standard format)
+	 */
+	private writeContainer(
+		lines: string[],
+		container: Record<string, any>
+	): void {
+		for (const [key, value] of Object.entries(container)) {
+			if (key !== 'tasks' || !Array.isArray(value)) {
+				this.writeField(lines, key, value);
+			}
+		}
+		if (lines[lines.length - 1] !== '') {
+			lines.push('');
+		}
+
+		for (const task of Array.isArray(container.tasks) ? container.tasks : []) {
+			this.writeTask(lines, task);
+		}
+	}
+
+	private writeTask(lines: string[], task: Record<string, any>): void {
+		const id = this.isPlainId(task.id) ? String(task.id) : undefined;
+		const title = this.isPlainLine(task.title) ? task.title : undefined;
+		lines.push(
+			`## Task${id !== undefined ? ` ${id}` : ''}${title !== undefined ? `: ${title}` : ''}`,
+			''
+		);
+
+		// Subtask headings stand for a non-empty array; an empty one is written
+		// as a field line so it can be told apart from no subtasks at all
+		const subtasks = Array.isArray(task.subtasks) ? task.subtasks : undefined;
+		this.writeItem(lines, task, '###', {
+			id: typeof task.id !== 'string' || id === undefined,
+			title: title === undefined,
+			subtasks: subtasks === undefined || subtasks.length === 0
+		});
+
+		for (const subtask of subtasks ?? []) {
+			const subtaskId =
+				id !== undefined && Number.isInteger(subtask.id) && subtask.id >= 0
+					? `${id}.${subtask.id}`
+					: undefined;
+			const subtaskTitle = this.isPlainLine(subtask.title)
+				? subtask.title
+				: undefined;
+			lines.push(
+				`### Subtask${subtaskId !== undefined ? ` ${subtaskId}` : ''}${subtaskTitle !== undefined ? `: ${subtaskTitle}` : ''}`,
+				''
+			);
+			this.writeItem(lines, subtask, '####', {
+				id: subtaskId === undefined,
+				title: subtaskTitle === undefined
+			});
+		}
+	}
+
+	/**
+	 * Write the field lines and text sections of a task or subtask
+	 * @param includeSpecial - Whether keys shown in the heading still need a field line
+	 */
+	private writeItem(
+		lines: string[],
+		item: Record<string, any>,
+		sectionLevel: string,
+		includeSpecial: Record<string, boolean>
+	): void {
+		const sections: Array<[string, string]> = [];
+
+		for (const [key, value] of Object.entries(item)) {
+			if (key in includeSpecial) {
+				if (includeSpecial[key]) {
+					this.writeField(lines, key, value);
+				}
+			} else if (key in TEXT_SECTIONS && this.isSectionText(value)) {
+				sections.push([TEXT_SECTIONS[key], value]);
+			} else {
+				this.writeField(lines, key, value);
+			}
+		}
+		if (lines[lines.length - 1] !== '') {
+			lines.push('');
+		}
+
+		for (const [name, text] of sections) {
+			lines.push(
+				`${sectionLevel} ${name}`,
+				'',
+				...this.escapeSectionText(text),
+				''
+			);
+		}
+	}
+
+	private writeField(lines: string[], key: string, value: unknown): void {
+		if (value !== undefined) {
+			lines.push(`- **${key}:** ${this.encodeValue(value)}`);
+		}
+	}
+
+	/**
+	 * Strings that read back unchanged are written raw, everything else as JSON
+	 */
+	private encodeValue(value: unknown): string {
+		if (typeof value === 'string' && this.isPlainLine(value)) {
+			try {
+				JSON.parse(value);
+			} catch {
+				return value;
+			}
+		}
+		return JSON.stringify(value);
+	}
+
+	private decodeValue(raw: string): unknown {
+		const value = raw.trim();
+		try {
+			return JSON.parse(value);
+		} catch {
+			return value;
+		}
+	}
+
+	/**
+	 * IDs that can be written in a heading (numeric IDs also get a field line)
+	 */
+	private isPlainId(value: unknown): boolean {
+		return (
+			(typeof value === 'string' || typeof value === 'number') &&
+			/^[^\s:]+$/.test(String(value))
+		);
+	}
+
+	private isPlainLine(value: unknown): value is string {
+		return (
+			typeof value === 'string' &&
+			value.length > 0 &&
+			value === value.trim() &&
+			!/[\r\n]/.test(value)
+		);
+	}
+
+	/**
+	 * Text that survives being written as a section: no surrounding whitespace
+	 * and balanced code fences
+	 */
+	private isSectionText(value: unknown): value is string {
+		if (
+			typeof value !== 'string' ||
+			value.length === 0 ||
+			value !== value.trim() ||
+			value.includes('\r')
+		) {
+			return false;
+		}
+		const fences = value.split('\n').filter((line) => FENCE_LINE.test(line));
+		return fences.length % 2 === 0;
+	}
+
+	/**
+	 * Escape lines that could be mistaken for headings (outside code fences)
+	 */
+	private escapeSectionText(text: string): string[] {
+		let inFence = false;
+		return text.split('\n').map((line) => {
+			if (FENCE_LINE.test(line)) {
+				inFence = !inFence;
+				return line;
+			}
+			return !inFence && /^\\*#/.test(line) ? `\\${line}` : line;
+		});
+	}
+
+	private readSectionText(lines: string[]): string {
+		let inFence = false;
+		const text = lines.map((line) => {
+			if (FENCE_LINE.test(line)) {
+				inFence = !inFence;
+				return line;
+			}
+			return !inFence && /^\\+#/.test(line) ? line.slice(1) : line;
+		});
+		return text.join('\n').trim();
+	}
+
+	private isStructuralHeading(line: string): boolean {
+		return (
+			TAG_HEADING.test(line) ||
+			TASK_HEADING.test(line) ||
+			SUBTASK_HEADING.test(line) ||
+			TASK_SECTION_HEADING.test(line) ||
+			SUBTASK_SECTION_HEADING.test(line)
+		);
+	}
+}
@@ -3,19 +3,34 @@
  */
 
 import path from 'node:path';
+import type { TaskFileFormat } from '../../../../common/types/index.js';
 
 /**
- * Handles path resolution for the single tasks.json file storage
+ * File name of the tasks file for each format
+ */
+export const TASK_FILE_NAMES: Record<TaskFileFormat, string> = {
+	json: 'tasks.json',
+	markdown: 'tasks.md'
+};
+
+/**
+ * Handles path resolution for the single tasks file storage
  */
 export class PathResolver {
 	private readonly basePath: string;
 	private readonly tasksDir: string;
+	private readonly backupsDir: string;
 	private readonly tasksFilePath: string;
 
-	constructor(projectPath: string) {
+	constructor(
+		projectPath: string,
+		format: TaskFileFormat = 'json',
+		compressed = false
+	) {
 		this.basePath = path.join(projectPath, '.taskmaster');
 		this.tasksDir = path.join(this.basePath, 'tasks');
-		this.tasksFilePath = path.join(this.tasksDir, 'tasks.json');
+		this.backupsDir = path.join(this.basePath, 'backups');
+		this.tasksFilePath = this.getTasksPathForFormat(format, compressed);
 	}
 
 	/**
@@ -33,10 +48,26 @@ export class PathResolver {
 	}
 
 	/**
-	 * Get the path to the single tasks.json file
+	 * Get the directory holding tasks file backups
+	 */
+	getBackupsDir(): string {
+		return this.backupsDir;
+	}
+
+	/**
+	 * Get the path to the single tasks file
 	 * All tags are stored in this one file
 	 */
 	getTasksPath(): string {
 		return this.tasksFilePath;
 	}
+
+	/**
+	 * Get the path the tasks file has in a given format
+	 * @param compressed - Whether the file is gzip-compressed (`.gz` suffix)
+	 */
+	getTasksPathForFormat(format: TaskFileFormat, compressed = false): string {
+		const filePath = path.join(this.tasksDir, TASK_FILE_NAMES[format]);
+		return compressed ? `${filePath}.gz` : filePath;
+	}
 }
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Tests for Markdown file storage and TaskFileConverter
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ERROR_CODES } from '../../../../common/errors/task-master-error.js';
+import type { Task } from '../../../../common/types/index.js';
+import { FileStorage } from './file-storage.js';
+import { TaskFileConverter } from './task-file-converter.js';
+
+const createTask = (id: string, dependencies: string[] = []): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: `Description ${id}`,
+	status: 'pending',
+	priority: 'medium',
+	dependencies,
+	details: 'Line one\nLine two',
+	testStrategy: '',
+	subtasks: [
+		{
+			id: 1,
+			parentId: id,
+			title: `Subtask ${id}.1`,
+			description: '',
+			status: 'done',
+			priority: 'low',
+			dependencies: [],
+			details: '',
+			testStrategy: ''
+		}
+	]
+});
+
+describe('TaskFileConverter', () => {
+	let projectRoot: string;
+	let tasksDir: string;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-task-file-'));
+		tasksDir = path.join(projectRoot, '.taskmaster', 'tasks');
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should store tasks in tasks.md with the markdown format', async () => {
+		const storage = new FileStorage(projectRoot, { format: 'markdown' });
+		const tasks = [createTask('1'), createTask('2', ['1'])];
+
+		await storage.saveTasks(tasks, 'master');
+		await storage.saveTasks([createTask('1')], 'feature');
+
+		const markdown = await fs.readFile(
+			path.join(tasksDir, 'tasks.md'),
+			'utf-8'
+		);
+		expect(markdown).toContain('## Task 2: Task 2');
+		await expect(
+			fs.access(path.join(tasksDir, 'tasks.json'))
+		).rejects.toThrow();
+
+		await expect(storage.loadTasks('master')).resolves.toEqual(tasks);
+		await expect(storage.getAllTags()).resolves.toEqual(['master', 'feature']);
+	});
+
+	it('should convert JSON to Markdown and back without changes', async () => {
+		const jsonStorage = new FileStorage(projectRoot);
+		await jsonStorage.saveTasks([createTask('1'), createTask('2', ['1'])]);
+		await jsonStorage.saveTasks([createTask('5')], 'feature');
+		const original = JSON.parse(
+			await fs.readFile(path.join(tasksDir, 'tasks.json'), 'utf-8')
+		);
+
+		const converter = new TaskFileConverter(projectRoot);
+		await expect(converter.convert({ to: 'markdown' })).resolves.toEqual(
+			expect.objectContaining({
+				from: 'json',
+				to: 'markdown',
+				tagCount: 2,
+				taskCount: 3
+			})
+		);
+
+		await fs.rm(path.join(tasksDir, 'tasks.json'));
+		await converter.convert({ to: 'json' });
+
+		const roundTripped = JSON.parse(
+			await fs.readFile(path.join(tasksDir, 'tasks.json'), 'utf-8')
+		);
+		expect(roundTripped).toEqual(original);
+	});
+
+	it('should not overwrite an existing target without force', async () => {
+		await new FileStorage(projectRoot).saveTasks([createTask('1')]);
+		await fs.writeFile(path.join(tasksDir, 'tasks.md'), 'keep me');
+		const converter = new TaskFileConverter(projectRoot);
+
+		await expect(converter.convert({ to: 'markdown' })).rejects.toMatchObject({
+			code: ERROR_CODES.VALIDATION_ERROR
+		});
+		await converter.convert({ to: 'markdown', force: true });
+		await expect(
+			fs.readFile(path.join(tasksDir, 'tasks.md'), 'utf-8')
+		).resolves.toContain('## Task 1: Task 1');
+	});
+
+	it('should fail when there is nothing to convert', async () => {
+		await expect(
+			new TaskFileConverter(projectRoot).convert({ to: 'json' })
+		).rejects.toMatchObject({ code: ERROR_CODES.FILE_NOT_FOUND });
+	});
+});
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Conversion of the tasks file between JSON and Markdown
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../../common/errors/task-master-error.js';
+import type { TaskFileFormat } from '../../../../common/types/index.js';
+import { FileOperations } from './file-operations.js';
+import { FormatHandler } from './format-handler.js';
+import { MarkdownTaskFormat } from './markdown-format.js';
+import { PathResolver } from './path-resolver.js';
+
+/**
+ * Options for converting the tasks file
+ */
+export interface ConvertTasksFileOptions {
+	/** Format to convert to; the other format is read */
+	to: TaskFileFormat;
+	/** Overwrite the target file if it exists */
+	force?: boolean;
+}
+
+/**
+ * Result of converting the tasks file
+ */
+export interface ConvertTasksFileResult {
+	from: TaskFileFormat;
+	to: TaskFileFormat;
+	sourcePath: string;
+	targetPath: string;
+	tagCount: number;
+	taskCount: number;
+}
+
+/**
+ * Converts .taskmaster/tasks/tasks.json to tasks.md and back.
+ * The source file is left in place.
+ */
+export class TaskFileConverter {
+	private readonly pathResolver: PathResolver;
+	private readonly fileOps = new FileOperations();
+	private readonly formatHandler = new FormatHandler();
+	private readonly markdownFormat = new MarkdownTaskFormat();
+
+	constructor(projectPath: string) {
+		this.pathResolver = new PathResolver(projectPath);
+	}
+
+	async convert(
+		options: ConvertTasksFileOptions
+	): Promise<ConvertTasksFileResult> {
+		const to = options.to;
+		const from: TaskFileFormat = to === 'markdown' ? 'json' : 'markdown';
+		const sourcePath = this.pathResolver.getTasksPathForFormat(from);
+		const targetPath = this.pathResolver.getTasksPathForFormat(to);
+
+		if (!(await this.fileOps.exists(sourcePath))) {
+			throw new TaskMasterError(
+				`No tasks file to convert at ${sourcePath}`,
+				ERROR_CODES.FILE_NOT_FOUND,
+				{ resource: sourcePath }
+			);
+		}
+		if (!options.force && (await this.fileOps.exists(targetPath))) {
+			throw new TaskMasterError(
+				`${targetPath} already exists. Use force to overwrite it.`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ resource: targetPath }
+			);
+		}
+
+		const data =
+			from === 'markdown'
+				? this.markdownFormat.parse(await this.fileOps.readText(sourcePath))
+				: await this.fileOps.readJson(sourcePath);
+
+		if (to === 'markdown') {
+			await this.fileOps.writeText(
+				targetPath,
+				this.markdownFormat.serialize(data)
+			);
+		} else {
+			await this.fileOps.writeJson(targetPath, data);
+		}
+
+		const tags = this.formatHandler.extractTags(data);
+		return {
+			from,
+			to,
+			sourcePath,
+			targetPath,
+			tagCount: tags.length,
+			taskCount: tags.reduce(
+				(count, tag) =>
+					count + this.formatHandler.extractTasks(data, tag).length,
+				0
+			)
+		};
+	}
+}
@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Exports for SQLite storage components
+ */
+
+export {
+	openTasksDatabase,
+	runInTransaction,
+	SQLITE_SCHEMA_VERSION
+} from './sqlite-database.js';
+export {
+	StorageMigrator,
+	type LocalStorageType,
+	type MigrateStorageOptions,
+	type MigrateStorageResult
+} from './storage-migrator.js';
+export {
+	SqliteStorage,
+	type SqliteStorageOptions,
+	type TaggedTasksData
+} from './sqlite-storage.js';
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Opening and migrating the SQLite tasks database
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../../common/errors/task-master-error.js';
+
+/**
+ * Current schema version, stored in `PRAGMA user_version`
+ */
+export const SQLITE_SCHEMA_VERSION = 1;
+
+/**
+ * Schema migrations, indexed by the version they upgrade from
+ */
+const MIGRATIONS: string[] = [
+	`
+	CREATE TABLE tags (
+		name TEXT PRIMARY KEY,
+		description TEXT,
+		created TEXT NOT NULL,
+		updated_at TEXT NOT NULL,
+		version INTEGER NOT NULL DEFAULT 0,
+		metadata TEXT
+	);
+
+	CREATE TABLE tasks (
+		tag TEXT NOT NULL REFERENCES tags(name) ON UPDATE CASCADE ON DELETE CASCADE,
+		id TEXT NOT NULL,
+		position INTEGER NOT NULL,
+		status TEXT NOT NULL,
+		data TEXT NOT NULL,
+		PRIMARY KEY (tag, id)
+	);
+
+	CREATE INDEX tasks_tag_position ON tasks (tag, position);
+	CREATE INDEX tasks_tag_status ON tasks (tag, status);
+	`
+];
+
+/**
+ * Open the tasks database, creating or upgrading its schema as needed.
+ * Uses the built-in `node:sqlite` module (Node.js 22.5 or later).
+ * @throws TaskMasterError NOT_IMPLEMENTED when `node:sqlite` is unavailable
+ */
+export async function openTasksDatabase(
+	dbPath: string,
+	options: { timeout?: number } = {}
+): Promise<DatabaseSync> {
+	let sqlite: typeof import('node:sqlite');
+	try {
+		sqlite = await import('node:sqlite');
+	} catch (error) {
+		throw new TaskMasterError(
+			`SQLite storage requires Node.js 22.5 or later (running ${process.version})`,
+			ERROR_CODES.NOT_IMPLEMENTED,
+			{ storageType: 'sqlite' },
+			error as Error
+		);
+	}
+
+	await fs.mkdir(path.dirname(dbPath), { recursive: true });
+
+	try {
+		const db = new sqlite.DatabaseSync(dbPath, {
+			enableForeignKeyConstraints: true,
+			timeout: options.timeout ?? 5000
+		});
+		db.exec('PRAGMA journal_mode = WAL');
+		migrateSchema(db);
+		return db;
+	} catch (error) {
+		throw new TaskMasterError(
+			`Failed to open SQLite database: ${(error as Error).message}`,
+			ERROR_CODES.DATABASE_ERROR,
+			{ resource: dbPath },
+			error as Error
+		);
+	}
+}
+
+/**
+ * Run `fn` in a write transaction, rolling back if it throws.
+ * `BEGIN IMMEDIATE` takes the write lock up front so concurrent writers
+ * from other processes wait instead of failing halfway.
+ */
+export function runInTransaction<T>(db: DatabaseSync, fn: () => T): T {
+	db.exec('BEGIN IMMEDIATE');
+	try {
+		const result = fn();
+		db.exec('COMMIT');
+		return result;
+	} catch (error) {
+		db.exec('ROLLBACK');
+		throw error;
+	}
+}
+
+function migrateSchema(db: DatabaseSync): void {
+	const row = db.prepare('PRAGMA user_version').get();
+	const current = Number(row?.user_version ?? 0);
+
+	if (current > SQLITE_SCHEMA_VERSION) {
+		throw new Error(
+			`Database schema version ${current} is newer than supported version ${SQLITE_SCHEMA_VERSION}`
+		);
+	}
+
+	for (let version = current; version < SQLITE_SCHEMA_VERSION; version++) {
+		runInTransaction(db, () => {
+			db.exec(MIGRATIONS[version]);
+			db.exec(`PRAGMA user_version = ${version + 1}`);
+		});
+	}
+}
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Tests for SqliteStorage and StorageMigrator
+ * Requires the built-in node:sqlite module (Node.js 22.5+); skipped otherwise
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ERROR_CODES } from '../../../../common/errors/task-master-error.js';
+import type { Task, TaskStatus } from '../../../../common/types/index.js';
+import { SqliteStorage } from './sqlite-storage.js';
+import { StorageMigrator } from './storage-migrator.js';
+
+const hasSqlite = await import('node:sqlite').then(
+	() => true,
+	() => false
+);
+
+const createTask = (
+	id: string,
+	status: TaskStatus = 'pending',
+	subtaskStatuses: TaskStatus[] = []
+): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status,
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: subtaskStatuses.map((subStatus, index) => ({
+		id: index + 1,
+		parentId: id,
+		title: `Subtask ${id}.${index + 1}`,
+		description: '',
+		status: subStatus,
+		priority: 'medium',
+		dependencies: [],
+		details: '',
+		testStrategy: ''
+	}))
+});
+
+describe.skipIf(!hasSqlite)('SqliteStorage', () => {
+	let projectRoot: string;
+	let storage: SqliteStorage;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-sqlite-'));
+		storage = new SqliteStorage(projectRoot);
+		await storage.saveTasks(
+			[
+				createTask('1', 'done'),
+				createTask('2', 'pending', ['pending', 'pending']),
+				createTask('3')
+			],
+			'master'
+		);
+	});
+
+	afterEach(async () => {
+		await storage.close();
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should load tasks in order and filter by status', async () => {
+		await storage.appendTasks([createTask('4', 'done')], 'master');
+
+		const all = await storage.loadTasks('master');
+		const done = await storage.loadTasks('master', { status: 'done' });
+
+		expect(all.map((t) => t.id)).toEqual(['1', '2', '3', '4']);
+		expect(done.map((t) => t.id)).toEqual(['1', '4']);
+		await expect(storage.loadTask('2.1', 'master')).resolves.toMatchObject({
+			id: '2.1',
+			isSubtask: true,
+			parentTask: { id: '2' }
+		});
+		await expect(storage.loadTask('9', 'master')).resolves.toBeNull();
+	});
+
+	it('should refuse to append a task whose ID is taken', async () => {
+		await expect(
+			storage.appendTasks([createTask('4'), createTask('2')], 'master')
+		).rejects.toMatchObject({
+			code: ERROR_CODES.VALIDATION_ERROR,
+			message: 'Task ID already taken in tag "master": 2'
+		});
+		await expect(
+			storage.appendTasks([createTask('5'), createTask('5')], 'master')
+		).rejects.toThrow('Task ID already taken in tag "master": 5');
+
+		const tasks = await storage.loadTasks('master');
+		expect(tasks.map((t) => t.id)).toEqual(['1', '2', '3']);
+	});
+
+	it('should update subtask status and adjust the parent status', async () => {
+		const result = await storage.updateTaskStatus('2.1', 'done', 'master');
+
+		expect(result).toMatchObject({ oldStatus: 'pending', newStatus: 'done' });
+		await expect(storage.loadTask('2', 'master')).resolves.toMatchObject({
+			status: 'in-progress'
+		});
+
+		await storage.updateTaskStatus('2.2', 'done', 'master');
+		await expect(storage.loadTask('2', 'master')).resolves.toMatchObject({
+			status: 'done'
+		});
+		await expect(
+			storage.updateTaskStatus('7', 'done', 'master')
+		).rejects.toThrow('Task 7 not found');
+	});
+
+	it('should create, copy, rename and delete tags', async () => {
+		await storage.createTag('feature', {
+			copyFrom: 'master',
+			description: 'Feature work'
+		});
+		await storage.renameTag('feature', 'feature-x');
+		await storage.deleteTask('3', 'feature-x');
+
+		await expect(storage.getAllTags()).resolves.toEqual([
+			'master',
+			'feature-x'
+		]);
+		await expect(storage.loadTasks('feature-x')).resolves.toHaveLength(2);
+		await expect(storage.loadMetadata('feature-x')).resolves.toMatchObject({
+			description: 'Feature work',
+			taskCount: 2,
+			completedCount: 1
+		});
+		await expect(storage.createTag('master')).rejects.toMatchObject({
+			code: ERROR_CODES.VALIDATION_ERROR
+		});
+
+		await storage.deleteTag('feature-x');
+		await expect(storage.getAllTags()).resolves.toEqual(['master']);
+	});
+
+	it('should report tag statistics like file storage', async () => {
+		const { tags, currentTag, totalTags } = await storage.getTagsWithStats();
+
+		expect(currentTag).toBe('master');
+		expect(totalTags).toBe(1);
+		expect(tags[0]).toMatchObject({
+			name: 'master',
+			isCurrent: true,
+			taskCount: 3,
+			completedTasks: 1,
+			statusBreakdown: { done: 1, pending: 2 },
+			subtaskCounts: { totalSubtasks: 2, subtasksByStatus: { pending: 2 } }
+		});
+		await expect(storage.getStats()).resolves.toMatchObject({
+			totalTasks: 3,
+			totalTags: 1,
+			tagStats: [expect.objectContaining({ tag: 'master', taskCount: 3 })]
+		});
+	});
+
+	it('should reject saving tasks changed by another process since loading', async () => {
+		const tasks = await storage.loadTasks('master');
+		const other = new SqliteStorage(projectRoot);
+		await other.updateTask('3', { title: 'Changed elsewhere' }, 'master');
+		await other.close();
+
+		await expect(storage.saveTasks(tasks, 'master')).rejects.toMatchObject({
+			code: ERROR_CODES.CONCURRENT_MODIFICATION
+		});
+		await expect(storage.loadTask('3', 'master')).resolves.toMatchObject({
+			title: 'Changed elsewhere'
+		});
+	});
+});
+
+describe.skipIf(!hasSqlite)('StorageMigrator', () => {
+	let projectRoot: string;
+	let tasksPath: string;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-migrate-'));
+		tasksPath = path.join(projectRoot, '.taskmaster', 'tasks', 'tasks.json');
+		await fs.mkdir(path.dirname(tasksPath), { recursive: true });
+		await fs.writeFile(
+			tasksPath,
+			JSON.stringify({
+				master: { tasks: [createTask('1'), createTask('2', 'done')] },
+				feature: { tasks: [createTask('1', 'in-progress', ['done'])] }
+			})
+		);
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should migrate every tag to SQLite and back', async () => {
+		const migrator = new StorageMigrator(projectRoot);
+
+		await expect(migrator.migrate({ to: 'sqlite' })).resolves.toMatchObject({
+			from: 'file',
+			to: 'sqlite',
+			tagCount: 2,
+			taskCount: 3
+		});
+
+		const storage = new SqliteStorage(projectRoot);
+		await expect(storage.getAllTags()).resolves.toEqual(['master', 'feature']);
+		await expect(storage.loadTask('1.1', 'feature')).resolves.toMatchObject({
+			status: 'done'
+		});
+		await storage.close();
+
+		await expect(migrator.migrate({ to: 'file' })).rejects.toMatchObject({
+			code: ERROR_CODES.VALIDATION_ERROR
+		});
+		await migrator.migrate({ to: 'file', force: true });
+
+		const data = JSON.parse(await fs.readFile(tasksPath, 'utf-8'));
+		expect(Object.keys(data)).toEqual(['master', 'feature']);
+		expect(data.master.tasks.map((t: Task) => t.id)).toEqual(['1', '2']);
+	});
+});
@@ -0,0 +1,967 @@
+/**
+ * @fileoverview SQLite-backed storage implementation for Task Master
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../../common/errors/task-master-error.js';
+import type {
+	IStorage,
+	LoadTasksOptions,
+	StorageStats,
+	TagsWithStatsResult,
+	UpdateStatusResult
+} from '../../../../common/interfaces/storage.interface.js';
+import type {
+	Task,
+	TaskMetadata,
+	TaskStatus
+} from '../../../../common/types/index.js';
+import { ComplexityReportManager } from '../../../reports/managers/complexity-report-manager.js';
+import { openTasksDatabase, runInTransaction } from './sqlite-database.js';
+
+/**
+ * Options for SqliteStorage
+ */
+export interface SqliteStorageOptions {
+	/** Database file (default: .taskmaster/tasks/tasks.db) */
+	databasePath?: string;
+	/** Milliseconds to wait for another process's write lock (default: 5000) */
+	timeout?: number;
+}
+
+/**
+ * Raw tag-keyed task data, the shape of a multi-tag tasks.json
+ */
+export type TaggedTasksData = Record<
+	string,
+	{ tasks: Task[]; metadata?: Partial<TaskMetadata> }
+>;
+
+interface TagRow {
+	name: string;
+	description: string | null;
+	created: string;
+	updated_at: string;
+	version: number;
+	metadata: string | null;
+}
+
+/**
+ * SQLite-backed storage: one row per task, indexed by tag, ID and status.
+ * Multi-task writes run in a single transaction, so other processes see
+ * either all of a save or none of it.
+ */
+export class SqliteStorage implements IStorage {
+	private readonly projectPath: string;
+	private readonly databasePath: string;
+	private readonly timeout?: number;
+	private readonly complexityManager: ComplexityReportManager;
+	private db: Promise<DatabaseSync> | null = null;
+	/** Version of each tag as last loaded or saved by this instance */
+	private tagVersions = new Map<string, number>();
+
+	constructor(projectPath: string, options: SqliteStorageOptions = {}) {
+		this.projectPath = projectPath;
+		this.databasePath =
+			options.databasePath ?? SqliteStorage.getDefaultPath(projectPath);
+		this.timeout = options.timeout;
+		this.complexityManager = new ComplexityReportManager(projectPath);
+	}
+
+	/**
+	 * Default database location for a project
+	 */
+	static getDefaultPath(projectPath: string): string {
+		return path.join(projectPath, '.taskmaster', 'tasks', 'tasks.db');
+	}
+
+	/**
+	 * Path of the database file
+	 */
+	getDatabasePath(): string {
+		return this.databasePath;
+	}
+
+	/**
+	 * Initialize storage by opening (and if needed creating) the database
+	 */
+	async initialize(): Promise<void> {
+		await this.getDb();
+	}
+
+	/**
+	 * Close the database connection
+	 */
+	async close(): Promise<void> {
+		if (!this.db) {
+			return;
+		}
+		const db = await this.db.catch(() => null);
+		this.db = null;
+		db?.close();
+	}
+
+	/**
+	 * Get the storage type
+	 */
+	getStorageType(): 'sqlite' {
+		return 'sqlite';
+	}
+
+	/**
+	 * Get the current brief name (not applicable for SQLite storage)
+	 * @returns null (SQLite storage doesn't use briefs)
+	 */
+	getCurrentBriefName(): null {
+		return null;
+	}
+
+	/**
+	 * Get statistics about the storage
+	 */
+	async getStats(): Promise<StorageStats> {
+		const db = await this.getDb();
+		const rows = db
+			.prepare(
+				`SELECT tags.name AS tag, tags.updated_at AS lastModified,
+					COUNT(tasks.id) AS taskCount
+				FROM tags LEFT JOIN tasks ON tasks.tag = tags.name
+				GROUP BY tags.name
+				ORDER BY tags.rowid`
+			)
+			.all();
+
+		const tagStats = rows.map((row) => ({
+			tag: String(row.tag),
+			taskCount: Number(row.taskCount),
+			lastModified: String(row.lastModified)
+		}));
+		const fileStats = await fs.stat(this.databasePath).catch(() => null);
+
+		return {
+			totalTasks: tagStats.reduce((sum, tag) => sum + tag.taskCount, 0),
+			totalTags: tagStats.length,
+			lastModified: (fileStats?.mtime ?? new Date()).toISOString(),
+			storageSize: fileStats?.size ?? 0,
+			tagStats
+		};
+	}
+
+	/**
+	 * Load tasks of a tag in order, using the status index when filtering
+	 * Enriches tasks with complexity data from the complexity report
+	 */
+	async loadTasks(tag?: string, options?: LoadTasksOptions): Promise<Task[]> {
+		const db = await this.getDb();
+		const resolvedTag = tag || 'master';
+
+		// Read the version first: a write in between makes it look older,
+		// which at worst rejects a save instead of silently losing data
+		const version = this.getTagVersion(db, resolvedTag);
+		const rows = options?.status
+			? db
+					.prepare(
+						'SELECT data FROM tasks WHERE tag = ? AND status = ? ORDER BY position'
+					)
+					.all(resolvedTag, options.status)
+			: db
+					.prepare('SELECT data FROM tasks WHERE tag = ? ORDER BY position')
+					.all(resolvedTag);
+
+		if (!options?.readOnly) {
+			this.tagVersions.set(resolvedTag, version);
+		}
+
+		let tasks = rows.map((row) => this.parseTask(row.data));
+		if (options?.excludeSubtasks) {
+			tasks = tasks.map((task) => ({ ...task, subtasks: [] }));
+		}
+
+		return this.enrichTasksWithComplexity(tasks, resolvedTag);
+	}
+
+	/**
+	 * Load a single task by ID with an indexed lookup
+	 * Handles both regular tasks and subtasks (with dotted notation like "1.2")
+	 */
+	async loadTask(taskId: string, tag?: string): Promise<Task | null> {
+		const db = await this.getDb();
+		const resolvedTag = tag || 'master';
+		const [parentId, subtaskId] = String(taskId).split('.');
+
+		const row = db
+			.prepare('SELECT data FROM tasks WHERE tag = ? AND id = ?')
+			.get(resolvedTag, parentId);
+		if (!row) {
+			return null;
+		}
+
+		const [task] = await this.enrichTasksWithComplexity(
+			[this.parseTask(row.data)],
+			resolvedTag
+		);
+		if (subtaskId === undefined) {
+			return task;
+		}
+
+		const subtask = task.subtasks?.find((st) => String(st.id) === subtaskId);
+		if (!subtask) {
+			return null;
+		}
+
+		const toFullSubId = (maybeDotId: string | number): string => {
+			const depId = String(maybeDotId);
+			return depId.includes('.') ? depId : `${task.id}.${depId}`;
+		};
+
+		// Same Task-like shape for subtasks as FileStorage.loadTask
+		return {
+			...subtask,
+			id: taskId,
+			title: subtask.title || `Subtask ${subtaskId}`,
+			description: subtask.description || '',
+			status: subtask.status || 'pending',
+			priority: subtask.priority || task.priority || 'medium',
+			dependencies: subtask.dependencies?.map((dep) => toFullSubId(dep)) ?? [],
+			details: subtask.details || '',
+			testStrategy: subtask.testStrategy || '',
+			subtasks: [],
+			tags: task.tags || [],
+			assignee: subtask.assignee || task.assignee,
+			complexity: subtask.complexity || task.complexity,
+			createdAt: subtask.createdAt || task.createdAt,
+			updatedAt: subtask.updatedAt || task.updatedAt,
+			parentTask: {
+				id: task.id,
+				title: task.title,
+				status: task.status
+			},
+			isSubtask: true
+		} as Task;
+	}
+
+	/**
+	 * Replace all tasks of a tag in one transaction
+	 * @throws TaskMasterError CONCURRENT_MODIFICATION when another process
+	 * changed the tag since this instance loaded it
+	 */
+	async saveTasks(tasks: Task[], tag?: string): Promise<void> {
+		const db = await this.getDb();
+		const resolvedTag = tag || 'master';
+
+		runInTransaction(db, () => {
+			this.assertTagUnchanged(db, resolvedTag);
+			this.ensureTag(db, resolvedTag);
+
+			db.prepare('DELETE FROM tasks WHERE tag = ?').run(resolvedTag);
+			this.insertTasks(db, resolvedTag, tasks, 0);
+			this.touchTag(db, resolvedTag);
+		});
+	}
+
+	/**
+	 * Append tasks after the existing tasks of a tag in one transaction
+	 * @throws TaskMasterError VALIDATION_ERROR when a task ID is already taken
+	 */
+	async appendTasks(tasks: Task[], tag?: string): Promise<void> {
+		const db = await this.getDb();
+		const resolvedTag = tag || 'master';
+
+		runInTransaction(db, () => {
+			this.ensureTag(db, resolvedTag);
+			const row = db
+				.prepare('SELECT MAX(position) AS last FROM tasks WHERE tag = ?')
+				.get(resolvedTag);
+			const start = row?.last === null ? 0 : Number(row?.last) + 1;
+
+			this.insertTasks(db, resolvedTag, tasks, start);
+			this.touchTag(db, resolvedTag);
+		});
+	}
+
+	/**
+	 * Update a specific task in place
+	 */
+	async updateTask(
+		taskId: string,
+		updates: Partial<Task>,
+		tag?: string
+	): Promise<void> {
+		const db = await this.getDb();
+		const resolvedTag = tag || 'master';
+
+		runInTransaction(db, () => {
+			const task = this.readTask(db, resolvedTag, taskId);
+			this.writeTask(db, resolvedTag, {
+				...task,
+				...updates,
+				id: String(taskId)
+			});
+			this.touchTag(db, resolvedTag);
+		});
+	}
+
+	/**
+	 * Update task with AI-powered prompt
+	 * For SQLite storage, this should NOT be called - client must handle AI processing first
+	 */
+	async updateTaskWithPrompt(
+		_taskId: string,
+		_prompt: string,
+		_tag?: string,
+		_options?: { useResearch?: boolean; mode?: 'append' | 'update' | 'rewrite' }
+	): Promise<void> {
+		throw new Error(
+			'SQLite storage does not support updateTaskWithPrompt. ' +
+				'Client-side AI logic must process the prompt before calling updateTask().'
+		);
+	}
+
+	/**
+	 * Expand task into subtasks with AI-powered generation
+	 * For SQLite storage, this should NOT be called - client must handle AI processing first
+	 */
+	async expandTaskWithPrompt(
+		_taskId: string,
+		_tag?: string,
+		_options?: {
+			numSubtasks?: number;
+			useResearch?: boolean;
+			additionalContext?: string;
+			force?: boolean;
+		}
+	): Promise<void> {
+		throw new Error(
+			'SQLite storage does not support expandTaskWithPrompt. ' +
+				'Client-side AI logic must process the expansion before calling updateTask().'
+		);
+	}
+
+	/**
+	 * Update task or subtask status by ID, adjusting the parent status of
+	 * subtasks the same way FileStorage does
+	 */
+	async updateTaskStatus(
+		taskId: string,
+		newStatus: TaskStatus,
+		tag?: string
+	): Promise<UpdateStatusResult> {
+		const db = await this.getDb();
+		const resolvedTag = tag || 'master';
+		const parts = String(taskId).split('.');
+		if (parts.length > 2) {
+			throw new Error(
+				`Invalid subtask ID format: ${taskId}. Expected format: parentId.subtaskId`
+			);
+		}
+		const [parentId, subId] = parts;
+
+		return runInTransaction(db, () => {
+			const task = this.readTask(
+				db,
+				resolvedTag,
+				parentId,
+				subId === undefined ? 'Task' : 'Parent task'
+			);
+			const now = new Date().toISOString();
+
+			if (subId === undefined) {
+				const oldStatus = task.status;
+				if (oldStatus !== newStatus) {
+					this.writeTask(db, resolvedTag, {
+						...task,
+						status: newStatus,
+						updatedAt: now
+					});
+					this.touchTag(db, resolvedTag);
+				}
+				return { success: true, oldStatus, newStatus, taskId: String(taskId) };
+			}
+
+			if (!/^\d+$/.test(subId.trim())) {
+				throw new Error(
+					`Invalid subtask ID: ${subId}. Subtask ID must be a positive integer.`
+				);
+			}
+			const subtasks = task.subtasks ?? [];
+			const index = subtasks.findIndex((st) => String(st.id) === subId.trim());
+			if (index === -1) {
+				throw new Error(
+					`Subtask ${taskId} not found in parent task ${parentId}`
+				);
+			}
+
+			const oldStatus = subtasks[index].status || 'pending';
+			if (oldStatus === newStatus) {
+				return { success: true, oldStatus, newStatus, taskId };
+			}
+
+			subtasks[index] = {
+				...subtasks[index],
+				status: newStatus,
+				updatedAt: now
+			};
+			this.writeTask(db, resolvedTag, {
+				...task,
+				subtasks,
+				status: this.deriveParentStatus(task),
+				updatedAt: now
+			});
+			this.touchTag(db, resolvedTag);
+
+			return { success: true, oldStatus, newStatus, taskId };
+		});
+	}
+
+	/**
+	 * Delete a task
+	 */
+	async deleteTask(taskId: string, tag?: string): Promise<void> {
+		const db = await this.getDb();
+		const resolvedTag = tag || 'master';
+
+		runInTransaction(db, () => {
+			const result = db
+				.prepare('DELETE FROM tasks WHERE tag = ? AND id = ?')
+				.run(resolvedTag, String(taskId));
+			if (Number(result.changes) === 0) {
+				throw new Error(`Task ${taskId} not found`);
+			}
+			this.touchTag(db, resolvedTag);
+		});
+	}
+
+	/**
+	 * Check if the database exists, or whether it holds the given tag
+	 */
+	async exists(tag?: string): Promise<boolean> {
+		try {
+			await fs.access(this.databasePath);
+		} catch {
+			return false;
+		}
+		if (!tag) {
+			return true;
+		}
+		const db = await this.getDb();
+		return !!db.prepare('SELECT 1 FROM tags WHERE name = ?').get(tag);
+	}
+
+	/**
+	 * Get all tags in creation order
+	 */
+	async getAllTags(): Promise<string[]> {
+		const db = await this.getDb();
+		return db
+			.prepare('SELECT name FROM tags ORDER BY rowid')
+			.all()
+			.map((row) => String(row.name));
+	}
+
+	/**
+	 * Load metadata for a tag, with counts computed from its tasks
+	 */
+	async loadMetadata(tag?: string): Promise<TaskMetadata | null> {
+		const db = await this.getDb();
+		const resolvedTag = tag || 'master';
+		const row = this.getTagRow(db, resolvedTag);
+		if (!row) {
+			return null;
+		}
+
+		const counts = db
+			.prepare(
+				`SELECT COUNT(*) AS taskCount,
+					COALESCE(SUM(status = 'done'), 0) AS completedCount
+				FROM tasks WHERE tag = ?`
+			)
+			.get(resolvedTag);
+
+		return {
+			...(row.metadata ? JSON.parse(row.metadata) : {}),
+			version: '1.0.0',
+			lastModified: row.updated_at,
+			taskCount: Number(counts?.taskCount ?? 0),
+			completedCount: Number(counts?.completedCount ?? 0),
+			tags: [row.name],
+			created: row.created,
+			description: row.description ?? undefined
+		};
+	}
+
+	/**
+	 * Save metadata for a tag; counts and timestamps are always derived
+	 */
+	async saveMetadata(metadata: TaskMetadata, tag?: string): Promise<void> {
+		const db = await this.getDb();
+		const resolvedTag = tag || 'master';
+		const {
+			version: _version,
+			lastModified: _lastModified,
+			taskCount: _taskCount,
+			completedCount: _completedCount,
+			tags: _tags,
+			created: _created,
+			description,
+			...extra
+		} = metadata;
+
+		runInTransaction(db, () => {
+			this.ensureTag(db, resolvedTag);
+			db.prepare(
+				'UPDATE tags SET description = COALESCE(?, description), metadata = ? WHERE name = ?'
+			).run(description ?? null, JSON.stringify(extra), resolvedTag);
+			this.touchTag(db, resolvedTag);
+		});
+	}
+
+	/**
+	 * Create a new tag, optionally copying the tasks of another tag
+	 */
+	async createTag(
+		tagName: string,
+		options?: { copyFrom?: string; description?: string }
+	): Promise<void> {
+		const db = await this.getDb();
+
+		runInTransaction(db, () => {
+			if (this.getTagRow(db, tagName)) {
+				throw new TaskMasterError(
+					`Tag ${tagName} already exists`,
+					ERROR_CODES.VALIDATION_ERROR
+				);
+			}
+
+			this.ensureTag(
+				db,
+				tagName,
+				options?.description ||
+					`Tag created on ${new Date().toLocaleDateString()}`
+			);
+			if (options?.copyFrom) {
+				this.copyTaskRows(db, options.copyFrom, tagName);
+			}
+		});
+	}
+
+	/**
+	 * Delete a tag and its tasks
+	 */
+	async deleteTag(tag: string): Promise<void> {
+		const db = await this.getDb();
+		const result = db.prepare('DELETE FROM tags WHERE name = ?').run(tag);
+		if (Number(result.changes) === 0) {
+			throw new Error(`Tag ${tag} not found`);
+		}
+		this.tagVersions.delete(tag);
+	}
+
+	/**
+	 * Rename a tag; its tasks follow through the foreign key
+	 */
+	async renameTag(oldTag: string, newTag: string): Promise<void> {
+		const db = await this.getDb();
+
+		runInTransaction(db, () => {
+			if (this.getTagRow(db, newTag)) {
+				throw new TaskMasterError(
+					`Tag ${newTag} already exists`,
+					ERROR_CODES.VALIDATION_ERROR
+				);
+			}
+			const result = db
+				.prepare('UPDATE tags SET name = ? WHERE name = ?')
+				.run(newTag, oldTag);
+			if (Number(result.changes) === 0) {
+				throw new Error(`Tag ${oldTag} not found`);
+			}
+			this.touchTag(db, newTag);
+		});
+		this.tagVersions.delete(oldTag);
+		this.tagVersions.delete(newTag);
+	}
+
+	/**
+	 * Copy all tasks of a tag into another tag, replacing its tasks
+	 */
+	async copyTag(sourceTag: string, targetTag: string): Promise<void> {
+		const db = await this.getDb();
+
+		runInTransaction(db, () => {
+			const row = db
+				.prepare('SELECT COUNT(*) AS count FROM tasks WHERE tag = ?')
+				.get(sourceTag);
+			if (Number(row?.count ?? 0) === 0) {
+				throw new Error(`Source tag ${sourceTag} not found or has no tasks`);
+			}
+
+			this.ensureTag(db, targetTag);
+			db.prepare('DELETE FROM tasks WHERE tag = ?').run(targetTag);
+			this.copyTaskRows(db, sourceTag, targetTag);
+		});
+	}
+
+	/**
+	 * Get all tags with detailed statistics, aggregated in SQL
+	 */
+	async getTagsWithStats(): Promise<TagsWithStatsResult> {
+		const db = await this.getDb();
+		const activeTag = await this.getActiveTagFromState();
+		const tagRows = db
+			.prepare('SELECT * FROM tags ORDER BY rowid')
+			.all() as unknown as TagRow[];
+
+		const statusBreakdowns = this.groupCounts(
+			db
+				.prepare(
+					'SELECT tag, status, COUNT(*) AS count FROM tasks GROUP BY tag, status'
+				)
+				.all()
+		);
+		const subtaskBreakdowns = this.groupCounts(
+			db
+				.prepare(
+					`SELECT tasks.tag AS tag,
+						COALESCE(json_extract(subtask.value, '$.status'), 'pending') AS status,
+						COUNT(*) AS count
+					FROM tasks, json_each(tasks.data, '$.subtasks') AS subtask
+					GROUP BY tasks.tag, 2`
+				)
+				.all()
+		);
+
+		const tags = tagRows.map((row) => {
+			const statusBreakdown = statusBreakdowns.get(row.name) ?? {};
+			const subtasksByStatus = subtaskBreakdowns.get(row.name) ?? {};
+			const totalSubtasks = Object.values(subtasksByStatus).reduce(
+				(sum, count) => sum + count,
+				0
+			);
+
+			return {
+				name: row.name,
+				isCurrent: row.name === activeTag,
+				taskCount: Object.values(statusBreakdown).reduce(
+					(sum, count) => sum + count,
+					0
+				),
+				completedTasks: statusBreakdown.done ?? 0,
+				statusBreakdown,
+				subtaskCounts:
+					totalSubtasks > 0 ? { totalSubtasks, subtasksByStatus } : undefined,
+				created: row.created,
+				description: row.description ?? undefined
+			};
+		});
+
+		return {
+			tags,
+			currentTag: activeTag,
+			totalTags: tags.length
+		};
+	}
+
+	/**
+	 * Export every tag as tag-keyed data, as stored in a multi-tag tasks.json
+	 */
+	async exportData(): Promise<TaggedTasksData> {
+		const db = await this.getDb();
+		const data: TaggedTasksData = {};
+
+		for (const tag of await this.getAllTags()) {
+			const tasks = db
+				.prepare('SELECT data FROM tasks WHERE tag = ? ORDER BY position')
+				.all(tag)
+				.map((row) => this.parseTask(row.data));
+			const metadata = await this.loadMetadata(tag);
+			data[tag] = { tasks, metadata: metadata ?? undefined };
+		}
+
+		return data;
+	}
+
+	/**
+	 * Replace the whole database content with tag-keyed data in one transaction
+	 */
+	async importData(data: TaggedTasksData): Promise<void> {
+		const db = await this.getDb();
+
+		runInTransaction(db, () => {
+			db.exec('DELETE FROM tags');
+
+			for (const [tag, { tasks, metadata }] of Object.entries(data)) {
+				const {
+					version: _version,
+					lastModified,
+					taskCount: _taskCount,
+					completedCount: _completedCount,
+					tags: _tags,
+					created,
+					description,
+					...extra
+				} = metadata ?? {};
+				const now = new Date().toISOString();
+
+				db.prepare(
+					`INSERT INTO tags (name, description, created, updated_at, version, metadata)
+					VALUES (?, ?, ?, ?, 1, ?)`
+				).run(
+					tag,
+					description ?? null,
+					created ?? now,
+					lastModified ?? now,
+					JSON.stringify(extra)
+				);
+				this.insertTasks(db, tag, tasks ?? [], 0);
+			}
+		});
+		this.tagVersions.clear();
+	}
+
+	/**
+	 * Open the database on first use
+	 */
+	private getDb(): Promise<DatabaseSync> {
+		if (!this.db) {
+			this.db = openTasksDatabase(this.databasePath, {
+				timeout: this.timeout
+			});
+			// Allow a later call to retry after a failed open
+			this.db.catch(() => {
+				this.db = null;
+			});
+		}
+		return this.db;
+	}
+
+	private parseTask(data: unknown): Task {
+		return JSON.parse(String(data)) as Task;
+	}
+
+	/**
+	 * Read a task row for a read-modify-write inside a transaction
+	 */
+	private readTask(
+		db: DatabaseSync,
+		tag: string,
+		taskId: string,
+		label = 'Task'
+	): Task {
+		const row = db
+			.prepare('SELECT data FROM tasks WHERE tag = ? AND id = ?')
+			.get(tag, String(taskId));
+		if (!row) {
+			throw new Error(`${label} ${taskId} not found`);
+		}
+		return this.parseTask(row.data);
+	}
+
+	private writeTask(db: DatabaseSync, tag: string, task: Task): void {
+		const [normalized] = this.normalizeTaskIds([task]);
+		db.prepare(
+			'UPDATE tasks SET status = ?, data = ? WHERE tag = ? AND id = ?'
+		).run(normalized.status, JSON.stringify(normalized), tag, normalized.id);
+	}
+
+	private insertTasks(
+		db: DatabaseSync,
+		tag: string,
+		tasks: Task[],
+		start: number
+	): void {
+		const normalized = this.normalizeTaskIds(tasks);
+		const exists = db.prepare('SELECT 1 FROM tasks WHERE tag = ? AND id = ?');
+		const ids = normalized.map((task) => String(task.id));
+		const taken = [
+			...new Set(
+				ids.filter(
+					(id, index) =>
+						ids.indexOf(id) !== index || exists.get(tag, id) !== undefined
+				)
+			)
+		];
+		if (taken.length > 0) {
+			throw new TaskMasterError(
+				`Task ID already taken in tag "${tag}": ${taken.join(', ')}`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ resource: tag, details: { taskIds: taken } }
+			);
+		}
+
+		const insert = db.prepare(
+			'INSERT INTO tasks (tag, id, position, status, data) VALUES (?, ?, ?, ?, ?)'
+		);
+		normalized.forEach((task, index) => {
+			insert.run(
+				tag,
+				task.id,
+				start + index,
+				task.status || 'pending',
+				JSON.stringify(task)
+			);
+		});
+	}
+
+	private copyTaskRows(db: DatabaseSync, sourceTag: string, targetTag: string) {
+		db.prepare(
+			`INSERT INTO tasks (tag, id, position, status, data)
+			SELECT ?, id, position, status, data FROM tasks WHERE tag = ?`
+		).run(targetTag, sourceTag);
+		this.touchTag(db, targetTag);
+	}
+
+	/**
+	 * Normalize task IDs - keep Task IDs as strings, Subtask IDs as numbers
+	 */
+	private normalizeTaskIds(tasks: Task[]): Task[] {
+		return tasks.map((task) => ({
+			...task,
+			id: String(task.id),
+			dependencies: task.dependencies?.map((dep) => String(dep)) || [],
+			subtasks:
+				task.subtasks?.map((subtask) => ({
+					...subtask,
+					id: Number(subtask.id),
+					parentId: String(subtask.parentId)
+				})) || []
+		}));
+	}
+
+	/**
+	 * Parent status implied by its subtasks' statuses
+	 */
+	private deriveParentStatus(task: Task): TaskStatus {
+		const statuses = (task.subtasks ?? []).map((s) => s.status || 'pending');
+		if (statuses.length === 0) {
+			return task.status;
+		}
+
+		const isDoneLike = (s: string) => s === 'done' || s === 'completed';
+		if (statuses.every(isDoneLike)) return 'done';
+		if (statuses.some((s) => s === 'in-progress' || isDoneLike(s))) {
+			return 'in-progress';
+		}
+		if (statuses.every((s) => s === 'pending')) return 'pending';
+		return task.status;
+	}
+
+	private getTagRow(db: DatabaseSync, tag: string): TagRow | undefined {
+		return db.prepare('SELECT * FROM tags WHERE name = ?').get(tag) as
+			| TagRow
+			| undefined;
+	}
+
+	private getTagVersion(db: DatabaseSync, tag: string): number {
+		return this.getTagRow(db, tag)?.version ?? 0;
+	}
+
+	private ensureTag(db: DatabaseSync, tag: string, description?: string): void {
+		const now = new Date().toISOString();
+		db.prepare(
+			`INSERT INTO tags (name, description, created, updated_at)
+			VALUES (?, ?, ?, ?) ON CONFLICT (name) DO NOTHING`
+		).run(tag, description ?? null, now, now);
+	}
+
+	/**
+	 * Bump a tag's version and modification time after a write,
+	 * keeping this instance's own writes as its new base version
+	 */
+	private touchTag(db: DatabaseSync, tag: string): void {
+		db.prepare(
+			'UPDATE tags SET version = version + 1, updated_at = ? WHERE name = ?'
+		).run(new Date().toISOString(), tag);
+		this.tagVersions.set(tag, this.getTagVersion(db, tag));
+	}
+
+	/**
+	 * Optimistic concurrency check for a save: the tag must still have the
+	 * version this instance last loaded or saved
+	 * @throws TaskMasterError CONCURRENT_MODIFICATION when it changed since
+	 */
+	private assertTagUnchanged(db: DatabaseSync, tag: string): void {
+		const expected = this.tagVersions.get(tag);
+		if (expected === undefined || expected === this.getTagVersion(db, tag)) {
+			return;
+		}
+
+		this.tagVersions.delete(tag);
+		throw new TaskMasterError(
+			`Tasks in tag "${tag}" were changed by another process since they were loaded. Reload and try again.`,
+			ERROR_CODES.CONCURRENT_MODIFICATION,
+			{
+				operation: 'saveTasks',
+				resource: this.databasePath,
+				details: { tag }
+			}
+		);
+	}
+
+	/**
+	 * Turn (tag, status, count) rows into per-tag status counts
+	 */
+	private groupCounts(
+		rows: Record<string, unknown>[]
+	): Map<string, Record<string, number>> {
+		const byTag = new Map<string, Record<string, number>>();
+		for (const row of rows) {
+			const counts = byTag.get(String(row.tag)) ?? {};
+			counts[String(row.status)] = Number(row.count);
+			byTag.set(String(row.tag), counts);
+		}
+		return byTag;
+	}
+
+	/**
+	 * Get the active tag from state.json
+	 * @returns The active tag name or 'master' as default
+	 */
+	private async getActiveTagFromState(): Promise<string> {
+		try {
+			const statePath = path.join(
+				this.projectPath,
+				'.taskmaster',
+				'state.json'
+			);
+			const stateData = JSON.parse(await fs.readFile(statePath, 'utf-8'));
+			return stateData?.currentTag || 'master';
+		} catch {
+			return 'master';
+		}
+	}
+
+	/**
+	 * Enrich tasks with complexity data from the complexity report
+	 */
+	private async enrichTasksWithComplexity(
+		tasks: Task[],
+		tag: string
+	): Promise<Task[]> {
+		const complexityMap = await this.complexityManager.getComplexityForTasks(
+			tasks.map((t) => t.id),
+			tag
+		);
+		if (complexityMap.size === 0) {
+			return tasks;
+		}
+
+		return tasks.map((task) => {
+			const complexityData = complexityMap.get(String(task.id));
+			if (!complexityData) {
+				return task;
+			}
+			return {
+				...task,
+				complexity: complexityData.complexityScore,
+				recommendedSubtasks: complexityData.recommendedSubtasks,
+				expansionPrompt: complexityData.expansionPrompt,
+				complexityReasoning: complexityData.complexityReasoning
+			};
+		});
+	}
+}
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Migration of tasks between tasks.json and the SQLite database
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../../common/errors/task-master-error.js';
+import { FileOperations } from '../file-storage/file-operations.js';
+import { FormatHandler } from '../file-storage/format-handler.js';
+import { PathResolver } from '../file-storage/path-resolver.js';
+import { SqliteStorage, type TaggedTasksData } from './sqlite-storage.js';
+
+/**
+ * Local storage backends tasks can be migrated between
+ */
+export type LocalStorageType = 'file' | 'sqlite';
+
+/**
+ * Options for migrating tasks between local storage backends
+ */
+export interface MigrateStorageOptions {
+	/** Backend to migrate to; the other backend is read */
+	to: LocalStorageType;
+	/** Overwrite the target if it exists */
+	force?: boolean;
+}
+
+/**
+ * Result of migrating tasks between local storage backends
+ */
+export interface MigrateStorageResult {
+	from: LocalStorageType;
+	to: LocalStorageType;
+	sourcePath: string;
+	targetPath: string;
+	tagCount: number;
+	taskCount: number;
+}
+
+/**
+ * Copies all tags from .taskmaster/tasks/tasks.json into tasks.db and back.
+ * The source is left in place.
+ */
+export class StorageMigrator {
+	private readonly pathResolver: PathResolver;
+	private readonly fileOps = new FileOperations();
+	private readonly formatHandler = new FormatHandler();
+
+	constructor(private readonly projectPath: string) {
+		this.pathResolver = new PathResolver(projectPath);
+	}
+
+	async migrate(options: MigrateStorageOptions): Promise<MigrateStorageResult> {
+		const to = options.to;
+		const from: LocalStorageType = to === 'sqlite' ? 'file' : 'sqlite';
+		const filePath = this.pathResolver.getTasksPath();
+		const dbPath = SqliteStorage.getDefaultPath(this.projectPath);
+		const sourcePath = from === 'file' ? filePath : dbPath;
+		const targetPath = to === 'file' ? filePath : dbPath;
+
+		if (!(await this.fileOps.exists(sourcePath))) {
+			throw new TaskMasterError(
+				`No tasks to migrate at ${sourcePath}`,
+				ERROR_CODES.FILE_NOT_FOUND,
+				{ resource: sourcePath }
+			);
+		}
+		if (!options.force && (await this.fileOps.exists(targetPath))) {
+			throw new TaskMasterError(
+				`${targetPath} already exists. Use force to overwrite it.`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ resource: targetPath }
+			);
+		}
+
+		const sqlite = new SqliteStorage(this.projectPath);
+		try {
+			let data: TaggedTasksData;
+			if (to === 'sqlite') {
+				data = this.toTaggedData(await this.fileOps.readJson(filePath));
+				await sqlite.importData(data);
+			} else {
+				data = await sqlite.exportData();
+				await this.fileOps.writeJson(filePath, data);
+			}
+
+			const tags = Object.values(data);
+			return {
+				from,
+				to,
+				sourcePath,
+				targetPath,
+				tagCount: tags.length,
+				taskCount: tags.reduce((count, tag) => count + tag.tasks.length, 0)
+			};
+		} finally {
+			await sqlite.close();
+		}
+	}
+
+	/**
+	 * Normalize standard or tag-keyed tasks.json content to tag-keyed data
+	 */
+	private toTaggedData(raw: any): TaggedTasksData {
+		const data: TaggedTasksData = {};
+		for (const tag of this.formatHandler.extractTags(raw)) {
+			data[tag] = {
+				tasks: this.formatHandler.extractTasks(raw, tag),
+				metadata: this.formatHandler.extractMetadata(raw, tag) ?? undefined
+			};
+		}
+		return data;
+	}
+}
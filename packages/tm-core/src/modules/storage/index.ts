@@ -4,7 +4,18 @@
  */
 
 // Export storage implementations
-export { FileStorage } from './adapters/file-storage/index.js';
+export {
+	FileStorage,
+	FileLock,
+	BackupManager,
+	MarkdownTaskFormat,
+	TaskFileConverter
+} from './adapters/file-storage/index.js';
+export {
+	SqliteStorage,
+	StorageMigrator,
+	type SqliteStorageOptions
+} from './adapters/sqlite-storage/index.js';
 export { ApiStorage, type ApiStorageConfig } from './adapters/api-storage.js';
 export { StorageFactory } from './services/storage-factory.js';
 
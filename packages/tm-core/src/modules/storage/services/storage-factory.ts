@@ -17,6 +17,7 @@ import { AuthManager } from '../../auth/managers/auth-manager.js';
 import { SupabaseAuthClient } from '../../integration/clients/supabase-client.js';
 import { ApiStorage } from '../adapters/api-storage.js';
 import { FileStorage } from '../adapters/file-storage/index.js';
+import { SqliteStorage } from '../adapters/sqlite-storage/index.js';
 
 /**
  * Factory for creating storage implementations based on configuration
@@ -60,6 +61,10 @@ export class StorageFactory {
 				logger.debug('📁 Using local file storage');
 				return StorageFactory.createFileStorage(projectPath, config);
 
+			case 'sqlite':
+				logger.debug('🗄️  Using local SQLite storage');
+				return StorageFactory.createSqliteStorage(projectPath, config);
+
 			case 'api':
 				if (!StorageFactory.isHamsterAvailable(config)) {
 					const missing: string[] = [];
@@ -169,7 +174,24 @@ export class StorageFactory {
 		config: Partial<IConfiguration>
 	): FileStorage {
 		const basePath = config.storage?.basePath || projectPath;
-		return new FileStorage(basePath);
+		return new FileStorage(basePath, {
+			format: config.storage?.format,
+			enableBackup: config.storage?.enableBackup,
+			maxBackups: config.storage?.maxBackups,
+			enableCompression: config.storage?.enableCompression,
+			atomicOperations: config.storage?.atomicOperations
+		});
+	}
+
+	/**
+	 * Create SQLite storage implementation
+	 */
+	private static createSqliteStorage(
+		projectPath: string,
+		config: Partial<IConfiguration>
+	): SqliteStorage {
+		const basePath = config.storage?.basePath || projectPath;
+		return new SqliteStorage(basePath);
 	}
 
 	/**
@@ -227,7 +249,8 @@ export class StorageFactory {
 				break;
 
 			case 'file':
-				// File storage doesn't require additional config
+			case 'sqlite':
+				// Local storage doesn't require additional config
 				break;
 
 			case 'auto':
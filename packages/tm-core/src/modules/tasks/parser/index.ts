@@ -3,37 +3,14 @@
  * This file exports all parsing-related classes and functions
  */
 
-import type { PlaceholderTask } from '../../../common/types/index.js';
+import type { Task } from '../../../common/types/index.js';
 
-// Parser implementations will be defined here
-// export * from './prd-parser.js';
-// export * from './task-parser.js';
-// export * from './markdown-parser.js';
-
-// Placeholder exports - these will be implemented in later tasks
-export interface TaskParser {
-	parse(content: string): Promise<PlaceholderTask[]>;
-	validate(content: string): Promise<boolean>;
-}
+export * from './prd-parser.js';
 
 /**
- * @deprecated This is a placeholder class that will be properly implemented in later tasks
+ * Turns document content into tasks
  */
-export class PlaceholderParser implements TaskParser {
-	async parse(content: string): Promise<PlaceholderTask[]> {
-		// Simple placeholder parsing logic
-		const lines = content
-			.split('\n')
-			.filter((line) => line.trim().startsWith('-'));
-		return lines.map((line, index) => ({
-			id: `task-${index + 1}`,
-			title: line.trim().replace(/^-\s*/, ''),
-			status: 'pending' as const,
-			priority: 'medium' as const
-		}));
-	}
-
-	async validate(content: string): Promise<boolean> {
-		return content.trim().length > 0;
-	}
+export interface TaskParser {
+	parse(content: string): Promise<Task[]>;
+	validate(content: string): Promise<boolean>;
 }
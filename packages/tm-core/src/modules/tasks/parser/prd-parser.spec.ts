@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Unit tests for PrdParser
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { ERROR_CODES } from '../../../common/errors/task-master-error.js';
+import type { IAIProvider } from '../../ai/interfaces/ai-provider.interface.js';
+import { PrdParser } from './prd-parser.js';
+
+const PRD = `# Todo App
+
+Intro text that is not a task.
+
+## 1. Project setup
+
+Create the repository and tooling.
+
+Use pnpm workspaces.
+
+- [x] Initialize repository
+- [ ] Configure linting
+  - biome with tabs
+
+Priority: high
+
+## 2. Authentication
+
+Security critical login flow for users.
+
+1. Add user table
+2. Add login endpoint
+3. Add session handling
+
+### Acceptance Criteria
+
+- Users can log in
+- Invalid passwords are rejected
+
+Depends on: Project setup
+
+## 3. Dark mode
+
+Nice to have theme switch, after task 2 ships.
+
+\`\`\`ts
+// - not a subtask
+\`\`\`
+`;
+
+const createProvider = (content: string): IAIProvider =>
+	({
+		generateCompletion: vi.fn(async () => ({ content }))
+	}) as unknown as IAIProvider;
+
+describe('PrdParser', () => {
+	describe('deterministic mode', () => {
+		const parser = new PrdParser();
+
+		it('should turn task-level headings into tasks', async () => {
+			const tasks = await parser.parse(PRD);
+
+			expect(tasks.map((task) => [task.id, task.title])).toEqual([
+				['1', 'Project setup'],
+				['2', 'Authentication'],
+				['3', 'Dark mode']
+			]);
+			expect(tasks[0]).toEqual(
+				expect.objectContaining({
+					description: 'Create the repository and tooling.',
+					details: 'Use pnpm workspaces.',
+					status: 'pending'
+				})
+			);
+		});
+
+		it('should turn lists and checklists into subtasks', async () => {
+			const [setup, auth] = await parser.parse(PRD);
+
+			expect(
+				setup.subtasks.map((subtask) => [
+					subtask.id,
+					subtask.title,
+					subtask.status,
+					subtask.details
+				])
+			).toEqual([
+				[1, 'Initialize repository', 'done', ''],
+				[2, 'Configure linting', 'pending', 'biome with tabs']
+			]);
+			expect(setup.subtasks[0].parentId).toBe('1');
+			expect(setup.subtasks[1].dependencies).toEqual([]);
+
+			expect(auth.subtasks.map((subtask) => subtask.dependencies)).toEqual([
+				[],
+				['1'],
+				['2']
+			]);
+		});
+
+		it('should collect acceptance criteria as the test strategy', async () => {
+			const [, auth] = await parser.parse(PRD);
+
+			expect(auth.testStrategy).toBe(
+				'- Users can log in\n- Invalid passwords are rejected'
+			);
+		});
+
+		it('should infer priorities and dependencies', async () => {
+			const tasks = await parser.parse(PRD);
+
+			expect(tasks.map((task) => task.priority)).toEqual([
+				'high',
+				'critical',
+				'low'
+			]);
+			expect(tasks.map((task) => task.dependencies)).toEqual([
+				[],
+				['1'],
+				['2']
+			]);
+			expect(tasks[2].details).toContain('// - not a subtask');
+			expect(tasks[2].subtasks).toEqual([]);
+		});
+
+		it('should use top-level list items as tasks without headings', async () => {
+			const tasks = await new PrdParser({ startId: 5 }).parse(
+				'- Build API\n  - Add routes\n- Build UI (depends on #1)\n'
+			);
+
+			expect(tasks.map((task) => [task.id, task.title])).toEqual([
+				['5', 'Build API'],
+				['6', 'Build UI (depends on #1)']
+			]);
+			expect(tasks[0].subtasks.map((subtask) => subtask.title)).toEqual([
+				'Add routes'
+			]);
+			expect(tasks[1].dependencies).toEqual(['5']);
+		});
+
+		it('should validate that the PRD yields tasks', async () => {
+			await expect(parser.validate(PRD)).resolves.toBe(true);
+			await expect(parser.validate('Just prose.')).resolves.toBe(false);
+		});
+	});
+
+	describe('AI refinement', () => {
+		it('should merge refined tasks and drop unknown dependencies', async () => {
+			const provider = createProvider(
+				`\`\`\`json\n${JSON.stringify({
+					tasks: [
+						{ id: 1, title: 'Set up the monorepo', priority: 'medium' },
+						{
+							id: '2',
+							title: 'Authentication',
+							dependencies: [1, 2, 9],
+							subtasks: [{ id: 1, title: 'Add user table' }]
+						}
+					]
+				})}\n\`\`\``
+			);
+			const parser = new PrdParser({ aiProvider: provider });
+
+			const tasks = await parser.parse(PRD);
+
+			expect(provider.generateCompletion).toHaveBeenCalledWith(
+				expect.stringContaining('Draft tasks:'),
+				expect.objectContaining({ systemPrompt: expect.any(String) })
+			);
+			expect(tasks).toHaveLength(2);
+			expect(tasks[0]).toEqual(
+				expect.objectContaining({
+					id: '1',
+					title: 'Set up the monorepo',
+					priority: 'medium',
+					description: 'Create the repository and tooling.'
+				})
+			);
+			expect(tasks[0].subtasks).toHaveLength(2);
+			expect(tasks[1].dependencies).toEqual(['1']);
+			expect(tasks[1].subtasks).toEqual([
+				expect.objectContaining({ id: 1, parentId: '2', status: 'pending' })
+			]);
+		});
+
+		it('should reject responses that are not valid tasks', async () => {
+			const parser = new PrdParser({
+				aiProvider: createProvider('{"tasks": [{"id": 1}]}')
+			});
+
+			await expect(parser.parse(PRD)).rejects.toMatchObject({
+				code: ERROR_CODES.PARSE_ERROR
+			});
+		});
+	});
+});
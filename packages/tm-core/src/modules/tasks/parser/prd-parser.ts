@@ -0,0 +1,607 @@
+/**
+ * @fileoverview PrdParser - Turn a Markdown PRD into tasks
+ * Runs a deterministic Markdown pass and optionally lets an AI provider
+ * refine the result
+ */
+
+import { z } from 'zod';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type {
+	Subtask,
+	Task,
+	TaskPriority
+} from '../../../common/types/index.js';
+import type {
+	AIOptions,
+	IAIProvider
+} from '../../ai/interfaces/ai-provider.interface.js';
+import type { TaskParser } from './index.js';
+
+/**
+ * Options for PrdParser
+ */
+export interface PrdParserOptions {
+	/** Refine the parsed tasks with this provider (deterministic without it) */
+	aiProvider?: IAIProvider;
+	/** Options passed to the provider's completion request */
+	aiOptions?: AIOptions;
+	/** ID of the first task (default: 1) */
+	startId?: number;
+	/** Priority when nothing in the PRD suggests one (default: medium) */
+	defaultPriority?: TaskPriority;
+}
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Keywords that suggest a priority, checked in order
+ */
+const PRIORITY_KEYWORDS: Array<[TaskPriority, RegExp]> = [
+	['critical', /\b(critical|blocker|urgent|p0)\b/i],
+	[
+		'high',
+		/\b(high[- ]priority|important|essential|must[- ]have|security|p1)\b/i
+	],
+	[
+		'low',
+		/\b(low[- ]priority|nice[- ]to[- ]have|optional|stretch goal|future|p3)\b/i
+	]
+];
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN =
+	/^(\s*)(?:[-*+]|(\d+)[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const ACCEPTANCE_PATTERN =
+	/^\**\s*acceptance criteria\s*:?\s*\**\s*:?\s*(.*)$/i;
+const PRIORITY_LINE_PATTERN =
+	/^\**\s*priority\s*:?\s*\**\s*:?\s*(low|medium|high|critical)\b/i;
+const DEPENDS_LINE_PATTERN =
+	/^\**\s*(?:depends on|dependencies|blocked by)\s*:?\s*\**\s*:?\s*(.+)$/i;
+const INLINE_DEPENDENCY_PATTERN =
+	/\b(?:(?:depends on|blocked by)\s+(?:task\s+)?#?|(?:requires|after)\s+(?:task\s+#?|#))(\d+)\b/gi;
+const TASK_NUMBER_PATTERN = /^(?:task\s+)?(\d+)\s*[.:)-]\s+/i;
+
+/**
+ * Schema of the tasks an AI provider returns when refining
+ */
+const refinedSubtaskSchema = z.object({
+	id: z.union([z.number(), z.string()]),
+	title: z.string().min(1),
+	description: z.string().optional(),
+	details: z.string().optional(),
+	dependencies: z.array(z.union([z.number(), z.string()])).optional()
+});
+
+const refinedTaskSchema = z.object({
+	id: z.union([z.number(), z.string()]),
+	title: z.string().min(1),
+	description: z.string().optional(),
+	details: z.string().optional(),
+	testStrategy: z.string().optional(),
+	priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+	dependencies: z.array(z.union([z.number(), z.string()])).optional(),
+	subtasks: z.array(refinedSubtaskSchema).optional()
+});
+
+const refinedResponseSchema = z.object({
+	tasks: z.array(refinedTaskSchema)
+});
+
+interface DraftSubtask {
+	title: string;
+	lines: string[];
+	done: boolean;
+}
+
+interface DraftTask {
+	title: string;
+	/** Number the PRD gave the task ("## 3. Title"), used for references */
+	number?: string;
+	description: string[];
+	details: string[];
+	criteria: string[];
+	subtasks: DraftSubtask[];
+	/** Subtasks come from a numbered list, so each follows the previous */
+	orderedSubtasks: boolean;
+	dependencyRefs: string[];
+	priority?: TaskPriority;
+}
+
+/**
+ * Parses PRDs written in Markdown.
+ *
+ * Deterministic rules:
+ * - Headings at the task level become tasks. The task level is the shallowest
+ *   heading level, or the next one when the shallowest is a lone document title.
+ * - Without headings, top-level list items become tasks.
+ * - List items, checklist items and deeper headings under a task become
+ *   subtasks. Checked items are done.
+ * - "Acceptance Criteria" blocks become the task's test strategy.
+ * - The first paragraph is the description; other text goes into details.
+ * - "Priority: high" sets the priority, otherwise keywords suggest one.
+ * - "Depends on: 2, Setup" and "after task 2" add dependencies. Numbered
+ *   subtask lists depend on the previous step.
+ */
+export class PrdParser implements TaskParser {
+	private readonly startId: number;
+	private readonly defaultPriority: TaskPriority;
+
+	constructor(private readonly options: PrdParserOptions = {}) {
+		this.startId = options.startId ?? 1;
+		this.defaultPriority = options.defaultPriority ?? 'medium';
+	}
+
+	/**
+	 * Parse a PRD into tasks, refined by the AI provider when one is set
+	 */
+	async parse(content: string): Promise<Task[]> {
+		const tasks = this.parseDeterministic(content);
+		if (!this.options.aiProvider || tasks.length === 0) {
+			return tasks;
+		}
+		return this.refine(content, tasks);
+	}
+
+	async validate(content: string): Promise<boolean> {
+		return this.parseDeterministic(content).length > 0;
+	}
+
+	/**
+	 * Parse a PRD without AI; the same input always gives the same tasks
+	 */
+	parseDeterministic(content: string): Task[] {
+		const drafts = this.collectDrafts(content);
+		const ids = drafts.map((_, index) => String(this.startId + index));
+
+		return drafts.map((draft, index) =>
+			this.buildTask(draft, ids[index], drafts, ids)
+		);
+	}
+
+	/**
+	 * Ask the AI provider to improve parsed tasks.
+	 * The provider may reword, split or merge tasks; dependencies on unknown
+	 * tasks are dropped.
+	 */
+	async refine(content: string, tasks: Task[]): Promise<Task[]> {
+		const provider = this.options.aiProvider;
+		if (!provider) {
+			throw new TaskMasterError(
+				'No AI provider configured for PRD refinement',
+				ERROR_CODES.MISSING_CONFIGURATION
+			);
+		}
+
+		const response = await provider.generateCompletion(
+			this.buildRefinePrompt(content, tasks),
+			{
+				systemPrompt:
+					'You are a technical project manager breaking a PRD into development tasks. Respond with JSON only.',
+				...this.options.aiOptions
+			}
+		);
+
+		return this.mergeRefinedTasks(
+			this.parseRefinedResponse(response.content),
+			tasks
+		);
+	}
+
+	private collectDrafts(content: string): DraftTask[] {
+		const lines = content.replace(/\r\n?/g, '\n').split('\n');
+		const taskLevel = this.getTaskLevel(lines);
+		const drafts: DraftTask[] = [];
+
+		let task: DraftTask | undefined;
+		let headingSubtask: DraftSubtask | undefined;
+		let inCriteria = false;
+		let inFence = false;
+		let descriptionDone = false;
+		let taskIndent = -1;
+		let subtaskIndent = -1;
+
+		const startTask = (title: string) => {
+			const number = title.match(TASK_NUMBER_PATTERN)?.[1];
+			task = {
+				title: title.replace(TASK_NUMBER_PATTERN, '').trim(),
+				number,
+				description: [],
+				details: [],
+				criteria: [],
+				subtasks: [],
+				orderedSubtasks: false,
+				dependencyRefs: []
+			};
+			drafts.push(task);
+			headingSubtask = undefined;
+			inCriteria = false;
+			descriptionDone = false;
+			subtaskIndent = -1;
+		};
+
+		for (const line of lines) {
+			if (FENCE_PATTERN.test(line)) {
+				inFence = !inFence;
+			}
+			if (inFence || FENCE_PATTERN.test(line)) {
+				(headingSubtask?.lines ?? task?.details)?.push(line);
+				continue;
+			}
+
+			const trimmed = line.trim();
+			const heading = trimmed.match(HEADING_PATTERN);
+			if (heading) {
+				const level = heading[1].length;
+				const title = heading[2];
+				const criteria = title.match(ACCEPTANCE_PATTERN);
+				descriptionDone = true;
+				subtaskIndent = -1;
+
+				if (criteria && task && level >= taskLevel) {
+					inCriteria = true;
+					headingSubtask = undefined;
+				} else if (level === taskLevel) {
+					startTask(title);
+				} else if (level < taskLevel) {
+					task = undefined;
+					headingSubtask = undefined;
+				} else if (task) {
+					headingSubtask = { title: title.trim(), lines: [], done: false };
+					task.subtasks.push(headingSubtask);
+					inCriteria = false;
+				}
+				continue;
+			}
+
+			if (!trimmed) {
+				if (task && task.description.length > 0) {
+					descriptionDone = true;
+				}
+				continue;
+			}
+
+			const listItem = line.match(LIST_ITEM_PATTERN);
+			if (listItem) {
+				const [, indentText, number, checkbox, text] = listItem;
+				const indent = indentText.replace(/\t/g, '    ').length;
+				descriptionDone = true;
+
+				if (taskLevel === 0 && (taskIndent < 0 || indent <= taskIndent)) {
+					startTask(text);
+					taskIndent = indent;
+					continue;
+				}
+				if (!task) {
+					continue;
+				}
+				if (inCriteria) {
+					task.criteria.push(text.trim());
+				} else if (headingSubtask) {
+					headingSubtask.lines.push(trimmed);
+				} else {
+					if (subtaskIndent < 0) {
+						subtaskIndent = indent;
+					}
+					this.addListSubtask(
+						task,
+						indent > subtaskIndent,
+						number,
+						checkbox,
+						text
+					);
+				}
+				continue;
+			}
+
+			if (!task) {
+				continue;
+			}
+
+			const criteria = trimmed.match(ACCEPTANCE_PATTERN);
+			if (criteria) {
+				inCriteria = true;
+				headingSubtask = undefined;
+				if (criteria[1]) {
+					task.criteria.push(criteria[1].trim());
+				}
+				continue;
+			}
+			inCriteria = false;
+
+			const priority = trimmed.match(PRIORITY_LINE_PATTERN);
+			if (priority) {
+				task.priority = priority[1].toLowerCase() as TaskPriority;
+				continue;
+			}
+
+			const depends = trimmed.match(DEPENDS_LINE_PATTERN);
+			if (depends) {
+				task.dependencyRefs.push(...this.splitReferences(depends[1]));
+				continue;
+			}
+
+			if (headingSubtask) {
+				headingSubtask.lines.push(trimmed);
+			} else if (!descriptionDone) {
+				task.description.push(trimmed);
+			} else {
+				task.details.push(trimmed);
+			}
+		}
+
+		return drafts;
+	}
+
+	/**
+	 * List items under a task become subtasks, nested items their details
+	 */
+	private addListSubtask(
+		task: DraftTask,
+		nested: boolean,
+		number: string | undefined,
+		checkbox: string | undefined,
+		text: string
+	): void {
+		const parent = task.subtasks[task.subtasks.length - 1];
+		if (parent && nested) {
+			parent.lines.push(text.trim());
+			return;
+		}
+		if (task.subtasks.length === 0) {
+			task.orderedSubtasks = number !== undefined;
+		}
+		task.subtasks.push({
+			title: text.trim(),
+			lines: [],
+			done: checkbox?.toLowerCase() === 'x'
+		});
+	}
+
+	/**
+	 * Heading level that marks a task (0 when the PRD has no headings)
+	 */
+	private getTaskLevel(lines: string[]): number {
+		const counts = new Map<number, number>();
+		let inFence = false;
+		for (const line of lines) {
+			if (FENCE_PATTERN.test(line)) {
+				inFence = !inFence;
+				continue;
+			}
+			const heading = !inFence && line.trim().match(HEADING_PATTERN);
+			if (heading && !ACCEPTANCE_PATTERN.test(heading[2])) {
+				const level = heading[1].length;
+				counts.set(level, (counts.get(level) ?? 0) + 1);
+			}
+		}
+
+		const levels = [...counts.keys()].sort((a, b) => a - b);
+		if (levels.length === 0) {
+			return 0;
+		}
+		if (counts.get(levels[0]) === 1 && levels.length > 1) {
+			return levels[1];
+		}
+		return levels[0];
+	}
+
+	private buildTask(
+		draft: DraftTask,
+		id: string,
+		drafts: DraftTask[],
+		ids: string[]
+	): Task {
+		const description = draft.description.join(' ');
+		const priority =
+			draft.priority ??
+			this.inferPriority(`${draft.title}\n${description}`) ??
+			this.defaultPriority;
+
+		const dependencies = new Set<string>();
+		for (const ref of draft.dependencyRefs) {
+			const resolved = this.resolveReference(ref, drafts, ids);
+			if (resolved) {
+				dependencies.add(resolved);
+			}
+		}
+		const text = [draft.title, description, ...draft.details].join('\n');
+		for (const match of text.matchAll(INLINE_DEPENDENCY_PATTERN)) {
+			const resolved = this.resolveReference(match[1], drafts, ids);
+			if (resolved) {
+				dependencies.add(resolved);
+			}
+		}
+		dependencies.delete(id);
+
+		const subtasks: Subtask[] = draft.subtasks.map((subtask, index) => ({
+			id: index + 1,
+			parentId: id,
+			title: subtask.title,
+			description: subtask.title,
+			status: subtask.done ? 'done' : 'pending',
+			priority: this.inferPriority(subtask.title) ?? priority,
+			dependencies: draft.orderedSubtasks && index > 0 ? [String(index)] : [],
+			details: subtask.lines.join('\n'),
+			testStrategy: ''
+		}));
+
+		return {
+			id,
+			title: draft.title,
+			description: description || draft.title,
+			status: 'pending',
+			priority,
+			dependencies: [...dependencies],
+			details: draft.details.join('\n').trim(),
+			testStrategy: draft.criteria.map((item) => `- ${item}`).join('\n'),
+			subtasks
+		};
+	}
+
+	private inferPriority(text: string): TaskPriority | undefined {
+		return PRIORITY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0];
+	}
+
+	private splitReferences(text: string): string[] {
+		return text
+			.split(/,|;|\band\b/i)
+			.map((ref) => ref.replace(/\*/g, '').trim())
+			.filter(Boolean);
+	}
+
+	/**
+	 * Resolve "2", "Task 2", "#2" or a task title to a task ID
+	 */
+	private resolveReference(
+		ref: string,
+		drafts: DraftTask[],
+		ids: string[]
+	): string | undefined {
+		const number = ref.match(/^(?:task\s*)?#?(\d+)$/i)?.[1];
+		if (number) {
+			const byNumber = drafts.findIndex((draft) => draft.number === number);
+			if (byNumber >= 0) {
+				return ids[byNumber];
+			}
+			return ids[Number(number) - 1];
+		}
+
+		const title = ref.toLowerCase();
+		const exact = drafts.findIndex(
+			(draft) => draft.title.toLowerCase() === title
+		);
+		if (exact >= 0) {
+			return ids[exact];
+		}
+		if (title.length < 3) {
+			return undefined;
+		}
+		const partial = drafts.findIndex((draft) =>
+			draft.title.toLowerCase().includes(title)
+		);
+		return partial >= 0 ? ids[partial] : undefined;
+	}
+
+	private buildRefinePrompt(content: string, tasks: Task[]): string {
+		const draft = tasks.map((task) => ({
+			id: task.id,
+			title: task.title,
+			description: task.description,
+			details: task.details,
+			testStrategy: task.testStrategy,
+			priority: task.priority,
+			dependencies: task.dependencies,
+			subtasks: task.subtasks.map((subtask) => ({
+				id: subtask.id,
+				title: subtask.title,
+				details: subtask.details,
+				dependencies: subtask.dependencies
+			}))
+		}));
+
+		return [
+			'Refine the draft tasks that were extracted from the PRD below.',
+			'Improve titles, descriptions, implementation details and test strategies,',
+			'fix priorities (low, medium, high, critical) and dependencies, and split or',
+			'merge tasks where the draft got the scope wrong.',
+			'Dependencies must reference task IDs that exist in your answer.',
+			`Respond with JSON shaped like {"tasks": [...]} using the draft's fields.`,
+			'',
+			'PRD:',
+			content,
+			'',
+			'Draft tasks:',
+			JSON.stringify(draft, null, 2)
+		].join('\n');
+	}
+
+	private parseRefinedResponse(
+		content: string
+	): z.infer<typeof refinedResponseSchema> {
+		const json = content
+			.replace(/^\s*```(?:json)?\s*/i, '')
+			.replace(/\s*```\s*$/, '');
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(json);
+		} catch (error) {
+			throw new TaskMasterError(
+				'AI provider returned invalid JSON for PRD refinement',
+				ERROR_CODES.PARSE_ERROR,
+				{ operation: 'refine' },
+				error as Error
+			);
+		}
+
+		const result = refinedResponseSchema.safeParse(parsed);
+		if (!result.success) {
+			throw new TaskMasterError(
+				'AI provider returned tasks in an unexpected shape',
+				ERROR_CODES.PARSE_ERROR,
+				{
+					operation: 'refine',
+					details: result.error.issues.map(
+						(issue) => `${issue.path.join('.')}: ${issue.message}`
+					)
+				}
+			);
+		}
+		return result.data;
+	}
+
+	private mergeRefinedTasks(
+		refined: z.infer<typeof refinedResponseSchema>,
+		drafts: Task[]
+	): Task[] {
+		const draftsById = new Map(drafts.map((task) => [task.id, task]));
+		const ids = new Set(refined.tasks.map((task) => String(task.id)));
+
+		return refined.tasks.map((task) => {
+			const id = String(task.id);
+			const draft = draftsById.get(id);
+			const priority =
+				task.priority && PRIORITIES.includes(task.priority)
+					? task.priority
+					: (draft?.priority ?? this.defaultPriority);
+			const dependencies = [
+				...new Set((task.dependencies ?? []).map(String))
+			].filter((dependency) => dependency !== id && ids.has(dependency));
+
+			const subtasks: Subtask[] = task.subtasks
+				? task.subtasks.map((subtask) => {
+						const draftSubtask = draft?.subtasks.find(
+							(candidate) => String(candidate.id) === String(subtask.id)
+						);
+						return {
+							id: subtask.id,
+							parentId: id,
+							title: subtask.title,
+							description: subtask.description ?? subtask.title,
+							status: draftSubtask?.status ?? 'pending',
+							priority,
+							dependencies: (subtask.dependencies ?? []).map(String),
+							details: subtask.details ?? '',
+							testStrategy: ''
+						};
+					})
+				: (draft?.subtasks ?? []);
+
+			return {
+				id,
+				title: task.title,
+				description: task.description ?? draft?.description ?? task.title,
+				status: draft?.status ?? 'pending',
+				priority,
+				dependencies,
+				details: task.details ?? draft?.details ?? '',
+				testStrategy: task.testStrategy ?? draft?.testStrategy ?? '',
+				subtasks
+			};
+		});
+	}
+}
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Unit tests for task list sorting, cursors and field selection
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../../../common/types/index.js';
+import {
+	decodeTaskCursor,
+	encodeTaskCursor,
+	findTaskAfterCursor,
+	parseTaskFields,
+	parseTaskSort,
+	pickTaskFields,
+	sortTasks
+} from './task-list-options.js';
+
+const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: [],
+	...overrides
+});
+
+const tasks = [
+	createTask('10', { priority: 'high', complexity: 4 }),
+	createTask('2', { priority: 'low', status: 'done' }),
+	createTask('9', { priority: 'high', complexity: 7 }),
+	createTask('1', { priority: 'critical', dependencies: ['2', '9'] })
+];
+
+const ids = (sort: string) =>
+	sortTasks(tasks, parseTaskSort(sort)).map((task) => task.id);
+
+describe('task list options', () => {
+	it('should sort by several keys, enums by rank and IDs numerically', () => {
+		expect(ids('id')).toEqual(['1', '2', '9', '10']);
+		expect(ids('priority:desc,id')).toEqual(['1', '9', '10', '2']);
+		expect(ids('status,dependencies:desc')).toEqual(['1', '10', '9', '2']);
+	});
+
+	it('should put tasks without a value last in both directions', () => {
+		expect(ids('complexity')).toEqual(['10', '9', '2', '1']);
+		expect(ids('complexity:desc')).toEqual(['9', '10', '2', '1']);
+	});
+
+	it('should reject unknown fields and directions', () => {
+		expect(() => parseTaskSort('colour')).toThrow(
+			'Unknown task field "colour"'
+		);
+		expect(() => parseTaskSort('id:up')).toThrow('Invalid sort key "id:up"');
+		expect(() => parseTaskFields('id,secret')).toThrow(
+			expect.objectContaining({ code: 'VALIDATION_ERROR' })
+		);
+	});
+
+	it('should select fields, always keeping the ID', () => {
+		const [task] = tasks;
+
+		expect(pickTaskFields(task, parseTaskFields('title, status'))).toEqual({
+			id: '10',
+			title: 'Task 10',
+			status: 'pending'
+		});
+		expect(pickTaskFields(task, ['assignee'])).toEqual({ id: '10' });
+	});
+
+	it('should round-trip cursors and reject malformed ones', () => {
+		const sort = parseTaskSort('priority:desc');
+
+		expect(decodeTaskCursor(encodeTaskCursor(tasks[0], sort))).toEqual({
+			after: '10',
+			sort,
+			values: [2]
+		});
+		expect(() => decodeTaskCursor('not-a-cursor')).toThrow(
+			'Invalid pagination cursor'
+		);
+	});
+
+	it('should continue after the task of a cursor', () => {
+		const sort = parseTaskSort('priority:desc,id');
+		const sorted = sortTasks(tasks, sort);
+		const cursor = decodeTaskCursor(encodeTaskCursor(sorted[1], sort));
+
+		expect(findTaskAfterCursor(sorted, cursor, sort)).toBe(2);
+	});
+
+	it('should continue from the next task when the task of a cursor left the list', () => {
+		const sort = parseTaskSort('priority:desc');
+		const sorted = sortTasks(tasks, [
+			...sort,
+			{ field: 'id', direction: 'asc' }
+		]);
+		const cursor = decodeTaskCursor(encodeTaskCursor(sorted[1], sort));
+		const remaining = sorted.filter((task) => task.id !== cursor.after);
+
+		expect(remaining.map((task) => task.id)).toEqual(['1', '10', '2']);
+		expect(remaining[findTaskAfterCursor(remaining, cursor, sort)].id).toBe(
+			'10'
+		);
+		expect(findTaskAfterCursor(remaining.slice(0, 1), cursor, sort)).toBe(1);
+	});
+
+	it('should continue by ID in an unsorted list', () => {
+		const cursor = decodeTaskCursor(encodeTaskCursor(createTask('5')));
+
+		expect(findTaskAfterCursor(sortTasks(tasks, []), cursor)).toBe(0);
+		expect(
+			findTaskAfterCursor([createTask('3'), createTask('7')], cursor)
+		).toBe(1);
+	});
+
+	it('should reject a cursor of a list with a different sort', () => {
+		const cursor = decodeTaskCursor(
+			encodeTaskCursor(tasks[0], parseTaskSort('priority'))
+		);
+
+		expect(() =>
+			findTaskAfterCursor(tasks, cursor, parseTaskSort('id'))
+		).toThrow('different sort');
+	});
+});
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Sorting, pagination cursors and field selection for task lists
+ */
+
+import {
+	TASK_COMPLEXITIES,
+	TASK_PRIORITIES,
+	TASK_STATUSES
+} from '../../../common/constants/index.js';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type {
+	Task,
+	TaskComplexity,
+	TaskPriority,
+	TaskSortOptions,
+	TaskStatus
+} from '../../../common/types/index.js';
+
+/**
+ * Task fields that can be sorted on and selected
+ */
+export const TASK_FIELDS: readonly (keyof Task)[] = [
+	'id',
+	'title',
+	'description',
+	'status',
+	'priority',
+	'dependencies',
+	'details',
+	'testStrategy',
+	'subtasks',
+	'createdAt',
+	'updatedAt',
+	'effort',
+	'actualEffort',
+	'tags',
+	'assignee',
+	'databaseId',
+	'complexity',
+	'recommendedSubtasks',
+	'expansionPrompt',
+	'complexityReasoning'
+];
+
+/**
+ * Parse a sort specification such as `priority:desc,id`
+ * Keys are applied in order; the direction defaults to ascending.
+ * @throws {TaskMasterError} VALIDATION_ERROR for unknown fields or directions
+ */
+export function parseTaskSort(spec: string): TaskSortOptions[] {
+	return splitList(spec).map((key) => {
+		const [field, direction = 'asc', ...rest] = key.split(':');
+		if (rest.length > 0 || (direction !== 'asc' && direction !== 'desc')) {
+			throw new TaskMasterError(
+				`Invalid sort key "${key}" (use field, field:asc or field:desc)`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ sort: spec }
+			);
+		}
+		return { field: toField(field, 'sort'), direction };
+	});
+}
+
+/**
+ * Parse a comma-separated list of task fields such as `id,title,status`
+ * @throws {TaskMasterError} VALIDATION_ERROR for unknown fields
+ */
+export function parseTaskFields(spec: string): Array<keyof Task> {
+	return splitList(spec).map((field) => toField(field, 'fields'));
+}
+
+/**
+ * Sort tasks by several keys. Tasks without a value for a key come last in
+ * either direction, and ties keep their original order.
+ */
+export function sortTasks<T extends Task>(
+	tasks: T[],
+	sort: TaskSortOptions[]
+): T[] {
+	return [...tasks].sort((a, b) => {
+		for (const { field, direction } of sort) {
+			const order = compareSortValues(
+				sortValue(a, field),
+				sortValue(b, field),
+				direction
+			);
+			if (order !== 0) {
+				return order;
+			}
+		}
+		return 0;
+	});
+}
+
+/**
+ * Copy of a task with only the selected fields (the ID is always kept)
+ */
+export function pickTaskFields(
+	task: Task,
+	fields: ReadonlyArray<keyof Task>
+): Partial<Task> {
+	const picked: Partial<Task> = { id: task.id };
+	for (const field of fields) {
+		if (task[field] !== undefined) {
+			(picked as Record<string, unknown>)[field] = task[field];
+		}
+	}
+	return picked;
+}
+
+/**
+ * Position in a sorted task list, after the last task of a page
+ */
+export interface TaskCursor {
+	/** ID of the task the cursor points after */
+	after: string;
+	/** The sort the list was in */
+	sort: TaskSortOptions[];
+	/** Values of the sort keys of that task */
+	values: Array<string | number | null>;
+}
+
+/**
+ * Opaque cursor pointing after a task of a list in the given sort
+ */
+export function encodeTaskCursor(
+	task: Task,
+	sort: TaskSortOptions[] = []
+): string {
+	const cursor: TaskCursor = {
+		after: String(task.id),
+		sort,
+		values: sort.map(({ field }) => sortValue(task, field))
+	};
+	return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor created by encodeTaskCursor
+ * @throws {TaskMasterError} VALIDATION_ERROR for malformed cursors
+ */
+export function decodeTaskCursor(cursor: string): TaskCursor {
+	try {
+		const decoded = JSON.parse(
+			Buffer.from(cursor, 'base64url').toString('utf-8')
+		);
+		if (
+			typeof decoded.after === 'string' &&
+			Array.isArray(decoded.sort) &&
+			Array.isArray(decoded.values) &&
+			decoded.sort.length === decoded.values.length
+		) {
+			return decoded;
+		}
+	} catch {
+		// Reported below
+	}
+	throw new TaskMasterError(
+		'Invalid pagination cursor',
+		ERROR_CODES.VALIDATION_ERROR,
+		{ cursor }
+	);
+}
+
+/**
+ * Index of the first task after a cursor in a list sorted the same way.
+ * When the cursor's task left the list (e.g. it no longer matches the
+ * filter), the list continues from the first task that sorts after the
+ * cursor's sort key values, with the ID breaking ties.
+ * @throws {TaskMasterError} VALIDATION_ERROR when the list is sorted differently
+ */
+export function findTaskAfterCursor(
+	tasks: Task[],
+	cursor: TaskCursor,
+	sort: TaskSortOptions[] = []
+): number {
+	if (JSON.stringify(cursor.sort) !== JSON.stringify(sort)) {
+		throw new TaskMasterError(
+			'The pagination cursor belongs to a list with a different sort',
+			ERROR_CODES.VALIDATION_ERROR,
+			{ cursorSort: cursor.sort, sort }
+		);
+	}
+
+	const index = tasks.findIndex((task) => String(task.id) === cursor.after);
+	if (index !== -1) {
+		return index + 1;
+	}
+
+	const next = tasks.findIndex((task) => {
+		for (const [i, { field, direction }] of sort.entries()) {
+			const order = compareSortValues(
+				sortValue(task, field),
+				cursor.values[i],
+				direction
+			);
+			if (order !== 0) {
+				return order > 0;
+			}
+		}
+		return compareSortValues(String(task.id), cursor.after, 'asc') > 0;
+	});
+	return next === -1 ? tasks.length : next;
+}
+
+/**
+ * Order of two sort values; missing values come last in either direction
+ */
+function compareSortValues(
+	left: string | number | null,
+	right: string | number | null,
+	direction: TaskSortOptions['direction']
+): number {
+	if (left === null || right === null) {
+		return left === right ? 0 : left === null ? 1 : -1;
+	}
+	const order =
+		typeof left === 'number' && typeof right === 'number'
+			? left - right
+			: String(left).localeCompare(String(right), undefined, {
+					numeric: true,
+					sensitivity: 'base'
+				});
+	return direction === 'desc' ? -order : order;
+}
+
+/**
+ * Comparable value of a field: enums by rank, arrays by length, missing
+ * values as null
+ */
+function sortValue(task: Task, field: keyof Task): string | number | null {
+	const value = task[field];
+	if (value === undefined || value === null || value === '') {
+		return null;
+	}
+	switch (field) {
+		case 'status':
+			return TASK_STATUSES.indexOf(value as TaskStatus);
+		case 'priority':
+			return TASK_PRIORITIES.indexOf(value as TaskPriority);
+		case 'complexity':
+			return typeof value === 'number'
+				? value
+				: TASK_COMPLEXITIES.indexOf(value as TaskComplexity);
+	}
+	if (Array.isArray(value)) {
+		return value.length;
+	}
+	return typeof value === 'number' ? value : String(value);
+}
+
+function toField(name: string, option: string): keyof Task {
+	const field = TASK_FIELDS.find((candidate) => candidate === name.trim());
+	if (!field) {
+		throw new TaskMasterError(
+			`Unknown task field "${name}" in ${option} (use ${TASK_FIELDS.join(', ')})`,
+			ERROR_CODES.VALIDATION_ERROR,
+			{ [option]: name }
+		);
+	}
+	return field;
+}
+
+function splitList(spec: string): string[] {
+	return spec
+		.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Unit tests for the task query language
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../../../common/types/index.js';
+import { TaskQuery } from './task-query.js';
+
+const now = new Date('2025-06-15T12:00:00Z');
+
+const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: [],
+	...overrides
+});
+
+const tasks: Task[] = [
+	createTask('1', {
+		status: 'done',
+		priority: 'high',
+		complexity: 3,
+		updatedAt: '2025-06-14T12:00:00Z'
+	}),
+	createTask('2', {
+		title: 'Add user auth',
+		priority: 'critical',
+		dependencies: ['1'],
+		complexity: 8,
+		updatedAt: '2025-05-01T00:00:00Z',
+		tags: ['backend']
+	}),
+	createTask('3', {
+		details: 'Wire the auth screens',
+		dependencies: ['2'],
+		complexity: 'complex',
+		assignee: 'sam'
+	})
+];
+
+const ids = (query: string, savedQueries?: Record<string, string>) =>
+	TaskQuery.parse(query, { now, savedQueries })
+		.filter(tasks)
+		.map((task) => task.id);
+
+describe('TaskQuery', () => {
+	it('should match every term of a query', () => {
+		expect(ids('status:pending priority>=high')).toEqual(['2']);
+		expect(ids('status:pending,done -priority:medium')).toEqual(['1', '2']);
+		expect(ids('priority!=critical')).toEqual(['1', '3']);
+		expect(ids('')).toEqual(['1', '2', '3']);
+	});
+
+	it('should filter on dependencies and their statuses', () => {
+		expect(ids('dep:none')).toEqual(['1']);
+		expect(ids('dep:ready')).toEqual(['1', '2']);
+		expect(ids('dep:blocked')).toEqual(['3']);
+		expect(ids('deps:2')).toEqual(['3']);
+		expect(ids('dep>0')).toEqual(['2', '3']);
+	});
+
+	it('should compare complexity scores and levels separately', () => {
+		expect(ids('complexity>6')).toEqual(['2']);
+		expect(ids('complexity<=5')).toEqual(['1']);
+		expect(ids('complexity>=moderate')).toEqual(['3']);
+	});
+
+	it('should compare dates and ages', () => {
+		expect(ids('updated<7d')).toEqual(['1']);
+		expect(ids('updated>2w')).toEqual(['2']);
+		expect(ids('updated>=2025-05-01')).toEqual(['1', '2']);
+	});
+
+	it('should search text, tags and assignees', () => {
+		expect(ids('title~auth')).toEqual(['2']);
+		expect(ids('auth')).toEqual(['2', '3']);
+		expect(ids('"user auth"')).toEqual(['2']);
+		expect(ids('title="task 1"')).toEqual(['1']);
+		expect(ids('tags:backend')).toEqual(['2']);
+		expect(ids('assignee:none')).toEqual(['1', '2']);
+	});
+
+	it('should expand saved queries', () => {
+		const saved = { open: 'status:pending', urgent: '@open priority>=high' };
+
+		expect(ids('@urgent', saved)).toEqual(['2']);
+		expect(() => ids('@missing', saved)).toThrow(
+			'Unknown saved query "@missing"'
+		);
+		expect(() => ids('@loop', { loop: '@loop' })).toThrow('refers to itself');
+	});
+
+	it('should reject malformed terms', () => {
+		const invalid = [
+			['colour:red', 'Unknown field "colour"'],
+			['status:started', 'Invalid status "started"'],
+			['status>pending', 'Operator ">" is not supported for status'],
+			['updated<soon', 'Invalid date "soon"'],
+			['effort>much', 'Expected a number for effort'],
+			['title~"auth', 'Unterminated quote']
+		];
+
+		for (const [query, message] of invalid) {
+			expect(() => TaskQuery.parse(query)).toThrow(message);
+		}
+		expect(() => TaskQuery.parse('status:started')).toThrow(
+			expect.objectContaining({ code: 'VALIDATION_ERROR' })
+		);
+	});
+});
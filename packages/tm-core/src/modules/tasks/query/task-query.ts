@@ -0,0 +1,566 @@
+/**
+ * @fileoverview TaskQuery - A small query language for filtering tasks
+ * A query is a list of space-separated terms that must all match, e.g.
+ * `status:pending priority>=high dep:none complexity>6 updated<7d title~auth`
+ */
+
+import {
+	TASK_COMPLEXITIES,
+	TASK_PRIORITIES,
+	TASK_STATUSES
+} from '../../../common/constants/index.js';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type {
+	Task,
+	TaskComplexity,
+	TaskPriority,
+	TaskStatus
+} from '../../../common/types/index.js';
+
+/**
+ * Comparison operators a term can use
+ */
+export type TaskQueryOperator =
+	| ':'
+	| '='
+	| '!='
+	| '>'
+	| '>='
+	| '<'
+	| '<='
+	| '~';
+
+/**
+ * A single parsed query term
+ */
+export interface TaskQueryTerm {
+	/** Canonical field name, or `text` for bare words */
+	field: string;
+	operator: TaskQueryOperator;
+	/** Alternatives of `:`, `=` and `!=` terms; one value otherwise */
+	values: string[];
+	/** Term was prefixed with `-` */
+	negated: boolean;
+}
+
+/**
+ * Options for TaskQuery.parse
+ */
+export interface TaskQueryOptions {
+	/** Named queries that `@name` terms expand to */
+	savedQueries?: Record<string, string>;
+	/** Reference time for relative dates such as `updated<7d` (default: now) */
+	now?: Date;
+}
+
+type FieldKind =
+	| 'id'
+	| 'status'
+	| 'priority'
+	| 'complexity'
+	| 'dependencies'
+	| 'subtasks'
+	| 'date'
+	| 'text'
+	| 'list'
+	| 'number';
+
+interface FieldDefinition {
+	kind: FieldKind;
+	/** Value of the field on a task (unused by id, dependencies and subtasks) */
+	get?: (task: Task) => unknown;
+}
+
+/**
+ * Statuses of every task and subtask, for dependency terms
+ */
+type QueryContext = Map<string, TaskStatus>;
+
+type Predicate = (task: Task, context: QueryContext) => boolean;
+
+const FIELDS: Record<string, FieldDefinition> = {
+	id: { kind: 'id' },
+	status: { kind: 'status', get: (task) => task.status },
+	priority: { kind: 'priority', get: (task) => task.priority },
+	complexity: { kind: 'complexity', get: (task) => task.complexity },
+	dep: { kind: 'dependencies' },
+	subtasks: { kind: 'subtasks' },
+	created: { kind: 'date', get: (task) => task.createdAt },
+	updated: { kind: 'date', get: (task) => task.updatedAt },
+	title: { kind: 'text', get: (task) => task.title },
+	description: { kind: 'text', get: (task) => task.description },
+	details: { kind: 'text', get: (task) => task.details },
+	text: {
+		kind: 'text',
+		get: (task) => [task.title, task.description, task.details].join('\n')
+	},
+	tags: { kind: 'list', get: (task) => task.tags },
+	assignee: { kind: 'list', get: (task) => task.assignee },
+	effort: { kind: 'number', get: (task) => task.effort }
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+	deps: 'dep',
+	dependencies: 'dep',
+	tag: 'tags',
+	label: 'tags',
+	desc: 'description'
+};
+
+const OPERATORS_BY_KIND: Record<FieldKind, TaskQueryOperator[]> = {
+	id: [':', '=', '!=', '>', '>=', '<', '<='],
+	status: [':', '=', '!='],
+	priority: [':', '=', '!=', '>', '>=', '<', '<='],
+	complexity: [':', '=', '!=', '>', '>=', '<', '<='],
+	dependencies: [':', '=', '!=', '>', '>=', '<', '<='],
+	subtasks: [':', '=', '!=', '>', '>=', '<', '<='],
+	date: ['>', '>=', '<', '<='],
+	text: [':', '=', '!=', '~'],
+	list: [':', '=', '!='],
+	number: [':', '=', '!=', '>', '>=', '<', '<=']
+};
+
+const TERM_PATTERN = /^(-)?([a-zA-Z]+)(>=|<=|!=|:|=|>|<|~)(.+)$/;
+const DURATION_PATTERN = /^(\d+)([mhdw])$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/;
+
+const DURATION_MS: Record<string, number> = {
+	m: 60_000,
+	h: 3_600_000,
+	d: 86_400_000,
+	w: 604_800_000
+};
+
+/**
+ * A parsed task query
+ *
+ * Terms have the form `field<op>value`, where op is one of
+ * `: = != > >= < <= ~`. Bare words search title, description and details,
+ * a leading `-` negates a term, `a,b` matches either value and `@name`
+ * expands a saved query.
+ */
+export class TaskQuery {
+	private constructor(
+		readonly source: string,
+		readonly terms: TaskQueryTerm[],
+		private readonly predicates: Predicate[]
+	) {}
+
+	/**
+	 * Parse a query
+	 * @throws {TaskMasterError} VALIDATION_ERROR for malformed terms
+	 */
+	static parse(source: string, options: TaskQueryOptions = {}): TaskQuery {
+		const now = (options.now ?? new Date()).getTime();
+		const terms = expand(source, options.savedQueries ?? {}, []);
+		return new TaskQuery(
+			source,
+			terms,
+			terms.map((term) => compile(term, now))
+		);
+	}
+
+	/**
+	 * Tasks matching every term
+	 * @param allTasks - Tasks whose statuses dependency terms look up (default: tasks)
+	 */
+	filter<T extends Task>(tasks: T[], allTasks: Task[] = tasks): T[] {
+		const context = createContext(allTasks);
+		return tasks.filter((task) => this.test(task, context));
+	}
+
+	/**
+	 * Whether a task matches every term
+	 * @param allTasks - Tasks whose statuses dependency terms look up
+	 */
+	matches(task: Task, allTasks: Task[] = [task]): boolean {
+		return this.test(task, createContext(allTasks));
+	}
+
+	private test(task: Task, context: QueryContext): boolean {
+		return this.predicates.every((predicate) => predicate(task, context));
+	}
+}
+
+/**
+ * Split a query into terms, expanding saved queries
+ */
+function expand(
+	source: string,
+	savedQueries: Record<string, string>,
+	expanding: string[]
+): TaskQueryTerm[] {
+	return tokenize(source).flatMap((token) => {
+		if (token.startsWith('@') && token.length > 1) {
+			const name = token.slice(1);
+			const saved = Object.hasOwn(savedQueries, name)
+				? savedQueries[name]
+				: undefined;
+			if (saved === undefined) {
+				throw invalid(`Unknown saved query "@${name}"`, source, {
+					savedQueries: Object.keys(savedQueries)
+				});
+			}
+			if (expanding.includes(name)) {
+				throw invalid(`Saved query "@${name}" refers to itself`, source);
+			}
+			return expand(saved, savedQueries, [...expanding, name]);
+		}
+		return [parseTerm(token, source)];
+	});
+}
+
+/**
+ * Split on whitespace outside double quotes
+ */
+function tokenize(source: string): string[] {
+	const tokens: string[] = [];
+	let current = '';
+	let quoted = false;
+
+	for (const char of source) {
+		if (char === '"') {
+			quoted = !quoted;
+			current += char;
+		} else if (/\s/.test(char) && !quoted) {
+			if (current) {
+				tokens.push(current);
+			}
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+	if (quoted) {
+		throw invalid('Unterminated quote', source);
+	}
+	if (current) {
+		tokens.push(current);
+	}
+	return tokens;
+}
+
+function parseTerm(token: string, source: string): TaskQueryTerm {
+	const match = TERM_PATTERN.exec(token);
+	const name = match?.[2].toLowerCase() ?? '';
+	const field = Object.hasOwn(FIELD_ALIASES, name) ? FIELD_ALIASES[name] : name;
+
+	if (!match || !Object.hasOwn(FIELDS, field)) {
+		// URLs look like terms but are searched for as text
+		if (match && !/^-?https?:/i.test(token)) {
+			throw invalid(`Unknown field "${match[2]}"`, source, {
+				fields: Object.keys(FIELDS)
+			});
+		}
+		const negated = token.startsWith('-') && token.length > 1;
+		const word = unquote(negated ? token.slice(1) : token);
+		return { field: 'text', operator: '~', values: [word], negated };
+	}
+
+	const operator = match[3] as TaskQueryOperator;
+	const kind = FIELDS[field].kind;
+	if (!OPERATORS_BY_KIND[kind].includes(operator)) {
+		throw invalid(
+			`Operator "${operator}" is not supported for ${field} (use ${OPERATORS_BY_KIND[kind].join(' ')})`,
+			source
+		);
+	}
+
+	const raw = match[4];
+	const values =
+		operator === ':' || operator === '=' || operator === '!='
+			? splitValues(raw)
+			: [unquote(raw)];
+	if (values.some((value) => value === '')) {
+		throw invalid(`Missing value in "${token}"`, source);
+	}
+
+	return { field, operator, values, negated: match[1] === '-' };
+}
+
+/**
+ * Split a value on commas outside double quotes
+ */
+function splitValues(raw: string): string[] {
+	const values: string[] = [];
+	let current = '';
+	let quoted = false;
+	for (const char of raw) {
+		if (char === '"') {
+			quoted = !quoted;
+		} else if (char === ',' && !quoted) {
+			values.push(current.trim());
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+	values.push(current.trim());
+	return values;
+}
+
+function unquote(value: string): string {
+	return value.replace(/"/g, '');
+}
+
+function compile(term: TaskQueryTerm, now: number): Predicate {
+	const predicate = compileField(term, now);
+	const inverted = (term.operator === '!=') !== term.negated;
+	return inverted ? (task, context) => !predicate(task, context) : predicate;
+}
+
+/**
+ * Build the predicate of a term, ignoring `-` and treating `!=` as `=`
+ */
+function compileField(term: TaskQueryTerm, now: number): Predicate {
+	const { field, values } = term;
+	const operator = term.operator === '!=' ? '=' : term.operator;
+	const definition = FIELDS[field];
+	const get = definition.get ?? (() => undefined);
+
+	switch (definition.kind) {
+		case 'id': {
+			if (operator === ':' || operator === '=') {
+				return (task) => values.includes(String(task.id));
+			}
+			const target = toNumber(values[0], term);
+			return (task) => compare(Number(task.id), operator, target);
+		}
+
+		case 'status': {
+			for (const value of values) {
+				if (!TASK_STATUSES.includes(value as TaskStatus)) {
+					throw invalidValue(term, value, TASK_STATUSES);
+				}
+			}
+			return (task) => values.includes(task.status);
+		}
+
+		case 'priority': {
+			const ranks = values.map((value) => {
+				const rank = TASK_PRIORITIES.indexOf(value as TaskPriority);
+				if (rank === -1) {
+					throw invalidValue(term, value, TASK_PRIORITIES);
+				}
+				return rank;
+			});
+			return (task) => {
+				const rank = TASK_PRIORITIES.indexOf(get(task) as TaskPriority);
+				return rank !== -1 && matchesAny(rank, operator, ranks);
+			};
+		}
+
+		case 'complexity': {
+			// Scores from the complexity report (1-10) or named levels, each
+			// only compared with the same kind of value
+			const targets = values.map((value) => toComplexity(value, term));
+			return (task) => {
+				const complexity = get(task) as TaskComplexity | number | undefined;
+				if (complexity === undefined || complexity === null) {
+					return false;
+				}
+				const numeric = typeof complexity === 'number';
+				const actual = numeric
+					? complexity
+					: TASK_COMPLEXITIES.indexOf(complexity);
+				return targets.some(
+					(target) =>
+						target.numeric === numeric &&
+						compare(actual, operator, target.value)
+				);
+			};
+		}
+
+		case 'dependencies': {
+			if (operator !== ':' && operator !== '=') {
+				const count = toNumber(values[0], term);
+				return (task) => compare(task.dependencies.length, operator, count);
+			}
+			return (task, context) =>
+				values.some((value) => {
+					const dependencies = task.dependencies.map(String);
+					switch (value) {
+						case 'none':
+							return dependencies.length === 0;
+						case 'any':
+							return dependencies.length > 0;
+						case 'ready':
+							return dependencies.every((id) => context.get(id) === 'done');
+						case 'blocked':
+							return dependencies.some((id) => context.get(id) !== 'done');
+						default:
+							return dependencies.includes(value);
+					}
+				});
+		}
+
+		case 'subtasks': {
+			if (operator === ':' || operator === '=') {
+				return (task) =>
+					values.some((value) => {
+						const count = task.subtasks?.length ?? 0;
+						if (value === 'none') return count === 0;
+						if (value === 'any') return count > 0;
+						return count === toNumber(value, term);
+					});
+			}
+			const count = toNumber(values[0], term);
+			return (task) => compare(task.subtasks?.length ?? 0, operator, count);
+		}
+
+		case 'date': {
+			const value = values[0];
+			const duration = DURATION_PATTERN.exec(value);
+			if (duration) {
+				// `updated<7d` reads as "updated less than 7 days ago"
+				const age = Number(duration[1]) * DURATION_MS[duration[2]];
+				return (task) => {
+					const time = toTime(get(task));
+					return time !== null && compare(now - time, operator, age);
+				};
+			}
+			const target = DATE_PATTERN.test(value) ? Date.parse(value) : NaN;
+			if (Number.isNaN(target)) {
+				throw invalid(
+					`Invalid date "${value}" for ${field} (use YYYY-MM-DD or an age like 30m, 12h, 7d, 2w)`,
+					term
+				);
+			}
+			return (task) => {
+				const time = toTime(get(task));
+				return time !== null && compare(time, operator, target);
+			};
+		}
+
+		case 'text': {
+			const needles = values.map((value) => value.toLowerCase());
+			return (task) => {
+				const text = String(get(task) ?? '').toLowerCase();
+				return operator === '='
+					? needles.includes(text)
+					: needles.some((needle) => text.includes(needle));
+			};
+		}
+
+		case 'list': {
+			const wanted = values.map((value) => value.toLowerCase());
+			return (task) => {
+				const value = get(task);
+				const items = (Array.isArray(value) ? value : [value])
+					.filter((item) => item !== undefined && item !== null && item !== '')
+					.map((item) => String(item).toLowerCase());
+				return wanted.some((item) =>
+					item === 'none' ? items.length === 0 : items.includes(item)
+				);
+			};
+		}
+
+		case 'number': {
+			const targets = values.map((value) => toNumber(value, term));
+			return (task) => {
+				const value = get(task);
+				return (
+					typeof value === 'number' && matchesAny(value, operator, targets)
+				);
+			};
+		}
+	}
+}
+
+function createContext(tasks: Task[]): QueryContext {
+	const statuses: QueryContext = new Map();
+	for (const task of tasks) {
+		statuses.set(String(task.id), task.status);
+		for (const subtask of task.subtasks ?? []) {
+			statuses.set(`${task.id}.${subtask.id}`, subtask.status);
+		}
+	}
+	return statuses;
+}
+
+function matchesAny(
+	actual: number,
+	operator: TaskQueryOperator,
+	targets: number[]
+): boolean {
+	return targets.some((target) => compare(actual, operator, target));
+}
+
+function compare(
+	actual: number,
+	operator: TaskQueryOperator,
+	target: number
+): boolean {
+	switch (operator) {
+		case '>':
+			return actual > target;
+		case '>=':
+			return actual >= target;
+		case '<':
+			return actual < target;
+		case '<=':
+			return actual <= target;
+		default:
+			return actual === target;
+	}
+}
+
+function toNumber(value: string, term: TaskQueryTerm): number {
+	const number = Number(value);
+	if (value.trim() === '' || Number.isNaN(number)) {
+		throw invalid(`Expected a number for ${term.field}, got "${value}"`, term);
+	}
+	return number;
+}
+
+function toComplexity(
+	value: string,
+	term: TaskQueryTerm
+): { numeric: boolean; value: number } {
+	const level = TASK_COMPLEXITIES.indexOf(value as TaskComplexity);
+	if (level !== -1) {
+		return { numeric: false, value: level };
+	}
+	const number = Number(value);
+	if (Number.isNaN(number)) {
+		throw invalidValue(term, value, [...TASK_COMPLEXITIES, '1-10']);
+	}
+	return { numeric: true, value: number };
+}
+
+function toTime(value: unknown): number | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+	const time = Date.parse(value);
+	return Number.isNaN(time) ? null : time;
+}
+
+function invalidValue(
+	term: TaskQueryTerm,
+	value: string,
+	allowed: readonly string[]
+): TaskMasterError {
+	return invalid(
+		`Invalid ${term.field} "${value}" (use ${allowed.join(', ')})`,
+		term
+	);
+}
+
+function invalid(
+	message: string,
+	query: string | TaskQueryTerm,
+	context: Record<string, unknown> = {}
+): TaskMasterError {
+	return new TaskMasterError(
+		`Invalid query: ${message}`,
+		ERROR_CODES.VALIDATION_ERROR,
+		{
+			...(typeof query === 'string' ? { query } : { term: query }),
+			...context
+		}
+	);
+}
@@ -39,16 +39,25 @@ export class SupabaseRepository {
 	private dependencyFetcher: DependencyFetcher;
 	private authManager: AuthManager;
 
-	constructor(private supabase: SupabaseClient<Database>) {
+	/**
+	 * @param briefId - Brief to use instead of the brief selected in the auth context
+	 */
+	constructor(
+		private supabase: SupabaseClient<Database>,
+		private readonly briefId?: string
+	) {
 		this.dependencyFetcher = new DependencyFetcher(supabase);
 		this.authManager = AuthManager.getInstance();
 	}
 
 	/**
-	 * Gets the current brief ID from auth context
+	 * Gets the brief ID given to the constructor, or the current one from auth context
 	 * @throws {Error} If no brief is selected
 	 */
 	private getBriefIdOrThrow(): string {
+		if (this.briefId) {
+			return this.briefId;
+		}
 		const context = this.authManager.getContext();
 		if (!context?.briefId) {
 			throw new Error(
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview EmbeddingIndex - Local cache of task embeddings per tag
+ *
+ * Vectors are kept in .taskmaster/search/{tag}.json next to the project and
+ * only recomputed for tasks whose text changed, or when the provider changes.
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { EmbeddingProvider } from './types.js';
+
+interface IndexFile {
+	provider: string;
+	vectors: Record<string, { hash: string; vector: number[] }>;
+}
+
+/**
+ * Text of an item to embed, keyed by a stable ID
+ */
+export interface EmbeddingEntry {
+	id: string;
+	text: string;
+}
+
+export class EmbeddingIndex {
+	private readonly indexDir: string;
+
+	constructor(
+		projectPath: string,
+		private readonly provider: EmbeddingProvider
+	) {
+		this.indexDir = path.join(projectPath, '.taskmaster', 'search');
+	}
+
+	/**
+	 * Vectors of the entries, embedding only new or changed texts
+	 * Entries no longer present are dropped from the tag's index.
+	 */
+	async vectors(
+		tag: string,
+		entries: EmbeddingEntry[]
+	): Promise<Map<string, number[]>> {
+		const index = await this.load(tag);
+		const next: IndexFile = { provider: this.provider.id, vectors: {} };
+		const stale: Array<EmbeddingEntry & { hash: string }> = [];
+
+		for (const entry of entries) {
+			const hash = hashText(entry.text);
+			const cached = index?.vectors[entry.id];
+			if (cached?.hash === hash) {
+				next.vectors[entry.id] = cached;
+			} else {
+				stale.push({ ...entry, hash });
+			}
+		}
+
+		if (stale.length > 0) {
+			const vectors = await this.provider.embed(
+				stale.map((entry) => entry.text)
+			);
+			stale.forEach((entry, i) => {
+				next.vectors[entry.id] = { hash: entry.hash, vector: vectors[i] };
+			});
+		}
+		const removed =
+			Object.keys(next.vectors).length - stale.length !==
+			Object.keys(index?.vectors ?? {}).length;
+		if (stale.length > 0 || removed) {
+			await this.save(tag, next);
+		}
+
+		return new Map(
+			Object.entries(next.vectors).map(([id, { vector }]) => [id, vector])
+		);
+	}
+
+	/**
+	 * Vector of a search text (not cached)
+	 */
+	async embedQuery(text: string): Promise<number[]> {
+		const [vector] = await this.provider.embed([text]);
+		return vector;
+	}
+
+	/**
+	 * Path of a tag's index file
+	 */
+	getIndexPath(tag: string): string {
+		return path.join(this.indexDir, `${encodeURIComponent(tag)}.json`);
+	}
+
+	private async load(tag: string): Promise<IndexFile | null> {
+		try {
+			const index: IndexFile = JSON.parse(
+				await fs.readFile(this.getIndexPath(tag), 'utf-8')
+			);
+			// Vectors of another provider are not comparable
+			return index.provider === this.provider.id ? index : null;
+		} catch {
+			// Missing or unreadable indexes are rebuilt
+			return null;
+		}
+	}
+
+	private async save(tag: string, index: IndexFile): Promise<void> {
+		const indexPath = this.getIndexPath(tag);
+		await fs.mkdir(path.dirname(indexPath), { recursive: true });
+		await fs.writeFile(indexPath, JSON.stringify(index), 'utf-8');
+	}
+}
+
+/**
+ * Cosine similarity of two vectors, 0 when either is empty
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function hashText(text: string): string {
+	return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
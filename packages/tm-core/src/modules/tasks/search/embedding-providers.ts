@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Embedding providers for semantic task search
+ * The built-in hashing provider works offline and is deterministic; real
+ * models are plugged in through modules exporting createEmbeddingProvider.
+ */
+
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import { tokenize } from './fuzzy-matcher.js';
+import type {
+	EmbeddingProvider,
+	EmbeddingProviderModule,
+	TaskSearchSettings
+} from './types.js';
+
+/**
+ * Offline embeddings from hashed words and character trigrams
+ * Captures shared vocabulary and spelling rather than meaning, which makes
+ * it a dependable stand-in for tests and machines without a model.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+	readonly id: string;
+
+	constructor(private readonly dimensions = 256) {
+		this.id = `hashing-${dimensions}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map((text) => this.embedText(text));
+	}
+
+	private embedText(text: string): number[] {
+		const vector = new Array<number>(this.dimensions).fill(0);
+		for (const word of tokenize(text)) {
+			this.add(vector, word, 1);
+			const padded = `#${word}#`;
+			for (let i = 0; i + 3 <= padded.length; i++) {
+				this.add(vector, padded.slice(i, i + 3), 0.5);
+			}
+		}
+		const norm = Math.hypot(...vector);
+		return norm > 0 ? vector.map((value) => value / norm) : vector;
+	}
+
+	private add(vector: number[], feature: string, weight: number): void {
+		const hash = fnv1a(feature);
+		// The top bit picks the sign so that collisions tend to cancel out
+		vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+	}
+}
+
+/**
+ * Create the embedding provider configured in `search.embeddings`
+ */
+export async function createEmbeddingProvider(
+	settings: NonNullable<TaskSearchSettings['embeddings']>,
+	projectRoot: string
+): Promise<EmbeddingProvider> {
+	const { provider, options = {} } = settings;
+	if (provider === 'hashing') {
+		return new HashingEmbeddingProvider(options.dimensions);
+	}
+
+	const specifier =
+		provider.startsWith('.') || path.isAbsolute(provider)
+			? pathToFileURL(path.resolve(projectRoot, provider)).href
+			: provider;
+
+	let plugin: EmbeddingProviderModule;
+	try {
+		plugin = await import(specifier);
+	} catch (error: any) {
+		throw new TaskMasterError(
+			`Failed to load embedding provider "${provider}": ${error.message}`,
+			ERROR_CODES.CONFIG_ERROR,
+			{ provider },
+			error
+		);
+	}
+
+	const factory =
+		plugin.createEmbeddingProvider ??
+		(typeof plugin.default === 'function'
+			? plugin.default
+			: plugin.default?.createEmbeddingProvider);
+	if (typeof factory !== 'function') {
+		throw new TaskMasterError(
+			`Embedding provider module "${provider}" must export a createEmbeddingProvider function`,
+			ERROR_CODES.CONFIG_ERROR,
+			{ provider }
+		);
+	}
+	return factory(options, projectRoot);
+}
+
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Ranked fuzzy matching of search text against task fields
+ *
+ * Each word of the search text is scored against the words of every field:
+ * exact words score highest, then prefixes, substrings and words within a
+ * small edit distance (typos). Field weights favour titles over details.
+ */
+
+import type { Task } from '../../../common/types/index.js';
+import type { TaskSearchMatch } from './types.js';
+
+const FIELD_WEIGHTS = {
+	title: 1,
+	description: 0.8,
+	subtask: 0.7,
+	details: 0.6
+} as const;
+
+interface SearchableField {
+	field: TaskSearchMatch['field'];
+	subtaskId?: number | string;
+	text: string;
+	words: string[];
+}
+
+/**
+ * Fuzzy score of a task with the fields that matched
+ */
+export interface FuzzyTaskMatch {
+	score: number;
+	matches: TaskSearchMatch[];
+}
+
+/**
+ * Lowercase words of a text, split on anything that is not a letter or digit
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(Boolean);
+}
+
+/**
+ * Score a task against search text, between 0 and 1
+ */
+export function fuzzyMatchTask(task: Task, text: string): FuzzyTaskMatch {
+	const queryWords = [...new Set(tokenize(text))];
+	if (queryWords.length === 0) {
+		return { score: 0, matches: [] };
+	}
+	const phrase = queryWords.join(' ');
+
+	const matches: TaskSearchMatch[] = [];
+	const best = new Array<number>(queryWords.length).fill(0);
+	let phraseScore = 0;
+
+	for (const field of searchableFields(task)) {
+		const weight = FIELD_WEIGHTS[field.field];
+		const wordScores = queryWords.map((word) =>
+			bestWordScore(word, field.words)
+		);
+		wordScores.forEach((score, index) => {
+			best[index] = Math.max(best[index], score * weight);
+		});
+
+		// A multi-word search found verbatim scores as a full match
+		const hasPhrase =
+			queryWords.length > 1 && field.words.join(' ').includes(phrase);
+		if (hasPhrase) {
+			phraseScore = Math.max(phraseScore, weight);
+		}
+
+		const fieldScore = hasPhrase ? 1 : average(wordScores);
+		if (fieldScore > 0) {
+			matches.push({
+				field: field.field,
+				...(field.subtaskId !== undefined && { subtaskId: field.subtaskId }),
+				score: round(fieldScore)
+			});
+		}
+	}
+
+	matches.sort((a, b) => b.score - a.score);
+	return {
+		score: round(Math.max(average(best), phraseScore)),
+		matches
+	};
+}
+
+/**
+ * Text used to embed a task for semantic search
+ */
+export function taskSearchText(task: Task): string {
+	return searchableFields(task)
+		.map((field) => field.text)
+		.join('\n');
+}
+
+function searchableFields(task: Task): SearchableField[] {
+	const fields: Array<Omit<SearchableField, 'words'>> = [
+		{ field: 'title', text: task.title ?? '' },
+		{ field: 'description', text: task.description ?? '' },
+		{ field: 'details', text: task.details ?? '' },
+		...(task.subtasks ?? []).map((subtask) => ({
+			field: 'subtask' as const,
+			subtaskId: subtask.id,
+			text: [subtask.title, subtask.description, subtask.details]
+				.filter(Boolean)
+				.join('\n')
+		}))
+	];
+	return fields
+		.map((field) => ({ ...field, words: tokenize(field.text) }))
+		.filter((field) => field.words.length > 0);
+}
+
+function bestWordScore(word: string, candidates: string[]): number {
+	let best = 0;
+	for (const candidate of candidates) {
+		best = Math.max(best, wordScore(word, candidate));
+		if (best === 1) {
+			break;
+		}
+	}
+	return best;
+}
+
+function wordScore(word: string, candidate: string): number {
+	if (word === candidate) {
+		return 1;
+	}
+	if (word.length >= 2 && candidate.startsWith(word)) {
+		return 0.9;
+	}
+	if (word.length >= 3 && candidate.includes(word)) {
+		return 0.7;
+	}
+	if (word.length < 4) {
+		return 0;
+	}
+
+	// Typos: one edit for short words, two for longer ones
+	const allowed = word.length <= 5 ? 1 : 2;
+	if (Math.abs(word.length - candidate.length) > allowed) {
+		return 0;
+	}
+	const distance = editDistance(word, candidate);
+	if (distance > allowed) {
+		return 0;
+	}
+	return 0.85 * (1 - distance / Math.max(word.length, candidate.length));
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus transpositions)
+ */
+function editDistance(a: string, b: string): number {
+	const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+		Array.from({ length: b.length + 1 }, (_, j) =>
+			i === 0 ? j : j === 0 ? i : 0
+		)
+	);
+	for (let i = 1; i <= a.length; i++) {
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			rows[i][j] = Math.min(
+				rows[i - 1][j] + 1,
+				rows[i][j - 1] + 1,
+				rows[i - 1][j - 1] + cost
+			);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+			}
+		}
+	}
+	return rows[a.length][b.length];
+}
+
+function average(values: number[]): number {
+	return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(score: number): number {
+	return Math.round(score * 1000) / 1000;
+}
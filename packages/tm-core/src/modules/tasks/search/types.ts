@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Types for fuzzy and semantic task search
+ */
+
+import type { Task } from '../../../common/types/index.js';
+
+/**
+ * Turns texts into vectors for semantic search
+ * Vectors of one provider must all have the same length.
+ */
+export interface EmbeddingProvider {
+	/** Identifies the provider and model; cached vectors are reused only for the same ID */
+	readonly id: string;
+	/** Embed several texts, returning one vector per text in the same order */
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Factory exported by embedding provider modules as `createEmbeddingProvider`
+ */
+export type EmbeddingProviderFactory = (
+	options: Record<string, any>,
+	projectRoot: string
+) => EmbeddingProvider | Promise<EmbeddingProvider>;
+
+/**
+ * Shape of a module loaded from `search.embeddings.provider`
+ */
+export interface EmbeddingProviderModule {
+	createEmbeddingProvider?: EmbeddingProviderFactory;
+	default?:
+		| EmbeddingProviderFactory
+		| { createEmbeddingProvider?: EmbeddingProviderFactory };
+}
+
+/**
+ * Search settings in the `search` section of config.json
+ *
+ * @example
+ * {
+ *   "search": {
+ *     "embeddings": { "provider": "./tools/embeddings.mjs", "options": { "model": "small" } }
+ *   }
+ * }
+ */
+export interface TaskSearchSettings {
+	embeddings?: {
+		/**
+		 * `hashing` for the built-in offline provider, or a module path (relative
+		 * to the project root) or package name exporting createEmbeddingProvider
+		 */
+		provider: string;
+		/** Options passed to the provider */
+		options?: Record<string, any>;
+	};
+}
+
+/**
+ * Options for searching tasks
+ */
+export interface TaskSearchOptions {
+	/** Tag to search (defaults to the active tag) */
+	tag?: string;
+	/** Maximum number of results (default: 20) */
+	limit?: number;
+	/** Minimum score between 0 and 1 (default: 0.3) */
+	minScore?: number;
+	/**
+	 * Also rank by embedding similarity. Defaults to true when an embedding
+	 * provider is configured; true without a provider is an error.
+	 */
+	semantic?: boolean;
+}
+
+/**
+ * Part of a task that matched the search text
+ */
+export interface TaskSearchMatch {
+	field: 'title' | 'description' | 'details' | 'subtask';
+	/** Set for subtask matches */
+	subtaskId?: number | string;
+	/** How well the field matched, between 0 and 1 */
+	score: number;
+}
+
+/**
+ * A task found by a search, best matches first
+ */
+export interface TaskSearchResult {
+	task: Task;
+	/** Overall score between 0 and 1 */
+	score: number;
+	/** Score from fuzzy text matching */
+	fuzzyScore: number;
+	/** Cosine similarity of the embeddings, when semantic search ran */
+	semanticScore?: number;
+	/** Fields that matched the search text, best first */
+	matches: TaskSearchMatch[];
+}
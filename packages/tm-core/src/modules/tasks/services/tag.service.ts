@@ -267,8 +267,7 @@ export class TagService {
 		targetName: string,
 		_options: CopyTagOptions = {}
 	): Promise<void> {
-		// Validate both names
-		this.validateTagName(sourceName, 'Source tag name');
+		// Only the target is validated - any existing tag, including master, can be copied
 		this.validateTagName(targetName, 'Target tag name');
 
 		// For API storage, we can't copy tags via CLI
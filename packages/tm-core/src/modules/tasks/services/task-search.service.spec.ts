@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Tests for fuzzy and semantic task search
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Task } from '../../../common/types/index.js';
+import { HashingEmbeddingProvider } from '../search/embedding-providers.js';
+import { TaskSearchService } from './task-search.service.js';
+import type { TaskService } from './task-service.js';
+
+const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: [],
+	...overrides
+});
+
+const tasks: Task[] = [
+	createTask('1', {
+		title: 'Set up database schema',
+		details: 'Use the authentication tables from the design doc'
+	}),
+	createTask('2', {
+		title: 'Implement user authentication',
+		description: 'Login and logout with sessions'
+	}),
+	createTask('3', {
+		title: 'Build dashboard',
+		subtasks: [
+			{
+				id: 1,
+				parentId: '3',
+				title: 'Render charts',
+				description: 'Show weekly login activity',
+				status: 'pending',
+				priority: 'medium',
+				dependencies: [],
+				details: '',
+				testStrategy: ''
+			}
+		]
+	})
+];
+
+describe('TaskSearchService', () => {
+	let projectRoot: string;
+	let search: TaskSearchService;
+
+	const ids = async (text: string, options = {}) =>
+		(await search.search(text, options)).map((result) => result.task.id);
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-search-'));
+		const taskService = {
+			getActiveTag: () => 'master',
+			getTaskList: async () => ({ tasks })
+		} as unknown as TaskService;
+		search = new TaskSearchService(taskService, projectRoot);
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should rank title matches above matches in details', async () => {
+		const [first, second] = await search.search('authentication');
+
+		expect([first.task.id, second.task.id]).toEqual(['2', '1']);
+		expect(first.score).toBe(1);
+		expect(first.matches[0]).toEqual({ field: 'title', score: 1 });
+		expect(second.matches).toEqual([{ field: 'details', score: 1 }]);
+	});
+
+	it('should tolerate typos and prefixes', async () => {
+		expect(await ids('atuhentication')).toEqual(['2', '1']);
+		expect(await ids('dash')).toEqual(['3']);
+		expect(await ids('schema databse')).toEqual(['1']);
+	});
+
+	it('should search subtasks and report which one matched', async () => {
+		const results = await search.search('weekly charts');
+
+		expect(results.map((result) => result.task.id)).toEqual(['3']);
+		expect(results[0].matches).toEqual([
+			{ field: 'subtask', subtaskId: 1, score: 1 }
+		]);
+	});
+
+	it('should apply the minimum score and limit', async () => {
+		expect(await ids('login', { minScore: 0.75 })).toEqual(['2']);
+		expect(await ids('login', { limit: 1 })).toEqual(['2']);
+		await expect(search.search('  ')).rejects.toThrow(
+			'Search text is required'
+		);
+		await expect(search.search('login', { limit: 0 })).rejects.toThrow(
+			'Invalid limit 0'
+		);
+	});
+
+	it('should rank by embeddings and reuse the local index', async () => {
+		await expect(search.search('login', { semantic: true })).rejects.toThrow(
+			'Semantic search needs an embedding provider'
+		);
+
+		const provider = new HashingEmbeddingProvider();
+		const embed = vi.spyOn(provider, 'embed');
+		search.setEmbeddingProvider(provider);
+
+		const [first] = await search.search('user sessions');
+		expect(first.task.id).toBe('2');
+		expect(first.semanticScore).toBeGreaterThan(0);
+		expect(await ids('login', { semantic: false })).toEqual(['2', '3']);
+
+		// The query each time, the unchanged tasks only once
+		await search.search('dashboard charts');
+		const embedded = embed.mock.calls.map(([texts]) => texts.length);
+		expect(embedded.sort()).toEqual([1, 1, 3]);
+		const index = JSON.parse(
+			await fs.readFile(
+				path.join(projectRoot, '.taskmaster', 'search', 'master.json'),
+				'utf-8'
+			)
+		);
+		expect(index.provider).toBe('hashing-256');
+		expect(Object.keys(index.vectors)).toEqual(['1', '2', '3']);
+	});
+
+	it('should fall back to fuzzy ranking when embedding fails', async () => {
+		const provider = new HashingEmbeddingProvider();
+		vi.spyOn(provider, 'embed').mockRejectedValue(
+			new Error('embedding service unavailable')
+		);
+		search.setEmbeddingProvider(provider);
+
+		const results = await search.search('login');
+		expect(results.map((result) => result.task.id)).toEqual(['2', '3']);
+		expect(results[0].semanticScore).toBeUndefined();
+		await expect(search.search('login', { semantic: true })).rejects.toThrow(
+			'embedding service unavailable'
+		);
+	});
+});
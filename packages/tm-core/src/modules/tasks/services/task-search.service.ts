@@ -0,0 +1,155 @@
+/**
+ * @fileoverview TaskSearchService - Ranked fuzzy and semantic task search
+ * Fuzzy matching covers titles, descriptions, details and subtasks. With an
+ * embedding provider, tasks are also ranked by similarity of meaning using a
+ * local index of task embeddings.
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import { getLogger } from '../../../common/logger/factory.js';
+import type { Task } from '../../../common/types/index.js';
+import { EmbeddingIndex, cosineSimilarity } from '../search/embedding-index.js';
+import { fuzzyMatchTask, taskSearchText } from '../search/fuzzy-matcher.js';
+import type {
+	EmbeddingProvider,
+	TaskSearchOptions,
+	TaskSearchResult
+} from '../search/types.js';
+import type { TaskService } from './task-service.js';
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_MIN_SCORE = 0.3;
+
+export class TaskSearchService {
+	private readonly logger = getLogger('TaskSearchService');
+	private embeddingIndex?: EmbeddingIndex;
+
+	constructor(
+		private readonly taskService: TaskService,
+		private readonly projectRoot: string
+	) {}
+
+	/**
+	 * Use an embedding provider for semantic search, or none to turn it off
+	 */
+	setEmbeddingProvider(provider: EmbeddingProvider | undefined): void {
+		this.embeddingIndex = provider
+			? new EmbeddingIndex(this.projectRoot, provider)
+			: undefined;
+	}
+
+	hasEmbeddingProvider(): boolean {
+		return this.embeddingIndex !== undefined;
+	}
+
+	/**
+	 * Find tasks matching free text, best matches first
+	 * Without `semantic: true`, embedding failures fall back to fuzzy ranking.
+	 * @throws {TaskMasterError} VALIDATION_ERROR for empty text or bad options,
+	 * CONFIG_ERROR for semantic search without an embedding provider
+	 */
+	async search(
+		text: string,
+		options: TaskSearchOptions = {}
+	): Promise<TaskSearchResult[]> {
+		const limit = options.limit ?? DEFAULT_LIMIT;
+		const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+		if (!text.trim()) {
+			throw new TaskMasterError(
+				'Search text is required',
+				ERROR_CODES.VALIDATION_ERROR
+			);
+		}
+		if (!Number.isInteger(limit) || limit < 1) {
+			throw new TaskMasterError(
+				`Invalid limit ${limit}: expected a positive integer`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ limit }
+			);
+		}
+		if (!(minScore >= 0 && minScore <= 1)) {
+			throw new TaskMasterError(
+				`Invalid minimum score ${minScore}: expected a number between 0 and 1`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ minScore }
+			);
+		}
+		if (options.semantic && !this.embeddingIndex) {
+			throw new TaskMasterError(
+				'Semantic search needs an embedding provider (set search.embeddings in config)',
+				ERROR_CODES.CONFIG_ERROR
+			);
+		}
+
+		const tag = options.tag || this.taskService.getActiveTag();
+		const { tasks } = await this.taskService.getTaskList({ tag });
+
+		let semanticScores: Map<string, number> | undefined;
+		if (options.semantic !== false && this.embeddingIndex) {
+			try {
+				semanticScores = await this.semanticScores(
+					this.embeddingIndex,
+					tag,
+					text,
+					tasks
+				);
+			} catch (error: any) {
+				// Only fail when semantic search was asked for explicitly
+				if (options.semantic) {
+					throw error;
+				}
+				this.logger.warn(
+					`Semantic search failed, ranking by fuzzy matching only: ${error.message}`
+				);
+			}
+		}
+
+		const results: TaskSearchResult[] = tasks.map((task) => {
+			const { score: fuzzyScore, matches } = fuzzyMatchTask(task, text);
+			const semanticScore = semanticScores?.get(String(task.id));
+			return {
+				task,
+				score: Math.max(fuzzyScore, semanticScore ?? 0),
+				fuzzyScore,
+				...(semanticScore !== undefined && { semanticScore }),
+				matches
+			};
+		});
+
+		return results
+			.filter((result) => result.score > 0 && result.score >= minScore)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit);
+	}
+
+	/**
+	 * Similarity of each task's embedding to the search text, by task ID
+	 */
+	private async semanticScores(
+		index: EmbeddingIndex,
+		tag: string,
+		text: string,
+		tasks: Task[]
+	): Promise<Map<string, number>> {
+		const [vectors, query] = await Promise.all([
+			index.vectors(
+				tag,
+				tasks.map((task) => ({
+					id: String(task.id),
+					text: taskSearchText(task)
+				}))
+			),
+			index.embedQuery(text)
+		]);
+
+		const scores = new Map<string, number>();
+		for (const [id, vector] of vectors) {
+			const similarity = cosineSimilarity(query, vector);
+			scores.set(id, Math.round(Math.max(similarity, 0) * 1000) / 1000);
+		}
+		return scores;
+	}
+}
@@ -6,13 +6,25 @@
 import type {
 	Task,
 	TaskFilter,
+	TaskSortOptions,
 	TaskStatus,
 	StorageType
 } from '../../../common/types/index.js';
 import type { IStorage } from '../../../common/interfaces/storage.interface.js';
 import { ConfigManager } from '../../config/managers/config-manager.js';
 import { StorageFactory } from '../../storage/services/storage-factory.js';
+import { JournaledStorage } from '../../history/adapters/journaled-storage.js';
+import { ChangeJournal } from '../../history/services/change-journal.service.js';
+import type { ChangeContext } from '../../history/types.js';
 import { TaskEntity } from '../entities/task.entity.js';
+import {
+	decodeTaskCursor,
+	encodeTaskCursor,
+	findTaskAfterCursor,
+	pickTaskFields,
+	sortTasks
+} from '../query/task-list-options.js';
+import { TaskQuery } from '../query/task-query.js';
 import { ERROR_CODES, TaskMasterError } from '../../../common/errors/task-master-error.js';
 import { getLogger } from '../../../common/logger/factory.js';
 import type { ExpandTaskResult } from '../../integration/services/task-expansion.service.js';
@@ -21,7 +33,7 @@ import type { ExpandTaskResult } from '../../integration/services/task-expansion
  * Result returned by getTaskList
  */
 export interface TaskListResult {
-	/** The filtered list of tasks */
+	/** The filtered list of tasks (only the selected fields with `fields`) */
 	tasks: Task[];
 	/** Total number of tasks before filtering */
 	total: number;
@@ -31,6 +43,8 @@ export interface TaskListResult {
 	tag?: string;
 	/** Storage type being used */
 	storageType: StorageType;
+	/** Pass as `cursor` to get the next page; set when `limit` left tasks out */
+	nextCursor?: string;
 }
 
 /**
@@ -43,6 +57,24 @@ export interface GetTaskListOptions {
 	filter?: TaskFilter;
 	/** Include subtasks in response */
 	includeSubtasks?: boolean;
+	/** Sort keys, applied in order (storage order when omitted) */
+	sort?: TaskSortOptions | TaskSortOptions[];
+	/** Maximum number of tasks to return */
+	limit?: number;
+	/** Number of tasks to skip (cannot be combined with cursor) */
+	offset?: number;
+	/** Continue after the page that returned this cursor (with the same sort) */
+	cursor?: string;
+	/** Only return these task fields (the ID is always included) */
+	fields?: Array<keyof Task>;
+}
+
+/**
+ * Options for getNextTask
+ */
+export interface NextTaskOptions {
+	/** Only consider tasks matching this query (and subtasks of matching tasks) */
+	query?: string;
 }
 
 /**
@@ -52,10 +84,18 @@ export interface GetTaskListOptions {
 export class TaskService {
 	private configManager: ConfigManager;
 	private storage: IStorage;
+	private localStorage?: Promise<IStorage>;
 	private initialized = false;
 	private logger = getLogger('TaskService');
 
-	constructor(configManager: ConfigManager) {
+	/**
+	 * @param changeContext - Who changes made through this service are
+	 * attributed to in the change journal
+	 */
+	constructor(
+		configManager: ConfigManager,
+		private readonly changeContext?: ChangeContext
+	) {
 		this.configManager = configManager;
 
 		// Storage will be created during initialization
@@ -72,17 +112,33 @@ export class TaskService {
 		const storageConfig = this.configManager.getStorageConfig();
 		const projectRoot = this.configManager.getProjectRoot();
 
-		this.storage = await StorageFactory.createFromStorageConfig(
+		const storage = await StorageFactory.createFromStorageConfig(
 			storageConfig,
 			projectRoot
 		);
 
+		this.storage = this.journal(storage);
+
 		// Initialize storage
 		await this.storage.initialize();
 
 		this.initialized = true;
 	}
 
+	/**
+	 * Journal every mutation so changes can be reviewed and undone
+	 */
+	private journal(storage: IStorage): IStorage {
+		return new JournaledStorage(
+			storage,
+			new ChangeJournal(this.configManager.getProjectRoot()),
+			{
+				context: this.changeContext,
+				resolveTag: () => this.configManager.getActiveTag()
+			}
+		);
+	}
+
 	/**
 	 * Get list of tasks
 	 * This is the main method that retrieves tasks from storage and applies filters
@@ -100,6 +156,7 @@ export class TaskService {
 				!options.filter.tags &&
 				!options.filter.assignee &&
 				!options.filter.search &&
+				!options.filter.query &&
 				options.filter.hasSubtasks === undefined;
 
 			// Build storage-level options
@@ -116,8 +173,10 @@ export class TaskService {
 				}
 			}
 
-			// Push subtask exclusion to storage
-			if (options.includeSubtasks === false) {
+			// Push subtask exclusion to storage, unless a query may look at subtasks
+			const excludeSubtasksAfterQuery =
+				options.includeSubtasks === false && !!options.filter?.query;
+			if (options.includeSubtasks === false && !excludeSubtasksAfterQuery) {
 				storageOptions.excludeSubtasks = true;
 			}
 
@@ -153,6 +212,28 @@ export class TaskService {
 
 			// Convert back to plain objects
 			const tasks = filteredEntities.map((entity) => entity.toJSON());
+			if (excludeSubtasksAfterQuery) {
+				tasks.forEach((task) => {
+					task.subtasks = [];
+				});
+			}
+
+			// Sort, then take the requested page and fields. Ties are ordered by
+			// ID, so a cursor can continue after a task that left the list.
+			const sort = options.sort
+				? Array.isArray(options.sort)
+					? options.sort
+					: [options.sort]
+				: [];
+			const sorted =
+				sort.length > 0
+					? sortTasks(tasks, [...sort, { field: 'id', direction: 'asc' }])
+					: tasks;
+			const { page, nextCursor } = this.paginate(sorted, sort, options);
+			const fields = options.fields;
+			const selected = fields
+				? (page.map((task) => pickTaskFields(task, fields)) as Task[])
+				: page;
 
 			// For API storage, use brief name. For file storage, use tag.
 			// This way consumers don't need to know about the difference.
@@ -163,11 +244,12 @@ export class TaskService {
 					: tag;
 
 			return {
-				tasks,
+				tasks: selected,
 				total: allTasks.length,
 				filtered: filteredEntities.length,
 				tag: tagOrBrief, // For API: brief name, For file: tag
-				storageType
+				storageType,
+				...(nextCursor && { nextCursor })
 			};
 		} catch (error) {
 			// Re-throw all TaskMasterErrors without wrapping
@@ -296,7 +378,10 @@ export class TaskService {
 	 * Get next available task to work on
 	 * Prioritizes eligible subtasks from in-progress parent tasks before falling back to top-level tasks
 	 */
-	async getNextTask(tag?: string): Promise<Task | null> {
+	async getNextTask(
+		tag?: string,
+		options: NextTaskOptions = {}
+	): Promise<Task | null> {
 		const result = await this.getTaskList({
 			tag,
 			filter: {
@@ -305,6 +390,15 @@ export class TaskService {
 		});
 
 		const allTasks = result.tasks;
+		const matchingIds = options.query
+			? new Set(
+					this.parseQuery(options.query)
+						.filter(allTasks)
+						.map((task) => String(task.id))
+				)
+			: null;
+		const isCandidate = (task: Task) =>
+			!matchingIds || matchingIds.has(String(task.id));
 		const priorityValues = { critical: 4, high: 3, medium: 2, low: 1 };
 
 		// Helper to convert subtask dependencies to full dotted notation
@@ -337,7 +431,12 @@ export class TaskService {
 		const candidateSubtasks: Array<Task & { parentId?: string }> = [];
 
 		allTasks
-			.filter((t) => t.status === 'in-progress' && Array.isArray(t.subtasks))
+			.filter(
+				(t) =>
+					t.status === 'in-progress' &&
+					Array.isArray(t.subtasks) &&
+					isCandidate(t)
+			)
 			.forEach((parent) => {
 				parent.subtasks!.forEach((st) => {
 					const stStatus = (st.status || 'pending').toLowerCase();
@@ -392,6 +491,7 @@ export class TaskService {
 
 		// 2) Fall back to top-level tasks (original logic)
 		const eligibleTasks = allTasks.filter((task) => {
+			if (!isCandidate(task)) return false;
 			const status = (task.status || 'pending').toLowerCase();
 			if (status !== 'pending' && status !== 'in-progress') return false;
 
@@ -421,7 +521,16 @@ export class TaskService {
 	 * Apply filters to task entities
 	 */
 	private applyFilters(tasks: TaskEntity[], filter: TaskFilter): TaskEntity[] {
+		const matchingQuery = filter.query
+			? new Set(this.parseQuery(filter.query).filter(tasks))
+			: null;
+
 		return tasks.filter((task) => {
+			// Query filter
+			if (matchingQuery && !matchingQuery.has(task)) {
+				return false;
+			}
+
 			// Status filter
 			if (filter.status) {
 				const statuses = Array.isArray(filter.status)
@@ -485,11 +594,67 @@ export class TaskService {
 		});
 	}
 
+	/**
+	 * Take the page of tasks selected by offset or cursor and limit
+	 */
+	private paginate(
+		tasks: Task[],
+		sort: TaskSortOptions[],
+		options: GetTaskListOptions
+	): { page: Task[]; nextCursor?: string } {
+		const { limit, offset, cursor } = options;
+		if (cursor !== undefined && offset !== undefined) {
+			throw new TaskMasterError(
+				'Use either offset or cursor, not both',
+				ERROR_CODES.VALIDATION_ERROR,
+				{ offset, cursor }
+			);
+		}
+		if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+			throw new TaskMasterError(
+				`Invalid limit: ${limit}. Must be a positive integer`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ limit }
+			);
+		}
+		if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+			throw new TaskMasterError(
+				`Invalid offset: ${offset}. Must be zero or a positive integer`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ offset }
+			);
+		}
+
+		let start = offset ?? 0;
+		if (cursor !== undefined) {
+			start = findTaskAfterCursor(tasks, decodeTaskCursor(cursor), sort);
+		}
+
+		const end = limit === undefined ? tasks.length : start + limit;
+		const page = tasks.slice(start, end);
+		const last = page[page.length - 1];
+		return {
+			page,
+			nextCursor:
+				last && end < tasks.length ? encodeTaskCursor(last, sort) : undefined
+		};
+	}
+
+	/**
+	 * Parse a task query, expanding the saved queries from config
+	 * @throws {TaskMasterError} VALIDATION_ERROR for invalid queries
+	 */
+	parseQuery(query: string): TaskQuery {
+		return TaskQuery.parse(query, {
+			savedQueries: this.configManager.getConfig().queries
+		});
+	}
+
 	/**
 	 * Get current storage type (resolved at runtime)
 	 * Returns the actual storage type being used, never 'auto'
 	 */
-	getStorageType(): 'file' | 'api' {
+	getStorageType(): Exclude<StorageType, 'auto'> {
 		// Storage interface guarantees this method exists
 		return this.storage.getStorageType();
 	}
@@ -502,6 +667,30 @@ export class TaskService {
 		return this.storage;
 	}
 
+	/**
+	 * Get the storage holding the tasks on this machine
+	 * This is the configured storage, unless that is a Hamster brief read
+	 * through the API; then it is the project's file storage, with the
+	 * configured file settings and journaled the same way
+	 */
+	async getLocalStorage(): Promise<IStorage> {
+		if (this.getStorageType() !== 'api') {
+			return this.storage;
+		}
+
+		this.localStorage ??= (async () => {
+			const storage = this.journal(
+				await StorageFactory.createFromStorageConfig(
+					{ ...this.configManager.getStorageConfig(), type: 'file' },
+					this.configManager.getProjectRoot()
+				)
+			);
+			await storage.initialize();
+			return storage;
+		})();
+		return this.localStorage;
+	}
+
 	/**
 	 * Get current active tag
 	 */
@@ -714,6 +903,7 @@ export class TaskService {
 		oldStatus: TaskStatus;
 		newStatus: TaskStatus;
 		taskId: string;
+		queued?: boolean;
 	}> {
 		// Ensure we have storage
 		if (!this.storage) {
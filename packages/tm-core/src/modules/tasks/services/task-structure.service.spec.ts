@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Unit tests for TaskStructureService
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IStorage } from '../../../common/interfaces/storage.interface.js';
+import type { Subtask, Task } from '../../../common/types/index.js';
+import { TaskStructureService } from './task-structure.service.js';
+
+const createTask = (
+	id: string,
+	dependencies: string[] = [],
+	subtasks: Array<Partial<Subtask>> = []
+): Task => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies,
+	details: '',
+	testStrategy: '',
+	subtasks: subtasks.map(
+		(subtask, index) =>
+			({
+				id: index + 1,
+				parentId: id,
+				title: `Subtask ${id}.${index + 1}`,
+				status: 'pending',
+				dependencies: [],
+				...subtask
+			}) as Subtask
+	)
+});
+
+/**
+ * Minimal IStorage keeping tags in memory, implementing only the
+ * per-task methods the service writes through
+ */
+const createStorage = (tags: Record<string, Task[]>) =>
+	({
+		loadTasks: vi.fn(async (tag: string) => structuredClone(tags[tag] ?? [])),
+		getAllTags: vi.fn(async () => Object.keys(tags)),
+		updateTask: vi.fn(
+			async (id: string, updates: Partial<Task>, tag: string) => {
+				const index = tags[tag].findIndex((task) => task.id === id);
+				tags[tag][index] = { ...tags[tag][index], ...structuredClone(updates) };
+			}
+		),
+		deleteTask: vi.fn(async (id: string, tag: string) => {
+			tags[tag] = tags[tag].filter((task) => task.id !== id);
+		}),
+		appendTasks: vi.fn(async (tasks: Task[], tag: string) => {
+			tags[tag] = [...(tags[tag] ?? []), ...structuredClone(tasks)];
+		}),
+		saveTasks: vi.fn()
+	}) as unknown as IStorage;
+
+describe('TaskStructureService', () => {
+	let tags: Record<string, Task[]>;
+	let storage: IStorage;
+	let service: TaskStructureService;
+
+	const ids = (tag = 'master') => tags[tag].map((task) => task.id);
+
+	beforeEach(() => {
+		tags = {
+			master: [
+				createTask('1'),
+				createTask('2', ['1'], [{}, { dependencies: [1] as any }]),
+				createTask('3', ['2'], [{ dependencies: ['2.2'] }])
+			],
+			feature: [createTask('1')]
+		};
+		storage = createStorage(tags);
+		service = new TaskStructureService(storage);
+	});
+
+	describe('addTask', () => {
+		it('should append a pending task with the next free ID', async () => {
+			const task = await service.addTask(
+				{ title: 'Task 4', description: 'New', dependencies: ['3', '2.1'] },
+				'master'
+			);
+
+			expect(ids()).toEqual(['1', '2', '3', '4']);
+			expect(tags.master[3]).toEqual(task);
+			expect(task).toMatchObject({
+				status: 'pending',
+				priority: 'medium',
+				dependencies: ['3', '2.1'],
+				subtasks: []
+			});
+		});
+
+		it('should refuse a dependency that does not exist', async () => {
+			await expect(
+				service.addTask(
+					{ title: 'Task 4', description: '', dependencies: ['9'] },
+					'master'
+				)
+			).rejects.toThrow('Task 9 not found');
+			expect(storage.appendTasks).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('removeTasks', () => {
+		it('should remove tasks and subtasks and drop references to them', async () => {
+			const result = await service.removeTasks(['2.2', '1'], 'master');
+
+			expect(result.removed.map((item) => item.title)).toEqual([
+				'Subtask 2.2',
+				'Task 1'
+			]);
+			expect(result.dependentsUpdated).toEqual(['2', '3']);
+			expect(ids()).toEqual(['2', '3']);
+			expect(tags.master[0].dependencies).toEqual([]);
+			expect(tags.master[0].subtasks).toHaveLength(1);
+			expect(tags.master[1].subtasks[0].dependencies).toEqual([]);
+			expect(storage.saveTasks).not.toHaveBeenCalled();
+		});
+
+		it('should not remove anything if an ID does not exist', async () => {
+			await expect(
+				service.removeTasks(['1', '9'], 'master')
+			).rejects.toMatchObject({ code: 'TASK_NOT_FOUND' });
+			expect(ids()).toEqual(['1', '2', '3']);
+		});
+	});
+
+	describe('move', () => {
+		it('should renumber a task and its references', async () => {
+			await service.move('2', '5', 'master');
+
+			expect(ids()).toEqual(['1', '3', '5']);
+			const [, task3, task5] = tags.master;
+			expect(task5.subtasks.map((st) => st.parentId)).toEqual(['5', '5']);
+			expect(task5.subtasks[1].dependencies).toEqual([1]);
+			expect(task3.dependencies).toEqual(['5']);
+			expect(task3.subtasks[0].dependencies).toEqual(['5.2']);
+		});
+
+		it('should reorder subtasks of the same parent', async () => {
+			await service.move('2.2', '2.1', 'master');
+
+			expect(tags.master[1].subtasks.map((st) => st.id)).toEqual([2, 1]);
+		});
+
+		it('should convert between tasks and subtasks', async () => {
+			const toTask = await service.move('2.2', '4', 'master');
+
+			expect(toTask.movedItem).toMatchObject({
+				id: '4',
+				dependencies: ['2.1'],
+				subtasks: []
+			});
+			expect(tags.master[2].subtasks[0].dependencies).toEqual([]);
+
+			const toSubtask = await service.move('1', '3.2', 'master');
+			expect(toSubtask.movedItem).toMatchObject({ id: 2, parentId: '3' });
+			expect(ids()).toEqual(['2', '3', '4']);
+			expect(tags.master[0].dependencies).toEqual(['3.2']);
+		});
+
+		it('should reject taken destinations', async () => {
+			await expect(service.move('1', '3', 'master')).rejects.toThrow(
+				'Task 3 already exists'
+			);
+			await expect(service.move('1', '2.1', 'master')).rejects.toThrow(
+				'Subtask 2.1 already exists'
+			);
+			await expect(service.move('2', '3.5', 'master')).rejects.toThrow(
+				'has subtasks'
+			);
+		});
+	});
+
+	describe('moveToTag', () => {
+		it('should refuse to split dependent tasks unless asked', async () => {
+			tags.feature = [];
+
+			await expect(
+				service.moveToTag(['2'], 'master', 'feature')
+			).rejects.toMatchObject({ code: 'TASK_DEPENDENCY_ERROR' });
+
+			const result = await service.moveToTag(['2'], 'master', 'feature', {
+				withDependencies: true,
+				ignoreDependencies: true
+			});
+
+			expect(result.movedIds).toEqual(['1', '2']);
+			expect(result.brokenDependencies).toEqual(['3 -> 2']);
+			expect(ids()).toEqual(['3']);
+			expect(ids('feature')).toEqual(['1', '2']);
+			expect(tags.master[0].dependencies).toEqual([]);
+			expect(tags.master[0].subtasks[0].dependencies).toEqual([]);
+		});
+
+		it('should reject IDs taken in the target tag', async () => {
+			await expect(
+				service.moveToTag(['1'], 'master', 'feature', {
+					ignoreDependencies: true
+				})
+			).rejects.toThrow('already exist in tag "feature"');
+		});
+	});
+
+	describe('subtasks', () => {
+		it('should add new subtasks and convert existing tasks', async () => {
+			const converted = await service.addSubtask(
+				'3',
+				{ taskId: '1' },
+				'master'
+			);
+			expect(converted).toMatchObject({ id: 2, title: 'Task 1' });
+			expect(ids()).toEqual(['2', '3']);
+			expect(tags.master[0].dependencies).toEqual(['3.2']);
+
+			const created = await service.addSubtask(
+				'2',
+				{ title: 'New', dependencies: ['1'] },
+				'master'
+			);
+			expect(created).toMatchObject({
+				id: 3,
+				parentId: '2',
+				status: 'pending'
+			});
+			await expect(
+				service.addSubtask('2', { title: 'New', dependencies: ['9'] }, 'master')
+			).rejects.toThrow('Subtask 2.9 not found');
+		});
+
+		it('should remove subtasks, optionally converting them to tasks', async () => {
+			const result = await service.removeSubtask(
+				'2.2',
+				{ convert: true },
+				'master'
+			);
+
+			expect(result.task).toMatchObject({ id: '4', dependencies: ['2.1'] });
+			expect(ids()).toEqual(['1', '2', '3', '4']);
+
+			await expect(
+				service.removeSubtask('1', {}, 'master')
+			).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+		});
+
+		it('should clear subtasks and references to them', async () => {
+			const result = await service.clearSubtasks(['2'], 'master');
+
+			expect(result.cleared).toEqual({ '2': 2 });
+			expect(tags.master[1].subtasks).toEqual([]);
+			expect(tags.master[2].subtasks[0].dependencies).toEqual([]);
+		});
+	});
+});
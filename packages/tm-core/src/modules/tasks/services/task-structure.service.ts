@@ -0,0 +1,766 @@
+/**
+ * @fileoverview TaskStructureService - Removing, moving and nesting tasks
+ * Changes are computed on a copy of the tag and written back through the
+ * per-task IStorage methods, so file, SQLite and API storage behave alike.
+ * With a journaled storage each change is one history entry.
+ */
+
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type { IStorage } from '../../../common/interfaces/storage.interface.js';
+import type {
+	Subtask,
+	Task,
+	TaskPriority,
+	TaskStatus
+} from '../../../common/types/index.js';
+import { toFullSubtaskDependencyId } from '../../dependencies/entities/dependency-graph.entity.js';
+import { JournaledStorage } from '../../history/adapters/journaled-storage.js';
+
+/**
+ * Fields of a task created with addTask
+ */
+export interface NewTaskData {
+	title: string;
+	description: string;
+	details?: string;
+	testStrategy?: string;
+	status?: TaskStatus;
+	priority?: TaskPriority;
+	/** IDs of the tasks or subtasks ("5.2") the task depends on */
+	dependencies?: string[];
+}
+
+/**
+ * Fields of a subtask created with addSubtask
+ */
+export interface NewSubtaskData {
+	title: string;
+	description?: string;
+	details?: string;
+	testStrategy?: string;
+	status?: TaskStatus;
+	priority?: TaskPriority;
+	/** IDs the subtask depends on; IDs without a dot refer to sibling subtasks */
+	dependencies?: string[];
+}
+
+/**
+ * Result of removing tasks and/or subtasks
+ */
+export interface RemoveTasksResult {
+	/** The removed tasks and subtasks, in the order requested */
+	removed: Array<Task | Subtask>;
+	/** IDs of remaining tasks whose dependencies on removed items were dropped */
+	dependentsUpdated: string[];
+}
+
+/**
+ * Result of moving one task or subtask within a tag
+ */
+export interface MoveTaskResult {
+	from: string;
+	to: string;
+	/** The moved item as stored at its destination */
+	movedItem: Task | Subtask;
+}
+
+/**
+ * Options for moving tasks to another tag
+ */
+export interface MoveTasksToTagOptions {
+	/** Also move every task the moved tasks depend on */
+	withDependencies?: boolean;
+	/** Drop dependencies between moved and remaining tasks instead of failing */
+	ignoreDependencies?: boolean;
+}
+
+/**
+ * Result of moving tasks to another tag
+ */
+export interface MoveTasksToTagResult {
+	fromTag: string;
+	toTag: string;
+	/** IDs of every moved task, including pulled-in dependencies */
+	movedIds: string[];
+	/** Dependencies dropped because of ignoreDependencies, as "task -> dependency" */
+	brokenDependencies: string[];
+}
+
+/**
+ * Result of removing a subtask
+ */
+export interface RemoveSubtaskResult {
+	removed: Subtask;
+	/** The standalone task the subtask was converted to (convert only) */
+	task?: Task;
+}
+
+/**
+ * Result of clearing subtasks
+ */
+export interface ClearSubtasksResult {
+	/** Number of subtasks removed per task ID */
+	cleared: Record<string, number>;
+}
+
+/**
+ * TaskStructureService handles operations that add, remove or re-parent
+ * tasks and subtasks and keeps dependency references pointing at them
+ */
+export class TaskStructureService {
+	constructor(private readonly storage: IStorage) {}
+
+	/**
+	 * Add a task with the next free task ID
+	 * @throws {TaskMasterError} TASK_NOT_FOUND before adding anything if a dependency does not exist
+	 */
+	async addTask(data: NewTaskData, tag: string): Promise<Task> {
+		const tasks = await this.storage.loadTasks(tag);
+		const dependencies = data.dependencies ?? [];
+		for (const dep of dependencies) {
+			this.requireItem(tasks, dep);
+		}
+
+		const task: Task = {
+			id: this.nextId(tasks),
+			title: data.title,
+			description: data.description,
+			details: data.details ?? '',
+			testStrategy: data.testStrategy ?? '',
+			status: data.status ?? 'pending',
+			priority: data.priority ?? 'medium',
+			dependencies,
+			subtasks: []
+		};
+		await this.storage.appendTasks([task], tag);
+		return task;
+	}
+
+	/**
+	 * Remove tasks and subtasks ("5" or "5.2") and drop dependencies on them
+	 * @throws {TaskMasterError} TASK_NOT_FOUND before removing anything if an ID does not exist
+	 */
+	async removeTasks(ids: string[], tag: string): Promise<RemoveTasksResult> {
+		const before = await this.storage.loadTasks(tag);
+		let tasks = structuredClone(before);
+
+		const items = ids.map((id) => this.requireItem(tasks, id));
+		const removedIds = new Set(ids.map(String));
+		// Subtasks of removed tasks are gone as well
+		for (const { item, parent } of items) {
+			if (!parent) {
+				for (const subtask of (item as Task).subtasks ?? []) {
+					removedIds.add(`${item.id}.${subtask.id}`);
+				}
+			}
+		}
+
+		tasks = tasks.filter((task) => !removedIds.has(String(task.id)));
+		for (const task of tasks) {
+			task.subtasks = (task.subtasks ?? []).filter(
+				(subtask) => !removedIds.has(`${task.id}.${subtask.id}`)
+			);
+		}
+
+		const dependentsUpdated = this.dropReferences(tasks, removedIds);
+		await this.commit(before, tasks, tag);
+
+		return { removed: items.map(({ item }) => item), dependentsUpdated };
+	}
+
+	/**
+	 * Move a task or subtask within a tag
+	 * - task to free task ID: renumbers the task
+	 * - subtask to subtask of the same parent: moves it to that position
+	 * - subtask to another parent, or to a free task ID: re-parents it
+	 * - task to a subtask ID: turns a task without subtasks into a subtask
+	 * Dependency references follow the moved item.
+	 */
+	async move(from: string, to: string, tag: string): Promise<MoveTaskResult> {
+		const before = await this.storage.loadTasks(tag);
+		const tasks = structuredClone(before);
+		const source = this.requireItem(tasks, from);
+		const [toParentId, toSubtaskId] = to.split('.');
+
+		let movedItem: Task | Subtask;
+		if (!source.parent && toSubtaskId === undefined) {
+			this.requireFreeTaskId(tasks, to);
+			const task = source.item as Task;
+			task.id = to;
+			this.renameReferences(tasks, from, to);
+			for (const subtask of task.subtasks ?? []) {
+				subtask.parentId = to;
+				this.renameReferences(
+					tasks,
+					`${from}.${subtask.id}`,
+					`${to}.${subtask.id}`
+				);
+			}
+			movedItem = task;
+		} else if (source.parent && String(source.parent.id) === toParentId) {
+			movedItem = this.reorderSubtask(
+				source.parent,
+				source.item as Subtask,
+				to
+			);
+		} else if (toSubtaskId === undefined) {
+			this.requireFreeTaskId(tasks, to);
+			movedItem = this.insertTask(
+				tasks,
+				this.toTask(this.detach(tasks, source), to)
+			);
+			this.renameReferences(tasks, from, to);
+		} else {
+			const parent = this.requireTask(tasks, toParentId);
+			if (parent === source.item) {
+				throw new TaskMasterError(
+					`Task ${from} cannot become a subtask of itself`,
+					ERROR_CODES.VALIDATION_ERROR,
+					{ taskId: from }
+				);
+			}
+			if (!source.parent) {
+				this.requireItem(tasks, from, true);
+			}
+			if (parent.subtasks?.some((st) => String(st.id) === toSubtaskId)) {
+				throw new TaskMasterError(
+					`Subtask ${to} already exists`,
+					ERROR_CODES.VALIDATION_ERROR,
+					{ taskId: to }
+				);
+			}
+			movedItem = this.insertSubtask(
+				parent,
+				this.toSubtask(this.detach(tasks, source), toParentId, toSubtaskId)
+			);
+			this.renameReferences(tasks, from, to);
+		}
+
+		await this.commit(before, tasks, tag);
+		return { from, to, movedItem };
+	}
+
+	/**
+	 * Move tasks, keeping their IDs, from one tag to another
+	 * @throws {TaskMasterError} TASK_DEPENDENCY_ERROR if moved and remaining tasks
+	 * depend on each other and neither withDependencies nor ignoreDependencies is set
+	 */
+	async moveToTag(
+		ids: string[],
+		fromTag: string,
+		toTag: string,
+		options: MoveTasksToTagOptions = {}
+	): Promise<MoveTasksToTagResult> {
+		if (fromTag === toTag) {
+			throw new TaskMasterError(
+				'Source and target tags must differ',
+				ERROR_CODES.VALIDATION_ERROR,
+				{ fromTag, toTag }
+			);
+		}
+		for (const id of ids) {
+			if (id.includes('.')) {
+				throw new TaskMasterError(
+					`Cannot move subtask ${id} to another tag; move its parent task or convert it first`,
+					ERROR_CODES.VALIDATION_ERROR,
+					{ taskId: id }
+				);
+			}
+		}
+
+		if (!(await this.storage.getAllTags()).includes(toTag)) {
+			throw new TaskMasterError(
+				`Tag "${toTag}" does not exist`,
+				ERROR_CODES.NOT_FOUND,
+				{ tagName: toTag }
+			);
+		}
+
+		const before = await this.storage.loadTasks(fromTag);
+		const tasks = structuredClone(before);
+		const targetTasks = await this.storage.loadTasks(toTag);
+
+		const movedIds = new Set(
+			ids.map((id) => String(this.requireTask(tasks, id).id))
+		);
+		if (options.withDependencies) {
+			const queue = [...movedIds];
+			while (queue.length > 0) {
+				const task = this.requireTask(tasks, queue.shift()!);
+				for (const dep of this.taskDependencies(task)) {
+					if (!movedIds.has(dep) && tasks.some((t) => String(t.id) === dep)) {
+						movedIds.add(dep);
+						queue.push(dep);
+					}
+				}
+			}
+		}
+
+		const conflicts: string[] = [];
+		for (const task of tasks) {
+			const taskMoves = movedIds.has(String(task.id));
+			for (const dep of this.taskDependencies(task)) {
+				if (
+					tasks.some((t) => String(t.id) === dep) &&
+					movedIds.has(dep) !== taskMoves
+				) {
+					conflicts.push(`${task.id} -> ${dep}`);
+				}
+			}
+		}
+		if (conflicts.length > 0 && !options.ignoreDependencies) {
+			throw new TaskMasterError(
+				`Moved and remaining tasks depend on each other (${conflicts.join(', ')}). Use withDependencies or ignoreDependencies.`,
+				ERROR_CODES.TASK_DEPENDENCY_ERROR,
+				{ conflicts, fromTag, toTag }
+			);
+		}
+
+		const taken = [...movedIds].filter((id) =>
+			targetTasks.some((task) => String(task.id) === id)
+		);
+		if (taken.length > 0) {
+			throw new TaskMasterError(
+				`Tasks ${taken.join(', ')} already exist in tag "${toTag}"`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ taskIds: taken, tag: toTag }
+			);
+		}
+
+		if (conflicts.length > 0) {
+			this.dropCrossReferences(tasks, movedIds);
+		}
+
+		const moved = tasks.filter((task) => movedIds.has(String(task.id)));
+		await this.storage.appendTasks(moved, toTag);
+		await this.commit(
+			before,
+			tasks.filter((task) => !movedIds.has(String(task.id))),
+			fromTag
+		);
+
+		return {
+			fromTag,
+			toTag,
+			movedIds: moved.map((task) => String(task.id)),
+			brokenDependencies: conflicts
+		};
+	}
+
+	/**
+	 * Add a new subtask to a task, or convert an existing task into one
+	 * @param source - Fields of the new subtask, or the ID of a task to convert
+	 */
+	async addSubtask(
+		parentId: string,
+		source: NewSubtaskData | { taskId: string },
+		tag: string
+	): Promise<Subtask> {
+		const before = await this.storage.loadTasks(tag);
+		const tasks = structuredClone(before);
+		const parent = this.requireTask(tasks, parentId);
+		const subtaskId = this.nextId(parent.subtasks ?? []);
+
+		let subtask: Subtask;
+		if ('taskId' in source) {
+			const from = String(source.taskId);
+			if (from === String(parent.id)) {
+				throw new TaskMasterError(
+					`Task ${from} cannot become a subtask of itself`,
+					ERROR_CODES.VALIDATION_ERROR,
+					{ taskId: from }
+				);
+			}
+			const detached = this.detach(tasks, this.requireItem(tasks, from, true));
+			subtask = this.toSubtask(detached, String(parent.id), subtaskId);
+			this.renameReferences(tasks, from, `${parent.id}.${subtaskId}`);
+		} else {
+			subtask = {
+				id: Number(subtaskId),
+				parentId: String(parent.id),
+				title: source.title,
+				description: source.description ?? '',
+				details: source.details ?? '',
+				testStrategy: source.testStrategy ?? '',
+				status: source.status ?? 'pending',
+				priority: source.priority ?? parent.priority,
+				dependencies: source.dependencies ?? []
+			};
+			for (const dep of subtask.dependencies) {
+				this.requireItem(
+					tasks,
+					toFullSubtaskDependencyId(String(parent.id), dep)
+				);
+			}
+		}
+
+		this.insertSubtask(parent, subtask);
+		await this.commit(before, tasks, tag);
+		return subtask;
+	}
+
+	/**
+	 * Remove a subtask ("5.2"), optionally keeping it as a standalone task
+	 * with the next free task ID
+	 */
+	async removeSubtask(
+		id: string,
+		options: { convert?: boolean },
+		tag: string
+	): Promise<RemoveSubtaskResult> {
+		const before = await this.storage.loadTasks(tag);
+		let tasks = structuredClone(before);
+		const source = this.requireItem(tasks, id);
+		if (!source.parent) {
+			throw new TaskMasterError(
+				`${id} is not a subtask ID; use the parentId.subtaskId format`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ taskId: id }
+			);
+		}
+
+		const removed = this.detach(tasks, source) as Subtask;
+		let task: Task | undefined;
+		if (options.convert) {
+			const taskId = this.nextId(tasks);
+			task = this.insertTask(tasks, this.toTask(removed, taskId));
+			this.renameReferences(tasks, id, taskId);
+		} else {
+			this.dropReferences(tasks, new Set([id]));
+		}
+
+		await this.commit(before, tasks, tag);
+		return { removed, task };
+	}
+
+	/**
+	 * Remove all subtasks of the given tasks, or of every task
+	 */
+	async clearSubtasks(
+		ids: string[] | 'all',
+		tag: string
+	): Promise<ClearSubtasksResult> {
+		const before = await this.storage.loadTasks(tag);
+		const tasks = structuredClone(before);
+		const targets =
+			ids === 'all' ? tasks : ids.map((id) => this.requireTask(tasks, id));
+
+		const cleared: Record<string, number> = {};
+		const removedIds = new Set<string>();
+		for (const task of targets) {
+			cleared[task.id] = task.subtasks?.length ?? 0;
+			for (const subtask of task.subtasks ?? []) {
+				removedIds.add(`${task.id}.${subtask.id}`);
+			}
+			task.subtasks = [];
+		}
+		this.dropReferences(tasks, removedIds);
+
+		await this.commit(before, tasks, tag);
+		return { cleared };
+	}
+
+	// ========== Helpers ==========
+
+	/**
+	 * Write the difference between two versions of a tag through storage:
+	 * deleted tasks first, then changed tasks, then new tasks
+	 */
+	private async commit(
+		before: Task[],
+		after: Task[],
+		tag: string
+	): Promise<void> {
+		const write = async () => {
+			const previous = new Map(before.map((task) => [String(task.id), task]));
+			const remaining = new Set(after.map((task) => String(task.id)));
+
+			for (const id of previous.keys()) {
+				if (!remaining.has(id)) {
+					await this.storage.deleteTask(id, tag);
+				}
+			}
+			for (const task of after) {
+				const old = previous.get(String(task.id));
+				if (old && JSON.stringify(old) !== JSON.stringify(task)) {
+					await this.storage.updateTask(String(task.id), task, tag);
+				}
+			}
+			const added = after.filter((task) => !previous.has(String(task.id)));
+			if (added.length > 0) {
+				await this.storage.appendTasks(added, tag);
+			}
+		};
+
+		if (this.storage instanceof JournaledStorage) {
+			await this.storage.group('restructureTasks', tag, write);
+		} else {
+			await write();
+		}
+	}
+
+	private requireTask(tasks: Task[], id: string): Task {
+		const task = tasks.find((t) => String(t.id) === String(id));
+		if (!task) {
+			throw new TaskMasterError(
+				`Task ${id} not found`,
+				ERROR_CODES.TASK_NOT_FOUND,
+				{ taskId: id }
+			);
+		}
+		return task;
+	}
+
+	/**
+	 * Find a task or subtask by full ID
+	 * @param withoutSubtasks - Reject tasks that have subtasks of their own
+	 */
+	private requireItem(
+		tasks: Task[],
+		id: string,
+		withoutSubtasks = false
+	): { item: Task | Subtask; parent?: Task } {
+		const [parentId, subtaskId] = String(id).split('.');
+		const task = this.requireTask(tasks, parentId);
+		if (subtaskId === undefined) {
+			if (withoutSubtasks && task.subtasks?.length) {
+				throw new TaskMasterError(
+					`Task ${id} has subtasks and cannot become a subtask`,
+					ERROR_CODES.VALIDATION_ERROR,
+					{ taskId: id }
+				);
+			}
+			return { item: task };
+		}
+
+		const subtask = task.subtasks?.find((st) => String(st.id) === subtaskId);
+		if (!subtask) {
+			throw new TaskMasterError(
+				`Subtask ${id} not found`,
+				ERROR_CODES.TASK_NOT_FOUND,
+				{ taskId: id }
+			);
+		}
+		return { item: subtask, parent: task };
+	}
+
+	private requireFreeTaskId(tasks: Task[], id: string): void {
+		if (tasks.some((task) => String(task.id) === id)) {
+			throw new TaskMasterError(
+				`Task ${id} already exists`,
+				ERROR_CODES.VALIDATION_ERROR,
+				{ taskId: id }
+			);
+		}
+	}
+
+	/**
+	 * Take a task or subtask out of the tag, with sibling subtask
+	 * dependencies expanded to full IDs so they survive re-parenting
+	 */
+	private detach(
+		tasks: Task[],
+		source: { item: Task | Subtask; parent?: Task }
+	): Task | Subtask {
+		if (!source.parent) {
+			tasks.splice(tasks.indexOf(source.item as Task), 1);
+			return source.item;
+		}
+
+		const parent = source.parent;
+		parent.subtasks = parent.subtasks.filter((st) => st !== source.item);
+		return {
+			...source.item,
+			dependencies: (source.item.dependencies ?? []).map((dep) =>
+				toFullSubtaskDependencyId(String(parent.id), dep)
+			)
+		};
+	}
+
+	private toTask(item: Task | Subtask, id: string): Task {
+		const { parentId: _parentId, ...fields } = item as Subtask;
+		return {
+			...fields,
+			id,
+			priority: item.priority ?? 'medium',
+			dependencies: item.dependencies ?? [],
+			subtasks: []
+		};
+	}
+
+	/**
+	 * Subtask dependencies without a dot refer to siblings, so dependencies
+	 * on top-level tasks cannot be kept and are dropped
+	 */
+	private toSubtask(
+		item: Task | Subtask,
+		parentId: string,
+		subtaskId: string
+	): Subtask {
+		const { subtasks: _subtasks, ...fields } = item as Task;
+		return {
+			...fields,
+			id: /^\d+$/.test(subtaskId) ? Number(subtaskId) : subtaskId,
+			parentId,
+			dependencies: (item.dependencies ?? [])
+				.map(String)
+				.filter((dep) => dep.includes('.'))
+		};
+	}
+
+	/**
+	 * Insert a task before the first task with a higher numeric ID
+	 */
+	private insertTask(tasks: Task[], task: Task): Task {
+		const index = tasks.findIndex((t) => Number(t.id) > Number(task.id));
+		tasks.splice(index === -1 ? tasks.length : index, 0, task);
+		return task;
+	}
+
+	/**
+	 * Insert a subtask before the first sibling with a higher numeric ID
+	 */
+	private insertSubtask(parent: Task, subtask: Subtask): Subtask {
+		parent.subtasks = parent.subtasks ?? [];
+		const index = parent.subtasks.findIndex(
+			(st) => Number(st.id) > Number(subtask.id)
+		);
+		parent.subtasks.splice(
+			index === -1 ? parent.subtasks.length : index,
+			0,
+			subtask
+		);
+		return subtask;
+	}
+
+	/**
+	 * Move a subtask to the position of a sibling, keeping its ID
+	 */
+	private reorderSubtask(parent: Task, subtask: Subtask, to: string): Subtask {
+		const target = parent.subtasks.findIndex(
+			(st) => `${parent.id}.${st.id}` === to
+		);
+		if (target === -1) {
+			throw new TaskMasterError(
+				`Subtask ${to} not found`,
+				ERROR_CODES.TASK_NOT_FOUND,
+				{ taskId: to }
+			);
+		}
+		parent.subtasks.splice(parent.subtasks.indexOf(subtask), 1);
+		parent.subtasks.splice(target, 0, subtask);
+		return subtask;
+	}
+
+	/**
+	 * Next numeric ID after the highest numeric one in the list
+	 */
+	private nextId(items: Array<{ id: string | number }>): string {
+		const numeric = items
+			.map((item) => Number(item.id))
+			.filter((id) => Number.isInteger(id));
+		return String(Math.max(0, ...numeric) + 1);
+	}
+
+	/**
+	 * Full IDs of the dependencies of a task and its subtasks that point
+	 * outside the task
+	 */
+	private taskDependencies(task: Task): string[] {
+		const deps = (task.dependencies ?? []).map(String);
+		for (const subtask of task.subtasks ?? []) {
+			for (const dep of subtask.dependencies ?? []) {
+				deps.push(toFullSubtaskDependencyId(String(task.id), dep));
+			}
+		}
+		return [...new Set(deps.map((dep) => dep.split('.')[0]))].filter(
+			(dep) => dep !== String(task.id)
+		);
+	}
+
+	/**
+	 * Point every reference to `from` at `to` instead
+	 */
+	private renameReferences(tasks: Task[], from: string, to: string): void {
+		this.forEachReference(tasks, (depId) => (depId === from ? to : depId));
+	}
+
+	/**
+	 * Drop references to the given IDs
+	 * @returns IDs of tasks that had references dropped
+	 */
+	private dropReferences(tasks: Task[], ids: Set<string>): string[] {
+		return this.forEachReference(tasks, (depId) =>
+			ids.has(depId) ? null : depId
+		);
+	}
+
+	/**
+	 * Drop references between moved and remaining tasks (in either direction)
+	 */
+	private dropCrossReferences(tasks: Task[], movedIds: Set<string>): void {
+		for (const task of tasks) {
+			const taskMoves = movedIds.has(String(task.id));
+			this.forEachReference([task], (depId) => {
+				const depTask = depId.split('.')[0];
+				const isTask = tasks.some((t) => String(t.id) === depTask);
+				return isTask && movedIds.has(depTask) !== taskMoves ? null : depId;
+			});
+		}
+	}
+
+	/**
+	 * Map every task and subtask dependency by full ID. Returning null drops
+	 * the reference; unchanged references keep their stored form. Subtask
+	 * references mapped to a top-level task are dropped, as they would be
+	 * read as sibling subtasks.
+	 * @returns IDs of tasks with changed references
+	 */
+	private forEachReference(
+		tasks: Task[],
+		map: (depId: string) => string | null
+	): string[] {
+		const changed = new Set<string>();
+		const apply = (
+			item: Task | Subtask,
+			toFullId: (dep: string | number) => string,
+			taskId: string,
+			isSubtask: boolean
+		) => {
+			if (!item.dependencies?.length) {
+				return;
+			}
+			const next: Array<string | number> = [];
+			for (const dep of item.dependencies as Array<string | number>) {
+				const depId = toFullId(dep);
+				const mapped = map(depId);
+				if (mapped === depId) {
+					next.push(dep);
+				} else {
+					changed.add(taskId);
+					if (mapped !== null && (!isSubtask || mapped.includes('.'))) {
+						next.push(mapped);
+					}
+				}
+			}
+			item.dependencies = next as string[];
+		};
+
+		for (const task of tasks) {
+			const taskId = String(task.id);
+			apply(task, String, taskId, false);
+			for (const subtask of task.subtasks ?? []) {
+				apply(
+					subtask,
+					(dep) => toFullSubtaskDependencyId(taskId, dep),
+					taskId,
+					true
+				);
+			}
+		}
+		return [...changed];
+	}
+}
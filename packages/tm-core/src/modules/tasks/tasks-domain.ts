@@ -11,16 +11,46 @@ import { TaskExecutionService } from './services/task-execution-service.js';
 import { TaskLoaderService } from './services/task-loader.service.js';
 import { PreflightChecker } from './services/preflight-checker.service.js';
 import { TagService } from './services/tag.service.js';
+import { TaskStructureService } from './services/task-structure.service.js';
+import { TaskSearchService } from './services/task-search.service.js';
+import { createEmbeddingProvider } from './search/embedding-providers.js';
+import { ExecutorRegistry } from '../execution/executors/executor-registry.js';
+import { ExecutorService } from '../execution/services/executor-service.js';
+import type { ExecutionResult } from '../execution/types.js';
+import type { IStorage } from '../../common/interfaces/storage.interface.js';
+import { FileStorage } from '../storage/adapters/file-storage/file-storage.js';
+import { JournaledStorage } from '../history/adapters/journaled-storage.js';
+import type { ChangeContext } from '../history/types.js';
+import type {
+	RestoreBackupResult,
+	TaskFileBackup
+} from '../storage/adapters/file-storage/backup-manager.js';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../common/errors/task-master-error.js';
+import { getLogger } from '../../common/logger/factory.js';
+import {
+	getCurrentBranch,
+	isValidBranchForTag,
+	sanitizeBranchNameForTag
+} from '../../common/utils/git-utils.js';
 import type {
 	CreateTagOptions,
 	DeleteTagOptions,
 	CopyTagOptions
 } from './services/tag.service.js';
 
-import type { Subtask, Task, TaskStatus } from '../../common/types/index.js';
+import type {
+	StorageType,
+	Subtask,
+	Task,
+	TaskStatus
+} from '../../common/types/index.js';
 import type {
 	TaskListResult,
-	GetTaskListOptions
+	GetTaskListOptions,
+	NextTaskOptions
 } from './services/task-service.js';
 import type {
 	StartTaskOptions,
@@ -30,21 +60,63 @@ import type {
 	PreflightResult
 } from './services/preflight-checker.service.js';
 import type { TaskValidationResult } from './services/task-loader.service.js';
+import type {
+	ClearSubtasksResult,
+	MoveTaskResult,
+	MoveTasksToTagOptions,
+	MoveTasksToTagResult,
+	NewSubtaskData,
+	NewTaskData,
+	RemoveSubtaskResult,
+	RemoveTasksResult
+} from './services/task-structure.service.js';
 import type { ExpandTaskResult } from '../integration/services/task-expansion.service.js';
+import { FileImportService } from '../integration/services/file-import.service.js';
+import type {
+	ImportFileOptions,
+	ImportFileResult
+} from '../integration/services/file-import.service.js';
+import { ImporterRegistry } from '../integration/importers/importer-registry.js';
+import type { TaskImporter } from '../integration/importers/types.js';
+import type {
+	EmbeddingProvider,
+	TaskSearchOptions,
+	TaskSearchResult
+} from './search/types.js';
+
+/**
+ * Options for running a task through an executor
+ */
+export interface ExecuteTaskOptions {
+	/** Built-in executor type or name of a custom executor from config */
+	executor?: string;
+}
 
 /**
  * Tasks Domain - Unified API for all task operations
  */
 export class TasksDomain {
+	private readonly logger = getLogger('TasksDomain');
 	private taskService: TaskService;
 	private executionService: TaskExecutionService;
 	private loaderService: TaskLoaderService;
 	private preflightChecker: PreflightChecker;
 	private briefsDomain: BriefsDomain;
 	private tagService!: TagService;
-
-	constructor(configManager: ConfigManager, _authDomain?: AuthDomain) {
-		this.taskService = new TaskService(configManager);
+	private structureService!: TaskStructureService;
+	private searchService!: TaskSearchService;
+	private fileImportService!: FileImportService;
+	private importers = new ImporterRegistry();
+	private embeddingProviderLoaded = false;
+	private executors = new ExecutorRegistry();
+	private executorService?: ExecutorService;
+
+	constructor(
+		private readonly configManager: ConfigManager,
+		_authDomain?: AuthDomain,
+		changeContext?: ChangeContext
+	) {
+		this.taskService = new TaskService(configManager, changeContext);
 		this.executionService = new TaskExecutionService(this.taskService);
 		this.loaderService = new TaskLoaderService(this.taskService);
 		this.preflightChecker = new PreflightChecker(configManager.getProjectRoot());
@@ -56,6 +128,18 @@ export class TasksDomain {
 
 		// TagService needs storage - get it from TaskService AFTER initialization
 		this.tagService = new TagService(this.taskService.getStorage());
+		this.structureService = new TaskStructureService(
+			this.taskService.getStorage()
+		);
+		this.searchService = new TaskSearchService(
+			this.taskService,
+			this.configManager.getProjectRoot()
+		);
+		this.fileImportService = new FileImportService(
+			this.taskService.getStorage(),
+			this.configManager,
+			this.importers
+		);
 	}
 
 	// ========== Task Retrieval ==========
@@ -128,8 +212,92 @@ export class TasksDomain {
 	/**
 	 * Get next available task to work on
 	 */
-	async getNext(tag?: string): Promise<Task | null> {
-		return this.taskService.getNextTask(tag);
+	async getNext(
+		tag?: string,
+		options?: NextTaskOptions
+	): Promise<Task | null> {
+		return this.taskService.getNextTask(tag, options);
+	}
+
+	// ========== Task Search ==========
+
+	/**
+	 * Search tasks by free text, best matches first
+	 * Ranks by fuzzy matching, and by embedding similarity when an embedding
+	 * provider is configured under `search.embeddings` or set programmatically.
+	 */
+	async search(
+		text: string,
+		options?: TaskSearchOptions
+	): Promise<TaskSearchResult[]> {
+		await this.loadEmbeddingProvider(options?.semantic === true);
+		return this.searchService.search(text, options);
+	}
+
+	/**
+	 * Use an embedding provider for semantic search instead of the configured
+	 * one, or none to turn semantic search off
+	 */
+	setEmbeddingProvider(provider: EmbeddingProvider | undefined): void {
+		this.embeddingProviderLoaded = true;
+		this.searchService.setEmbeddingProvider(provider);
+	}
+
+	/**
+	 * Create the embedding provider from config on first use
+	 * @param required - Fail when the provider cannot be loaded, instead of
+	 * searching by fuzzy matching only
+	 */
+	private async loadEmbeddingProvider(required: boolean): Promise<void> {
+		if (this.embeddingProviderLoaded) {
+			return;
+		}
+		const embeddings = this.configManager.getConfig().search?.embeddings;
+		if (embeddings) {
+			try {
+				this.searchService.setEmbeddingProvider(
+					await createEmbeddingProvider(
+						embeddings,
+						this.configManager.getProjectRoot()
+					)
+				);
+			} catch (error: any) {
+				if (required) {
+					throw error;
+				}
+				// Not marked as loaded, so a later search tries again
+				this.logger.warn(
+					`${error.message}; ranking search results by fuzzy matching only`
+				);
+				return;
+			}
+		}
+		this.embeddingProviderLoaded = true;
+	}
+
+	// ========== File Import ==========
+
+	/**
+	 * Append the tasks of a CSV, GitHub issues or Jira file to a tag
+	 * Tasks with the title of a task already in the tag are skipped; with
+	 * dryRun the result shows what would be added without writing it.
+	 */
+	async importFile(options: ImportFileOptions): Promise<ImportFileResult> {
+		return this.fileImportService.importFile(options);
+	}
+
+	/**
+	 * Importers available to importFile
+	 */
+	getImporters(): TaskImporter[] {
+		return this.importers.list();
+	}
+
+	/**
+	 * Support another import format, or override a built-in one
+	 */
+	registerImporter(importer: TaskImporter): void {
+		this.importers.register(importer);
 	}
 
 	// ========== Task Status Management ==========
@@ -218,19 +386,102 @@ export class TasksDomain {
 
 	/**
 	 * Switch to a different tag/brief context
-	 * For file storage: updates active tag in state
+	 * For file and SQLite storage: updates active tag in state
 	 * For API storage: looks up brief by name and updates auth context
 	 */
 	async switchTag(tagName: string): Promise<void> {
 		const storageType = this.taskService.getStorageType();
 
-		if (storageType === 'file') {
-			await this.setActiveTag(tagName);
-		} else {
+		if (storageType === 'api') {
 			await this.briefsDomain.switchBrief(tagName);
+		} else {
+			await this.setActiveTag(tagName);
 		}
 	}
 
+	// ========== Task Structure ==========
+
+	/**
+	 * Add a task with the next free ID, without AI
+	 */
+	async add(data: NewTaskData, tag?: string): Promise<Task> {
+		return this.structureService.addTask(data, this.resolveTag(tag));
+	}
+
+	/**
+	 * Remove tasks and/or subtasks ("5" or "5.2")
+	 * Dependencies on the removed items are dropped from the remaining tasks
+	 */
+	async remove(ids: string[], tag?: string): Promise<RemoveTasksResult> {
+		return this.structureService.removeTasks(ids, this.resolveTag(tag));
+	}
+
+	/**
+	 * Move a task or subtask to a new ID within a tag
+	 * Supports renumbering tasks, reordering subtasks and converting between
+	 * tasks and subtasks; dependency references follow the moved item
+	 */
+	async move(from: string, to: string, tag?: string): Promise<MoveTaskResult> {
+		return this.structureService.move(from, to, this.resolveTag(tag));
+	}
+
+	/**
+	 * Move tasks to another tag, keeping their IDs
+	 */
+	async moveToTag(
+		ids: string[],
+		fromTag: string,
+		toTag: string,
+		options?: MoveTasksToTagOptions
+	): Promise<MoveTasksToTagResult> {
+		return this.structureService.moveToTag(ids, fromTag, toTag, options);
+	}
+
+	/**
+	 * Add a subtask to a task
+	 * @param source - Fields of a new subtask, or `{ taskId }` to convert an existing task
+	 */
+	async addSubtask(
+		parentId: string,
+		source: NewSubtaskData | { taskId: string },
+		tag?: string
+	): Promise<Subtask> {
+		return this.structureService.addSubtask(
+			parentId,
+			source,
+			this.resolveTag(tag)
+		);
+	}
+
+	/**
+	 * Remove a subtask, optionally converting it to a standalone task
+	 */
+	async removeSubtask(
+		id: string,
+		options: { convert?: boolean } = {},
+		tag?: string
+	): Promise<RemoveSubtaskResult> {
+		return this.structureService.removeSubtask(
+			id,
+			options,
+			this.resolveTag(tag)
+		);
+	}
+
+	/**
+	 * Remove all subtasks of the given tasks, or of every task with 'all'
+	 */
+	async clearSubtasks(
+		ids: string[] | 'all',
+		tag?: string
+	): Promise<ClearSubtasksResult> {
+		return this.structureService.clearSubtasks(ids, this.resolveTag(tag));
+	}
+
+	private resolveTag(tag?: string): string {
+		return tag || this.configManager.getActiveTag();
+	}
+
 	// ========== Task Execution ==========
 
 	/**
@@ -240,6 +491,62 @@ export class TasksDomain {
 		return this.executionService.startTask(taskId, options);
 	}
 
+	/**
+	 * Run a task (or subtask) through a built-in or custom executor
+	 */
+	async execute(
+		taskId: string,
+		options: ExecuteTaskOptions = {}
+	): Promise<ExecutionResult> {
+		const { task, subtask, subtaskId } =
+			await this.executionService.getTaskWithSubtask(taskId);
+		if (!task || (subtaskId && !subtask)) {
+			throw new TaskMasterError(
+				`Task ${taskId} not found`,
+				ERROR_CODES.TASK_NOT_FOUND
+			);
+		}
+
+		const workItem: Task = subtask
+			? {
+					...task,
+					...subtask,
+					id: `${task.id}.${subtask.id}`,
+					dependencies: (subtask.dependencies ?? []).map(String),
+					subtasks: []
+				}
+			: task;
+
+		const executorService = await this.getExecutorService();
+		return executorService.executeTask(workItem, options.executor);
+	}
+
+	/**
+	 * Names of executors selectable with execute()
+	 */
+	async getExecutorNames(): Promise<string[]> {
+		const executorService = await this.getExecutorService();
+		return executorService.getExecutorNames();
+	}
+
+	/**
+	 * Create the executor service, registering custom executors from config
+	 */
+	private async getExecutorService(): Promise<ExecutorService> {
+		if (!this.executorService) {
+			const projectRoot = this.configManager.getProjectRoot();
+			const executors = this.configManager.getConfig().executors;
+			if (executors) {
+				await this.executors.registerFromConfig(executors, projectRoot);
+			}
+			this.executorService = new ExecutorService({
+				projectRoot,
+				registry: this.executors
+			});
+		}
+		return this.executorService;
+	}
+
 	/**
 	 * Check for in-progress conflicts
 	 */
@@ -317,32 +624,59 @@ export class TasksDomain {
 	// ========== Tag Management ==========
 
 	/**
-	 * Create a new tag
+	 * Create a new tag, named after the current git branch with fromBranch
 	 * For file storage: creates tag locally with optional task copying
 	 * For API storage: throws error (client should redirect to web UI)
 	 */
 	async createTag(name: string, options?: CreateTagOptions) {
-		return this.tagService.createTag(name, options);
+		const tagName = options?.fromBranch ? await this.getBranchTagName() : name;
+		return this.tagService.createTag(tagName, options);
 	}
 
 	/**
-	 * Delete an existing tag
+	 * Tag name derived from the current git branch
+	 * @throws {TaskMasterError} outside a git repository or on main/master-like branches
+	 */
+	private async getBranchTagName(): Promise<string> {
+		const branch = await getCurrentBranch(this.configManager.getProjectRoot());
+		if (!branch || !isValidBranchForTag(branch)) {
+			throw new TaskMasterError(
+				branch
+					? `Cannot create a tag from branch "${branch}"`
+					: 'Cannot create a tag from the git branch: not a git repository',
+				ERROR_CODES.VALIDATION_ERROR,
+				{ branch }
+			);
+		}
+		// Tag names cannot contain dots
+		return sanitizeBranchNameForTag(branch).replace(/\./g, '-');
+	}
+
+	/**
+	 * Delete an existing tag, switching to master if it was the active tag
 	 * Cannot delete master tag
 	 * For file storage: deletes tag locally
 	 * For API storage: throws error (client should redirect to web UI)
 	 */
 	async deleteTag(name: string, options?: DeleteTagOptions) {
-		return this.tagService.deleteTag(name, options);
+		await this.tagService.deleteTag(name, options);
+		// Don't leave the active tag pointing at a deleted tag
+		if (this.configManager.getActiveTag() === name) {
+			await this.setActiveTag('master');
+		}
 	}
 
 	/**
-	 * Rename an existing tag
+	 * Rename an existing tag, following it if it was the active tag
 	 * Cannot rename master tag
 	 * For file storage: renames tag locally
 	 * For API storage: throws error (client should redirect to web UI)
 	 */
 	async renameTag(oldName: string, newName: string) {
-		return this.tagService.renameTag(oldName, newName);
+		await this.tagService.renameTag(oldName, newName);
+		if (this.configManager.getActiveTag() === oldName) {
+			await this.setActiveTag(newName);
+		}
 	}
 
 	/**
@@ -363,12 +697,65 @@ export class TasksDomain {
 		return this.tagService.getTagsWithStats();
 	}
 
+	// ========== Backups ==========
+
+	/**
+	 * List backups of the tasks file, newest first
+	 * Only available with file storage
+	 */
+	async listBackups(): Promise<TaskFileBackup[]> {
+		return this.getFileStorage('Listing backups').listBackups();
+	}
+
+	/**
+	 * Restore the tasks file from a backup
+	 * The replaced tasks file is backed up first so the restore can be undone
+	 */
+	async restoreBackup(id: string): Promise<RestoreBackupResult> {
+		return this.getFileStorage('Restoring backups').restoreBackup(id);
+	}
+
+	/**
+	 * Get the file storage, for operations that only exist locally
+	 * @throws {TaskMasterError} with API storage
+	 */
+	private getFileStorage(operation: string): FileStorage {
+		let storage = this.taskService.getStorage();
+		if (storage instanceof JournaledStorage) {
+			storage = storage.getInnerStorage();
+		}
+		if (!(storage instanceof FileStorage)) {
+			throw new TaskMasterError(
+				`${operation} is only supported with file storage.`,
+				ERROR_CODES.NOT_IMPLEMENTED,
+				{ storageType: this.getStorageType(), operation }
+			);
+		}
+		return storage;
+	}
+
 	// ========== Storage Information ==========
 
 	/**
 	 * Get the resolved storage type (actual type being used at runtime)
 	 */
-	getStorageType(): 'file' | 'api' {
+	getStorageType(): Exclude<StorageType, 'auto'> {
 		return this.taskService.getStorageType();
 	}
+
+	/**
+	 * Get the storage backing this domain (available after initialize())
+	 */
+	getStorage(): IStorage {
+		return this.taskService.getStorage();
+	}
+
+	/**
+	 * Get the storage holding the tasks on this machine: the configured
+	 * storage, or the project's file storage when working on a brief through
+	 * the API
+	 */
+	getLocalStorage(): Promise<IStorage> {
+		return this.taskService.getLocalStorage();
+	}
 }
@@ -4,8 +4,11 @@
  * Stores workflow state in global user directory (~/.taskmaster/{project-id}/sessions/)
  * to avoid git conflicts and support multiple worktrees.
  * Each project gets its own directory for organizing workflow-related data.
+ * Sessions running in their own git worktree are keyed by task ID under
+ * sessions/tasks/{taskId}/ so several can run in parallel.
  */
 
+import { readFileSync, statSync } from 'node:fs';
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
@@ -18,35 +21,93 @@ export interface WorkflowStateBackup {
 	state: WorkflowState;
 }
 
+export interface WorkflowStateManagerOptions {
+	/** Maximum number of state backups to keep */
+	maxBackups?: number;
+	/** Keep state for this task's session instead of the main checkout's */
+	taskId?: string;
+}
+
 /**
  * Manages workflow state persistence with backup support
  * Stores state in global user directory to avoid git noise
  */
 export class WorkflowStateManager {
 	private readonly projectRoot: string;
+	private readonly taskId?: string;
 	private readonly statePath: string;
 	private readonly backupDir: string;
+	private readonly sessionsRootDir: string;
 	private readonly sessionDir: string;
 	private maxBackups: number;
 	private readonly logger = getLogger('WorkflowStateManager');
 	private writer: Writer | null = null;
 	private writerInitPromise: Promise<void> | null = null;
 
-	constructor(projectRoot: string, maxBackups = 5) {
-		this.projectRoot = path.resolve(projectRoot);
-		this.maxBackups = maxBackups;
+	constructor(projectRoot: string, options: WorkflowStateManagerOptions = {}) {
+		// Linked worktrees share the state directory of their main checkout
+		this.projectRoot = this.getMainWorktreeRoot(path.resolve(projectRoot));
+		this.maxBackups = options.maxBackups ?? 5;
+		this.taskId = options.taskId;
 
 		// Create project-specific directory in global .taskmaster
-		// Structure: ~/.taskmaster/{project-id}/sessions/
+		// Structure: ~/.taskmaster/{project-id}/sessions/[tasks/{taskId}/]
 		const projectId = this.getProjectIdentifier(this.projectRoot);
 		const homeDir = os.homedir();
 		const projectDir = path.join(homeDir, '.taskmaster', projectId);
-		this.sessionDir = path.join(projectDir, 'sessions');
+		this.sessionsRootDir = path.join(projectDir, 'sessions');
+		this.sessionDir = this.taskId
+			? path.join(
+					this.getTaskSessionsDir(),
+					WorkflowStateManager.getTaskKey(this.taskId)
+				)
+			: this.sessionsRootDir;
 
 		this.statePath = path.join(this.sessionDir, 'workflow-state.json');
 		this.backupDir = path.join(this.sessionDir, 'backups');
 	}
 
+	/**
+	 * Directory name used for a task's session state
+	 */
+	static getTaskKey(taskId: string): string {
+		return taskId.replace(/[^a-zA-Z0-9_-]+/g, '-');
+	}
+
+	/**
+	 * Resolve the main checkout of a linked worktree
+	 * A linked worktree has a .git file pointing at {main}/.git/worktrees/{name}
+	 */
+	private getMainWorktreeRoot(projectRoot: string): string {
+		const gitPath = path.join(projectRoot, '.git');
+		try {
+			if (!statSync(gitPath).isFile()) {
+				return projectRoot;
+			}
+
+			const gitDir = readFileSync(gitPath, 'utf-8')
+				.match(/^gitdir:\s*(.+)$/m)?.[1]
+				?.trim();
+			if (!gitDir) {
+				return projectRoot;
+			}
+
+			const resolvedGitDir = path.resolve(projectRoot, gitDir);
+			const worktreesDir = path.dirname(resolvedGitDir);
+			if (
+				path.basename(worktreesDir) !== 'worktrees' ||
+				path.basename(path.dirname(worktreesDir)) !== '.git'
+			) {
+				// Submodules and separate git dirs are not linked worktrees
+				return projectRoot;
+			}
+
+			return path.dirname(path.dirname(worktreesDir));
+		} catch {
+			return projectRoot;
+		}
+	}
+
 	/**
 	 * Generate a unique identifier for the project using full sanitized path
 	 * Uses Claude Code's pattern: leading dash + full path with case preserved
@@ -275,11 +336,26 @@ export class WorkflowStateManager {
 
 	/**
 	 * Get the project root this manager is for
+	 * For a linked worktree this is the main checkout
 	 */
 	getProjectRoot(): string {
 		return this.projectRoot;
 	}
 
+	/**
+	 * Get the task ID this manager keeps state for (undefined for the main checkout session)
+	 */
+	getTaskId(): string | undefined {
+		return this.taskId;
+	}
+
+	/**
+	 * Get the directory holding per-task session state
+	 */
+	getTaskSessionsDir(): string {
+		return path.join(this.sessionsRootDir, 'tasks');
+	}
+
 	/**
 	 * Get the path to the activity log file
 	 * Activity log is stored next to workflow-state.json for correlation
@@ -287,4 +363,18 @@ export class WorkflowStateManager {
 	getActivityLogPath(): string {
 		return path.join(this.sessionDir, 'activity.jsonl');
 	}
+
+	/**
+	 * Get the directory holding per-session event journals
+	 */
+	getJournalDir(): string {
+		return path.join(this.sessionsRootDir, 'journal');
+	}
+
+	/**
+	 * Get the path to the event journal of a workflow session
+	 */
+	getJournalPath(sessionId: string): string {
+		return path.join(this.getJournalDir(), `${sessionId}.jsonl`);
+	}
 }
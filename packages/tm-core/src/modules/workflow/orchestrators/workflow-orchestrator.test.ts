@@ -205,6 +205,102 @@ describe('WorkflowOrchestrator - State Machine Structure', () => {
 		});
 	});
 
+	describe('REFACTOR phase', () => {
+		const passing = {
+			total: 5,
+			passed: 5,
+			failed: 0,
+			skipped: 0,
+			phase: 'GREEN' as const
+		};
+
+		beforeEach(async () => {
+			orchestrator = new WorkflowOrchestrator({
+				...initialContext,
+				enableRefactorPhase: true
+			});
+			await orchestrator.transition({ type: 'PREFLIGHT_COMPLETE' });
+			await orchestrator.transition({
+				type: 'BRANCH_CREATED',
+				branchName: 'feature/test'
+			});
+			await orchestrator.transition({
+				type: 'RED_PHASE_COMPLETE',
+				testResults: { ...passing, passed: 0, failed: 5, phase: 'RED' }
+			});
+		});
+
+		it('should transition from GREEN to REFACTOR when enabled', async () => {
+			const events: string[] = [];
+			orchestrator.on('tdd:refactor:started', (e) => events.push(e.type));
+
+			await orchestrator.transition({
+				type: 'GREEN_PHASE_COMPLETE',
+				testResults: passing
+			});
+
+			expect(orchestrator.getCurrentTDDPhase()).toBe('REFACTOR');
+			expect(events).toEqual(['tdd:refactor:started']);
+		});
+
+		it('should transition from REFACTOR to COMMIT when tests stay green', async () => {
+			const completed = vi.fn();
+			orchestrator.on('tdd:refactor:completed', completed);
+			await orchestrator.transition({
+				type: 'GREEN_PHASE_COMPLETE',
+				testResults: passing
+			});
+
+			await orchestrator.transition({
+				type: 'REFACTOR_PHASE_COMPLETE',
+				testResults: { ...passing, phase: 'REFACTOR' }
+			});
+
+			expect(orchestrator.getCurrentTDDPhase()).toBe('COMMIT');
+			expect(completed).toHaveBeenCalledOnce();
+		});
+
+		it('should reject REFACTOR completion with failing tests', async () => {
+			await orchestrator.transition({
+				type: 'GREEN_PHASE_COMPLETE',
+				testResults: passing
+			});
+
+			await expect(
+				orchestrator.transition({
+					type: 'REFACTOR_PHASE_COMPLETE',
+					testResults: { ...passing, passed: 4, failed: 1, phase: 'REFACTOR' }
+				})
+			).rejects.toThrow('REFACTOR phase must keep all tests passing');
+			expect(orchestrator.getCurrentTDDPhase()).toBe('REFACTOR');
+		});
+
+		it('should allow skipping REFACTOR explicitly', async () => {
+			const skipped = vi.fn();
+			orchestrator.on('tdd:refactor:skipped', skipped);
+			await orchestrator.transition({
+				type: 'GREEN_PHASE_COMPLETE',
+				testResults: passing
+			});
+
+			await orchestrator.transition({
+				type: 'REFACTOR_PHASE_SKIPPED',
+				reason: 'nothing to clean up'
+			});
+
+			expect(orchestrator.getCurrentTDDPhase()).toBe('COMMIT');
+			expect(skipped.mock.calls[0][0].data).toMatchObject({
+				reason: 'nothing to clean up'
+			});
+		});
+
+		it('should reject skipping outside the REFACTOR phase', async () => {
+			await expect(
+				orchestrator.transition({ type: 'REFACTOR_PHASE_SKIPPED' })
+			).rejects.toThrow('REFACTOR_PHASE_SKIPPED from non-REFACTOR phase');
+		});
+	});
+
 	describe('State Serialization', () => {
 		it('should serialize current state', () => {
 			const state = orchestrator.getState();
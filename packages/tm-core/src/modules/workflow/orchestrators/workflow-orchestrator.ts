@@ -3,6 +3,7 @@ import type {
 	StateTransition,
 	SubtaskInfo,
 	TDDPhase,
+	TestResult,
 	WorkflowContext,
 	WorkflowError,
 	WorkflowEvent,
@@ -147,7 +148,7 @@ export class WorkflowOrchestrator {
 	}
 
 	/**
-	 * Handle TDD phase transitions (RED -> GREEN -> COMMIT)
+	 * Handle TDD phase transitions (RED -> GREEN -> [REFACTOR] -> COMMIT)
 	 */
 	private async handleTDDPhaseTransition(event: WorkflowEvent): Promise<void> {
 		const currentTDD = this.context.currentTDDPhase || 'RED';
@@ -233,6 +234,49 @@ export class WorkflowOrchestrator {
 				this.context.lastTestResults = event.testResults;
 
 				this.emit('tdd:green:completed');
+				if (this.context.enableRefactorPhase) {
+					this.context.currentTDDPhase = 'REFACTOR';
+					this.emit('tdd:refactor:started');
+				} else {
+					this.context.currentTDDPhase = 'COMMIT';
+					this.emit('tdd:commit:started');
+				}
+				break;
+
+			case 'REFACTOR_PHASE_COMPLETE':
+				if (currentTDD !== 'REFACTOR') {
+					throw new Error(
+						'Invalid transition: REFACTOR_PHASE_COMPLETE from non-REFACTOR phase'
+					);
+				}
+
+				// Validate test results are provided
+				if (!event.testResults) {
+					throw new Error(
+						'Test results required for REFACTOR phase transition'
+					);
+				}
+
+				// Refactoring must not break the tests made green in GREEN
+				if (event.testResults.failed !== 0) {
+					throw new Error('REFACTOR phase must keep all tests passing');
+				}
+
+				// Store test results in context
+				this.context.lastTestResults = event.testResults;
+
+				this.emit('tdd:refactor:completed');
+				this.context.currentTDDPhase = 'COMMIT';
+				this.emit('tdd:commit:started');
+				break;
+
+			case 'REFACTOR_PHASE_SKIPPED':
+				if (currentTDD !== 'REFACTOR') {
+					throw new Error(
+						'Invalid transition: REFACTOR_PHASE_SKIPPED from non-REFACTOR phase'
+					);
+				}
+				this.emit('tdd:refactor:skipped', { reason: event.reason });
 				this.context.currentTDDPhase = 'COMMIT';
 				this.emit('tdd:commit:started');
 				break;
@@ -310,6 +354,10 @@ export class WorkflowOrchestrator {
 			throw new Error('Guard condition failed');
 		}
 
+		if (transition.event === 'PREFLIGHT_COMPLETE') {
+			this.emit('workflow:started', { taskId: this.context.taskId });
+		}
+
 		// Emit phase exit event
 		this.emit('phase:exited');
 
@@ -322,6 +370,13 @@ export class WorkflowOrchestrator {
 		// Emit phase entry event
 		this.emit('phase:entered');
 
+		if (this.currentPhase === 'COMPLETE') {
+			this.emit('workflow:completed', {
+				taskId: this.context.taskId,
+				progress: this.getProgress()
+			});
+		}
+
 		// Initialize TDD phase if entering SUBTASK_LOOP
 		if (this.currentPhase === 'SUBTASK_LOOP') {
 			this.context.currentTDDPhase = 'RED';
@@ -429,6 +484,45 @@ export class WorkflowOrchestrator {
 		}
 	}
 
+	/**
+	 * Record a test command run executed by the workflow
+	 * Emits test:run followed by test:passed or test:failed so the activity log
+	 * captures the command output alongside the parsed results
+	 */
+	recordTestRun(run: {
+		command: string;
+		exitCode: number | null;
+		durationMs: number;
+		stdout: string;
+		stderr: string;
+		testResults: TestResult;
+	}): void {
+		const { testResults, ...execution } = run;
+
+		this.emit('test:run', { ...execution, testResults });
+		this.emit(testResults.failed > 0 ? 'test:failed' : 'test:passed', {
+			command: run.command,
+			total: testResults.total,
+			passed: testResults.passed,
+			failed: testResults.failed,
+			skipped: testResults.skipped
+		});
+	}
+
+	/**
+	 * Record a git commit created for the current subtask
+	 */
+	recordCommit(commit: { hash: string; message: string }): void {
+		this.emit('git:commit:created', {
+			commitHash: commit.hash,
+			message: commit.message
+		});
+
+		if (this.gitOperationHook) {
+			this.gitOperationHook('commit:created', commit);
+		}
+	}
+
 	/**
 	 * Get current subtask ID
 	 */
@@ -568,6 +662,9 @@ export class WorkflowOrchestrator {
 	private handleError(error: WorkflowError): void {
 		this.context.errors.push(error);
 		this.emit('error:occurred', { error });
+		if (!error.recoverable) {
+			this.emit('workflow:error', { error });
+		}
 	}
 
 	/**
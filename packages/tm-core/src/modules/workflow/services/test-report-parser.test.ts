@@ -0,0 +1,250 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TaskMasterError } from '../../../common/errors/task-master-error.js';
+import { TestReportParser } from './test-report-parser.js';
+
+describe('TestReportParser', () => {
+	const parser = new TestReportParser();
+
+	describe('JUnit XML', () => {
+		const junit = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="4">
+	<testsuite name="math" tests="4">
+		<testcase classname="math" name="adds numbers" time="0.012" />
+		<testcase classname="math" name="divides &amp; rounds" time="0.003">
+			<failure message="expected 2 to be 3">AssertionError</failure>
+		</testcase>
+		<testcase classname="math" name="throws">
+			<error message="boom" />
+		</testcase>
+		<testcase classname="math" name="later">
+			<skipped />
+		</testcase>
+	</testsuite>
+</testsuites>`;
+
+		it('should count passed, failed, errored and skipped test cases', () => {
+			const result = parser.parse(junit, { phase: 'RED', format: 'junit' });
+
+			expect(result).toMatchObject({
+				total: 4,
+				passed: 1,
+				failed: 2,
+				skipped: 1,
+				phase: 'RED'
+			});
+		});
+
+		it('should capture per-test names, durations and failure messages', () => {
+			const result = parser.parse(junit, { phase: 'RED', format: 'junit' });
+
+			expect(result.tests?.[0]).toEqual({
+				name: 'math > adds numbers',
+				status: 'passed',
+				durationMs: 12
+			});
+			expect(result.tests?.[1]).toMatchObject({
+				name: 'math > divides & rounds',
+				status: 'failed',
+				failureMessage: 'expected 2 to be 3'
+			});
+		});
+	});
+
+	describe('Jest/Vitest JSON', () => {
+		const jestReport = {
+			numTotalTests: 3,
+			testResults: [
+				{
+					name: '/repo/src/sum.test.ts',
+					status: 'failed',
+					assertionResults: [
+						{ fullName: 'sum adds', status: 'passed', duration: 4 },
+						{
+							fullName: 'sum subtracts',
+							status: 'failed',
+							failureMessages: ['Expected 1, received 2']
+						},
+						{ fullName: 'sum multiplies', status: 'pending' }
+					]
+				}
+			]
+		};
+
+		it('should build a TestResult from assertion results', () => {
+			const result = parser.parse(JSON.stringify(jestReport), {
+				phase: 'RED'
+			});
+
+			expect(result).toMatchObject({
+				total: 3,
+				passed: 1,
+				failed: 1,
+				skipped: 1
+			});
+			expect(result.tests?.[1]).toEqual({
+				name: 'sum subtracts',
+				status: 'failed',
+				file: '/repo/src/sum.test.ts',
+				failureMessage: 'Expected 1, received 2'
+			});
+		});
+
+		it('should count suites that failed to run as failures', () => {
+			const report = {
+				testResults: [
+					{
+						name: '/repo/src/broken.test.ts',
+						status: 'failed',
+						message: 'Cannot find module',
+						assertionResults: []
+					}
+				]
+			};
+
+			const result = parser.parse(JSON.stringify(report), { phase: 'RED' });
+
+			expect(result.failed).toBe(1);
+			expect(result.tests?.[0].failureMessage).toBe('Cannot find module');
+		});
+
+		it('should summarize coverageMap into percentages', () => {
+			const report = {
+				...jestReport,
+				coverageMap: {
+					'/repo/src/sum.ts': {
+						statementMap: {
+							'0': { start: { line: 1 } },
+							'1': { start: { line: 2 } }
+						},
+						s: { '0': 1, '1': 0 },
+						f: { '0': 1 },
+						b: { '0': [1, 0] }
+					}
+				}
+			};
+
+			const result = parser.parse(JSON.stringify(report), { phase: 'GREEN' });
+
+			expect(result.coverage).toEqual({
+				line: 50,
+				branch: 50,
+				function: 100,
+				statement: 50
+			});
+		});
+
+		it('should reject JSON without testResults', () => {
+			expect(() =>
+				parser.parse('{"foo": 1}', { phase: 'RED', format: 'jest-json' })
+			).toThrow(TaskMasterError);
+		});
+	});
+
+	describe('TAP', () => {
+		it('should parse flat TAP with SKIP and TODO directives', () => {
+			const tap = [
+				'TAP version 13',
+				'1..4',
+				'ok 1 - adds',
+				'not ok 2 - subtracts',
+				'ok 3 - multiplies # SKIP not ready',
+				'not ok 4 - divides # TODO later'
+			].join('\n');
+
+			const result = parser.parse(tap, { phase: 'RED' });
+
+			expect(result).toMatchObject({
+				total: 4,
+				passed: 1,
+				failed: 1,
+				skipped: 2
+			});
+			expect(result.tests?.map((t) => t.name)).toEqual([
+				'adds',
+				'subtracts',
+				'multiplies',
+				'divides'
+			]);
+		});
+
+		it('should ignore parent summary lines for nested subtests', () => {
+			const tap = [
+				'TAP version 13',
+				'# Subtest: suite',
+				'    ok 1 - first',
+				'    not ok 2 - second',
+				'    1..2',
+				'not ok 1 - suite',
+				'ok 2 - standalone',
+				'1..2'
+			].join('\n');
+
+			const result = parser.parse(tap, { phase: 'RED' });
+
+			expect(result).toMatchObject({ total: 3, passed: 2, failed: 1 });
+		});
+	});
+
+	describe('parseFile', () => {
+		let tempDir: string;
+
+		beforeEach(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-report-'));
+		});
+
+		afterEach(async () => {
+			await fs.rm(tempDir, { recursive: true, force: true });
+		});
+
+		it('should detect the format from the extension and record the source', async () => {
+			const reportPath = path.join(tempDir, 'junit.xml');
+			await fs.writeFile(
+				reportPath,
+				'<testsuite><testcase name="a"/></testsuite>'
+			);
+
+			const result = await parser.parseFile(reportPath, { phase: 'GREEN' });
+
+			expect(result.total).toBe(1);
+			expect(result.report).toEqual({ path: reportPath, format: 'junit' });
+		});
+
+		it('should attach coverage from a json-summary file', async () => {
+			const reportPath = path.join(tempDir, 'results.tap');
+			const coveragePath = path.join(tempDir, 'coverage-summary.json');
+			await fs.writeFile(reportPath, 'ok 1 - works\n1..1\n');
+			await fs.writeFile(
+				coveragePath,
+				JSON.stringify({
+					total: {
+						lines: { pct: 90 },
+						branches: { pct: 80 },
+						functions: { pct: 70 },
+						statements: { pct: 60 }
+					}
+				})
+			);
+
+			const result = await parser.parseFile(reportPath, {
+				phase: 'GREEN',
+				coveragePath
+			});
+
+			expect(result.coverage).toEqual({
+				line: 90,
+				branch: 80,
+				function: 70,
+				statement: 60
+			});
+		});
+
+		it('should throw FILE_NOT_FOUND for missing reports', async () => {
+			await expect(
+				parser.parseFile(path.join(tempDir, 'missing.xml'), { phase: 'RED' })
+			).rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+		});
+	});
+});
@@ -0,0 +1,437 @@
+/**
+ * @fileoverview TestReportParser - Builds TestResult objects from test runner reports
+ *
+ * Supports JUnit XML, Jest/Vitest JSON reporter output and TAP streams so that
+ * RED/GREEN phase gates can be backed by the actual report instead of
+ * self-reported counts.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+	ERROR_CODES,
+	TaskMasterError
+} from '../../../common/errors/task-master-error.js';
+import type {
+	TestCaseResult,
+	TestCoverage,
+	TestReportFormat,
+	TestResult
+} from '../types.js';
+
+/**
+ * Options for parsing a test report
+ */
+export interface ParseTestReportOptions {
+	/** TDD phase the results belong to */
+	phase: TestResult['phase'];
+	/** Report format (auto-detected from path/content when omitted) */
+	format?: TestReportFormat;
+	/** Optional istanbul json-summary file (coverage-summary.json) */
+	coveragePath?: string;
+}
+
+/**
+ * Istanbul file coverage entry as emitted in Jest/Vitest `coverageMap`
+ */
+interface IstanbulFileCoverage {
+	statementMap?: Record<string, { start: { line: number } }>;
+	s?: Record<string, number>;
+	f?: Record<string, number>;
+	b?: Record<string, number[]>;
+}
+
+/**
+ * Parses test runner reports into TestResult objects
+ */
+export class TestReportParser {
+	/**
+	 * Read and parse a report file from disk
+	 */
+	async parseFile(
+		reportPath: string,
+		options: ParseTestReportOptions
+	): Promise<TestResult> {
+		const resolvedPath = path.resolve(reportPath);
+		const content = await this.readFile(resolvedPath, 'test report');
+		const format = options.format ?? this.detectFormat(content, resolvedPath);
+
+		const result = this.parse(content, { ...options, format });
+		result.report = { path: resolvedPath, format };
+
+		if (options.coveragePath) {
+			result.coverage = await this.parseCoverageSummaryFile(
+				options.coveragePath
+			);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Parse report content that is already in memory
+	 */
+	parse(content: string, options: ParseTestReportOptions): TestResult {
+		const format = options.format ?? this.detectFormat(content);
+
+		let tests: TestCaseResult[];
+		let coverage: TestCoverage | undefined;
+
+		switch (format) {
+			case 'junit':
+				tests = this.parseJUnit(content);
+				break;
+			case 'jest-json': {
+				const parsed = this.parseJestJson(content);
+				tests = parsed.tests;
+				coverage = parsed.coverage;
+				break;
+			}
+			case 'tap':
+				tests = this.parseTap(content);
+				break;
+			default:
+				throw new TaskMasterError(
+					`Unsupported test report format: ${format}`,
+					ERROR_CODES.INVALID_INPUT
+				);
+		}
+
+		return {
+			...this.summarize(tests),
+			phase: options.phase,
+			tests,
+			...(coverage ? { coverage } : {})
+		};
+	}
+
+	/**
+	 * Detect report format from file extension and content
+	 */
+	detectFormat(content: string, filePath?: string): TestReportFormat {
+		const ext = filePath ? path.extname(filePath).toLowerCase() : '';
+		if (ext === '.xml') return 'junit';
+		if (ext === '.tap') return 'tap';
+		if (ext === '.json') return 'jest-json';
+
+		const trimmed = content.trimStart();
+		if (trimmed.startsWith('<')) return 'junit';
+		if (trimmed.startsWith('{')) return 'jest-json';
+		if (/^TAP version \d+/m.test(trimmed) || /^\s*(not )?ok\b/m.test(trimmed)) {
+			return 'tap';
+		}
+
+		throw new TaskMasterError(
+			'Unable to detect test report format. Supported formats: junit, jest-json, tap',
+			ERROR_CODES.PARSE_ERROR,
+			{ details: { filePath } }
+		);
+	}
+
+	/**
+	 * Read an istanbul json-summary file and extract total percentages
+	 */
+	async parseCoverageSummaryFile(coveragePath: string): Promise<TestCoverage> {
+		const content = await this.readFile(
+			path.resolve(coveragePath),
+			'coverage summary'
+		);
+
+		try {
+			const summary = JSON.parse(content);
+			const total = summary.total ?? summary;
+			return {
+				line: total.lines?.pct ?? 0,
+				branch: total.branches?.pct ?? 0,
+				function: total.functions?.pct ?? 0,
+				statement: total.statements?.pct ?? 0
+			};
+		} catch (error) {
+			throw new TaskMasterError(
+				`Invalid coverage summary: ${coveragePath}`,
+				ERROR_CODES.JSON_PARSE_ERROR,
+				{ operation: 'parseCoverageSummaryFile', resource: coveragePath },
+				error as Error
+			);
+		}
+	}
+
+	/**
+	 * Parse JUnit XML (<testsuites>/<testsuite>/<testcase>)
+	 */
+	private parseJUnit(content: string): TestCaseResult[] {
+		if (!/<testsuites?\b/.test(content) && !/<testcase\b/.test(content)) {
+			throw new TaskMasterError(
+				'Invalid JUnit report: no <testsuite> or <testcase> elements found',
+				ERROR_CODES.PARSE_ERROR
+			);
+		}
+
+		const tests: TestCaseResult[] = [];
+		const testcasePattern =
+			/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+		for (const match of content.matchAll(testcasePattern)) {
+			const attrs = this.parseXmlAttributes(match[1]);
+			const body = match[2] ?? '';
+			const name = attrs.classname
+				? `${attrs.classname} > ${attrs.name ?? ''}`
+				: (attrs.name ?? '');
+
+			let status: TestCaseResult['status'] = 'passed';
+			let failureMessage: string | undefined;
+
+			const failure = body.match(
+				/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/
+			);
+			if (failure) {
+				status = 'failed';
+				const failureAttrs = this.parseXmlAttributes(failure[2]);
+				failureMessage = this.decodeXmlEntities(
+					failureAttrs.message ?? failure[3]?.trim() ?? ''
+				);
+			} else if (/<skipped\b/.test(body)) {
+				status = 'skipped';
+			}
+
+			const time = attrs.time ? Number.parseFloat(attrs.time) : undefined;
+
+			tests.push({
+				name,
+				status,
+				...(attrs.file ? { file: attrs.file } : {}),
+				...(time !== undefined && !Number.isNaN(time)
+					? { durationMs: Math.round(time * 1000) }
+					: {}),
+				...(failureMessage ? { failureMessage } : {})
+			});
+		}
+
+		return tests;
+	}
+
+	/**
+	 * Parse Jest / Vitest `--json` reporter output
+	 */
+	private parseJestJson(content: string): {
+		tests: TestCaseResult[];
+		coverage?: TestCoverage;
+	} {
+		let report: any;
+		try {
+			report = JSON.parse(content);
+		} catch (error) {
+			throw new TaskMasterError(
+				'Invalid JSON test report',
+				ERROR_CODES.JSON_PARSE_ERROR,
+				{ operation: 'parseJestJson' },
+				error as Error
+			);
+		}
+
+		if (!report || !Array.isArray(report.testResults)) {
+			throw new TaskMasterError(
+				'Invalid JSON test report: missing testResults array',
+				ERROR_CODES.PARSE_ERROR
+			);
+		}
+
+		const tests: TestCaseResult[] = [];
+		for (const suite of report.testResults) {
+			const file: string | undefined = suite.name ?? suite.testFilePath;
+			const assertions: any[] = suite.assertionResults ?? [];
+
+			for (const assertion of assertions) {
+				const failureMessages: string[] = assertion.failureMessages ?? [];
+				tests.push({
+					name: assertion.fullName ?? assertion.title ?? '',
+					status: this.mapJestStatus(assertion.status),
+					...(file ? { file } : {}),
+					...(typeof assertion.duration === 'number'
+						? { durationMs: assertion.duration }
+						: {}),
+					...(failureMessages.length > 0
+						? { failureMessage: failureMessages.join('\n') }
+						: {})
+				});
+			}
+
+			// A suite that failed to load has no assertions but must still count as a failure
+			if (assertions.length === 0 && suite.status === 'failed') {
+				tests.push({
+					name: file ?? 'unknown suite',
+					status: 'failed',
+					...(file ? { file } : {}),
+					failureMessage: suite.message || 'Test suite failed to run'
+				});
+			}
+		}
+
+		return {
+			tests,
+			coverage: report.coverageMap
+				? this.summarizeCoverageMap(report.coverageMap)
+				: undefined
+		};
+	}
+
+	/**
+	 * Parse a TAP stream, counting only leaf test points
+	 * (node:test prints subtests indented before their parent's result line)
+	 */
+	private parseTap(content: string): TestCaseResult[] {
+		const testPointPattern =
+			/^(\s*)(not ok|ok)\b\s*(\d+)?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(\w+)\b(.*))?$/;
+		const tests: TestCaseResult[] = [];
+		let previousIndent = -1;
+
+		for (const line of content.split(/\r?\n/)) {
+			const match = line.match(testPointPattern);
+			if (!match) continue;
+
+			const [, indentText, result, , description, directive] = match;
+			const indent = indentText.length;
+			const isParentSummary = previousIndent > indent;
+			previousIndent = indent;
+
+			// A point following more deeply indented points summarizes its subtests
+			if (isParentSummary) continue;
+
+			const directiveName = directive?.toUpperCase();
+			let status: TestCaseResult['status'] =
+				result === 'ok' ? 'passed' : 'failed';
+			if (directiveName === 'SKIP' || directiveName === 'TODO') {
+				status = 'skipped';
+			}
+
+			tests.push({ name: description.trim(), status });
+		}
+
+		if (tests.length === 0 && !/^\s*1\.\.0\b/m.test(content)) {
+			throw new TaskMasterError(
+				'Invalid TAP report: no test points found',
+				ERROR_CODES.PARSE_ERROR
+			);
+		}
+
+		return tests;
+	}
+
+	/**
+	 * Compute totals from parsed test cases
+	 */
+	private summarize(
+		tests: TestCaseResult[]
+	): Pick<TestResult, 'total' | 'passed' | 'failed' | 'skipped'> {
+		const passed = tests.filter((t) => t.status === 'passed').length;
+		const failed = tests.filter((t) => t.status === 'failed').length;
+		const skipped = tests.filter((t) => t.status === 'skipped').length;
+		return { total: tests.length, passed, failed, skipped };
+	}
+
+	/**
+	 * Aggregate an istanbul coverage map into total percentages
+	 */
+	private summarizeCoverageMap(
+		coverageMap: Record<string, IstanbulFileCoverage>
+	): TestCoverage {
+		let statements = 0;
+		let coveredStatements = 0;
+		let functions = 0;
+		let coveredFunctions = 0;
+		let branches = 0;
+		let coveredBranches = 0;
+		let lines = 0;
+		let coveredLines = 0;
+
+		for (const entry of Object.values(coverageMap)) {
+			const fileCoverage: IstanbulFileCoverage =
+				(entry as { data?: IstanbulFileCoverage }).data ?? entry;
+			const lineHits = new Map<number, boolean>();
+
+			for (const [id, hits] of Object.entries(fileCoverage.s ?? {})) {
+				statements++;
+				if (hits > 0) coveredStatements++;
+				const line = fileCoverage.statementMap?.[id]?.start.line;
+				if (line !== undefined) {
+					lineHits.set(line, (lineHits.get(line) ?? false) || hits > 0);
+				}
+			}
+
+			for (const hits of Object.values(fileCoverage.f ?? {})) {
+				functions++;
+				if (hits > 0) coveredFunctions++;
+			}
+
+			for (const branchHits of Object.values(fileCoverage.b ?? {})) {
+				branches += branchHits.length;
+				coveredBranches += branchHits.filter((hits) => hits > 0).length;
+			}
+
+			lines += lineHits.size;
+			coveredLines += [...lineHits.values()].filter(Boolean).length;
+		}
+
+		return {
+			line: this.percentage(coveredLines, lines),
+			branch: this.percentage(coveredBranches, branches),
+			function: this.percentage(coveredFunctions, functions),
+			statement: this.percentage(coveredStatements, statements)
+		};
+	}
+
+	private percentage(covered: number, total: number): number {
+		if (total === 0) return 100;
+		return Math.round((covered / total) * 10000) / 100;
+	}
+
+	private mapJestStatus(status: string): TestCaseResult['status'] {
+		switch (status) {
+			case 'passed':
+				return 'passed';
+			case 'failed':
+				return 'failed';
+			default:
+				// pending, skipped, todo, disabled
+				return 'skipped';
+		}
+	}
+
+	private parseXmlAttributes(source: string): Record<string, string> {
+		const attrs: Record<string, string> = {};
+		for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(["'])(.*?)\2/g)) {
+			attrs[match[1]] = this.decodeXmlEntities(match[3]);
+		}
+		return attrs;
+	}
+
+	private decodeXmlEntities(value: string): string {
+		return value
+			.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+			.replace(/&lt;/g, '<')
+			.replace(/&gt;/g, '>')
+			.replace(/&quot;/g, '"')
+			.replace(/&apos;/g, "'")
+			.replace(/&amp;/g, '&');
+	}
+
+	private async readFile(filePath: string, label: string): Promise<string> {
+		try {
+			return await fs.readFile(filePath, 'utf-8');
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				throw new TaskMasterError(
+					`${label} not found: ${filePath}`,
+					ERROR_CODES.FILE_NOT_FOUND,
+					{ resource: filePath }
+				);
+			}
+			throw new TaskMasterError(
+				`Failed to read ${label}: ${filePath}`,
+				ERROR_CODES.FILE_READ_ERROR,
+				{ resource: filePath },
+				error
+			);
+		}
+	}
+}
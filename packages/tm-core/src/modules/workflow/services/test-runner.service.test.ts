@@ -0,0 +1,197 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestRunnerService } from './test-runner.service.js';
+
+describe('TestRunnerService', () => {
+	let projectRoot: string;
+	let runner: TestRunnerService;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-test-runner-'));
+		runner = new TestRunnerService(projectRoot);
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	describe('resolveCommand', () => {
+		it('should use the test script from package.json when no command is given', async () => {
+			await fs.writeFile(
+				path.join(projectRoot, 'package.json'),
+				JSON.stringify({ scripts: { test: 'vitest run' } })
+			);
+
+			await expect(runner.resolveCommand()).resolves.toBe('vitest run');
+		});
+
+		it('should throw when no test command can be detected', async () => {
+			await expect(runner.resolveCommand()).rejects.toThrow(
+				'package.json not found'
+			);
+		});
+	});
+
+	describe('run', () => {
+		it('should parse a TAP stream printed to stdout', async () => {
+			const result = await runner.run({
+				phase: 'RED',
+				command: `node -e "console.log('ok 1 - a'); console.log('not ok 2 - b'); process.exit(1)"`
+			});
+
+			expect(result.exitCode).toBe(1);
+			expect(result.resultSource).toBe('stdout-report');
+			expect(result.testResults).toMatchObject({
+				total: 2,
+				passed: 1,
+				failed: 1,
+				phase: 'RED'
+			});
+			expect(result.stdout).toContain('not ok 2 - b');
+		});
+
+		it('should parse a report file written by the runner', async () => {
+			const script = path.join(projectRoot, 'write-report.cjs');
+			await fs.writeFile(
+				script,
+				`require('fs').writeFileSync('report.xml', '<testsuite><testcase name="a"/><testcase name="b"/></testsuite>')`
+			);
+
+			const result = await runner.run({
+				phase: 'GREEN',
+				command: `node ${JSON.stringify(script)}`,
+				reportPath: 'report.xml'
+			});
+
+			expect(result.resultSource).toBe('report');
+			expect(result.testResults).toMatchObject({
+				total: 2,
+				passed: 2,
+				failed: 0
+			});
+		});
+
+		it('should not parse a report left over from an earlier run', async () => {
+			await fs.writeFile(
+				path.join(projectRoot, 'report.xml'),
+				'<testsuite><testcase name="a"/></testsuite>'
+			);
+
+			const result = await runner.run({
+				phase: 'GREEN',
+				command: `node -e "process.exit(0)"`,
+				reportPath: 'report.xml'
+			});
+
+			expect(result.resultSource).toBe('exit-code');
+			await expect(
+				fs.access(path.join(projectRoot, 'report.xml'))
+			).rejects.toThrow();
+		});
+
+		it('should fail a run that exits non-zero without writing its report', async () => {
+			const result = await runner.run({
+				phase: 'RED',
+				command: `node -e "console.error('TS2304: Cannot find name'); process.exit(1)"`,
+				reportPath: 'report.xml'
+			});
+
+			expect(result.resultSource).toBe('exit-code');
+			expect(result.testResults).toMatchObject({
+				total: 1,
+				passed: 0,
+				failed: 1,
+				phase: 'RED'
+			});
+		});
+
+		it('should treat a non-zero exit without parsed failures as a failing run', async () => {
+			const result = await runner.run({
+				phase: 'GREEN',
+				command: `node -e "console.error('SyntaxError'); process.exit(2)"`
+			});
+
+			expect(result.resultSource).toBe('exit-code');
+			expect(result.testResults.failed).toBe(1);
+			expect(result.stderr).toContain('SyntaxError');
+		});
+
+		it('should fall back to the exit code when output is not parseable', async () => {
+			const result = await runner.run({
+				phase: 'GREEN',
+				command: `node -e "console.log('all good')"`
+			});
+
+			expect(result.testResults).toMatchObject({
+				total: 1,
+				passed: 1,
+				failed: 0
+			});
+		});
+
+		it('should reject when the command exceeds the timeout', async () => {
+			await expect(
+				runner.run({
+					phase: 'RED',
+					command: `node -e "setTimeout(() => {}, 10000)"`,
+					timeout: 200
+				})
+			).rejects.toThrow('timed out');
+		});
+
+		it('should kill a command that ignores SIGTERM', async () => {
+			await expect(
+				runner.run({
+					phase: 'RED',
+					command: `node -e "process.on('SIGTERM', () => {}); setInterval(() => {}, 1000)"`,
+					timeout: 200
+				})
+			).rejects.toThrow('timed out');
+		}, 10000);
+	});
+
+	describe('parseConsoleSummary', () => {
+		it('should parse the Vitest summary line', () => {
+			const output = [
+				' Test Files  1 failed | 2 passed (3)',
+				'      Tests  2 failed | 7 passed | 1 skipped (10)'
+			].join('\n');
+
+			expect(runner.parseConsoleSummary(output)).toEqual({
+				total: 10,
+				passed: 7,
+				failed: 2,
+				skipped: 1
+			});
+		});
+
+		it('should parse the Jest summary line', () => {
+			const output =
+				'Tests:       1 failed, 1 skipped, 3 passed, 5 total\nSnapshots:   0 total';
+
+			expect(runner.parseConsoleSummary(output)).toEqual({
+				total: 5,
+				passed: 3,
+				failed: 1,
+				skipped: 1
+			});
+		});
+
+		it('should parse the Mocha summary', () => {
+			const output = '  4 passing (12ms)\n  1 failing\n  2 pending';
+
+			expect(runner.parseConsoleSummary(output)).toEqual({
+				total: 7,
+				passed: 4,
+				failed: 1,
+				skipped: 2
+			});
+		});
+
+		it('should return null for unrecognized output', () => {
+			expect(runner.parseConsoleSummary('done')).toBeNull();
+		});
+	});
+});
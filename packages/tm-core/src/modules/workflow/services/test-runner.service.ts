@@ -0,0 +1,373 @@
+/**
+ * @fileoverview TestRunnerService - Executes the project's test command for TDD phases
+ *
+ * Runs the detected (or configured) test command, captures its output and turns
+ * the run into a TestResult using, in order of preference: a report file written
+ * by the runner, a report streamed to stdout, the runner's console summary, and
+ * finally the process exit code.
+ */
+
+import { spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { DEFAULT_CONFIG_VALUES } from '../../../common/interfaces/configuration.interface.js';
+import { getLogger } from '../../../common/logger/index.js';
+import { PreflightChecker } from '../../tasks/services/preflight-checker.service.js';
+import type { TestReportFormat, TestResult } from '../types.js';
+import { TestReportParser } from './test-report-parser.js';
+
+/**
+ * Options for running the test command
+ */
+export interface RunTestsOptions {
+	/** TDD phase the run belongs to */
+	phase: TestResult['phase'];
+	/** Command to run (defaults to the project's detected test command) */
+	command?: string;
+	/** Timeout in milliseconds (defaults to WorkflowSettings.operationTimeout) */
+	timeout?: number;
+	/** Report file written by the test runner, parsed after the run */
+	reportPath?: string;
+	/** Format of the report file (auto-detected if omitted) */
+	reportFormat?: TestReportFormat;
+	/** Istanbul coverage-summary.json written by the test runner */
+	coveragePath?: string;
+}
+
+/**
+ * Captured output and outcome of a single test command run
+ */
+export interface TestRunResult {
+	command: string;
+	exitCode: number | null;
+	timedOut: boolean;
+	durationMs: number;
+	stdout: string;
+	stderr: string;
+	/** How the TestResult counts were obtained */
+	resultSource: 'report' | 'stdout-report' | 'console-summary' | 'exit-code';
+	testResults: TestResult;
+}
+
+/**
+ * Maximum characters of stdout/stderr kept for the activity log
+ */
+const MAX_CAPTURED_OUTPUT = 20000;
+
+/**
+ * Maximum characters of stdout/stderr buffered while the command runs; the end
+ * of the output, where runners print their summary, is kept
+ */
+const MAX_BUFFERED_OUTPUT = 10_000_000;
+
+/**
+ * Time given to the test command to exit after SIGTERM before it is killed
+ */
+const KILL_GRACE_PERIOD_MS = 2000;
+
+/**
+ * Runs the project's test command and derives TestResult evidence from it
+ */
+export class TestRunnerService {
+	private readonly logger = getLogger('TestRunnerService');
+	private readonly reportParser = new TestReportParser();
+
+	constructor(private readonly projectRoot: string) {}
+
+	/**
+	 * Resolve the command to run, falling back to the detected test command
+	 */
+	async resolveCommand(command?: string): Promise<string> {
+		if (command) {
+			return command;
+		}
+
+		const detected = await new PreflightChecker(
+			this.projectRoot
+		).detectTestCommand();
+		if (!detected.success || !detected.value) {
+			throw new Error(
+				detected.message || 'Unable to detect test command for this project'
+			);
+		}
+
+		return detected.value as string;
+	}
+
+	/**
+	 * Run the test command and build a TestResult from the run
+	 */
+	async run(options: RunTestsOptions): Promise<TestRunResult> {
+		const command = await this.resolveCommand(options.command);
+		const timeout =
+			options.timeout ?? DEFAULT_CONFIG_VALUES.WORKFLOW.OPERATION_TIMEOUT;
+
+		// A report left over from an earlier run must not decide this phase
+		if (options.reportPath) {
+			await fs.rm(path.resolve(this.projectRoot, options.reportPath), {
+				force: true
+			});
+		}
+
+		this.logger.info(`Running test command: ${command}`);
+		const execution = await this.execute(command, timeout);
+
+		if (execution.timedOut) {
+			throw new Error(`Test command timed out after ${timeout}ms: ${command}`);
+		}
+
+		const { testResults, resultSource } = await this.buildTestResults(
+			execution,
+			options
+		);
+
+		return {
+			command,
+			...execution,
+			stdout: this.truncate(execution.stdout),
+			stderr: this.truncate(execution.stderr),
+			resultSource,
+			testResults
+		};
+	}
+
+	/**
+	 * Spawn the command through the shell with node_modules/.bin on PATH
+	 */
+	private execute(
+		command: string,
+		timeout: number
+	): Promise<
+		Pick<
+			TestRunResult,
+			'exitCode' | 'timedOut' | 'durationMs' | 'stdout' | 'stderr'
+		>
+	> {
+		return new Promise((resolve, reject) => {
+			const startedAt = Date.now();
+			const binPath = path.join(this.projectRoot, 'node_modules', '.bin');
+			let stdout = '';
+			let stderr = '';
+			let timedOut = false;
+
+			// Run in its own process group (POSIX) so a timeout can stop the
+			// whole tree spawned by the shell, not just the shell itself
+			const useProcessGroup = process.platform !== 'win32';
+			const child = spawn(command, {
+				cwd: this.projectRoot,
+				shell: true,
+				detached: useProcessGroup,
+				env: {
+					...process.env,
+					CI: process.env.CI ?? 'true',
+					PATH: [binPath, process.env.PATH].filter(Boolean).join(path.delimiter)
+				}
+			});
+
+			const signal = (name: NodeJS.Signals) => {
+				try {
+					if (useProcessGroup && child.pid) {
+						process.kill(-child.pid, name);
+					} else {
+						child.kill(name);
+					}
+				} catch {
+					child.kill(name);
+				}
+			};
+
+			let killTimer: NodeJS.Timeout | undefined;
+			const timer = setTimeout(() => {
+				timedOut = true;
+				signal('SIGTERM');
+				// Commands that ignore SIGTERM would otherwise never settle
+				killTimer = setTimeout(() => signal('SIGKILL'), KILL_GRACE_PERIOD_MS);
+			}, timeout);
+			const clearTimers = () => {
+				clearTimeout(timer);
+				clearTimeout(killTimer);
+			};
+
+			const append = (buffer: string, chunk: Buffer) => {
+				const output = buffer + chunk.toString();
+				return output.length > MAX_BUFFERED_OUTPUT
+					? output.slice(-MAX_BUFFERED_OUTPUT)
+					: output;
+			};
+			child.stdout?.on('data', (chunk) => {
+				stdout = append(stdout, chunk);
+			});
+			child.stderr?.on('data', (chunk) => {
+				stderr = append(stderr, chunk);
+			});
+
+			child.on('error', (error) => {
+				clearTimers();
+				reject(new Error(`Failed to run test command: ${error.message}`));
+			});
+
+			child.on('close', (code) => {
+				clearTimers();
+				resolve({
+					exitCode: code,
+					timedOut,
+					durationMs: Date.now() - startedAt,
+					stdout,
+					stderr
+				});
+			});
+		});
+	}
+
+	/**
+	 * Derive a TestResult from the run, reconciling counts with the exit code
+	 */
+	private async buildTestResults(
+		execution: Pick<TestRunResult, 'exitCode' | 'stdout' | 'stderr'>,
+		options: RunTestsOptions
+	): Promise<Pick<TestRunResult, 'testResults' | 'resultSource'>> {
+		const { phase } = options;
+		let testResults: TestResult | undefined;
+		let resultSource: TestRunResult['resultSource'] = 'exit-code';
+
+		if (options.reportPath) {
+			try {
+				testResults = await this.reportParser.parseFile(
+					path.resolve(this.projectRoot, options.reportPath),
+					{
+						phase,
+						format: options.reportFormat,
+						coveragePath: options.coveragePath
+							? path.resolve(this.projectRoot, options.coveragePath)
+							: undefined
+					}
+				);
+				resultSource = 'report';
+			} catch (error) {
+				// A runner that crashed (e.g. on a compile error) writes no report
+				this.logger.warn(
+					`Could not read the test report, using the command output instead: ${(error as Error).message}`
+				);
+			}
+		}
+
+		if (!testResults) {
+			try {
+				testResults = this.reportParser.parse(execution.stdout, { phase });
+				resultSource = 'stdout-report';
+			} catch {
+				// stdout is not a machine-readable report
+			}
+		}
+
+		if (!testResults) {
+			const summary = this.parseConsoleSummary(
+				`${execution.stdout}\n${execution.stderr}`
+			);
+			if (summary) {
+				testResults = { ...summary, phase };
+				resultSource = 'console-summary';
+			}
+		}
+
+		if (!testResults) {
+			const passed = execution.exitCode === 0;
+			testResults = {
+				total: 1,
+				passed: passed ? 1 : 0,
+				failed: passed ? 0 : 1,
+				skipped: 0,
+				phase
+			};
+		}
+
+		// A non-zero exit is a failing run even if no individual test failed
+		// (e.g. compilation errors or a suite that could not be loaded)
+		if (execution.exitCode !== 0 && testResults.failed === 0) {
+			testResults = {
+				...testResults,
+				total: testResults.total + 1,
+				failed: 1,
+				tests: [
+					...(testResults.tests ?? []),
+					{
+						name: `test command exited with code ${execution.exitCode}`,
+						status: 'failed'
+					}
+				]
+			};
+		}
+
+		return { testResults, resultSource };
+	}
+
+	/**
+	 * Parse the human-readable summary printed by common test runners
+	 * (Vitest, Jest, Mocha)
+	 */
+	parseConsoleSummary(
+		output: string
+	): Pick<TestResult, 'total' | 'passed' | 'failed' | 'skipped'> | null {
+		// Strip ANSI color codes
+		const text = output.replace(/\u001b\[[0-9;]*m/g, '');
+
+		// Vitest: "Tests  1 failed | 3 passed | 1 skipped (5)"
+		const vitest = text.match(/^\s*Tests\s{2,}(.+?)\s*\((\d+)\)\s*$/m);
+		if (vitest) {
+			return this.countsFromParts(vitest[1], Number(vitest[2]), '|');
+		}
+
+		// Jest: "Tests:       1 failed, 1 skipped, 3 passed, 5 total"
+		const jest = text.match(/^\s*Tests:\s+(.+?),?\s*(\d+) total\s*$/m);
+		if (jest) {
+			return this.countsFromParts(jest[1], Number(jest[2]), ',');
+		}
+
+		// Mocha: "3 passing", "1 failing", "1 pending"
+		const passing = text.match(/^\s*(\d+) passing\b/m);
+		if (passing) {
+			const passed = Number(passing[1]);
+			const failed = Number(text.match(/^\s*(\d+) failing\b/m)?.[1] ?? 0);
+			const skipped = Number(text.match(/^\s*(\d+) pending\b/m)?.[1] ?? 0);
+			return { total: passed + failed + skipped, passed, failed, skipped };
+		}
+
+		return null;
+	}
+
+	private countsFromParts(
+		parts: string,
+		total: number,
+		separator: string
+	): Pick<TestResult, 'total' | 'passed' | 'failed' | 'skipped'> {
+		const counts = { total, passed: 0, failed: 0, skipped: 0 };
+
+		for (const part of parts.split(separator)) {
+			const match = part.trim().match(/^(\d+)\s+(\w+)/);
+			if (!match) continue;
+			const value = Number(match[1]);
+			switch (match[2]) {
+				case 'passed':
+					counts.passed += value;
+					break;
+				case 'failed':
+					counts.failed += value;
+					break;
+				case 'skipped':
+				case 'todo':
+				case 'pending':
+					counts.skipped += value;
+					break;
+			}
+		}
+
+		return counts;
+	}
+
+	private truncate(output: string): string {
+		if (output.length <= MAX_CAPTURED_OUTPUT) {
+			return output;
+		}
+		return `...[truncated ${output.length - MAX_CAPTURED_OUTPUT} chars]\n${output.slice(-MAX_CAPTURED_OUTPUT)}`;
+	}
+}
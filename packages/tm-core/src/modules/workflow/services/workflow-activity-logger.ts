@@ -28,6 +28,9 @@ const WORKFLOW_EVENT_TYPES: WorkflowEventType[] = [
 	'tdd:red:completed',
 	'tdd:green:started',
 	'tdd:green:completed',
+	'tdd:refactor:started',
+	'tdd:refactor:completed',
+	'tdd:refactor:skipped',
 	'tdd:commit:started',
 	'tdd:commit:completed',
 	'subtask:started',
@@ -45,10 +48,12 @@ const WORKFLOW_EVENT_TYPES: WorkflowEventType[] = [
 ];
 
 /**
- * Logs all workflow events to an activity.jsonl file
+ * Logs all workflow events to an activity.jsonl file and, when a session
+ * journal path is given, to that session's own JSONL journal
  */
 export class WorkflowActivityLogger {
 	private readonly activityLogPath: string;
+	private readonly journalPath?: string;
 	private readonly orchestrator: WorkflowOrchestrator;
 	private readonly logger = getLogger('WorkflowActivityLogger');
 	private readonly listenerMap: Map<
@@ -57,9 +62,14 @@ export class WorkflowActivityLogger {
 	> = new Map();
 	private isActive = false;
 
-	constructor(orchestrator: WorkflowOrchestrator, activityLogPath: string) {
+	constructor(
+		orchestrator: WorkflowOrchestrator,
+		activityLogPath: string,
+		journalPath?: string
+	) {
 		this.orchestrator = orchestrator;
 		this.activityLogPath = activityLogPath;
+		this.journalPath = journalPath;
 	}
 
 	/**
@@ -131,6 +141,9 @@ export class WorkflowActivityLogger {
 			};
 
 			await logActivity(this.activityLogPath, activityEvent);
+			if (this.journalPath) {
+				await logActivity(this.journalPath, activityEvent);
+			}
 		} catch (error: any) {
 			// Log errors but don't throw - we don't want activity logging to break the workflow
 			this.logger.error(
@@ -0,0 +1,224 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WorkflowStateManager } from '../managers/workflow-state-manager.js';
+import { WorkflowOrchestrator } from '../orchestrators/workflow-orchestrator.js';
+import type { WorkflowContext } from '../types.js';
+import { WorkflowActivityLogger } from './workflow-activity-logger.js';
+import { WorkflowJournalService } from './workflow-journal.service.js';
+
+describe('WorkflowJournalService', () => {
+	let homeDir: string;
+	let projectRoot: string;
+	let stateManager: WorkflowStateManager;
+	let journal: WorkflowJournalService;
+
+	const writeJournal = async (
+		sessionId: string,
+		events: Record<string, unknown>[]
+	) => {
+		const journalPath = stateManager.getJournalPath(sessionId);
+		await fs.mkdir(path.dirname(journalPath), { recursive: true });
+		await fs.writeFile(
+			journalPath,
+			events.map((event) => JSON.stringify(event)).join('\n') + '\n'
+		);
+	};
+
+	beforeEach(async () => {
+		homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-journal-'));
+		vi.spyOn(os, 'homedir').mockReturnValue(homeDir);
+		projectRoot = path.join(homeDir, 'project');
+		stateManager = new WorkflowStateManager(projectRoot);
+		journal = new WorkflowJournalService(projectRoot);
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await fs.rm(homeDir, { recursive: true, force: true });
+	});
+
+	describe('createSessionId', () => {
+		it('should build a sortable, filesystem-safe id', () => {
+			const sessionId = WorkflowJournalService.createSessionId(
+				'1.2',
+				new Date('2025-01-02T03:04:05.678Z')
+			);
+
+			expect(sessionId).toBe('2025-01-02T03-04-05-678Z-task-1-2');
+		});
+	});
+
+	describe('listSessions', () => {
+		it('should return an empty list when nothing was recorded', async () => {
+			await expect(journal.listSessions()).resolves.toEqual([]);
+		});
+
+		it('should list sessions newest first with event counts', async () => {
+			await writeJournal('2025-01-01T00-00-00-000Z-task-1', [
+				{
+					type: 'workflow:started',
+					taskId: '1',
+					timestamp: '2025-01-01T00:00:00.000Z'
+				}
+			]);
+			await writeJournal('2025-01-02T00-00-00-000Z-task-2', [
+				{
+					type: 'workflow:started',
+					taskId: '2',
+					timestamp: '2025-01-02T00:00:00.000Z'
+				},
+				{ type: 'phase:entered', timestamp: '2025-01-02T00:01:00.000Z' }
+			]);
+
+			const sessions = await journal.listSessions();
+
+			expect(sessions.map((s) => s.taskId)).toEqual(['2', '1']);
+			expect(sessions[0]).toMatchObject({
+				eventCount: 2,
+				startedAt: '2025-01-02T00:00:00.000Z',
+				lastEventAt: '2025-01-02T00:01:00.000Z',
+				active: false
+			});
+		});
+	});
+
+	describe('query', () => {
+		const sessionId = '2025-01-01T00-00-00-000Z-task-1';
+
+		beforeEach(async () => {
+			await writeJournal(sessionId, [
+				{
+					type: 'tdd:red:started',
+					phase: 'SUBTASK_LOOP',
+					tddPhase: 'RED',
+					subtaskId: '1.1',
+					timestamp: '2025-01-01T00:00:00.000Z'
+				},
+				{
+					type: 'test:failed',
+					phase: 'SUBTASK_LOOP',
+					tddPhase: 'RED',
+					subtaskId: '1.1',
+					timestamp: '2025-01-01T00:05:00.000Z'
+				},
+				{
+					type: 'tdd:green:started',
+					phase: 'SUBTASK_LOOP',
+					tddPhase: 'GREEN',
+					subtaskId: '1.1',
+					timestamp: '2025-01-01T00:10:00.000Z'
+				},
+				{
+					type: 'tdd:red:started',
+					phase: 'SUBTASK_LOOP',
+					tddPhase: 'RED',
+					subtaskId: '1.2',
+					timestamp: '2025-01-01T00:20:00.000Z'
+				}
+			]);
+		});
+
+		it('should default to the most recent session', async () => {
+			const result = await journal.query();
+
+			expect(result.sessionId).toBe(sessionId);
+			expect(result.totalEvents).toBe(4);
+			expect(result.events).toHaveLength(4);
+		});
+
+		it('should filter by subtask and TDD phase', async () => {
+			const result = await journal.query({ subtaskId: '1.1', phase: 'red' });
+
+			expect(result.events.map((e) => e.type)).toEqual([
+				'tdd:red:started',
+				'test:failed'
+			]);
+		});
+
+		it('should match event types with wildcards', async () => {
+			const result = await journal.query({ types: ['tdd:*'] });
+
+			expect(result.events).toHaveLength(3);
+			expect(result.events.every((e) => e.type.startsWith('tdd:'))).toBe(true);
+		});
+
+		it('should filter by time range and keep the last N events', async () => {
+			const result = await journal.query({
+				since: '2025-01-01T00:05:00.000Z',
+				until: '2025-01-01T00:30:00.000Z',
+				limit: 2
+			});
+
+			expect(result.events.map((e) => e.timestamp)).toEqual([
+				'2025-01-01T00:10:00.000Z',
+				'2025-01-01T00:20:00.000Z'
+			]);
+		});
+
+		it('should accept relative durations', async () => {
+			const result = await journal.query({ since: '1h' });
+
+			expect(result.events).toEqual([]);
+		});
+
+		it('should reject invalid times', async () => {
+			await expect(journal.query({ since: 'yesterday' })).rejects.toThrow(
+				'Invalid time'
+			);
+		});
+
+		it('should reject unknown sessions', async () => {
+			await expect(
+				journal.query({ sessionId: '2025-01-01T00-00-00-000Z-task-9' })
+			).rejects.toThrow('Workflow session not found');
+		});
+
+		it('should reject session IDs that are not session file names', async () => {
+			await expect(
+				journal.query({ sessionId: '../../state/workflow-state' })
+			).rejects.toThrow('Invalid workflow session ID');
+			await expect(journal.query({ sessionId: 'missing' })).rejects.toThrow(
+				'Invalid workflow session ID'
+			);
+		});
+	});
+
+	it('should record orchestrator events to the session journal', async () => {
+		const context: WorkflowContext = {
+			taskId: '1',
+			sessionId: WorkflowJournalService.createSessionId('1'),
+			subtasks: [
+				{ id: '1.1', title: 'Subtask', status: 'pending', attempts: 0 }
+			],
+			currentSubtaskIndex: 0,
+			errors: [],
+			metadata: {}
+		};
+		const orchestrator = new WorkflowOrchestrator(context);
+		const logger = new WorkflowActivityLogger(
+			orchestrator,
+			stateManager.getActivityLogPath(),
+			stateManager.getJournalPath(context.sessionId!)
+		);
+		logger.start();
+
+		await orchestrator.transition({ type: 'PREFLIGHT_COMPLETE' });
+		await orchestrator.transition({
+			type: 'BRANCH_CREATED',
+			branchName: 'task-1'
+		});
+		// Event listeners write asynchronously
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		logger.stop();
+
+		const result = await journal.query({ types: ['workflow:*', 'git:*'] });
+
+		expect(result.sessionId).toBe(context.sessionId);
+		expect(result.events.map((e) => e.type)).toEqual([
+			'workflow:started',
+			'git:branch:created'
+		]);
+	});
+});
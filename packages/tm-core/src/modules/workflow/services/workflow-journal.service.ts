@@ -0,0 +1,293 @@
+/**
+ * @fileoverview WorkflowJournalService - Query the per-session workflow event journal
+ *
+ * Every workflow session writes its full WorkflowOrchestrator event stream to
+ * ~/.taskmaster/{project-id}/sessions/journal/{sessionId}.jsonl (see
+ * WorkflowActivityLogger). This service lists those sessions and filters their
+ * events by subtask, phase, event type and time so a run can be audited later.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+	type ActivityEvent,
+	readActivityLog
+} from '../../storage/adapters/activity-logger.js';
+import { WorkflowStateManager } from '../managers/workflow-state-manager.js';
+import { WorkflowSessionsService } from './workflow-sessions.service.js';
+
+/**
+ * Filters for querying a session journal
+ */
+export interface WorkflowJournalQuery {
+	/** Session to read (defaults to the active session, then the most recent one) */
+	sessionId?: string;
+	/** Only events for this subtask */
+	subtaskId?: string;
+	/** Workflow phase (e.g. SUBTASK_LOOP) or TDD phase (e.g. GREEN) */
+	phase?: string;
+	/** Event types; `*` matches any suffix (e.g. `tdd:*`, `test:failed`) */
+	types?: string[];
+	/** ISO timestamp or relative duration (`30s`, `15m`, `2h`, `1d`) */
+	since?: string;
+	/** ISO timestamp or relative duration */
+	until?: string;
+	/** Keep only the last N matching events */
+	limit?: number;
+}
+
+/**
+ * A single journal entry as written by WorkflowActivityLogger
+ */
+export interface WorkflowJournalEntry extends ActivityEvent {
+	phase?: string;
+	tddPhase?: string;
+	subtaskId?: string;
+}
+
+/**
+ * Summary of a recorded workflow session
+ */
+export interface WorkflowSessionSummary {
+	sessionId: string;
+	taskId?: string;
+	startedAt?: string;
+	lastEventAt?: string;
+	eventCount: number;
+	/** Whether the session's workflow state still exists */
+	active: boolean;
+}
+
+/**
+ * Result of a journal query
+ */
+export interface WorkflowJournalResult {
+	sessionId: string | null;
+	totalEvents: number;
+	events: WorkflowJournalEntry[];
+}
+
+const RELATIVE_TIME_PATTERN = /^(\d+)\s*(s|m|h|d|w)$/;
+
+const RELATIVE_TIME_UNITS_MS: Record<string, number> = {
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Format of IDs returned by WorkflowJournalService.createSessionId
+ */
+const SESSION_ID_PATTERN =
+	/^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z-task-[a-zA-Z0-9_-]+$/;
+
+/**
+ * Reads and filters workflow session journals
+ */
+export class WorkflowJournalService {
+	private readonly stateManager: WorkflowStateManager;
+	private readonly sessions: WorkflowSessionsService;
+
+	constructor(projectRoot: string) {
+		this.stateManager = new WorkflowStateManager(projectRoot);
+		this.sessions = new WorkflowSessionsService(projectRoot);
+	}
+
+	/**
+	 * Create a sortable, filesystem-safe session identifier
+	 */
+	static createSessionId(taskId: string, date: Date = new Date()): string {
+		const timestamp = date.toISOString().replace(/[:.]/g, '-');
+		return `${timestamp}-task-${taskId.replace(/[^a-zA-Z0-9_-]+/g, '-')}`;
+	}
+
+	/**
+	 * List recorded sessions, most recent first
+	 */
+	async listSessions(): Promise<WorkflowSessionSummary[]> {
+		const sessionIds = await this.getSessionIds();
+		const activeSessionIds = new Set(
+			(await this.sessions.list()).map((session) => session.sessionId)
+		);
+
+		const sessions = await Promise.all(
+			sessionIds.map(async (sessionId) => {
+				const events = await readActivityLog(
+					this.stateManager.getJournalPath(sessionId)
+				);
+				const startEvent = events.find((e) => e.type === 'workflow:started');
+				return {
+					sessionId,
+					taskId: startEvent?.taskId ?? this.taskIdFromSessionId(sessionId),
+					startedAt: events[0]?.timestamp,
+					lastEventAt: events[events.length - 1]?.timestamp,
+					eventCount: events.length,
+					active: activeSessionIds.has(sessionId)
+				};
+			})
+		);
+
+		return sessions;
+	}
+
+	/**
+	 * Read a session journal and apply the query filters
+	 */
+	async query(
+		query: WorkflowJournalQuery = {}
+	): Promise<WorkflowJournalResult> {
+		const sessionId = query.sessionId ?? (await this.resolveDefaultSessionId());
+		if (!sessionId) {
+			return { sessionId: null, totalEvents: 0, events: [] };
+		}
+
+		// Session IDs become file names, so only accept IDs from createSessionId
+		if (query.sessionId && !SESSION_ID_PATTERN.test(query.sessionId)) {
+			throw new Error(`Invalid workflow session ID: ${query.sessionId}`);
+		}
+		if (query.sessionId && !(await this.hasSession(query.sessionId))) {
+			throw new Error(`Workflow session not found: ${query.sessionId}`);
+		}
+
+		const events = (await readActivityLog(
+			this.stateManager.getJournalPath(sessionId)
+		)) as WorkflowJournalEntry[];
+
+		const now = Date.now();
+		const since = query.since ? this.parseTime(query.since, now) : undefined;
+		const until = query.until ? this.parseTime(query.until, now) : undefined;
+		const typeMatchers = query.types?.map((type) =>
+			this.createTypeMatcher(type)
+		);
+		const phase = query.phase?.toUpperCase();
+
+		let filtered = events.filter((event) => {
+			if (query.subtaskId && event.subtaskId !== query.subtaskId) {
+				return false;
+			}
+
+			if (phase && event.phase !== phase && event.tddPhase !== phase) {
+				return false;
+			}
+
+			if (
+				typeMatchers &&
+				!typeMatchers.some((matches) => matches(event.type))
+			) {
+				return false;
+			}
+
+			const time = Date.parse(event.timestamp);
+			if (since !== undefined && time < since) {
+				return false;
+			}
+			if (until !== undefined && time > until) {
+				return false;
+			}
+
+			return true;
+		});
+
+		if (query.limit !== undefined && query.limit >= 0) {
+			filtered = query.limit === 0 ? [] : filtered.slice(-query.limit);
+		}
+
+		return { sessionId, totalEvents: events.length, events: filtered };
+	}
+
+	/**
+	 * Session of the current workflow state, falling back to the latest journal
+	 */
+	private async resolveDefaultSessionId(): Promise<string | undefined> {
+		const currentSessionId = await this.getCurrentSessionId();
+		if (currentSessionId && (await this.hasSession(currentSessionId))) {
+			return currentSessionId;
+		}
+
+		const sessionIds = await this.getSessionIds();
+		return sessionIds[0];
+	}
+
+	/**
+	 * Session the project root refers to (see WorkflowSessionsService.getStateManager)
+	 */
+	private async getCurrentSessionId(): Promise<string | undefined> {
+		try {
+			const stateManager = await this.sessions.getStateManager();
+			if (!(await stateManager.exists())) {
+				return undefined;
+			}
+			const state = await stateManager.load();
+			return state.context.sessionId;
+		} catch {
+			// Several sessions are running and none is selected
+			return undefined;
+		}
+	}
+
+	private async hasSession(sessionId: string): Promise<boolean> {
+		try {
+			await fs.access(this.stateManager.getJournalPath(sessionId));
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Session IDs sorted newest first (IDs start with an ISO timestamp)
+	 */
+	private async getSessionIds(): Promise<string[]> {
+		try {
+			const files = await fs.readdir(this.stateManager.getJournalDir());
+			return files
+				.filter((file) => file.endsWith('.jsonl'))
+				.map((file) => path.basename(file, '.jsonl'))
+				.sort()
+				.reverse();
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				return [];
+			}
+			throw new Error(`Failed to list workflow sessions: ${error.message}`);
+		}
+	}
+
+	private taskIdFromSessionId(sessionId: string): string | undefined {
+		return sessionId.match(/-task-(.+)$/)?.[1];
+	}
+
+	/**
+	 * Parse an ISO timestamp or a relative duration into epoch milliseconds
+	 */
+	private parseTime(value: string, now: number): number {
+		const relative = value.trim().match(RELATIVE_TIME_PATTERN);
+		if (relative) {
+			return now - Number(relative[1]) * RELATIVE_TIME_UNITS_MS[relative[2]];
+		}
+
+		const time = Date.parse(value);
+		if (Number.isNaN(time)) {
+			throw new Error(
+				`Invalid time "${value}". Use an ISO timestamp or a duration like 30m, 2h, 1d`
+			);
+		}
+		return time;
+	}
+
+	private createTypeMatcher(type: string): (eventType: string) => boolean {
+		if (!type.includes('*')) {
+			return (eventType) => eventType === type;
+		}
+
+		const pattern = new RegExp(
+			`^${type
+				.split('*')
+				.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+				.join('.*')}$`
+		);
+		return (eventType) => pattern.test(eventType);
+	}
+}
@@ -0,0 +1,228 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WorkflowStateManager } from '../managers/workflow-state-manager.js';
+import type { WorkflowPhase, WorkflowState } from '../types.js';
+import { WorkflowSessionsService } from './workflow-sessions.service.js';
+
+describe('WorkflowSessionsService', () => {
+	let homeDir: string;
+	let projectRoot: string;
+	let sessions: WorkflowSessionsService;
+
+	const createState = (
+		taskId: string,
+		options: { worktreePath?: string; phase?: WorkflowPhase } = {}
+	): WorkflowState => ({
+		phase: options.phase ?? 'SUBTASK_LOOP',
+		context: {
+			taskId,
+			subtasks: [
+				{ id: `${taskId}.1`, title: 'First', status: 'completed', attempts: 1 },
+				{ id: `${taskId}.2`, title: 'Second', status: 'pending', attempts: 0 }
+			],
+			currentSubtaskIndex: 1,
+			currentTDDPhase: 'RED',
+			branchName: `task-${taskId}`,
+			worktreePath: options.worktreePath,
+			errors: [],
+			metadata: {}
+		}
+	});
+
+	const saveSession = async (
+		taskId: string,
+		options: { worktreePath?: string; phase?: WorkflowPhase } = {}
+	) => {
+		const manager = options.worktreePath
+			? sessions.createTaskStateManager(taskId)
+			: new WorkflowStateManager(projectRoot);
+		await manager.save(createState(taskId, options));
+	};
+
+	beforeEach(async () => {
+		homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-sessions-'));
+		vi.spyOn(os, 'homedir').mockReturnValue(homeDir);
+		projectRoot = path.join(homeDir, 'project');
+		await fs.mkdir(projectRoot, { recursive: true });
+		sessions = new WorkflowSessionsService(projectRoot);
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await fs.rm(homeDir, { recursive: true, force: true });
+	});
+
+	describe('list', () => {
+		it('should return an empty list without sessions', async () => {
+			await expect(sessions.list()).resolves.toEqual([]);
+		});
+
+		it('should list the main session first, then worktree sessions', async () => {
+			await saveSession('3', { worktreePath: '/tmp/wt/task-3' });
+			await saveSession('1');
+			await saveSession('2', { worktreePath: '/tmp/wt/task-2' });
+
+			const result = await sessions.list();
+
+			expect(result.map((s) => s.taskId)).toEqual(['1', '2', '3']);
+			expect(result[1]).toMatchObject({
+				phase: 'SUBTASK_LOOP',
+				tddPhase: 'RED',
+				branchName: 'task-2',
+				worktreePath: '/tmp/wt/task-2',
+				currentSubtask: { id: '2.2', title: 'Second' },
+				progress: { completed: 1, total: 2 }
+			});
+		});
+	});
+
+	describe('getStateManager', () => {
+		it('should resolve the session of a task ID', async () => {
+			await saveSession('1');
+			await saveSession('2', { worktreePath: '/tmp/wt/task-2' });
+
+			const manager = await sessions.getStateManager('2');
+
+			expect((await manager.load()).context.taskId).toBe('2');
+		});
+
+		it('should fall back to the only running session', async () => {
+			await saveSession('2', { worktreePath: '/tmp/wt/task-2' });
+
+			const manager = await sessions.getStateManager();
+
+			expect(manager.getTaskId()).toBe('2');
+		});
+
+		it('should refuse to guess between several worktree sessions', async () => {
+			await saveSession('1', { worktreePath: '/tmp/wt/task-1' });
+			await saveSession('2', { worktreePath: '/tmp/wt/task-2' });
+
+			await expect(sessions.getStateManager()).rejects.toThrow(
+				'Multiple autopilot sessions are active (tasks 1, 2)'
+			);
+		});
+	});
+
+	describe('dependency checks', () => {
+		const tasks = [
+			{ id: '1', dependencies: [] },
+			{ id: '2', dependencies: ['1'] },
+			{ id: '3', dependencies: ['2'] },
+			{ id: '4', dependencies: [] }
+		];
+
+		it('should report tasks depending on an active session', async () => {
+			await saveSession('1', { worktreePath: '/tmp/wt/task-1' });
+
+			await expect(
+				sessions.findDependencyConflicts('3', tasks)
+			).resolves.toEqual([{ activeTaskId: '1', relation: 'depends-on' }]);
+		});
+
+		it('should report dependencies of an active session', async () => {
+			await saveSession('3', { worktreePath: '/tmp/wt/task-3' });
+
+			await expect(
+				sessions.findDependencyConflicts('1', tasks)
+			).resolves.toEqual([{ activeTaskId: '3', relation: 'dependency-of' }]);
+		});
+
+		it('should ignore completed sessions and independent tasks', async () => {
+			await saveSession('1', {
+				worktreePath: '/tmp/wt/task-1',
+				phase: 'COMPLETE'
+			});
+			await saveSession('4', { worktreePath: '/tmp/wt/task-4' });
+
+			await expect(
+				sessions.findDependencyConflicts('2', tasks)
+			).resolves.toEqual([]);
+		});
+
+		it('should refuse a new session for a related task', async () => {
+			await saveSession('2', { worktreePath: '/tmp/wt/task-2' });
+
+			await expect(
+				sessions.validateNewSession('3', { worktree: true, tasks })
+			).rejects.toThrow('it depends on task 2');
+		});
+
+		it('should refuse related sessions started at the same time', async () => {
+			const start = (taskId: string) =>
+				sessions.startSession(
+					taskId,
+					{ worktree: true, tasks },
+					async (manager) => {
+						// Give the other start a chance to run its checks
+						await new Promise((resolve) => setTimeout(resolve, 50));
+						await manager.save(
+							createState(taskId, { worktreePath: `/tmp/wt/task-${taskId}` })
+						);
+					}
+				);
+
+			const results = await Promise.allSettled([start('2'), start('3')]);
+
+			expect(results.map((result) => result.status)).toEqual([
+				'fulfilled',
+				'rejected'
+			]);
+			expect((await sessions.list()).map((session) => session.taskId)).toEqual([
+				'2'
+			]);
+		});
+
+		it('should refuse a second session for the same task', async () => {
+			await saveSession('4');
+
+			await expect(
+				sessions.validateNewSession('4', { worktree: true, tasks })
+			).rejects.toThrow('already has an active autopilot session');
+		});
+	});
+
+	describe('ensureWorktree', () => {
+		const git = (...args: string[]) =>
+			execFileSync('git', args, { cwd: projectRoot, stdio: 'pipe' });
+
+		beforeEach(() => {
+			git('init', '-q', '-b', 'main');
+			git('config', 'user.email', 'test@example.com');
+			git('config', 'user.name', 'Test');
+			git('commit', '-q', '--allow-empty', '-m', 'init');
+		});
+
+		it('should create a worktree next to the project and reuse it', async () => {
+			const worktreePath = await sessions.ensureWorktree('5', 'task-5');
+
+			expect(worktreePath).toBe(
+				path.join(homeDir, 'project-worktrees', 'task-5')
+			);
+			expect(git('branch', '--list', 'task-5').toString()).toContain('task-5');
+			await expect(sessions.ensureWorktree('5', 'task-5')).resolves.toBe(
+				worktreePath
+			);
+			await expect(sessions.ensureWorktree('5', 'other')).rejects.toThrow(
+				'expected other'
+			);
+		});
+
+		it('should resolve the session of the worktree a command runs in', async () => {
+			const worktreePath = await sessions.ensureWorktree('5', 'task-5');
+			await saveSession('1', { worktreePath: '/tmp/wt/task-1' });
+			await saveSession('5', { worktreePath });
+
+			const manager = await new WorkflowSessionsService(
+				worktreePath
+			).getStateManager();
+
+			expect(manager.getStatePath()).toBe(
+				sessions.createTaskStateManager('5').getStatePath()
+			);
+		});
+	});
+});
@@ -0,0 +1,441 @@
+/**
+ * @fileoverview WorkflowSessionsService - Track concurrent autopilot sessions
+ *
+ * A project has at most one session in its main checkout plus any number of
+ * sessions running in their own git worktree, each keyed by task ID. This
+ * service lists them, resolves which one a command refers to and checks that
+ * parallel sessions never work on tasks that depend on each other.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Task } from '../../../common/types/index.js';
+import { GitAdapter } from '../../git/adapters/git-adapter.js';
+import { FileLock } from '../../storage/adapters/file-storage/file-lock.js';
+import { WorkflowStateManager } from '../managers/workflow-state-manager.js';
+import type {
+	TDDPhase,
+	WorkflowContext,
+	WorkflowPhase,
+	WorkflowState
+} from '../types.js';
+
+/**
+ * Summary of an autopilot session
+ */
+export interface WorkflowSessionInfo {
+	taskId: string;
+	sessionId?: string;
+	phase: WorkflowPhase;
+	tddPhase?: TDDPhase;
+	branchName?: string;
+	/** Linked worktree of the session (undefined for the main checkout) */
+	worktreePath?: string;
+	currentSubtask?: {
+		id: string;
+		title: string;
+	};
+	progress: {
+		completed: number;
+		total: number;
+	};
+	startedAt?: string;
+	/** Path of the session's state file */
+	statePath: string;
+}
+
+/**
+ * A task that cannot run alongside an active session
+ */
+export interface WorkflowDependencyConflict {
+	/** Task of the active session */
+	activeTaskId: string;
+	/** How the requested task relates to the active one */
+	relation: 'depends-on' | 'dependency-of';
+}
+
+/**
+ * Minimal task shape needed for dependency checks
+ */
+export type WorkflowTaskDependencies = Pick<Task, 'id' | 'dependencies'>;
+
+/**
+ * Options for validating a new session
+ */
+export interface NewWorkflowSessionOptions {
+	/** The session runs in its own worktree */
+	worktree: boolean;
+	/** Overwrite existing state for the same session */
+	force?: boolean;
+	/** All tasks, to refuse tasks related to another active session */
+	tasks?: WorkflowTaskDependencies[];
+}
+
+/**
+ * How long a start waits for another one to finish; starting a session may
+ * create a git worktree
+ */
+const START_LOCK_TIMEOUT_MS = 60_000;
+
+/**
+ * Lists and resolves autopilot sessions for a project
+ */
+export class WorkflowSessionsService {
+	private readonly projectRoot: string;
+	private readonly mainStateManager: WorkflowStateManager;
+
+	constructor(projectRoot: string) {
+		this.projectRoot = path.resolve(projectRoot);
+		this.mainStateManager = new WorkflowStateManager(this.projectRoot);
+	}
+
+	/**
+	 * Default location of a task's worktree: a sibling directory of the main
+	 * checkout, e.g. /repos/app -> /repos/app-worktrees/task-3
+	 */
+	static getDefaultWorktreePath(projectRoot: string, taskId: string): string {
+		const mainRoot = new WorkflowStateManager(projectRoot).getProjectRoot();
+		return path.join(
+			path.dirname(mainRoot),
+			`${path.basename(mainRoot)}-worktrees`,
+			`task-${WorkflowStateManager.getTaskKey(taskId)}`
+		);
+	}
+
+	/**
+	 * List all sessions, main checkout first, then by task ID
+	 */
+	async list(): Promise<WorkflowSessionInfo[]> {
+		const sessions: WorkflowSessionInfo[] = [];
+
+		const mainSession = await this.readSession(this.mainStateManager);
+		if (mainSession) {
+			sessions.push(mainSession);
+		}
+
+		for (const manager of await this.getTaskStateManagers()) {
+			const session = await this.readSession(manager);
+			if (session) {
+				sessions.push(session);
+			}
+		}
+
+		return sessions;
+	}
+
+	/**
+	 * Resolve the state manager of the session a command refers to
+	 *
+	 * With a task ID, that task's session. Otherwise the session whose worktree
+	 * is the project root, then the main checkout's session, then the only
+	 * running session. Throws when several sessions are running and none matches.
+	 */
+	async getStateManager(taskId?: string): Promise<WorkflowStateManager> {
+		if (taskId) {
+			const taskManager = this.createTaskStateManager(taskId);
+			if (await taskManager.exists()) {
+				return taskManager;
+			}
+
+			const mainSession = await this.readSession(this.mainStateManager);
+			return mainSession?.taskId === taskId
+				? this.mainStateManager
+				: taskManager;
+		}
+
+		const sessions = await this.list();
+
+		const worktreeSession = sessions.find(
+			(session) =>
+				session.worktreePath &&
+				path.resolve(session.worktreePath) === this.projectRoot
+		);
+		if (worktreeSession) {
+			return this.createTaskStateManager(worktreeSession.taskId);
+		}
+
+		if (await this.mainStateManager.exists()) {
+			return this.mainStateManager;
+		}
+
+		if (sessions.length === 1) {
+			return this.createTaskStateManager(sessions[0].taskId);
+		}
+
+		if (sessions.length > 1) {
+			throw new Error(
+				`Multiple autopilot sessions are active (tasks ${sessions.map((s) => s.taskId).join(', ')}). Specify the task ID or run the command inside the session's worktree.`
+			);
+		}
+
+		return this.mainStateManager;
+	}
+
+	/**
+	 * State manager for a task's worktree session
+	 */
+	createTaskStateManager(taskId: string): WorkflowStateManager {
+		return new WorkflowStateManager(this.projectRoot, { taskId });
+	}
+
+	/**
+	 * State manager that persists the session described by a context
+	 */
+	getStateManagerForContext(context: WorkflowContext): WorkflowStateManager {
+		return context.worktreePath
+			? this.createTaskStateManager(context.taskId)
+			: this.mainStateManager;
+	}
+
+	/**
+	 * Check that a session can be started for a task and return the state
+	 * manager it should persist to
+	 */
+	async validateNewSession(
+		taskId: string,
+		options: NewWorkflowSessionOptions
+	): Promise<WorkflowStateManager> {
+		const stateManager = options.worktree
+			? this.createTaskStateManager(taskId)
+			: this.mainStateManager;
+
+		if ((await stateManager.exists()) && !options.force) {
+			throw new Error(
+				'Workflow already exists. Use force=true to override or resume existing workflow.'
+			);
+		}
+
+		const otherSession = (await this.list()).find(
+			(session) =>
+				session.taskId === taskId &&
+				session.statePath !== stateManager.getStatePath() &&
+				session.phase !== 'COMPLETE'
+		);
+		if (otherSession) {
+			throw new Error(
+				`Task ${taskId} already has an active autopilot session ${otherSession.worktreePath ? `in ${otherSession.worktreePath}` : 'in the main checkout'}. Resume or abort it first.`
+			);
+		}
+
+		if (options.tasks) {
+			await this.assertNoDependencyConflicts(taskId, options.tasks);
+		}
+
+		return stateManager;
+	}
+
+	/**
+	 * Validate a new session and start it while holding the lock on the
+	 * sessions directory, so parallel starts cannot both pass the checks for
+	 * the same or related tasks
+	 * @param start - Starts the session; must save its state before returning
+	 */
+	async startSession<T>(
+		taskId: string,
+		options: NewWorkflowSessionOptions,
+		start: (stateManager: WorkflowStateManager) => Promise<T>
+	): Promise<T> {
+		const sessionsDir = path.dirname(
+			this.mainStateManager.getTaskSessionsDir()
+		);
+		await fs.mkdir(sessionsDir, { recursive: true });
+		const lock = new FileLock(path.join(sessionsDir, 'start'), {
+			timeout: START_LOCK_TIMEOUT_MS
+		});
+
+		await lock.acquire();
+		try {
+			return await start(await this.validateNewSession(taskId, options));
+		} finally {
+			await lock.release();
+		}
+	}
+
+	/**
+	 * Create the worktree for a task's session, reusing it when the session is
+	 * restarted. Returns the absolute worktree path.
+	 */
+	async ensureWorktree(
+		taskId: string,
+		branchName: string,
+		worktreePath?: string
+	): Promise<string> {
+		const targetPath = worktreePath
+			? path.resolve(this.projectRoot, worktreePath)
+			: WorkflowSessionsService.getDefaultWorktreePath(
+					this.projectRoot,
+					taskId
+				);
+
+		const gitAdapter = new GitAdapter(this.projectRoot);
+		const existing = (await gitAdapter.listWorktrees()).find(
+			(wt) => path.resolve(wt.path) === targetPath
+		);
+
+		if (!existing) {
+			await gitAdapter.addWorktree(targetPath, branchName);
+		} else if (existing.branch !== branchName) {
+			throw new Error(
+				`Worktree ${targetPath} has ${existing.branch ?? 'a detached HEAD'} checked out, expected ${branchName}`
+			);
+		}
+
+		return targetPath;
+	}
+
+	/**
+	 * Find active sessions whose task depends on, or is a dependency of, the
+	 * given task (directly or transitively)
+	 */
+	async findDependencyConflicts(
+		taskId: string,
+		tasks: WorkflowTaskDependencies[]
+	): Promise<WorkflowDependencyConflict[]> {
+		const dependencies = new Map<string, string[]>(
+			tasks.map((task) => [
+				String(task.id),
+				(task.dependencies ?? []).map((dep) => String(dep))
+			])
+		);
+
+		const conflicts: WorkflowDependencyConflict[] = [];
+		for (const session of await this.list()) {
+			if (session.phase === 'COMPLETE' || session.taskId === taskId) {
+				continue;
+			}
+
+			if (this.dependsOn(taskId, session.taskId, dependencies)) {
+				conflicts.push({
+					activeTaskId: session.taskId,
+					relation: 'depends-on'
+				});
+			} else if (this.dependsOn(session.taskId, taskId, dependencies)) {
+				conflicts.push({
+					activeTaskId: session.taskId,
+					relation: 'dependency-of'
+				});
+			}
+		}
+
+		return conflicts;
+	}
+
+	/**
+	 * Throw if the task cannot run alongside the active sessions
+	 */
+	async assertNoDependencyConflicts(
+		taskId: string,
+		tasks: WorkflowTaskDependencies[]
+	): Promise<void> {
+		const conflicts = await this.findDependencyConflicts(taskId, tasks);
+		if (conflicts.length === 0) {
+			return;
+		}
+
+		const reasons = conflicts.map((conflict) =>
+			conflict.relation === 'depends-on'
+				? `it depends on task ${conflict.activeTaskId}`
+				: `task ${conflict.activeTaskId} depends on it`
+		);
+		throw new Error(
+			`Cannot start task ${taskId} while related sessions are active: ${reasons.join('; ')}. Finish or abort those sessions first.`
+		);
+	}
+
+	/**
+	 * Whether `taskId` transitively depends on `otherTaskId`
+	 */
+	private dependsOn(
+		taskId: string,
+		otherTaskId: string,
+		dependencies: Map<string, string[]>
+	): boolean {
+		const visited = new Set<string>();
+		const queue = [...(dependencies.get(taskId) ?? [])];
+
+		while (queue.length > 0) {
+			const current = queue.shift()!;
+			if (current === otherTaskId) {
+				return true;
+			}
+			if (visited.has(current)) {
+				continue;
+			}
+			visited.add(current);
+			queue.push(...(dependencies.get(current) ?? []));
+		}
+
+		return false;
+	}
+
+	private async getTaskStateManagers(): Promise<WorkflowStateManager[]> {
+		const tasksDir = this.mainStateManager.getTaskSessionsDir();
+		let entries: string[];
+		try {
+			entries = await fs.readdir(tasksDir);
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				return [];
+			}
+			throw new Error(`Failed to list workflow sessions: ${error.message}`);
+		}
+
+		const managers: WorkflowStateManager[] = [];
+		for (const entry of entries.sort()) {
+			const statePath = path.join(tasksDir, entry, 'workflow-state.json');
+			const taskId = await this.readTaskId(statePath);
+			if (taskId) {
+				managers.push(this.createTaskStateManager(taskId));
+			}
+		}
+		return managers;
+	}
+
+	private async readTaskId(statePath: string): Promise<string | undefined> {
+		try {
+			const state = JSON.parse(
+				await fs.readFile(statePath, 'utf-8')
+			) as WorkflowState;
+			return state.context?.taskId;
+		} catch {
+			return undefined;
+		}
+	}
+
+	private async readSession(
+		manager: WorkflowStateManager
+	): Promise<WorkflowSessionInfo | null> {
+		if (!(await manager.exists())) {
+			return null;
+		}
+
+		let state: WorkflowState;
+		try {
+			state = await manager.load();
+		} catch {
+			return null;
+		}
+
+		const { context } = state;
+		const currentSubtask = context.subtasks[context.currentSubtaskIndex];
+
+		return {
+			taskId: context.taskId,
+			sessionId: context.sessionId,
+			phase: state.phase,
+			tddPhase: context.currentTDDPhase,
+			branchName: context.branchName,
+			worktreePath: context.worktreePath,
+			currentSubtask: currentSubtask
+				? { id: currentSubtask.id, title: currentSubtask.title }
+				: undefined,
+			progress: {
+				completed: context.subtasks.filter((st) => st.status === 'completed')
+					.length,
+				total: context.subtasks.length
+			},
+			startedAt: context.metadata?.startedAt as string | undefined,
+			statePath: manager.getStatePath()
+		};
+	}
+}
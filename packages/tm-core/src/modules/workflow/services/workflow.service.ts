@@ -14,7 +14,21 @@ import type {
 	WorkflowPhase,
 	WorkflowState
 } from '../types.js';
+import {
+	type ParseTestReportOptions,
+	TestReportParser
+} from './test-report-parser.js';
+import {
+	type RunTestsOptions,
+	type TestRunResult,
+	TestRunnerService
+} from './test-runner.service.js';
 import { WorkflowActivityLogger } from './workflow-activity-logger.js';
+import { WorkflowJournalService } from './workflow-journal.service.js';
+import {
+	WorkflowSessionsService,
+	type WorkflowTaskDependencies
+} from './workflow-sessions.service.js';
 
 /**
  * Options for starting a new workflow
@@ -31,6 +45,18 @@ export interface StartWorkflowOptions {
 	maxAttempts?: number;
 	force?: boolean;
 	tag?: string; // Optional tag for branch naming
+	enableRefactorPhase?: boolean; // Insert REFACTOR between GREEN and COMMIT
+	worktree?: boolean; // Run in a dedicated git worktree instead of the main checkout
+	worktreePath?: string; // Worktree location (implies worktree; defaults to ../{repo}-worktrees/task-{id})
+	tasks?: WorkflowTaskDependencies[]; // All tasks; refuses tasks related to another active session
+}
+
+/**
+ * Options for creating a WorkflowService
+ */
+export interface WorkflowServiceOptions {
+	/** Task whose session to operate on (needed when several sessions run in parallel) */
+	taskId?: string;
 }
 
 /**
@@ -41,6 +67,7 @@ export interface WorkflowStatus {
 	phase: WorkflowPhase;
 	tddPhase?: TDDPhase;
 	branchName?: string;
+	worktreePath?: string;
 	currentSubtask?: {
 		id: string;
 		title: string;
@@ -70,25 +97,38 @@ export interface NextAction {
 	};
 }
 
+/**
+ * Result of running the test command to complete a TDD phase
+ */
+export interface RunPhaseTestsResult {
+	status: WorkflowStatus;
+	run: TestRunResult;
+}
+
 /**
  * WorkflowService - Facade for workflow operations
  * Manages WorkflowOrchestrator lifecycle and state persistence
  */
 export class WorkflowService {
 	private readonly projectRoot: string;
-	private readonly stateManager: WorkflowStateManager;
+	private readonly taskId?: string;
+	private readonly sessions: WorkflowSessionsService;
+	private stateManager: WorkflowStateManager;
 	private orchestrator?: WorkflowOrchestrator;
 	private activityLogger?: WorkflowActivityLogger;
 
-	constructor(projectRoot: string) {
+	constructor(projectRoot: string, options: WorkflowServiceOptions = {}) {
 		this.projectRoot = projectRoot;
+		this.taskId = options.taskId;
+		this.sessions = new WorkflowSessionsService(projectRoot);
 		this.stateManager = new WorkflowStateManager(projectRoot);
 	}
 
 	/**
-	 * Check if workflow state exists
+	 * Check if workflow state exists for the session this service refers to
 	 */
 	async hasWorkflow(): Promise<boolean> {
+		this.stateManager = await this.sessions.getStateManager(this.taskId);
 		return await this.stateManager.exists();
 	}
 
@@ -102,86 +142,109 @@ export class WorkflowService {
 			subtasks,
 			maxAttempts = 3,
 			force,
-			tag
+			tag,
+			enableRefactorPhase = false,
+			tasks
 		} = options;
+		const useWorktree = Boolean(options.worktree || options.worktreePath);
+
+		// Check for existing workflow; worktree sessions are keyed by task ID,
+		// the main checkout has a single session. The checks hold until the
+		// state is saved, so parallel starts see each other's sessions.
+		const { gitAdapter, branchName, orchestrator } =
+			await this.sessions.startSession(
+				taskId,
+				{ worktree: useWorktree, force, tasks },
+				async (stateManager) => {
+					this.stateManager = stateManager;
+
+					// Initialize git adapter; a worktree leaves the main checkout untouched
+					const gitAdapter = new GitAdapter(this.projectRoot);
+					await gitAdapter.ensureGitRepository();
+					if (!useWorktree) {
+						await gitAdapter.ensureCleanWorkingTree();
+					}
 
-		// Check for existing workflow
-		if ((await this.hasWorkflow()) && !force) {
-			throw new Error(
-				'Workflow already exists. Use force=true to override or resume existing workflow.'
-			);
-		}
-
-		// Initialize git adapter and ensure clean state
-		const gitAdapter = new GitAdapter(this.projectRoot);
-		await gitAdapter.ensureGitRepository();
-		await gitAdapter.ensureCleanWorkingTree();
-
-		// Parse subtasks to WorkflowContext format
-		const workflowSubtasks: SubtaskInfo[] = subtasks.map((st) => ({
-			id: st.id,
-			title: st.title,
-			status: st.status === 'done' ? 'completed' : 'pending',
-			attempts: 0,
-			maxAttempts: st.maxAttempts || maxAttempts
-		}));
-
-		// Find the first incomplete subtask to resume from
-		const firstIncompleteIndex = workflowSubtasks.findIndex(
-			(st) => st.status !== 'completed'
-		);
+					// Parse subtasks to WorkflowContext format
+					const workflowSubtasks: SubtaskInfo[] = subtasks.map((st) => ({
+						id: st.id,
+						title: st.title,
+						status: st.status === 'done' ? 'completed' : 'pending',
+						attempts: 0,
+						maxAttempts: st.maxAttempts || maxAttempts
+					}));
+
+					// Find the first incomplete subtask to resume from
+					const firstIncompleteIndex = workflowSubtasks.findIndex(
+						(st) => st.status !== 'completed'
+					);
+
+					// If all subtasks are already completed, throw an error
+					if (firstIncompleteIndex === -1) {
+						throw new Error(
+							`All subtasks for task ${taskId} are already completed. Nothing to do.`
+						);
+					}
 
-		// If all subtasks are already completed, throw an error
-		if (firstIncompleteIndex === -1) {
-			throw new Error(
-				`All subtasks for task ${taskId} are already completed. Nothing to do.`
+					// Create git branch with descriptive name
+					const branchName = this.generateBranchName(taskId, taskTitle, tag);
+
+					// Create the worktree first so a failure leaves no session behind
+					const worktreePath = useWorktree
+						? await this.sessions.ensureWorktree(
+								taskId,
+								branchName,
+								options.worktreePath
+							)
+						: undefined;
+
+					// Create workflow context, starting from first incomplete subtask
+					const context: WorkflowContext = {
+						taskId,
+						sessionId: WorkflowJournalService.createSessionId(taskId),
+						subtasks: workflowSubtasks,
+						currentSubtaskIndex: firstIncompleteIndex,
+						enableRefactorPhase,
+						worktreePath,
+						errors: [],
+						metadata: {
+							startedAt: new Date().toISOString(),
+							taskTitle,
+							resumedFromSubtask:
+								firstIncompleteIndex > 0
+									? workflowSubtasks[firstIncompleteIndex].id
+									: undefined
+						}
+					};
+
+					// Create orchestrator with auto-persistence
+					const orchestrator = new WorkflowOrchestrator(context);
+					this.orchestrator = orchestrator;
+					orchestrator.enableAutoPersist(async (state: WorkflowState) => {
+						await this.stateManager.save(state);
+					});
+
+					// Initialize activity logger to track all workflow events
+					this.startActivityLogger(context);
+
+					// Transition through PREFLIGHT and BRANCH_SETUP phases
+					await orchestrator.transition({ type: 'PREFLIGHT_COMPLETE' });
+
+					return { gitAdapter, branchName, orchestrator };
+				}
 			);
-		}
-
-		// Create workflow context, starting from first incomplete subtask
-		const context: WorkflowContext = {
-			taskId,
-			subtasks: workflowSubtasks,
-			currentSubtaskIndex: firstIncompleteIndex,
-			errors: [],
-			metadata: {
-				startedAt: new Date().toISOString(),
-				taskTitle,
-				resumedFromSubtask:
-					firstIncompleteIndex > 0
-						? workflowSubtasks[firstIncompleteIndex].id
-						: undefined
-			}
-		};
-
-		// Create orchestrator with auto-persistence
-		this.orchestrator = new WorkflowOrchestrator(context);
-		this.orchestrator.enableAutoPersist(async (state: WorkflowState) => {
-			await this.stateManager.save(state);
-		});
-
-		// Initialize activity logger to track all workflow events
-		this.activityLogger = new WorkflowActivityLogger(
-			this.orchestrator,
-			this.stateManager.getActivityLogPath()
-		);
-		this.activityLogger.start();
-
-		// Transition through PREFLIGHT and BRANCH_SETUP phases
-		await this.orchestrator.transition({ type: 'PREFLIGHT_COMPLETE' });
-
-		// Create git branch with descriptive name
-		const branchName = this.generateBranchName(taskId, taskTitle, tag);
 
 		// Check if we're already on the target branch
-		const currentBranch = await gitAdapter.getCurrentBranch();
-		if (currentBranch !== branchName) {
-			// Only create branch if we're not already on it
-			await gitAdapter.createAndCheckoutBranch(branchName);
+		if (!useWorktree) {
+			const currentBranch = await gitAdapter.getCurrentBranch();
+			if (currentBranch !== branchName) {
+				// Only create branch if we're not already on it
+				await gitAdapter.createAndCheckoutBranch(branchName);
+			}
 		}
 
 		// Transition to SUBTASK_LOOP with RED phase
-		await this.orchestrator.transition({
+		await orchestrator.transition({
 			type: 'BRANCH_CREATED',
 			branchName
 		});
@@ -194,6 +257,7 @@ export class WorkflowService {
 	 */
 	async resumeWorkflow(): Promise<WorkflowStatus> {
 		// Load state
+		this.stateManager = await this.sessions.getStateManager(this.taskId);
 		const state = await this.stateManager.load();
 
 		// Create new orchestrator with loaded context
@@ -214,11 +278,7 @@ export class WorkflowService {
 		});
 
 		// Initialize activity logger to continue tracking events
-		this.activityLogger = new WorkflowActivityLogger(
-			this.orchestrator,
-			this.stateManager.getActivityLogPath()
-		);
-		this.activityLogger.start();
+		this.startActivityLogger(state.context);
 
 		return this.getStatus();
 	}
@@ -240,6 +300,7 @@ export class WorkflowService {
 			phase: this.orchestrator.getCurrentPhase(),
 			tddPhase: this.orchestrator.getCurrentTDDPhase(),
 			branchName: context.branchName,
+			worktreePath: context.worktreePath,
 			currentSubtask: currentSubtask
 				? {
 						id: currentSubtask.id,
@@ -329,6 +390,13 @@ export class WorkflowService {
 					description: 'Implement feature to make tests pass',
 					nextSteps: `Implement code to make tests pass for subtask ${currentSubtask.id}: "${currentSubtask.title}". Write the minimal code needed to pass all tests (GREEN phase), then use autopilot_complete_phase with test results.`
 				};
+			case 'REFACTOR':
+				return {
+					...baseAction,
+					action: 'refactor_code',
+					description: 'Refactor while keeping all tests passing',
+					nextSteps: `Refactor the implementation for subtask ${currentSubtask.id}: "${currentSubtask.title}" without changing behavior. Run tests and use autopilot_complete_phase with results (all tests must still pass), or use autopilot_complete_phase with skipRefactor=true if no refactoring is needed.`
+				};
 			case 'COMMIT':
 				return {
 					...baseAction,
@@ -374,6 +442,12 @@ export class WorkflowService {
 					testResults
 				});
 				break;
+			case 'REFACTOR':
+				await this.orchestrator.transition({
+					type: 'REFACTOR_PHASE_COMPLETE',
+					testResults
+				});
+				break;
 			case 'COMMIT':
 				throw new Error(
 					'Cannot complete COMMIT phase with test results. Use commit() instead.'
@@ -385,10 +459,108 @@ export class WorkflowService {
 		return this.getStatus();
 	}
 
+	/**
+	 * Skip the REFACTOR phase and move straight to COMMIT
+	 */
+	async skipRefactor(reason?: string): Promise<WorkflowStatus> {
+		if (!this.orchestrator) {
+			throw new Error('No active workflow. Start or resume a workflow first.');
+		}
+
+		const tddPhase = this.orchestrator.getCurrentTDDPhase();
+		if (tddPhase !== 'REFACTOR') {
+			throw new Error(
+				`Cannot skip refactoring in ${tddPhase ?? 'non-TDD'} phase. Only the REFACTOR phase can be skipped.`
+			);
+		}
+
+		await this.orchestrator.transition({
+			type: 'REFACTOR_PHASE_SKIPPED',
+			reason
+		});
+
+		return this.getStatus();
+	}
+
+	/**
+	 * Complete current TDD phase using a test runner report from disk
+	 * (JUnit XML, Jest/Vitest JSON or TAP) instead of self-reported counts
+	 */
+	async completePhaseFromReport(
+		reportPath: string,
+		options: Omit<ParseTestReportOptions, 'phase'> = {}
+	): Promise<WorkflowStatus> {
+		if (!this.orchestrator) {
+			throw new Error('No active workflow. Start or resume a workflow first.');
+		}
+
+		const tddPhase = this.orchestrator.getCurrentTDDPhase();
+		if (!tddPhase || tddPhase === 'COMMIT') {
+			throw new Error(
+				`Cannot complete ${tddPhase ?? 'non-TDD'} phase with a test report`
+			);
+		}
+
+		const testResults = await new TestReportParser().parseFile(reportPath, {
+			...options,
+			phase: tddPhase
+		});
+
+		return this.completePhase(testResults);
+	}
+
+	/**
+	 * Run the project's test command for the current RED/GREEN/REFACTOR phase
+	 * and complete the phase with the observed results.
+	 * RED only advances to GREEN when the run actually fails, and GREEN and
+	 * REFACTOR only advance when the run actually passes.
+	 */
+	async runTestsAndCompletePhase(
+		options: Omit<RunTestsOptions, 'phase'> = {}
+	): Promise<RunPhaseTestsResult> {
+		if (!this.orchestrator) {
+			throw new Error('No active workflow. Start or resume a workflow first.');
+		}
+
+		const tddPhase = this.orchestrator.getCurrentTDDPhase();
+		if (!tddPhase || tddPhase === 'COMMIT') {
+			throw new Error(
+				`Cannot run tests to complete ${tddPhase ?? 'non-TDD'} phase`
+			);
+		}
+
+		const run = await new TestRunnerService(this.getWorkingDirectory()).run({
+			...options,
+			phase: tddPhase
+		});
+
+		this.orchestrator.recordTestRun(run);
+
+		// Same rules as completing a phase by hand: an all-passing RED run does
+		// not prove the tests were written first
+		if (tddPhase === 'RED' && run.testResults.failed === 0) {
+			throw new Error(
+				`RED phase not complete: all ${run.testResults.total} tests passed (exit code ${run.exitCode}). Write a failing test first.`
+			);
+		}
+		if (tddPhase !== 'RED' && run.testResults.failed > 0) {
+			throw new Error(
+				`${tddPhase} phase not complete: ${run.testResults.failed} of ${run.testResults.total} tests failed (exit code ${run.exitCode})`
+			);
+		}
+
+		const status = await this.completePhase(run.testResults);
+		return { status, run };
+	}
+
 	/**
 	 * Commit current changes and advance workflow
+	 * Pass the created commit to record it in the session journal
 	 */
-	async commit(): Promise<WorkflowStatus> {
+	async commit(commit?: {
+		hash: string;
+		message: string;
+	}): Promise<WorkflowStatus> {
 		if (!this.orchestrator) {
 			throw new Error('No active workflow. Start or resume a workflow first.');
 		}
@@ -397,10 +569,14 @@ export class WorkflowService {
 
 		if (tddPhase !== 'COMMIT') {
 			throw new Error(
-				`Cannot commit in ${tddPhase} phase. Complete RED and GREEN phases first.`
+				`Cannot commit in ${tddPhase} phase. Complete RED, GREEN and REFACTOR (if enabled) phases first.`
 			);
 		}
 
+		if (commit) {
+			this.orchestrator.recordCommit(commit);
+		}
+
 		// Transition COMMIT phase complete
 		await this.orchestrator.transition({
 			type: 'COMMIT_COMPLETE'
@@ -435,7 +611,7 @@ export class WorkflowService {
 		}
 
 		// Check working tree is clean
-		const gitAdapter = new GitAdapter(this.projectRoot);
+		const gitAdapter = new GitAdapter(this.getWorkingDirectory());
 		const statusSummary = await gitAdapter.getStatusSummary();
 
 		if (!statusSummary.isClean) {
@@ -467,6 +643,31 @@ export class WorkflowService {
 		this.orchestrator = undefined;
 	}
 
+	/**
+	 * Directory the session works in: its worktree, or the project root
+	 */
+	getWorkingDirectory(): string {
+		return this.orchestrator?.getContext().worktreePath ?? this.projectRoot;
+	}
+
+	/**
+	 * Log orchestrator events to activity.jsonl and the session journal
+	 */
+	private startActivityLogger(context: WorkflowContext): void {
+		if (!this.orchestrator) {
+			return;
+		}
+
+		this.activityLogger = new WorkflowActivityLogger(
+			this.orchestrator,
+			this.stateManager.getActivityLogPath(),
+			context.sessionId
+				? this.stateManager.getJournalPath(context.sessionId)
+				: undefined
+		);
+		this.activityLogger.start();
+	}
+
 	/**
 	 * Generate a descriptive git branch name
 	 * Format: tag-name/task-id-task-title or task-id-task-title
@@ -10,18 +10,25 @@ export type WorkflowPhase =
 
 /**
  * TDD cycle phases within subtask loop
+ * REFACTOR only occurs when the workflow was started with it enabled
  */
-export type TDDPhase = 'RED' | 'GREEN' | 'COMMIT';
+export type TDDPhase = 'RED' | 'GREEN' | 'REFACTOR' | 'COMMIT';
 
 /**
  * Workflow state context
  */
 export interface WorkflowContext {
 	taskId: string;
+	/** Identifies the workflow run; names its event journal */
+	sessionId?: string;
 	subtasks: SubtaskInfo[];
 	currentSubtaskIndex: number;
 	currentTDDPhase?: TDDPhase;
+	/** Insert a REFACTOR phase between GREEN and COMMIT */
+	enableRefactorPhase?: boolean;
 	branchName?: string;
+	/** Linked git worktree the session works in (unset for the main checkout) */
+	worktreePath?: string;
 	errors: WorkflowError[];
 	metadata: Record<string, unknown>;
 	lastTestResults?: TestResult;
@@ -35,7 +42,44 @@ export interface TestResult {
 	passed: number;
 	failed: number;
 	skipped: number;
-	phase: 'RED' | 'GREEN';
+	phase: 'RED' | 'GREEN' | 'REFACTOR';
+	coverage?: TestCoverage;
+	tests?: TestCaseResult[];
+	report?: TestReportSource;
+}
+
+/**
+ * Outcome of a single test case parsed from a test report
+ */
+export interface TestCaseResult {
+	name: string;
+	status: 'passed' | 'failed' | 'skipped';
+	file?: string;
+	durationMs?: number;
+	failureMessage?: string;
+}
+
+/**
+ * Coverage percentages (0-100) reported alongside test results
+ */
+export interface TestCoverage {
+	line: number;
+	branch: number;
+	function: number;
+	statement: number;
+}
+
+/**
+ * Supported test report formats
+ */
+export type TestReportFormat = 'junit' | 'jest-json' | 'tap';
+
+/**
+ * Where a TestResult was ingested from
+ */
+export interface TestReportSource {
+	path: string;
+	format: TestReportFormat;
 }
 
 /**
@@ -76,6 +120,8 @@ export type WorkflowEvent =
 	| { type: 'SUBTASK_START'; subtaskId: string }
 	| { type: 'RED_PHASE_COMPLETE'; testResults?: TestResult }
 	| { type: 'GREEN_PHASE_COMPLETE'; testResults?: TestResult }
+	| { type: 'REFACTOR_PHASE_COMPLETE'; testResults?: TestResult }
+	| { type: 'REFACTOR_PHASE_SKIPPED'; reason?: string }
 	| { type: 'COMMIT_COMPLETE' }
 	| { type: 'SUBTASK_COMPLETE' }
 	| { type: 'ALL_SUBTASKS_COMPLETE' }
@@ -134,6 +180,9 @@ export type WorkflowEventType =
 	| 'tdd:red:completed'
 	| 'tdd:green:started'
 	| 'tdd:green:completed'
+	| 'tdd:refactor:started'
+	| 'tdd:refactor:completed'
+	| 'tdd:refactor:skipped'
 	| 'tdd:commit:started'
 	| 'tdd:commit:completed'
 	| 'subtask:started'
@@ -4,9 +4,22 @@
  */
 
 import type { ConfigManager } from '../config/managers/config-manager.js';
+import type { ParseTestReportOptions } from './services/test-report-parser.js';
+import type { RunTestsOptions } from './services/test-runner.service.js';
+import {
+	type WorkflowJournalQuery,
+	type WorkflowJournalResult,
+	WorkflowJournalService,
+	type WorkflowSessionSummary
+} from './services/workflow-journal.service.js';
+import {
+	type WorkflowSessionInfo,
+	WorkflowSessionsService
+} from './services/workflow-sessions.service.js';
 import { WorkflowService } from './services/workflow.service.js';
 import type {
 	NextAction,
+	RunPhaseTestsResult,
 	StartWorkflowOptions,
 	WorkflowStatus
 } from './services/workflow.service.js';
@@ -17,9 +30,19 @@ import type { TestResult, WorkflowContext } from './types.js';
  */
 export class WorkflowDomain {
 	private workflowService: WorkflowService;
+	private journalService: WorkflowJournalService;
+	private sessionsService: WorkflowSessionsService;
+	private configManager: ConfigManager;
 
 	constructor(configManager: ConfigManager) {
+		this.configManager = configManager;
 		this.workflowService = new WorkflowService(configManager.getProjectRoot());
+		this.journalService = new WorkflowJournalService(
+			configManager.getProjectRoot()
+		);
+		this.sessionsService = new WorkflowSessionsService(
+			configManager.getProjectRoot()
+		);
 	}
 
 	// ========== Workflow Lifecycle ==========
@@ -28,13 +51,25 @@ export class WorkflowDomain {
 	 * Start a new TDD workflow for a task
 	 */
 	async start(options: StartWorkflowOptions): Promise<WorkflowStatus> {
-		return this.workflowService.startWorkflow(options);
+		return this.workflowService.startWorkflow({
+			...options,
+			enableRefactorPhase:
+				options.enableRefactorPhase ??
+				this.configManager.getConfig().workflow?.enableRefactorPhase
+		});
 	}
 
 	/**
 	 * Resume an existing workflow
+	 * Pass a task ID to pick one of several parallel sessions
 	 */
-	async resume(): Promise<WorkflowStatus> {
+	async resume(taskId?: string): Promise<WorkflowStatus> {
+		if (taskId) {
+			this.workflowService = new WorkflowService(
+				this.configManager.getProjectRoot(),
+				{ taskId }
+			);
+		}
 		return this.workflowService.resumeWorkflow();
 	}
 
@@ -66,11 +101,44 @@ export class WorkflowDomain {
 		return this.workflowService.completePhase(testResults);
 	}
 
+	/**
+	 * Skip the REFACTOR phase and move to COMMIT
+	 */
+	async skipRefactor(reason?: string): Promise<WorkflowStatus> {
+		return this.workflowService.skipRefactor(reason);
+	}
+
+	/**
+	 * Complete current phase using a test report file (JUnit, Jest/Vitest JSON, TAP)
+	 */
+	async completePhaseFromReport(
+		reportPath: string,
+		options?: Omit<ParseTestReportOptions, 'phase'>
+	): Promise<WorkflowStatus> {
+		return this.workflowService.completePhaseFromReport(reportPath, options);
+	}
+
+	/**
+	 * Run the test command and complete the current phase with the observed results
+	 * Uses WorkflowSettings.operationTimeout unless a timeout is provided
+	 */
+	async runTestsAndCompletePhase(
+		options: Omit<RunTestsOptions, 'phase'> = {}
+	): Promise<RunPhaseTestsResult> {
+		return this.workflowService.runTestsAndCompletePhase({
+			timeout: this.configManager.getConfig().workflow?.operationTimeout,
+			...options
+		});
+	}
+
 	/**
 	 * Commit changes with auto-generated message
 	 */
-	async commit(): Promise<WorkflowStatus> {
-		return this.workflowService.commit();
+	async commit(commit?: {
+		hash: string;
+		message: string;
+	}): Promise<WorkflowStatus> {
+		return this.workflowService.commit(commit);
 	}
 
 	/**
@@ -95,4 +163,26 @@ export class WorkflowDomain {
 	async hasWorkflow(): Promise<boolean> {
 		return this.workflowService.hasWorkflow();
 	}
+
+	/**
+	 * List autopilot sessions of the project (main checkout and worktrees)
+	 */
+	async listActive(): Promise<WorkflowSessionInfo[]> {
+		return this.sessionsService.list();
+	}
+
+	/**
+	 * Query the event journal of a workflow session
+	 * Defaults to the current session, then the most recent one
+	 */
+	async getLog(query?: WorkflowJournalQuery): Promise<WorkflowJournalResult> {
+		return this.journalService.query(query);
+	}
+
+	/**
+	 * List recorded workflow sessions, most recent first
+	 */
+	async listSessions(): Promise<WorkflowSessionSummary[]> {
+		return this.journalService.listSessions();
+	}
 }
@@ -7,7 +7,10 @@ import path from 'node:path';
 import { AuthDomain } from './modules/auth/auth-domain.js';
 import { ConfigDomain } from './modules/config/config-domain.js';
 import { ConfigManager } from './modules/config/managers/config-manager.js';
+import { DependenciesDomain } from './modules/dependencies/dependencies-domain.js';
 import { GitDomain } from './modules/git/git-domain.js';
+import { HistoryDomain } from './modules/history/history-domain.js';
+import type { ChangeContext } from './modules/history/types.js';
 import { IntegrationDomain } from './modules/integration/integration-domain.js';
 import { TasksDomain } from './modules/tasks/tasks-domain.js';
 import { WorkflowDomain } from './modules/workflow/workflow-domain.js';
@@ -33,6 +36,8 @@ export interface TmCoreOptions {
 	configuration?: Partial<IConfiguration>;
 	/** Optional logger configuration for MCP integration and debugging */
 	loggerConfig?: LoggerConfig;
+	/** Client and command that task changes are attributed to in the change journal */
+	changeContext?: ChangeContext;
 }
 
 /**
@@ -48,6 +53,8 @@ export interface TmCoreOptions {
  * await tmcore.workflow.start({ taskId: '1' });
  * await tmcore.git.commit('feat: add feature');
  * const modelConfig = tmcore.config.getModelConfig();
+ * const { cycles } = await tmcore.dependencies.validate();
+ * await tmcore.history.undo();
  * await tmcore.integration.exportTasks({ ... });
  * ```
  *
@@ -87,6 +94,8 @@ export class TmCore {
 	private _git!: GitDomain;
 	private _config!: ConfigDomain;
 	private _integration!: IntegrationDomain;
+	private _dependencies!: DependenciesDomain;
+	private _history!: HistoryDomain;
 
 	// Public readonly getters
 	get tasks(): TasksDomain {
@@ -107,6 +116,12 @@ export class TmCore {
 	get integration(): IntegrationDomain {
 		return this._integration;
 	}
+	get dependencies(): DependenciesDomain {
+		return this._dependencies;
+	}
+	get history(): HistoryDomain {
+		return this._history;
+	}
 	get logger(): Logger {
 		return this._logger;
 	}
@@ -171,15 +186,34 @@ export class TmCore {
 
 			// Initialize domain facades
 			this._auth = new AuthDomain();
-			this._tasks = new TasksDomain(this._configManager, this._auth);
+			this._tasks = new TasksDomain(
+				this._configManager,
+				this._auth,
+				this._options.changeContext
+			);
 			this._workflow = new WorkflowDomain(this._configManager);
 			this._git = new GitDomain(this._projectPath);
 			this._config = new ConfigDomain(this._configManager);
-			this._integration = new IntegrationDomain(this._configManager);
 
 			// Initialize domains that need async setup
 			await this._tasks.initialize();
 
+			// Dependencies, history and integrations need the storage resolved by
+			// the tasks domain
+			this._dependencies = new DependenciesDomain(
+				this._configManager,
+				this._tasks.getStorage()
+			);
+			this._history = new HistoryDomain(
+				this._configManager,
+				this._tasks.getStorage()
+			);
+			this._integration = new IntegrationDomain(
+				this._configManager,
+				this._tasks.getStorage(),
+				() => this._tasks.getLocalStorage()
+			);
+
 			// Log successful initialization
 			this._logger.info('TmCore initialized successfully');
 		} catch (error) {
@@ -2,12 +2,19 @@
  * Tests for executor functionality
  */
 
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
 	ClaudeExecutor,
 	ExecutorFactory,
-	type ExecutorOptions
-} from '../../src/executors/index.js';
+	type ExecutorOptions,
+	ExecutorRegistry,
+	ExecutorService,
+	type ITaskExecutor,
+	ShellExecutor
+} from '../../src/modules/execution/index.js';
 
 describe('ExecutorFactory', () => {
 	const mockProjectRoot = '/test/project';
@@ -22,15 +29,37 @@ describe('ExecutorFactory', () => {
 		expect(executor).toBeInstanceOf(ClaudeExecutor);
 	});
 
-	it('should throw error for unimplemented executor types', () => {
+	it('should create a Shell executor', () => {
 		const options: ExecutorOptions = {
 			type: 'shell',
-			projectRoot: mockProjectRoot
+			projectRoot: mockProjectRoot,
+			config: { command: 'echo {{title}}' }
 		};
 
-		expect(() => ExecutorFactory.create(options)).toThrow(
-			'Shell executor not yet implemented'
-		);
+		const executor = ExecutorFactory.create(options);
+		expect(executor).toBeInstanceOf(ShellExecutor);
+	});
+
+	it('should resolve custom executors from the given registry', () => {
+		const custom = { getType: () => 'custom' } as unknown as ITaskExecutor;
+		const registry = new ExecutorRegistry();
+		registry.register('my-agent', () => custom);
+
+		expect(
+			ExecutorFactory.create(
+				{ type: 'custom', name: 'my-agent', projectRoot: mockProjectRoot },
+				registry
+			)
+		).toBe(custom);
+	});
+
+	it('should throw for unregistered custom executors', () => {
+		expect(() =>
+			ExecutorFactory.create(
+				{ type: 'custom', name: 'missing', projectRoot: mockProjectRoot },
+				new ExecutorRegistry()
+			)
+		).toThrow('Unknown custom executor: missing');
 	});
 
 	it('should get available executor types', () => {
@@ -80,3 +109,262 @@ describe('ClaudeExecutor', () => {
 		expect(formattedPrompt).toContain('Priority: high');
 	});
 });
+
+describe('ShellExecutor', () => {
+	const mockTask = {
+		id: '7',
+		title: "Fix the user's login",
+		description: 'Login fails',
+		status: 'pending' as const,
+		priority: 'high' as const,
+		dependencies: [],
+		details: '',
+		testStrategy: '',
+		subtasks: []
+	};
+	let projectRoot: string;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-shell-exec-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should quote template values in shell command lines', () => {
+		const executor = new ShellExecutor(projectRoot, {
+			command: 'agent --task {{id}} --message {{title}}'
+		});
+
+		expect(executor.buildCommand(mockTask).command).toBe(
+			`agent --task '7' --message 'Fix the user'\\''s login'`
+		);
+	});
+
+	it('should escape template values inside quotes', () => {
+		const executor = new ShellExecutor(projectRoot, {
+			command: `agent --message "{{title}}: $HOME" --note 'task {{id}}' {{description}}`
+		});
+
+		expect(
+			executor.buildCommand({ ...mockTask, description: 'Costs "$5"' }).command
+		).toBe(
+			`agent --message "Fix the user's login: $HOME" --note 'task 7' 'Costs "$5"'`
+		);
+		expect(
+			executor.buildCommand({ ...mockTask, title: 'Print `id` and "$PATH"' })
+				.command
+		).toBe(
+			`agent --message "Print \\\`id\\\` and \\"\\$PATH\\": $HOME" --note 'task 7' 'Login fails'`
+		);
+	});
+
+	it('should pass template values verbatim when args are given', () => {
+		const executor = new ShellExecutor(projectRoot, {
+			command: 'agent',
+			args: ['--message', '{{title}}', '{{unknown}}'],
+			stdin: 'Task {{id}}'
+		});
+
+		expect(executor.buildCommand(mockTask)).toEqual({
+			command: 'agent',
+			args: ['--message', "Fix the user's login", '{{unknown}}'],
+			stdin: 'Task 7'
+		});
+	});
+
+	it('should run the command, stream and capture its output', async () => {
+		const chunks: string[] = [];
+		const executor = new ShellExecutor(projectRoot, {
+			command: `node -e "process.stdin.pipe(process.stdout)"`,
+			stdin: true,
+			streamOutput: false,
+			onOutput: (chunk) => chunks.push(chunk)
+		});
+
+		const result = await executor.execute(mockTask);
+
+		expect(result.success).toBe(true);
+		expect(result.executorType).toBe('shell');
+		expect(result.exitCode).toBe(0);
+		expect(result.output).toContain("Title: Fix the user's login");
+		expect(chunks.join('')).toBe(result.output);
+	});
+
+	it('should expose the task through environment variables', async () => {
+		const executor = new ShellExecutor(projectRoot, {
+			command: `node -e "console.log(process.env.TASKMASTER_TASK_ID)"`,
+			streamOutput: false
+		});
+
+		const result = await executor.execute(mockTask);
+
+		expect(result.output?.trim()).toBe('7');
+	});
+
+	it('should report a failure for non-zero exit codes', async () => {
+		const executor = new ShellExecutor(projectRoot, {
+			command: `node -e "process.exit(3)"`,
+			streamOutput: false
+		});
+
+		const result = await executor.execute(mockTask);
+
+		expect(result.success).toBe(false);
+		expect(result.exitCode).toBe(3);
+		expect(result.error).toBe('Command exited with code 3');
+	});
+
+	it('should stop a running command', async () => {
+		const executor = new ShellExecutor(projectRoot, {
+			command: `node -e "setTimeout(() => {}, 10000)"`,
+			streamOutput: false
+		});
+
+		const running = executor.execute(mockTask);
+		await new Promise((resolve) => setTimeout(resolve, 200));
+		await executor.stop();
+
+		const result = await running;
+		expect(result.success).toBe(false);
+	});
+
+	it('should kill a command that ignores SIGTERM when stopped', async () => {
+		const executor = new ShellExecutor(projectRoot, {
+			command: `node -e "process.on('SIGTERM', () => {}); setInterval(() => {}, 1000)"`,
+			streamOutput: false
+		});
+
+		const running = executor.execute(mockTask);
+		await new Promise((resolve) => setTimeout(resolve, 200));
+		await executor.stop();
+
+		const result = await running;
+		expect(result.success).toBe(false);
+	}, 10000);
+
+	it('should be unavailable without a command', async () => {
+		const executor = new ShellExecutor(projectRoot);
+
+		await expect(executor.isAvailable()).resolves.toBe(false);
+	});
+});
+
+describe('ExecutorRegistry', () => {
+	let projectRoot: string;
+	let registry: ExecutorRegistry;
+
+	beforeEach(async () => {
+		projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'tm-registry-'));
+		registry = new ExecutorRegistry();
+	});
+
+	afterEach(async () => {
+		await fs.rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should register shell executors from config', async () => {
+		await registry.registerFromConfig(
+			{ aider: { type: 'shell', command: 'aider --message {{prompt}}' } },
+			projectRoot
+		);
+
+		expect(registry.list()).toEqual(['aider']);
+		expect(registry.create('aider', projectRoot)).toBeInstanceOf(ShellExecutor);
+	});
+
+	it('should load executors from plugin modules', async () => {
+		await fs.writeFile(
+			path.join(projectRoot, 'agent.mjs'),
+			`export function createExecutor(projectRoot, config) {
+				return { getType: () => 'custom', projectRoot, config };
+			}`
+		);
+
+		await registry.registerFromConfig(
+			{
+				agent: {
+					type: 'module',
+					module: './agent.mjs',
+					options: { model: 'local' }
+				}
+			},
+			projectRoot
+		);
+
+		const executor = registry.create('agent', projectRoot) as any;
+		expect(executor.projectRoot).toBe(projectRoot);
+		expect(executor.config).toEqual({ model: 'local' });
+	});
+
+	it('should reject modules without a createExecutor export', async () => {
+		await fs.writeFile(path.join(projectRoot, 'empty.mjs'), 'export {};');
+
+		await expect(
+			registry.registerFromModule('empty', './empty.mjs', projectRoot)
+		).rejects.toThrow('must export a createExecutor function');
+	});
+});
+
+describe('ExecutorService', () => {
+	it('should run tasks through custom executors by name', async () => {
+		const registry = new ExecutorRegistry();
+		const execute = vi.fn().mockResolvedValue({ success: true });
+		registry.register('bash-script', () => ({
+			execute,
+			getType: () => 'custom',
+			isAvailable: async () => true
+		}));
+		const service = new ExecutorService({
+			projectRoot: '/test/project',
+			registry
+		});
+
+		const result = await service.executeTask(
+			{ id: '1', title: 'Task' } as any,
+			'bash-script'
+		);
+
+		expect(result.success).toBe(true);
+		expect(execute).toHaveBeenCalledOnce();
+		expect(service.getExecutorNames()).toEqual(['claude', 'bash-script']);
+	});
+
+	it('should keep custom executors to the service registry', () => {
+		const registry = new ExecutorRegistry();
+		registry.register('bash-script', () => ({}) as ITaskExecutor);
+		new ExecutorService({ projectRoot: '/a', registry });
+
+		expect(
+			new ExecutorService({ projectRoot: '/b' }).getExecutorNames()
+		).toEqual(['claude']);
+	});
+
+	it('should explain that the shell executor needs a command', async () => {
+		const service = new ExecutorService({ projectRoot: '/test/project' });
+
+		const result = await service.executeTask(
+			{ id: '1', title: 'Task' } as any,
+			'shell'
+		);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain('The shell executor needs a command');
+	});
+
+	it('should fail for unknown executors', async () => {
+		const service = new ExecutorService({
+			projectRoot: '/test/project',
+			registry: new ExecutorRegistry()
+		});
+
+		const result = await service.executeTask(
+			{ id: '1', title: 'Task' } as any,
+			'nope'
+		);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain('Unknown executor: nope');
+	});
+});
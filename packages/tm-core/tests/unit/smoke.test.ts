@@ -3,8 +3,8 @@
  */
 
 import {
-	PlaceholderParser,
 	PlaceholderStorage,
+	PrdParser,
 	StorageError,
 	TaskNotFoundError,
 	TmCoreError,
@@ -71,9 +71,9 @@ describe('tm-core smoke tests', () => {
 		});
 	});
 
-	describe('placeholder parser', () => {
+	describe('prd parser', () => {
 		it('should parse simple task lists', async () => {
-			const parser = new PlaceholderParser();
+			const parser = new PrdParser();
 			const content = `
         - Task 1
         - Task 2
@@ -7,6 +7,7 @@
 // import { generateText, streamText, generateObject } from 'ai';
 
 // --- Core Dependencies ---
+import path from 'path';
 import {
 	MODEL_MAP,
 	getAzureBaseURL,
@@ -30,7 +31,9 @@ import {
 	findProjectRoot,
 	getCurrentTag,
 	log,
-	resolveEnvVariable
+	readTasksFile,
+	resolveEnvVariable,
+	tasksFileExists
 } from './utils.js';
 
 // Import provider classes
@@ -199,8 +202,6 @@ function _readAvailableTags(projectRoot) {
 	const DEFAULT_TAGS = ['master'];
 
 	try {
-		const path = require('path');
-		const fs = require('fs');
 		const tasksPath = path.join(
 			projectRoot,
 			'.taskmaster',
@@ -208,11 +209,11 @@ function _readAvailableTags(projectRoot) {
 			'tasks.json'
 		);
 
-		if (!fs.existsSync(tasksPath)) {
+		if (!tasksFileExists(tasksPath)) {
 			return DEFAULT_TAGS;
 		}
 
-		const tasksData = JSON.parse(fs.readFileSync(tasksPath, 'utf8'));
+		const tasksData = readTasksFile(tasksPath);
 		if (!tasksData || typeof tasksData !== 'object') {
 			return DEFAULT_TAGS;
 		}
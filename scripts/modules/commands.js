@@ -20,7 +20,13 @@ import {
 	restartWithNewVersion,
 	runInteractiveSetup
 } from '@tm/cli';
-import { log, readJSON } from './utils.js';
+import {
+	log,
+	readJSON,
+	readTasksFile,
+	setChangeContext,
+	tasksFileExists
+} from './utils.js';
 
 import {
 	addSubtask,
@@ -160,6 +166,7 @@ function registerCommands(programInstance) {
 	// Add global command guard for local-only commands
 	programInstance.hook('preAction', async (thisCommand, actionCommand) => {
 		const commandName = actionCommand.name();
+		setChangeContext({ source: 'cli', command: commandName });
 
 		// Only check if it's a local-only command
 		if (LOCAL_ONLY_COMMANDS.includes(commandName)) {
@@ -241,11 +248,10 @@ function registerCommands(programInstance) {
 				// Check if there are existing tasks in the target tag
 				let hasExistingTasksInTag = false;
 				const tasksPath = taskMaster.getTasksPath();
-				if (fs.existsSync(tasksPath)) {
+				if (tasksFileExists(tasksPath)) {
 					try {
 						// Read the entire file to check if the tag exists
-						const existingFileContent = fs.readFileSync(tasksPath, 'utf8');
-						const allData = JSON.parse(existingFileContent);
+						const allData = readTasksFile(tasksPath);
 
 						// Check if the target tag exists and has tasks
 						if (
@@ -501,7 +507,7 @@ function registerCommands(programInstance) {
 				const useResearch = options.research || false;
 
 				// Validate tasks file exists
-				if (!fs.existsSync(tasksPath)) {
+				if (!tasksFileExists(tasksPath)) {
 					console.error(
 						chalk.red(`Error: Tasks file not found at path: ${tasksPath}`)
 					);
@@ -673,7 +679,7 @@ function registerCommands(programInstance) {
 				const useResearch = options.research || false;
 
 				// Validate tasks file exists
-				if (!fs.existsSync(tasksPath)) {
+				if (!tasksFileExists(tasksPath)) {
 					console.error(
 						chalk.red(`Error: Tasks file not found at path: ${tasksPath}`)
 					);
@@ -834,7 +840,7 @@ function registerCommands(programInstance) {
 				}
 
 				// Validate tasks file exists
-				if (!fs.existsSync(tasksPath)) {
+				if (!tasksFileExists(tasksPath)) {
 					console.error(
 						chalk.red(`Error: Tasks file not found at path: ${tasksPath}`)
 					);
@@ -961,7 +967,7 @@ function registerCommands(programInstance) {
 				}
 
 				// Validate tasks file exists
-				if (!fs.existsSync(tasksPath)) {
+				if (!tasksFileExists(tasksPath)) {
 					console.error(
 						chalk.red(`Error: Tasks file not found at path: ${tasksPath}`)
 					);
@@ -1710,7 +1716,7 @@ ${result.result}
 
 			const tasksPath = options.file || TASKMASTER_TASKS_FILE;
 
-			if (!fs.existsSync(tasksPath)) {
+			if (!tasksFileExists(tasksPath)) {
 				console.error(
 					`❌ No tasks.json file found. Please run "task-master init" or create a tasks.json file at ${TASKMASTER_TASKS_FILE}`
 				);
@@ -3975,7 +3981,7 @@ Examples:
 				const tasksPath = taskMaster.getTasksPath();
 
 				// Validate tasks file exists
-				if (!fs.existsSync(tasksPath)) {
+				if (!tasksFileExists(tasksPath)) {
 					console.error(
 						chalk.red(`Error: Tasks file not found at path: ${tasksPath}`)
 					);
@@ -4129,7 +4135,7 @@ Examples:
 				const tasksPath = taskMaster.getTasksPath();
 
 				// Validate tasks file exists
-				if (!fs.existsSync(tasksPath)) {
+				if (!tasksFileExists(tasksPath)) {
 					console.error(
 						chalk.red(`Error: Tasks file not found at path: ${tasksPath}`)
 					);
@@ -4201,7 +4207,7 @@ Examples:
 				const tasksPath = taskMaster.getTasksPath();
 
 				// Validate tasks file exists
-				if (!fs.existsSync(tasksPath)) {
+				if (!tasksFileExists(tasksPath)) {
 					console.error(
 						chalk.red(`Error: Tasks file not found at path: ${tasksPath}`)
 					);
@@ -4259,7 +4265,7 @@ Examples:
 				const tasksPath = taskMaster.getTasksPath();
 
 				// Validate tasks file exists
-				if (!fs.existsSync(tasksPath)) {
+				if (!tasksFileExists(tasksPath)) {
 					console.error(
 						chalk.red(`Error: Tasks file not found at path: ${tasksPath}`)
 					);
@@ -4323,7 +4329,7 @@ Examples:
 				const tasksPath = taskMaster.getTasksPath();
 
 				// Validate tasks file exists
-				if (!fs.existsSync(tasksPath)) {
+				if (!tasksFileExists(tasksPath)) {
 					console.error(
 						chalk.red(`Error: Tasks file not found at path: ${tasksPath}`)
 					);
@@ -4447,10 +4453,9 @@ async function runCLI(argv = process.argv) {
 			const tasksPath = taskMaster.getTasksPath();
 			const statePath = taskMaster.getStatePath();
 
-			if (tasksPath && fs.existsSync(tasksPath)) {
+			if (tasksPath && tasksFileExists(tasksPath)) {
 				// Read raw file to check if it has master key (bypassing tag resolution)
-				const rawData = fs.readFileSync(tasksPath, 'utf8');
-				const parsedData = JSON.parse(rawData);
+				const parsedData = readTasksFile(tasksPath);
 
 				if (parsedData && parsedData.master) {
 					// Migration has occurred, check if we've shown the notice
@@ -6,7 +6,13 @@ import fs from 'fs';
 import path from 'path';
 import boxen from 'boxen';
 import chalk from 'chalk';
-import { ensureTagMetadata, findTaskById } from '../../utils.js';
+import {
+	ensureTagMetadata,
+	findTaskById,
+	readTasksFile,
+	tasksFileExists,
+	writeJSON
+} from '../../utils.js';
 import { displayParsePrdSummary } from '../../../../src/ui/parse-prd.js';
 import { TimeoutManager } from '../../../../src/utils/timeout-manager.js';
 import { displayAiUsageSummary } from '../../ui.js';
@@ -47,13 +53,12 @@ export function loadExistingTasks(tasksPath, targetTag) {
 	let existingTasks = [];
 	let nextId = 1;
 
-	if (!fs.existsSync(tasksPath)) {
+	if (!tasksFileExists(tasksPath)) {
 		return { existingTasks, nextId };
 	}
 
 	try {
-		const existingFileContent = fs.readFileSync(tasksPath, 'utf8');
-		const allData = JSON.parse(existingFileContent);
+		const allData = readTasksFile(tasksPath);
 
 		if (allData[targetTag]?.tasks && Array.isArray(allData[targetTag].tasks)) {
 			existingTasks = allData[targetTag].tasks;
@@ -188,10 +193,9 @@ export function saveTasksToFile(tasksPath, tasks, targetTag, logger) {
 
 	// Read existing file to preserve other tags
 	let outputData = {};
-	if (fs.existsSync(tasksPath)) {
+	if (tasksFileExists(tasksPath)) {
 		try {
-			const existingFileContent = fs.readFileSync(tasksPath, 'utf8');
-			outputData = JSON.parse(existingFileContent);
+			outputData = readTasksFile(tasksPath);
 		} catch (error) {
 			outputData = {};
 		}
@@ -214,7 +218,7 @@ export function saveTasksToFile(tasksPath, tasks, targetTag, logger) {
 	});
 
 	// Write back to file
-	fs.writeFileSync(tasksPath, JSON.stringify(outputData, null, 2));
+	writeJSON(tasksPath, outputData);
 
 	logger.report(
 		`Successfully saved ${tasks.length} tasks to ${tasksPath}`,
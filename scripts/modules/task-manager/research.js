@@ -17,7 +17,8 @@ import {
 	log as consoleLog,
 	findProjectRoot,
 	readJSON,
-	flattenTasksWithSubtasks
+	flattenTasksWithSubtasks,
+	tasksFileExists
 } from '../utils.js';
 import {
 	displayAiUsageSummary,
@@ -764,7 +765,7 @@ async function handleSaveToTask(
 			'tasks.json'
 		);
 
-		if (!fs.existsSync(tasksPath)) {
+		if (!tasksFileExists(tasksPath)) {
 			console.log(
 				chalk.red('❌ Tasks file not found. Please run task-master init first.')
 			);
@@ -14,7 +14,9 @@ import {
 	getTasksForTag,
 	setTasksForTag,
 	findProjectRoot,
-	truncate
+	truncate,
+	withoutChangeJournal,
+	renameChangeJournal
 } from '../utils.js';
 import { displayBanner, getStatusWithColor } from '../ui.js';
 import findNextTask from './find-next-task.js';
@@ -173,7 +175,7 @@ async function createTag(
 		}
 
 		// Write the clean data back to file with proper context to avoid tag corruption
-		writeJSON(tasksPath, cleanData, projectRoot);
+		withoutChangeJournal(() => writeJSON(tasksPath, cleanData, projectRoot));
 
 		logFn.success(`Successfully created tag "${tagName}"`);
 
@@ -393,7 +395,7 @@ async function deleteTag(
 		}
 
 		// Write the clean data back to file with proper context to avoid tag corruption
-		writeJSON(tasksPath, cleanData, projectRoot);
+		withoutChangeJournal(() => writeJSON(tasksPath, cleanData, projectRoot));
 
 		logFn.success(`Successfully deleted tag "${tagName}"`);
 
@@ -1007,7 +1009,8 @@ async function renameTag(
 		}
 
 		// Write the clean data back to file with proper context to avoid tag corruption
-		writeJSON(tasksPath, cleanData, projectRoot);
+		withoutChangeJournal(() => writeJSON(tasksPath, cleanData, projectRoot));
+		renameChangeJournal(tasksPath, oldName, newName);
 
 		// Get task count
 		const tasks = getTasksForTag(rawData, newName);
@@ -1164,7 +1167,7 @@ async function copyTag(
 		}
 
 		// Write the clean data back to file with proper context to avoid tag corruption
-		writeJSON(tasksPath, cleanData, projectRoot);
+		withoutChangeJournal(() => writeJSON(tasksPath, cleanData, projectRoot));
 
 		logFn.success(
 			`Successfully copied tag from "${sourceName}" to "${targetName}"`
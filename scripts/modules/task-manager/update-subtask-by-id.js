@@ -1,4 +1,3 @@
-import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
 import boxen from 'boxen';
@@ -17,7 +16,8 @@ import {
 	truncate,
 	isSilentMode,
 	findProjectRoot,
-	flattenTasksWithSubtasks
+	flattenTasksWithSubtasks,
+	tasksFileExists
 } from '../utils.js';
 import { generateTextService } from '../ai-services-unified.js';
 import { getDebugFlag, hasCodebaseAnalysis } from '../config-manager.js';
@@ -83,7 +83,7 @@ async function updateSubtaskById(
 			);
 		}
 
-		if (!fs.existsSync(tasksPath)) {
+		if (!tasksFileExists(tasksPath)) {
 			throw new Error(`Tasks file not found at path: ${tasksPath}`);
 		}
 
@@ -1,4 +1,3 @@
-import fs from 'fs';
 import chalk from 'chalk';
 import boxen from 'boxen';
 import Table from 'cli-table3';
@@ -8,7 +7,8 @@ import {
 	writeJSON,
 	truncate,
 	flattenTasksWithSubtasks,
-	findProjectRoot
+	findProjectRoot,
+	tasksFileExists
 } from '../utils.js';
 
 import {
@@ -112,7 +112,7 @@ async function updateTaskById(
 		// --- End BRIDGE ---
 
 		// For file storage, ensure the tasks file exists
-		if (!fs.existsSync(tasksPath))
+		if (!tasksFileExists(tasksPath))
 			throw new Error(`Tasks file not found: ${tasksPath}`);
 		// --- End Input Validations ---
 
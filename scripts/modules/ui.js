@@ -16,7 +16,8 @@ import {
 	readJSON,
 	truncate,
 	isSilentMode,
-	formatTaskId
+	formatTaskId,
+	tasksFileExists
 } from './utils.js';
 import fs from 'fs';
 import {
@@ -1790,7 +1791,7 @@ async function displayComplexityReport(reportPath) {
 			// Call the analyze-complexity command
 			console.log(chalk.blue('Generating complexity report...'));
 			const tasksPath = TASKMASTER_TASKS_FILE;
-			if (!fs.existsSync(tasksPath)) {
+			if (!tasksFileExists(tasksPath)) {
 				console.error(
 					'❌ No tasks.json file found. Please run "task-master init" or create a tasks.json file.'
 				);
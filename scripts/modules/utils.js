@@ -3,17 +3,26 @@
  * Utility functions for the Task Master CLI
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
 import chalk from 'chalk';
 import dotenv from 'dotenv';
+import { MarkdownTaskFormat, diffTasks } from '@tm/core';
 // Import specific config getters needed here
 import { getLogLevel, getDebugFlag } from './config-manager.js';
 import * as gitUtils from './utils/git-utils.js';
+import { withFileLockSync } from './utils/file-lock.js';
 import {
 	COMPLEXITY_REPORT_FILE,
 	LEGACY_COMPLEXITY_REPORT_FILE,
-	LEGACY_CONFIG_FILE
+	LEGACY_CONFIG_FILE,
+	TASKMASTER_CONFIG_FILE,
+	TASKMASTER_DIR,
+	TASKMASTER_TASKS_FILE
 } from '../../src/constants/paths.js';
 
 // Global silent mode flag
@@ -299,6 +308,202 @@ function normalizeTaskIds(tasks) {
 	});
 }
 
+/**
+ * Finds the .taskmaster/config.json of the project a tasks file belongs to
+ * @param {string} tasksPath - Path to the tasks.json file
+ * @returns {string|null} Path of the config file, or null if there is none
+ */
+function findTaskmasterConfig(tasksPath) {
+	let dir = path.dirname(path.resolve(tasksPath));
+	while (true) {
+		const configPath = path.join(dir, TASKMASTER_CONFIG_FILE);
+		if (fs.existsSync(configPath)) {
+			return configPath;
+		}
+		const parent = path.dirname(dir);
+		if (parent === dir) {
+			return null;
+		}
+		dir = parent;
+	}
+}
+
+/**
+ * Reads the "storage" settings of the project a tasks file belongs to
+ * @param {string} tasksPath - Path to the tasks.json file
+ * @returns {Object} The storage settings of .taskmaster/config.json, or {}
+ */
+function readStorageConfig(tasksPath) {
+	const configPath = findTaskmasterConfig(tasksPath);
+	if (!configPath) {
+		return {};
+	}
+	try {
+		return JSON.parse(fs.readFileSync(configPath, 'utf8')).storage ?? {};
+	} catch (error) {
+		// Unreadable config: the config manager reports it
+		return {};
+	}
+}
+
+/**
+ * Throws when the storage settings moved the tasks into a database, so
+ * commands don't read or write a stale tasks.json next to it
+ * @param {string} tasksPath - Path to the tasks.json file
+ */
+function assertTasksJsonStorage(tasksPath) {
+	const storageType =
+		process.env.TASKMASTER_STORAGE_TYPE || readStorageConfig(tasksPath).type;
+	if (storageType === 'sqlite') {
+		throw new Error(
+			'This command only reads and writes tasks files, but storage.type is "sqlite", so the tasks are in tasks.db. Use the tm commands, or run "task-master migrate-storage --to file --force" and set storage.type to "file".'
+		);
+	}
+}
+
+const markdownFormat = new MarkdownTaskFormat();
+
+/**
+ * Finds the file that holds the tasks of a tasks.json path
+ * With storage.format "markdown" they are in tasks.md next to it, which is
+ * read and written in the same tag-keyed shape as tasks.json, and with
+ * storage.enableCompression in a gzip-compressed `.gz` file. Until the first
+ * save after compression is switched, the tasks are still in `otherPath`.
+ * @param {string} tasksPath - Path to the tasks.json file
+ * @returns {{path: string, otherPath: string, format: 'json'|'markdown'}} The tasks file
+ */
+function resolveTasksFile(tasksPath) {
+	assertTasksJsonStorage(tasksPath);
+	const storage = readStorageConfig(tasksPath);
+	const format = storage.format === 'markdown' ? 'markdown' : 'json';
+	const filePath =
+		format === 'markdown'
+			? path.join(path.dirname(tasksPath), 'tasks.md')
+			: tasksPath;
+	return storage.enableCompression === true
+		? { path: `${filePath}.gz`, otherPath: filePath, format }
+		: { path: filePath, otherPath: `${filePath}.gz`, format };
+}
+
+/**
+ * Path of the tasks file on disk: the configured one, or the one from before
+ * compression was switched if that is all there is
+ * @param {{path: string, otherPath: string}} file - Resolved tasks file
+ * @returns {string}
+ */
+function existingTasksFilePath(file) {
+	return !fs.existsSync(file.path) && fs.existsSync(file.otherPath)
+		? file.otherPath
+		: file.path;
+}
+
+/**
+ * Whether the tasks of a tasks.json path exist, in whichever file the
+ * storage settings keep them
+ * @param {string} tasksPath - Path to the tasks.json file
+ * @returns {boolean}
+ */
+function tasksFileExists(tasksPath) {
+	if (!tasksPath) {
+		return false;
+	}
+	return fs.existsSync(
+		isTasksFile(tasksPath)
+			? existingTasksFilePath(resolveTasksFile(tasksPath))
+			: tasksPath
+	);
+}
+
+/**
+ * Reads the tag-keyed data of a tasks file, from whichever file the storage
+ * settings keep it in, without resolving a tag
+ * @param {string} tasksPath - Path to the tasks.json file
+ * @returns {Object} The parsed data
+ * @throws {Error} When the file is missing or unreadable
+ */
+function readTasksFile(tasksPath) {
+	const file = resolveTasksFile(tasksPath);
+	const filePath = existingTasksFilePath(file);
+	const buffer = fs.readFileSync(filePath);
+	const content = (
+		filePath.endsWith('.gz') ? gunzipSync(buffer) : buffer
+	).toString('utf8');
+	return file.format === 'markdown'
+		? markdownFormat.parse(content)
+		: JSON.parse(content);
+}
+
+/**
+ * Writes the tag-keyed data of a tasks file in the configured format, and
+ * removes the copy from before a compression switch
+ * @param {string} tasksPath - Path to the tasks.json file
+ * @param {Object} data - Clean tagged data
+ */
+function writeTasksFile(tasksPath, data) {
+	const file = resolveTasksFile(tasksPath);
+	const content =
+		file.format === 'markdown'
+			? markdownFormat.serialize(data)
+			: JSON.stringify(data, null, 2);
+	fs.writeFileSync(
+		file.path,
+		file.path.endsWith('.gz') ? gzipSync(content) : content
+	);
+	fs.rmSync(file.otherPath, { force: true });
+}
+
+/** tasks-<timestamp>.<json|md>[.gz], as written by tm-core's BackupManager */
+const BACKUP_FILE_PATTERN =
+	/^tasks-\d{4}-\d\d-\d\dT\d\d-\d\d-\d\d-\d{3}Z\.(json|md)(\.gz)?$/;
+
+/**
+ * Copies the tasks file to .taskmaster/backups before it is overwritten, when
+ * storage.enableBackup is on, and keeps only the newest storage.maxBackups
+ * Uses the file names of tm-core's BackupManager, so `task-master backup`
+ * lists and restores these backups too.
+ * @param {string} tasksPath - Path to the tasks.json file
+ */
+function backupTasksFile(tasksPath) {
+	const storage = readStorageConfig(tasksPath);
+	const maxBackups = storage.maxBackups ?? 5;
+	const configPath = findTaskmasterConfig(tasksPath);
+	if (storage.enableBackup !== true || maxBackups <= 0 || !configPath) {
+		return;
+	}
+
+	const filePath = existingTasksFilePath(resolveTasksFile(tasksPath));
+	if (!fs.existsSync(filePath)) {
+		return;
+	}
+	const backupDir = path.join(path.dirname(configPath), 'backups');
+	fs.mkdirSync(backupDir, { recursive: true });
+
+	const extension = path.basename(filePath).replace(/^[^.]*/, '');
+	const taken = new Set(
+		fs.readdirSync(backupDir).map((file) => file.replace(/\..*$/, ''))
+	);
+	let time = Date.now();
+	const toName = (t) =>
+		`tasks-${new Date(t).toISOString().replace(/[:.]/g, '-')}`;
+	while (taken.has(toName(time))) {
+		time++;
+	}
+	fs.copyFileSync(
+		filePath,
+		path.join(backupDir, `${toName(time)}${extension}`),
+		fs.constants.COPYFILE_EXCL
+	);
+
+	const backups = fs
+		.readdirSync(backupDir)
+		.filter((file) => BACKUP_FILE_PATTERN.test(file))
+		.sort()
+		.reverse();
+	for (const file of backups.slice(maxBackups)) {
+		fs.rmSync(path.join(backupDir, file), { force: true });
+	}
+}
+
 /**
  * Reads and parses a JSON file
  * @param {string} filepath - Path to the JSON file
@@ -327,9 +532,15 @@ function readJSON(filepath, projectRoot = null, tag = null) {
 		return null;
 	}
 
+	if (isTasksFile(filepath)) {
+		assertTasksJsonStorage(filepath);
+	}
+
 	let data;
 	try {
-		data = JSON.parse(fs.readFileSync(filepath, 'utf8'));
+		data = isTasksFile(filepath)
+			? readTasksFile(filepath)
+			: JSON.parse(fs.readFileSync(filepath, 'utf8'));
 		if (isDebug) {
 			console.log(`Successfully read JSON from ${filepath}`);
 		}
@@ -341,7 +552,7 @@ function readJSON(filepath, projectRoot = null, tag = null) {
 	}
 
 	// If it's not a tasks.json file, return as-is
-	if (!filepath.includes('tasks.json') || !data) {
+	if (!isTasksFile(filepath) || !data) {
 		if (isDebug) {
 			console.log(`File is not tasks.json or data is null, returning as-is`);
 		}
@@ -449,6 +660,7 @@ function readJSON(filepath, projectRoot = null, tag = null) {
 				normalizeTaskIds(originalTaggedData[tagName].tasks);
 			}
 		}
+		recordSnapshot(filepath, originalTaggedData, originalTaggedData);
 
 		// Check and auto-switch git tags if enabled (for existing tagged format)
 		// This needs to run synchronously BEFORE tag resolution
@@ -711,6 +923,10 @@ function markMigrationForNotice(tasksJsonPath) {
 function writeJSON(filepath, data, projectRoot = null, tag = null) {
 	const isDebug = process.env.TASKMASTER_DEBUG === 'true';
 
+	if (isTasksFile(filepath)) {
+		assertTasksJsonStorage(filepath);
+	}
+
 	try {
 		let finalData = data;
 
@@ -730,7 +946,9 @@ function writeJSON(filepath, data, projectRoot = null, tag = null) {
 			}
 
 			// Re-read the full file to get the complete tagged structure
-			const rawFullData = JSON.parse(fs.readFileSync(filepath, 'utf8'));
+			const rawFullData = isTasksFile(filepath)
+				? readTasksFile(filepath)
+				: JSON.parse(fs.readFileSync(filepath, 'utf8'));
 
 			// Merge the updated data into the full structure
 			finalData = {
@@ -768,43 +986,27 @@ function writeJSON(filepath, data, projectRoot = null, tag = null) {
 		}
 
 		// Clean up any internal properties that shouldn't be persisted
-		let cleanData = finalData;
-		if (cleanData && typeof cleanData === 'object') {
-			// Remove any _rawTaggedData or tag properties from root level
-			const { _rawTaggedData, tag: tagProp, ...rootCleanData } = cleanData;
-			cleanData = rootCleanData;
-
-			// Additional cleanup for tag objects
-			if (typeof cleanData === 'object' && !Array.isArray(cleanData)) {
-				const finalCleanData = {};
-				for (const [key, value] of Object.entries(cleanData)) {
-					if (
-						value &&
-						typeof value === 'object' &&
-						Array.isArray(value.tasks)
-					) {
-						// This is a tag object - clean up any rogue root-level properties
-						const { created, description, ...cleanTagData } = value;
-
-						// Only keep the description if there's no metadata.description
-						if (
-							description &&
-							(!cleanTagData.metadata || !cleanTagData.metadata.description)
-						) {
-							cleanTagData.description = description;
-						}
-
-						finalCleanData[key] = cleanTagData;
-					} else {
-						finalCleanData[key] = value;
-					}
-				}
-				cleanData = finalCleanData;
-			}
+		const cleanData = stripInternalProperties(finalData);
+
+		if (isTasksFile(filepath)) {
+			// Hold the lock tm-core uses for the tasks file, and keep what other
+			// processes wrote since this process read it
+			withFileLockSync(resolveTasksFile(filepath).path, () => {
+				const base =
+					readSnapshots.get(data) ??
+					readSnapshots.get(data._rawTaggedData) ??
+					lastReadSnapshots.get(path.resolve(filepath));
+				const onDisk = readTasksOnDisk(filepath);
+				const merged = mergeWithTasksOnDisk(onDisk, cleanData, base);
+				backupTasksFile(filepath);
+				writeTasksFile(filepath, merged);
+				journalTasksWrite(filepath, onDisk, merged);
+			});
+			recordSnapshot(filepath, cleanData, data, data._rawTaggedData);
+		} else {
+			fs.writeFileSync(filepath, JSON.stringify(cleanData, null, 2), 'utf8');
 		}
 
-		fs.writeFileSync(filepath, JSON.stringify(cleanData, null, 2), 'utf8');
-
 		if (isDebug) {
 			console.log(`writeJSON: Successfully wrote to ${filepath}`);
 		}
@@ -816,6 +1018,301 @@ function writeJSON(filepath, data, projectRoot = null, tag = null) {
 	}
 }
 
+/**
+ * Removes the properties readJSON adds from tagged data before it is written
+ * @param {Object} data - Tagged data
+ * @returns {Object} Data as it is persisted
+ */
+function stripInternalProperties(data) {
+	if (!data || typeof data !== 'object') {
+		return data;
+	}
+
+	// Remove any _rawTaggedData or tag properties from root level
+	const { _rawTaggedData, tag: tagProp, ...cleanData } = data;
+	if (Array.isArray(cleanData)) {
+		return cleanData;
+	}
+
+	// Additional cleanup for tag objects
+	const finalCleanData = {};
+	for (const [key, value] of Object.entries(cleanData)) {
+		if (value && typeof value === 'object' && Array.isArray(value.tasks)) {
+			// This is a tag object - clean up any rogue root-level properties
+			const { created, description, ...cleanTagData } = value;
+
+			// Only keep the description if there's no metadata.description
+			if (
+				description &&
+				(!cleanTagData.metadata || !cleanTagData.metadata.description)
+			) {
+				cleanTagData.description = description;
+			}
+
+			finalCleanData[key] = cleanTagData;
+		} else {
+			finalCleanData[key] = value;
+		}
+	}
+	return finalCleanData;
+}
+
+// Tasks file contents as this process last read or wrote them, keyed by the
+// objects handed out by readJSON and by file path. writeJSON compares them with
+// the file on disk to keep the changes other processes made in the meantime.
+const readSnapshots = new WeakMap();
+const lastReadSnapshots = new Map();
+
+function isTasksFile(filepath) {
+	return path.basename(filepath) === path.basename(TASKMASTER_TASKS_FILE);
+}
+
+/**
+ * Remembers tagged tasks data as the base of the next write
+ * @param {string} filepath - Path to the tasks file
+ * @param {Object} taggedData - Tagged data as read or written
+ * @param {...Object} owners - Objects the caller will pass back to writeJSON
+ */
+function recordSnapshot(filepath, taggedData, ...owners) {
+	const snapshot = JSON.stringify(stripInternalProperties(taggedData));
+	lastReadSnapshots.set(path.resolve(filepath), snapshot);
+	for (const owner of owners) {
+		if (owner && typeof owner === 'object') {
+			readSnapshots.set(owner, snapshot);
+		}
+	}
+}
+
+/**
+ * Reads the tasks file as it is on disk right before a write
+ * @param {string} filepath - Path to the tasks file
+ * @returns {Object|null} Clean tagged data, or null when there is none
+ */
+function readTasksOnDisk(filepath) {
+	let data;
+	try {
+		data = stripInternalProperties(readTasksFile(filepath));
+	} catch (error) {
+		return null;
+	}
+	if (!hasTaggedStructure(data)) {
+		return null;
+	}
+	for (const tagData of Object.values(data)) {
+		normalizeTaskIds(tagData?.tasks);
+	}
+	return data;
+}
+
+/**
+ * Three-way merges tagged tasks data with the tasks file on disk
+ * Tags and tasks changed only on disk keep the disk version; when both sides
+ * changed a task, this write wins.
+ * @param {Object|null} theirs - The tasks file on disk, from readTasksOnDisk
+ * @param {Object} ours - Clean tagged data being written
+ * @param {string} [baseSnapshot] - The file as this process read it
+ * @returns {Object} The data to write
+ */
+function mergeWithTasksOnDisk(theirs, ours, baseSnapshot) {
+	if (!baseSnapshot || !theirs || !hasTaggedStructure(ours)) {
+		return ours;
+	}
+	if (JSON.stringify(theirs) === baseSnapshot) {
+		// Nobody else wrote the file
+		return ours;
+	}
+
+	const base = JSON.parse(baseSnapshot);
+	const entries = mergeEntries(
+		Object.entries(base),
+		Object.entries(ours),
+		Object.entries(theirs),
+		(tag, baseTag, ourTag, theirTag) => {
+			if (!Array.isArray(ourTag?.tasks) || !Array.isArray(theirTag?.tasks)) {
+				return ourTag;
+			}
+			const byId = (tasks = []) => tasks.map((task) => [String(task.id), task]);
+			const tasks = mergeEntries(
+				byId(baseTag?.tasks),
+				byId(ourTag.tasks),
+				byId(theirTag.tasks),
+				(taskId, baseTask, ourTask) => {
+					log(
+						'warn',
+						`Task ${taskId} in tag "${tag}" was changed by another process too, keeping the changes of this command`
+					);
+					return ourTask;
+				}
+			);
+			return {
+				...theirTag,
+				...ourTag,
+				tasks: tasks.map(([, task]) => task)
+			};
+		}
+	);
+	return Object.fromEntries(entries);
+}
+
+/**
+ * Three-way merges lists of [key, value] entries
+ * Keeps the order of ours, followed by the entries only theirs added.
+ * @returns {Array} The merged entries; removed entries are left out
+ */
+function mergeEntries(base, ours, theirs, resolveConflict) {
+	const baseValues = new Map(base);
+	const theirValues = new Map(theirs);
+	const ourKeys = new Set(ours.map(([key]) => key));
+	const same = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+	const pick = (key, ourValue) => {
+		const baseValue = baseValues.get(key);
+		const theirValue = theirValues.get(key);
+		if (same(ourValue, baseValue)) {
+			return theirValue;
+		}
+		if (same(theirValue, baseValue)) {
+			return ourValue;
+		}
+		return resolveConflict(key, baseValue, ourValue, theirValue);
+	};
+
+	return [
+		...ours.map(([key, value]) => [key, pick(key, value)]),
+		...theirs
+			.filter(([key]) => !ourKeys.has(key))
+			.map(([key]) => [key, pick(key, undefined)])
+	].filter(([, value]) => value !== undefined);
+}
+
+// Who tasks file writes are attributed to in the change journal: per MCP tool
+// call, or for the whole process (the CLI command being run)
+const changeContextStorage = new AsyncLocalStorage();
+let processChangeContext = {};
+let changeJournalPaused = 0;
+
+/**
+ * Sets who the tasks file writes of this process are attributed to in the
+ * change journal, e.g. `{ source: 'cli', command: 'set-status' }`
+ * @param {{source?: string, command?: string, user?: string}} context
+ */
+function setChangeContext(context) {
+	processChangeContext = context;
+}
+
+/**
+ * Runs a function with the tasks file writes it makes attributed to a change
+ * context, for servers that run several commands at once
+ * @param {{source?: string, command?: string, user?: string}} context
+ * @param {Function} fn - Function to run
+ * @returns {*} What fn returns
+ */
+function runWithChangeContext(context, fn) {
+	return changeContextStorage.run(context, fn);
+}
+
+/**
+ * Runs a function without journaling the tasks file writes it makes, for tag
+ * operations, which tm-core does not journal either
+ * @param {Function} fn - Synchronous function to run
+ * @returns {*} What fn returns
+ */
+function withoutChangeJournal(fn) {
+	changeJournalPaused++;
+	try {
+		return fn();
+	} finally {
+		changeJournalPaused--;
+	}
+}
+
+/**
+ * Path of a tag's change journal, as written by tm-core's ChangeJournal
+ * @param {string} tasksPath - Path to the tasks.json file
+ * @param {string} tag - Tag name
+ * @returns {string|null} The journal path, or null for a tasks file other
+ * than the .taskmaster/tasks/tasks.json of a project, which tm-core never reads
+ */
+function getChangeJournalPath(tasksPath, tag) {
+	const resolvedPath = path.resolve(tasksPath);
+	const projectRoot = path.resolve(resolvedPath, '..', '..', '..');
+	if (path.join(projectRoot, TASKMASTER_TASKS_FILE) !== resolvedPath) {
+		return null;
+	}
+	return path.join(
+		projectRoot,
+		TASKMASTER_DIR,
+		'history',
+		`${encodeURIComponent(tag)}.jsonl`
+	);
+}
+
+/**
+ * Appends a change journal entry for every tag whose tasks a write changed,
+ * in the format of tm-core's ChangeJournal, so `task-master history` and
+ * `task-master undo` cover the legacy commands too
+ * Journaling failures are logged, never failing the write itself.
+ * @param {string} tasksPath - Path to the tasks.json file
+ * @param {Object|null} before - The tasks file before the write
+ * @param {Object} after - The tasks file as written
+ */
+function journalTasksWrite(tasksPath, before, after) {
+	if (changeJournalPaused > 0 || !hasTaggedStructure(after)) {
+		return;
+	}
+
+	const context = changeContextStorage.getStore() ?? processChangeContext;
+	try {
+		for (const [tag, tagData] of Object.entries(after)) {
+			if (!Array.isArray(tagData?.tasks)) {
+				continue;
+			}
+			const changes = diffTasks(before?.[tag]?.tasks ?? [], tagData.tasks);
+			const journalPath = getChangeJournalPath(tasksPath, tag);
+			if (changes.length === 0 || !journalPath) {
+				continue;
+			}
+
+			const entry = {
+				id: randomUUID().slice(0, 8),
+				type: 'task-change',
+				timestamp: new Date().toISOString(),
+				...context,
+				user: context.user ?? getCurrentUser(),
+				tag,
+				operation: 'saveTasks',
+				changes
+			};
+			fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+			fs.appendFileSync(journalPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+		}
+	} catch (error) {
+		log('warn', `Could not write the change journal: ${error.message}`);
+	}
+}
+
+/**
+ * Moves a tag's change journal along with the tag
+ * @param {string} tasksPath - Path to the tasks.json file
+ * @param {string} oldTag - Current tag name
+ * @param {string} newTag - New tag name
+ */
+function renameChangeJournal(tasksPath, oldTag, newTag) {
+	const oldPath = getChangeJournalPath(tasksPath, oldTag);
+	if (oldPath && fs.existsSync(oldPath)) {
+		fs.renameSync(oldPath, getChangeJournalPath(tasksPath, newTag));
+	}
+}
+
+function getCurrentUser() {
+	try {
+		return os.userInfo().username;
+	} catch (error) {
+		// No passwd entry, e.g. in some containers
+		return undefined;
+	}
+}
+
 /**
  * Sanitizes a prompt string for use in a shell command
  * @param {string} prompt The prompt to sanitize
@@ -1583,6 +2080,12 @@ export {
 	log,
 	readJSON,
 	writeJSON,
+	tasksFileExists,
+	readTasksFile,
+	setChangeContext,
+	runWithChangeContext,
+	withoutChangeJournal,
+	renameChangeJournal,
 	sanitizePrompt,
 	readComplexityReport,
 	findTaskInComplexityReport,
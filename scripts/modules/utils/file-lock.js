@@ -0,0 +1,156 @@
+/**
+ * file-lock.js
+ * Synchronous `<file>.lock` files for the legacy writers
+ * Follows the lock file protocol of tm-core's FileLock, so the CLI, the MCP
+ * server and tm-core never write the tasks file at the same time
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const DEFAULT_LOCK_OPTIONS = {
+	timeout: 10000,
+	staleAfter: 30000,
+	retryInterval: 50
+};
+
+/**
+ * Run a function while holding the lock file of a file
+ * Waits for other processes to release the lock and takes over a lock whose
+ * process no longer runs on this host, or a lock of another host that has not
+ * been touched for `staleAfter`. The lock is only held while the synchronous
+ * function runs, so it needs no refreshing.
+ * @param {string} filePath - File to lock
+ * @param {Function} fn - Synchronous function to run under the lock
+ * @param {Object} [options] - timeout, staleAfter and retryInterval in milliseconds
+ * @returns {*} The result of fn
+ * @throws {Error} When the lock stays taken for longer than `timeout`
+ */
+function withFileLockSync(filePath, fn, options = {}) {
+	const { timeout, staleAfter, retryInterval } = {
+		...DEFAULT_LOCK_OPTIONS,
+		...options
+	};
+	const lockPath = `${filePath}.lock`;
+	const startedAt = Date.now();
+
+	let token = tryCreateLock(lockPath);
+	while (!token) {
+		if (!removeIfStale(lockPath, staleAfter)) {
+			if (Date.now() - startedAt >= timeout) {
+				const owner = readLockOwner(lockPath);
+				throw new Error(
+					`Timed out after ${timeout}ms waiting for the lock on ${filePath}${owner ? ` (held by process ${owner.pid} on ${owner.hostname})` : ''}`
+				);
+			}
+			sleepSync(retryInterval);
+		}
+		token = tryCreateLock(lockPath);
+	}
+
+	try {
+		return fn();
+	} finally {
+		// Only remove the lock if it is still ours
+		if (readLockOwner(lockPath)?.token === token) {
+			fs.rmSync(lockPath, { force: true });
+		}
+	}
+}
+
+/**
+ * Create the lock file exclusively
+ * @returns {string|null} The token of the new lock, or null if it is taken
+ */
+function tryCreateLock(lockPath) {
+	const owner = {
+		pid: process.pid,
+		hostname: os.hostname(),
+		token: randomUUID(),
+		acquiredAt: new Date().toISOString()
+	};
+
+	try {
+		fs.writeFileSync(lockPath, JSON.stringify(owner), { flag: 'wx' });
+		return owner.token;
+	} catch (error) {
+		if (error.code === 'EEXIST') {
+			return null;
+		}
+		if (error.code === 'ENOENT') {
+			fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+			return tryCreateLock(lockPath);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Remove an abandoned lock so the next attempt can take it
+ * @returns {boolean} True if the lock is gone
+ */
+function removeIfStale(lockPath, staleAfter) {
+	let modifiedAt;
+	try {
+		modifiedAt = fs.statSync(lockPath).mtimeMs;
+	} catch (error) {
+		// Released in the meantime
+		return error.code === 'ENOENT';
+	}
+
+	const owner = readLockOwner(lockPath);
+	const stale =
+		owner !== null && owner.hostname === os.hostname()
+			? !isProcessAlive(owner.pid)
+			: Date.now() - modifiedAt >= staleAfter;
+	if (!stale) {
+		return false;
+	}
+
+	// Move the lock aside before removing it, and put it back if it was taken
+	// over since it was judged stale
+	const stalePath = `${lockPath}.${randomUUID()}.stale`;
+	try {
+		fs.renameSync(lockPath, stalePath);
+	} catch (error) {
+		return error.code === 'ENOENT';
+	}
+	if (readLockOwner(stalePath)?.token !== owner?.token) {
+		try {
+			fs.linkSync(stalePath, lockPath);
+		} catch {
+			// Another process has taken the lock since
+		}
+		fs.rmSync(stalePath, { force: true });
+		return false;
+	}
+	fs.rmSync(stalePath, { force: true });
+	return true;
+}
+
+function readLockOwner(lockPath) {
+	try {
+		return JSON.parse(fs.readFileSync(lockPath, 'utf8'));
+	} catch {
+		// Missing, or still being written
+		return null;
+	}
+}
+
+function isProcessAlive(pid) {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM: the process exists but belongs to another user
+		return error.code === 'EPERM';
+	}
+}
+
+function sleepSync(ms) {
+	Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+export { withFileLockSync };
@@ -18,6 +18,7 @@ import {
 	COMPLEXITY_REPORT_FILE
 } from './constants/paths.js';
 import { findProjectRoot } from './utils/path-utils.js';
+import { tasksFileExists } from '../scripts/modules/utils.js';
 
 /**
  * TaskMaster class manages all the paths for the application.
@@ -165,7 +166,8 @@ export function initTaskMaster(overrides = {}) {
 		override,
 		defaultPaths = [],
 		basePath = null,
-		createParentDirs = false
+		createParentDirs = false,
+		exists = fs.existsSync
 	) => {
 		if (typeof override === 'string') {
 			const resolvedPath = path.isAbsolute(override)
@@ -186,7 +188,7 @@ export function initTaskMaster(overrides = {}) {
 				}
 			} else {
 				// Original validation logic
-				if (!fs.existsSync(resolvedPath)) {
+				if (!exists(resolvedPath)) {
 					throw new Error(
 						`${pathType} override path does not exist: ${resolvedPath}`
 					);
@@ -201,7 +203,7 @@ export function initTaskMaster(overrides = {}) {
 				const fullPath = path.isAbsolute(defaultPath)
 					? defaultPath
 					: path.join(basePath || process.cwd(), defaultPath);
-				if (fs.existsSync(fullPath)) {
+				if (exists(fullPath)) {
 					return fullPath;
 				}
 			}
@@ -215,7 +217,7 @@ export function initTaskMaster(overrides = {}) {
 			const fullPath = path.isAbsolute(defaultPath)
 				? defaultPath
 				: path.join(basePath || process.cwd(), defaultPath);
-			if (fs.existsSync(fullPath)) {
+			if (exists(fullPath)) {
 				return fullPath;
 			}
 		}
@@ -303,7 +305,10 @@ export function initTaskMaster(overrides = {}) {
 			'tasks file',
 			overrides.tasksPath,
 			[TASKMASTER_TASKS_FILE, LEGACY_TASKS_FILE],
-			paths.projectRoot
+			paths.projectRoot,
+			false,
+			// The storage settings may keep the tasks in tasks.md instead
+			tasksFileExists
 		);
 	}
 
@@ -19,6 +19,7 @@ import {
 	LEGACY_CONFIG_FILE
 } from '../constants/paths.js';
 import { getLoggerOrDefault } from './logger-utils.js';
+import { tasksFileExists } from '../../scripts/modules/utils.js';
 import {
 	findProjectRoot as findProjectRootCore,
 	normalizeProjectRoot as normalizeProjectRootCore
@@ -81,7 +82,7 @@ export function findTasksPath(explicitPath = null, args = null, log = null) {
 			? explicitPath
 			: path.resolve(projectRoot, explicitPath);
 
-		if (fs.existsSync(resolvedPath)) {
+		if (tasksFileExists(resolvedPath)) {
 			logger.info?.(`Using explicit tasks path: ${resolvedPath}`);
 			return resolvedPath;
 		} else {
@@ -98,7 +99,7 @@ export function findTasksPath(explicitPath = null, args = null, log = null) {
 	];
 
 	for (const tasksPath of possiblePaths) {
-		if (fs.existsSync(tasksPath)) {
+		if (tasksFileExists(tasksPath)) {
 			logger.info?.(`Found tasks file at: ${tasksPath}`);
 
 			// Issue deprecation warning for legacy paths
@@ -330,7 +330,9 @@ jest.unstable_mockModule('../../scripts/modules/utils.js', () => ({
 	aggregateTelemetry: mockAggregateTelemetry,
 	getCurrentTag: mockGetCurrentTag,
 	resolveTag: mockResolveTag,
-	getTasksForTag: mockGetTasksForTag
+	getTasksForTag: mockGetTasksForTag,
+	tasksFileExists: jest.fn(() => false),
+	readTasksFile: jest.fn()
 }));
 
 // Import the module to test (AFTER mocks)
@@ -1,11 +1,11 @@
 // In tests/unit/parse-prd.test.js
 // Testing parse-prd.js file extension compatibility with real files
 
-import { jest } from '@jest/globals';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import os from 'os';
+import { jest } from '@jest/globals';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -59,7 +59,13 @@ jest.unstable_mockModule('../../scripts/modules/config-manager.js', () => ({
 // Mock utils comprehensively to prevent CLI behavior
 jest.unstable_mockModule('../../scripts/modules/utils.js', () => ({
 	log: jest.fn(),
-	writeJSON: jest.fn(),
+	writeJSON: jest.fn((filePath, data) =>
+		fs.writeFileSync(filePath, JSON.stringify(data, null, 2))
+	),
+	tasksFileExists: jest.fn((filePath) => fs.existsSync(filePath)),
+	readTasksFile: jest.fn((filePath) =>
+		JSON.parse(fs.readFileSync(filePath, 'utf8'))
+	),
 	enableSilentMode: jest.fn(),
 	disableSilentMode: jest.fn(),
 	isSilentMode: jest.fn(() => false),
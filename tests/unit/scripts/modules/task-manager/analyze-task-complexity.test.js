@@ -43,7 +43,11 @@ jest.unstable_mockModule('../../../../../scripts/modules/utils.js', () => ({
 	performCompleteTagMigration: jest.fn(),
 	setTasksForTag: jest.fn(),
 	getTasksForTag: jest.fn((data, tag) => data[tag]?.tasks || []),
-	traverseDependencies: jest.fn((tasks, taskId, visited) => [])
+	traverseDependencies: jest.fn((tasks, taskId, visited) => []),
+	tasksFileExists: jest.fn(() => false),
+	readTasksFile: jest.fn(),
+	withoutChangeJournal: jest.fn((fn) => fn()),
+	renameChangeJournal: jest.fn()
 }));
 
 jest.unstable_mockModule(
@@ -22,7 +22,11 @@ jest.unstable_mockModule('../../../../../scripts/modules/utils.js', () => ({
 	findTaskById: jest.fn(),
 	ensureTagMetadata: jest.fn((tagObj) => tagObj),
 	getCurrentTag: jest.fn(() => 'master'),
-	promptYesNo: jest.fn()
+	promptYesNo: jest.fn(),
+	tasksFileExists: jest.fn((filePath) => mockFs.existsSync(filePath)),
+	readTasksFile: jest.fn((filePath) =>
+		JSON.parse(mockFs.readFileSync(filePath, 'utf8'))
+	)
 }));
 
 jest.unstable_mockModule(
@@ -228,16 +232,17 @@ jest.unstable_mockModule(
 );
 
 // Mock fs module
+const mockFs = {
+	readFileSync: jest.fn(),
+	existsSync: jest.fn(),
+	mkdirSync: jest.fn(),
+	writeFileSync: jest.fn(),
+	promises: {
+		readFile: jest.fn()
+	}
+};
 jest.unstable_mockModule('fs', () => ({
-	default: {
-		readFileSync: jest.fn(),
-		existsSync: jest.fn(),
-		mkdirSync: jest.fn(),
-		writeFileSync: jest.fn(),
-		promises: {
-			readFile: jest.fn()
-		}
-	},
+	default: mockFs,
 	readFileSync: jest.fn(),
 	existsSync: jest.fn(),
 	mkdirSync: jest.fn(),
@@ -324,7 +329,7 @@ jest.unstable_mockModule('../../../../../src/ui/parse-prd.js', () => ({
 }));
 
 // Import the mocked modules
-const { readJSON, promptYesNo } = await import(
+const { readJSON, writeJSON, promptYesNo } = await import(
 	'../../../../../scripts/modules/utils.js'
 );
 
@@ -506,10 +511,10 @@ describe('parsePRD', () => {
 		// Verify directory check
 		expect(fs.default.existsSync).toHaveBeenCalledWith('tasks');
 
-		// Verify fs.writeFileSync was called with the correct arguments in tagged format
-		expect(fs.default.writeFileSync).toHaveBeenCalledWith(
+		// Verify writeJSON was called with the correct arguments in tagged format
+		expect(writeJSON).toHaveBeenCalledWith(
 			'tasks/tasks.json',
-			expect.stringContaining('"master"')
+			expect.objectContaining({ master: expect.any(Object) })
 		);
 
 		// Verify result
@@ -520,8 +525,7 @@ describe('parsePRD', () => {
 		});
 
 		// Verify that the written data contains 2 tasks from sampleClaudeResponse in the correct tag
-		const writtenDataString = fs.default.writeFileSync.mock.calls[0][1];
-		const writtenData = JSON.parse(writtenDataString);
+		const writtenData = writeJSON.mock.calls[0][1];
 		expect(writtenData.master.tasks.length).toBe(2);
 	});
 
@@ -627,9 +631,9 @@ describe('parsePRD', () => {
 		expect(promptYesNo).not.toHaveBeenCalled();
 
 		// Verify the file was written after force overwrite
-		expect(fs.default.writeFileSync).toHaveBeenCalledWith(
+		expect(writeJSON).toHaveBeenCalledWith(
 			'tasks/tasks.json',
-			expect.stringContaining('"master"')
+			expect.objectContaining({ master: expect.any(Object) })
 		);
 	});
 
@@ -659,7 +663,7 @@ describe('parsePRD', () => {
 		expect(promptYesNo).not.toHaveBeenCalled();
 
 		// Verify the file was NOT written
-		expect(fs.default.writeFileSync).not.toHaveBeenCalled();
+		expect(writeJSON).not.toHaveBeenCalled();
 	});
 
 	test('should throw error when tasks in tag exist without force flag in CLI mode', async () => {
@@ -676,7 +680,7 @@ describe('parsePRD', () => {
 		).rejects.toThrow('process.exit was called with code 1');
 
 		// Verify the file was NOT written
-		expect(fs.default.writeFileSync).not.toHaveBeenCalled();
+		expect(writeJSON).not.toHaveBeenCalled();
 	});
 
 	test('should append new tasks when append option is true', async () => {
@@ -713,9 +717,9 @@ describe('parsePRD', () => {
 		expect(promptYesNo).not.toHaveBeenCalled();
 
 		// Verify the file was written with merged tasks in the correct tag
-		expect(fs.default.writeFileSync).toHaveBeenCalledWith(
+		expect(writeJSON).toHaveBeenCalledWith(
 			'tasks/tasks.json',
-			expect.stringContaining('"master"')
+			expect.objectContaining({ master: expect.any(Object) })
 		);
 
 		// Verify the result contains merged tasks
@@ -726,8 +730,7 @@ describe('parsePRD', () => {
 		});
 
 		// Verify that the written data contains 4 tasks (2 existing + 2 new)
-		const writtenDataString = fs.default.writeFileSync.mock.calls[0][1];
-		const writtenData = JSON.parse(writtenDataString);
+		const writtenData = writeJSON.mock.calls[0][1];
 		expect(writtenData.master.tasks.length).toBe(4);
 	});
 
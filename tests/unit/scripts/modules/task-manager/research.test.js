@@ -5,7 +5,8 @@ jest.unstable_mockModule('../../../../../scripts/modules/utils.js', () => ({
 	log: jest.fn(),
 	readJSON: jest.fn(),
 	flattenTasksWithSubtasks: jest.fn(() => []),
-	isEmpty: jest.fn(() => false)
+	isEmpty: jest.fn(() => false),
+	tasksFileExists: jest.fn(() => true)
 }));
 
 // Mock UI-affecting external libs to minimal no-op implementations
@@ -1,15 +1,13 @@
 import { jest } from '@jest/globals';
 
 // Provide fs mock early so existsSync can be stubbed
-jest.unstable_mockModule('fs', () => {
-	const mockFs = {
-		existsSync: jest.fn(() => true),
-		writeFileSync: jest.fn(),
-		readFileSync: jest.fn(),
-		unlinkSync: jest.fn()
-	};
-	return { default: mockFs, ...mockFs };
-});
+const mockFs = {
+	existsSync: jest.fn(() => true),
+	writeFileSync: jest.fn(),
+	readFileSync: jest.fn(),
+	unlinkSync: jest.fn()
+};
+jest.unstable_mockModule('fs', () => ({ default: mockFs, ...mockFs }));
 
 // --- Mock dependencies ---
 jest.unstable_mockModule('../../../../../scripts/modules/utils.js', () => ({
@@ -28,7 +26,8 @@ jest.unstable_mockModule('../../../../../scripts/modules/utils.js', () => ({
 	addComplexityToTask: jest.fn((task, complexity) => ({ ...task, complexity })),
 	getTasksForTag: jest.fn((data, tag) => data[tag]?.tasks || []),
 	setTasksForTag: jest.fn(),
-	ensureTagMetadata: jest.fn((tagObj) => tagObj)
+	ensureTagMetadata: jest.fn((tagObj) => tagObj),
+	tasksFileExists: jest.fn((filePath) => mockFs.existsSync(filePath))
 }));
 
 jest.unstable_mockModule('../../../../../scripts/modules/ui.js', () => ({
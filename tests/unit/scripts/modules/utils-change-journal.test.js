@@ -0,0 +1,131 @@
+/**
+ * Tests for the change journal entries of tasks.json writes, which the
+ * history and undo commands of tm-core read
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTmCore } from '@tm/core';
+import {
+	readJSON,
+	runWithChangeContext,
+	setChangeContext,
+	writeJSON
+} from '../../../../scripts/modules/utils.js';
+import removeTask from '../../../../scripts/modules/task-manager/remove-task.js';
+import {
+	copyTag,
+	renameTag
+} from '../../../../scripts/modules/task-manager/tag-management.js';
+
+describe('change journal of tasks.json writes', () => {
+	let projectRoot;
+	let tasksPath;
+
+	const task = (id, title) => ({
+		id,
+		title,
+		description: `${title} description`,
+		status: 'pending',
+		priority: 'medium',
+		dependencies: [],
+		details: '',
+		testStrategy: '',
+		subtasks: []
+	});
+
+	const readJournal = (tag) => {
+		const journalPath = path.join(
+			projectRoot,
+			'.taskmaster',
+			'history',
+			`${tag}.jsonl`
+		);
+		if (!fs.existsSync(journalPath)) {
+			return [];
+		}
+		return fs
+			.readFileSync(journalPath, 'utf8')
+			.trim()
+			.split('\n')
+			.map((line) => JSON.parse(line));
+	};
+
+	beforeEach(() => {
+		projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'tm-change-journal-'));
+		tasksPath = path.join(projectRoot, '.taskmaster', 'tasks', 'tasks.json');
+		fs.mkdirSync(path.dirname(tasksPath), { recursive: true });
+		fs.writeFileSync(
+			path.join(projectRoot, '.taskmaster', 'config.json'),
+			JSON.stringify({ storage: { type: 'file' } })
+		);
+		fs.writeFileSync(
+			tasksPath,
+			JSON.stringify({
+				master: {
+					tasks: [task(1, 'Set up'), task(2, 'Ship it')],
+					metadata: {}
+				}
+			})
+		);
+		setChangeContext({ source: 'cli', command: 'remove-task' });
+	});
+
+	afterEach(() => {
+		setChangeContext({});
+		fs.rmSync(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should let tm-core undo a legacy removeTask', async () => {
+		await removeTask(tasksPath, '2', { projectRoot, tag: 'master' });
+
+		const [entry] = readJournal('master');
+		expect(entry).toMatchObject({
+			type: 'task-change',
+			source: 'cli',
+			command: 'remove-task',
+			tag: 'master',
+			operation: 'saveTasks',
+			changes: [{ taskId: '2', type: 'deleted', before: task(2, 'Ship it') }]
+		});
+
+		const tmCore = await createTmCore({ projectPath: projectRoot });
+		await tmCore.history.undo({}, 'master');
+
+		const tasks = readJSON(tasksPath, projectRoot, 'master').tasks;
+		expect(tasks.map((t) => t.id)).toEqual([1, 2]);
+		expect(tasks[1]).toEqual(task(2, 'Ship it'));
+	});
+
+	it('should attribute writes to the change context they run in', async () => {
+		const data = readJSON(tasksPath, projectRoot, 'master');
+		data.tasks[0].status = 'done';
+
+		await runWithChangeContext(
+			{ source: 'mcp', command: 'set_task_status' },
+			() => writeJSON(tasksPath, data, projectRoot, 'master')
+		);
+
+		const [entry] = readJournal('master');
+		expect(entry).toMatchObject({
+			source: 'mcp',
+			command: 'set_task_status',
+			changes: [{ taskId: '1', type: 'updated', fields: ['status'] }]
+		});
+	});
+
+	it('should not journal tag operations, and move the journal on rename', async () => {
+		const context = { projectRoot };
+
+		await copyTag(tasksPath, 'master', 'copy', {}, context, 'json');
+		expect(readJournal('copy')).toEqual([]);
+
+		await removeTask(tasksPath, '2', { projectRoot, tag: 'copy' });
+		await renameTag(tasksPath, 'copy', 'feature', {}, context, 'json');
+
+		expect(readJournal('copy')).toEqual([]);
+		expect(readJournal('feature')).toHaveLength(1);
+		expect(readJournal('master')).toEqual([]);
+	});
+});
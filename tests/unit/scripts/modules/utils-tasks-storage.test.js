@@ -0,0 +1,127 @@
+/**
+ * Tests for tasks.json reads and writes when the storage settings keep the
+ * tasks in another file
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { readJSON, writeJSON } from '../../../../scripts/modules/utils.js';
+
+describe('readJSON and writeJSON with other task storage', () => {
+	let projectRoot;
+	let tasksPath;
+
+	const setStorage = (storage) =>
+		fs.writeFileSync(
+			path.join(projectRoot, '.taskmaster', 'config.json'),
+			JSON.stringify({ storage })
+		);
+
+	beforeEach(() => {
+		projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'tm-tasks-storage-'));
+		tasksPath = path.join(projectRoot, '.taskmaster', 'tasks', 'tasks.json');
+		fs.mkdirSync(path.dirname(tasksPath), { recursive: true });
+		fs.writeFileSync(
+			tasksPath,
+			JSON.stringify({ master: { tasks: [], metadata: {} } })
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should read tasks.json with the default storage', () => {
+		setStorage({ type: 'file', format: 'json' });
+
+		expect(readJSON(tasksPath, projectRoot, 'master').tasks).toEqual([]);
+	});
+
+	it('should read and write tasks.md when the format is markdown', () => {
+		setStorage({ format: 'markdown' });
+		const task = {
+			id: 1,
+			title: 'Ship it',
+			description: 'Release the build',
+			status: 'pending',
+			dependencies: [],
+			subtasks: [{ id: 1, title: 'Tag', status: 'done', dependencies: [] }]
+		};
+
+		writeJSON(tasksPath, { master: { tasks: [task] } }, projectRoot);
+
+		const tasksMdPath = path.join(path.dirname(tasksPath), 'tasks.md');
+		expect(fs.readFileSync(tasksMdPath, 'utf8')).toContain(
+			'## Task 1: Ship it'
+		);
+		expect(JSON.parse(fs.readFileSync(tasksPath, 'utf8')).master.tasks).toEqual(
+			[]
+		);
+		expect(readJSON(tasksPath, projectRoot, 'master').tasks).toEqual([task]);
+	});
+
+	it('should treat only files named tasks.json as the tasks file', () => {
+		setStorage({ format: 'markdown' });
+		const copyPath = path.join(path.dirname(tasksPath), 'my-tasks.json.bak');
+
+		writeJSON(copyPath, { master: { tasks: [] } }, projectRoot);
+
+		expect(JSON.parse(fs.readFileSync(copyPath, 'utf8'))).toEqual({
+			master: { tasks: [] }
+		});
+		expect(fs.existsSync(path.join(path.dirname(tasksPath), 'tasks.md'))).toBe(
+			false
+		);
+	});
+
+	it('should refuse the tasks.json left behind by a move to SQLite', () => {
+		setStorage({ type: 'sqlite' });
+
+		expect(() => readJSON(tasksPath, projectRoot, 'master')).toThrow(
+			'storage.type is "sqlite", so the tasks are in tasks.db'
+		);
+	});
+
+	it('should read and write tasks.json.gz when compression is on', () => {
+		setStorage({ enableCompression: true });
+		const task = { id: 1, title: 'Ship it', status: 'pending' };
+
+		writeJSON(tasksPath, { master: { tasks: [task] } }, projectRoot);
+
+		expect(fs.existsSync(tasksPath)).toBe(false);
+		const stored = JSON.parse(
+			zlib.gunzipSync(fs.readFileSync(`${tasksPath}.gz`)).toString('utf8')
+		);
+		expect(stored.master.tasks).toEqual([task]);
+		expect(readJSON(tasksPath, projectRoot, 'master').tasks).toEqual([task]);
+	});
+
+	it('should read tasks.json until the first save after compression is switched on', () => {
+		setStorage({ enableCompression: true });
+
+		expect(readJSON(tasksPath, projectRoot, 'master').tasks).toEqual([]);
+	});
+
+	it('should back up the tasks file before a save when backups are on', () => {
+		setStorage({ enableBackup: true, maxBackups: 2 });
+		const backupsDir = path.join(projectRoot, '.taskmaster', 'backups');
+
+		for (const id of [1, 2, 3]) {
+			writeJSON(
+				tasksPath,
+				{ master: { tasks: [{ id, title: `Task ${id}` }] } },
+				projectRoot
+			);
+		}
+
+		const backups = fs.readdirSync(backupsDir).sort();
+		expect(backups).toHaveLength(2);
+		expect(backups[0]).toMatch(/^tasks-.*Z\.json$/);
+		const newest = JSON.parse(
+			fs.readFileSync(path.join(backupsDir, backups[1]), 'utf8')
+		);
+		expect(newest.master.tasks).toEqual([{ id: 2, title: 'Task 2' }]);
+	});
+});
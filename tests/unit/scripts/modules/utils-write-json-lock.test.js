@@ -0,0 +1,158 @@
+/**
+ * Tests for the tasks file lock and merge of writeJSON, with real processes
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const repoRoot = path.resolve(
+	path.dirname(fileURLToPath(import.meta.url)),
+	'../../../..'
+);
+const utilsUrl = pathToFileURL(
+	path.join(repoRoot, 'scripts/modules/utils.js')
+).href;
+
+// Reads the tasks, waits for the go file, then sets the status of one task
+const updateStatusScript = `
+import fs from 'fs';
+import { readJSON, writeJSON } from '${utilsUrl}';
+
+const [projectRoot, tasksPath, taskId, readyFile, goFile] = process.argv.slice(1);
+const data = readJSON(tasksPath, projectRoot, 'master');
+fs.writeFileSync(readyFile, '');
+while (!fs.existsSync(goFile)) {
+	Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 20);
+}
+data.tasks.find((task) => task.id === Number(taskId)).status = 'done';
+writeJSON(tasksPath, data, projectRoot, 'master');
+`;
+
+const task = (id) => ({
+	id,
+	title: `Task ${id}`,
+	description: '',
+	status: 'pending',
+	priority: 'medium',
+	dependencies: [],
+	details: '',
+	testStrategy: '',
+	subtasks: []
+});
+
+const waitFor = async (condition) => {
+	const startedAt = Date.now();
+	while (!condition()) {
+		if (Date.now() - startedAt > 20000) {
+			throw new Error('Timed out waiting for the child process');
+		}
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+};
+
+describe('writeJSON across processes', () => {
+	let projectRoot;
+	let tasksPath;
+
+	const updateStatus = (taskId, goFile) => {
+		const readyFile = path.join(projectRoot, `ready-${taskId}`);
+		const child = spawn(
+			process.execPath,
+			[
+				// utils.js imports the TypeScript sources of @tm/core
+				'--import',
+				'tsx',
+				'--input-type=module',
+				'-e',
+				updateStatusScript,
+				projectRoot,
+				tasksPath,
+				String(taskId),
+				readyFile,
+				goFile
+			],
+			{ cwd: repoRoot, stdio: ['ignore', 'ignore', 'pipe'] }
+		);
+		let stderr = '';
+		child.stderr.on('data', (chunk) => {
+			stderr += chunk;
+		});
+		const exited = new Promise((resolve, reject) => {
+			child.on('error', reject);
+			child.on('exit', (code) =>
+				code === 0
+					? resolve()
+					: reject(new Error(`Child exited with ${code}: ${stderr}`))
+			);
+		});
+		return { ready: () => fs.existsSync(readyFile), exited };
+	};
+
+	const readStatuses = () =>
+		JSON.parse(fs.readFileSync(tasksPath, 'utf8')).master.tasks.map(
+			(t) => t.status
+		);
+
+	beforeEach(() => {
+		projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'tm-write-json-'));
+		tasksPath = path.join(projectRoot, '.taskmaster', 'tasks', 'tasks.json');
+		fs.mkdirSync(path.dirname(tasksPath), { recursive: true });
+		fs.writeFileSync(
+			tasksPath,
+			JSON.stringify({
+				master: {
+					tasks: [task(1), task(2)],
+					metadata: { description: 'Tasks for master context' }
+				}
+			})
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(projectRoot, { recursive: true, force: true });
+	});
+
+	it('should keep the changes of two processes that read the same file', async () => {
+		const goFile = path.join(projectRoot, 'go');
+		const first = updateStatus(1, goFile);
+		const second = updateStatus(2, goFile);
+
+		// Both read before either writes
+		await waitFor(() => first.ready() && second.ready());
+		fs.writeFileSync(goFile, '');
+		await Promise.all([first.exited, second.exited]);
+
+		expect(readStatuses()).toEqual(['done', 'done']);
+		expect(fs.existsSync(`${tasksPath}.lock`)).toBe(false);
+	}, 30000);
+
+	it('should wait for the lock a live process holds, however old', async () => {
+		fs.writeFileSync(
+			`${tasksPath}.lock`,
+			JSON.stringify({
+				pid: process.pid,
+				hostname: os.hostname(),
+				token: 'held-by-test',
+				acquiredAt: new Date().toISOString()
+			})
+		);
+		// Older than staleAfter, but its process is alive
+		const past = new Date(Date.now() - 60000);
+		fs.utimesSync(`${tasksPath}.lock`, past, past);
+		const goFile = path.join(projectRoot, 'go');
+		fs.writeFileSync(goFile, '');
+		const child = updateStatus(1, goFile);
+
+		await waitFor(child.ready);
+		await new Promise((resolve) => setTimeout(resolve, 500));
+		expect(readStatuses()).toEqual(['pending', 'pending']);
+
+		fs.rmSync(`${tasksPath}.lock`);
+		await child.exited;
+
+		expect(readStatuses()).toEqual(['done', 'pending']);
+	}, 30000);
+});